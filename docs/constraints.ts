@@ -2,20 +2,30 @@
 import {
     box,
     ConstraintSpace,
+    constraints,
     createWorld,
     createWorldSettings,
+    cylinder,
     distanceConstraint,
     fixedConstraint,
+    gearConstraint,
     hingeConstraint,
+    type Listener,
     MotionType,
     motorSettings,
     MotorState,
+    PathRotationConstraintType,
+    pathConstraint,
+    pathConstraintPath,
     pointConstraint,
+    pulleyConstraint,
+    rackAndPinionConstraint,
     rigidBody,
     sliderConstraint,
     sphere,
+    updateWorld,
 } from 'crashcat';
-import { vec3 } from 'mathcat';
+import { type Vec3, vec3 } from 'mathcat';
 
 /* SNIPPET_START: basic */
 const world = createWorld(createWorldSettings());
@@ -247,3 +257,232 @@ const localConstraint = pointConstraint.create(world, {
     space: ConstraintSpace.LOCAL,
 });
 /* SNIPPET_END: local-vs-world */
+
+/* SNIPPET_START: gear */
+// two gears on hinges, a gear constraint couples their rotation
+const frame = rigidBody.create(world, {
+    shape: box.create({ halfExtents: [2, 0.1, 2] }),
+    objectLayer: 0,
+    motionType: MotionType.STATIC,
+    position: [0, 0, 0],
+});
+
+const gearA = rigidBody.create(world, {
+    shape: cylinder.create({ halfHeight: 0.1, radius: 0.5 }),
+    objectLayer: 1,
+    motionType: MotionType.DYNAMIC,
+    position: [-0.5, 1, 0],
+});
+
+const gearB = rigidBody.create(world, {
+    shape: cylinder.create({ halfHeight: 0.1, radius: 1 }),
+    objectLayer: 1,
+    motionType: MotionType.DYNAMIC,
+    position: [1, 1, 0],
+});
+
+const gearHingeSettings = {
+    bodyIdA: frame.id,
+    hingeAxisA: [0, 1, 0] as Vec3,
+    hingeAxisB: [0, 1, 0] as Vec3,
+    normalAxisA: [1, 0, 0] as Vec3,
+    normalAxisB: [1, 0, 0] as Vec3,
+};
+const hingeA = hingeConstraint.create(world, {
+    ...gearHingeSettings,
+    bodyIdB: gearA.id,
+    pointA: [-0.5, 1, 0],
+    pointB: [-0.5, 1, 0],
+});
+const hingeB = hingeConstraint.create(world, { ...gearHingeSettings, bodyIdB: gearB.id, pointA: [1, 1, 0], pointB: [1, 1, 0] });
+
+const gear = gearConstraint.create(world, {
+    bodyIdA: gearA.id,
+    bodyIdB: gearB.id,
+    hingeAxisA: [0, 1, 0],
+    hingeAxisB: [0, 1, 0],
+    // optional, the hinges are used to correct drift in the rotation of the gears
+    hingeConstraintIdA: hingeA.id,
+    hingeConstraintIdB: hingeB.id,
+});
+
+// gear b has twice the teeth of gear a, so it turns at half the rate in the opposite direction
+gearConstraint.setRatio(gear, 10, 20);
+/* SNIPPET_END: gear */
+
+/* SNIPPET_START: rack-and-pinion */
+// a pinion on a hinge drives a rack on a slider, e.g. for a steering rack or a sliding door
+const pinion = rigidBody.create(world, {
+    shape: cylinder.create({ halfHeight: 0.1, radius: 0.5 }),
+    objectLayer: 1,
+    motionType: MotionType.DYNAMIC,
+    position: [0, 3, 0],
+});
+
+const rack = rigidBody.create(world, {
+    shape: box.create({ halfExtents: [2, 0.1, 0.2] }),
+    objectLayer: 1,
+    motionType: MotionType.DYNAMIC,
+    position: [0, 3, 1],
+});
+
+const pinionHinge = hingeConstraint.create(world, {
+    bodyIdA: frame.id,
+    bodyIdB: pinion.id,
+    pointA: [0, 3, 0],
+    pointB: [0, 3, 0],
+    hingeAxisA: [0, 1, 0],
+    hingeAxisB: [0, 1, 0],
+    normalAxisA: [1, 0, 0],
+    normalAxisB: [1, 0, 0],
+});
+
+const rackSlider = sliderConstraint.create(world, {
+    bodyIdA: frame.id,
+    bodyIdB: rack.id,
+    pointA: [0, 3, 1],
+    pointB: [0, 3, 1],
+    sliderAxisA: [1, 0, 0],
+    sliderAxisB: [1, 0, 0],
+    normalAxisA: [0, 1, 0],
+    normalAxisB: [0, 1, 0],
+});
+
+const rackAndPinion = rackAndPinionConstraint.create(world, {
+    bodyIdA: pinion.id,
+    bodyIdB: rack.id,
+    hingeAxisA: [0, 1, 0],
+    sliderAxisB: [1, 0, 0],
+    // optional, the hinge and slider are used to correct drift between the pinion and the rack
+    hingeConstraintId: pinionHinge.id,
+    sliderConstraintId: rackSlider.id,
+});
+
+// the ratio is the rotation of the pinion in radians per meter of translation of the rack,
+// it can be calculated from the number of teeth on the rack, the length of the rack and the number of teeth on the pinion
+rackAndPinionConstraint.setRatio(rackAndPinion, 20, 4, 10);
+/* SNIPPET_END: rack-and-pinion */
+
+/* SNIPPET_START: pulley */
+// a counterweight lifts a platform, the rope runs over two fixed points in the world
+const platform = rigidBody.create(world, {
+    shape: box.create({ halfExtents: [1, 0.1, 1] }),
+    objectLayer: 1,
+    motionType: MotionType.DYNAMIC,
+    position: [-3, 1, 0],
+    mass: 50,
+});
+
+const counterweight = rigidBody.create(world, {
+    shape: box.create({ halfExtents: [0.3, 0.3, 0.3] }),
+    objectLayer: 1,
+    motionType: MotionType.DYNAMIC,
+    position: [3, 4, 0],
+    mass: 60,
+});
+
+const pulley = pulleyConstraint.create(world, {
+    bodyIdA: platform.id,
+    bodyIdB: counterweight.id,
+    pointA: [-3, 1.1, 0],
+    pointB: [3, 4.3, 0],
+    fixedPointA: [-3, 8, 0],
+    fixedPointB: [3, 8, 0],
+    // length = length of rope a + ratio * length of rope b, use a ratio > 1 for a block and tackle
+    ratio: 1,
+    // the rope can go slack but not stretch beyond its initial length
+    minLength: 0,
+    maxLength: -1,
+});
+
+// shorten the rope to winch the platform up
+pulleyConstraint.setLength(pulley, 0, pulley.maxLength - 1);
+/* SNIPPET_END: pulley */
+
+/* SNIPPET_START: path */
+// a cart that follows a looping track, the track is attached to a static body
+const positions: Vec3[] = [];
+for (let i = 0; i < 16; i++) {
+    const angle = (i / 16) * Math.PI * 2;
+    positions.push([Math.cos(angle) * 10, Math.sin(angle * 2) * 2, Math.sin(angle) * 10]);
+}
+
+// catmull-rom: the path passes through the positions, normals point up
+const track = pathConstraintPath.fromCatmullRom(positions, [0, 1, 0], true);
+
+// or create a hermite path from points with explicit tangents and normals
+const ramp = pathConstraintPath.create([
+    { position: [0, 0, 0], tangent: [4, 0, 0], normal: [0, 1, 0] },
+    { position: [4, 2, 0], tangent: [4, 0, 0], normal: [0, 1, 0] },
+]);
+
+const cart = rigidBody.create(world, {
+    shape: box.create({ halfExtents: [0.5, 0.3, 0.8] }),
+    objectLayer: 1,
+    motionType: MotionType.DYNAMIC,
+    position: [10, 5.5, 0],
+});
+
+const rail = pathConstraint.create(world, {
+    bodyIdA: bodyA.id,
+    bodyIdB: cart.id,
+    path: track,
+    pathPosition: [0, 5, 0],
+    // the cart is attached at the start of the path
+    pathFraction: 0,
+    // the cart rotates with the track, like a roller coaster car
+    rotationConstraintType: PathRotationConstraintType.CONSTRAIN_TO_PATH,
+    maxFrictionForce: 10,
+});
+
+// drive the cart along the track at 5 m/s
+pathConstraint.setMotorState(rail, MotorState.VELOCITY);
+pathConstraint.setTargetVelocity(rail, 5);
+
+// or drive it to a position on the track, fractions run from 0 to pathConstraintPath.getPathMaxFraction(track)
+pathConstraint.setMotorState(rail, MotorState.POSITION);
+pathConstraint.setTargetPathFraction(rail, 8);
+/* SNIPPET_END: path */
+
+/* SNIPPET_START: breakable */
+// a door that snaps off its hinge when it is hit too hard
+const door = hingeConstraint.create(world, {
+    bodyIdA: bodyA.id,
+    bodyIdB: bodyB.id,
+    pointA: [0, 0.5, 0],
+    pointB: [0, -0.5, 0],
+    hingeAxisA: [0, 1, 0],
+    hingeAxisB: [0, 1, 0],
+    normalAxisA: [1, 0, 0],
+    normalAxisB: [1, 0, 0],
+    space: ConstraintSpace.LOCAL,
+    breakForce: 5000, // Newtons
+    breakTorque: 2000, // Newton meters
+});
+
+// thresholds can also be set or changed after creation
+door.breakForce = 8000;
+
+// a broken constraint is disabled, remove it or enable it again in the listener
+const breakListener: Listener = {
+    onConstraintBroken: (constraint) => {
+        constraints.removeConstraintById(world, constraint.id);
+    },
+};
+
+updateWorld(world, breakListener, 1 / 60);
+/* SNIPPET_END: breakable */
+
+/* SNIPPET_START: constraint-forces */
+// forces and torques the constraint applied to each body in the last step, e.g. for force feedback or load gauges
+const forces = constraints.createConstraintImpulses();
+if (constraints.getTotalForces(forces, world, door.id)) {
+    // forces.linearB is the force on body b in Newtons, forces.angularB the torque around its center of mass
+    const load = vec3.length(forces.linearB);
+    console.log('door hinge load', load);
+}
+
+// the raw impulses of the last step, not divided by the time step
+const impulses = constraints.createConstraintImpulses();
+constraints.getTotalImpulses(impulses, world, door.id);
+/* SNIPPET_END: constraint-forces */
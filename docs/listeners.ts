@@ -1,6 +1,7 @@
 import {
     addBroadphaseLayer,
     addObjectLayer,
+    type BodyActivationListener,
     box,
     ContactValidateResult,
     createWorld,
@@ -130,3 +131,37 @@ const modifyContactListener: Listener = {
     },
 };
 /* SNIPPET_END: modify-contact */
+
+/* SNIPPET_START: contact-solved */
+// play impact sounds based on the impulse the solver applied, onContactAdded runs before the solver
+const impactListener: Listener = {
+    onContactSolved: (bodyA, bodyB, solvedContact) => {
+        // impulses in N·s, divide by the time step for an average force
+        const impact = solvedContact.totalNormalImpulse;
+        const friction = vec3.length(solvedContact.totalFrictionImpulse);
+
+        if (impact > 100) {
+            // the contact points are in world space, after solving
+            const position = solvedContact.contactPoints[0].positionOnA;
+            // playImpactSound(position, impact);
+        }
+    },
+};
+/* SNIPPET_END: contact-solved */
+
+/* SNIPPET_START: body-activation */
+// track which bodies are moving, e.g. for network relevance or audio loops
+const movingBodies = new Set<number>();
+
+const bodyActivationListener: BodyActivationListener = {
+    onBodyActivated: (body) => {
+        movingBodies.add(body.id);
+    },
+    onBodyDeactivated: (body) => {
+        movingBodies.delete(body.id);
+    },
+};
+
+// unlike the contact listener, the activation listener is set on the world
+world.bodyActivationListener = bodyActivationListener;
+/* SNIPPET_END: body-activation */
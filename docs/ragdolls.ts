@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import {
+    capsule,
+    createWorld,
+    createWorldSettings,
+    MotionType,
+    type RagdollPartSettings,
+    ragdoll,
+    type SwingTwistConstraintSettings,
+    updateWorld,
+} from 'crashcat';
+import { quat, type Vec3, vec3 } from 'mathcat';
+
+const world = createWorld(createWorldSettings());
+
+/* SNIPPET_START: ragdoll */
+// a swing twist joint at a pivot in model space, twisting around the up axis
+const joint = (pivot: Vec3, swing: number, twist: number): Omit<SwingTwistConstraintSettings, 'bodyIdA' | 'bodyIdB'> => ({
+    position1: pivot,
+    position2: pivot,
+    twistAxis1: [0, 1, 0],
+    planeAxis1: [1, 0, 0],
+    twistAxis2: [0, 1, 0],
+    planeAxis2: [1, 0, 0],
+    normalHalfConeAngle: swing,
+    planeHalfConeAngle: swing,
+    twistMinAngle: -twist,
+    twistMaxAngle: twist,
+});
+
+const bone = (name: string, parentIndex: number, position: Vec3, toParent?: RagdollPartSettings['toParent']) => ({
+    name,
+    parentIndex,
+    position,
+    quaternion: quat.create(),
+    body: {
+        shape: capsule.create({ halfHeightOfCylinder: 0.15, radius: 0.1 }),
+        objectLayer: 1,
+        motionType: MotionType.DYNAMIC,
+    },
+    toParent,
+});
+
+// the skeleton in its bind pose, parents come before their children
+const parts: RagdollPartSettings[] = [
+    bone('pelvis', -1, [0, 1, 0]),
+    bone('spine', 0, [0, 1.45, 0], joint([0, 1.2, 0], 0.4, 0.3)),
+    bone('head', 1, [0, 1.9, 0], joint([0, 1.65, 0], 0.6, 0.8)),
+    bone('left leg', 0, [-0.15, 0.55, 0], joint([-0.15, 0.8, 0], 1.2, 0.2)),
+    bone('right leg', 0, [0.15, 0.55, 0], joint([0.15, 0.8, 0], 1.2, 0.2)),
+];
+
+// creates all bodies and constraints, the skeleton can be shared between ragdolls
+const character = ragdoll.create(world, {
+    parts,
+    position: [0, 2, 0],
+    quaternion: quat.setAxisAngle(quat.create(), [0, 1, 0], Math.PI / 2),
+    // connected parts don't collide with each other, this is the default
+    disableParentChildCollisions: true,
+});
+
+updateWorld(world, undefined, 1 / 60);
+
+// find the body of a part by its name
+const headBodyId = character.bodyIds[ragdoll.getPartIndex(character, 'head')];
+
+// removes all bodies and constraints of the ragdoll
+ragdoll.remove(world, character);
+/* SNIPPET_END: ragdoll */
+
+/* SNIPPET_START: ragdoll-pose */
+const animated = ragdoll.create(world, { parts });
+
+// a pose holds the model space transforms of the parts, e.g. sampled from an animation each frame
+const pose = ragdoll.createPose(animated);
+quat.setAxisAngle(pose.quaternions[ragdoll.getPartIndex(animated, 'head')], [1, 0, 0], 0.4);
+
+// active ragdoll: the joint motors drive the parts towards the pose, using the motor settings of the constraints
+ragdoll.driveToPoseUsingMotors(world, animated, pose);
+updateWorld(world, undefined, 1 / 60);
+
+// or follow the animation, by setting the body velocities so the parts reach the pose in the next step
+vec3.set(pose.position, 0, 2, 0);
+ragdoll.driveToPoseUsingKinematics(world, animated, pose, 1 / 60);
+updateWorld(world, undefined, 1 / 60);
+
+// read back the pose the physics produced, relative to pose.position and pose.quaternion, e.g. to blend with the animation
+ragdoll.getPose(pose, world, animated);
+/* SNIPPET_END: ragdoll-pose */
@@ -13,6 +13,7 @@ import {
     MotionType,
     type RigidBody,
     rigidBody,
+    sensors,
     sphere,
     type Listener,
 } from 'crashcat';
@@ -361,15 +362,24 @@ const triggerZone = rigidBody.create(world, {
     sensor: true,
 });
 
-// detect when bodies enter/exit sensor
+// detect when bodies enter/exit sensor, called once per body at the end of updateWorld
 const listener: Listener = {
-    onContactAdded: (bodyA, bodyB, manifold, settings) => {
-        if (bodyA.id === triggerZone.id || bodyB.id === triggerZone.id) {
-            // otherBody entered trigger zone
-            const otherBody = bodyA.id === triggerZone.id ? bodyB : bodyA;
+    onSensorEnter: (sensor, body) => {
+        if (sensor.id === triggerZone.id) {
+            // body entered trigger zone
+        }
+    },
+    onSensorExit: (sensorBodyId, bodyId) => {
+        if (sensorBodyId === triggerZone.id) {
+            // body left trigger zone, or was removed
         }
     },
 };
+
+// or query the bodies currently inside the sensor
+for (const bodyId of sensors.getOverlappingBodyIds(world, triggerZone)) {
+    const body = rigidBody.get(world, bodyId);
+}
 /* SNIPPET_END: sensor */
 /* SNIPPET_START: update-shape */
 // change a body's shape after creation
@@ -3,12 +3,15 @@ import {
     addObjectLayer,
     box,
     capsule,
+    type CompoundShape,
     compound,
+    convexDecomposition,
     convexHull,
     createWorld,
     createWorldSettings,
     cylinder,
     enableCollision,
+    heightField,
     MotionType,
     massProperties,
     offsetCenterOfMass,
@@ -113,6 +116,35 @@ rigidBody.create(world, {
 });
 /* SNIPPET_END: triangle-mesh */
 
+/* SNIPPET_START: height-field */
+// height field: a regular grid of heights, cheaper than a triangle mesh for large terrains
+const sampleCount = 64;
+const heights: number[] = [];
+for (let z = 0; z < sampleCount; z++) {
+    for (let x = 0; x < sampleCount; x++) {
+        heights.push(Math.sin(x * 0.2) * Math.cos(z * 0.2) * 2);
+    }
+}
+
+// cut a hole in the terrain, e.g. for a cave entrance
+heights[32 * sampleCount + 32] = heightField.HEIGHT_FIELD_NO_COLLISION;
+
+const terrainShape = heightField.create({
+    sampleCountX: sampleCount,
+    sampleCountZ: sampleCount,
+    heights,
+    // sample (x, z) is placed at offset + scale * [x, height, z]
+    offset: [-32, 0, -32],
+    scale: [1, 1, 1],
+});
+
+rigidBody.create(world, {
+    shape: terrainShape,
+    motionType: MotionType.STATIC,
+    objectLayer: OBJECT_LAYER_NOT_MOVING,
+});
+/* SNIPPET_END: height-field */
+
 /* SNIPPET_START: compound */
 // compound: combine multiple shapes into one
 compound.create({
@@ -146,6 +178,56 @@ rigidBody.create(world, {
 });
 /* SNIPPET_END: compound */
 
+/* SNIPPET_START: compound-mutation */
+// a building made of parts, e.g. for destruction or modular construction
+const building = rigidBody.create(world, {
+    shape: compound.create({
+        children: [{ position: [0, 0, 0], quaternion: quat.create(), shape: box.create({ halfExtents: [4, 0.2, 4] }) }],
+    }),
+    motionType: MotionType.STATIC,
+    objectLayer: OBJECT_LAYER_NOT_MOVING,
+});
+const buildingShape = building.shape as CompoundShape;
+
+// add, move and remove parts without rebuilding the compound, returns the index of the new child
+const wall = compound.addChild(buildingShape, {
+    position: [0, 1.5, -4],
+    quaternion: quat.create(),
+    shape: box.create({ halfExtents: [4, 1.5, 0.2] }),
+});
+compound.setChildTransform(buildingShape, wall, [0, 1.5, 4], quat.create());
+
+// removing a child moves the last child to its index, the sub shape ids of the other children stay the same
+compound.removeChild(buildingShape, wall);
+
+// update the body's mass, center of mass and bounds after changing its shape
+rigidBody.updateShape(world, building);
+/* SNIPPET_END: compound-mutation */
+
+/* SNIPPET_START: convex-decomposition */
+// split a concave render mesh, e.g. a bowl or a chair, into convex hulls
+const chairMesh = {
+    positions: [/* vertex data */],
+    indices: [/* index data */],
+};
+
+const chairShape = convexDecomposition.decompose({
+    positions: chairMesh.positions,
+    indices: chairMesh.indices,
+    resolution: 32, // voxels along the longest side of the mesh
+    maxConvexHulls: 16,
+    maxConcavity: 0.01, // split parts while their hull adds more than 1% of the mesh volume
+    maxVerticesPerHull: 64,
+});
+
+// the result is a compound shape of convex hulls that dynamic bodies can use
+rigidBody.create(world, {
+    shape: chairShape,
+    motionType: MotionType.DYNAMIC,
+    objectLayer: OBJECT_LAYER_MOVING,
+});
+/* SNIPPET_END: convex-decomposition */
+
 /* SNIPPET_START: scaled */
 // non-uniform scaling of any shape
 scaled.create({
@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { createWorld, createWorldSettings, softBody, softBodySharedSettings, updateWorld } from 'crashcat';
+
+const world = createWorld(createWorldSettings());
+
+/* SNIPPET_START: cloth */
+// a 2x1 m flag, vertex (x, z) has index z * gridSizeX + x
+const flagOptions = { gridSizeX: 21, gridSizeZ: 11, spacing: 0.1, bendCompliance: 1e-2 };
+const flagSettings = softBodySharedSettings.createCloth(flagOptions);
+
+// pin the vertices along the pole by giving them an inverse mass of 0
+for (let z = 0; z < flagOptions.gridSizeZ; z++) {
+    flagSettings.vertices[softBodySharedSettings.getClothVertexIndex(flagOptions, 0, z)].invMass = 0;
+}
+
+const flag = softBody.create(world, {
+    sharedSettings: flagSettings,
+    objectLayer: 0,
+    position: [1, 3, 0],
+    // the cloth is created in the XZ plane, stand it up
+    quaternion: [Math.SQRT1_2, 0, 0, Math.SQRT1_2],
+});
+
+updateWorld(world, undefined, 1 / 60);
+
+// particles are in world space, e.g. for updating a render mesh with flagSettings.faces as the index buffer
+for (const particle of flag.particles) {
+    // particle.position
+}
+/* SNIPPET_END: cloth */
+
+/* SNIPPET_START: volumetric */
+// a 1 m cube filled with tetrahedra, a volume compliance above 0 makes it squishy
+const jelly = softBody.create(world, {
+    sharedSettings: softBodySharedSettings.createCube({ gridSize: 5, spacing: 0.25, volumeCompliance: 1e-3 }),
+    objectLayer: 0,
+    position: [0, 5, 0],
+    // more sub steps make the soft body stiffer
+    numIterations: 10,
+});
+
+// remove the soft body again
+softBody.remove(world, jelly);
+/* SNIPPET_END: volumetric */
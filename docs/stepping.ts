@@ -1,10 +1,25 @@
-import { createWorld, createWorldSettings, registerAll, updateWorld, type Listener } from 'crashcat';
+import {
+    createWorld,
+    createWorldSettings,
+    registerAll,
+    restoreWorldState,
+    rigidBody,
+    saveWorldState,
+    serialization,
+    stepper,
+    updateWorld,
+    type Listener,
+} from 'crashcat';
+import { quat, vec3 } from 'mathcat';
 
 registerAll();
 
 const worldSettings = createWorldSettings();
 const world = createWorld(worldSettings);
 
+const renderPosition = vec3.create();
+const renderQuaternion = quat.create();
+
 /* SNIPPET_START: variable-timestep */
 let lastTime = performance.now();
 const maxDelta = 1 / 30;
@@ -47,3 +62,69 @@ function gameLoopFixedTimestep() {
     requestAnimationFrame(gameLoopFixedTimestep);
 }
 /* SNIPPET_END: fixed-timestep */
+
+/* SNIPPET_START: stepper */
+// runs updateWorld at 60 Hz, at most 4 steps per frame
+const physicsStepper = stepper.create({ fixedTimeStep: 1 / 60, maxStepsPerFrame: 4 });
+let lastTimeStepper = performance.now();
+
+function gameLoopStepper() {
+    const currentTime = performance.now();
+    const frameTime = (currentTime - lastTimeStepper) / 1000;
+    lastTimeStepper = currentTime;
+
+    stepper.update(physicsStepper, world, undefined, frameTime);
+
+    // render the bodies at their interpolated transforms
+    for (const body of rigidBody.iterate(world)) {
+        stepper.getInterpolatedPosition(renderPosition, physicsStepper, body);
+        stepper.getInterpolatedQuaternion(renderQuaternion, physicsStepper, body);
+        // ... update the render object of the body ...
+    }
+
+    requestAnimationFrame(gameLoopStepper);
+}
+/* SNIPPET_END: stepper */
+
+/* SNIPPET_START: collision-steps */
+// at 30 Hz, split each update into 2 collision steps of 1/60 s for more stable stacks and ragdolls.
+// the broadphase pair search and contact listener callbacks still run once per updateWorld call
+updateWorld(world, undefined, 1 / 30, 2);
+
+// the stepper passes its collisionSteps setting on to updateWorld
+const lowRateStepper = stepper.create({ fixedTimeStep: 1 / 30, collisionSteps: 2 });
+/* SNIPPET_END: collision-steps */
+
+/* SNIPPET_START: world-state-snapshots */
+// keep a ring buffer of snapshots, one per simulation tick
+const snapshots: Uint8Array[] = [];
+
+function simulateTick(tick: number) {
+    snapshots[tick % 64] = saveWorldState(world);
+    updateWorld(world, undefined, 1 / 60);
+}
+
+function rollback(toTick: number, currentTick: number) {
+    // rewind to the tick where a late input was received
+    restoreWorldState(world, snapshots[toTick % 64]);
+
+    // ... apply corrected inputs ...
+
+    // re-simulate up to the current tick, results are bit-identical to the original simulation given the same inputs
+    for (let tick = toTick; tick < currentTick; tick++) {
+        simulateTick(tick);
+    }
+}
+/* SNIPPET_END: world-state-snapshots */
+
+/* SNIPPET_START: scene-serialization */
+// bake a scene into a file, e.g. in a build step
+const bakedScene = serialization.toBinary(serialization.serializeWorld(world));
+
+// load the baked scene into a new world in one call
+const loadedWorld = serialization.deserializeWorld(serialization.fromBinary(bakedScene));
+
+// or use the JSON-safe form directly
+const json = JSON.stringify(serialization.serializeWorld(world));
+const worldFromJson = serialization.deserializeWorld(JSON.parse(json));
+/* SNIPPET_END: scene-serialization */
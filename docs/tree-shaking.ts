@@ -20,3 +20,10 @@ registerShapes([sphere.def, box.def, capsule.def]);
 // only register the constraints you need
 registerConstraints([hingeConstraint.def, distanceConstraint.def]);
 /* SNIPPET_END: register-selective */
+
+/* SNIPPET_START: register-systems */
+import { registerSystems, sensors, softBody } from 'crashcat';
+
+// only register the optional systems you use
+registerSystems([sensors.def, softBody.def]);
+/* SNIPPET_END: register-systems */
@@ -0,0 +1,110 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import {
+    box,
+    createWorld,
+    createWorldSettings,
+    MotionType,
+    rigidBody,
+    SpringMode,
+    type TrackedVehicleController,
+    trackedVehicleController,
+    updateWorld,
+    VehicleCollisionTesterType,
+    VehicleControllerType,
+    vehicleConstraint,
+    type WheeledVehicleController,
+    wheeledVehicleController,
+} from 'crashcat';
+import { mat4, type Vec3 } from 'mathcat';
+
+const world = createWorld(createWorldSettings());
+
+/* SNIPPET_START: wheeled */
+// the vehicle body, wheels are not bodies but are simulated by the vehicle constraint
+const car = rigidBody.create(world, {
+    shape: box.create({ halfExtents: [0.9, 0.2, 2] }),
+    objectLayer: 0,
+    motionType: MotionType.DYNAMIC,
+    position: [0, 2, 0],
+    mass: 1500,
+});
+
+const wheelSettings = {
+    radius: 0.3,
+    width: 0.2,
+    suspensionMinLength: 0.3,
+    suspensionMaxLength: 0.5,
+    suspensionSpring: { mode: SpringMode.FREQUENCY_AND_DAMPING, frequencyOrStiffness: 1.5, damping: 0.5 },
+};
+
+const vehicle = vehicleConstraint.create(world, {
+    bodyId: car.id,
+    up: [0, 1, 0],
+    forward: [0, 0, 1],
+    // wheel positions are the suspension attachment points in local space of the body
+    wheels: [
+        { ...wheelSettings, position: [-0.9, -0.1, 1.4], maxSteerAngle: Math.PI / 6, maxHandBrakeTorque: 0 },
+        { ...wheelSettings, position: [0.9, -0.1, 1.4], maxSteerAngle: Math.PI / 6, maxHandBrakeTorque: 0 },
+        { ...wheelSettings, position: [-0.9, -0.1, -1.4], maxSteerAngle: 0 },
+        { ...wheelSettings, position: [0.9, -0.1, -1.4], maxSteerAngle: 0 },
+    ],
+    // anti-roll bars push the left and right suspension towards the same length
+    antiRollBars: [
+        { leftWheel: 0, rightWheel: 1, stiffness: 1000 },
+        { leftWheel: 2, rightWheel: 3, stiffness: 1000 },
+    ],
+    controller: {
+        type: VehicleControllerType.WHEELED,
+        engine: { maxTorque: 500, maxRPM: 6000 },
+        transmission: { gearRatios: [2.66, 1.78, 1.3, 1, 0.74] },
+        // rear wheel drive
+        differentials: [{ leftWheel: 2, rightWheel: 3 }],
+    },
+    // cast spheres instead of rays for smoother driving over uneven terrain
+    collisionTester: { type: VehicleCollisionTesterType.CAST_SPHERE, radius: 0.3 },
+});
+
+const controller = vehicle.controller as WheeledVehicleController;
+
+// each frame, pass the driver input to the controller: forward [-1, 1], right [-1, 1], brake [0, 1], hand brake [0, 1]
+wheeledVehicleController.setDriverInput(controller, 1, 0, 0, 0);
+updateWorld(world, undefined, 1 / 60);
+
+// get the world transform of a wheel for rendering, given the right and up axis of the wheel model
+const wheelTransform = vehicleConstraint.getWheelWorldTransform(mat4.create(), world, vehicle, 0, [1, 0, 0], [0, 1, 0]);
+/* SNIPPET_END: wheeled */
+
+/* SNIPPET_START: tracked */
+const tank = rigidBody.create(world, {
+    shape: box.create({ halfExtents: [1.5, 0.4, 3] }),
+    objectLayer: 0,
+    motionType: MotionType.DYNAMIC,
+    position: [0, 2, 10],
+    mass: 4000,
+});
+
+// road wheels, the first wheel of each track is driven by the engine
+const roadWheelZ = [2.4, 1.2, 0, -1.2, -2.4];
+const roadWheel = { radius: 0.4, width: 0.5, suspensionMinLength: 0.2, suspensionMaxLength: 0.4 };
+
+const tankVehicle = vehicleConstraint.create(world, {
+    bodyId: tank.id,
+    wheels: [
+        ...roadWheelZ.map((z) => ({ ...roadWheel, position: [-1.5, -0.2, z] as Vec3 })),
+        ...roadWheelZ.map((z) => ({ ...roadWheel, position: [1.5, -0.2, z] as Vec3 })),
+    ],
+    controller: {
+        type: VehicleControllerType.TRACKED,
+        tracks: [
+            { drivenWheel: 0, wheels: [0, 1, 2, 3, 4] }, // left
+            { drivenWheel: 5, wheels: [5, 6, 7, 8, 9] }, // right
+        ],
+    },
+});
+
+const tankController = tankVehicle.controller as TrackedVehicleController;
+
+// forward [-1, 1], left and right track ratio [-1, 1], left and right brake [0, 1]
+// driving the tracks in opposite directions turns the tank on the spot
+trackedVehicleController.setDriverInput(tankController, 1, 1, -1, 0, 0);
+/* SNIPPET_END: tracked */
@@ -2,7 +2,7 @@ import type { Vec3, Mat3 } from 'mathcat';
 import { quat, vec3, mat3, mat4 } from 'mathcat';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import type { RigidBody, Listener } from 'crashcat';
+import type { RagdollPartSettings, RigidBody } from 'crashcat';
 import {
     addBroadphaseLayer,
     addObjectLayer,
@@ -18,8 +18,8 @@ import {
     enableCollision,
     filter,
     MotionType,
+    ragdoll,
     rigidBody,
-    swingTwistConstraint,
     updateWorld,
     massProperties,
     motionProperties,
@@ -303,6 +303,71 @@ function createRagdollSettings(scale: number, angleA: number, angleB: number, tw
     return { shapes, joints, skeleton };
 }
 
+// the bodies each joint connects, as [bodyA, bodyB]
+const JOINT_BODIES: Record<string, [BodyPart, BodyPart]> = {
+    neckJoint: [BodyPart.HEAD, BodyPart.UPPER_BODY],
+    leftKneeJoint: [BodyPart.LOWER_LEFT_LEG, BodyPart.UPPER_LEFT_LEG],
+    rightKneeJoint: [BodyPart.LOWER_RIGHT_LEG, BodyPart.UPPER_RIGHT_LEG],
+    leftHipJoint: [BodyPart.UPPER_LEFT_LEG, BodyPart.PELVIS],
+    rightHipJoint: [BodyPart.UPPER_RIGHT_LEG, BodyPart.PELVIS],
+    spineJoint: [BodyPart.PELVIS, BodyPart.UPPER_BODY],
+    leftShoulder: [BodyPart.UPPER_BODY, BodyPart.UPPER_LEFT_ARM],
+    rightShoulder: [BodyPart.UPPER_BODY, BodyPart.UPPER_RIGHT_ARM],
+    leftElbowJoint: [BodyPart.LOWER_LEFT_ARM, BodyPart.UPPER_LEFT_ARM],
+    rightElbowJoint: [BodyPart.LOWER_RIGHT_ARM, BodyPart.UPPER_RIGHT_ARM],
+};
+
+const getTangent = (out: Vec3, axis: Vec3): Vec3 => {
+    const ax = Math.abs(axis[0]);
+    const ay = Math.abs(axis[1]);
+    const az = Math.abs(axis[2]);
+
+    if (ax <= ay && ax <= az) {
+        vec3.set(out, 0, -axis[2], axis[1]);
+    } else if (ay <= az) {
+        vec3.set(out, axis[2], 0, -axis[0]);
+    } else {
+        vec3.set(out, -axis[1], axis[0], 0);
+    }
+    vec3.normalize(out, out);
+    return out;
+};
+
+/** creates the settings for the joint connecting a part (body b) to its parent (body a) */
+function createJointSettings(
+    joints: Record<string, JointConfig>,
+    parent: BodyPart,
+    child: BodyPart,
+): RagdollPartSettings['toParent'] {
+    for (const [jointName, [bodyA, bodyB]] of Object.entries(JOINT_BODIES)) {
+        const jointConfig = joints[jointName];
+        if (!jointConfig) continue;
+
+        // the ragdoll always uses the parent as body a, swap joints that are defined the other way around
+        const swapped = bodyA === child && bodyB === parent;
+        if (!swapped && !(bodyA === parent && bodyB === child)) continue;
+
+        const twistAxis1 = vec3.fromValues(...(swapped ? jointConfig.axisB : jointConfig.axisA));
+        const twistAxis2 = vec3.fromValues(...(swapped ? jointConfig.axisA : jointConfig.axisB));
+
+        return {
+            position1: vec3.fromValues(...(swapped ? jointConfig.pivotB : jointConfig.pivotA)),
+            position2: vec3.fromValues(...(swapped ? jointConfig.pivotA : jointConfig.pivotB)),
+            twistAxis1,
+            planeAxis1: getTangent(vec3.create(), twistAxis1),
+            twistAxis2,
+            planeAxis2: getTangent(vec3.create(), twistAxis2),
+            space: ConstraintSpace.LOCAL,
+            normalHalfConeAngle: jointConfig.angle,
+            planeHalfConeAngle: jointConfig.angle,
+            twistMinAngle: -jointConfig.twistAngle,
+            twistMaxAngle: jointConfig.twistAngle,
+        };
+    }
+
+    throw new Error(`No joint between ${BodyPart[parent]} and ${BodyPart[child]}`);
+}
+
 function createRagdoll(
     world: ReturnType<typeof createWorld>,
     settings: RagdollSettings,
@@ -312,30 +377,42 @@ function createRagdoll(
         stabilize?: boolean;
     },
 ) {
-    const bodies = new Map<BodyPart, RigidBody>();
-    const offset = options.position ?? vec3.fromValues(0, 0, 0);
+    // the skeleton lists parents before their children, as the ragdoll requires
+    const parts: RagdollPartSettings[] = [];
+    const partIndices = new Map<BodyPart, number>();
 
-    // Create all body parts
-    for (const [part, config] of settings.shapes) {
+    for (const { bodyPart, parentBodyPart } of settings.skeleton) {
+        const config = settings.shapes.get(bodyPart)!;
         const [halfW, halfH, halfD] = config.args;
-        const position = vec3.fromValues(
-            config.position[0] + offset[0],
-            config.position[1] + offset[1],
-            config.position[2] + offset[2],
-        );
 
-        const body = rigidBody.create(world, {
-            shape: box.create({ halfExtents: vec3.fromValues(halfW, halfH, halfD), convexRadius: 0.05, density: config.density }),
-            objectLayer: options.objectLayer,
-            motionType: MotionType.DYNAMIC,
-            position,
+        partIndices.set(bodyPart, parts.length);
+        parts.push({
+            name: BodyPart[bodyPart],
+            parentIndex: parentBodyPart === null ? -1 : partIndices.get(parentBodyPart)!,
+            position: config.position,
             quaternion: quat.create(),
-            linearDamping: 0.05,
-            angularDamping: 0.05,
-            restitution: 0,
+            body: {
+                shape: box.create({
+                    halfExtents: vec3.fromValues(halfW, halfH, halfD),
+                    convexRadius: 0.05,
+                    density: config.density,
+                }),
+                objectLayer: options.objectLayer,
+                motionType: MotionType.DYNAMIC,
+                linearDamping: 0.05,
+                angularDamping: 0.05,
+                restitution: 0,
+            },
+            toParent: parentBodyPart === null ? undefined : createJointSettings(settings.joints, parentBodyPart, bodyPart),
         });
+    }
+
+    // creates all bodies and joints, connected parts don't collide with each other
+    const instance = ragdoll.create(world, { parts, position: options.position });
 
-        bodies.set(part, body);
+    const bodies = new Map<BodyPart, RigidBody>();
+    for (let i = 0; i < parts.length; i++) {
+        bodies.set(settings.skeleton[i].bodyPart, rigidBody.get(world, instance.bodyIds[i])!);
     }
 
     // Apply stabilization if requested
@@ -343,95 +420,6 @@ function createRagdoll(
         stabilizeRagdoll(bodies, settings.skeleton);
     }
 
-    // Create all joints
-    const jointEntries = Object.entries(settings.joints) as [string, JointConfig][];
-    for (const [jointName, jointConfig] of jointEntries) {
-        // Determine which bodies to connect based on joint name
-        let bodyA: RigidBody | undefined;
-        let bodyB: RigidBody | undefined;
-
-        if (jointName === 'neckJoint') {
-            bodyA = bodies.get(BodyPart.HEAD);
-            bodyB = bodies.get(BodyPart.UPPER_BODY);
-        } else if (jointName === 'leftKneeJoint') {
-            bodyA = bodies.get(BodyPart.LOWER_LEFT_LEG);
-            bodyB = bodies.get(BodyPart.UPPER_LEFT_LEG);
-        } else if (jointName === 'rightKneeJoint') {
-            bodyA = bodies.get(BodyPart.LOWER_RIGHT_LEG);
-            bodyB = bodies.get(BodyPart.UPPER_RIGHT_LEG);
-        } else if (jointName === 'leftHipJoint') {
-            bodyA = bodies.get(BodyPart.UPPER_LEFT_LEG);
-            bodyB = bodies.get(BodyPart.PELVIS);
-        } else if (jointName === 'rightHipJoint') {
-            bodyA = bodies.get(BodyPart.UPPER_RIGHT_LEG);
-            bodyB = bodies.get(BodyPart.PELVIS);
-        } else if (jointName === 'spineJoint') {
-            bodyA = bodies.get(BodyPart.PELVIS);
-            bodyB = bodies.get(BodyPart.UPPER_BODY);
-        } else if (jointName === 'leftShoulder') {
-            bodyA = bodies.get(BodyPart.UPPER_BODY);
-            bodyB = bodies.get(BodyPart.UPPER_LEFT_ARM);
-        } else if (jointName === 'rightShoulder') {
-            bodyA = bodies.get(BodyPart.UPPER_BODY);
-            bodyB = bodies.get(BodyPart.UPPER_RIGHT_ARM);
-        } else if (jointName === 'leftElbowJoint') {
-            bodyA = bodies.get(BodyPart.LOWER_LEFT_ARM);
-            bodyB = bodies.get(BodyPart.UPPER_LEFT_ARM);
-        } else if (jointName === 'rightElbowJoint') {
-            bodyA = bodies.get(BodyPart.LOWER_RIGHT_ARM);
-            bodyB = bodies.get(BodyPart.UPPER_RIGHT_ARM);
-        }
-
-        if (!bodyA || !bodyB) {
-            console.warn(`Could not find bodies for joint ${jointName}`);
-            continue;
-        }
-
-        const position1 = vec3.fromValues(...jointConfig.pivotA);
-        const position2 = vec3.fromValues(...jointConfig.pivotB);
-        const twistAxis1 = vec3.fromValues(...jointConfig.axisA);
-        const twistAxis2 = vec3.fromValues(...jointConfig.axisB);
-
-        // Calculate plane axes (perpendicular to twist axes)
-        const planeAxis1 = vec3.create();
-        const planeAxis2 = vec3.create();
-
-        const getTangent = (out: Vec3, axis: Vec3): Vec3 => {
-            const ax = Math.abs(axis[0]);
-            const ay = Math.abs(axis[1]);
-            const az = Math.abs(axis[2]);
-
-            if (ax <= ay && ax <= az) {
-                vec3.set(out, 0, -axis[2], axis[1]);
-            } else if (ay <= az) {
-                vec3.set(out, axis[2], 0, -axis[0]);
-            } else {
-                vec3.set(out, -axis[1], axis[0], 0);
-            }
-            vec3.normalize(out, out);
-            return out;
-        };
-
-        getTangent(planeAxis1, twistAxis1);
-        getTangent(planeAxis2, twistAxis2);
-
-        swingTwistConstraint.create(world, {
-            bodyIdA: bodyA.id,
-            bodyIdB: bodyB.id,
-            position1,
-            position2,
-            twistAxis1,
-            planeAxis1,
-            twistAxis2,
-            planeAxis2,
-            space: ConstraintSpace.LOCAL,
-            normalHalfConeAngle: jointConfig.angle,
-            planeHalfConeAngle: jointConfig.angle,
-            twistMinAngle: jointConfig.twistAngle !== undefined ? -jointConfig.twistAngle : 0,
-            twistMaxAngle: jointConfig.twistAngle !== undefined ? jointConfig.twistAngle : 0,
-        });
-    }
-
     return { bodies };
 }
 
@@ -483,13 +471,6 @@ enableCollision(worldSettings, OBJECT_LAYER_MOVING, OBJECT_LAYER_NON_MOVING);
 
 const world = createWorld(worldSettings);
 
-const listener: Listener = {
-    onBodyPairValidate: (bodyA: RigidBody, bodyB: RigidBody): boolean => {
-        // skip collision if bodies are connected by a constraint
-        return !rigidBody.bodiesShareConstraint(bodyA, bodyB);
-    },
-};
-
 /* orbit controls */
 
 const orbitControls = new OrbitControls(camera, renderer.domElement);
@@ -525,16 +506,16 @@ const ragdolls: Array<ReturnType<typeof createRagdoll>> = [];
 
 // create 3 ragdolls at increasing heights
 for (let i = 0; i < 3; i++) {
-    const ragdoll = createRagdoll(world, ragdollSettings, {
+    const instance = createRagdoll(world, ragdollSettings, {
         objectLayer: OBJECT_LAYER_MOVING,
         position: vec3.fromValues(-5 + i * 4, i * 3, 0),
         stabilize: true,
     });
-    ragdolls.push(ragdoll);
+    ragdolls.push(instance);
 }
 
-for (const ragdoll of ragdolls) {
-    for (const body of ragdoll.bodies.values()) {
+for (const { bodies } of ragdolls) {
+    for (const body of bodies.values()) {
         rigidBody.addLinearVelocity(world, body, vec3.fromValues(0, 5, 0));
         rigidBody.addAngularVelocity(world, body, vec3.fromValues(0, 0, 20));
     }
@@ -874,7 +855,7 @@ function loop() {
 
     // Update physics
     debugUI.beginPerf(ui);
-    updateWorld(world, listener, delta);
+    updateWorld(world, undefined, delta);
     debugUI.endPerf(ui);
     debugUI.updateStats(ui, world);
 
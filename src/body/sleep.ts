@@ -128,7 +128,7 @@ export function resetSleepTimer(body: RigidBody): void {
     resetSleepTestSpheres(body.motionProperties, _resetSleepTimer_points);
 }
 
-/** adds a body to the active bodies list, alled when a body wakes up or is created as non-sleeping */
+/** adds a body to the active bodies list, called when a body wakes up or is created as non-sleeping, notifies world.bodyActivationListener */
 export function addBodyToActiveBodies(world: World, body: RigidBody): void {
     const bodies = world.bodies;
 
@@ -139,9 +139,11 @@ export function addBodyToActiveBodies(world: World, body: RigidBody): void {
     body.activeIndex = bodies.activeBodyCount;
     bodies.activeBodyIndices[bodies.activeBodyCount] = body.index;
     bodies.activeBodyCount++;
+
+    world.bodyActivationListener?.onBodyActivated?.(body);
 }
 
-/** removes a body from the active bodies list using swap-remove, called when a body goes to sleep or is destroyed */
+/** removes a body from the active bodies list using swap-remove, called when a body goes to sleep or is destroyed, notifies world.bodyActivationListener */
 export function removeBodyFromActiveBodies(world: World, body: RigidBody): void {
     const bodies = world.bodies;
 
@@ -163,6 +165,8 @@ export function removeBodyFromActiveBodies(world: World, body: RigidBody): void
     // mark as inactive
     body.activeIndex = INACTIVE_BODY_INDEX;
     bodies.activeBodyCount--;
+
+    world.bodyActivationListener?.onBodyDeactivated?.(body);
 }
 
 /** puts a body to sleep, sleeping bodies are excluded from physics simulation until woken */
@@ -173,15 +177,15 @@ export function sleep(world: World, body: RigidBody): void {
     // exit if already sleeping
     if (body.sleeping) return;
 
-    // remove from active list
-    removeBodyFromActiveBodies(world, body);
-
     // mark as sleeping
     body.sleeping = true;
 
     // reset velocities
     vec3.zero(body.motionProperties.linearVelocity);
     vec3.zero(body.motionProperties.angularVelocity);
+
+    // remove from active list, after updating the body so the deactivation listener sees it sleeping
+    removeBodyFromActiveBodies(world, body);
 }
 
 /** wakes a sleeping body and all connected bodies (via contacts and constraints) */
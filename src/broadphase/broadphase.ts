@@ -1,4 +1,4 @@
-import { type Box3, box3, type Vec3 } from 'mathcat';
+import { type Box3, box3, type Vec3, vec3 } from 'mathcat';
 import { MotionType } from '../body/motion-type';
 import type { RigidBody } from '../body/rigid-body';
 import type { Filter } from '../filter';
@@ -41,7 +41,7 @@ export type Pairs = {
  * Static bodies never query (they are found by active bodies).
  * Sleeping bodies never query (they are found by active bodies, which wakes them).
  */
-function shouldQueryBroadphase(body: RigidBody): boolean {
+export function shouldQueryBroadphase(body: RigidBody): boolean {
     // static bodies never query - they are found by active bodies
     if (body.motionType === MotionType.STATIC) {
         return false;
@@ -213,8 +213,16 @@ export function reinsertBody(broadphase: Broadphase, body: RigidBody, layers: La
 const _findCollidingPairs_filter = /* @__PURE__ */ filter.createEmpty();
 const _findCollidingPairs_expandedAABB = /* @__PURE__ */ box3.create();
 
-/** find potentially colliding body pairs, updates broadphase.pairs */
-export function findCollidingPairs(world: World, speculativeContactDistance: number, listener: Listener | undefined): void {
+/**
+ * find potentially colliding body pairs, updates broadphase.pairs
+ * @param predictionTime time in seconds the pairs should stay valid for, AABBs are expanded by the distance bodies can move in that time
+ */
+export function findCollidingPairs(
+    world: World,
+    speculativeContactDistance: number,
+    listener: Listener | undefined,
+    predictionTime = 0,
+): void {
     const layers = world.settings.layers;
     const broadphase = world.broadphase;
 
@@ -245,8 +253,11 @@ export function findCollidingPairs(world: World, speculativeContactDistance: num
         const activeObjectLayer = body.objectLayer;
         const activeBroadphaseLayer = layers.objectLayerToBroadphaseLayer[activeObjectLayer];
 
-        // expand AABB by speculative contact distance
-        box3.expandByMargin(_findCollidingPairs_expandedAABB, body.aabb, speculativeContactDistance);
+        // expand AABB by speculative contact distance, and by the distance the body can move within the prediction time.
+        // the AABBs of the other bodies are not expanded, so account for them moving towards this body at the same speed
+        const predictionDistance =
+            predictionTime > 0 ? 2 * vec3.length(body.motionProperties.linearVelocity) * predictionTime : 0;
+        box3.expandByMargin(_findCollidingPairs_expandedAABB, body.aabb, speculativeContactDistance + predictionDistance);
 
         // determine which broadphase layers this body can collide with
         for (let otherBroadphaseLayer = 0; otherBroadphaseLayer < broadphase.dbvts.length; otherBroadphaseLayer++) {
@@ -70,7 +70,7 @@ export function getShapeSupportFunction(pool: ShapeSupportPool, shape: Shape, mo
 
 /* non-shape-specific support utilities for gjk/epa */
 
-/* triangle support - for triangle vs convex shape collisions with gjk */
+/* triangle support - for triangle vs convex shape collisions with gjk, also used by the triangle shape */
 
 export type TriangleSupport = {
     a: Vec3;
@@ -3,6 +3,8 @@ import { mat4, quat, vec3 } from 'mathcat';
 import type { Bodies } from '../body/bodies';
 import { type BodyId, getBodyIdIndex } from '../body/body-id';
 import type { RigidBody } from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import {
@@ -18,7 +20,14 @@ import type { AngleConstraintPart } from './constraint-part/angle-constraint-par
 import * as angleConstraintPart from './constraint-part/angle-constraint-part';
 import type { PointConstraintPart } from './constraint-part/point-constraint-part';
 import * as pointConstraintPart from './constraint-part/point-constraint-part';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 
 /**
  * Cone constraint constrains 2 bodies to a single point and limits the swing between twist axes within a cone.
@@ -112,6 +121,10 @@ export type ConeConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 /** get a normalized perpendicular vector to the given vector */
@@ -169,6 +182,8 @@ export function create(world: World, settings: ConeConstraintSettings): ConeCons
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     // extract body indices
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
@@ -440,6 +455,18 @@ function resetWarmStart(constraint: ConeConstraint): void {
     angleConstraintPart.deactivate(constraint.angleConstraintPart);
 }
 
+function saveState(constraint: ConeConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.saveState(constraint.pointConstraintPart, recorder);
+    angleConstraintPart.saveState(constraint.angleConstraintPart, recorder);
+    stateRecorder.writeVec3(recorder, constraint.worldSpaceRotationAxis);
+}
+
+function restoreState(constraint: ConeConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.restoreState(constraint.pointConstraintPart, recorder);
+    angleConstraintPart.restoreState(constraint.angleConstraintPart, recorder);
+    stateRecorder.readVec3(constraint.worldSpaceRotationAxis, recorder);
+}
+
 /** Get total lambda for position constraint */
 export function getTotalLambdaPosition(out: Vec3, constraint: ConeConstraint): Vec3 {
     out[0] = constraint.pointConstraintPart.totalLambda[0];
@@ -453,6 +480,19 @@ export function getTotalLambdaRotation(constraint: ConeConstraint): number {
     return constraint.angleConstraintPart.totalLambda;
 }
 
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: ConeConstraint): void {
+    out.position = vec3.length(constraint.pointConstraintPart.totalLambda);
+    out.rotation = Math.abs(constraint.angleConstraintPart.totalLambda);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: ConeConstraint): void {
+    zeroConstraintImpulses(out);
+    const axis = constraint.worldSpaceRotationAxis;
+    pointConstraintPart.addTotalImpulses(out, constraint.pointConstraintPart);
+    angleConstraintPart.addTotalImpulses(out, constraint.angleConstraintPart, axis, axis);
+}
+
 /** the constraint definition for cone constraint */
 export const def = /* @__PURE__ */ (() =>
     defineConstraint<ConeConstraint>({
@@ -462,6 +502,10 @@ export const def = /* @__PURE__ */ (() =>
         solveVelocity,
         solvePosition,
         resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
         getIterationOverrides: (out, constraint) => {
             out.velocity = constraint.numVelocityStepsOverride;
             out.position = constraint.numPositionStepsOverride;
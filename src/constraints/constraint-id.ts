@@ -34,6 +34,11 @@ export enum ConstraintType {
 	USER_1 = 8,
 	USER_2 = 9,
 	USER_3 = 10,
+	VEHICLE = 11,
+	GEAR = 12,
+	RACK_AND_PINION = 13,
+	PULLEY = 14,
+	PATH = 15,
 }
 
 /** serializes a constraint index, type, and sequence number into a packed ConstraintId */
@@ -19,6 +19,9 @@ import {
     type SpringPart,
 } from './spring-part';
 import type { SpringSettings } from './spring-settings';
+import type { StateRecorder } from '../../utils/state-recorder';
+import * as stateRecorder from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
 
 /**
  * Constrains rotation along 1 axis.
@@ -38,6 +41,9 @@ import type { SpringSettings } from './spring-settings';
  * - Hinge limits (min/max angle)
  * - Hinge motors (driving to target angle or velocity)
  * - Angular friction
+ *
+ * The axis can differ per body, giving J = [0, -a1^T, 0, a2^T]. This couples the rotation of
+ * body 1 around a1 to the rotation of body 2 around a2, e.g. for gears where a2 is scaled by the gear ratio.
  */
 export type AngleConstraintPart = {
     /** I1^-1 * axis (cached for velocity/position integration) */
@@ -78,6 +84,16 @@ export function isActive(part: AngleConstraintPart): boolean {
     return part.effectiveMass !== 0;
 }
 
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: AngleConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, part.totalLambda);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: AngleConstraintPart, recorder: StateRecorder): void {
+    part.totalLambda = stateRecorder.readFloat64(recorder);
+}
+
 const _calc_invI1_Axis = /* @__PURE__ */ vec3.create();
 const _calc_invI2_Axis = /* @__PURE__ */ vec3.create();
 
@@ -86,15 +102,14 @@ function calculateInverseEffectiveMass(
     part: AngleConstraintPart,
     bodyA: RigidBody,
     bodyB: RigidBody,
-    worldSpaceAxis: Vec3,
+    worldSpaceAxisA: Vec3,
+    worldSpaceAxisB: Vec3,
 ): number {
-    const [ax, ay, az] = worldSpaceAxis;
-
     // calculate I^-1 * axis for both bodies
     let i1x: number, i1y: number, i1z: number;
 
     if (bodyA.motionType === MotionType.DYNAMIC) {
-        multiplyWorldSpaceInverseInertiaByVector(_calc_invI1_Axis, bodyA.motionProperties, bodyA.quaternion, worldSpaceAxis);
+        multiplyWorldSpaceInverseInertiaByVector(_calc_invI1_Axis, bodyA.motionProperties, bodyA.quaternion, worldSpaceAxisA);
         [i1x, i1y, i1z] = _calc_invI1_Axis;
         part.invI1_Axis[0] = i1x;
         part.invI1_Axis[1] = i1y;
@@ -108,7 +123,7 @@ function calculateInverseEffectiveMass(
 
     let i2x: number, i2y: number, i2z: number;
     if (bodyB.motionType === MotionType.DYNAMIC) {
-        multiplyWorldSpaceInverseInertiaByVector(_calc_invI2_Axis, bodyB.motionProperties, bodyB.quaternion, worldSpaceAxis);
+        multiplyWorldSpaceInverseInertiaByVector(_calc_invI2_Axis, bodyB.motionProperties, bodyB.quaternion, worldSpaceAxisB);
         [i2x, i2y, i2z] = _calc_invI2_Axis;
         part.invI2_Axis[0] = i2x;
         part.invI2_Axis[1] = i2y;
@@ -120,12 +135,16 @@ function calculateInverseEffectiveMass(
         part.invI2_Axis[2] = 0;
     }
 
-    // calculate inverse effective mass: K = J M^-1 J^T = axis · (I1^-1 + I2^-1) · axis
-    // since J = [0, -a, 0, a], we get: K = a · I1^-1 · a + a · I2^-1 · a
-    const sumX = i1x + i2x;
-    const sumY = i1y + i2y;
-    const sumZ = i1z + i2z;
-    return ax * sumX + ay * sumY + az * sumZ;
+    // calculate inverse effective mass: K = J M^-1 J^T
+    // since J = [0, -a1, 0, a2], we get: K = a1 · I1^-1 · a1 + a2 · I2^-1 · a2
+    return (
+        worldSpaceAxisA[0] * i1x +
+        worldSpaceAxisA[1] * i1y +
+        worldSpaceAxisA[2] * i1z +
+        worldSpaceAxisB[0] * i2x +
+        worldSpaceAxisB[1] * i2y +
+        worldSpaceAxisB[2] * i2z
+    );
 }
 
 /**
@@ -143,7 +162,27 @@ export function calculateConstraintProperties(
     worldSpaceAxis: Vec3,
     bias = 0,
 ): void {
-    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxis);
+    calculateConstraintPropertiesWithAxes(part, bodyA, bodyB, worldSpaceAxis, worldSpaceAxis, bias);
+}
+
+/**
+ * Calculate constraint properties (hard constraint, no spring) with a different axis per body.
+ * @param part the constraint part to initialize
+ * @param bodyA first body
+ * @param bodyB second body
+ * @param worldSpaceAxisA axis of rotation for body a
+ * @param worldSpaceAxisB axis of rotation for body b
+ * @param bias bias term (b) for the constraint impulse: lambda = J v + b
+ */
+export function calculateConstraintPropertiesWithAxes(
+    part: AngleConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    worldSpaceAxisA: Vec3,
+    worldSpaceAxisB: Vec3,
+    bias = 0,
+): void {
+    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxisA, worldSpaceAxisB);
 
     if (invEffectiveMass === 0) {
         deactivate(part);
@@ -176,7 +215,7 @@ export function calculateConstraintPropertiesWithFrequencyAndDamping(
     frequency: number,
     damping: number,
 ): void {
-    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxis);
+    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxis, worldSpaceAxis);
 
     if (invEffectiveMass === 0) {
         deactivate(part);
@@ -216,7 +255,7 @@ export function calculateConstraintPropertiesWithStiffnessAndDamping(
     stiffness: number,
     damping: number,
 ): void {
-    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxis);
+    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxis, worldSpaceAxis);
 
     if (invEffectiveMass === 0) {
         deactivate(part);
@@ -255,7 +294,7 @@ export function calculateConstraintPropertiesWithSettings(
     C: number,
     settings: SpringSettings,
 ): void {
-    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxis);
+    const invEffectiveMass = calculateInverseEffectiveMass(part, bodyA, bodyB, worldSpaceAxis, worldSpaceAxis);
 
     if (invEffectiveMass === 0) {
         deactivate(part);
@@ -319,6 +358,29 @@ export function solveVelocityConstraint(
     worldSpaceAxis: Vec3,
     minLambda: number,
     maxLambda: number,
+): boolean {
+    return solveVelocityConstraintWithAxes(part, bodyA, bodyB, worldSpaceAxis, worldSpaceAxis, minLambda, maxLambda);
+}
+
+/**
+ * Solve the velocity constraint with a different axis per body.
+ * @param part the constraint part
+ * @param bodyA first body
+ * @param bodyB second body
+ * @param worldSpaceAxisA axis of rotation for body a, must match calculateConstraintPropertiesWithAxes
+ * @param worldSpaceAxisB axis of rotation for body b, must match calculateConstraintPropertiesWithAxes
+ * @param minLambda minimum angular impulse (N m s)
+ * @param maxLambda maximum angular impulse (N m s)
+ * @returns true if impulse was applied
+ */
+export function solveVelocityConstraintWithAxes(
+    part: AngleConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    worldSpaceAxisA: Vec3,
+    worldSpaceAxisB: Vec3,
+    minLambda: number,
+    maxLambda: number,
 ): boolean {
     if (!isActive(part)) {
         return false;
@@ -328,13 +390,13 @@ export function solveVelocityConstraint(
     const mpA = bodyA.motionType !== MotionType.STATIC ? bodyA.motionProperties : null;
     const mpB = bodyB.motionType !== MotionType.STATIC ? bodyB.motionProperties : null;
 
-    // calculate J * v = axis · (ω1 - ω2)
+    // calculate J * v = a1 · ω1 - a2 · ω2
     let jv = 0;
     if (mpA) {
-        jv += vec3.dot(worldSpaceAxis, mpA.angularVelocity);
+        jv += vec3.dot(worldSpaceAxisA, mpA.angularVelocity);
     }
     if (mpB) {
-        jv -= vec3.dot(worldSpaceAxis, mpB.angularVelocity);
+        jv -= vec3.dot(worldSpaceAxisB, mpB.angularVelocity);
     }
 
     // calculate lambda: lambda = -K^-1 * (J v + b)
@@ -402,3 +464,23 @@ export function getTotalLambda(part: AngleConstraintPart): number {
 export function setTotalLambda(part: AngleConstraintPart, lambda: number): void {
     part.totalLambda = lambda;
 }
+
+/**
+ * Add the world space angular impulses applied in the last step to out.
+ * @param out impulses to add to
+ * @param part the constraint part
+ * @param worldSpaceAxisA axis of rotation for body a, must match calculateConstraintProperties
+ * @param worldSpaceAxisB axis of rotation for body b, equal to worldSpaceAxisA unless the axes are independent
+ */
+export function addTotalImpulses(
+    out: ConstraintImpulses,
+    part: AngleConstraintPart,
+    worldSpaceAxisA: Vec3,
+    worldSpaceAxisB: Vec3,
+): void {
+    const lambda = part.totalLambda;
+    if (lambda === 0) return;
+
+    vec3.scaleAndAdd(out.angularA, out.angularA, worldSpaceAxisA, -lambda);
+    vec3.scaleAndAdd(out.angularB, out.angularB, worldSpaceAxisB, lambda);
+}
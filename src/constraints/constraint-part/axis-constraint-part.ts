@@ -19,6 +19,9 @@ import {
     type SpringPart,
 } from './spring-part';
 import type { SpringSettings } from './spring-settings';
+import type { StateRecorder } from '../../utils/state-recorder';
+import * as stateRecorder from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
 
 /**
  * Constraint part that constrains motion along 1 axis.
@@ -29,6 +32,9 @@ import type { SpringSettings } from './spring-settings';
  *
  * Also supports soft constraints (springs) for joints.
  *
+ * The "independent axes" variants use a different axis per body, J = [-a1^T, -(r1 + u) × a1^T, a2^T, r2 × a2^T].
+ * This couples the motion of body 1 along a1 to the motion of body 2 along a2, e.g. for pulleys.
+ *
  * Stores intermediate calculations for efficient solving.
  */
 export type AxisConstraintPart = {
@@ -83,7 +89,10 @@ export function resetAxisConstraintPart(part: AxisConstraintPart): void {
 const _acp_scaledInvInertiaA = /* @__PURE__ */ mat4.create();
 const _acp_scaledInvInertiaB = /* @__PURE__ */ mat4.create();
 
-/** calculate inverse effective mass (cached jacobian terms) */
+/**
+ * calculate inverse effective mass (cached jacobian terms).
+ * the linear terms use invMassA and invMassB as is, scale them by |axis|^2 for axes that are not normalized
+ */
 function calculateInverseEffectiveMass(
     part: AxisConstraintPart,
     bodyA: RigidBody,
@@ -94,7 +103,8 @@ function calculateInverseEffectiveMass(
     invInertiaB: Mat4,
     r1PlusU: Vec3,
     r2: Vec3,
-    axis: Vec3,
+    axisA: Vec3,
+    axisB: Vec3,
 ): number {
     let invEffectiveMass = 0;
 
@@ -103,9 +113,9 @@ function calculateInverseEffectiveMass(
         const r1x = r1PlusU[0];
         const r1y = r1PlusU[1];
         const r1z = r1PlusU[2];
-        const ax = axis[0];
-        const ay = axis[1];
-        const az = axis[2];
+        const ax = axisA[0];
+        const ay = axisA[1];
+        const az = axisA[2];
         part.r1PlusUxAxis[0] = r1y * az - r1z * ay;
         part.r1PlusUxAxis[1] = r1z * ax - r1x * az;
         part.r1PlusUxAxis[2] = r1x * ay - r1y * ax;
@@ -119,7 +129,8 @@ function calculateInverseEffectiveMass(
         part.invI1_r1PlusUxAxis[2] = invInertiaA[2] * cx + invInertiaA[6] * cy + invInertiaA[10] * cz;
 
         // invMass + (r × axis) · (I^-1 × (r × axis))
-        invEffectiveMass += invMassA + (part.invI1_r1PlusUxAxis[0] * cx + part.invI1_r1PlusUxAxis[1] * cy + part.invI1_r1PlusUxAxis[2] * cz);
+        invEffectiveMass +=
+            invMassA + (part.invI1_r1PlusUxAxis[0] * cx + part.invI1_r1PlusUxAxis[1] * cy + part.invI1_r1PlusUxAxis[2] * cz);
     }
 
     if (bodyB.motionType === MotionType.DYNAMIC) {
@@ -127,9 +138,9 @@ function calculateInverseEffectiveMass(
         const r2x = r2[0];
         const r2y = r2[1];
         const r2z = r2[2];
-        const ax = axis[0];
-        const ay = axis[1];
-        const az = axis[2];
+        const ax = axisB[0];
+        const ay = axisB[1];
+        const az = axisB[2];
         part.r2xAxis[0] = r2y * az - r2z * ay;
         part.r2xAxis[1] = r2z * ax - r2x * az;
         part.r2xAxis[2] = r2x * ay - r2y * ax;
@@ -190,6 +201,7 @@ export function calculateConstraintProperties(
         r1PlusU,
         r2,
         axis,
+        axis,
     );
 
     if (invEffectiveMass === 0) {
@@ -253,6 +265,7 @@ export function calculateConstraintPropertiesWithMassOverride(
         r1PlusU,
         r2,
         axis,
+        axis,
     );
 
     if (invEffectiveMass === 0) {
@@ -310,6 +323,7 @@ export function calculateConstraintPropertiesWithFrequencyAndDamping(
         r1PlusU,
         r2,
         axis,
+        axis,
     );
 
     if (invEffectiveMass === 0) {
@@ -373,6 +387,7 @@ export function calculateConstraintPropertiesWithStiffnessAndDamping(
         r1PlusU,
         r2,
         axis,
+        axis,
     );
 
     if (invEffectiveMass === 0) {
@@ -435,6 +450,7 @@ export function calculateConstraintPropertiesWithSettings(
         r1PlusU,
         r2,
         axis,
+        axis,
     );
 
     if (invEffectiveMass === 0) {
@@ -456,6 +472,16 @@ export function isActive(part: AxisConstraintPart): boolean {
     return part.effectiveMass !== 0;
 }
 
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: AxisConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, part.totalLambda);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: AxisConstraintPart, recorder: StateRecorder): void {
+    part.totalLambda = stateRecorder.readFloat64(recorder);
+}
+
 /** Deactivate the constraint (zero out effective mass and lambda) */
 export function deactivate(part: AxisConstraintPart): void {
     part.effectiveMass = 0;
@@ -845,3 +871,229 @@ export function solvePositionConstraintWithMassOverride(
 
     return true;
 }
+
+/**
+ * Calculate constraint properties with a different axis per body (hard constraint, no spring).
+ * The axes don't need to be normalized, scale an axis to scale the contribution of that body to the constraint.
+ *
+ * @param part the constraint part to initialize
+ * @param bodyA first body
+ * @param bodyB second body
+ * @param invInertiaA inverse inertia of body A (world space)
+ * @param invInertiaB inverse inertia of body B (world space)
+ * @param r1PlusU moment arm for body A
+ * @param r2 moment arm for body B
+ * @param axisA constraint axis for body A
+ * @param axisB constraint axis for body B
+ * @param bias velocity bias
+ */
+export function calculateConstraintPropertiesWithIndependentAxes(
+    part: AxisConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    invInertiaA: Mat4,
+    invInertiaB: Mat4,
+    r1PlusU: Vec3,
+    r2: Vec3,
+    axisA: Vec3,
+    axisB: Vec3,
+    bias = 0,
+): void {
+    const invMassA = bodyA.motionType === MotionType.DYNAMIC ? bodyA.motionProperties.invMass : 0;
+    const invMassB = bodyB.motionType === MotionType.DYNAMIC ? bodyB.motionProperties.invMass : 0;
+
+    const invEffectiveMass = calculateInverseEffectiveMass(
+        part,
+        bodyA,
+        bodyB,
+        invMassA * vec3.squaredLength(axisA),
+        invMassB * vec3.squaredLength(axisB),
+        invInertiaA,
+        invInertiaB,
+        r1PlusU,
+        r2,
+        axisA,
+        axisB,
+    );
+
+    if (invEffectiveMass === 0) {
+        deactivate(part);
+    } else {
+        part.effectiveMass = 1 / invEffectiveMass;
+        calculateSpringPropertiesWithBias(part.springPart, bias);
+    }
+}
+
+const _acp_ia_delta = /* @__PURE__ */ vec3.create();
+
+/** apply an impulse with a different axis per body */
+function applyVelocityStepWithIndependentAxes(
+    part: AxisConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    axisA: Vec3,
+    axisB: Vec3,
+    lambda: number,
+): boolean {
+    if (lambda === 0) return false;
+
+    // body a: subtract impulse
+    if (bodyA.motionType === MotionType.DYNAMIC) {
+        const mpA = bodyA.motionProperties;
+        vec3.scale(_acp_ia_delta, axisA, lambda * mpA.invMass);
+        subLinearVelocityStep(mpA, _acp_ia_delta);
+        vec3.scale(_acp_ia_delta, part.invI1_r1PlusUxAxis, lambda);
+        subAngularVelocityStep(mpA, _acp_ia_delta);
+    }
+
+    // body b: add impulse
+    if (bodyB.motionType === MotionType.DYNAMIC) {
+        const mpB = bodyB.motionProperties;
+        vec3.scale(_acp_ia_delta, axisB, lambda * mpB.invMass);
+        addLinearVelocityStep(mpB, _acp_ia_delta);
+        vec3.scale(_acp_ia_delta, part.invI2_r2xAxis, lambda);
+        addAngularVelocityStep(mpB, _acp_ia_delta);
+    }
+
+    return true;
+}
+
+/**
+ * Apply warm start impulse from previous frame with a different axis per body.
+ *
+ * @param part the constraint part
+ * @param bodyA first body
+ * @param bodyB second body
+ * @param axisA constraint axis for body A (same as used in calculateConstraintPropertiesWithIndependentAxes)
+ * @param axisB constraint axis for body B (same as used in calculateConstraintPropertiesWithIndependentAxes)
+ * @param warmStartRatio scale factor for warm start (dt_new / dt_old)
+ */
+export function warmStartWithIndependentAxes(
+    part: AxisConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    axisA: Vec3,
+    axisB: Vec3,
+    warmStartRatio: number,
+): void {
+    part.totalLambda *= warmStartRatio;
+    applyVelocityStepWithIndependentAxes(part, bodyA, bodyB, axisA, axisB, part.totalLambda);
+}
+
+/**
+ * Solve velocity constraint (one iteration) with a different axis per body.
+ *
+ * @param part the constraint part
+ * @param bodyA first body
+ * @param bodyB second body
+ * @param axisA constraint axis for body A
+ * @param axisB constraint axis for body B
+ * @param minLambda minimum lambda
+ * @param maxLambda maximum lambda
+ * @returns true if impulse was applied
+ */
+export function solveVelocityConstraintWithIndependentAxes(
+    part: AxisConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    axisA: Vec3,
+    axisB: Vec3,
+    minLambda: number,
+    maxLambda: number,
+): boolean {
+    if (!isActive(part)) return false;
+
+    // jv = a1 · v1 + ((r1 + u) × a1) · ω1 - a2 · v2 - (r2 × a2) · ω2
+    let jv = 0;
+    if (bodyA.motionType !== MotionType.STATIC) {
+        const mpA = bodyA.motionProperties;
+        jv += vec3.dot(axisA, mpA.linearVelocity) + vec3.dot(part.r1PlusUxAxis, mpA.angularVelocity);
+    }
+    if (bodyB.motionType !== MotionType.STATIC) {
+        const mpB = bodyB.motionProperties;
+        jv -= vec3.dot(axisB, mpB.linearVelocity) + vec3.dot(part.r2xAxis, mpB.angularVelocity);
+    }
+
+    const lambda = part.effectiveMass * (jv - getSpringBias(part.springPart, part.totalLambda));
+    const newLambda = Math.max(minLambda, Math.min(maxLambda, part.totalLambda + lambda));
+    const deltaLambda = newLambda - part.totalLambda;
+    part.totalLambda = newLambda;
+
+    return applyVelocityStepWithIndependentAxes(part, bodyA, bodyB, axisA, axisB, deltaLambda);
+}
+
+/**
+ * Solve position constraint (Baumgarte stabilization) with a different axis per body.
+ *
+ * @param part the constraint part
+ * @param bodyA first body
+ * @param bodyB second body
+ * @param axisA constraint axis for body A
+ * @param axisB constraint axis for body B
+ * @param C constraint error
+ * @param baumgarte baumgarte stabilization factor
+ * @returns true if position correction was applied
+ */
+export function solvePositionConstraintWithIndependentAxes(
+    part: AxisConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    axisA: Vec3,
+    axisB: Vec3,
+    C: number,
+    baumgarte: number,
+): boolean {
+    if (C === 0 || !isActive(part) || isSpringActive(part.springPart)) {
+        return false;
+    }
+
+    // lambda = -K^-1 × β × C, see solvePositionConstraintWithMassOverride
+    const lambda = -part.effectiveMass * baumgarte * C;
+
+    if (bodyA.motionType === MotionType.DYNAMIC) {
+        vec3.scale(_acp_sp_impulse, axisA, lambda * bodyA.motionProperties.invMass);
+        subPositionStep(bodyA, _acp_sp_impulse);
+        vec3.scale(_acp_sp_angularStep, part.invI1_r1PlusUxAxis, lambda);
+        subRotationStep(bodyA, _acp_sp_angularStep);
+    }
+
+    if (bodyB.motionType === MotionType.DYNAMIC) {
+        vec3.scale(_acp_sp_impulse, axisB, lambda * bodyB.motionProperties.invMass);
+        addPositionStep(bodyB, _acp_sp_impulse);
+        vec3.scale(_acp_sp_angularStep, part.invI2_r2xAxis, lambda);
+        addRotationStep(bodyB, _acp_sp_angularStep);
+    }
+
+    return true;
+}
+
+const _addTotalImpulses_angular = /* @__PURE__ */ vec3.create();
+
+/**
+ * Add the world space impulses applied in the last step to out.
+ * @param out impulses to add to
+ * @param part the constraint part
+ * @param r1PlusU moment arm of body a, must match calculateConstraintProperties
+ * @param r2 moment arm of body b, must match calculateConstraintProperties
+ * @param worldSpaceAxisA axis along which body a is pushed back, must match calculateConstraintProperties
+ * @param worldSpaceAxisB axis along which body b is pushed, equal to worldSpaceAxisA unless the axes are independent
+ */
+export function addTotalImpulses(
+    out: ConstraintImpulses,
+    part: AxisConstraintPart,
+    r1PlusU: Vec3,
+    r2: Vec3,
+    worldSpaceAxisA: Vec3,
+    worldSpaceAxisB: Vec3,
+): void {
+    const lambda = part.totalLambda;
+    if (lambda === 0) return;
+
+    vec3.scaleAndAdd(out.linearA, out.linearA, worldSpaceAxisA, -lambda);
+    vec3.cross(_addTotalImpulses_angular, r1PlusU, worldSpaceAxisA);
+    vec3.scaleAndAdd(out.angularA, out.angularA, _addTotalImpulses_angular, -lambda);
+
+    vec3.scaleAndAdd(out.linearB, out.linearB, worldSpaceAxisB, lambda);
+    vec3.cross(_addTotalImpulses_angular, r2, worldSpaceAxisB);
+    vec3.scaleAndAdd(out.angularB, out.angularB, _addTotalImpulses_angular, lambda);
+}
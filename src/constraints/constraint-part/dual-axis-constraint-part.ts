@@ -10,6 +10,9 @@ import {
 import { MotionType } from '../../body/motion-type';
 import type { RigidBody } from '../../body/rigid-body';
 import { addPositionStep, addRotationStep, subPositionStep, subRotationStep } from '../../body/rigid-body-step';
+import type { StateRecorder } from '../../utils/state-recorder';
+import * as stateRecorder from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
 
 /**
  * Constrains movement on 2 axes perpendicular to a sliding axis.
@@ -97,6 +100,18 @@ export function isActive(part: DualAxisConstraintPart): boolean {
     );
 }
 
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: DualAxisConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, part.totalLambda[0]);
+    stateRecorder.writeFloat64(recorder, part.totalLambda[1]);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: DualAxisConstraintPart, recorder: StateRecorder): void {
+    part.totalLambda[0] = stateRecorder.readFloat64(recorder);
+    part.totalLambda[1] = stateRecorder.readFloat64(recorder);
+}
+
 const _calc_invEffectiveMass = /* @__PURE__ */ mat2.create();
 const _calc_invI = /* @__PURE__ */ mat4.create();
 const _calc_crossN1 = /* @__PURE__ */ vec3.create();
@@ -428,3 +443,36 @@ export function solvePositionConstraint(
 
     return true;
 }
+
+const _addTotalImpulses_impulse = /* @__PURE__ */ vec3.create();
+const _addTotalImpulses_angular = /* @__PURE__ */ vec3.create();
+
+/**
+ * Add the world space impulses applied in the last step to out.
+ * @param out impulses to add to
+ * @param part the constraint part
+ * @param r1PlusU moment arm of body a, must match calculateConstraintProperties
+ * @param r2 moment arm of body b, must match calculateConstraintProperties
+ * @param n1 first constrained axis, must match calculateConstraintProperties
+ * @param n2 second constrained axis, must match calculateConstraintProperties
+ */
+export function addTotalImpulses(
+    out: ConstraintImpulses,
+    part: DualAxisConstraintPart,
+    r1PlusU: Vec3,
+    r2: Vec3,
+    n1: Vec3,
+    n2: Vec3,
+): void {
+    const impulse = _addTotalImpulses_impulse;
+    vec3.scale(impulse, n1, part.totalLambda[0]);
+    vec3.scaleAndAdd(impulse, impulse, n2, part.totalLambda[1]);
+
+    vec3.subtract(out.linearA, out.linearA, impulse);
+    vec3.cross(_addTotalImpulses_angular, r1PlusU, impulse);
+    vec3.subtract(out.angularA, out.angularA, _addTotalImpulses_angular);
+
+    vec3.add(out.linearB, out.linearB, impulse);
+    vec3.cross(_addTotalImpulses_angular, r2, impulse);
+    vec3.add(out.angularB, out.angularB, _addTotalImpulses_angular);
+}
@@ -4,6 +4,9 @@ import { addAngularVelocityStep, getInverseInertiaForRotation, subAngularVelocit
 import { MotionType } from '../../body/motion-type';
 import type { RigidBody } from '../../body/rigid-body';
 import { addRotationStep, subRotationStep } from '../../body/rigid-body-step';
+import type { StateRecorder } from '../../utils/state-recorder';
+import * as stateRecorder from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
 
 /**
  * Constrains rotation around 2 axes so that it only allows rotation around 1 axis (the hinge axis).
@@ -85,6 +88,18 @@ export function isActive(part: HingeRotationConstraintPart): boolean {
     );
 }
 
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: HingeRotationConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, part.totalLambda[0]);
+    stateRecorder.writeFloat64(recorder, part.totalLambda[1]);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: HingeRotationConstraintPart, recorder: StateRecorder): void {
+    part.totalLambda[0] = stateRecorder.readFloat64(recorder);
+    part.totalLambda[1] = stateRecorder.readFloat64(recorder);
+}
+
 const _calc_a2 = /* @__PURE__ */ vec3.create();
 const _calc_perp = /* @__PURE__ */ vec3.create();
 const _calc_summedInvInertia = /* @__PURE__ */ mat4.create();
@@ -346,3 +361,15 @@ function getPerpendicularVector(out: Vec3, v: Vec3): Vec3 {
 
     return out;
 }
+
+const _addTotalImpulses_impulse = /* @__PURE__ */ vec3.create();
+
+/** Add the world space angular impulses applied in the last step to out */
+export function addTotalImpulses(out: ConstraintImpulses, part: HingeRotationConstraintPart): void {
+    const impulse = _addTotalImpulses_impulse;
+    vec3.scale(impulse, part.b2xA1, part.totalLambda[0]);
+    vec3.scaleAndAdd(impulse, impulse, part.c2xA1, part.totalLambda[1]);
+
+    vec3.subtract(out.angularA, out.angularA, impulse);
+    vec3.add(out.angularB, out.angularB, impulse);
+}
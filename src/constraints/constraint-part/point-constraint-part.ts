@@ -4,6 +4,9 @@ import * as motionProperties from '../../body/motion-properties';
 import { MotionType } from '../../body/motion-type';
 import type { RigidBody } from '../../body/rigid-body';
 import { addPositionStep, addRotationStep, subPositionStep, subRotationStep } from '../../body/rigid-body-step';
+import type { StateRecorder } from '../../utils/state-recorder';
+import * as stateRecorder from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
 
 /**
  * PointConstraintPart removes 3 translational degrees of freedom.
@@ -54,6 +57,16 @@ export function isActive(part: PointConstraintPart): boolean {
     return part.effectiveMass[15] !== 0;
 }
 
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: PointConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.writeVec3(recorder, part.totalLambda);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: PointConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.readVec3(part.totalLambda, recorder);
+}
+
 const _calc_r1Cross = /* @__PURE__ */ mat4.create();
 const _calc_r2Cross = /* @__PURE__ */ mat4.create();
 const _calc_invEffectiveMass = /* @__PURE__ */ mat4.create();
@@ -366,3 +379,18 @@ export function solvePositionConstraint(
 
     return true;
 }
+
+const _addTotalImpulses_angular = /* @__PURE__ */ vec3.create();
+
+/** Add the world space impulses applied in the last step to out, body a receives the opposite impulse of body b */
+export function addTotalImpulses(out: ConstraintImpulses, part: PointConstraintPart): void {
+    const lambda = part.totalLambda;
+
+    vec3.subtract(out.linearA, out.linearA, lambda);
+    vec3.cross(_addTotalImpulses_angular, part.r1, lambda);
+    vec3.subtract(out.angularA, out.angularA, _addTotalImpulses_angular);
+
+    vec3.add(out.linearB, out.linearB, lambda);
+    vec3.cross(_addTotalImpulses_angular, part.r2, lambda);
+    vec3.add(out.angularB, out.angularB, _addTotalImpulses_angular);
+}
@@ -0,0 +1,256 @@
+import type { Vec3 } from 'mathcat';
+import { vec3 } from 'mathcat';
+import {
+    addAngularVelocityStep,
+    multiplyWorldSpaceInverseInertiaByVector,
+    subLinearVelocityStep,
+} from '../../body/motion-properties';
+import { MotionType } from '../../body/motion-type';
+import type { RigidBody } from '../../body/rigid-body';
+import { addRotationStep, subPositionStep } from '../../body/rigid-body-step';
+import type { StateRecorder } from '../../utils/state-recorder';
+import * as stateRecorder from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
+
+/**
+ * Constrains the rotation of body 1 around an axis to the translation of body 2 along an axis.
+ *
+ * Constraint equation:
+ * C = θ(t) - r d(t)
+ *
+ * Jacobian:
+ * J = [0, a^T, -r b^T, 0]
+ *
+ * where:
+ * - a = axis around which body 1 rotates (normalized, world space)
+ * - b = axis along which body 2 translates (normalized, world space)
+ * - r = ratio between rotation and translation (rad / m)
+ *
+ * Only the rotation of body 1 and the translation of body 2 are affected, used for rack and pinions.
+ */
+export type RackAndPinionConstraintPart = {
+    /** I1^-1 * a (cached for velocity/position integration) */
+    invI1_A: Vec3;
+
+    /** M2^-1 * r * b (cached for velocity/position integration) */
+    invM2_RB: Vec3;
+
+    /** Effective mass: 1 / (J M^-1 J^T) */
+    effectiveMass: number;
+
+    /** Accumulated impulse (for warm starting) */
+    totalLambda: number;
+};
+
+/** create a new RackAndPinionConstraintPart with zero-initialized values */
+export function create(): RackAndPinionConstraintPart {
+    return {
+        invI1_A: vec3.create(),
+        invM2_RB: vec3.create(),
+        effectiveMass: 0,
+        totalLambda: 0,
+    };
+}
+
+/** deactivate this constraint part (zero out effective mass and lambda) */
+export function deactivate(part: RackAndPinionConstraintPart): void {
+    part.effectiveMass = 0;
+    part.totalLambda = 0;
+}
+
+/** check if constraint is active (has non-zero effective mass) */
+export function isActive(part: RackAndPinionConstraintPart): boolean {
+    return part.effectiveMass !== 0;
+}
+
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: RackAndPinionConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, part.totalLambda);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: RackAndPinionConstraintPart, recorder: StateRecorder): void {
+    part.totalLambda = stateRecorder.readFloat64(recorder);
+}
+
+/**
+ * Calculate constraint properties.
+ * @param part the constraint part to initialize
+ * @param bodyA body that rotates (pinion)
+ * @param bodyB body that translates (rack)
+ * @param worldSpaceHingeAxis axis around which body a rotates (normalized)
+ * @param worldSpaceSliderAxis axis along which body b translates (normalized)
+ * @param ratio ratio between rotation and translation (rad / m)
+ */
+export function calculateConstraintProperties(
+    part: RackAndPinionConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    worldSpaceHingeAxis: Vec3,
+    worldSpaceSliderAxis: Vec3,
+    ratio: number,
+): void {
+    let invEffectiveMass = 0;
+
+    // K = a · I1^-1 · a + r^2 * M2^-1
+    if (bodyA.motionType === MotionType.DYNAMIC) {
+        multiplyWorldSpaceInverseInertiaByVector(part.invI1_A, bodyA.motionProperties, bodyA.quaternion, worldSpaceHingeAxis);
+        invEffectiveMass += vec3.dot(worldSpaceHingeAxis, part.invI1_A);
+    } else {
+        vec3.zero(part.invI1_A);
+    }
+
+    if (bodyB.motionType === MotionType.DYNAMIC) {
+        const invMassB = bodyB.motionProperties.invMass;
+        vec3.scale(part.invM2_RB, worldSpaceSliderAxis, invMassB * ratio);
+        invEffectiveMass += ratio * ratio * invMassB;
+    } else {
+        vec3.zero(part.invM2_RB);
+    }
+
+    if (invEffectiveMass === 0) {
+        deactivate(part);
+    } else {
+        part.effectiveMass = 1 / invEffectiveMass;
+    }
+}
+
+const _rp_delta = /* @__PURE__ */ vec3.create();
+
+/** Internal helper to apply velocity step */
+function applyVelocityStep(part: RackAndPinionConstraintPart, bodyA: RigidBody, bodyB: RigidBody, lambda: number): boolean {
+    if (lambda === 0) {
+        return false;
+    }
+
+    // apply impulse: P = J^T * lambda
+    // body a: ω += lambda * I1^-1 * a
+    if (bodyA.motionType === MotionType.DYNAMIC) {
+        vec3.scale(_rp_delta, part.invI1_A, lambda);
+        addAngularVelocityStep(bodyA.motionProperties, _rp_delta);
+    }
+
+    // body b: v -= lambda * M2^-1 * r * b
+    if (bodyB.motionType === MotionType.DYNAMIC) {
+        vec3.scale(_rp_delta, part.invM2_RB, lambda);
+        subLinearVelocityStep(bodyB.motionProperties, _rp_delta);
+    }
+
+    return true;
+}
+
+/** apply warm start impulse from previous frame */
+export function warmStart(
+    part: RackAndPinionConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    warmStartImpulseRatio: number,
+): void {
+    part.totalLambda *= warmStartImpulseRatio;
+    applyVelocityStep(part, bodyA, bodyB, part.totalLambda);
+}
+
+/**
+ * Solve the velocity constraint.
+ * Enforces d/dt C(...) = 0 where C is the constraint equation.
+ * @param part the constraint part
+ * @param bodyA body that rotates (pinion)
+ * @param bodyB body that translates (rack)
+ * @param worldSpaceHingeAxis axis around which body a rotates, must match calculateConstraintProperties
+ * @param worldSpaceSliderAxis axis along which body b translates, must match calculateConstraintProperties
+ * @param ratio ratio between rotation and translation, must match calculateConstraintProperties
+ * @returns true if impulse was applied
+ */
+export function solveVelocityConstraint(
+    part: RackAndPinionConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    worldSpaceHingeAxis: Vec3,
+    worldSpaceSliderAxis: Vec3,
+    ratio: number,
+): boolean {
+    if (!isActive(part)) {
+        return false;
+    }
+
+    // calculate -J * v = r * b · v2 - a · ω1
+    let jv = 0;
+    if (bodyA.motionType !== MotionType.STATIC) {
+        jv -= vec3.dot(worldSpaceHingeAxis, bodyA.motionProperties.angularVelocity);
+    }
+    if (bodyB.motionType !== MotionType.STATIC) {
+        jv += ratio * vec3.dot(worldSpaceSliderAxis, bodyB.motionProperties.linearVelocity);
+    }
+
+    // calculate lambda: lambda = -K^-1 * J v
+    const lambda = part.effectiveMass * jv;
+    part.totalLambda += lambda;
+
+    return applyVelocityStep(part, bodyA, bodyB, lambda);
+}
+
+/**
+ * Solve the position constraint (Baumgarte stabilization).
+ * Enforces C(...) = 0.
+ * @param part the constraint part
+ * @param bodyA body that rotates (pinion)
+ * @param bodyB body that translates (rack)
+ * @param C constraint error (θ - r d, in radians)
+ * @param baumgarte Baumgarte stabilization factor
+ * @returns true if correction was applied
+ */
+export function solvePositionConstraint(
+    part: RackAndPinionConstraintPart,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    C: number,
+    baumgarte: number,
+): boolean {
+    if (C === 0 || !isActive(part)) {
+        return false;
+    }
+
+    // calculate lambda: lambda = -K^-1 * beta * C
+    const lambda = -part.effectiveMass * baumgarte * C;
+
+    // body a: Δq += lambda * I1^-1 * a
+    if (bodyA.motionType === MotionType.DYNAMIC) {
+        vec3.scale(_rp_delta, part.invI1_A, lambda);
+        addRotationStep(bodyA, _rp_delta);
+    }
+
+    // body b: Δx -= lambda * M2^-1 * r * b
+    if (bodyB.motionType === MotionType.DYNAMIC) {
+        vec3.scale(_rp_delta, part.invM2_RB, lambda);
+        subPositionStep(bodyB, _rp_delta);
+    }
+
+    return true;
+}
+
+/** Get total accumulated lambda (impulse) */
+export function getTotalLambda(part: RackAndPinionConstraintPart): number {
+    return part.totalLambda;
+}
+
+/**
+ * Add the world space impulses applied in the last step to out.
+ * @param out impulses to add to
+ * @param part the constraint part
+ * @param worldSpaceHingeAxis axis around which body a rotates, must match calculateConstraintProperties
+ * @param worldSpaceSliderAxis axis along which body b translates, must match calculateConstraintProperties
+ * @param ratio ratio between rotation and translation, must match calculateConstraintProperties
+ */
+export function addTotalImpulses(
+    out: ConstraintImpulses,
+    part: RackAndPinionConstraintPart,
+    worldSpaceHingeAxis: Vec3,
+    worldSpaceSliderAxis: Vec3,
+    ratio: number,
+): void {
+    const lambda = part.totalLambda;
+    if (lambda === 0) return;
+
+    vec3.scaleAndAdd(out.angularA, out.angularA, worldSpaceHingeAxis, lambda);
+    vec3.scaleAndAdd(out.linearB, out.linearB, worldSpaceSliderAxis, -lambda * ratio);
+}
@@ -4,6 +4,9 @@ import * as motionProperties from '../../body/motion-properties';
 import { MotionType } from '../../body/motion-type';
 import type { RigidBody } from '../../body/rigid-body';
 import { addRotationStep, subRotationStep } from '../../body/rigid-body-step';
+import type { StateRecorder } from '../../utils/state-recorder';
+import * as stateRecorder from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
 
 /**
  * RotationEulerConstraintPart removes 3 rotational degrees of freedom.
@@ -55,6 +58,16 @@ export function isActive(part: RotationEulerConstraintPart): boolean {
     return part.effectiveMass[15] !== 0.0;
 }
 
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: RotationEulerConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.writeVec3(recorder, part.totalLambda);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: RotationEulerConstraintPart, recorder: StateRecorder): void {
+    stateRecorder.readVec3(part.totalLambda, recorder);
+}
+
 /**
  * Return inverse of initial rotation from body 1 to body 2 in body 1 space.
  *
@@ -353,3 +366,9 @@ export function solvePositionConstraint(
 
     return true;
 }
+
+/** Add the world space angular impulses applied in the last step to out */
+export function addTotalImpulses(out: ConstraintImpulses, part: RotationEulerConstraintPart): void {
+    vec3.subtract(out.angularA, out.angularA, part.totalLambda);
+    vec3.add(out.angularB, out.angularB, part.totalLambda);
+}
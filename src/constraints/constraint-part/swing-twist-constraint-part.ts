@@ -4,6 +4,8 @@ import type { RigidBody } from '../../body/rigid-body';
 import type { AngleConstraintPart } from './angle-constraint-part';
 import * as angleConstraintPart from './angle-constraint-part';
 import * as rotationEulerConstraintPart from './rotation-euler-constraint-part';
+import type { StateRecorder } from '../../utils/state-recorder';
+import type { ConstraintImpulses } from '../constraints';
 
 /** how the swing limit behaves */
 export enum SwingType {
@@ -133,6 +135,20 @@ export function isActive(part: SwingTwistConstraintPart): boolean {
     );
 }
 
+/** saves the accumulated impulse (for warm starting) */
+export function saveState(part: SwingTwistConstraintPart, recorder: StateRecorder): void {
+    angleConstraintPart.saveState(part.swingLimitYConstraintPart, recorder);
+    angleConstraintPart.saveState(part.swingLimitZConstraintPart, recorder);
+    angleConstraintPart.saveState(part.twistLimitConstraintPart, recorder);
+}
+
+/** restores the accumulated impulse saved by saveState */
+export function restoreState(part: SwingTwistConstraintPart, recorder: StateRecorder): void {
+    angleConstraintPart.restoreState(part.swingLimitYConstraintPart, recorder);
+    angleConstraintPart.restoreState(part.swingLimitZConstraintPart, recorder);
+    angleConstraintPart.restoreState(part.twistLimitConstraintPart, recorder);
+}
+
 /** degrees to radians constant */
 const DEG_TO_RAD = Math.PI / 180;
 
@@ -790,3 +806,13 @@ export function getTotalSwingZLambda(part: SwingTwistConstraintPart): number {
 export function getTotalTwistLambda(part: SwingTwistConstraintPart): number {
     return part.twistLimitConstraintPart.totalLambda;
 }
+
+/** Add the world space angular impulses of the swing and twist limits applied in the last step to out */
+export function addTotalImpulses(out: ConstraintImpulses, part: SwingTwistConstraintPart): void {
+    const swingY = part.worldSpaceSwingLimitYRotationAxis;
+    const swingZ = part.worldSpaceSwingLimitZRotationAxis;
+    const twist = part.worldSpaceTwistLimitRotationAxis;
+    angleConstraintPart.addTotalImpulses(out, part.swingLimitYConstraintPart, swingY, swingY);
+    angleConstraintPart.addTotalImpulses(out, part.swingLimitZConstraintPart, swingZ, swingZ);
+    angleConstraintPart.addTotalImpulses(out, part.twistLimitConstraintPart, twist, twist);
+}
@@ -1,4 +1,10 @@
+import { type Vec3, vec3 } from 'mathcat';
 import type { Bodies } from '../body/bodies';
+import type { Islands } from '../islands';
+import type { Listener } from '../listener';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { VehicleConstraint } from '../vehicle/vehicle-constraint';
 import type { World } from '../world';
 import type { ConeConstraint } from './cone-constraint';
 import {
@@ -10,8 +16,12 @@ import {
 } from './constraint-id';
 import type { DistanceConstraint } from './distance-constraint';
 import type { FixedConstraint } from './fixed-constraint';
+import type { GearConstraint } from './gear-constraint';
 import type { HingeConstraint } from './hinge-constraint';
+import type { PathConstraint } from './path-constraint';
 import type { PointConstraint } from './point-constraint';
+import type { PulleyConstraint } from './pulley-constraint';
+import type { RackAndPinionConstraint } from './rack-and-pinion-constraint';
 import type { SixDOFConstraint } from './six-dof-constraint';
 import type { SliderConstraint } from './slider-constraint';
 import type { SwingTwistConstraint } from './swing-twist-constraint';
@@ -37,6 +47,11 @@ export interface ConstraintTypeRegistry {
     [ConstraintType.CONE]: ConeConstraint;
     [ConstraintType.SWING_TWIST]: SwingTwistConstraint;
     [ConstraintType.SIX_DOF]: SixDOFConstraint;
+    [ConstraintType.VEHICLE]: VehicleConstraint;
+    [ConstraintType.GEAR]: GearConstraint;
+    [ConstraintType.RACK_AND_PINION]: RackAndPinionConstraint;
+    [ConstraintType.PULLEY]: PulleyConstraint;
+    [ConstraintType.PATH]: PathConstraint;
 }
 
 /** union type of all constraint data types, derived from registry interface */
@@ -74,6 +89,29 @@ export type ConstraintSortFields = {
     index: number;
 };
 
+/** result type for the total impulse a constraint applied in the last step */
+export type ConstraintTotalLambda = {
+    /** magnitude of the combined impulse of the translational constraint parts */
+    position: number;
+    /** magnitude of the combined angular impulse of the rotational constraint parts */
+    rotation: number;
+};
+
+/**
+ * result type for the impulses a constraint applied to its bodies in the last step, in world space.
+ * angular impulses are around each body's center of mass and include the moment of the linear impulses.
+ */
+export type ConstraintImpulses = {
+    /** linear impulse applied to body a */
+    linearA: Vec3;
+    /** angular impulse applied to body a */
+    angularA: Vec3;
+    /** linear impulse applied to body b */
+    linearB: Vec3;
+    /** angular impulse applied to body b */
+    angularB: Vec3;
+};
+
 /** function signatures for constraint operations */
 export type SetupVelocityFn<C extends ConstraintBase> = (constraint: C, bodies: Bodies, deltaTime: number) => void;
 export type WarmStartVelocityFn<C extends ConstraintBase> = (
@@ -91,6 +129,13 @@ export type SolvePositionFn<C extends ConstraintBase> = (
 export type ResetWarmStartFn<C extends ConstraintBase> = (constraint: C) => void;
 export type GetIterationOverridesFn<C extends ConstraintBase> = (out: ConstraintIterationOverrides, constraint: C) => void;
 export type GetSortFieldsFn<C extends ConstraintBase> = (out: ConstraintSortFields, constraint: C) => void;
+export type SaveStateFn<C extends ConstraintBase> = (constraint: C, recorder: StateRecorder) => void;
+export type RestoreStateFn<C extends ConstraintBase> = (constraint: C, recorder: StateRecorder) => void;
+export type PreStepFn<C extends ConstraintBase> = (world: World, constraint: C, deltaTime: number) => void;
+export type LinkIslandsFn<C extends ConstraintBase> = (islands: Islands, bodies: Bodies, constraint: C) => void;
+export type GetTotalLambdaFn<C extends ConstraintBase> = (out: ConstraintTotalLambda, constraint: C) => void;
+export type GetTotalImpulsesFn<C extends ConstraintBase> = (out: ConstraintImpulses, constraint: C, bodies: Bodies) => void;
+export type RemapConstraintIdsFn<C extends ConstraintBase> = (constraint: C, remap: (id: ConstraintId) => ConstraintId) => void;
 
 /** definition for a user constraint */
 export type ConstraintDef<C extends ConstraintBase = ConstraintBase> = {
@@ -117,6 +162,27 @@ export type ConstraintDef<C extends ConstraintBase = ConstraintBase> = {
 
     /** get sort fields for constraint ordering */
     getSortFields: GetSortFieldsFn<C>;
+
+    /** save simulation state (warm start impulses, motor state) for world state snapshots */
+    saveState: SaveStateFn<C>;
+
+    /** restore simulation state written by saveState, must read exactly what saveState wrote */
+    restoreState: RestoreStateFn<C>;
+
+    /** optional, called at the start of each world update before collision detection, e.g. to query the world */
+    preStep?: PreStepFn<C>;
+
+    /** optional, link additional bodies the constraint acts on into the constraint's island */
+    linkIslands?: LinkIslandsFn<C>;
+
+    /** optional, get the total impulse applied by the constraint parts in the last step, constraints without it never break */
+    getTotalLambda?: GetTotalLambdaFn<C>;
+
+    /** optional, get the world space impulses applied to each body in the last step, see getTotalImpulses */
+    getTotalImpulses?: GetTotalImpulsesFn<C>;
+
+    /** optional, replace the ids of other constraints stored in the constraint, e.g. when a world is deserialized and constraints get new ids */
+    remapConstraintIds?: RemapConstraintIdsFn<C>;
 };
 
 /** options for defining a user constraint */
@@ -133,6 +199,13 @@ export function defineConstraint<C extends ConstraintBase>(options: ConstraintDe
         resetWarmStart: options.resetWarmStart,
         getIterationOverrides: options.getIterationOverrides,
         getSortFields: options.getSortFields,
+        saveState: options.saveState,
+        restoreState: options.restoreState,
+        preStep: options.preStep,
+        linkIslands: options.linkIslands,
+        getTotalLambda: options.getTotalLambda,
+        getTotalImpulses: options.getTotalImpulses,
+        remapConstraintIds: options.remapConstraintIds,
     };
 }
 
@@ -159,6 +232,24 @@ export function createConstraintIterationOverrides(): ConstraintIterationOverrid
     return { velocity: 0, position: 0 };
 }
 
+/** create a constraint total lambda result object */
+export function createConstraintTotalLambda(): ConstraintTotalLambda {
+    return { position: 0, rotation: 0 };
+}
+
+/** create a constraint impulses result object */
+export function createConstraintImpulses(): ConstraintImpulses {
+    return { linearA: vec3.create(), angularA: vec3.create(), linearB: vec3.create(), angularB: vec3.create() };
+}
+
+/** reset a constraint impulses result object to zero */
+export function zeroConstraintImpulses(out: ConstraintImpulses): void {
+    vec3.zero(out.linearA);
+    vec3.zero(out.angularA);
+    vec3.zero(out.linearB);
+    vec3.zero(out.angularB);
+}
+
 /** create a constraint sort fields result object */
 export function createConstraintSortFields(): ConstraintSortFields {
     return { priority: 0, index: 0 };
@@ -273,6 +364,21 @@ export function updateSleeping(constraintsState: Constraints, bodies: Bodies): v
     }
 }
 
+/** run the pre step of all enabled constraints that define one, called at the start of a world update */
+export function preStepConstraints(world: World, deltaTime: number): void {
+    const constraintsState = world.constraints;
+    for (const type in constraintsState.pools) {
+        const pool = constraintsState.pools[type as unknown as ConstraintType]!;
+        const def = constraintDefs[pool.type]!;
+        if (!def.preStep) continue;
+        for (const constraint of pool.constraints) {
+            if (!constraint._pooled && constraint.enabled) {
+                def.preStep(world, constraint, deltaTime);
+            }
+        }
+    }
+}
+
 /** setup velocity constraints for all active user constraints, called before warm starting and solving */
 export function setupVelocityConstraints(constraintsState: Constraints, bodies: Bodies, deltaTime: number): void {
     for (const type in constraintsState.pools) {
@@ -339,7 +445,142 @@ export function solvePositionConstraintsForIsland(
     }
 
     return appliedImpulse;
-} /** constraint space enum - where are constraint points specified */
+}
+
+const _breakConstraints_totalLambda = /* @__PURE__ */ createConstraintTotalLambda();
+
+/**
+ * Disable constraints whose impulse in the last step exceeded their break force or break torque, called after solving.
+ * The impulses are converted to a force and torque by dividing by the time step.
+ * Broken constraints stay in the world, the listener can remove them or enable them again.
+ */
+export function breakConstraints(world: World, deltaTime: number, listener: Listener | undefined): void {
+    const constraintsState = world.constraints;
+    const totalLambda = _breakConstraints_totalLambda;
+
+    for (const type in constraintsState.pools) {
+        const pool = constraintsState.pools[type as unknown as ConstraintType]!;
+        const def = constraintDefs[pool.type]!;
+        if (!def.getTotalLambda) continue;
+
+        for (const constraint of pool.constraints) {
+            if (constraint._pooled || !constraint.enabled || constraint._sleeping) continue;
+            if (constraint.breakForce === Infinity && constraint.breakTorque === Infinity) continue;
+
+            def.getTotalLambda(totalLambda, constraint);
+            if (totalLambda.position > constraint.breakForce * deltaTime || totalLambda.rotation > constraint.breakTorque * deltaTime) {
+                constraint.enabled = false;
+                listener?.onConstraintBroken?.(constraint as Constraint);
+            }
+        }
+    }
+}
+
+/**
+ * Gets the world space impulses a constraint applied to its bodies in the last collision step.
+ * Body a receives the reaction of body b, so for a constraint with a static body a, linearB and angularB are the
+ * impulses holding body b in place. Disabled constraints report zero impulses.
+ * @param out receives the impulses
+ * @param world the physics world
+ * @param constraintId the constraint id
+ * @returns false if the constraint doesn't exist or its type can't report impulses, out is zeroed in that case
+ */
+export function getTotalImpulses(out: ConstraintImpulses, world: World, constraintId: ConstraintId): boolean {
+    zeroConstraintImpulses(out);
+
+    const type = getConstraintIdType(constraintId);
+    const pool = world.constraints.pools[type] as ConstraintPool | undefined;
+    const def = constraintDefs[type];
+    if (!pool || !def?.getTotalImpulses) return false;
+
+    const constraint = pool.constraints[getConstraintIdIndex(constraintId)];
+    if (!constraint || constraint._pooled || constraint.id !== constraintId) return false;
+
+    if (constraint.enabled) {
+        def.getTotalImpulses(out, constraint, world.bodies);
+    }
+    return true;
+}
+
+/**
+ * Gets the world space forces and torques a constraint applied to its bodies in the last collision step.
+ * The impulses of getTotalImpulses divided by the collision step time step, linear impulses become forces in newtons
+ * and angular impulses become torques in newton meters.
+ * @param out receives the forces (in the linear fields) and torques (in the angular fields)
+ * @param world the physics world
+ * @param constraintId the constraint id
+ * @returns false if the constraint doesn't exist or its type can't report impulses, out is zeroed in that case
+ */
+export function getTotalForces(out: ConstraintImpulses, world: World, constraintId: ConstraintId): boolean {
+    if (!getTotalImpulses(out, world, constraintId)) return false;
+
+    const timeStep = world.previousTimeStep;
+    const invTimeStep = timeStep > 0 ? 1 / timeStep : 0;
+    vec3.scale(out.linearA, out.linearA, invTimeStep);
+    vec3.scale(out.angularA, out.angularA, invTimeStep);
+    vec3.scale(out.linearB, out.linearB, invTimeStep);
+    vec3.scale(out.angularB, out.angularB, invTimeStep);
+    return true;
+}
+
+/** save simulation state for all constraints, used by world state snapshots */
+export function saveState(constraintsState: Constraints, recorder: StateRecorder): void {
+    const types = Object.keys(constraintsState.pools);
+    stateRecorder.writeInt32(recorder, types.length);
+
+    for (const type of types) {
+        const pool = constraintsState.pools[type as unknown as ConstraintType]!;
+        const def = constraintDefs[pool.type]!;
+
+        stateRecorder.writeInt32(recorder, pool.type);
+        stateRecorder.writeInt32(recorder, pool.constraints.length);
+
+        for (const constraint of pool.constraints) {
+            stateRecorder.writeBool(recorder, constraint._pooled);
+            if (constraint._pooled) continue;
+
+            stateRecorder.writeFloat64(recorder, constraint.id);
+            stateRecorder.writeBool(recorder, constraint.enabled);
+            def.saveState(constraint, recorder);
+        }
+    }
+}
+
+/** restore simulation state written by saveState, the world must contain the same constraints as when the state was saved */
+export function restoreState(constraintsState: Constraints, recorder: StateRecorder): void {
+    const numTypes = stateRecorder.readInt32(recorder);
+
+    if (numTypes !== Object.keys(constraintsState.pools).length) {
+        throw new Error('Constraint state does not match the world constraints');
+    }
+
+    for (let i = 0; i < numTypes; i++) {
+        const type = stateRecorder.readInt32(recorder) as ConstraintType;
+        const numConstraints = stateRecorder.readInt32(recorder);
+        const pool = constraintsState.pools[type];
+        const def = constraintDefs[type];
+
+        if (!pool || !def || pool.constraints.length !== numConstraints) {
+            throw new Error('Constraint state does not match the world constraints');
+        }
+
+        for (const constraint of pool.constraints) {
+            const pooled = stateRecorder.readBool(recorder);
+            if (pooled !== constraint._pooled) {
+                throw new Error('Constraint state does not match the world constraints');
+            }
+            if (pooled) continue;
+
+            if (stateRecorder.readFloat64(recorder) !== constraint.id) {
+                throw new Error('Constraint state does not match the world constraints');
+            }
+            constraint.enabled = stateRecorder.readBool(recorder);
+            def.restoreState(constraint, recorder);
+        }
+    }
+}
+
+/** constraint space enum - where are constraint points specified */
 
 export enum ConstraintSpace {
     /** points specified in world space */
@@ -368,6 +609,16 @@ export type ConstraintBase = {
     /** whether constraint is enabled */
     enabled: boolean;
 
+    /**
+     * force at which the constraint breaks (Infinity = unbreakable).
+     * compared against the combined impulse of the translational constraint parts divided by the time step,
+     * a broken constraint is disabled and reported to Listener.onConstraintBroken
+     */
+    breakForce: number;
+
+    /** torque at which the constraint breaks (Infinity = unbreakable), as breakForce for the rotational constraint parts */
+    breakTorque: number;
+
     /** constraint priority (higher = solved first) */
     constraintPriority: number;
 
@@ -408,6 +659,8 @@ export function makeConstraintBase(): ConstraintBase {
         index: -1,
         sequence: -1,
         enabled: true,
+        breakForce: Infinity,
+        breakTorque: Infinity,
         constraintPriority: 0,
         numVelocityStepsOverride: 0,
         _sleeping: false,
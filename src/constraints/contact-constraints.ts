@@ -143,6 +143,12 @@ export type WorldContactPoint = {
      * Lambda clamping: |tangentLambda2| <= friction * normalLambda.
      */
     tangentConstraint2: axisConstraintPart.AxisConstraintPart;
+
+    /**
+     * Sum of the position solver's lambdas for the normal constraint this update.
+     * The position solver doesn't change velocities, so this is tracked separately from normalConstraint.totalLambda.
+     */
+    positionLambda: number;
 };
 
 /**
@@ -178,6 +184,57 @@ export type ContactSettings = {
     relativeAngularSurfaceVelocity: Vec3;
 };
 
+/** a contact point of a solved contact manifold */
+export type SolvedContactPoint = {
+    /** contact point on body A in world space, after solving */
+    positionOnA: Vec3;
+
+    /** contact point on body B in world space, after solving */
+    positionOnB: Vec3;
+
+    /** impulse along the contact normal applied by the velocity solver (N·s), including the warm start impulse */
+    normalImpulse: number;
+
+    /** friction impulse applied to body B by the velocity solver in world space (N·s), body A receives the opposite impulse */
+    frictionImpulse: Vec3;
+
+    /**
+     * impulse along the contact normal that is equivalent to the position solver's penetration correction (N·s).
+     * The position solver moves the bodies apart without changing their velocities, so this impulse is not part of the momentum change.
+     */
+    positionImpulse: number;
+};
+
+/**
+ * Impulses the solver applied to a contact manifold during a collision step, passed to Listener.onContactSolved.
+ * Impulses act on body B along the contact normal and on body A in the opposite direction.
+ */
+export type SolvedContact = {
+    /** sub-shape ID of shape A */
+    subShapeIdA: number;
+
+    /** sub-shape ID of shape B */
+    subShapeIdB: number;
+
+    /** contact normal in world space, pointing from body A towards body B */
+    normal: Vec3;
+
+    /** number of valid contact points */
+    numContactPoints: number;
+
+    /** contact points, only the first numContactPoints entries are valid */
+    contactPoints: [SolvedContactPoint, SolvedContactPoint, SolvedContactPoint, SolvedContactPoint];
+
+    /** sum of the normal impulses of all contact points (N·s) */
+    totalNormalImpulse: number;
+
+    /** sum of the friction impulses of all contact points in world space (N·s) */
+    totalFrictionImpulse: Vec3;
+
+    /** sum of the position impulses of all contact points (N·s) */
+    totalPositionImpulse: number;
+};
+
 /** creates emopty contact constraints state */
 export function init(): ContactConstraints {
     return {
@@ -684,6 +741,7 @@ export function addContactConstraint(
                 cp.tangentConstraint1.totalLambda = 0;
                 cp.tangentConstraint2.totalLambda = 0;
             }
+            cp.positionLambda = 0;
 
             // use normal from constraint
             const smoothedNormal = constraint.normal;
@@ -865,6 +923,7 @@ function createWorldContactPoint(): WorldContactPoint {
         normalConstraint: axisConstraintPart.create(),
         tangentConstraint1: axisConstraintPart.create(),
         tangentConstraint2: axisConstraintPart.create(),
+        positionLambda: 0,
     };
 }
 
@@ -1075,6 +1134,97 @@ export function storeAppliedImpulses(contactConstraints: ContactConstraints, con
     }
 }
 
+function createSolvedContactPoint(): SolvedContactPoint {
+    return {
+        positionOnA: vec3.create(),
+        positionOnB: vec3.create(),
+        normalImpulse: 0,
+        frictionImpulse: vec3.create(),
+        positionImpulse: 0,
+    };
+}
+
+const _reportSolvedContacts_solvedContact: SolvedContact = {
+    subShapeIdA: EMPTY_SUB_SHAPE_ID,
+    subShapeIdB: EMPTY_SUB_SHAPE_ID,
+    normal: /* @__PURE__ */ vec3.create(),
+    numContactPoints: 0,
+    contactPoints: [
+        /* @__PURE__ */ createSolvedContactPoint(),
+        /* @__PURE__ */ createSolvedContactPoint(),
+        /* @__PURE__ */ createSolvedContactPoint(),
+        /* @__PURE__ */ createSolvedContactPoint(),
+    ],
+    totalNormalImpulse: 0,
+    totalFrictionImpulse: /* @__PURE__ */ vec3.create(),
+    totalPositionImpulse: 0,
+};
+const _reportSolvedContacts_rotA = /* @__PURE__ */ mat4.create();
+const _reportSolvedContacts_rotB = /* @__PURE__ */ mat4.create();
+const _reportSolvedContacts_offset = /* @__PURE__ */ vec3.create();
+
+/**
+ * Report the impulses applied to each contact constraint to Listener.onContactSolved.
+ * Must be called after solvePositionConstraintsForIsland and after the body positions were updated.
+ * @param contactConstraints contact constraint state
+ * @param bodies body array
+ * @param deltaTime time step of the solve, used to convert position solver lambdas to impulses
+ * @param contactListener listener to report to
+ */
+export function reportSolvedContacts(
+    contactConstraints: ContactConstraints,
+    bodies: Bodies,
+    deltaTime: number,
+    contactListener: Listener,
+): void {
+    const solvedContact = _reportSolvedContacts_solvedContact;
+
+    for (let i = 0; i < contactConstraints.count; i++) {
+        const constraint = contactConstraints.pool[i];
+        const bodyA = bodies.pool[constraint.bodyIndexA];
+        const bodyB = bodies.pool[constraint.bodyIndexB];
+
+        solvedContact.subShapeIdA = constraint.subShapeIdA;
+        solvedContact.subShapeIdB = constraint.subShapeIdB;
+        vec3.copy(solvedContact.normal, constraint.normal);
+        solvedContact.numContactPoints = constraint.numContactPoints;
+        solvedContact.totalNormalImpulse = 0;
+        vec3.zero(solvedContact.totalFrictionImpulse);
+        solvedContact.totalPositionImpulse = 0;
+
+        mat4.fromQuat(_reportSolvedContacts_rotA, bodyA.quaternion);
+        mat4.fromQuat(_reportSolvedContacts_rotB, bodyB.quaternion);
+
+        for (let j = 0; j < constraint.numContactPoints; j++) {
+            const cp = constraint.contactPoints[j];
+            const solvedPoint = solvedContact.contactPoints[j];
+
+            // contact points in world space at the solved body transforms
+            mat4.multiply3x3Vec(_reportSolvedContacts_offset, _reportSolvedContacts_rotA, cp.localPositionA);
+            vec3.add(solvedPoint.positionOnA, bodyA.centerOfMassPosition, _reportSolvedContacts_offset);
+            mat4.multiply3x3Vec(_reportSolvedContacts_offset, _reportSolvedContacts_rotB, cp.localPositionB);
+            vec3.add(solvedPoint.positionOnB, bodyB.centerOfMassPosition, _reportSolvedContacts_offset);
+
+            // the total lambdas are the impulses applied this step, warm starting applies them up front
+            solvedPoint.normalImpulse = cp.normalConstraint.totalLambda;
+            vec3.scale(solvedPoint.frictionImpulse, constraint.tangent1, cp.tangentConstraint1.totalLambda);
+            vec3.scaleAndAdd(
+                solvedPoint.frictionImpulse,
+                solvedPoint.frictionImpulse,
+                constraint.tangent2,
+                cp.tangentConstraint2.totalLambda,
+            );
+            solvedPoint.positionImpulse = deltaTime > 0 ? cp.positionLambda / deltaTime : 0;
+
+            solvedContact.totalNormalImpulse += solvedPoint.normalImpulse;
+            vec3.add(solvedContact.totalFrictionImpulse, solvedContact.totalFrictionImpulse, solvedPoint.frictionImpulse);
+            solvedContact.totalPositionImpulse += solvedPoint.positionImpulse;
+        }
+
+        contactListener.onContactSolved?.(bodyA, bodyB, solvedContact);
+    }
+}
+
 const _solvePos_worldRa = /* @__PURE__ */ vec3.create();
 const _solvePos_worldRb = /* @__PURE__ */ vec3.create();
 const _solvePos_rA = /* @__PURE__ */ vec3.create();
@@ -1207,6 +1357,8 @@ export function solvePositionConstraintsForIsland(
                     baumgarteFactor,
                 )
             ) {
+                // same lambda as solvePositionConstraintWithMassOverride, accumulated for Listener.onContactSolved
+                cp.positionLambda -= cp.normalConstraint.effectiveMass * baumgarteFactor * separation;
                 anyImpulseApplied = true;
             }
         }
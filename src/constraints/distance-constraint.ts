@@ -5,6 +5,8 @@ import { type BodyId, getBodyIdIndex } from '../body/body-id';
 import { getInverseInertiaForRotation } from '../body/motion-properties';
 import { MotionType } from '../body/motion-type';
 import type { RigidBody } from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import {
@@ -20,7 +22,14 @@ import type { AxisConstraintPart } from './constraint-part/axis-constraint-part'
 import * as axisConstraintPart from './constraint-part/axis-constraint-part';
 import type { SpringSettings } from './constraint-part/spring-settings';
 import * as springSettings from './constraint-part/spring-settings';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 
 /** distance constraint removes 1 translational DOF (distance between two points) */
 export type DistanceConstraint = ConstraintBase & {
@@ -33,6 +42,10 @@ export type DistanceConstraint = ConstraintBase & {
     worldSpacePosition1: Vec3;
     worldSpacePosition2: Vec3;
     worldSpaceNormal: Vec3;
+    /** moment arm from body a's center of mass to worldSpacePosition2 */
+    r1PlusU: Vec3;
+    /** moment arm from body b's center of mass to worldSpacePosition2 */
+    r2: Vec3;
     minLambda: number;
     maxLambda: number;
     axisConstraint: AxisConstraintPart;
@@ -50,6 +63,8 @@ function makeDistanceConstraint(): DistanceConstraint {
         worldSpacePosition1: vec3.create(),
         worldSpacePosition2: vec3.create(),
         worldSpaceNormal: vec3.fromValues(0, 1, 0), // fallback normal
+        r1PlusU: vec3.create(),
+        r2: vec3.create(),
         minLambda: 0,
         maxLambda: 0,
         axisConstraint: axisConstraintPart.create(),
@@ -82,6 +97,10 @@ export type DistanceConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 /** reset constraint state for pooling reuse */
@@ -127,6 +146,8 @@ export function create(world: World, settings: DistanceConstraintSettings): Dist
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     // extract body indices from IDs
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
@@ -241,8 +262,6 @@ const _distanceConstraint_rotA = /* @__PURE__ */ mat4.create();
 const _distanceConstraint_rotB = /* @__PURE__ */ mat4.create();
 const _distanceConstraint_invInertiaA = /* @__PURE__ */ mat4.create();
 const _distanceConstraint_invInertiaB = /* @__PURE__ */ mat4.create();
-const _distanceConstraint_r1PlusU = /* @__PURE__ */ vec3.create();
-const _distanceConstraint_r2 = /* @__PURE__ */ vec3.create();
 const _distanceConstraint_delta = /* @__PURE__ */ vec3.create();
 
 /** calculate distance constraint properties. Updates world positions, normal, and sets up axis constraint part */
@@ -273,10 +292,10 @@ function calculateDistanceConstraintProperties(
     // calculate points relative to body COM
     // r1 + u = (p1 - x1) + (p2 - p1) = p2 - x1
     // where p1, p2 are constraint points and x1, x2 are body COMs
-    const r1PlusU = _distanceConstraint_r1PlusU;
+    const r1PlusU = constraint.r1PlusU;
     vec3.subtract(r1PlusU, constraint.worldSpacePosition2, bodyA.centerOfMassPosition);
 
-    const r2 = _distanceConstraint_r2;
+    const r2 = constraint.r2;
     vec3.subtract(r2, constraint.worldSpacePosition2, bodyB.centerOfMassPosition);
 
     // get inverse masses and inertias
@@ -467,6 +486,16 @@ function resetWarmStart(constraint: DistanceConstraint): void {
     axisConstraintPart.deactivate(constraint.axisConstraint);
 }
 
+function saveState(constraint: DistanceConstraint, recorder: StateRecorder): void {
+    stateRecorder.writeVec3(recorder, constraint.worldSpaceNormal);
+    axisConstraintPart.saveState(constraint.axisConstraint, recorder);
+}
+
+function restoreState(constraint: DistanceConstraint, recorder: StateRecorder): void {
+    stateRecorder.readVec3(constraint.worldSpaceNormal, recorder);
+    axisConstraintPart.restoreState(constraint.axisConstraint, recorder);
+}
+
 /**
  * Get total accumulated impulse (lambda) from distance constraint.
  * Used for debugging, telemetry, or breaking constraints based on force.
@@ -492,6 +521,18 @@ export function setDistance(constraint: DistanceConstraint, minDistance: number,
     }
 }
 
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: DistanceConstraint): void {
+    out.position = Math.abs(constraint.axisConstraint.totalLambda);
+    out.rotation = 0;
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: DistanceConstraint): void {
+    zeroConstraintImpulses(out);
+    const normal = constraint.worldSpaceNormal;
+    axisConstraintPart.addTotalImpulses(out, constraint.axisConstraint, constraint.r1PlusU, constraint.r2, normal, normal);
+}
+
 /** the constraint definition for distance constraint */
 export const def = /* @__PURE__ */ (() => defineConstraint<DistanceConstraint>({
     type: ConstraintType.DISTANCE,
@@ -500,6 +541,10 @@ export const def = /* @__PURE__ */ (() => defineConstraint<DistanceConstraint>({
     solveVelocity,
     solvePosition,
     resetWarmStart,
+    saveState,
+    restoreState,
+    getTotalLambda: getCombinedTotalLambda,
+    getTotalImpulses,
     getIterationOverrides: (out, constraint) => {
         out.velocity = constraint.numVelocityStepsOverride;
         out.position = constraint.numPositionStepsOverride;
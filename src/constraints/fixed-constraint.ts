@@ -2,6 +2,7 @@ import type { Quat, Vec3 } from 'mathcat';
 import { mat4, quat, vec3 } from 'mathcat';
 import type { Bodies } from '../body/bodies';
 import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import type { StateRecorder } from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import {
@@ -17,7 +18,14 @@ import type { PointConstraintPart } from './constraint-part/point-constraint-par
 import * as pointConstraintPart from './constraint-part/point-constraint-part';
 import type { RotationEulerConstraintPart } from './constraint-part/rotation-euler-constraint-part';
 import * as rotationEulerConstraintPart from './constraint-part/rotation-euler-constraint-part';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 
 /**
  * Fixed constraint removes 6 DOF (3 translation + 3 rotation).
@@ -97,6 +105,10 @@ export type FixedConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 /** create a fixed constraint */
@@ -132,6 +144,8 @@ export function create(world: World, settings: FixedConstraintSettings): FixedCo
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     // set body indices
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
@@ -392,6 +406,16 @@ function resetWarmStart(constraint: FixedConstraint): void {
     pointConstraintPart.deactivate(constraint.pointConstraintPart);
 }
 
+function saveState(constraint: FixedConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.saveState(constraint.pointConstraintPart, recorder);
+    rotationEulerConstraintPart.saveState(constraint.rotationConstraintPart, recorder);
+}
+
+function restoreState(constraint: FixedConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.restoreState(constraint.pointConstraintPart, recorder);
+    rotationEulerConstraintPart.restoreState(constraint.rotationConstraintPart, recorder);
+}
+
 /** Get total lambda for position constraint (for debugging/inspection) */
 export function getTotalLambdaPosition(out: Vec3, constraint: FixedConstraint): Vec3 {
     out[0] = constraint.pointConstraintPart.totalLambda[0];
@@ -408,6 +432,18 @@ export function getTotalLambdaRotation(out: Vec3, constraint: FixedConstraint):
     return out;
 }
 
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: FixedConstraint): void {
+    out.position = vec3.length(constraint.pointConstraintPart.totalLambda);
+    out.rotation = vec3.length(constraint.rotationConstraintPart.totalLambda);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: FixedConstraint): void {
+    zeroConstraintImpulses(out);
+    pointConstraintPart.addTotalImpulses(out, constraint.pointConstraintPart);
+    rotationEulerConstraintPart.addTotalImpulses(out, constraint.rotationConstraintPart);
+}
+
 /** the constraint definition for fixed constraint */
 export const def = /* @__PURE__ */ (() =>
     defineConstraint<FixedConstraint>({
@@ -417,6 +453,10 @@ export const def = /* @__PURE__ */ (() =>
         solveVelocity,
         solvePosition,
         resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
         getIterationOverrides: (out, constraint) => {
             out.velocity = constraint.numVelocityStepsOverride;
             out.position = constraint.numPositionStepsOverride;
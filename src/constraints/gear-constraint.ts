@@ -0,0 +1,474 @@
+import type { Quat, Vec3 } from 'mathcat';
+import { quat, vec3 } from 'mathcat';
+import type { Bodies } from '../body/bodies';
+import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import type { StateRecorder } from '../utils/state-recorder';
+import type { World } from '../world';
+import {
+    type ConstraintId,
+    ConstraintType,
+    getConstraintIdIndex,
+    getConstraintIdSequence,
+    getConstraintIdType,
+    INVALID_CONSTRAINT_ID,
+    SEQUENCE_MASK,
+    serConstraintId,
+} from './constraint-id';
+import type { AngleConstraintPart } from './constraint-part/angle-constraint-part';
+import * as angleConstraintPart from './constraint-part/angle-constraint-part';
+import {
+    type ConstraintBase,
+    type ConstraintImpulses,
+    type ConstraintPool,
+    ConstraintSpace,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    makeConstraintBase,
+    removeConstraintIdFromBody,
+    zeroConstraintImpulses,
+} from './constraints';
+import * as hingeConstraint from './hinge-constraint';
+
+/** the parts of a hinge constraint needed to measure the rotation of a gear, refreshed every step */
+export type GearHinge = {
+    /** id of the hinge constraint, INVALID_CONSTRAINT_ID if the gear has no hinge */
+    hingeConstraintId: ConstraintId;
+    /** index of body a of the hinge, -1 if the hinge could not be found */
+    bodyIndexA: number;
+    /** index of body b of the hinge */
+    bodyIndexB: number;
+    /** hinge axis on body a of the hinge in local space */
+    localSpaceHingeAxis1: Vec3;
+    /** inverse of initial relative orientation of the hinge */
+    invInitialOrientation: Quat;
+    /** 1 if the hinge angle is the rotation of the gear around the gear axis, -1 if it is the opposite rotation */
+    sign: number;
+};
+
+/**
+ * Gear constraint removes 1 rotational DOF.
+ * Couples the rotation of two bodies around their hinge axes: rotation A + ratio * rotation B = 0.
+ * The gear constraint does not keep the bodies on their axes, combine it with hinge constraints for that.
+ */
+export type GearConstraint = ConstraintBase & {
+    /** hinge axis of gear A in local space of body A */
+    localSpaceHingeAxisA: Vec3;
+    /** hinge axis of gear B in local space of body B */
+    localSpaceHingeAxisB: Vec3;
+    /** gear ratio, number of teeth of gear B / number of teeth of gear A */
+    ratio: number;
+    /** world space hinge axis of gear A (cached during setup) */
+    worldSpaceHingeAxisA: Vec3;
+    /** world space hinge axis of gear B multiplied by -ratio (cached during setup) */
+    worldSpaceScaledHingeAxisB: Vec3;
+    /** optional hinge constraint of gear A, used to correct drift in the rotation of the gears */
+    hingeA: GearHinge;
+    /** optional hinge constraint of gear B, used to correct drift in the rotation of the gears */
+    hingeB: GearHinge;
+    /** angle constraint coupling the rotation of the gears */
+    gearConstraintPart: AngleConstraintPart;
+};
+
+/** creates a gear hinge that is not attached to a hinge constraint */
+export function makeGearHinge(): GearHinge {
+    return {
+        hingeConstraintId: INVALID_CONSTRAINT_ID,
+        bodyIndexA: -1,
+        bodyIndexB: -1,
+        localSpaceHingeAxis1: vec3.create(),
+        invInitialOrientation: quat.create(),
+        sign: 1,
+    };
+}
+
+/** creates default gear constraint */
+function makeGearConstraint(): GearConstraint {
+    return {
+        ...makeConstraintBase(),
+        localSpaceHingeAxisA: vec3.fromValues(0, 1, 0),
+        localSpaceHingeAxisB: vec3.fromValues(0, 1, 0),
+        ratio: 1,
+        worldSpaceHingeAxisA: vec3.create(),
+        worldSpaceScaledHingeAxisB: vec3.create(),
+        hingeA: makeGearHinge(),
+        hingeB: makeGearHinge(),
+        gearConstraintPart: angleConstraintPart.create(),
+    };
+}
+
+/** reset constraint state for pooling reuse */
+function resetConstraint(constraint: GearConstraint): void {
+    constraint.enabled = true;
+    constraint._sleeping = false;
+    constraint._pooled = false;
+    constraint.hingeA.hingeConstraintId = INVALID_CONSTRAINT_ID;
+    constraint.hingeA.bodyIndexA = -1;
+    constraint.hingeB.hingeConstraintId = INVALID_CONSTRAINT_ID;
+    constraint.hingeB.bodyIndexA = -1;
+    angleConstraintPart.deactivate(constraint.gearConstraintPart);
+}
+
+/** settings for creating a gear constraint */
+export type GearConstraintSettings = {
+    /** body id of gear A */
+    bodyIdA: BodyId;
+    /** body id of gear B */
+    bodyIdB: BodyId;
+    /** hinge axis of gear A (will be normalized) */
+    hingeAxisA: Vec3;
+    /** hinge axis of gear B (will be normalized) */
+    hingeAxisB: Vec3;
+    /** gear ratio, number of teeth of gear B / number of teeth of gear A @default 1 */
+    ratio?: number;
+    /** constraint space @default ConstraintSpace.WORLD */
+    space?: ConstraintSpace;
+    /**
+     * hinge constraint that attaches gear A, used to correct drift in the rotation of the gears.
+     * drift is only corrected when both hinges are provided, the gears are assumed to mesh when both hinge angles are 0.
+     * the hinges must not be removed before the gear constraint
+     */
+    hingeConstraintIdA?: ConstraintId;
+    /** hinge constraint that attaches gear B, used to correct drift in the rotation of the gears */
+    hingeConstraintIdB?: ConstraintId;
+    /** constraint priority (higher = solved first) @default 0 */
+    constraintPriority?: number;
+    /** override number of velocity solver iterations (0 = use default) @default 0 */
+    numVelocityStepsOverride?: number;
+    /** override number of position solver iterations (0 = use default) @default 0 */
+    numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
+};
+
+/**
+ * Set the gear ratio from the number of teeth of both gears
+ * @param numTeethA number of teeth of gear A
+ * @param numTeethB number of teeth of gear B
+ */
+export function setRatio(constraint: GearConstraint, numTeethA: number, numTeethB: number): void {
+    constraint.ratio = numTeethB / numTeethA;
+}
+
+/** create a gear constraint */
+export function create(world: World, settings: GearConstraintSettings): GearConstraint {
+    const bodies = world.bodies;
+    const bodyIndexA = getBodyIdIndex(settings.bodyIdA);
+    const bodyIndexB = getBodyIdIndex(settings.bodyIdB);
+
+    // validate the hinges before taking a constraint from the pool
+    for (const [hingeConstraintId, gearBodyIndex] of [
+        [settings.hingeConstraintIdA, bodyIndexA],
+        [settings.hingeConstraintIdB, bodyIndexB],
+    ] as const) {
+        if (hingeConstraintId === undefined || hingeConstraintId === INVALID_CONSTRAINT_ID) continue;
+        const hinge = getHinge(world, hingeConstraintId);
+        if (!hinge) {
+            throw new Error('Gear hinge constraint not found');
+        }
+        if (hinge.bodyIndexA !== gearBodyIndex && hinge.bodyIndexB !== gearBodyIndex) {
+            throw new Error('Gear hinge constraint is not attached to the gear body');
+        }
+    }
+
+    const pool = ensurePool<GearConstraint>(world.constraints, ConstraintType.GEAR);
+
+    // get next sequence
+    const sequence = pool.nextSequence;
+    pool.nextSequence = (pool.nextSequence + 1) & SEQUENCE_MASK;
+
+    // get constraint from pool
+    let index: number;
+    let constraint: GearConstraint;
+    if (pool.freeIndices.length > 0) {
+        // reuse existing pooled constraint
+        index = pool.freeIndices.pop()!;
+        constraint = pool.constraints[index];
+    } else {
+        // expand array
+        index = pool.constraints.length;
+        constraint = makeGearConstraint();
+        pool.constraints.push(constraint);
+    }
+
+    // reset pooled state
+    resetConstraint(constraint);
+
+    // set constraint id, index, sequence
+    constraint.id = serConstraintId(index, ConstraintType.GEAR, sequence);
+    constraint.index = index;
+    constraint.sequence = sequence;
+
+    // set base constraint properties
+    constraint.constraintPriority = settings.constraintPriority ?? 0;
+    constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
+    constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
+
+    constraint.bodyIndexA = bodyIndexA;
+    constraint.bodyIndexB = bodyIndexB;
+
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    // normalize axes and convert to local space if needed
+    vec3.normalize(constraint.localSpaceHingeAxisA, settings.hingeAxisA);
+    vec3.normalize(constraint.localSpaceHingeAxisB, settings.hingeAxisB);
+
+    const space = settings.space ?? ConstraintSpace.WORLD;
+    if (space === ConstraintSpace.WORLD) {
+        const invQuat = quat.create();
+        vec3.transformQuat(
+            constraint.localSpaceHingeAxisA,
+            constraint.localSpaceHingeAxisA,
+            quat.conjugate(invQuat, bodyA.quaternion),
+        );
+        vec3.transformQuat(
+            constraint.localSpaceHingeAxisB,
+            constraint.localSpaceHingeAxisB,
+            quat.conjugate(invQuat, bodyB.quaternion),
+        );
+    }
+
+    constraint.ratio = settings.ratio ?? 1;
+
+    constraint.hingeA.hingeConstraintId = settings.hingeConstraintIdA ?? INVALID_CONSTRAINT_ID;
+    constraint.hingeB.hingeConstraintId = settings.hingeConstraintIdB ?? INVALID_CONSTRAINT_ID;
+    updateGearHinge(world, constraint.hingeA, constraint.bodyIndexA, constraint.localSpaceHingeAxisA);
+    updateGearHinge(world, constraint.hingeB, constraint.bodyIndexB, constraint.localSpaceHingeAxisB);
+
+    // track constraint on both bodies
+    bodyA.constraintIds.push(constraint.id);
+    if (constraint.bodyIndexA !== constraint.bodyIndexB) {
+        bodyB.constraintIds.push(constraint.id);
+    }
+
+    return constraint;
+}
+
+/** remove a gear constraint */
+export function remove(world: World, constraint: GearConstraint): void {
+    const pool = ensurePool<GearConstraint>(world.constraints, ConstraintType.GEAR);
+    const bodies = world.bodies;
+
+    // remove from bodies constraintIds arrays
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    if (bodyA && !bodyA._pooled) {
+        removeConstraintIdFromBody(bodyA, constraint.id);
+    }
+    if (constraint.bodyIndexA !== constraint.bodyIndexB && bodyB && !bodyB._pooled) {
+        removeConstraintIdFromBody(bodyB, constraint.id);
+    }
+
+    // reset constraint state for pooling reuse
+    resetConstraint(constraint);
+
+    constraint._pooled = true;
+    constraint.id = INVALID_CONSTRAINT_ID;
+    pool.freeIndices.push(constraint.index);
+}
+
+/** get gear constraint by id */
+export function get(world: World, id: ConstraintId): GearConstraint | undefined {
+    const pool = world.constraints.pools[ConstraintType.GEAR] as ConstraintPool<GearConstraint> | undefined;
+    if (!pool) return undefined;
+    const index = getConstraintIdIndex(id);
+    const constraint = pool.constraints[index];
+    if (!constraint || constraint._pooled || constraint.sequence !== getConstraintIdSequence(id)) {
+        return undefined;
+    }
+    return constraint;
+}
+
+/** get a hinge constraint by id, undefined if the id does not refer to a hinge constraint */
+function getHinge(world: World, id: ConstraintId): hingeConstraint.HingeConstraint | undefined {
+    if (getConstraintIdType(id) !== ConstraintType.HINGE) return undefined;
+    return hingeConstraint.get(world, id);
+}
+
+const _updateGearHinge_gearAxis = /* @__PURE__ */ vec3.create();
+const _updateGearHinge_hingeAxis = /* @__PURE__ */ vec3.create();
+
+/** look up the hinge of a gear and copy the parts needed to measure the rotation of the gear */
+export function updateGearHinge(world: World, gearHinge: GearHinge, gearBodyIndex: number, localSpaceGearAxis: Vec3): void {
+    gearHinge.bodyIndexA = -1;
+    if (gearHinge.hingeConstraintId === INVALID_CONSTRAINT_ID) return;
+
+    const hinge = getHinge(world, gearHinge.hingeConstraintId);
+    if (!hinge) {
+        throw new Error('Hinge constraint not found, it must not be removed before the constraints using it');
+    }
+
+    // the hinge angle is the rotation of body b relative to body a
+    let sign: number;
+    if (hinge.bodyIndexB === gearBodyIndex) {
+        sign = 1;
+    } else if (hinge.bodyIndexA === gearBodyIndex) {
+        sign = -1;
+    } else {
+        return;
+    }
+
+    // flip the sign if the hinge axis points the other way than the gear axis
+    const bodies = world.bodies;
+    const gearBody = bodies.pool[gearBodyIndex];
+    const hingeBodyA = bodies.pool[hinge.bodyIndexA];
+    vec3.transformQuat(_updateGearHinge_gearAxis, localSpaceGearAxis, gearBody.quaternion);
+    vec3.transformQuat(_updateGearHinge_hingeAxis, hinge.localSpaceHingeAxis1, hingeBodyA.quaternion);
+    if (vec3.dot(_updateGearHinge_gearAxis, _updateGearHinge_hingeAxis) < 0) {
+        sign = -sign;
+    }
+
+    gearHinge.bodyIndexA = hinge.bodyIndexA;
+    gearHinge.bodyIndexB = hinge.bodyIndexB;
+    vec3.copy(gearHinge.localSpaceHingeAxis1, hinge.localSpaceHingeAxis1);
+    quat.copy(gearHinge.invInitialOrientation, hinge.invInitialOrientation);
+    gearHinge.sign = sign;
+}
+
+const _getGearRotation_worldSpaceHingeAxis1 = /* @__PURE__ */ vec3.create();
+
+/** get the rotation of a gear around its axis as measured by its hinge */
+export function getGearRotation(gearHinge: GearHinge, bodies: Bodies): number {
+    const hingeBodyA = bodies.pool[gearHinge.bodyIndexA];
+    const hingeBodyB = bodies.pool[gearHinge.bodyIndexB];
+    vec3.transformQuat(_getGearRotation_worldSpaceHingeAxis1, gearHinge.localSpaceHingeAxis1, hingeBodyA.quaternion);
+    return (
+        gearHinge.sign *
+        hingeConstraint.calculateHingeAngle(
+            gearHinge.invInitialOrientation,
+            _getGearRotation_worldSpaceHingeAxis1,
+            hingeBodyA,
+            hingeBodyB,
+        )
+    );
+}
+
+/** refresh the hinges of the gears, they are looked up by id as the solver has no access to other constraints */
+function preStep(world: World, constraint: GearConstraint, _deltaTime: number): void {
+    updateGearHinge(world, constraint.hingeA, constraint.bodyIndexA, constraint.localSpaceHingeAxisA);
+    updateGearHinge(world, constraint.hingeB, constraint.bodyIndexB, constraint.localSpaceHingeAxisB);
+}
+
+/** replace the ids of the hinge constraints, e.g. after deserializing a world */
+function remapConstraintIds(constraint: GearConstraint, remap: (id: ConstraintId) => ConstraintId): void {
+    constraint.hingeA.hingeConstraintId = remap(constraint.hingeA.hingeConstraintId);
+    constraint.hingeB.hingeConstraintId = remap(constraint.hingeB.hingeConstraintId);
+}
+
+/** calculate the world space axes and constraint properties */
+function calculateConstraintProperties(constraint: GearConstraint, bodies: Bodies): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    // the constraint is: rotation A around axis A + ratio * rotation B around axis B = 0
+    vec3.transformQuat(constraint.worldSpaceHingeAxisA, constraint.localSpaceHingeAxisA, bodyA.quaternion);
+    vec3.transformQuat(constraint.worldSpaceScaledHingeAxisB, constraint.localSpaceHingeAxisB, bodyB.quaternion);
+    vec3.scale(constraint.worldSpaceScaledHingeAxisB, constraint.worldSpaceScaledHingeAxisB, -constraint.ratio);
+
+    angleConstraintPart.calculateConstraintPropertiesWithAxes(
+        constraint.gearConstraintPart,
+        bodyA,
+        bodyB,
+        constraint.worldSpaceHingeAxisA,
+        constraint.worldSpaceScaledHingeAxisB,
+    );
+}
+
+function setupVelocity(constraint: GearConstraint, bodies: Bodies, _deltaTime: number): void {
+    calculateConstraintProperties(constraint, bodies);
+}
+
+function warmStartVelocity(constraint: GearConstraint, bodies: Bodies, warmStartImpulseRatio: number): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    angleConstraintPart.warmStart(constraint.gearConstraintPart, bodyA, bodyB, warmStartImpulseRatio);
+}
+
+function solveVelocity(constraint: GearConstraint, bodies: Bodies, _deltaTime: number): boolean {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    return angleConstraintPart.solveVelocityConstraintWithAxes(
+        constraint.gearConstraintPart,
+        bodyA,
+        bodyB,
+        constraint.worldSpaceHingeAxisA,
+        constraint.worldSpaceScaledHingeAxisB,
+        Number.NEGATIVE_INFINITY,
+        Number.POSITIVE_INFINITY,
+    );
+}
+
+function solvePosition(constraint: GearConstraint, bodies: Bodies, _deltaTime: number, baumgarteFactor: number): boolean {
+    // drift can only be corrected when the rotation of both gears is known
+    if (constraint.hingeA.bodyIndexA === -1 || constraint.hingeB.bodyIndexA === -1) return false;
+
+    const rotationA = getGearRotation(constraint.hingeA, bodies);
+    const rotationB = getGearRotation(constraint.hingeB, bodies);
+    const error = hingeConstraint.centerAngleAroundZero((rotationA + constraint.ratio * rotationB) % (2 * Math.PI));
+    if (error === 0) return false;
+
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    calculateConstraintProperties(constraint, bodies);
+
+    // the angle constraint part measures the angle of body b relative to body a, which is the negative of the gear error
+    return angleConstraintPart.solvePositionConstraint(constraint.gearConstraintPart, bodyA, bodyB, -error, baumgarteFactor);
+}
+
+function resetWarmStart(constraint: GearConstraint): void {
+    angleConstraintPart.deactivate(constraint.gearConstraintPart);
+}
+
+function saveState(constraint: GearConstraint, recorder: StateRecorder): void {
+    angleConstraintPart.saveState(constraint.gearConstraintPart, recorder);
+}
+
+function restoreState(constraint: GearConstraint, recorder: StateRecorder): void {
+    angleConstraintPart.restoreState(constraint.gearConstraintPart, recorder);
+}
+
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: GearConstraint): void {
+    out.position = 0;
+    out.rotation = Math.abs(constraint.gearConstraintPart.totalLambda);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: GearConstraint): void {
+    zeroConstraintImpulses(out);
+    angleConstraintPart.addTotalImpulses(
+        out,
+        constraint.gearConstraintPart,
+        constraint.worldSpaceHingeAxisA,
+        constraint.worldSpaceScaledHingeAxisB,
+    );
+}
+
+/** the constraint definition for gear constraint */
+export const def = /* @__PURE__ */ (() =>
+    defineConstraint<GearConstraint>({
+        type: ConstraintType.GEAR,
+        setupVelocity,
+        warmStartVelocity,
+        solveVelocity,
+        solvePosition,
+        resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
+        preStep,
+        remapConstraintIds,
+        getIterationOverrides: (out, constraint) => {
+            out.velocity = constraint.numVelocityStepsOverride;
+            out.position = constraint.numPositionStepsOverride;
+        },
+        getSortFields: (out, constraint) => {
+            out.priority = constraint.constraintPriority;
+            out.index = constraint.index;
+        },
+    }))();
@@ -3,6 +3,8 @@ import { mat3, mat4, quat, vec3 } from 'mathcat';
 import type { Bodies } from '../body/bodies';
 import { type BodyId, getBodyIdIndex } from '../body/body-id';
 import type { RigidBody } from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import {
@@ -25,7 +27,14 @@ import type { PointConstraintPart } from './constraint-part/point-constraint-par
 import * as pointConstraintPart from './constraint-part/point-constraint-part';
 import type { SpringSettings } from './constraint-part/spring-settings';
 import * as springSettings from './constraint-part/spring-settings';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 
 /**
  * Hinge constraint removes 5 DOF (3 translation + 2 rotation).
@@ -161,6 +170,10 @@ export type HingeConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 /** Calculate the inverse initial orientation for angle tracking */
@@ -269,6 +282,8 @@ export function create(world: World, settings: HingeConstraintSettings): HingeCo
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     // extract body indices
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
@@ -476,23 +491,25 @@ const _hingeConstraint_q1 = /* @__PURE__ */ quat.create();
 const _hingeConstraint_q2 = /* @__PURE__ */ quat.create();
 const _hingeConstraint_qRel = /* @__PURE__ */ quat.create();
 
-/** calculate the current hinge angle theta */
-function calculateA1AndTheta(constraint: HingeConstraint, bodyA: RigidBody, bodyB: RigidBody): void {
-    if (!constraint.hasLimits && constraint.motorState === MotorState.OFF && constraint.maxFrictionTorque <= 0) {
-        return;
-    }
-
-    // calculate world space hinge axis
-    vec3.transformQuat(_hingeConstraint_worldHingeAxis1, constraint.localSpaceHingeAxis1, bodyA.quaternion);
-    vec3.copy(constraint.worldSpaceHingeAxis1, _hingeConstraint_worldHingeAxis1);
-
+/**
+ * Calculate the angle of body b relative to body a around the hinge axis.
+ * @param invInitialOrientation inverse of the initial relative orientation of the hinge
+ * @param worldSpaceHingeAxis1 hinge axis of body a in world space
+ * @returns angle in radians in the range [-PI, PI]
+ */
+export function calculateHingeAngle(
+    invInitialOrientation: Quat,
+    worldSpaceHingeAxis1: Vec3,
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+): number {
     // calculate relative orientation
     // qRel = q2 * invInitialOrientation * conjugate(q1)
     quat.copy(_hingeConstraint_q1, bodyA.quaternion);
     quat.copy(_hingeConstraint_q2, bodyB.quaternion);
 
     // q2 * invInitialOrientation
-    quat.multiply(_hingeConstraint_qRel, _hingeConstraint_q2, constraint.invInitialOrientation);
+    quat.multiply(_hingeConstraint_qRel, _hingeConstraint_q2, invInitialOrientation);
     // * conjugate(q1)
     quat.conjugate(_hingeConstraint_q1, _hingeConstraint_q1);
     quat.multiply(_hingeConstraint_qRel, _hingeConstraint_qRel, _hingeConstraint_q1);
@@ -501,15 +518,28 @@ function calculateA1AndTheta(constraint: HingeConstraint, bodyA: RigidBody, body
     // 2 * atan(dot(axis, xyz) / w) — must use atan (not atan2) for correct [-PI, PI] range
     const qw = _hingeConstraint_qRel[3];
     const axisDot =
-        _hingeConstraint_worldHingeAxis1[0] * _hingeConstraint_qRel[0] +
-        _hingeConstraint_worldHingeAxis1[1] * _hingeConstraint_qRel[1] +
-        _hingeConstraint_worldHingeAxis1[2] * _hingeConstraint_qRel[2];
+        worldSpaceHingeAxis1[0] * _hingeConstraint_qRel[0] +
+        worldSpaceHingeAxis1[1] * _hingeConstraint_qRel[1] +
+        worldSpaceHingeAxis1[2] * _hingeConstraint_qRel[2];
 
-    constraint.theta = qw === 0 ? Math.PI : 2 * Math.atan(axisDot / qw);
+    return qw === 0 ? Math.PI : 2 * Math.atan(axisDot / qw);
+}
+
+/** calculate the current hinge angle theta */
+function calculateA1AndTheta(constraint: HingeConstraint, bodyA: RigidBody, bodyB: RigidBody): void {
+    if (!constraint.hasLimits && constraint.motorState === MotorState.OFF && constraint.maxFrictionTorque <= 0) {
+        return;
+    }
+
+    // calculate world space hinge axis
+    vec3.transformQuat(_hingeConstraint_worldHingeAxis1, constraint.localSpaceHingeAxis1, bodyA.quaternion);
+    vec3.copy(constraint.worldSpaceHingeAxis1, _hingeConstraint_worldHingeAxis1);
+
+    constraint.theta = calculateHingeAngle(constraint.invInitialOrientation, _hingeConstraint_worldHingeAxis1, bodyA, bodyB);
 }
 
 /** center angle around zero (wrap to [-PI, PI]). */
-function centerAngleAroundZero(angle: number): number {
+export function centerAngleAroundZero(angle: number): number {
     while (angle > Math.PI) angle -= 2 * Math.PI;
     while (angle < -Math.PI) angle += 2 * Math.PI;
     return angle;
@@ -811,6 +841,46 @@ function resetWarmStart(constraint: HingeConstraint): void {
     angleConstraintPart.deactivate(constraint.rotationLimitsConstraintPart);
 }
 
+function saveState(constraint: HingeConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.saveState(constraint.pointConstraintPart, recorder);
+    hingeRotationConstraintPart.saveState(constraint.rotationConstraintPart, recorder);
+    angleConstraintPart.saveState(constraint.rotationLimitsConstraintPart, recorder);
+    angleConstraintPart.saveState(constraint.motorConstraintPart, recorder);
+
+    stateRecorder.writeInt32(recorder, constraint.motorState);
+    stateRecorder.writeFloat64(recorder, constraint.targetAngularVelocity);
+    stateRecorder.writeFloat64(recorder, constraint.targetAngle);
+}
+
+function restoreState(constraint: HingeConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.restoreState(constraint.pointConstraintPart, recorder);
+    hingeRotationConstraintPart.restoreState(constraint.rotationConstraintPart, recorder);
+    angleConstraintPart.restoreState(constraint.rotationLimitsConstraintPart, recorder);
+    angleConstraintPart.restoreState(constraint.motorConstraintPart, recorder);
+
+    constraint.motorState = stateRecorder.readInt32(recorder) as MotorState;
+    constraint.targetAngularVelocity = stateRecorder.readFloat64(recorder);
+    constraint.targetAngle = stateRecorder.readFloat64(recorder);
+}
+
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: HingeConstraint): void {
+    // the limits and the motor act around the hinge axis, perpendicular to the rotation constraint
+    const rotation = constraint.rotationConstraintPart.totalLambda;
+    const hinge = constraint.rotationLimitsConstraintPart.totalLambda + constraint.motorConstraintPart.totalLambda;
+    out.position = vec3.length(constraint.pointConstraintPart.totalLambda);
+    out.rotation = Math.sqrt(rotation[0] * rotation[0] + rotation[1] * rotation[1] + hinge * hinge);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: HingeConstraint): void {
+    zeroConstraintImpulses(out);
+    const axis = constraint.worldSpaceHingeAxis1;
+    pointConstraintPart.addTotalImpulses(out, constraint.pointConstraintPart);
+    hingeRotationConstraintPart.addTotalImpulses(out, constraint.rotationConstraintPart);
+    angleConstraintPart.addTotalImpulses(out, constraint.rotationLimitsConstraintPart, axis, axis);
+    angleConstraintPart.addTotalImpulses(out, constraint.motorConstraintPart, axis, axis);
+}
+
 /** the constraint definition for hinge constraint */
 export const def = /* @__PURE__ */ (() =>
     defineConstraint<HingeConstraint>({
@@ -820,6 +890,10 @@ export const def = /* @__PURE__ */ (() =>
         solveVelocity,
         solvePosition,
         resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
         getIterationOverrides: (out, constraint) => {
             out.velocity = constraint.numVelocityStepsOverride;
             out.position = constraint.numPositionStepsOverride;
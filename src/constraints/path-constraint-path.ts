@@ -0,0 +1,264 @@
+import type { Vec3 } from 'mathcat';
+import { vec3 } from 'mathcat';
+
+/** a control point of a path */
+export type PathPoint = {
+    /** position of the point in path space */
+    position: Vec3;
+    /** tangent of the curve at this point, the length determines how far the curve bulges out (Hermite tangent) */
+    tangent: Vec3;
+    /** normal of the curve at this point, e.g. the up direction of a roller coaster track (should be perpendicular to the tangent) */
+    normal: Vec3;
+};
+
+/**
+ * A path made out of cubic Hermite spline segments, used by the path constraint.
+ * The path is parameterized by a fraction: the integer part is the index of the segment, the fractional part is the
+ * position within the segment. A fraction of 0 is the first point, getPathMaxFraction is the last point.
+ */
+export type PathConstraintPath = {
+    /** control points of the path, at least 2 */
+    points: PathPoint[];
+    /** if true, the last point is connected back to the first point */
+    isLooping: boolean;
+};
+
+/**
+ * Create a Hermite path from points with explicit tangents and normals.
+ * @param points control points, at least 2
+ * @param isLooping if true, the last point is connected back to the first point
+ */
+export function create(points: PathPoint[], isLooping = false): PathConstraintPath {
+    if (points.length < 2) {
+        throw new Error('PathConstraintPath requires at least 2 points');
+    }
+
+    return {
+        points: points.map((point) => ({
+            position: vec3.clone(point.position),
+            tangent: vec3.clone(point.tangent),
+            normal: vec3.clone(point.normal),
+        })),
+        isLooping,
+    };
+}
+
+const _fromCatmullRom_tangent = /* @__PURE__ */ vec3.create();
+
+/**
+ * Create a Hermite path that passes through the given positions, tangents are calculated Catmull-Rom style.
+ * Normals are calculated by making the up vector perpendicular to the tangent at each point.
+ * @param positions positions the path passes through, at least 2
+ * @param up up direction used to calculate the normals, e.g. [0, 1, 0] for a track on the ground
+ * @param isLooping if true, the last point is connected back to the first point
+ */
+export function fromCatmullRom(positions: Vec3[], up: Vec3, isLooping = false): PathConstraintPath {
+    const numPoints = positions.length;
+    if (numPoints < 2) {
+        throw new Error('PathConstraintPath requires at least 2 points');
+    }
+
+    const points: PathPoint[] = [];
+    for (let i = 0; i < numPoints; i++) {
+        // tangent = (next - previous) / 2, end points of an open path use a one sided difference
+        let prev: Vec3;
+        let next: Vec3;
+        let scale = 0.5;
+        if (isLooping) {
+            prev = positions[(i + numPoints - 1) % numPoints];
+            next = positions[(i + 1) % numPoints];
+        } else {
+            prev = positions[Math.max(i - 1, 0)];
+            next = positions[Math.min(i + 1, numPoints - 1)];
+            if (i === 0 || i === numPoints - 1) {
+                scale = 1;
+            }
+        }
+        const tangent = vec3.subtract(vec3.create(), next, prev);
+        vec3.scale(tangent, tangent, scale);
+
+        // normal = up made perpendicular to the tangent
+        vec3.normalize(_fromCatmullRom_tangent, tangent);
+        const normal = vec3.scaleAndAdd(vec3.create(), up, _fromCatmullRom_tangent, -vec3.dot(up, _fromCatmullRom_tangent));
+        vec3.normalize(normal, normal);
+
+        points.push({ position: vec3.clone(positions[i]), tangent, normal });
+    }
+
+    return { points, isLooping };
+}
+
+/** get the maximum fraction of the path, fractions are in the range [0, getPathMaxFraction] */
+export function getPathMaxFraction(path: PathConstraintPath): number {
+    return path.isLooping ? path.points.length : path.points.length - 1;
+}
+
+/**
+ * Wraps (looping paths) or clamps (open paths) a fraction to the range of the path.
+ * @returns the wrapped or clamped fraction
+ */
+function normalizeFraction(path: PathConstraintPath, fraction: number): number {
+    const numPoints = path.points.length;
+    if (path.isLooping) {
+        return ((fraction % numPoints) + numPoints) % numPoints;
+    }
+    return Math.max(0, Math.min(numPoints - 1, fraction));
+}
+
+/** evaluate the position and (unnormalized) tangent of a Hermite segment */
+function evaluateSegment(outPosition: Vec3, outTangent: Vec3, p1: PathPoint, p2: PathPoint, t: number): void {
+    // Hermite basis functions
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = t3 - 2 * t2 + t;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = t3 - t2;
+
+    // derivatives of the basis functions
+    const dh00 = 6 * (t2 - t);
+    const dh10 = 3 * t2 - 4 * t + 1;
+    const dh01 = -dh00;
+    const dh11 = 3 * t2 - 2 * t;
+
+    vec3.scale(outPosition, p1.position, h00);
+    vec3.scaleAndAdd(outPosition, outPosition, p1.tangent, h10);
+    vec3.scaleAndAdd(outPosition, outPosition, p2.position, h01);
+    vec3.scaleAndAdd(outPosition, outPosition, p2.tangent, h11);
+
+    vec3.scale(outTangent, p1.position, dh00);
+    vec3.scaleAndAdd(outTangent, outTangent, p1.tangent, dh10);
+    vec3.scaleAndAdd(outTangent, outTangent, p2.position, dh01);
+    vec3.scaleAndAdd(outTangent, outTangent, p2.tangent, dh11);
+}
+
+const _getPointOnPath_normal = /* @__PURE__ */ vec3.create();
+
+/**
+ * Get the position and frame of the path at a fraction, all in path space.
+ * The frame is orthonormal and right handed: tangent × binormal = normal.
+ * @param outPosition position on the path
+ * @param outTangent normalized direction of the path
+ * @param outNormal normal of the path, perpendicular to the tangent
+ * @param outBinormal normal × tangent
+ * @param path the path
+ * @param fraction fraction along the path
+ */
+export function getPointOnPath(
+    outPosition: Vec3,
+    outTangent: Vec3,
+    outNormal: Vec3,
+    outBinormal: Vec3,
+    path: PathConstraintPath,
+    fraction: number,
+): void {
+    // split the fraction into a segment index and the position within the segment
+    const numPoints = path.points.length;
+    const normalizedFraction = normalizeFraction(path, fraction);
+    const index = Math.min(Math.floor(normalizedFraction), path.isLooping ? numPoints - 1 : numPoints - 2);
+    const t = normalizedFraction - index;
+    const p1 = path.points[index];
+    const p2 = path.points[(index + 1) % numPoints];
+
+    evaluateSegment(outPosition, outTangent, p1, p2, t);
+    vec3.normalize(outTangent, outTangent);
+
+    // linearly interpolate the normal, then make the frame orthonormal again
+    vec3.scale(_getPointOnPath_normal, p1.normal, 1 - t);
+    vec3.scaleAndAdd(_getPointOnPath_normal, _getPointOnPath_normal, p2.normal, t);
+    vec3.cross(outBinormal, _getPointOnPath_normal, outTangent);
+    vec3.normalize(outBinormal, outBinormal);
+    vec3.cross(outNormal, outTangent, outBinormal);
+}
+
+/** number of samples per segment for the coarse closest point search */
+const CLOSEST_POINT_SAMPLES = 8;
+
+/** number of refinement iterations per segment for the closest point search */
+const CLOSEST_POINT_ITERATIONS = 12;
+
+const _closest_position = /* @__PURE__ */ vec3.create();
+const _closest_tangent = /* @__PURE__ */ vec3.create();
+
+/** squared distance between a point on a segment and a position */
+function getSegmentDistanceSq(p1: PathPoint, p2: PathPoint, t: number, position: Vec3): number {
+    evaluateSegment(_closest_position, _closest_tangent, p1, p2, t);
+    return vec3.squaredDistance(_closest_position, position);
+}
+
+/**
+ * Get the fraction of the point on the path that is closest to a position.
+ * @param path the path
+ * @param position position in path space
+ * @param fractionHint last known fraction, used to pick between points that are (almost) equally close
+ * @returns fraction of the closest point on the path
+ */
+export function getClosestPoint(path: PathConstraintPath, position: Vec3, fractionHint: number): number {
+    const points = path.points;
+    const numPoints = points.length;
+    const numSegments = path.isLooping ? numPoints : numPoints - 1;
+    const maxFraction = getPathMaxFraction(path);
+
+    let bestDistSq = Infinity;
+    let bestFraction = 0;
+    let bestHintDistance = Infinity;
+
+    for (let i = 0; i < numSegments; i++) {
+        const p1 = points[i];
+        const p2 = points[(i + 1) % numPoints];
+
+        // coarse search, sample the segment
+        let segmentT = 0;
+        let segmentDistSq = Infinity;
+        for (let s = 0; s <= CLOSEST_POINT_SAMPLES; s++) {
+            const t = s / CLOSEST_POINT_SAMPLES;
+            const distSq = getSegmentDistanceSq(p1, p2, t, position);
+            if (distSq < segmentDistSq) {
+                segmentDistSq = distSq;
+                segmentT = t;
+            }
+        }
+
+        // refine around the best sample with a ternary search
+        let lo = Math.max(0, segmentT - 1 / CLOSEST_POINT_SAMPLES);
+        let hi = Math.min(1, segmentT + 1 / CLOSEST_POINT_SAMPLES);
+        for (let iteration = 0; iteration < CLOSEST_POINT_ITERATIONS; iteration++) {
+            const m1 = lo + (hi - lo) / 3;
+            const m2 = hi - (hi - lo) / 3;
+            if (getSegmentDistanceSq(p1, p2, m1, position) < getSegmentDistanceSq(p1, p2, m2, position)) {
+                hi = m2;
+            } else {
+                lo = m1;
+            }
+        }
+        const refinedT = 0.5 * (lo + hi);
+        const refinedDistSq = getSegmentDistanceSq(p1, p2, refinedT, position);
+        if (refinedDistSq < segmentDistSq) {
+            segmentDistSq = refinedDistSq;
+            segmentT = refinedT;
+        }
+
+        // keep the closest point, prefer the point closest to the hint when distances are (almost) equal
+        const fraction = i + segmentT;
+        let hintDistance = Math.abs(fraction - fractionHint);
+        if (path.isLooping) {
+            hintDistance = Math.min(hintDistance, maxFraction - hintDistance);
+        }
+        const tolerance = 1.0e-6 * Math.max(1, bestDistSq);
+        if (
+            segmentDistSq < bestDistSq - tolerance ||
+            (segmentDistSq < bestDistSq + tolerance && hintDistance < bestHintDistance)
+        ) {
+            bestDistSq = segmentDistSq;
+            bestFraction = fraction;
+            bestHintDistance = hintDistance;
+        }
+    }
+
+    // a looping path has no end, wrap the last point back to the start
+    if (path.isLooping && bestFraction >= maxFraction) {
+        bestFraction -= maxFraction;
+    }
+
+    return bestFraction;
+}
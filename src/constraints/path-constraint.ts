@@ -0,0 +1,992 @@
+import type { Quat, Vec3 } from 'mathcat';
+import { mat3, mat4, quat, vec3 } from 'mathcat';
+import type { Bodies } from '../body/bodies';
+import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import { getInverseInertiaForRotation } from '../body/motion-properties';
+import { MotionType } from '../body/motion-type';
+import type { RigidBody } from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { World } from '../world';
+import {
+    type ConstraintId,
+    ConstraintType,
+    getConstraintIdIndex,
+    getConstraintIdSequence,
+    INVALID_CONSTRAINT_ID,
+    SEQUENCE_MASK,
+    serConstraintId,
+} from './constraint-id';
+import type { AxisConstraintPart } from './constraint-part/axis-constraint-part';
+import * as axisConstraintPart from './constraint-part/axis-constraint-part';
+import type { DualAxisConstraintPart } from './constraint-part/dual-axis-constraint-part';
+import * as dualAxisConstraintPart from './constraint-part/dual-axis-constraint-part';
+import type { HingeRotationConstraintPart } from './constraint-part/hinge-rotation-constraint-part';
+import * as hingeRotationConstraintPart from './constraint-part/hinge-rotation-constraint-part';
+import type { MotorSettings } from './constraint-part/motor-settings';
+import * as motorSettings from './constraint-part/motor-settings';
+import { MotorState } from './constraint-part/motor-settings';
+import type { RotationEulerConstraintPart } from './constraint-part/rotation-euler-constraint-part';
+import * as rotationEulerConstraintPart from './constraint-part/rotation-euler-constraint-part';
+import * as springSettings from './constraint-part/spring-settings';
+import {
+    type ConstraintBase,
+    type ConstraintImpulses,
+    type ConstraintPool,
+    ConstraintSpace,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    makeConstraintBase,
+    removeConstraintIdFromBody,
+    zeroConstraintImpulses,
+} from './constraints';
+import type { PathConstraintPath } from './path-constraint-path';
+import * as pathConstraintPath from './path-constraint-path';
+
+/** how the rotation of body b is constrained relative to the path */
+export enum PathRotationConstraintType {
+    /** do not constrain the rotation of body b at all */
+    FREE = 0,
+    /** only allow rotation around the tangent of the path, the x axis of the path frame on body b follows the tangent */
+    CONSTRAIN_AROUND_TANGENT = 1,
+    /** only allow rotation around the normal of the path, the z axis of the path frame on body b follows the normal */
+    CONSTRAIN_AROUND_NORMAL = 2,
+    /** only allow rotation around the binormal of the path, the y axis of the path frame on body b follows the binormal */
+    CONSTRAIN_AROUND_BINORMAL = 3,
+    /** fully align body b with the path frame (tangent, binormal, normal), e.g. a roller coaster car */
+    CONSTRAIN_TO_PATH = 4,
+    /** keep the rotation of body b relative to body a fixed, body b translates along the path without rotating */
+    FULLY_CONSTRAINED = 5,
+}
+
+/**
+ * Path constraint removes 2 translational DOF, and depending on the rotation type up to 3 rotational DOF.
+ * Body b is attached to a curve (see {@link PathConstraintPath}) that moves with body a, and can only slide along it.
+ * Used for roller coasters, rail carts and moving platforms on tracks.
+ * The position along the path is expressed as a fraction, see {@link pathConstraintPath.getPathMaxFraction}.
+ */
+export type PathConstraint = ConstraintBase & {
+    /** the path body b follows */
+    path: PathConstraintPath;
+    /** position of the path origin relative to the center of mass of body a, in body a local space */
+    localSpacePathPositionA: Vec3;
+    /** rotation of the path relative to body a */
+    localSpacePathRotationA: Quat;
+    /** attachment point on body b relative to its center of mass, in body b local space */
+    localSpacePathPositionB: Vec3;
+    /** rotation of the path frame (tangent, binormal, normal) relative to body b at creation */
+    localSpacePathRotationB: Quat;
+    /** how the rotation of body b is constrained */
+    rotationConstraintType: PathRotationConstraintType;
+    /** current fraction along the path of the point that is closest to the attachment point on body b */
+    pathFraction: number;
+    // motor
+    /** motor state */
+    motorState: MotorState;
+    /** target velocity along the path (m/s) for velocity mode */
+    targetVelocity: number;
+    /** target fraction along the path for position mode */
+    targetPathFraction: number;
+    /** maximum friction force along the path when the motor is off */
+    maxFrictionForce: number;
+    /** motor settings (spring + force limits) */
+    motorSettings: MotorSettings;
+    // runtime cached values
+    /** inverse of the rotation from body a to body b that keeps body b aligned with the path (or fixed) */
+    invInitialOrientation: Quat;
+    /** r1 = vector from body a COM to the closest point on the path (world space) */
+    r1: Vec3;
+    /** r2 = vector from body b COM to the attachment point on body b (world space) */
+    r2: Vec3;
+    /** u = attachment point on body b - closest point on the path (world space) */
+    u: Vec3;
+    /** world space tangent of the path at the closest point */
+    pathTangent: Vec3;
+    /** world space normal of the path at the closest point */
+    pathNormal: Vec3;
+    /** world space binormal of the path at the closest point */
+    pathBinormal: Vec3;
+    // parts
+    /** position constraint for 2 DOF perpendicular to the path */
+    positionConstraintPart: DualAxisConstraintPart;
+    /** stops body b at the ends of a path that does not loop */
+    positionLimitsConstraintPart: AxisConstraintPart;
+    /** motor constraint along the path */
+    motorConstraintPart: AxisConstraintPart;
+    /** rotation constraint for the CONSTRAIN_AROUND_* rotation types */
+    hingeConstraintPart: HingeRotationConstraintPart;
+    /** rotation constraint for the CONSTRAIN_TO_PATH and FULLY_CONSTRAINED rotation types */
+    rotationConstraintPart: RotationEulerConstraintPart;
+};
+
+/** creates default path constraint */
+function makePathConstraint(): PathConstraint {
+    return {
+        ...makeConstraintBase(),
+        path: { points: [], isLooping: false },
+        localSpacePathPositionA: vec3.create(),
+        localSpacePathRotationA: quat.create(),
+        localSpacePathPositionB: vec3.create(),
+        localSpacePathRotationB: quat.create(),
+        rotationConstraintType: PathRotationConstraintType.FREE,
+        pathFraction: 0,
+        // motor
+        motorState: MotorState.OFF,
+        targetVelocity: 0,
+        targetPathFraction: 0,
+        maxFrictionForce: 0,
+        motorSettings: motorSettings.create(),
+        // runtime cached
+        invInitialOrientation: quat.create(),
+        r1: vec3.create(),
+        r2: vec3.create(),
+        u: vec3.create(),
+        pathTangent: vec3.fromValues(1, 0, 0),
+        pathNormal: vec3.fromValues(0, 0, 1),
+        pathBinormal: vec3.fromValues(0, 1, 0),
+        // constraint parts
+        positionConstraintPart: dualAxisConstraintPart.create(),
+        positionLimitsConstraintPart: axisConstraintPart.create(),
+        motorConstraintPart: axisConstraintPart.create(),
+        hingeConstraintPart: hingeRotationConstraintPart.create(),
+        rotationConstraintPart: rotationEulerConstraintPart.create(),
+    };
+}
+
+/** reset constraint state for pooling reuse */
+function resetConstraint(constraint: PathConstraint): void {
+    constraint.enabled = true;
+    constraint._sleeping = false;
+    constraint._pooled = false;
+    dualAxisConstraintPart.deactivate(constraint.positionConstraintPart);
+    axisConstraintPart.deactivate(constraint.positionLimitsConstraintPart);
+    axisConstraintPart.deactivate(constraint.motorConstraintPart);
+    hingeRotationConstraintPart.deactivate(constraint.hingeConstraintPart);
+    rotationEulerConstraintPart.deactivate(constraint.rotationConstraintPart);
+}
+
+/** settings for creating a path constraint */
+export type PathConstraintSettings = {
+    /** body the path is attached to, use a static body for a path that is fixed in the world */
+    bodyIdA: BodyId;
+    /** body that follows the path */
+    bodyIdB: BodyId;
+    /** the path body b follows, see pathConstraintPath.create and pathConstraintPath.fromCatmullRom */
+    path: PathConstraintPath;
+    /** position of the path origin (space determined by `space`) @default [0, 0, 0] */
+    pathPosition?: Vec3;
+    /** rotation of the path (space determined by `space`) @default identity */
+    pathRotation?: Quat;
+    /**
+     * fraction along the path where body b is attached, body b is attached at the point on the path with this
+     * fraction, wherever body b currently is @default 0
+     */
+    pathFraction?: number;
+    /** how the rotation of body b is constrained @default PathRotationConstraintType.FREE */
+    rotationConstraintType?: PathRotationConstraintType;
+    /** maximum friction force along the path when the motor is off @default 0 */
+    maxFrictionForce?: number;
+    /** motor settings (spring + force limits) */
+    motorSettings?: MotorSettings;
+    /**
+     * space of pathPosition and pathRotation, ConstraintSpace.LOCAL is relative to the center of mass of body a
+     * @default ConstraintSpace.WORLD
+     */
+    space?: ConstraintSpace;
+    /** constraint priority (higher = solved first) @default 0 */
+    constraintPriority?: number;
+    /** override number of velocity solver iterations (0 = use default) @default 0 */
+    numVelocityStepsOverride?: number;
+    /** override number of position solver iterations (0 = use default) @default 0 */
+    numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
+};
+
+const _pathConstraint_pathPosition = /* @__PURE__ */ vec3.create();
+const _pathConstraint_pathTangent = /* @__PURE__ */ vec3.create();
+const _pathConstraint_pathNormal = /* @__PURE__ */ vec3.create();
+const _pathConstraint_pathBinormal = /* @__PURE__ */ vec3.create();
+const _pathConstraint_pathFrame = /* @__PURE__ */ mat3.create();
+const _pathConstraint_pathRotation = /* @__PURE__ */ quat.create();
+
+/**
+ * Get the rotation of the path frame at the current path position, x = tangent, y = binormal, z = normal.
+ * Uses the tangent, normal and binormal last calculated by pathConstraintPath.getPointOnPath.
+ */
+function getPathFrameRotation(out: Quat): Quat {
+    const t = _pathConstraint_pathTangent;
+    const b = _pathConstraint_pathBinormal;
+    const n = _pathConstraint_pathNormal;
+    // biome-ignore format: readability
+    mat3.set(_pathConstraint_pathFrame,
+        t[0], t[1], t[2], // column 0 (X = tangent)
+        b[0], b[1], b[2], // column 1 (Y = binormal)
+        n[0], n[1], n[2], // column 2 (Z = normal)
+    );
+    quat.fromMat3(out, _pathConstraint_pathFrame);
+    return quat.normalize(out, out);
+}
+
+const _create_invQuatA = /* @__PURE__ */ quat.create();
+const _create_invQuatB = /* @__PURE__ */ quat.create();
+const _create_worldRotation = /* @__PURE__ */ quat.create();
+const _create_worldPosition = /* @__PURE__ */ vec3.create();
+
+/** create a path constraint */
+export function create(world: World, settings: PathConstraintSettings): PathConstraint {
+    if (settings.path.points.length < 2) {
+        throw new Error('Path constraint requires a path with at least 2 points');
+    }
+
+    const pool = ensurePool<PathConstraint>(world.constraints, ConstraintType.PATH);
+    const bodies = world.bodies;
+
+    // get next sequence
+    const sequence = pool.nextSequence;
+    pool.nextSequence = (pool.nextSequence + 1) & SEQUENCE_MASK;
+
+    // get constraint from pool
+    let index: number;
+    let constraint: PathConstraint;
+    if (pool.freeIndices.length > 0) {
+        // reuse existing pooled constraint
+        index = pool.freeIndices.pop()!;
+        constraint = pool.constraints[index];
+    } else {
+        // expand array
+        index = pool.constraints.length;
+        constraint = makePathConstraint();
+        pool.constraints.push(constraint);
+    }
+
+    // reset pooled state
+    resetConstraint(constraint);
+
+    // set constraint id, index, sequence
+    constraint.id = serConstraintId(index, ConstraintType.PATH, sequence);
+    constraint.index = index;
+    constraint.sequence = sequence;
+
+    // set base constraint properties
+    constraint.constraintPriority = settings.constraintPriority ?? 0;
+    constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
+    constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
+
+    // extract body indices from IDs
+    constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
+    constraint.bodyIndexB = getBodyIdIndex(settings.bodyIdB);
+
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    constraint.path = settings.path;
+    constraint.rotationConstraintType = settings.rotationConstraintType ?? PathRotationConstraintType.FREE;
+
+    // convert the path transform to the local space of body a if needed
+    quat.conjugate(_create_invQuatA, bodyA.quaternion);
+    quat.conjugate(_create_invQuatB, bodyB.quaternion);
+    const space = settings.space ?? ConstraintSpace.WORLD;
+    if (space === ConstraintSpace.WORLD) {
+        // local = quatInverse * (worldPoint - centerOfMassPosition)
+        if (settings.pathPosition) {
+            vec3.subtract(constraint.localSpacePathPositionA, settings.pathPosition, bodyA.centerOfMassPosition);
+        } else {
+            vec3.negate(constraint.localSpacePathPositionA, bodyA.centerOfMassPosition);
+        }
+        vec3.transformQuat(constraint.localSpacePathPositionA, constraint.localSpacePathPositionA, _create_invQuatA);
+        if (settings.pathRotation) {
+            quat.multiply(constraint.localSpacePathRotationA, _create_invQuatA, settings.pathRotation);
+        } else {
+            quat.copy(constraint.localSpacePathRotationA, _create_invQuatA);
+        }
+    } else {
+        vec3.copy(constraint.localSpacePathPositionA, settings.pathPosition ?? vec3.create());
+        quat.copy(constraint.localSpacePathRotationA, settings.pathRotation ?? quat.create());
+    }
+    quat.normalize(constraint.localSpacePathRotationA, constraint.localSpacePathRotationA);
+
+    // attach body b at the point on the path with the requested fraction
+    constraint.pathFraction = settings.pathFraction ?? 0;
+    pathConstraintPath.getPointOnPath(
+        _pathConstraint_pathPosition,
+        _pathConstraint_pathTangent,
+        _pathConstraint_pathNormal,
+        _pathConstraint_pathBinormal,
+        constraint.path,
+        constraint.pathFraction,
+    );
+
+    // world rotation of the path frame = bodyRotationA * pathRotationA * pathFrameRotation
+    getPathFrameRotation(_pathConstraint_pathRotation);
+    quat.multiply(_create_worldRotation, bodyA.quaternion, constraint.localSpacePathRotationA);
+    quat.multiply(_create_worldRotation, _create_worldRotation, _pathConstraint_pathRotation);
+
+    // world position of the point = comA + bodyRotationA * (pathPositionA + pathRotationA * pathPoint)
+    vec3.transformQuat(_create_worldPosition, _pathConstraint_pathPosition, constraint.localSpacePathRotationA);
+    vec3.add(_create_worldPosition, _create_worldPosition, constraint.localSpacePathPositionA);
+    vec3.transformQuat(_create_worldPosition, _create_worldPosition, bodyA.quaternion);
+    vec3.add(_create_worldPosition, _create_worldPosition, bodyA.centerOfMassPosition);
+
+    // express the path frame in the local space of body b
+    vec3.subtract(constraint.localSpacePathPositionB, _create_worldPosition, bodyB.centerOfMassPosition);
+    vec3.transformQuat(constraint.localSpacePathPositionB, constraint.localSpacePathPositionB, _create_invQuatB);
+    quat.multiply(constraint.localSpacePathRotationB, _create_invQuatB, _create_worldRotation);
+    quat.normalize(constraint.localSpacePathRotationB, constraint.localSpacePathRotationB);
+
+    // the fully constrained rotation type keeps the initial relative rotation: r0^-1 = q2^-1 * q1
+    quat.multiply(constraint.invInitialOrientation, _create_invQuatB, bodyA.quaternion);
+
+    // set motor defaults
+    constraint.motorState = MotorState.OFF;
+    constraint.targetVelocity = 0;
+    constraint.targetPathFraction = constraint.pathFraction;
+    constraint.maxFrictionForce = settings.maxFrictionForce ?? 0;
+
+    // reset motor settings to defaults
+    motorSettings.reset(constraint.motorSettings);
+
+    // copy motor settings from input if provided
+    if (settings.motorSettings) {
+        motorSettings.copy(constraint.motorSettings, settings.motorSettings);
+    }
+
+    // track constraint on both bodies
+    bodyA.constraintIds.push(constraint.id);
+    if (constraint.bodyIndexA !== constraint.bodyIndexB) {
+        bodyB.constraintIds.push(constraint.id);
+    }
+
+    return constraint;
+}
+
+/** remove a path constraint */
+export function remove(world: World, constraint: PathConstraint): void {
+    const pool = ensurePool<PathConstraint>(world.constraints, ConstraintType.PATH);
+    const bodies = world.bodies;
+
+    // remove from bodies' constraintIds arrays
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    if (bodyA && !bodyA._pooled) {
+        removeConstraintIdFromBody(bodyA, constraint.id);
+    }
+    if (constraint.bodyIndexA !== constraint.bodyIndexB && bodyB && !bodyB._pooled) {
+        removeConstraintIdFromBody(bodyB, constraint.id);
+    }
+
+    // reset constraint state for pooling reuse
+    resetConstraint(constraint);
+
+    constraint._pooled = true;
+    constraint.id = INVALID_CONSTRAINT_ID;
+    pool.freeIndices.push(constraint.index);
+}
+
+/** get path constraint by id */
+export function get(world: World, id: ConstraintId): PathConstraint | undefined {
+    const pool = world.constraints.pools[ConstraintType.PATH] as ConstraintPool<PathConstraint> | undefined;
+    if (!pool) return undefined;
+    const index = getConstraintIdIndex(id);
+    const constraint = pool.constraints[index];
+    if (!constraint || constraint._pooled || constraint.sequence !== getConstraintIdSequence(id)) {
+        return undefined;
+    }
+    return constraint;
+}
+
+/** Set motor state for path constraint. */
+export function setMotorState(constraint: PathConstraint, state: MotorState): void {
+    constraint.motorState = state;
+}
+
+/**
+ * Set target velocity for velocity motor mode.
+ * @param constraint the constraint to modify
+ * @param velocity target velocity along the path in m/s
+ */
+export function setTargetVelocity(constraint: PathConstraint, velocity: number): void {
+    constraint.targetVelocity = velocity;
+}
+
+/**
+ * Set target fraction along the path for position motor mode.
+ * @param constraint the constraint to modify
+ * @param fraction target fraction (clamped to the path for paths that do not loop)
+ */
+export function setTargetPathFraction(constraint: PathConstraint, fraction: number): void {
+    const maxFraction = pathConstraintPath.getPathMaxFraction(constraint.path);
+    if (constraint.path.isLooping) {
+        constraint.targetPathFraction = ((fraction % maxFraction) + maxFraction) % maxFraction;
+    } else {
+        constraint.targetPathFraction = Math.max(0, Math.min(maxFraction, fraction));
+    }
+}
+
+/** Set maximum friction force along the path when motor is off */
+export function setMaxFrictionForce(constraint: PathConstraint, force: number): void {
+    constraint.maxFrictionForce = force;
+}
+
+/** Get the fraction along the path of the point that is closest to body b, as of the last simulation step */
+export function getPathFraction(constraint: PathConstraint): number {
+    return constraint.pathFraction;
+}
+
+const _pathConstraint_rotA = /* @__PURE__ */ mat4.create();
+const _pathConstraint_rotB = /* @__PURE__ */ mat4.create();
+const _pathConstraint_invInertiaA = /* @__PURE__ */ mat4.create();
+const _pathConstraint_invInertiaB = /* @__PURE__ */ mat4.create();
+const _pathConstraint_r1PlusU = /* @__PURE__ */ vec3.create();
+const _pathConstraint_pathToWorldRotationA = /* @__PURE__ */ quat.create();
+const _pathConstraint_pathToWorldRotationB = /* @__PURE__ */ quat.create();
+const _pathConstraint_pathOriginA = /* @__PURE__ */ vec3.create();
+const _pathConstraint_attachmentB = /* @__PURE__ */ vec3.create();
+const _pathConstraint_localAttachmentB = /* @__PURE__ */ vec3.create();
+const _pathConstraint_axisB = /* @__PURE__ */ vec3.create();
+const _pathConstraint_invPathRotation = /* @__PURE__ */ quat.create();
+
+/**
+ * Find the point on the path closest to body b and calculate all constraint properties.
+ * Updates pathFraction, r1, r2, u and the world space path frame.
+ */
+function calculateConstraintProperties(constraint: PathConstraint, bodyA: RigidBody, bodyB: RigidBody, deltaTime: number): void {
+    // path to world transform as seen from body a
+    quat.multiply(_pathConstraint_pathToWorldRotationA, bodyA.quaternion, constraint.localSpacePathRotationA);
+    vec3.transformQuat(_pathConstraint_pathOriginA, constraint.localSpacePathPositionA, bodyA.quaternion);
+    vec3.add(_pathConstraint_pathOriginA, _pathConstraint_pathOriginA, bodyA.centerOfMassPosition);
+
+    // path frame to world transform as seen from body b
+    quat.multiply(_pathConstraint_pathToWorldRotationB, bodyB.quaternion, constraint.localSpacePathRotationB);
+    vec3.transformQuat(constraint.r2, constraint.localSpacePathPositionB, bodyB.quaternion);
+    vec3.add(_pathConstraint_attachmentB, constraint.r2, bodyB.centerOfMassPosition);
+
+    // find the closest point on the path to the attachment point of body b, in path space
+    vec3.subtract(_pathConstraint_localAttachmentB, _pathConstraint_attachmentB, _pathConstraint_pathOriginA);
+    quat.conjugate(_pathConstraint_invPathRotation, _pathConstraint_pathToWorldRotationA);
+    vec3.transformQuat(_pathConstraint_localAttachmentB, _pathConstraint_localAttachmentB, _pathConstraint_invPathRotation);
+    constraint.pathFraction = pathConstraintPath.getClosestPoint(
+        constraint.path,
+        _pathConstraint_localAttachmentB,
+        constraint.pathFraction,
+    );
+    pathConstraintPath.getPointOnPath(
+        _pathConstraint_pathPosition,
+        _pathConstraint_pathTangent,
+        _pathConstraint_pathNormal,
+        _pathConstraint_pathBinormal,
+        constraint.path,
+        constraint.pathFraction,
+    );
+
+    // r1 = path origin + path point - comA, u = attachment point b - path point
+    vec3.transformQuat(_pathConstraint_pathPosition, _pathConstraint_pathPosition, _pathConstraint_pathToWorldRotationA);
+    vec3.add(constraint.r1, _pathConstraint_pathOriginA, _pathConstraint_pathPosition);
+    vec3.subtract(constraint.u, _pathConstraint_attachmentB, constraint.r1);
+    vec3.subtract(constraint.r1, constraint.r1, bodyA.centerOfMassPosition);
+
+    // world space path frame
+    vec3.transformQuat(constraint.pathTangent, _pathConstraint_pathTangent, _pathConstraint_pathToWorldRotationA);
+    vec3.transformQuat(constraint.pathNormal, _pathConstraint_pathNormal, _pathConstraint_pathToWorldRotationA);
+    vec3.transformQuat(constraint.pathBinormal, _pathConstraint_pathBinormal, _pathConstraint_pathToWorldRotationA);
+
+    mat4.fromQuat(_pathConstraint_rotA, bodyA.quaternion);
+    mat4.fromQuat(_pathConstraint_rotB, bodyB.quaternion);
+
+    // r1 + u = vector from body a's COM to body b's attachment point
+    vec3.add(_pathConstraint_r1PlusU, constraint.r1, constraint.u);
+
+    // position constraint, slide along the path
+    dualAxisConstraintPart.calculateConstraintProperties(
+        constraint.positionConstraintPart,
+        bodyA,
+        _pathConstraint_rotA,
+        _pathConstraint_r1PlusU,
+        bodyB,
+        _pathConstraint_rotB,
+        constraint.r2,
+        constraint.pathNormal,
+        constraint.pathBinormal,
+    );
+
+    // inverse mass and inertia for the axis parts
+    const invMassA = bodyA.motionType === MotionType.DYNAMIC ? bodyA.motionProperties.invMass : 0;
+    const invMassB = bodyB.motionType === MotionType.DYNAMIC ? bodyB.motionProperties.invMass : 0;
+    if (bodyA.motionType === MotionType.DYNAMIC) {
+        getInverseInertiaForRotation(_pathConstraint_invInertiaA, bodyA.motionProperties, _pathConstraint_rotA);
+    }
+    if (bodyB.motionType === MotionType.DYNAMIC) {
+        getInverseInertiaForRotation(_pathConstraint_invInertiaB, bodyB.motionProperties, _pathConstraint_rotB);
+    }
+
+    // stop body b at the ends of a path that does not loop
+    if (
+        !constraint.path.isLooping &&
+        (constraint.pathFraction <= 0 || constraint.pathFraction >= pathConstraintPath.getPathMaxFraction(constraint.path))
+    ) {
+        axisConstraintPart.calculateConstraintProperties(
+            constraint.positionLimitsConstraintPart,
+            bodyA,
+            bodyB,
+            invMassA,
+            invMassB,
+            _pathConstraint_invInertiaA,
+            _pathConstraint_invInertiaB,
+            _pathConstraint_r1PlusU,
+            constraint.r2,
+            constraint.pathTangent,
+            0,
+        );
+    } else {
+        axisConstraintPart.deactivate(constraint.positionLimitsConstraintPart);
+    }
+
+    // rotation constraint
+    switch (constraint.rotationConstraintType) {
+        case PathRotationConstraintType.FREE:
+            break;
+        case PathRotationConstraintType.CONSTRAIN_AROUND_TANGENT:
+        case PathRotationConstraintType.CONSTRAIN_AROUND_NORMAL:
+        case PathRotationConstraintType.CONSTRAIN_AROUND_BINORMAL: {
+            // the matching axis of the path frame on body b: x = tangent, y = binormal, z = normal
+            let axisA: Vec3;
+            if (constraint.rotationConstraintType === PathRotationConstraintType.CONSTRAIN_AROUND_TANGENT) {
+                axisA = constraint.pathTangent;
+                vec3.set(_pathConstraint_axisB, 1, 0, 0);
+            } else if (constraint.rotationConstraintType === PathRotationConstraintType.CONSTRAIN_AROUND_NORMAL) {
+                axisA = constraint.pathNormal;
+                vec3.set(_pathConstraint_axisB, 0, 0, 1);
+            } else {
+                axisA = constraint.pathBinormal;
+                vec3.set(_pathConstraint_axisB, 0, 1, 0);
+            }
+            vec3.transformQuat(_pathConstraint_axisB, _pathConstraint_axisB, _pathConstraint_pathToWorldRotationB);
+            hingeRotationConstraintPart.calculateConstraintProperties(
+                constraint.hingeConstraintPart,
+                bodyA,
+                bodyB,
+                axisA,
+                _pathConstraint_axisB,
+            );
+            break;
+        }
+        case PathRotationConstraintType.CONSTRAIN_TO_PATH:
+            // body b should have rotation q2 = q1 * pathRotationA * pathFrameRotation * pathRotationB^-1
+            // so r0^-1 = pathRotationB * pathFrameRotation^-1 * pathRotationA^-1
+            getPathFrameRotation(_pathConstraint_pathRotation);
+            quat.conjugate(_pathConstraint_pathRotation, _pathConstraint_pathRotation);
+            quat.multiply(constraint.invInitialOrientation, constraint.localSpacePathRotationB, _pathConstraint_pathRotation);
+            quat.conjugate(_pathConstraint_invPathRotation, constraint.localSpacePathRotationA);
+            quat.multiply(constraint.invInitialOrientation, constraint.invInitialOrientation, _pathConstraint_invPathRotation);
+            rotationEulerConstraintPart.calculateConstraintProperties(
+                constraint.rotationConstraintPart,
+                bodyA,
+                _pathConstraint_rotA,
+                bodyB,
+                _pathConstraint_rotB,
+            );
+            break;
+        case PathRotationConstraintType.FULLY_CONSTRAINED:
+            rotationEulerConstraintPart.calculateConstraintProperties(
+                constraint.rotationConstraintPart,
+                bodyA,
+                _pathConstraint_rotA,
+                bodyB,
+                _pathConstraint_rotB,
+            );
+            break;
+    }
+
+    // motor along the path
+    switch (constraint.motorState) {
+        case MotorState.OFF: {
+            if (constraint.maxFrictionForce > 0) {
+                axisConstraintPart.calculateConstraintProperties(
+                    constraint.motorConstraintPart,
+                    bodyA,
+                    bodyB,
+                    invMassA,
+                    invMassB,
+                    _pathConstraint_invInertiaA,
+                    _pathConstraint_invInertiaB,
+                    _pathConstraint_r1PlusU,
+                    constraint.r2,
+                    constraint.pathTangent,
+                    0,
+                );
+            } else {
+                axisConstraintPart.deactivate(constraint.motorConstraintPart);
+            }
+            break;
+        }
+        case MotorState.VELOCITY: {
+            axisConstraintPart.calculateConstraintProperties(
+                constraint.motorConstraintPart,
+                bodyA,
+                bodyB,
+                invMassA,
+                invMassB,
+                _pathConstraint_invInertiaA,
+                _pathConstraint_invInertiaB,
+                _pathConstraint_r1PlusU,
+                constraint.r2,
+                constraint.pathTangent,
+                -constraint.targetVelocity,
+            );
+            break;
+        }
+        case MotorState.POSITION: {
+            if (springSettings.hasStiffness(constraint.motorSettings.springSettings)) {
+                // error in fractions, a looping path takes the shortest way around
+                let error = constraint.pathFraction - constraint.targetPathFraction;
+                if (constraint.path.isLooping) {
+                    const maxFraction = pathConstraintPath.getPathMaxFraction(constraint.path);
+                    error %= maxFraction;
+                    if (error > 0.5 * maxFraction) {
+                        error -= maxFraction;
+                    } else if (error < -0.5 * maxFraction) {
+                        error += maxFraction;
+                    }
+                }
+                axisConstraintPart.calculateConstraintPropertiesWithSettings(
+                    constraint.motorConstraintPart,
+                    deltaTime,
+                    bodyA,
+                    bodyB,
+                    invMassA,
+                    invMassB,
+                    _pathConstraint_invInertiaA,
+                    _pathConstraint_invInertiaB,
+                    _pathConstraint_r1PlusU,
+                    constraint.r2,
+                    constraint.pathTangent,
+                    0,
+                    error,
+                    constraint.motorSettings.springSettings,
+                );
+            } else {
+                axisConstraintPart.deactivate(constraint.motorConstraintPart);
+            }
+            break;
+        }
+    }
+}
+
+function setupVelocity(constraint: PathConstraint, bodies: Bodies, deltaTime: number): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return;
+
+    calculateConstraintProperties(constraint, bodyA, bodyB, deltaTime);
+}
+
+function warmStartVelocity(constraint: PathConstraint, bodies: Bodies, warmStartImpulseRatio: number): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return;
+
+    const invMassA = bodyA.motionType === MotionType.DYNAMIC ? bodyA.motionProperties.invMass : 0;
+    const invMassB = bodyB.motionType === MotionType.DYNAMIC ? bodyB.motionProperties.invMass : 0;
+
+    // warm start motor
+    if (axisConstraintPart.isActive(constraint.motorConstraintPart)) {
+        axisConstraintPart.warmStart(
+            constraint.motorConstraintPart,
+            bodyA,
+            bodyB,
+            invMassA,
+            invMassB,
+            constraint.pathTangent,
+            warmStartImpulseRatio,
+        );
+    }
+
+    // warm start position constraint
+    dualAxisConstraintPart.warmStart(
+        constraint.positionConstraintPart,
+        bodyA,
+        bodyB,
+        constraint.pathNormal,
+        constraint.pathBinormal,
+        warmStartImpulseRatio,
+    );
+
+    // warm start limits
+    if (axisConstraintPart.isActive(constraint.positionLimitsConstraintPart)) {
+        axisConstraintPart.warmStart(
+            constraint.positionLimitsConstraintPart,
+            bodyA,
+            bodyB,
+            invMassA,
+            invMassB,
+            constraint.pathTangent,
+            warmStartImpulseRatio,
+        );
+    }
+
+    // warm start rotation constraint
+    switch (constraint.rotationConstraintType) {
+        case PathRotationConstraintType.FREE:
+            break;
+        case PathRotationConstraintType.CONSTRAIN_AROUND_TANGENT:
+        case PathRotationConstraintType.CONSTRAIN_AROUND_NORMAL:
+        case PathRotationConstraintType.CONSTRAIN_AROUND_BINORMAL:
+            hingeRotationConstraintPart.warmStart(constraint.hingeConstraintPart, bodyA, bodyB, warmStartImpulseRatio);
+            break;
+        case PathRotationConstraintType.CONSTRAIN_TO_PATH:
+        case PathRotationConstraintType.FULLY_CONSTRAINED:
+            rotationEulerConstraintPart.warmStart(constraint.rotationConstraintPart, bodyA, bodyB, warmStartImpulseRatio);
+            break;
+    }
+}
+
+function solveVelocity(constraint: PathConstraint, bodies: Bodies, deltaTime: number): boolean {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return false;
+
+    // solve motor
+    let motor = false;
+    if (axisConstraintPart.isActive(constraint.motorConstraintPart)) {
+        switch (constraint.motorState) {
+            case MotorState.OFF: {
+                const maxLambda = constraint.maxFrictionForce * deltaTime;
+                motor = axisConstraintPart.solveVelocityConstraint(
+                    constraint.motorConstraintPart,
+                    bodyA,
+                    bodyB,
+                    constraint.pathTangent,
+                    -maxLambda,
+                    maxLambda,
+                );
+                break;
+            }
+            case MotorState.VELOCITY:
+            case MotorState.POSITION:
+                motor = axisConstraintPart.solveVelocityConstraint(
+                    constraint.motorConstraintPart,
+                    bodyA,
+                    bodyB,
+                    constraint.pathTangent,
+                    deltaTime * constraint.motorSettings.minForceLimit,
+                    deltaTime * constraint.motorSettings.maxForceLimit,
+                );
+                break;
+        }
+    }
+
+    // solve position constraint (2 axes perpendicular to the path)
+    const pos = dualAxisConstraintPart.solveVelocityConstraint(
+        constraint.positionConstraintPart,
+        bodyA,
+        bodyB,
+        constraint.pathNormal,
+        constraint.pathBinormal,
+    );
+
+    // solve limits at the ends of the path
+    let limit = false;
+    if (axisConstraintPart.isActive(constraint.positionLimitsConstraintPart)) {
+        // at the start only allow moving forward, at the end only allow moving backward
+        const atStart = constraint.pathFraction <= 0;
+        limit = axisConstraintPart.solveVelocityConstraint(
+            constraint.positionLimitsConstraintPart,
+            bodyA,
+            bodyB,
+            constraint.pathTangent,
+            atStart ? 0 : -Infinity,
+            atStart ? Infinity : 0,
+        );
+    }
+
+    // solve rotation constraint
+    let rot = false;
+    switch (constraint.rotationConstraintType) {
+        case PathRotationConstraintType.FREE:
+            break;
+        case PathRotationConstraintType.CONSTRAIN_AROUND_TANGENT:
+        case PathRotationConstraintType.CONSTRAIN_AROUND_NORMAL:
+        case PathRotationConstraintType.CONSTRAIN_AROUND_BINORMAL:
+            rot = hingeRotationConstraintPart.solveVelocityConstraint(constraint.hingeConstraintPart, bodyA, bodyB);
+            break;
+        case PathRotationConstraintType.CONSTRAIN_TO_PATH:
+        case PathRotationConstraintType.FULLY_CONSTRAINED:
+            rot = rotationEulerConstraintPart.solveVelocityConstraint(constraint.rotationConstraintPart, bodyA, bodyB);
+            break;
+    }
+
+    return motor || pos || limit || rot;
+}
+
+function solvePosition(constraint: PathConstraint, bodies: Bodies, deltaTime: number, baumgarteFactor: number): boolean {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return false;
+
+    // motor operates on velocities only - no position solve
+
+    // recalculate constraint properties (bodies may have moved)
+    calculateConstraintProperties(constraint, bodyA, bodyB, deltaTime);
+
+    // solve position constraint (2 axes perpendicular to the path)
+    const pos = dualAxisConstraintPart.solvePositionConstraint(
+        constraint.positionConstraintPart,
+        bodyA,
+        bodyB,
+        constraint.u,
+        constraint.pathNormal,
+        constraint.pathBinormal,
+        baumgarteFactor,
+    );
+
+    // solve limits at the ends of the path
+    let limit = false;
+    if (axisConstraintPart.isActive(constraint.positionLimitsConstraintPart)) {
+        const d = vec3.dot(constraint.u, constraint.pathTangent);
+        const positionError = constraint.pathFraction <= 0 ? Math.min(0, d) : Math.max(0, d);
+        limit = axisConstraintPart.solvePositionConstraint(
+            constraint.positionLimitsConstraintPart,
+            bodyA,
+            bodyB,
+            constraint.pathTangent,
+            positionError,
+            baumgarteFactor,
+        );
+    }
+
+    // solve rotation constraint
+    let rot = false;
+    if (constraint.rotationConstraintType !== PathRotationConstraintType.FREE) {
+        // recalculate constraint properties (bodies may have moved)
+        calculateConstraintProperties(constraint, bodyA, bodyB, deltaTime);
+
+        switch (constraint.rotationConstraintType) {
+            case PathRotationConstraintType.CONSTRAIN_AROUND_TANGENT:
+            case PathRotationConstraintType.CONSTRAIN_AROUND_NORMAL:
+            case PathRotationConstraintType.CONSTRAIN_AROUND_BINORMAL:
+                rot = hingeRotationConstraintPart.solvePositionConstraint(
+                    constraint.hingeConstraintPart,
+                    bodyA,
+                    bodyB,
+                    baumgarteFactor,
+                );
+                break;
+            case PathRotationConstraintType.CONSTRAIN_TO_PATH:
+            case PathRotationConstraintType.FULLY_CONSTRAINED:
+                rot = rotationEulerConstraintPart.solvePositionConstraint(
+                    constraint.rotationConstraintPart,
+                    bodyA,
+                    bodyB,
+                    constraint.invInitialOrientation,
+                    baumgarteFactor,
+                );
+                break;
+        }
+    }
+
+    return pos || limit || rot;
+}
+
+function resetWarmStart(constraint: PathConstraint): void {
+    dualAxisConstraintPart.deactivate(constraint.positionConstraintPart);
+    axisConstraintPart.deactivate(constraint.positionLimitsConstraintPart);
+    axisConstraintPart.deactivate(constraint.motorConstraintPart);
+    hingeRotationConstraintPart.deactivate(constraint.hingeConstraintPart);
+    rotationEulerConstraintPart.deactivate(constraint.rotationConstraintPart);
+}
+
+function saveState(constraint: PathConstraint, recorder: StateRecorder): void {
+    dualAxisConstraintPart.saveState(constraint.positionConstraintPart, recorder);
+    axisConstraintPart.saveState(constraint.positionLimitsConstraintPart, recorder);
+    axisConstraintPart.saveState(constraint.motorConstraintPart, recorder);
+    hingeRotationConstraintPart.saveState(constraint.hingeConstraintPart, recorder);
+    rotationEulerConstraintPart.saveState(constraint.rotationConstraintPart, recorder);
+
+    stateRecorder.writeFloat64(recorder, constraint.pathFraction);
+    stateRecorder.writeInt32(recorder, constraint.motorState);
+    stateRecorder.writeFloat64(recorder, constraint.targetVelocity);
+    stateRecorder.writeFloat64(recorder, constraint.targetPathFraction);
+}
+
+function restoreState(constraint: PathConstraint, recorder: StateRecorder): void {
+    dualAxisConstraintPart.restoreState(constraint.positionConstraintPart, recorder);
+    axisConstraintPart.restoreState(constraint.positionLimitsConstraintPart, recorder);
+    axisConstraintPart.restoreState(constraint.motorConstraintPart, recorder);
+    hingeRotationConstraintPart.restoreState(constraint.hingeConstraintPart, recorder);
+    rotationEulerConstraintPart.restoreState(constraint.rotationConstraintPart, recorder);
+
+    constraint.pathFraction = stateRecorder.readFloat64(recorder);
+    constraint.motorState = stateRecorder.readInt32(recorder) as MotorState;
+    constraint.targetVelocity = stateRecorder.readFloat64(recorder);
+    constraint.targetPathFraction = stateRecorder.readFloat64(recorder);
+}
+
+/** Get total lambda for motor constraint */
+export function getTotalLambdaMotor(constraint: PathConstraint): number {
+    return axisConstraintPart.getTotalLambdaValue(constraint.motorConstraintPart);
+}
+
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: PathConstraint): void {
+    // the limits and the motor act along the path tangent, perpendicular to the position constraint
+    const position = constraint.positionConstraintPart.totalLambda;
+    const path = constraint.positionLimitsConstraintPart.totalLambda + constraint.motorConstraintPart.totalLambda;
+    const hinge = constraint.hingeConstraintPart.totalLambda;
+    out.position = Math.sqrt(position[0] * position[0] + position[1] * position[1] + path * path);
+
+    // only one of the rotation parts is active, depending on the rotation constraint type
+    out.rotation =
+        Math.sqrt(hinge[0] * hinge[0] + hinge[1] * hinge[1]) + vec3.length(constraint.rotationConstraintPart.totalLambda);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: PathConstraint): void {
+    zeroConstraintImpulses(out);
+    const r1PlusU = vec3.add(_pathConstraint_r1PlusU, constraint.r1, constraint.u);
+    const tangent = constraint.pathTangent;
+    dualAxisConstraintPart.addTotalImpulses(
+        out,
+        constraint.positionConstraintPart,
+        r1PlusU,
+        constraint.r2,
+        constraint.pathNormal,
+        constraint.pathBinormal,
+    );
+    axisConstraintPart.addTotalImpulses(out, constraint.positionLimitsConstraintPart, r1PlusU, constraint.r2, tangent, tangent);
+    axisConstraintPart.addTotalImpulses(out, constraint.motorConstraintPart, r1PlusU, constraint.r2, tangent, tangent);
+
+    // only one of the rotation parts is active, depending on the rotation constraint type
+    hingeRotationConstraintPart.addTotalImpulses(out, constraint.hingeConstraintPart);
+    rotationEulerConstraintPart.addTotalImpulses(out, constraint.rotationConstraintPart);
+}
+
+/** the constraint definition for path constraint */
+export const def = /* @__PURE__ */ (() =>
+    defineConstraint<PathConstraint>({
+        type: ConstraintType.PATH,
+        setupVelocity,
+        warmStartVelocity,
+        solveVelocity,
+        solvePosition,
+        resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
+        getIterationOverrides: (out, constraint) => {
+            out.velocity = constraint.numVelocityStepsOverride;
+            out.position = constraint.numPositionStepsOverride;
+        },
+        getSortFields: (out, constraint) => {
+            out.priority = constraint.constraintPriority;
+            out.index = constraint.index;
+        },
+    }))();
@@ -2,6 +2,7 @@ import type { Vec3 } from 'mathcat';
 import { mat4, quat, vec3 } from 'mathcat';
 import type { Bodies } from '../body/bodies';
 import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import type { StateRecorder } from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import {
@@ -15,7 +16,14 @@ import {
 } from './constraint-id';
 import type { PointConstraintPart } from './constraint-part/point-constraint-part';
 import * as pointConstraintPart from './constraint-part/point-constraint-part';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 
 /** point constraint removes 3 translational DOF */
 export type PointConstraint = ConstraintBase & {
@@ -60,6 +68,10 @@ export type PointConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 /** create a point constraint */
@@ -97,6 +109,8 @@ export function create(world: World, settings: PointConstraintSettings): PointCo
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     // extract body indices from IDs
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
@@ -241,6 +255,14 @@ function resetWarmStart(constraint: PointConstraint): void {
     pointConstraintPart.deactivate(constraint.pointConstraintPart);
 }
 
+function saveState(constraint: PointConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.saveState(constraint.pointConstraintPart, recorder);
+}
+
+function restoreState(constraint: PointConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.restoreState(constraint.pointConstraintPart, recorder);
+}
+
 /**
  * Get total accumulated impulse (lambda) from constraint
  * Used for debugging, telemetry, or breaking constraints based on force
@@ -249,6 +271,17 @@ export function getTotalLambda(constraint: PointConstraint): Vec3 {
     return constraint.pointConstraintPart.totalLambda;
 }
 
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: PointConstraint): void {
+    out.position = vec3.length(constraint.pointConstraintPart.totalLambda);
+    out.rotation = 0;
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: PointConstraint): void {
+    zeroConstraintImpulses(out);
+    pointConstraintPart.addTotalImpulses(out, constraint.pointConstraintPart);
+}
+
 /** the constraint definition for point constraint */
 export const def = /* @__PURE__ */ (() =>
     defineConstraint<PointConstraint>({
@@ -258,6 +291,10 @@ export const def = /* @__PURE__ */ (() =>
         solveVelocity,
         solvePosition,
         resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
         getIterationOverrides: (out, constraint) => {
             out.velocity = constraint.numVelocityStepsOverride;
             out.position = constraint.numPositionStepsOverride;
@@ -0,0 +1,553 @@
+import type { Vec3 } from 'mathcat';
+import { mat4, quat, vec3 } from 'mathcat';
+import type { Bodies } from '../body/bodies';
+import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import { getInverseInertiaForRotation } from '../body/motion-properties';
+import { MotionType } from '../body/motion-type';
+import type { RigidBody } from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { World } from '../world';
+import {
+    type ConstraintId,
+    ConstraintType,
+    getConstraintIdIndex,
+    getConstraintIdSequence,
+    INVALID_CONSTRAINT_ID,
+    SEQUENCE_MASK,
+    serConstraintId,
+} from './constraint-id';
+import type { AxisConstraintPart } from './constraint-part/axis-constraint-part';
+import * as axisConstraintPart from './constraint-part/axis-constraint-part';
+import {
+    type ConstraintBase,
+    type ConstraintImpulses,
+    type ConstraintPool,
+    ConstraintSpace,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    makeConstraintBase,
+    removeConstraintIdFromBody,
+    zeroConstraintImpulses,
+} from './constraints';
+
+/**
+ * Pulley constraint removes 1 translational DOF.
+ * Two bodies hang from two fixed points in the world by a rope that runs over the fixed points:
+ * minLength <= |pointA - fixedPointA| + ratio * |pointB - fixedPointB| <= maxLength.
+ * Shortening one side of the rope lengthens the other side, e.g. for counterweights, lifts and cranes.
+ */
+export type PulleyConstraint = ConstraintBase & {
+    /** attachment point on body a in local space */
+    localSpacePositionA: Vec3;
+    /** attachment point on body b in local space */
+    localSpacePositionB: Vec3;
+    /** fixed point in world space that the rope to body a runs over */
+    worldSpaceFixedPositionA: Vec3;
+    /** fixed point in world space that the rope to body b runs over */
+    worldSpaceFixedPositionB: Vec3;
+    /** ratio between the two rope segments, a ratio of 2 makes body b move half as far as body a (block and tackle) */
+    ratio: number;
+    /** minimum length of the rope, length = length of segment a + ratio * length of segment b */
+    minLength: number;
+    /** maximum length of the rope */
+    maxLength: number;
+    // runtime state
+    /** attachment point on body a in world space */
+    worldSpacePositionA: Vec3;
+    /** attachment point on body b in world space */
+    worldSpacePositionB: Vec3;
+    /** direction from the fixed point to the attachment point on body a */
+    worldSpaceNormalA: Vec3;
+    /** direction from the fixed point to the attachment point on body b */
+    worldSpaceNormalB: Vec3;
+    /** constraint axis for body a, the negated normal a */
+    axisA: Vec3;
+    /** constraint axis for body b, normal b scaled by the ratio */
+    axisB: Vec3;
+    /** moment arm from body a's center of mass to worldSpacePositionA */
+    r1: Vec3;
+    /** moment arm from body b's center of mass to worldSpacePositionB */
+    r2: Vec3;
+    minLambda: number;
+    maxLambda: number;
+    axisConstraint: AxisConstraintPart;
+};
+
+/** creates default pulley constraint */
+function makePulleyConstraint(): PulleyConstraint {
+    return {
+        ...makeConstraintBase(),
+        localSpacePositionA: vec3.create(),
+        localSpacePositionB: vec3.create(),
+        worldSpaceFixedPositionA: vec3.create(),
+        worldSpaceFixedPositionB: vec3.create(),
+        ratio: 1,
+        minLength: 0,
+        maxLength: 0,
+        worldSpacePositionA: vec3.create(),
+        worldSpacePositionB: vec3.create(),
+        worldSpaceNormalA: vec3.fromValues(0, -1, 0), // fallback normal
+        worldSpaceNormalB: vec3.fromValues(0, -1, 0), // fallback normal
+        axisA: vec3.create(),
+        axisB: vec3.create(),
+        r1: vec3.create(),
+        r2: vec3.create(),
+        minLambda: 0,
+        maxLambda: 0,
+        axisConstraint: axisConstraintPart.create(),
+    };
+}
+
+/** settings for creating a pulley constraint */
+export type PulleyConstraintSettings = {
+    bodyIdA: BodyId;
+    bodyIdB: BodyId;
+    /** attachment point of the rope on body a (space determined by `space`) */
+    pointA: Vec3;
+    /** attachment point of the rope on body b (space determined by `space`) */
+    pointB: Vec3;
+    /** fixed point in world space that the rope to body a runs over */
+    fixedPointA: Vec3;
+    /** fixed point in world space that the rope to body b runs over */
+    fixedPointB: Vec3;
+    /** ratio between the two rope segments, length = length of segment a + ratio * length of segment b @default 1 */
+    ratio?: number;
+    /** minimum length of the rope (-1 = use initial length) @default 0 */
+    minLength?: number;
+    /** maximum length of the rope (-1 = use initial length) @default -1 */
+    maxLength?: number;
+    /** constraint space of pointA and pointB, the fixed points are always in world space @default ConstraintSpace.WORLD */
+    space?: ConstraintSpace;
+    /** constraint priority (higher = solved first) @default 0 */
+    constraintPriority?: number;
+    /** override number of velocity solver iterations (0 = use default) @default 0 */
+    numVelocityStepsOverride?: number;
+    /** override number of position solver iterations (0 = use default) @default 0 */
+    numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
+};
+
+/** reset constraint state for pooling reuse */
+function resetConstraint(constraint: PulleyConstraint): void {
+    constraint.enabled = true;
+    constraint._sleeping = false;
+    constraint._pooled = false;
+    axisConstraintPart.deactivate(constraint.axisConstraint);
+}
+
+/** create a pulley constraint */
+export function create(world: World, settings: PulleyConstraintSettings): PulleyConstraint {
+    const pool = ensurePool<PulleyConstraint>(world.constraints, ConstraintType.PULLEY);
+    const bodies = world.bodies;
+
+    // get next sequence
+    const sequence = pool.nextSequence;
+    pool.nextSequence = (pool.nextSequence + 1) & SEQUENCE_MASK;
+
+    // get constraint from pool
+    let index: number;
+    let constraint: PulleyConstraint;
+    if (pool.freeIndices.length > 0) {
+        // reuse existing pooled constraint
+        index = pool.freeIndices.pop()!;
+        constraint = pool.constraints[index];
+    } else {
+        // expand array
+        index = pool.constraints.length;
+        constraint = makePulleyConstraint();
+        pool.constraints.push(constraint);
+    }
+
+    // reset pooled state
+    resetConstraint(constraint);
+
+    // set constraint id, index, sequence
+    constraint.id = serConstraintId(index, ConstraintType.PULLEY, sequence);
+    constraint.index = index;
+    constraint.sequence = sequence;
+
+    // set base constraint properties
+    constraint.constraintPriority = settings.constraintPriority ?? 0;
+    constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
+    constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
+
+    // extract body indices from IDs
+    constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
+    constraint.bodyIndexB = getBodyIdIndex(settings.bodyIdB);
+
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    // convert to local space if needed
+    const space = settings.space ?? ConstraintSpace.WORLD;
+    if (space === ConstraintSpace.WORLD) {
+        // local = quatInverse * (worldPoint - centerOfMassPosition)
+        const invQuat = quat.create();
+        vec3.subtract(constraint.localSpacePositionA, settings.pointA, bodyA.centerOfMassPosition);
+        vec3.transformQuat(
+            constraint.localSpacePositionA,
+            constraint.localSpacePositionA,
+            quat.conjugate(invQuat, bodyA.quaternion),
+        );
+        vec3.subtract(constraint.localSpacePositionB, settings.pointB, bodyB.centerOfMassPosition);
+        vec3.transformQuat(
+            constraint.localSpacePositionB,
+            constraint.localSpacePositionB,
+            quat.conjugate(invQuat, bodyB.quaternion),
+        );
+    } else {
+        vec3.copy(constraint.localSpacePositionA, settings.pointA);
+        vec3.copy(constraint.localSpacePositionB, settings.pointB);
+    }
+
+    vec3.copy(constraint.worldSpaceFixedPositionA, settings.fixedPointA);
+    vec3.copy(constraint.worldSpaceFixedPositionB, settings.fixedPointB);
+    constraint.ratio = settings.ratio ?? 1;
+
+    // set min/max (use initial length if -1)
+    const length = getCurrentLength(constraint, bodies);
+    const minLength = settings.minLength ?? 0;
+    const maxLength = settings.maxLength ?? -1;
+    constraint.minLength = minLength < 0 ? length : minLength;
+    constraint.maxLength = maxLength < 0 ? length : maxLength;
+    if (constraint.minLength > constraint.maxLength) {
+        constraint.minLength = constraint.maxLength;
+    }
+
+    // track constraint on both bodies
+    bodyA.constraintIds.push(constraint.id);
+    if (constraint.bodyIndexA !== constraint.bodyIndexB) {
+        bodyB.constraintIds.push(constraint.id);
+    }
+
+    return constraint;
+}
+
+/** remove a pulley constraint */
+export function remove(world: World, constraint: PulleyConstraint): void {
+    const pool = ensurePool<PulleyConstraint>(world.constraints, ConstraintType.PULLEY);
+    const bodies = world.bodies;
+
+    // remove from bodies' constraintIds arrays
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    if (bodyA && !bodyA._pooled) {
+        removeConstraintIdFromBody(bodyA, constraint.id);
+    }
+    if (constraint.bodyIndexA !== constraint.bodyIndexB && bodyB && !bodyB._pooled) {
+        removeConstraintIdFromBody(bodyB, constraint.id);
+    }
+
+    // reset constraint state for pooling reuse
+    resetConstraint(constraint);
+
+    constraint._pooled = true;
+    constraint.id = INVALID_CONSTRAINT_ID;
+    pool.freeIndices.push(constraint.index);
+}
+
+/** get pulley constraint by id */
+export function get(world: World, id: ConstraintId): PulleyConstraint | undefined {
+    const pool = world.constraints.pools[ConstraintType.PULLEY] as ConstraintPool<PulleyConstraint> | undefined;
+    if (!pool) return undefined;
+    const index = getConstraintIdIndex(id);
+    const constraint = pool.constraints[index];
+    if (!constraint || constraint._pooled || constraint.sequence !== getConstraintIdSequence(id)) {
+        return undefined;
+    }
+    return constraint;
+}
+
+const _getCurrentLength_positionA = /* @__PURE__ */ vec3.create();
+const _getCurrentLength_positionB = /* @__PURE__ */ vec3.create();
+
+/**
+ * Get the current length of the rope.
+ * @returns length of segment a + ratio * length of segment b
+ */
+export function getCurrentLength(constraint: PulleyConstraint, bodies: Bodies): number {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    // world = centerOfMassPosition + rotation * localPoint
+    vec3.transformQuat(_getCurrentLength_positionA, constraint.localSpacePositionA, bodyA.quaternion);
+    vec3.add(_getCurrentLength_positionA, _getCurrentLength_positionA, bodyA.centerOfMassPosition);
+    vec3.transformQuat(_getCurrentLength_positionB, constraint.localSpacePositionB, bodyB.quaternion);
+    vec3.add(_getCurrentLength_positionB, _getCurrentLength_positionB, bodyB.centerOfMassPosition);
+
+    return (
+        vec3.distance(_getCurrentLength_positionA, constraint.worldSpaceFixedPositionA) +
+        constraint.ratio * vec3.distance(_getCurrentLength_positionB, constraint.worldSpaceFixedPositionB)
+    );
+}
+
+/**
+ * Set the length limits of the rope.
+ * @param constraint - The constraint to modify
+ * @param minLength - Minimum length (use -1 to keep current)
+ * @param maxLength - Maximum length (use -1 to keep current)
+ */
+export function setLength(constraint: PulleyConstraint, minLength: number, maxLength: number): void {
+    constraint.minLength = minLength < 0 ? constraint.minLength : minLength;
+    constraint.maxLength = maxLength < 0 ? constraint.maxLength : maxLength;
+    // Ensure min <= max
+    if (constraint.minLength > constraint.maxLength) {
+        const avg = (constraint.minLength + constraint.maxLength) / 2;
+        constraint.minLength = avg;
+        constraint.maxLength = avg;
+    }
+}
+
+/**
+ * Get total accumulated impulse (lambda) from pulley constraint.
+ * The tension in the rope is -lambda / deltaTime.
+ */
+export function getTotalLambda(constraint: PulleyConstraint): number {
+    return constraint.axisConstraint.totalLambda;
+}
+
+const _pulleyConstraint_rotA = /* @__PURE__ */ mat4.create();
+const _pulleyConstraint_rotB = /* @__PURE__ */ mat4.create();
+const _pulleyConstraint_invInertiaA = /* @__PURE__ */ mat4.create();
+const _pulleyConstraint_invInertiaB = /* @__PURE__ */ mat4.create();
+const _pulleyConstraint_delta = /* @__PURE__ */ vec3.create();
+
+/** update the world space position and normal of a rope segment, returns the length of the segment */
+function updateSegment(
+    outPosition: Vec3,
+    outNormal: Vec3,
+    body: RigidBody,
+    localSpacePosition: Vec3,
+    worldSpaceFixedPosition: Vec3,
+): number {
+    // worldPos = centerOfMassPosition + rotation * localPos
+    vec3.transformQuat(outPosition, localSpacePosition, body.quaternion);
+    vec3.add(outPosition, outPosition, body.centerOfMassPosition);
+
+    // normal points from the fixed point to the attachment point
+    vec3.subtract(_pulleyConstraint_delta, outPosition, worldSpaceFixedPosition);
+    const length = vec3.length(_pulleyConstraint_delta);
+    if (length > 0) {
+        vec3.scale(outNormal, _pulleyConstraint_delta, 1 / length);
+    }
+    // else keep previous normal (handles length = 0 case)
+
+    return length;
+}
+
+/**
+ * calculate pulley constraint properties. Updates world positions and normals, and sets up axis constraint part
+ * @returns the current length of the rope
+ */
+function calculatePulleyConstraintProperties(constraint: PulleyConstraint, bodyA: RigidBody, bodyB: RigidBody): number {
+    const lengthA = updateSegment(
+        constraint.worldSpacePositionA,
+        constraint.worldSpaceNormalA,
+        bodyA,
+        constraint.localSpacePositionA,
+        constraint.worldSpaceFixedPositionA,
+    );
+    const lengthB = updateSegment(
+        constraint.worldSpacePositionB,
+        constraint.worldSpaceNormalB,
+        bodyB,
+        constraint.localSpacePositionB,
+        constraint.worldSpaceFixedPositionB,
+    );
+    const length = lengthA + constraint.ratio * lengthB;
+
+    // J v = d/dt length = n1 · (v1 + ω1 × r1) + ratio * n2 · (v2 + ω2 × r2)
+    // the axis constraint part uses J = [-a1, -r1 × a1, a2, r2 × a2], so a1 = -n1 and a2 = ratio * n2
+    vec3.negate(constraint.axisA, constraint.worldSpaceNormalA);
+    vec3.scale(constraint.axisB, constraint.worldSpaceNormalB, constraint.ratio);
+
+    // determine constraint mode based on current length vs limits
+    if (constraint.minLength === constraint.maxLength) {
+        // fixed length - constraint acts in both directions
+        constraint.minLambda = -Infinity;
+        constraint.maxLambda = Infinity;
+    } else if (length <= constraint.minLength) {
+        // too short - push apart (only positive impulse allowed)
+        constraint.minLambda = 0;
+        constraint.maxLambda = Infinity;
+    } else if (length >= constraint.maxLength) {
+        // too long - pull together (only negative impulse allowed)
+        constraint.minLambda = -Infinity;
+        constraint.maxLambda = 0;
+    } else {
+        // within limits - no constraint active
+        axisConstraintPart.deactivate(constraint.axisConstraint);
+        return length;
+    }
+
+    // calculate points relative to body COM
+    const r1 = vec3.subtract(constraint.r1, constraint.worldSpacePositionA, bodyA.centerOfMassPosition);
+    const r2 = vec3.subtract(constraint.r2, constraint.worldSpacePositionB, bodyB.centerOfMassPosition);
+
+    // get inverse inertias
+    const invInertiaA = _pulleyConstraint_invInertiaA;
+    const invInertiaB = _pulleyConstraint_invInertiaB;
+
+    if (bodyA.motionType === MotionType.DYNAMIC) {
+        mat4.fromQuat(_pulleyConstraint_rotA, bodyA.quaternion);
+        getInverseInertiaForRotation(invInertiaA, bodyA.motionProperties, _pulleyConstraint_rotA);
+    }
+
+    if (bodyB.motionType === MotionType.DYNAMIC) {
+        mat4.fromQuat(_pulleyConstraint_rotB, bodyB.quaternion);
+        getInverseInertiaForRotation(invInertiaB, bodyB.motionProperties, _pulleyConstraint_rotB);
+    }
+
+    axisConstraintPart.calculateConstraintPropertiesWithIndependentAxes(
+        constraint.axisConstraint,
+        bodyA,
+        bodyB,
+        invInertiaA,
+        invInertiaB,
+        r1,
+        r2,
+        constraint.axisA,
+        constraint.axisB,
+    );
+
+    return length;
+}
+
+function setupVelocity(constraint: PulleyConstraint, bodies: Bodies, _deltaTime: number): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return;
+
+    calculatePulleyConstraintProperties(constraint, bodyA, bodyB);
+}
+
+function warmStartVelocity(constraint: PulleyConstraint, bodies: Bodies, warmStartImpulseRatio: number): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return;
+
+    axisConstraintPart.warmStartWithIndependentAxes(
+        constraint.axisConstraint,
+        bodyA,
+        bodyB,
+        constraint.axisA,
+        constraint.axisB,
+        warmStartImpulseRatio,
+    );
+}
+
+function solveVelocity(constraint: PulleyConstraint, bodies: Bodies, _deltaTime: number): boolean {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return false;
+
+    return axisConstraintPart.solveVelocityConstraintWithIndependentAxes(
+        constraint.axisConstraint,
+        bodyA,
+        bodyB,
+        constraint.axisA,
+        constraint.axisB,
+        constraint.minLambda,
+        constraint.maxLambda,
+    );
+}
+
+function solvePosition(constraint: PulleyConstraint, bodies: Bodies, _deltaTime: number, baumgarteFactor: number): boolean {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    if (!bodyA || !bodyB || bodyA._pooled || bodyB._pooled) return false;
+
+    // calculate position error
+    const length = getCurrentLength(constraint, bodies);
+    let positionError = 0;
+    if (length < constraint.minLength) {
+        positionError = length - constraint.minLength;
+    } else if (length > constraint.maxLength) {
+        positionError = length - constraint.maxLength;
+    }
+
+    if (positionError === 0) {
+        return false;
+    }
+
+    // recalculate constraint properties (bodies may have moved during position solve)
+    calculatePulleyConstraintProperties(constraint, bodyA, bodyB);
+
+    return axisConstraintPart.solvePositionConstraintWithIndependentAxes(
+        constraint.axisConstraint,
+        bodyA,
+        bodyB,
+        constraint.axisA,
+        constraint.axisB,
+        positionError,
+        baumgarteFactor,
+    );
+}
+
+function resetWarmStart(constraint: PulleyConstraint): void {
+    axisConstraintPart.deactivate(constraint.axisConstraint);
+}
+
+function saveState(constraint: PulleyConstraint, recorder: StateRecorder): void {
+    stateRecorder.writeVec3(recorder, constraint.worldSpaceNormalA);
+    stateRecorder.writeVec3(recorder, constraint.worldSpaceNormalB);
+    axisConstraintPart.saveState(constraint.axisConstraint, recorder);
+}
+
+function restoreState(constraint: PulleyConstraint, recorder: StateRecorder): void {
+    stateRecorder.readVec3(constraint.worldSpaceNormalA, recorder);
+    stateRecorder.readVec3(constraint.worldSpaceNormalB, recorder);
+    axisConstraintPart.restoreState(constraint.axisConstraint, recorder);
+}
+
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: PulleyConstraint): void {
+    out.position = Math.abs(constraint.axisConstraint.totalLambda);
+    out.rotation = 0;
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: PulleyConstraint): void {
+    zeroConstraintImpulses(out);
+    axisConstraintPart.addTotalImpulses(
+        out,
+        constraint.axisConstraint,
+        constraint.r1,
+        constraint.r2,
+        constraint.axisA,
+        constraint.axisB,
+    );
+}
+
+/** the constraint definition for pulley constraint */
+export const def = /* @__PURE__ */ (() =>
+    defineConstraint<PulleyConstraint>({
+        type: ConstraintType.PULLEY,
+        setupVelocity,
+        warmStartVelocity,
+        solveVelocity,
+        solvePosition,
+        resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
+        getIterationOverrides: (out, constraint) => {
+            out.velocity = constraint.numVelocityStepsOverride;
+            out.position = constraint.numPositionStepsOverride;
+        },
+        getSortFields: (out, constraint) => {
+            out.priority = constraint.constraintPriority;
+            out.index = constraint.index;
+        },
+    }))();
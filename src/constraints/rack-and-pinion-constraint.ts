@@ -0,0 +1,503 @@
+import type { Vec3 } from 'mathcat';
+import { quat, vec3 } from 'mathcat';
+import type { Bodies } from '../body/bodies';
+import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import type { StateRecorder } from '../utils/state-recorder';
+import type { World } from '../world';
+import {
+    type ConstraintId,
+    ConstraintType,
+    getConstraintIdIndex,
+    getConstraintIdSequence,
+    getConstraintIdType,
+    INVALID_CONSTRAINT_ID,
+    SEQUENCE_MASK,
+    serConstraintId,
+} from './constraint-id';
+import type { RackAndPinionConstraintPart } from './constraint-part/rack-and-pinion-constraint-part';
+import * as rackAndPinionConstraintPart from './constraint-part/rack-and-pinion-constraint-part';
+import {
+    type ConstraintBase,
+    type ConstraintImpulses,
+    type ConstraintPool,
+    ConstraintSpace,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    makeConstraintBase,
+    removeConstraintIdFromBody,
+    zeroConstraintImpulses,
+} from './constraints';
+import { type GearHinge, getGearRotation, makeGearHinge, updateGearHinge } from './gear-constraint';
+import * as hingeConstraint from './hinge-constraint';
+import * as sliderConstraint from './slider-constraint';
+
+/** the parts of a slider constraint needed to measure the translation of a rack, refreshed every step */
+export type RackSlider = {
+    /** id of the slider constraint, INVALID_CONSTRAINT_ID if the rack has no slider */
+    sliderConstraintId: ConstraintId;
+    /** index of body a of the slider, -1 if the slider could not be found */
+    bodyIndexA: number;
+    /** index of body b of the slider */
+    bodyIndexB: number;
+    /** attachment point on body a of the slider in local space */
+    localSpacePositionA: Vec3;
+    /** attachment point on body b of the slider in local space */
+    localSpacePositionB: Vec3;
+    /** slider axis on body a of the slider in local space */
+    localSpaceSliderAxisA: Vec3;
+    /** 1 if the slider position is the translation of the rack along the rack axis, -1 if it is the opposite translation */
+    sign: number;
+};
+
+/**
+ * Rack and pinion constraint removes 1 DOF.
+ * Couples the rotation of the pinion (body A) around its hinge axis to the translation of the rack (body B) along its slider axis:
+ * rotation A - ratio * translation B = 0.
+ * The constraint does not keep the bodies on their axes, combine it with a hinge and a slider constraint for that.
+ */
+export type RackAndPinionConstraint = ConstraintBase & {
+    /** hinge axis of the pinion in local space of body A */
+    localSpaceHingeAxisA: Vec3;
+    /** slider axis of the rack in local space of body B */
+    localSpaceSliderAxisB: Vec3;
+    /** ratio between the rotation of the pinion and the translation of the rack (rad / m) */
+    ratio: number;
+    /** world space hinge axis of the pinion (cached during setup) */
+    worldSpaceHingeAxisA: Vec3;
+    /** world space slider axis of the rack (cached during setup) */
+    worldSpaceSliderAxisB: Vec3;
+    /** optional hinge constraint of the pinion, used to correct drift */
+    hinge: GearHinge;
+    /** optional slider constraint of the rack, used to correct drift */
+    slider: RackSlider;
+    /** constraint part coupling the rotation of the pinion to the translation of the rack */
+    rackAndPinionConstraintPart: RackAndPinionConstraintPart;
+};
+
+function makeRackSlider(): RackSlider {
+    return {
+        sliderConstraintId: INVALID_CONSTRAINT_ID,
+        bodyIndexA: -1,
+        bodyIndexB: -1,
+        localSpacePositionA: vec3.create(),
+        localSpacePositionB: vec3.create(),
+        localSpaceSliderAxisA: vec3.create(),
+        sign: 1,
+    };
+}
+
+/** creates default rack and pinion constraint */
+function makeRackAndPinionConstraint(): RackAndPinionConstraint {
+    return {
+        ...makeConstraintBase(),
+        localSpaceHingeAxisA: vec3.fromValues(0, 1, 0),
+        localSpaceSliderAxisB: vec3.fromValues(1, 0, 0),
+        ratio: 1,
+        worldSpaceHingeAxisA: vec3.create(),
+        worldSpaceSliderAxisB: vec3.create(),
+        hinge: makeGearHinge(),
+        slider: makeRackSlider(),
+        rackAndPinionConstraintPart: rackAndPinionConstraintPart.create(),
+    };
+}
+
+/** reset constraint state for pooling reuse */
+function resetConstraint(constraint: RackAndPinionConstraint): void {
+    constraint.enabled = true;
+    constraint._sleeping = false;
+    constraint._pooled = false;
+    constraint.hinge.hingeConstraintId = INVALID_CONSTRAINT_ID;
+    constraint.hinge.bodyIndexA = -1;
+    constraint.slider.sliderConstraintId = INVALID_CONSTRAINT_ID;
+    constraint.slider.bodyIndexA = -1;
+    rackAndPinionConstraintPart.deactivate(constraint.rackAndPinionConstraintPart);
+}
+
+/** settings for creating a rack and pinion constraint */
+export type RackAndPinionConstraintSettings = {
+    /** body id of the pinion */
+    bodyIdA: BodyId;
+    /** body id of the rack */
+    bodyIdB: BodyId;
+    /** hinge axis of the pinion (will be normalized) */
+    hingeAxisA: Vec3;
+    /** slider axis of the rack (will be normalized) */
+    sliderAxisB: Vec3;
+    /** ratio between the rotation of the pinion and the translation of the rack (rad / m) @default 1 */
+    ratio?: number;
+    /** constraint space @default ConstraintSpace.WORLD */
+    space?: ConstraintSpace;
+    /**
+     * hinge constraint that attaches the pinion, used to correct drift.
+     * drift is only corrected when both the hinge and the slider are provided,
+     * the rack and pinion are assumed to mesh when the hinge angle and the slider position are 0.
+     * the hinge and slider must not be removed before the rack and pinion constraint
+     */
+    hingeConstraintId?: ConstraintId;
+    /** slider constraint that attaches the rack, used to correct drift */
+    sliderConstraintId?: ConstraintId;
+    /** constraint priority (higher = solved first) @default 0 */
+    constraintPriority?: number;
+    /** override number of velocity solver iterations (0 = use default) @default 0 */
+    numVelocityStepsOverride?: number;
+    /** override number of position solver iterations (0 = use default) @default 0 */
+    numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
+};
+
+/**
+ * Set the ratio from the teeth of the rack and the pinion
+ * @param rackTeeth number of teeth on the rack
+ * @param rackLength length of the rack
+ * @param pinionTeeth number of teeth on the pinion
+ */
+export function setRatio(constraint: RackAndPinionConstraint, rackTeeth: number, rackLength: number, pinionTeeth: number): void {
+    constraint.ratio = (2 * Math.PI * rackTeeth) / (rackLength * pinionTeeth);
+}
+
+/** create a rack and pinion constraint */
+export function create(world: World, settings: RackAndPinionConstraintSettings): RackAndPinionConstraint {
+    const bodies = world.bodies;
+    const bodyIndexA = getBodyIdIndex(settings.bodyIdA);
+    const bodyIndexB = getBodyIdIndex(settings.bodyIdB);
+
+    // validate the hinge and slider before taking a constraint from the pool
+    if (settings.hingeConstraintId !== undefined && settings.hingeConstraintId !== INVALID_CONSTRAINT_ID) {
+        const hinge =
+            getConstraintIdType(settings.hingeConstraintId) === ConstraintType.HINGE
+                ? hingeConstraint.get(world, settings.hingeConstraintId)
+                : undefined;
+        if (!hinge) {
+            throw new Error('Pinion hinge constraint not found');
+        }
+        if (hinge.bodyIndexA !== bodyIndexA && hinge.bodyIndexB !== bodyIndexA) {
+            throw new Error('Pinion hinge constraint is not attached to the pinion body');
+        }
+    }
+    if (settings.sliderConstraintId !== undefined && settings.sliderConstraintId !== INVALID_CONSTRAINT_ID) {
+        const slider = getSlider(world, settings.sliderConstraintId);
+        if (!slider) {
+            throw new Error('Rack slider constraint not found');
+        }
+        if (slider.bodyIndexA !== bodyIndexB && slider.bodyIndexB !== bodyIndexB) {
+            throw new Error('Rack slider constraint is not attached to the rack body');
+        }
+    }
+
+    const pool = ensurePool<RackAndPinionConstraint>(world.constraints, ConstraintType.RACK_AND_PINION);
+
+    // get next sequence
+    const sequence = pool.nextSequence;
+    pool.nextSequence = (pool.nextSequence + 1) & SEQUENCE_MASK;
+
+    // get constraint from pool
+    let index: number;
+    let constraint: RackAndPinionConstraint;
+    if (pool.freeIndices.length > 0) {
+        // reuse existing pooled constraint
+        index = pool.freeIndices.pop()!;
+        constraint = pool.constraints[index];
+    } else {
+        // expand array
+        index = pool.constraints.length;
+        constraint = makeRackAndPinionConstraint();
+        pool.constraints.push(constraint);
+    }
+
+    // reset pooled state
+    resetConstraint(constraint);
+
+    // set constraint id, index, sequence
+    constraint.id = serConstraintId(index, ConstraintType.RACK_AND_PINION, sequence);
+    constraint.index = index;
+    constraint.sequence = sequence;
+
+    // set base constraint properties
+    constraint.constraintPriority = settings.constraintPriority ?? 0;
+    constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
+    constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
+
+    constraint.bodyIndexA = bodyIndexA;
+    constraint.bodyIndexB = bodyIndexB;
+
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    // normalize axes and convert to local space if needed
+    vec3.normalize(constraint.localSpaceHingeAxisA, settings.hingeAxisA);
+    vec3.normalize(constraint.localSpaceSliderAxisB, settings.sliderAxisB);
+
+    const space = settings.space ?? ConstraintSpace.WORLD;
+    if (space === ConstraintSpace.WORLD) {
+        const invQuat = quat.create();
+        vec3.transformQuat(
+            constraint.localSpaceHingeAxisA,
+            constraint.localSpaceHingeAxisA,
+            quat.conjugate(invQuat, bodyA.quaternion),
+        );
+        vec3.transformQuat(
+            constraint.localSpaceSliderAxisB,
+            constraint.localSpaceSliderAxisB,
+            quat.conjugate(invQuat, bodyB.quaternion),
+        );
+    }
+
+    constraint.ratio = settings.ratio ?? 1;
+
+    constraint.hinge.hingeConstraintId = settings.hingeConstraintId ?? INVALID_CONSTRAINT_ID;
+    constraint.slider.sliderConstraintId = settings.sliderConstraintId ?? INVALID_CONSTRAINT_ID;
+    updateGearHinge(world, constraint.hinge, constraint.bodyIndexA, constraint.localSpaceHingeAxisA);
+    updateRackSlider(world, constraint.slider, constraint.bodyIndexB, constraint.localSpaceSliderAxisB);
+
+    // track constraint on both bodies
+    bodyA.constraintIds.push(constraint.id);
+    if (constraint.bodyIndexA !== constraint.bodyIndexB) {
+        bodyB.constraintIds.push(constraint.id);
+    }
+
+    return constraint;
+}
+
+/** remove a rack and pinion constraint */
+export function remove(world: World, constraint: RackAndPinionConstraint): void {
+    const pool = ensurePool<RackAndPinionConstraint>(world.constraints, ConstraintType.RACK_AND_PINION);
+    const bodies = world.bodies;
+
+    // remove from bodies constraintIds arrays
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    if (bodyA && !bodyA._pooled) {
+        removeConstraintIdFromBody(bodyA, constraint.id);
+    }
+    if (constraint.bodyIndexA !== constraint.bodyIndexB && bodyB && !bodyB._pooled) {
+        removeConstraintIdFromBody(bodyB, constraint.id);
+    }
+
+    // reset constraint state for pooling reuse
+    resetConstraint(constraint);
+
+    constraint._pooled = true;
+    constraint.id = INVALID_CONSTRAINT_ID;
+    pool.freeIndices.push(constraint.index);
+}
+
+/** get rack and pinion constraint by id */
+export function get(world: World, id: ConstraintId): RackAndPinionConstraint | undefined {
+    const pool = world.constraints.pools[ConstraintType.RACK_AND_PINION] as ConstraintPool<RackAndPinionConstraint> | undefined;
+    if (!pool) return undefined;
+    const index = getConstraintIdIndex(id);
+    const constraint = pool.constraints[index];
+    if (!constraint || constraint._pooled || constraint.sequence !== getConstraintIdSequence(id)) {
+        return undefined;
+    }
+    return constraint;
+}
+
+/** get a slider constraint by id, undefined if the id does not refer to a slider constraint */
+function getSlider(world: World, id: ConstraintId): sliderConstraint.SliderConstraint | undefined {
+    if (getConstraintIdType(id) !== ConstraintType.SLIDER) return undefined;
+    return sliderConstraint.get(world, id);
+}
+
+const _updateRackSlider_rackAxis = /* @__PURE__ */ vec3.create();
+const _updateRackSlider_sliderAxis = /* @__PURE__ */ vec3.create();
+
+/** look up the slider of a rack and copy the parts needed to measure the translation of the rack */
+function updateRackSlider(world: World, rackSlider: RackSlider, rackBodyIndex: number, localSpaceRackAxis: Vec3): void {
+    rackSlider.bodyIndexA = -1;
+    if (rackSlider.sliderConstraintId === INVALID_CONSTRAINT_ID) return;
+
+    const slider = getSlider(world, rackSlider.sliderConstraintId);
+    if (!slider) {
+        throw new Error('Slider constraint not found, it must not be removed before the constraints using it');
+    }
+
+    // the slider position is the translation of body b relative to body a
+    let sign: number;
+    if (slider.bodyIndexB === rackBodyIndex) {
+        sign = 1;
+    } else if (slider.bodyIndexA === rackBodyIndex) {
+        sign = -1;
+    } else {
+        return;
+    }
+
+    // flip the sign if the slider axis points the other way than the rack axis
+    const bodies = world.bodies;
+    const rackBody = bodies.pool[rackBodyIndex];
+    const sliderBodyA = bodies.pool[slider.bodyIndexA];
+    vec3.transformQuat(_updateRackSlider_rackAxis, localSpaceRackAxis, rackBody.quaternion);
+    vec3.transformQuat(_updateRackSlider_sliderAxis, slider.localSpaceSliderAxisA, sliderBodyA.quaternion);
+    if (vec3.dot(_updateRackSlider_rackAxis, _updateRackSlider_sliderAxis) < 0) {
+        sign = -sign;
+    }
+
+    rackSlider.bodyIndexA = slider.bodyIndexA;
+    rackSlider.bodyIndexB = slider.bodyIndexB;
+    vec3.copy(rackSlider.localSpacePositionA, slider.localSpacePositionA);
+    vec3.copy(rackSlider.localSpacePositionB, slider.localSpacePositionB);
+    vec3.copy(rackSlider.localSpaceSliderAxisA, slider.localSpaceSliderAxisA);
+    rackSlider.sign = sign;
+}
+
+const _getRackTranslation_r1 = /* @__PURE__ */ vec3.create();
+const _getRackTranslation_r2 = /* @__PURE__ */ vec3.create();
+const _getRackTranslation_u = /* @__PURE__ */ vec3.create();
+const _getRackTranslation_sliderAxis = /* @__PURE__ */ vec3.create();
+
+/** get the translation of a rack along its axis as measured by its slider */
+function getRackTranslation(rackSlider: RackSlider, bodies: Bodies): number {
+    const sliderBodyA = bodies.pool[rackSlider.bodyIndexA];
+    const sliderBodyB = bodies.pool[rackSlider.bodyIndexB];
+
+    // u = x2 + r2 - x1 - r1
+    vec3.transformQuat(_getRackTranslation_r1, rackSlider.localSpacePositionA, sliderBodyA.quaternion);
+    vec3.transformQuat(_getRackTranslation_r2, rackSlider.localSpacePositionB, sliderBodyB.quaternion);
+    vec3.subtract(_getRackTranslation_u, sliderBodyB.centerOfMassPosition, sliderBodyA.centerOfMassPosition);
+    vec3.add(_getRackTranslation_u, _getRackTranslation_u, _getRackTranslation_r2);
+    vec3.subtract(_getRackTranslation_u, _getRackTranslation_u, _getRackTranslation_r1);
+
+    // d = u · sliderAxis
+    vec3.transformQuat(_getRackTranslation_sliderAxis, rackSlider.localSpaceSliderAxisA, sliderBodyA.quaternion);
+    return rackSlider.sign * vec3.dot(_getRackTranslation_u, _getRackTranslation_sliderAxis);
+}
+
+/** refresh the hinge and slider, they are looked up by id as the solver has no access to other constraints */
+function preStep(world: World, constraint: RackAndPinionConstraint, _deltaTime: number): void {
+    updateGearHinge(world, constraint.hinge, constraint.bodyIndexA, constraint.localSpaceHingeAxisA);
+    updateRackSlider(world, constraint.slider, constraint.bodyIndexB, constraint.localSpaceSliderAxisB);
+}
+
+/** replace the ids of the hinge and slider constraints, e.g. after deserializing a world */
+function remapConstraintIds(constraint: RackAndPinionConstraint, remap: (id: ConstraintId) => ConstraintId): void {
+    constraint.hinge.hingeConstraintId = remap(constraint.hinge.hingeConstraintId);
+    constraint.slider.sliderConstraintId = remap(constraint.slider.sliderConstraintId);
+}
+
+/** calculate the world space axes and constraint properties */
+function calculateConstraintProperties(constraint: RackAndPinionConstraint, bodies: Bodies): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+
+    vec3.transformQuat(constraint.worldSpaceHingeAxisA, constraint.localSpaceHingeAxisA, bodyA.quaternion);
+    vec3.transformQuat(constraint.worldSpaceSliderAxisB, constraint.localSpaceSliderAxisB, bodyB.quaternion);
+
+    rackAndPinionConstraintPart.calculateConstraintProperties(
+        constraint.rackAndPinionConstraintPart,
+        bodyA,
+        bodyB,
+        constraint.worldSpaceHingeAxisA,
+        constraint.worldSpaceSliderAxisB,
+        constraint.ratio,
+    );
+}
+
+function setupVelocity(constraint: RackAndPinionConstraint, bodies: Bodies, _deltaTime: number): void {
+    calculateConstraintProperties(constraint, bodies);
+}
+
+function warmStartVelocity(constraint: RackAndPinionConstraint, bodies: Bodies, warmStartImpulseRatio: number): void {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    rackAndPinionConstraintPart.warmStart(constraint.rackAndPinionConstraintPart, bodyA, bodyB, warmStartImpulseRatio);
+}
+
+function solveVelocity(constraint: RackAndPinionConstraint, bodies: Bodies, _deltaTime: number): boolean {
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    return rackAndPinionConstraintPart.solveVelocityConstraint(
+        constraint.rackAndPinionConstraintPart,
+        bodyA,
+        bodyB,
+        constraint.worldSpaceHingeAxisA,
+        constraint.worldSpaceSliderAxisB,
+        constraint.ratio,
+    );
+}
+
+function solvePosition(
+    constraint: RackAndPinionConstraint,
+    bodies: Bodies,
+    _deltaTime: number,
+    baumgarteFactor: number,
+): boolean {
+    // drift can only be corrected when both the rotation of the pinion and the translation of the rack are known
+    if (constraint.hinge.bodyIndexA === -1 || constraint.slider.bodyIndexA === -1) return false;
+
+    // the hinge angle is only known modulo 2 pi, so a full turn of the pinion is not an error
+    const rotation = getGearRotation(constraint.hinge, bodies);
+    const translation = getRackTranslation(constraint.slider, bodies);
+    const error = hingeConstraint.centerAngleAroundZero((rotation - constraint.ratio * translation) % (2 * Math.PI));
+    if (error === 0) return false;
+
+    const bodyA = bodies.pool[constraint.bodyIndexA];
+    const bodyB = bodies.pool[constraint.bodyIndexB];
+    calculateConstraintProperties(constraint, bodies);
+    return rackAndPinionConstraintPart.solvePositionConstraint(
+        constraint.rackAndPinionConstraintPart,
+        bodyA,
+        bodyB,
+        error,
+        baumgarteFactor,
+    );
+}
+
+function resetWarmStart(constraint: RackAndPinionConstraint): void {
+    rackAndPinionConstraintPart.deactivate(constraint.rackAndPinionConstraintPart);
+}
+
+function saveState(constraint: RackAndPinionConstraint, recorder: StateRecorder): void {
+    rackAndPinionConstraintPart.saveState(constraint.rackAndPinionConstraintPart, recorder);
+}
+
+function restoreState(constraint: RackAndPinionConstraint, recorder: StateRecorder): void {
+    rackAndPinionConstraintPart.restoreState(constraint.rackAndPinionConstraintPart, recorder);
+}
+
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: RackAndPinionConstraint): void {
+    out.position = 0;
+    out.rotation = Math.abs(constraint.rackAndPinionConstraintPart.totalLambda);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: RackAndPinionConstraint): void {
+    zeroConstraintImpulses(out);
+    rackAndPinionConstraintPart.addTotalImpulses(
+        out,
+        constraint.rackAndPinionConstraintPart,
+        constraint.worldSpaceHingeAxisA,
+        constraint.worldSpaceSliderAxisB,
+        constraint.ratio,
+    );
+}
+
+/** the constraint definition for rack and pinion constraint */
+export const def = /* @__PURE__ */ (() =>
+    defineConstraint<RackAndPinionConstraint>({
+        type: ConstraintType.RACK_AND_PINION,
+        setupVelocity,
+        warmStartVelocity,
+        solveVelocity,
+        solvePosition,
+        resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
+        preStep,
+        remapConstraintIds,
+        getIterationOverrides: (out, constraint) => {
+            out.velocity = constraint.numVelocityStepsOverride;
+            out.position = constraint.numPositionStepsOverride;
+        },
+        getSortFields: (out, constraint) => {
+            out.priority = constraint.constraintPriority;
+            out.index = constraint.index;
+        },
+    }))();
@@ -4,6 +4,8 @@ import type { Bodies } from '../body/bodies';
 import { type BodyId, getBodyIdIndex } from '../body/body-id';
 import { getInverseInertiaForRotation } from '../body/motion-properties';
 import { MotionType } from '../body/motion-type';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import { MotorState } from './constraint-part/motor-settings';
@@ -28,7 +30,14 @@ import type { SpringSettings } from './constraint-part/spring-settings';
 import * as springSettings from './constraint-part/spring-settings';
 import type { SwingTwistConstraintPart } from './constraint-part/swing-twist-constraint-part';
 import * as swingTwistConstraintPart from './constraint-part/swing-twist-constraint-part';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 import { getSwingTwist, SwingType } from './constraint-part/swing-twist-constraint-part';
 
 const _twist_temp = /* @__PURE__ */ quat.create();
@@ -99,6 +108,10 @@ export type SixDOFConstraint = ConstraintBase & {
     translationAxis: [Vec3, Vec3, Vec3];
     rotationAxis: [Vec3, Vec3, Vec3];
     displacement: [number, number, number];
+    /** moment arm from body a's center of mass to the constraint point on body b, used by the translation axes */
+    r1PlusU: Vec3;
+    /** moment arm from body b's center of mass to the constraint point on body b, used by the translation axes */
+    r2: Vec3;
     freeAxis: number; // bitmask
     fixedAxis: number; // bitmask
     translationMotorActive: boolean;
@@ -146,6 +159,8 @@ function makeSixDOFConstraint(): SixDOFConstraint {
         translationAxis: [vec3.create(), vec3.create(), vec3.create()],
         rotationAxis: [vec3.create(), vec3.create(), vec3.create()],
         displacement: [0, 0, 0],
+        r1PlusU: vec3.create(),
+        r2: vec3.create(),
         freeAxis: 0,
         fixedAxis: 0,
         translationMotorActive: false,
@@ -206,6 +221,10 @@ export type SixDOFConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 // Helper functions
@@ -361,6 +380,8 @@ export function create(world: World, settings: SixDOFConstraintSettings): SixDOF
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
     constraint.bodyIndexB = getBodyIdIndex(settings.bodyIdB);
@@ -599,7 +620,7 @@ function setupVelocity(constraint: SixDOFConstraint, bodies: Bodies, deltaTime:
             constraint.localSpacePosition2,
         );
     } else if (isTranslationConstrained(constraint) || constraint.translationMotorActive) {
-        getPositionConstraintProperties(constraint, bodies, _setup_r1PlusU, _setup_r2, _setup_u);
+        getPositionConstraintProperties(constraint, bodies, constraint.r1PlusU, constraint.r2, _setup_u);
 
         for (let i = 0; i < 3; i++) {
             const axis = i as SixDOFAxis;
@@ -652,8 +673,8 @@ function setupVelocity(constraint: SixDOFConstraint, bodies: Bodies, deltaTime:
                         invMassB,
                         invInertiaA,
                         invInertiaB,
-                        _setup_r1PlusU,
-                        _setup_r2,
+                        constraint.r1PlusU,
+                        constraint.r2,
                         translationAxis,
                         0,
                         constraintValue,
@@ -668,8 +689,8 @@ function setupVelocity(constraint: SixDOFConstraint, bodies: Bodies, deltaTime:
                         invMassB,
                         invInertiaA,
                         invInertiaB,
-                        _setup_r1PlusU,
-                        _setup_r2,
+                        constraint.r1PlusU,
+                        constraint.r2,
                         translationAxis,
                         0,
                     );
@@ -690,8 +711,8 @@ function setupVelocity(constraint: SixDOFConstraint, bodies: Bodies, deltaTime:
                             invMassB,
                             invInertiaA,
                             invInertiaB,
-                            _setup_r1PlusU,
-                            _setup_r2,
+                            constraint.r1PlusU,
+                            constraint.r2,
                             translationAxis,
                             0,
                         );
@@ -708,8 +729,8 @@ function setupVelocity(constraint: SixDOFConstraint, bodies: Bodies, deltaTime:
                         invMassB,
                         invInertiaA,
                         invInertiaB,
-                        _setup_r1PlusU,
-                        _setup_r2,
+                        constraint.r1PlusU,
+                        constraint.r2,
                         translationAxis,
                         -constraint.targetVelocity[i],
                     );
@@ -725,8 +746,8 @@ function setupVelocity(constraint: SixDOFConstraint, bodies: Bodies, deltaTime:
                             invMassB,
                             invInertiaA,
                             invInertiaB,
-                            _setup_r1PlusU,
-                            _setup_r2,
+                            constraint.r1PlusU,
+                            constraint.r2,
                             translationAxis,
                             0,
                             vec3.dot(translationAxis, _setup_u) - constraint.targetPosition[i],
@@ -963,6 +984,52 @@ function resetWarmStart(constraint: SixDOFConstraint): void {
     }
 }
 
+function saveState(constraint: SixDOFConstraint, recorder: StateRecorder): void {
+    for (let i = 0; i < 3; i++) {
+        axisConstraintPart.saveState(constraint.translationConstraintPart[i], recorder);
+    }
+    pointConstraintPart.saveState(constraint.pointConstraintPart, recorder);
+    swingTwistConstraintPart.saveState(constraint.swingTwistConstraintPart, recorder);
+    rotationEulerConstraintPart.saveState(constraint.rotationConstraintPart, recorder);
+    for (let i = 0; i < 3; i++) {
+        axisConstraintPart.saveState(constraint.motorTranslationConstraintPart[i], recorder);
+    }
+    for (let i = 0; i < 3; i++) {
+        angleConstraintPart.saveState(constraint.motorRotationConstraintPart[i], recorder);
+    }
+
+    for (let i = 0; i < 6; i++) {
+        stateRecorder.writeInt32(recorder, constraint.motorState[i]);
+    }
+    stateRecorder.writeVec3(recorder, constraint.targetVelocity);
+    stateRecorder.writeVec3(recorder, constraint.targetAngularVelocity);
+    stateRecorder.writeVec3(recorder, constraint.targetPosition);
+    stateRecorder.writeQuat(recorder, constraint.targetOrientation);
+}
+
+function restoreState(constraint: SixDOFConstraint, recorder: StateRecorder): void {
+    for (let i = 0; i < 3; i++) {
+        axisConstraintPart.restoreState(constraint.translationConstraintPart[i], recorder);
+    }
+    pointConstraintPart.restoreState(constraint.pointConstraintPart, recorder);
+    swingTwistConstraintPart.restoreState(constraint.swingTwistConstraintPart, recorder);
+    rotationEulerConstraintPart.restoreState(constraint.rotationConstraintPart, recorder);
+    for (let i = 0; i < 3; i++) {
+        axisConstraintPart.restoreState(constraint.motorTranslationConstraintPart[i], recorder);
+    }
+    for (let i = 0; i < 3; i++) {
+        angleConstraintPart.restoreState(constraint.motorRotationConstraintPart[i], recorder);
+    }
+
+    for (let i = 0; i < 6; i++) {
+        constraint.motorState[i] = stateRecorder.readInt32(recorder) as MotorState;
+    }
+    stateRecorder.readVec3(constraint.targetVelocity, recorder);
+    stateRecorder.readVec3(constraint.targetAngularVelocity, recorder);
+    stateRecorder.readVec3(constraint.targetPosition, recorder);
+    stateRecorder.readQuat(constraint.targetOrientation, recorder);
+}
+
 function solveVelocity(constraint: SixDOFConstraint, bodies: Bodies, deltaTime: number): boolean {
     const bodyA = bodies.pool[constraint.bodyIndexA];
     const bodyB = bodies.pool[constraint.bodyIndexB];
@@ -1297,6 +1364,18 @@ export function setTargetOrientationCS(constraint: SixDOFConstraint, orientation
     quat.multiply(constraint.targetOrientation, _setup_qSwing, _setup_qTwist);
 }
 
+const _setTargetOrientationBS_temp = /* @__PURE__ */ quat.create();
+const _setTargetOrientationBS_c1Conj = /* @__PURE__ */ quat.create();
+
+/** Set target orientation for rotation motors in body space (R2 = R1 * inOrientation) */
+export function setTargetOrientationBS(constraint: SixDOFConstraint, orientation: Quat): void {
+    // convert from body space to constraint space
+    quat.conjugate(_setTargetOrientationBS_c1Conj, constraint.constraintToBody1);
+    quat.multiply(_setTargetOrientationBS_temp, _setTargetOrientationBS_c1Conj, orientation);
+    quat.multiply(_setTargetOrientationBS_temp, _setTargetOrientationBS_temp, constraint.constraintToBody2);
+    setTargetOrientationCS(constraint, _setTargetOrientationBS_temp);
+}
+
 /** Set max friction for an axis */
 export function setMaxFriction(constraint: SixDOFConstraint, axis: number, friction: number): void {
     constraint.maxFriction[axis] = friction;
@@ -1327,6 +1406,65 @@ export function setLimitedAxis(constraint: SixDOFConstraint, axis: number, min:
     updateFixedFreeAxis(constraint);
 }
 
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: SixDOFConstraint): void {
+    // limits and motors of a translation axis act along the same axis
+    let positionSq = vec3.squaredLength(constraint.pointConstraintPart.totalLambda);
+    for (let i = 0; i < 3; i++) {
+        positionSq +=
+            (constraint.translationConstraintPart[i].totalLambda + constraint.motorTranslationConstraintPart[i].totalLambda) ** 2;
+    }
+
+    // the limit and motor axes of the rotation are not exactly perpendicular, so this is an approximation
+    const limits = constraint.swingTwistConstraintPart;
+    let rotationSq =
+        vec3.squaredLength(constraint.rotationConstraintPart.totalLambda) +
+        limits.twistLimitConstraintPart.totalLambda ** 2 +
+        limits.swingLimitYConstraintPart.totalLambda ** 2 +
+        limits.swingLimitZConstraintPart.totalLambda ** 2;
+    for (const part of constraint.motorRotationConstraintPart) {
+        rotationSq += part.totalLambda ** 2;
+    }
+
+    out.position = Math.sqrt(positionSq);
+    out.rotation = Math.sqrt(rotationSq);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: SixDOFConstraint): void {
+    zeroConstraintImpulses(out);
+    // only the parts solved by solveVelocity carry an impulse
+    if (constraint.translationMotorActive) {
+        for (let i = 0; i < 3; i++) {
+            const axis = constraint.translationAxis[i];
+            const part = constraint.motorTranslationConstraintPart[i];
+            axisConstraintPart.addTotalImpulses(out, part, constraint.r1PlusU, constraint.r2, axis, axis);
+        }
+    }
+
+    if (constraint.rotationMotorActive) {
+        for (let i = 0; i < 3; i++) {
+            const axis = constraint.rotationAxis[i];
+            angleConstraintPart.addTotalImpulses(out, constraint.motorRotationConstraintPart[i], axis, axis);
+        }
+    }
+
+    if (isRotationFullyConstrained(constraint)) {
+        rotationEulerConstraintPart.addTotalImpulses(out, constraint.rotationConstraintPart);
+    } else if (isRotationConstrained(constraint)) {
+        swingTwistConstraintPart.addTotalImpulses(out, constraint.swingTwistConstraintPart);
+    }
+
+    if (isTranslationFullyConstrained(constraint)) {
+        pointConstraintPart.addTotalImpulses(out, constraint.pointConstraintPart);
+    } else if (isTranslationConstrained(constraint)) {
+        for (let i = 0; i < 3; i++) {
+            const axis = constraint.translationAxis[i];
+            const part = constraint.translationConstraintPart[i];
+            axisConstraintPart.addTotalImpulses(out, part, constraint.r1PlusU, constraint.r2, axis, axis);
+        }
+    }
+}
+
 /** the constraint definition for six-dof constraint */
 export const def = /* @__PURE__ */ (() =>
     defineConstraint<SixDOFConstraint>({
@@ -1336,6 +1474,10 @@ export const def = /* @__PURE__ */ (() =>
         solveVelocity,
         solvePosition,
         resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
         getIterationOverrides: (out, constraint) => {
             out.velocity = constraint.numVelocityStepsOverride;
             out.position = constraint.numPositionStepsOverride;
@@ -5,6 +5,8 @@ import { type BodyId, getBodyIdIndex } from '../body/body-id';
 import { getInverseInertiaForRotation } from '../body/motion-properties';
 import { MotionType } from '../body/motion-type';
 import type { RigidBody } from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import {
@@ -27,7 +29,14 @@ import type { RotationEulerConstraintPart } from './constraint-part/rotation-eul
 import * as rotationEulerConstraintPart from './constraint-part/rotation-euler-constraint-part';
 import type { SpringSettings } from './constraint-part/spring-settings';
 import * as springSettings from './constraint-part/spring-settings';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 
 /**
  * Slider constraint (prismatic) removes 5 DOF (2 translation perpendicular to slider + 3 rotation).
@@ -189,6 +198,10 @@ export type SliderConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 const _getInvInitialOrientationXY_z1 = /* @__PURE__ */ vec3.create();
@@ -290,6 +303,8 @@ export function create(world: World, settings: SliderConstraintSettings): Slider
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     // set body indices
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
@@ -1044,6 +1059,28 @@ function resetWarmStart(constraint: SliderConstraint): void {
     axisConstraintPart.deactivate(constraint.motorConstraintPart);
 }
 
+function saveState(constraint: SliderConstraint, recorder: StateRecorder): void {
+    dualAxisConstraintPart.saveState(constraint.positionConstraintPart, recorder);
+    rotationEulerConstraintPart.saveState(constraint.rotationConstraintPart, recorder);
+    axisConstraintPart.saveState(constraint.positionLimitsConstraintPart, recorder);
+    axisConstraintPart.saveState(constraint.motorConstraintPart, recorder);
+
+    stateRecorder.writeInt32(recorder, constraint.motorState);
+    stateRecorder.writeFloat64(recorder, constraint.targetVelocity);
+    stateRecorder.writeFloat64(recorder, constraint.targetPosition);
+}
+
+function restoreState(constraint: SliderConstraint, recorder: StateRecorder): void {
+    dualAxisConstraintPart.restoreState(constraint.positionConstraintPart, recorder);
+    rotationEulerConstraintPart.restoreState(constraint.rotationConstraintPart, recorder);
+    axisConstraintPart.restoreState(constraint.positionLimitsConstraintPart, recorder);
+    axisConstraintPart.restoreState(constraint.motorConstraintPart, recorder);
+
+    constraint.motorState = stateRecorder.readInt32(recorder) as MotorState;
+    constraint.targetVelocity = stateRecorder.readFloat64(recorder);
+    constraint.targetPosition = stateRecorder.readFloat64(recorder);
+}
+
 /** Get total lambda for position constraint */
 export function getTotalLambdaPosition(out: Vec2, constraint: SliderConstraint): Vec2 {
     out[0] = constraint.positionConstraintPart.totalLambda[0];
@@ -1069,6 +1106,32 @@ export function getTotalLambdaMotor(constraint: SliderConstraint): number {
     return axisConstraintPart.getTotalLambdaValue(constraint.motorConstraintPart);
 }
 
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: SliderConstraint): void {
+    // the limits and the motor act along the slider axis, perpendicular to the position constraint
+    const position = constraint.positionConstraintPart.totalLambda;
+    const slider = constraint.positionLimitsConstraintPart.totalLambda + constraint.motorConstraintPart.totalLambda;
+    out.position = Math.sqrt(position[0] * position[0] + position[1] * position[1] + slider * slider);
+    out.rotation = vec3.length(constraint.rotationConstraintPart.totalLambda);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: SliderConstraint): void {
+    zeroConstraintImpulses(out);
+    const r1PlusU = vec3.add(_sliderConstraint_r1PlusU, constraint.r1, constraint.u);
+    const axis = constraint.worldSpaceSliderAxis;
+    dualAxisConstraintPart.addTotalImpulses(
+        out,
+        constraint.positionConstraintPart,
+        r1PlusU,
+        constraint.r2,
+        constraint.n1,
+        constraint.n2,
+    );
+    axisConstraintPart.addTotalImpulses(out, constraint.positionLimitsConstraintPart, r1PlusU, constraint.r2, axis, axis);
+    axisConstraintPart.addTotalImpulses(out, constraint.motorConstraintPart, r1PlusU, constraint.r2, axis, axis);
+    rotationEulerConstraintPart.addTotalImpulses(out, constraint.rotationConstraintPart);
+}
+
 /** the constraint definition for slider constraint */
 export const def = /* @__PURE__ */ (() =>
     defineConstraint<SliderConstraint>({
@@ -1078,6 +1141,10 @@ export const def = /* @__PURE__ */ (() =>
         solveVelocity,
         solvePosition,
         resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
         getIterationOverrides: (out, constraint) => {
             out.velocity = constraint.numVelocityStepsOverride;
             out.position = constraint.numPositionStepsOverride;
@@ -2,6 +2,8 @@ import type { Quat, Vec3 } from 'mathcat';
 import { mat3, mat4, quat, vec3 } from 'mathcat';
 import type { Bodies } from '../body/bodies';
 import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
 import type { World } from '../world';
 import { type ConstraintBase, ConstraintSpace, makeConstraintBase, removeConstraintIdFromBody } from './constraints';
 import { MotorState } from './constraint-part/motor-settings';
@@ -23,7 +25,14 @@ import * as pointConstraintPart from './constraint-part/point-constraint-part';
 import type { SwingTwistConstraintPart } from './constraint-part/swing-twist-constraint-part';
 import * as swingTwistConstraintPart from './constraint-part/swing-twist-constraint-part';
 import { clampSwingTwist, getSwingTwist, SwingType } from './constraint-part/swing-twist-constraint-part';
-import { type ConstraintPool, defineConstraint, ensurePool } from './constraints';
+import {
+    type ConstraintImpulses,
+    type ConstraintPool,
+    type ConstraintTotalLambda,
+    defineConstraint,
+    ensurePool,
+    zeroConstraintImpulses,
+} from './constraints';
 
 /**
  * SwingTwistConstraint is a sophisticated constraint for humanoid ragdoll joints.
@@ -157,6 +166,10 @@ export type SwingTwistConstraintSettings = {
     numVelocityStepsOverride?: number;
     /** override number of position solver iterations (0 = use default) @default 0 */
     numPositionStepsOverride?: number;
+    /** force at which the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
 };
 
 /** reset constraint state for pooling reuse - not exported */
@@ -209,6 +222,8 @@ export function create(world: World, settings: SwingTwistConstraintSettings): Sw
     constraint.constraintPriority = settings.constraintPriority ?? 0;
     constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
     constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
 
     // extract body indices
     constraint.bodyIndexA = getBodyIdIndex(settings.bodyIdA);
@@ -797,6 +812,32 @@ function resetWarmStart(constraint: SwingTwistConstraint): void {
     pointConstraintPart.deactivate(constraint.pointConstraintPart);
 }
 
+function saveState(constraint: SwingTwistConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.saveState(constraint.pointConstraintPart, recorder);
+    swingTwistConstraintPart.saveState(constraint.swingTwistConstraintPart, recorder);
+    for (const part of constraint.motorConstraintParts) {
+        angleConstraintPart.saveState(part, recorder);
+    }
+
+    stateRecorder.writeInt32(recorder, constraint.swingMotorState);
+    stateRecorder.writeInt32(recorder, constraint.twistMotorState);
+    stateRecorder.writeVec3(recorder, constraint.targetAngularVelocity);
+    stateRecorder.writeQuat(recorder, constraint.targetOrientation);
+}
+
+function restoreState(constraint: SwingTwistConstraint, recorder: StateRecorder): void {
+    pointConstraintPart.restoreState(constraint.pointConstraintPart, recorder);
+    swingTwistConstraintPart.restoreState(constraint.swingTwistConstraintPart, recorder);
+    for (const part of constraint.motorConstraintParts) {
+        angleConstraintPart.restoreState(part, recorder);
+    }
+
+    constraint.swingMotorState = stateRecorder.readInt32(recorder) as MotorState;
+    constraint.twistMotorState = stateRecorder.readInt32(recorder) as MotorState;
+    stateRecorder.readVec3(constraint.targetAngularVelocity, recorder);
+    stateRecorder.readQuat(constraint.targetOrientation, recorder);
+}
+
 /** Get total lambda for position constraint */
 export function getTotalLambdaPosition(out: Vec3, constraint: SwingTwistConstraint): Vec3 {
     out[0] = constraint.pointConstraintPart.totalLambda[0];
@@ -828,6 +869,31 @@ export function getTotalLambdaMotor(out: Vec3, constraint: SwingTwistConstraint)
     return out;
 }
 
+/** get the combined impulse the constraint parts applied in the last step, used to break the constraint */
+function getCombinedTotalLambda(out: ConstraintTotalLambda, constraint: SwingTwistConstraint): void {
+    // the limit and motor axes are not exactly perpendicular, so this is an approximation
+    const limits = constraint.swingTwistConstraintPart;
+    let rotationSq =
+        limits.twistLimitConstraintPart.totalLambda ** 2 +
+        limits.swingLimitYConstraintPart.totalLambda ** 2 +
+        limits.swingLimitZConstraintPart.totalLambda ** 2;
+    for (const part of constraint.motorConstraintParts) {
+        rotationSq += part.totalLambda ** 2;
+    }
+    out.position = vec3.length(constraint.pointConstraintPart.totalLambda);
+    out.rotation = Math.sqrt(rotationSq);
+}
+
+function getTotalImpulses(out: ConstraintImpulses, constraint: SwingTwistConstraint): void {
+    zeroConstraintImpulses(out);
+    pointConstraintPart.addTotalImpulses(out, constraint.pointConstraintPart);
+    swingTwistConstraintPart.addTotalImpulses(out, constraint.swingTwistConstraintPart);
+    for (let i = 0; i < 3; i++) {
+        const axis = constraint.worldSpaceMotorAxis[i];
+        angleConstraintPart.addTotalImpulses(out, constraint.motorConstraintParts[i], axis, axis);
+    }
+}
+
 /** the constraint definition for swing-twist constraint */
 export const def = /* @__PURE__ */ (() =>
     defineConstraint<SwingTwistConstraint>({
@@ -837,6 +903,10 @@ export const def = /* @__PURE__ */ (() =>
         solveVelocity,
         solvePosition,
         resetWarmStart,
+        saveState,
+        restoreState,
+        getTotalLambda: getCombinedTotalLambda,
+        getTotalImpulses,
         getIterationOverrides: (out, constraint) => {
             out.velocity = constraint.numVelocityStepsOverride;
             out.position = constraint.numPositionStepsOverride;
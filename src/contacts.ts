@@ -4,6 +4,8 @@ import type { Bodies } from './body/bodies';
 import { getBodyIdIndex } from './body/body-id';
 import { EMPTY_SUB_SHAPE_ID } from './body/sub-shape';
 import type { Listener } from './listener';
+import type { StateRecorder } from './utils/state-recorder';
+import * as stateRecorder from './utils/state-recorder';
 
 /** contacts state */
 export type Contacts = {
@@ -551,3 +553,107 @@ export function destroyUnprocessedContacts(contacts: Contacts, bodies: Bodies, l
         }
     }
 }
+
+/**
+ * Save the contact cache (contact points, cached impulses and per-body linked list edges) for world state snapshots.
+ * Bodies' headContactKey and contactCount are saved separately with the body state.
+ */
+export function saveState(contacts: Contacts, recorder: StateRecorder): void {
+    stateRecorder.writeInt32(recorder, contacts.contacts.length);
+
+    for (const contact of contacts.contacts) {
+        stateRecorder.writeInt32(recorder, contact.contactIndex);
+
+        // freed contacts only need their free marker
+        if (contact.contactIndex === -1) continue;
+
+        stateRecorder.writeFloat64(recorder, contact.bodyIdA);
+        stateRecorder.writeInt32(recorder, contact.bodyIndexA);
+        stateRecorder.writeFloat64(recorder, contact.bodyIdB);
+        stateRecorder.writeInt32(recorder, contact.bodyIndexB);
+        stateRecorder.writeFloat64(recorder, contact.subShapeIdA);
+        stateRecorder.writeFloat64(recorder, contact.subShapeIdB);
+        stateRecorder.writeVec3(recorder, contact.contactNormal);
+        stateRecorder.writeInt32(recorder, contact.flags);
+
+        stateRecorder.writeInt32(recorder, contact.numContactPoints);
+        for (let i = 0; i < contact.numContactPoints; i++) {
+            const point = contact.contactPoints[i];
+            stateRecorder.writeVec3(recorder, point.position1);
+            stateRecorder.writeVec3(recorder, point.position2);
+            stateRecorder.writeFloat64(recorder, point.normalLambda);
+            stateRecorder.writeFloat64(recorder, point.frictionLambda1);
+            stateRecorder.writeFloat64(recorder, point.frictionLambda2);
+        }
+
+        for (const edge of contact.edges) {
+            stateRecorder.writeInt32(recorder, edge.bodyIndex);
+            stateRecorder.writeInt32(recorder, edge.prevKey);
+            stateRecorder.writeInt32(recorder, edge.nextKey);
+        }
+    }
+
+    stateRecorder.writeInt32(recorder, contacts.contactsFreeIndices.length);
+    for (const index of contacts.contactsFreeIndices) {
+        stateRecorder.writeInt32(recorder, index);
+    }
+}
+
+/** Restore the contact cache written by saveState. */
+export function restoreState(contacts: Contacts, recorder: StateRecorder): void {
+    const numContacts = stateRecorder.readInt32(recorder);
+
+    // grow or shrink the pool to match the saved pool
+    while (contacts.contacts.length < numContacts) {
+        contacts.contacts.push(createEmptyContact());
+    }
+    contacts.contacts.length = numContacts;
+
+    for (const contact of contacts.contacts) {
+        const contactIndex = stateRecorder.readInt32(recorder);
+
+        if (contactIndex === -1) {
+            contact.contactIndex = -1;
+            contact.numContactPoints = 0;
+            for (const edge of contact.edges) {
+                edge.bodyIndex = -1;
+                edge.prevKey = INVALID_CONTACT_KEY;
+                edge.nextKey = INVALID_CONTACT_KEY;
+            }
+            continue;
+        }
+
+        contact.contactIndex = contactIndex;
+        contact.bodyIdA = stateRecorder.readFloat64(recorder);
+        contact.bodyIndexA = stateRecorder.readInt32(recorder);
+        contact.bodyIdB = stateRecorder.readFloat64(recorder);
+        contact.bodyIndexB = stateRecorder.readInt32(recorder);
+        contact.subShapeIdA = stateRecorder.readFloat64(recorder);
+        contact.subShapeIdB = stateRecorder.readFloat64(recorder);
+        stateRecorder.readVec3(contact.contactNormal, recorder);
+        contact.flags = stateRecorder.readInt32(recorder);
+        contact.processedThisFrame = false;
+
+        contact.numContactPoints = stateRecorder.readInt32(recorder);
+        for (let i = 0; i < contact.numContactPoints; i++) {
+            const point = contact.contactPoints[i];
+            stateRecorder.readVec3(point.position1, recorder);
+            stateRecorder.readVec3(point.position2, recorder);
+            point.normalLambda = stateRecorder.readFloat64(recorder);
+            point.frictionLambda1 = stateRecorder.readFloat64(recorder);
+            point.frictionLambda2 = stateRecorder.readFloat64(recorder);
+        }
+
+        for (const edge of contact.edges) {
+            edge.bodyIndex = stateRecorder.readInt32(recorder);
+            edge.prevKey = stateRecorder.readInt32(recorder);
+            edge.nextKey = stateRecorder.readInt32(recorder);
+        }
+    }
+
+    const numFreeIndices = stateRecorder.readInt32(recorder);
+    contacts.contactsFreeIndices.length = numFreeIndices;
+    for (let i = 0; i < numFreeIndices; i++) {
+        contacts.contactsFreeIndices[i] = stateRecorder.readInt32(recorder);
+    }
+}
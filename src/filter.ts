@@ -155,25 +155,33 @@ export function filterBroadphaseLayer(filter: Filter, broadphaseLayer: number):
     return filter.enabledBroadphaseLayers[broadphaseLayer] === 1;
 }
 
-/** set filter to match all layers that can collide with the given body's object layer */
-export function setFromBody(filter: Filter, layers: Layers, body: RigidBody): void {
+/** set filter to match all layers that can collide with the given object layer, with full collision mask/group */
+export function setFromObjectLayer(filter: Filter, layers: Layers, objectLayer: number): void {
     // disable all layers first
     disableAllLayers(filter, layers);
 
-    // enable all object layers that can collide with this body's layer
+    // enable all object layers that can collide with this object layer
     for (let i = 0; i < layers.objectLayers; i++) {
-        if (layers.objectLayerPairs[body.objectLayer * layers.objectLayers + i] === 1) {
+        if (layers.objectLayerPairs[objectLayer * layers.objectLayers + i] === 1) {
             filter.enabledObjectLayers[i] = 1;
         }
     }
 
-    // enable all broadphase layers that this body's object layer can query
+    // enable all broadphase layers that this object layer can query
     for (let i = 0; i < layers.broadphaseLayers; i++) {
-        if (layers.objectVsBroadphase[body.objectLayer * layers.broadphaseLayers + i] === 1) {
+        if (layers.objectVsBroadphase[objectLayer * layers.broadphaseLayers + i] === 1) {
             filter.enabledBroadphaseLayers[i] = 1;
         }
     }
 
+    filter.collisionMask = ~0;
+    filter.collisionGroups = ~0;
+}
+
+/** set filter to match all layers that can collide with the given body's object layer */
+export function setFromBody(filter: Filter, layers: Layers, body: RigidBody): void {
+    setFromObjectLayer(filter, layers, body.objectLayer);
+
     // set collision group and mask from body
     filter.collisionGroups = body.collisionGroups;
     filter.collisionMask = body.collisionMask;
@@ -2,6 +2,7 @@
 
 export * from './register';
 export * from './register-all';
+export * from './systems';
 export * from './shapes/shapes';
 export * from './shapes/convex';
 export type { BoxShape, BoxShapeSettings } from './shapes/box';
@@ -12,6 +13,10 @@ export type { CompoundShape, CompoundShapeSettings } from './shapes/compound';
 export * as compound from './shapes/compound';
 export type { CylinderShape, CylinderShapeSettings } from './shapes/cylinder';
 export * as cylinder from './shapes/cylinder';
+export type { TaperedCapsuleShape, TaperedCapsuleShapeSettings } from './shapes/tapered-capsule';
+export * as taperedCapsule from './shapes/tapered-capsule';
+export type { TaperedCylinderShape, TaperedCylinderShapeSettings } from './shapes/tapered-cylinder';
+export * as taperedCylinder from './shapes/tapered-cylinder';
 export type { ConvexHullShape, ConvexHullShapeSettings } from './shapes/convex-hull';
 export * as convexHull from './shapes/convex-hull';
 export type { EmptyShape } from './shapes/empty-shape';
@@ -24,11 +29,16 @@ export type { SphereShape, SphereShapeSettings } from './shapes/sphere';
 export * as sphere from './shapes/sphere';
 export type { TransformedShape, TransformedShapeSettings } from './shapes/transformed';
 export * as transformed from './shapes/transformed';
+export type { TriangleShape, TriangleShapeSettings } from './shapes/triangle';
+export * as triangle from './shapes/triangle';
 export type { TriangleMeshShape, TriangleMeshShapeSettings } from './shapes/triangle-mesh';
 export * as triangleMesh from './shapes/triangle-mesh';
 export type { PlaneShape, PlaneShapeSettings } from './shapes/plane';
 export * as plane from './shapes/plane';
+export type { HeightFieldShape, HeightFieldShapeSettings } from './shapes/height-field';
+export * as heightField from './shapes/height-field';
 export * as convexHullBuilder from './shapes/utils/convex-hull-builder';
+export * as convexDecomposition from './shapes/utils/convex-decomposition';
 export * as triangleMeshBuilder from './shapes/utils/triangle-mesh-builder';
 export * as triangleMeshBvh from './shapes/utils/triangle-mesh-bvh';
 
@@ -67,7 +77,7 @@ export * from './constraints/combine-material';
 export type { ContactManifold } from './manifold';
 export { getWorldSpaceContactPointOnA, getWorldSpaceContactPointOnB } from './manifold/manifold';
 
-export type { ContactSettings } from './constraints/contact-constraints';
+export type { ContactSettings, SolvedContact, SolvedContactPoint } from './constraints/contact-constraints';
 export * as contactConstraints from './constraints/contact-constraints';
 
 export * as constraints from './constraints/constraints';
@@ -76,13 +86,15 @@ export type {
     Constraint,
     ConstraintIterationOverrides,
     ConstraintSortFields,
+    ConstraintTotalLambda,
+    ConstraintImpulses,
 } from './constraints/constraints';
 export { ConstraintSpace } from './constraints/constraints';
 export * as motorSettings from './constraints/constraint-part/motor-settings';
 export { type MotorSettings, MotorState } from './constraints/constraint-part/motor-settings';
 export * as springSettings from './constraints/constraint-part/spring-settings';
 export { SpringMode, type SpringSettings } from './constraints/constraint-part/spring-settings';
-export { ConstraintType } from './constraints/constraint-id';
+export { ConstraintType, INVALID_CONSTRAINT_ID } from './constraints/constraint-id';
 export type { ConeConstraint, ConeConstraintSettings } from './constraints/cone-constraint';
 export * as coneConstraint from './constraints/cone-constraint';
 export { SwingType } from './constraints/constraint-part/swing-twist-constraint-part';
@@ -90,10 +102,21 @@ export type { DistanceConstraint, DistanceConstraintSettings } from './constrain
 export * as distanceConstraint from './constraints/distance-constraint';
 export type { FixedConstraint, FixedConstraintSettings } from './constraints/fixed-constraint';
 export * as fixedConstraint from './constraints/fixed-constraint';
+export type { GearConstraint, GearConstraintSettings } from './constraints/gear-constraint';
+export * as gearConstraint from './constraints/gear-constraint';
 export type { HingeConstraint, HingeConstraintSettings } from './constraints/hinge-constraint';
 export * as hingeConstraint from './constraints/hinge-constraint';
+export type { PathConstraint, PathConstraintSettings } from './constraints/path-constraint';
+export * as pathConstraint from './constraints/path-constraint';
+export { PathRotationConstraintType } from './constraints/path-constraint';
+export type { PathConstraintPath, PathPoint } from './constraints/path-constraint-path';
+export * as pathConstraintPath from './constraints/path-constraint-path';
 export type { PointConstraint, PointConstraintSettings } from './constraints/point-constraint';
 export * as pointConstraint from './constraints/point-constraint';
+export type { PulleyConstraint, PulleyConstraintSettings } from './constraints/pulley-constraint';
+export * as pulleyConstraint from './constraints/pulley-constraint';
+export type { RackAndPinionConstraint, RackAndPinionConstraintSettings } from './constraints/rack-and-pinion-constraint';
+export * as rackAndPinionConstraint from './constraints/rack-and-pinion-constraint';
 export type { SixDOFConstraint, SixDOFConstraintSettings } from './constraints/six-dof-constraint';
 export * as sixDOFConstraint from './constraints/six-dof-constraint';
 export { SixDOFAxis } from './constraints/six-dof-constraint';
@@ -102,6 +125,67 @@ export * as sliderConstraint from './constraints/slider-constraint';
 export type { SwingTwistConstraint, SwingTwistConstraintSettings } from './constraints/swing-twist-constraint';
 export * as swingTwistConstraint from './constraints/swing-twist-constraint';
 
+export type {
+    VehicleAntiRollBar,
+    VehicleAntiRollBarSettings,
+    VehicleConstraint,
+    VehicleConstraintSettings,
+    WheelLocalBasis,
+} from './vehicle/vehicle-constraint';
+export * as vehicleConstraint from './vehicle/vehicle-constraint';
+export {
+    VehicleControllerType,
+    type VehicleController,
+    type VehicleControllerSettings,
+    type VehicleWheel,
+    type VehicleWheelSettings,
+} from './vehicle/vehicle-controller';
+export type {
+    WheeledVehicleController,
+    WheeledVehicleControllerSettings,
+    WheeledVehicleWheel,
+    WheeledVehicleWheelSettings,
+} from './vehicle/wheeled-vehicle-controller';
+export * as wheeledVehicleController from './vehicle/wheeled-vehicle-controller';
+export type {
+    TrackedVehicleController,
+    TrackedVehicleControllerSettings,
+    TrackedVehicleWheel,
+    TrackedVehicleWheelSettings,
+    VehicleTrack,
+    VehicleTrackSettings,
+} from './vehicle/tracked-vehicle-controller';
+export * as trackedVehicleController from './vehicle/tracked-vehicle-controller';
+export type { Wheel, WheelSettings } from './vehicle/wheel';
+export { VehicleCollisionTesterType, type VehicleCollisionTesterSettings } from './vehicle/vehicle-collision-tester';
+export type { VehicleEngine, VehicleEngineSettings } from './vehicle/vehicle-engine';
+export * as vehicleEngine from './vehicle/vehicle-engine';
+export {
+    TransmissionMode,
+    type VehicleTransmission,
+    type VehicleTransmissionSettings,
+} from './vehicle/vehicle-transmission';
+export * as vehicleTransmission from './vehicle/vehicle-transmission';
+export type { VehicleDifferential, VehicleDifferentialSettings } from './vehicle/vehicle-differential';
+export type { LinearCurve } from './vehicle/linear-curve';
+export * as linearCurve from './vehicle/linear-curve';
+
+export type {
+    ClothOptions,
+    CubeOptions,
+    SoftBodyEdge,
+    SoftBodySharedSettings,
+    SoftBodySharedSettingsOptions,
+    SoftBodyVertex,
+    SoftBodyVolume,
+} from './soft-body/soft-body-shared-settings';
+export * as softBodySharedSettings from './soft-body/soft-body-shared-settings';
+export type { SoftBody, SoftBodyId, SoftBodyParticle, SoftBodySettings } from './soft-body/soft-body';
+export * as softBody from './soft-body/soft-body';
+
+export type { Ragdoll, RagdollJoints, RagdollPartSettings, RagdollPose, RagdollSettings } from './ragdoll/ragdoll';
+export * as ragdoll from './ragdoll/ragdoll';
+
 export type { Contact } from './contacts';
 export * as contacts from './contacts';
 
@@ -115,7 +199,14 @@ export type { Filter } from './filter';
 export * from './listener';
 export * from './query';
 export * from './update';
+export type { Sensors } from './sensors';
+export * as sensors from './sensors';
+export type { Stepper, StepperSettings } from './stepper';
+export * as stepper from './stepper';
 export * from './world';
+export * from './world-state';
+export type { SerializedConstraint, SerializedValue, SerializedWorld } from './serialization';
+export * as serialization from './serialization';
 export * from './world-settings';
 
 export type { KCC, KCCSettings } from './character/kcc';
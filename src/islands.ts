@@ -218,6 +218,9 @@ export function linkUserConstraints(state: Islands, constraintsState: Constraint
                 // only link if at least one body is active
                 if (bodyA.activeIndex !== INACTIVE_BODY_INDEX || bodyB.activeIndex !== INACTIVE_BODY_INDEX) {
                     linkConstraint(state, bodies, constraint.id, bodyA, bodyB);
+
+                    // link any additional bodies the constraint acts on
+                    constraints.constraintDefs[pool.type]?.linkIslands?.(state, bodies, constraint);
                 }
             }
         }
@@ -1,7 +1,8 @@
 import type { Vec3 } from 'mathcat';
 import type { RigidBody } from './body/rigid-body';
 import type { CollideShapeHit } from './collision/collide-shape-vs-shape';
-import type { ContactSettings } from './constraints/contact-constraints';
+import type { Constraint } from './constraints/constraints';
+import type { ContactSettings, SolvedContact } from './constraints/contact-constraints';
 import type { ContactManifold } from './manifold';
 
 /**
@@ -96,4 +97,74 @@ export type Listener = {
      * @param subShapeIdB - Sub shape ID for bodyB
      */
     onContactRemoved?: (bodyIdA: number, bodyIdB: number, subShapeIdA: number, subShapeIdB: number) => void;
+
+    /**
+     * Called after the constraint solver ran, once per contact manifold that has a contact constraint (not for sensors, or
+     * contacts without a dynamic body). Reports the impulses the velocity and position solvers applied, e.g. to determine
+     * damage or the volume of an impact sound from the actual impact magnitude.
+     * Body 1 and 2 will be sorted such that body 1 ID < body 2 ID, as in onContactAdded.
+     * When updateWorld runs multiple collision steps this is called after every collision step with the impulses of that step.
+     * The solvedContact object is reused, copy what you need during the callback.
+     *
+     * @param bodyA - First body (ID < bodyB.id)
+     * @param bodyB - Second body (ID > bodyA.id)
+     * @param solvedContact - Applied impulses and world space contact points
+     */
+    onContactSolved?: (bodyA: RigidBody, bodyB: RigidBody, solvedContact: SolvedContact) => void;
+
+    /**
+     * Called at the end of a world update when a body started overlapping a sensor body.
+     * Overlaps are tracked per body, so this is called once per body, no matter how many sub shapes of the body touch the sensor.
+     * The bodies currently overlapping a sensor can be queried with sensors.getOverlappingBodyIds.
+     *
+     * @param sensor - The sensor body
+     * @param body - The body that entered the sensor, can be a sensor itself
+     */
+    onSensorEnter?: (sensor: RigidBody, body: RigidBody) => void;
+
+    /**
+     * Called at the end of a world update when a body stopped overlapping a sensor body, or when either body was removed.
+     * A body that goes to sleep inside a static sensor keeps overlapping it until it wakes up and moves out.
+     * As with onContactRemoved, the bodies may have been removed, so only body ids are passed.
+     *
+     * @param sensorBodyId - The sensor body ID
+     * @param bodyId - The ID of the body that exited the sensor
+     */
+    onSensorExit?: (sensorBodyId: number, bodyId: number) => void;
+
+    /**
+     * Called after the constraint solver ran when the impulse a constraint applied exceeded its breakForce or breakTorque.
+     * The constraint has been disabled and stays in the world. You can remove it during the callback, e.g. with
+     * constraints.removeConstraintById, or set constraint.enabled back to true to reconnect the bodies.
+     *
+     * @param constraint - The constraint that broke
+     */
+    onConstraintBroken?: (constraint: Constraint) => void;
+};
+
+/**
+ * A listener that receives events when bodies are activated or deactivated, set it on world.bodyActivationListener.
+ * A body is active when it is in the world's active bodies list, i.e. a dynamic or kinematic body that is not sleeping.
+ *
+ * Unlike the contact Listener, these callbacks can be called outside of updateWorld, e.g. when a body is created, removed, woken or
+ * has its motion type changed. The callbacks are called while the world is being modified, so you should not add, remove or wake
+ * bodies during the callbacks. Record the body ids instead and process them afterwards.
+ * Restoring a world state snapshot does not call the callbacks.
+ */
+export type BodyActivationListener = {
+    /**
+     * Called when a body is activated: when an active body is created, a sleeping body is woken, or a static body is made
+     * dynamic or kinematic.
+     *
+     * @param body - The body that was activated
+     */
+    onBodyActivated?: (body: RigidBody) => void;
+
+    /**
+     * Called when a body is deactivated: when a body goes to sleep, an active body is removed, or an active body is made static.
+     * body.sleeping is true during the callback if the body went to sleep.
+     *
+     * @param body - The body that was deactivated
+     */
+    onBodyDeactivated?: (body: RigidBody) => void;
 };
@@ -0,0 +1,397 @@
+import { type Quat, quat, type Vec3, vec3 } from 'mathcat';
+import { type BodyId, getBodyIdIndex } from '../body/body-id';
+import { MotionType } from '../body/motion-type';
+import type { RigidBodySettings } from '../body/rigid-body';
+import * as rigidBody from '../body/rigid-body';
+import { type ConstraintId, ConstraintType, getConstraintIdType, INVALID_CONSTRAINT_ID } from '../constraints/constraint-id';
+import { MotorState } from '../constraints/constraint-part/motor-settings';
+import { ConstraintSpace } from '../constraints/constraints';
+import * as sixDOFConstraint from '../constraints/six-dof-constraint';
+import { SixDOFAxis } from '../constraints/six-dof-constraint';
+import type { SwingTwistConstraintSettings } from '../constraints/swing-twist-constraint';
+import * as swingTwistConstraint from '../constraints/swing-twist-constraint';
+import type { World } from '../world';
+
+/** a bone of a ragdoll skeleton, with the body simulating it and the constraint connecting it to its parent */
+export type RagdollPartSettings = {
+    /** name of the bone, see getPartIndex */
+    name: string;
+    /** index of the parent part, -1 for a root part. parents must come before their children */
+    parentIndex: number;
+    /** position of the body in the bind pose, in model space */
+    position: Vec3;
+    /** rotation of the body in the bind pose, in model space */
+    quaternion: Quat;
+    /** settings for the body of the part, the position and rotation are taken from the bind pose */
+    body: Omit<RigidBodySettings, 'position' | 'quaternion'>;
+    /**
+     * settings for the constraint connecting the part (body b) to its parent (body a), required for all parts but roots.
+     * points and axes are in model space (bind pose), unless space is ConstraintSpace.LOCAL.
+     */
+    toParent?: Omit<SwingTwistConstraintSettings, 'bodyIdA' | 'bodyIdB'>;
+};
+
+/** settings for creating a ragdoll */
+export type RagdollSettings = {
+    /** the bones of the ragdoll, can be shared between ragdolls */
+    parts: RagdollPartSettings[];
+    /** position of the ragdoll, the bind pose is relative to this position @default [0,0,0] */
+    position?: Vec3;
+    /** rotation of the ragdoll @default [0,0,0,1] */
+    quaternion?: Quat;
+    /**
+     * disable collisions between parts connected by a constraint, by adding bits to the collisionGroups and
+     * collisionMask of the part bodies. needs one bit per part plus one for the ragdoll, out of the 32 bits that no
+     * part body sets in its collisionGroups or clears in its collisionMask, so at most 31 parts @default true
+     */
+    disableParentChildCollisions?: boolean;
+};
+
+/** a ragdoll in the world, created from RagdollSettings */
+export type Ragdoll = {
+    /** the bones of the ragdoll */
+    parts: RagdollPartSettings[];
+    /** ids of the bodies of the parts, in the order of parts */
+    bodyIds: BodyId[];
+    /** ids of the constraints connecting each part to its parent, in the order of parts, INVALID_CONSTRAINT_ID for roots */
+    constraintIds: ConstraintId[];
+};
+
+/**
+ * a skeletal pose of a ragdoll, e.g. sampled from an animation. the parts are placed in model space, the model is
+ * placed in the world by position and quaternion.
+ */
+export type RagdollPose = {
+    /** world space position of the model */
+    position: Vec3;
+    /** world space rotation of the model */
+    quaternion: Quat;
+    /** model space positions of the bodies, in the order of parts */
+    positions: Vec3[];
+    /** model space rotations of the bodies, in the order of parts */
+    quaternions: Quat[];
+};
+
+/**
+ * the bodies and constraints driven to a pose. a Ragdoll, or a set of bodies joined by hand built swing twist or six dof
+ * constraints, constraintIds[i] connecting bodyIds[i] to another body, INVALID_CONSTRAINT_ID for none.
+ */
+export type RagdollJoints = Pick<Ragdoll, 'bodyIds' | 'constraintIds'>;
+
+/** number of bits in the collision group and mask bitfields */
+const COLLISION_GROUP_BITS = 32;
+
+const _create_position = /* @__PURE__ */ vec3.create();
+const _create_quaternion = /* @__PURE__ */ quat.create();
+
+/**
+ * Creates the bodies and constraints of a ragdoll in its bind pose.
+ * @param world the physics world
+ * @param settings the ragdoll settings
+ * @returns the created ragdoll
+ */
+export function create(world: World, settings: RagdollSettings): Ragdoll {
+    const parts = settings.parts;
+    const disableParentChildCollisions = settings.disableParentChildCollisions ?? true;
+
+    // validate the skeleton
+    for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+        if (part.parentIndex < -1 || part.parentIndex >= i) {
+            throw new Error(`Ragdoll part ${part.name} must come after its parent`);
+        }
+        if (part.parentIndex !== -1 && !part.toParent) {
+            throw new Error(`Ragdoll part ${part.name} requires constraint settings to its parent`);
+        }
+    }
+    const freeBits = getFreeCollisionGroupBits(parts);
+    if (disableParentChildCollisions && countBits(freeBits) <= parts.length) {
+        throw new Error(
+            `Ragdoll needs ${parts.length + 1} collision group bits that the part bodies don't use, ${countBits(freeBits)} are free`,
+        );
+    }
+
+    const ragdollPosition = settings.position ?? vec3.create();
+    const ragdollQuaternion = settings.quaternion ?? quat.create();
+
+    const ragdoll: Ragdoll = { parts, bodyIds: [], constraintIds: [] };
+
+    // create the bodies in the bind pose
+    for (const part of parts) {
+        const position = vec3.transformQuat(_create_position, part.position, ragdollQuaternion);
+        vec3.add(position, position, ragdollPosition);
+        const quaternion = quat.multiply(_create_quaternion, ragdollQuaternion, part.quaternion);
+
+        const body = rigidBody.create(world, { ...part.body, position, quaternion });
+        ragdoll.bodyIds.push(body.id);
+    }
+
+    // connect the parts to their parents
+    for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+        if (part.parentIndex === -1) {
+            ragdoll.constraintIds.push(INVALID_CONSTRAINT_ID);
+            continue;
+        }
+
+        const toParent = part.toParent!;
+        const constraintSettings: SwingTwistConstraintSettings = {
+            ...toParent,
+            bodyIdA: ragdoll.bodyIds[part.parentIndex],
+            bodyIdB: ragdoll.bodyIds[i],
+        };
+
+        // move model space points and axes to where the ragdoll is
+        if ((toParent.space ?? ConstraintSpace.WORLD) === ConstraintSpace.WORLD) {
+            constraintSettings.position1 = vec3.transformQuat(vec3.create(), toParent.position1, ragdollQuaternion);
+            vec3.add(constraintSettings.position1, constraintSettings.position1, ragdollPosition);
+            constraintSettings.position2 = vec3.transformQuat(vec3.create(), toParent.position2, ragdollQuaternion);
+            vec3.add(constraintSettings.position2, constraintSettings.position2, ragdollPosition);
+            constraintSettings.twistAxis1 = vec3.transformQuat(vec3.create(), toParent.twistAxis1, ragdollQuaternion);
+            constraintSettings.planeAxis1 = vec3.transformQuat(vec3.create(), toParent.planeAxis1, ragdollQuaternion);
+            constraintSettings.twistAxis2 = vec3.transformQuat(vec3.create(), toParent.twistAxis2, ragdollQuaternion);
+            constraintSettings.planeAxis2 = vec3.transformQuat(vec3.create(), toParent.planeAxis2, ragdollQuaternion);
+        }
+
+        const constraint = swingTwistConstraint.create(world, constraintSettings);
+        ragdoll.constraintIds.push(constraint.id);
+    }
+
+    if (disableParentChildCollisions) {
+        setParentChildCollisionGroups(world, ragdoll, freeBits);
+    }
+
+    return ragdoll;
+}
+
+/** counts the set bits of a 32 bit bitfield */
+function countBits(bits: number): number {
+    let count = 0;
+    for (let i = 0; i < COLLISION_GROUP_BITS; i++) {
+        if (bits & (1 << i)) count++;
+    }
+    return count;
+}
+
+/** bits that no part body sets in its collisionGroups or clears in its collisionMask */
+function getFreeCollisionGroupBits(parts: RagdollPartSettings[]): number {
+    let used = 0;
+    for (const part of parts) {
+        used |= (part.body.collisionGroups ?? 0) | ~(part.body.collisionMask ?? 0xffffffff);
+    }
+    return ~used >>> 0;
+}
+
+/**
+ * Adds collision group and mask bits to the bodies of a ragdoll so that connected parts don't collide.
+ *
+ * Each part gets its own group bit, and masks out the groups of its parent and children. A second group bit, derived
+ * from the index of the first body, keeps the parts colliding with the parts of other ragdolls at the same position in
+ * their skeleton. Both come from the free bits, which the part bodies don't use, and the groups and mask bits the part
+ * bodies were created with are kept. The remaining free bits are shared, so two ragdolls can still miss some
+ * collisions between their connected parts when their first bodies map to the same bit.
+ */
+function setParentChildCollisionGroups(world: World, ragdoll: Ragdoll, freeBits: number): void {
+    const parts = ragdoll.parts;
+    if (parts.length === 0) return;
+
+    // take a bit per part from the lowest free bits
+    const groups: number[] = [];
+    let remainingBits = freeBits;
+    for (let i = 0; i < parts.length; i++) {
+        const partBit = remainingBits & -remainingBits;
+        remainingBits &= ~partBit;
+        groups.push(partBit);
+    }
+
+    // pick the ragdoll bit from the bits that are left
+    const firstBody = rigidBody.get(world, ragdoll.bodyIds[0])!;
+    let ragdollBit = remainingBits & -remainingBits;
+    for (let n = firstBody.index % countBits(remainingBits); n > 0; n--) {
+        remainingBits &= ~ragdollBit;
+        ragdollBit = remainingBits & -remainingBits;
+    }
+
+    // an unset collisionGroups defaults to all bits, which would leave no bits to tell the parts apart
+    for (let i = 0; i < parts.length; i++) {
+        groups[i] |= (parts[i].body.collisionGroups ?? 0) | ragdollBit;
+    }
+
+    for (let i = 0; i < parts.length; i++) {
+        let excluded = groups[i];
+        const parentIndex = parts[i].parentIndex;
+        if (parentIndex !== -1) excluded |= groups[parentIndex];
+        for (let j = i + 1; j < parts.length; j++) {
+            if (parts[j].parentIndex === i) excluded |= groups[j];
+        }
+
+        const body = rigidBody.get(world, ragdoll.bodyIds[i])!;
+        body.collisionGroups = groups[i] >>> 0;
+        body.collisionMask = (body.collisionMask & ~excluded) >>> 0;
+    }
+}
+
+/**
+ * Removes the bodies and constraints of a ragdoll from the world.
+ * @param world the physics world
+ * @param ragdoll the ragdoll to remove
+ */
+export function remove(world: World, ragdoll: Ragdoll): void {
+    // removing the bodies removes their constraints
+    for (const bodyId of ragdoll.bodyIds) {
+        const body = rigidBody.get(world, bodyId);
+        if (body) {
+            rigidBody.remove(world, body);
+        }
+    }
+    ragdoll.bodyIds.length = 0;
+    ragdoll.constraintIds.length = 0;
+}
+
+/**
+ * Gets the index of a part by its name.
+ * @param ragdoll the ragdoll
+ * @param name the name of the part
+ * @returns the index of the part, -1 if the ragdoll has no part with that name
+ */
+export function getPartIndex(ragdoll: Ragdoll, name: string): number {
+    return ragdoll.parts.findIndex((part) => part.name === name);
+}
+
+/**
+ * Creates a pose with the parts in the bind pose of a ragdoll, at the origin.
+ * @param ragdoll the ragdoll
+ * @returns a new pose
+ */
+export function createPose(ragdoll: Ragdoll): RagdollPose {
+    return {
+        position: vec3.create(),
+        quaternion: quat.create(),
+        positions: ragdoll.parts.map((part) => vec3.clone(part.position)),
+        quaternions: ragdoll.parts.map((part) => quat.clone(part.quaternion)),
+    };
+}
+
+const _getPose_invQuaternion = /* @__PURE__ */ quat.create();
+
+/**
+ * Gets the current pose of the bodies of a ragdoll, relative to the position and rotation of the pose.
+ * Set out.position and out.quaternion to where the model is, e.g. at the root body, before calling this.
+ * @param out the pose to fill in, its arrays are resized to the number of bodies
+ * @param world the physics world
+ * @param ragdoll the ragdoll or joined bodies
+ * @returns the out pose
+ */
+export function getPose(out: RagdollPose, world: World, ragdoll: RagdollJoints): RagdollPose {
+    const invQuaternion = quat.invert(_getPose_invQuaternion, out.quaternion);
+    const numParts = ragdoll.bodyIds.length;
+
+    out.positions.length = Math.min(out.positions.length, numParts);
+    out.quaternions.length = Math.min(out.quaternions.length, numParts);
+    while (out.positions.length < numParts) out.positions.push(vec3.create());
+    while (out.quaternions.length < numParts) out.quaternions.push(quat.create());
+
+    for (let i = 0; i < numParts; i++) {
+        const position = out.positions[i];
+        const quaternion = out.quaternions[i];
+
+        const body = rigidBody.get(world, ragdoll.bodyIds[i]);
+        if (!body) continue;
+
+        vec3.subtract(position, body.position, out.position);
+        vec3.transformQuat(position, position, invQuaternion);
+        quat.multiply(quaternion, invQuaternion, body.quaternion);
+    }
+
+    return out;
+}
+
+const _driveToPoseUsingMotors_quaternionA = /* @__PURE__ */ quat.create();
+const _driveToPoseUsingMotors_quaternionB = /* @__PURE__ */ quat.create();
+const _driveToPoseUsingMotors_orientation = /* @__PURE__ */ quat.create();
+
+/**
+ * Drives the joints of a ragdoll towards a pose, by setting the rotation motors of the swing twist and six dof constraints
+ * to MotorState.POSITION and their target orientations to the rotations between the parts in the pose.
+ * The strength of the motors is set by their motor settings. Sleeping bodies are not woken up.
+ * Call this every frame the pose changes, e.g. with a pose sampled from an animation.
+ * @param world the physics world
+ * @param ragdoll the ragdoll or joined bodies
+ * @param pose the target pose, only the rotations of the parts are used
+ */
+export function driveToPoseUsingMotors(world: World, ragdoll: RagdollJoints, pose: RagdollPose): void {
+    for (let i = 0; i < ragdoll.constraintIds.length; i++) {
+        const constraintId = ragdoll.constraintIds[i];
+        if (constraintId === INVALID_CONSTRAINT_ID) continue;
+
+        const type = getConstraintIdType(constraintId);
+        const constraint =
+            type === ConstraintType.SWING_TWIST
+                ? swingTwistConstraint.get(world, constraintId)
+                : type === ConstraintType.SIX_DOF
+                  ? sixDOFConstraint.get(world, constraintId)
+                  : undefined;
+        if (!constraint) continue;
+
+        // the target rotation of body b relative to body a, bodies outside of the ragdoll keep their current rotation
+        getTargetQuaternion(_driveToPoseUsingMotors_quaternionA, world, ragdoll, pose, constraint.bodyIndexA);
+        getTargetQuaternion(_driveToPoseUsingMotors_quaternionB, world, ragdoll, pose, constraint.bodyIndexB);
+        const orientation = quat.invert(_driveToPoseUsingMotors_orientation, _driveToPoseUsingMotors_quaternionA);
+        quat.multiply(orientation, orientation, _driveToPoseUsingMotors_quaternionB);
+
+        if (type === ConstraintType.SWING_TWIST) {
+            const swingTwist = constraint as swingTwistConstraint.SwingTwistConstraint;
+            swingTwistConstraint.setSwingMotorState(swingTwist, MotorState.POSITION);
+            swingTwistConstraint.setTwistMotorState(swingTwist, MotorState.POSITION);
+            swingTwistConstraint.setTargetOrientationBS(swingTwist, orientation);
+        } else {
+            const sixDOF = constraint as sixDOFConstraint.SixDOFConstraint;
+            sixDOFConstraint.setMotorState(sixDOF, SixDOFAxis.ROTATION_X, MotorState.POSITION);
+            sixDOFConstraint.setMotorState(sixDOF, SixDOFAxis.ROTATION_Y, MotorState.POSITION);
+            sixDOFConstraint.setMotorState(sixDOF, SixDOFAxis.ROTATION_Z, MotorState.POSITION);
+            sixDOFConstraint.setTargetOrientationBS(sixDOF, orientation);
+        }
+    }
+}
+
+/** gets the world space rotation of a body in the pose, or its current rotation if the body is not part of the ragdoll */
+function getTargetQuaternion(out: Quat, world: World, ragdoll: RagdollJoints, pose: RagdollPose, bodyIndex: number): Quat {
+    for (let i = 0; i < ragdoll.bodyIds.length; i++) {
+        if (getBodyIdIndex(ragdoll.bodyIds[i]) === bodyIndex) {
+            return quat.multiply(out, pose.quaternion, pose.quaternions[i]);
+        }
+    }
+    return quat.copy(out, world.bodies.pool[bodyIndex].quaternion);
+}
+
+const _driveToPoseUsingKinematics_position = /* @__PURE__ */ vec3.create();
+const _driveToPoseUsingKinematics_quaternion = /* @__PURE__ */ quat.create();
+
+/**
+ * Sets the velocities of the bodies of a ragdoll so they reach a pose after deltaTime, making the ragdoll follow an
+ * animation while still pushing other bodies away. Works for dynamic and kinematic bodies, and wakes them up.
+ * Gravity and contacts still act on dynamic bodies, make them kinematic to match the pose exactly, and turn off motors
+ * driving to a different pose.
+ * @param world the physics world
+ * @param ragdoll the ragdoll or joined bodies
+ * @param pose the target pose
+ * @param deltaTime the time step of the next update
+ */
+export function driveToPoseUsingKinematics(world: World, ragdoll: RagdollJoints, pose: RagdollPose, deltaTime: number): void {
+    for (let i = 0; i < ragdoll.bodyIds.length; i++) {
+        const body = rigidBody.get(world, ragdoll.bodyIds[i]);
+        if (!body || body.motionType === MotionType.STATIC) continue;
+
+        const position = vec3.transformQuat(_driveToPoseUsingKinematics_position, pose.positions[i], pose.quaternion);
+        vec3.add(position, position, pose.position);
+        const quaternion = quat.multiply(_driveToPoseUsingKinematics_quaternion, pose.quaternion, pose.quaternions[i]);
+
+        // take the shortest rotation from the current rotation
+        if (quat.dot(quaternion, body.quaternion) < 0) {
+            quat.scale(quaternion, quaternion, -1);
+        }
+
+        rigidBody.moveKinematic(body, position, quaternion, deltaTime);
+        rigidBody.wake(world, body);
+    }
+}
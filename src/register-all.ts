@@ -1,24 +1,35 @@
 import * as coneConstraint from './constraints/cone-constraint';
 import * as distanceConstraint from './constraints/distance-constraint';
 import * as fixedConstraint from './constraints/fixed-constraint';
+import * as gearConstraint from './constraints/gear-constraint';
 import * as hingeConstraint from './constraints/hinge-constraint';
+import * as pathConstraint from './constraints/path-constraint';
 import * as pointConstraint from './constraints/point-constraint';
+import * as pulleyConstraint from './constraints/pulley-constraint';
+import * as rackAndPinionConstraint from './constraints/rack-and-pinion-constraint';
 import * as sixDOFConstraint from './constraints/six-dof-constraint';
 import * as sliderConstraint from './constraints/slider-constraint';
 import * as swingTwistConstraint from './constraints/swing-twist-constraint';
-import { registerShapes, registerConstraints } from './register';
+import { registerShapes, registerConstraints, registerSystems } from './register';
+import * as sensors from './sensors';
 import * as box from './shapes/box';
 import * as capsule from './shapes/capsule';
 import * as compound from './shapes/compound';
 import * as convexHull from './shapes/convex-hull';
 import * as cylinder from './shapes/cylinder';
 import * as emptyShape from './shapes/empty-shape';
+import * as heightField from './shapes/height-field';
 import * as offsetCenterOfMass from './shapes/offset-center-of-mass';
 import * as plane from './shapes/plane';
 import * as scaled from './shapes/scaled';
 import * as sphere from './shapes/sphere';
+import * as taperedCapsule from './shapes/tapered-capsule';
+import * as taperedCylinder from './shapes/tapered-cylinder';
 import * as transformed from './shapes/transformed';
+import * as triangle from './shapes/triangle';
 import * as triangleMesh from './shapes/triangle-mesh';
+import * as softBody from './soft-body/soft-body';
+import * as vehicleConstraint from './vehicle/vehicle-constraint';
 
 export const ALL_SHAPE_DEFS = [
     sphere.def,
@@ -26,8 +37,12 @@ export const ALL_SHAPE_DEFS = [
     capsule.def,
     convexHull.def,
     cylinder.def,
+    taperedCapsule.def,
+    taperedCylinder.def,
+    triangle.def,
     plane.def,
     triangleMesh.def,
+    heightField.def,
     compound.def,
     transformed.def,
     scaled.def,
@@ -44,8 +59,15 @@ export const ALL_CONSTRAINT_DEFS = [
     coneConstraint.def,
     swingTwistConstraint.def,
     sixDOFConstraint.def,
+    vehicleConstraint.def,
+    gearConstraint.def,
+    rackAndPinionConstraint.def,
+    pulleyConstraint.def,
+    pathConstraint.def,
 ];
 
+export const ALL_SYSTEM_DEFS = [softBody.def, sensors.def];
+
 /** register all built-in shapes */
 export function registerAllShapes(): void {
     registerShapes(ALL_SHAPE_DEFS);
@@ -56,8 +78,14 @@ export function registerAllConstraints(): void {
     registerConstraints(ALL_CONSTRAINT_DEFS);
 }
 
-/** register all built-in shapes and constraints */
+/** register all built-in systems */
+export function registerAllSystems(): void {
+    registerSystems(ALL_SYSTEM_DEFS);
+}
+
+/** register all built-in shapes, constraints and systems */
 export function registerAll(): void {
     registerAllShapes();
     registerAllConstraints();
+    registerAllSystems();
 }
@@ -1,6 +1,7 @@
 import { registerConstraintDef, type ConstraintDef } from './constraints/constraints';
 import * as support from './collision/support';
 import { type ShapeDef, shapeDefs } from './shapes/shapes';
+import { registerSystemDef, type SystemDef } from './systems';
 
 /** register shape definitions */
 export function registerShapes(defs: Array<ShapeDef<any>>): void {
@@ -22,3 +23,10 @@ export function registerConstraints(defs: Array<ConstraintDef<any>>): void {
         registerConstraintDef(def);
     }
 }
+
+/** register optional world systems, e.g. sensors and soft bodies */
+export function registerSystems(defs: SystemDef[]): void {
+    for (const def of defs) {
+        registerSystemDef(def);
+    }
+}
@@ -0,0 +1,156 @@
+import type { BodyId } from './body/body-id';
+import * as rigidBody from './body/rigid-body';
+import type { RigidBody } from './body/rigid-body';
+import * as broadphase from './broadphase/broadphase';
+import { getContactKeyEdge, getContactKeyId, INVALID_CONTACT_KEY } from './contacts';
+import type { Listener } from './listener';
+import { type SystemDef, SystemType } from './systems';
+import type { StateRecorder } from './utils/state-recorder';
+import * as stateRecorder from './utils/state-recorder';
+import type { World } from './world';
+
+/** sensor overlap tracking state */
+export type Sensors = {
+    /** ids of the bodies overlapping each sensor body, keyed by sensor body id, sensors without overlaps have no entry */
+    overlaps: Map<BodyId, Set<BodyId>>;
+};
+
+export function init(): Sensors {
+    return {
+        overlaps: new Map(),
+    };
+}
+
+const EMPTY_OVERLAPS: ReadonlySet<BodyId> = new Set();
+
+/**
+ * Gets the ids of the bodies overlapping a sensor body as of the last world update.
+ * @param world the physics world
+ * @param sensor the sensor body
+ * @returns the ids of the overlapping bodies, empty if the body is not a sensor or doesn't overlap anything
+ */
+export function getOverlappingBodyIds(world: World, sensor: RigidBody): ReadonlySet<BodyId> {
+    return world.sensors.overlaps.get(sensor.id) ?? EMPTY_OVERLAPS;
+}
+
+const _updateSensors_current = new Set<BodyId>();
+
+/**
+ * Updates the overlapping bodies of all sensor bodies from the contact cache and notifies the listener of changes.
+ *
+ * Overlaps are tracked per body, so a body touching a sensor with multiple sub shapes enters and exits once.
+ * A sleeping body keeps overlapping a sensor that doesn't query the broadphase (a static sensor), as their contacts are
+ * removed while the body sleeps even though neither of them moves.
+ *
+ * @internal called at the end of updateWorld when the sensors system is registered
+ */
+export function updateSensors(world: World, listener: Listener | undefined): void {
+    const overlaps = world.sensors.overlaps;
+
+    // sensors that were removed or are not sensors anymore exit all their bodies
+    for (const [sensorId, bodyIds] of overlaps) {
+        const sensor = rigidBody.get(world, sensorId);
+        if (sensor?.sensor) continue;
+
+        for (const bodyId of bodyIds) {
+            listener?.onSensorExit?.(sensorId, bodyId);
+        }
+        overlaps.delete(sensorId);
+    }
+
+    for (const sensor of world.bodies.pool) {
+        if (sensor._pooled || !sensor.sensor) continue;
+
+        // gather the bodies the sensor has contacts with
+        const current = _updateSensors_current;
+        current.clear();
+
+        let contactKey = sensor.headContactKey;
+        while (contactKey !== INVALID_CONTACT_KEY) {
+            const edgeIndex = getContactKeyEdge(contactKey);
+            const contact = world.contacts.contacts[getContactKeyId(contactKey)];
+            current.add(edgeIndex === 0 ? contact.bodyIdB : contact.bodyIdA);
+            contactKey = contact.edges[edgeIndex].nextKey;
+        }
+
+        let previous = overlaps.get(sensor.id);
+
+        // exit bodies that stopped overlapping
+        if (previous) {
+            const sensorQueries = broadphase.shouldQueryBroadphase(sensor);
+
+            for (const bodyId of previous) {
+                if (current.has(bodyId)) continue;
+
+                // a sleeping body is not found by a sensor that doesn't query the broadphase, but it hasn't moved either
+                const body = rigidBody.get(world, bodyId);
+                if (body?.sleeping && !sensorQueries) continue;
+
+                previous.delete(bodyId);
+                listener?.onSensorExit?.(sensor.id, bodyId);
+            }
+        }
+
+        // enter bodies that started overlapping
+        for (const bodyId of current) {
+            if (previous?.has(bodyId)) continue;
+
+            if (!previous) {
+                previous = new Set();
+                overlaps.set(sensor.id, previous);
+            }
+            previous.add(bodyId);
+
+            const body = rigidBody.get(world, bodyId);
+            if (body) {
+                listener?.onSensorEnter?.(sensor, body);
+            }
+        }
+
+        if (previous && previous.size === 0) {
+            overlaps.delete(sensor.id);
+        }
+    }
+}
+
+/**
+ * Saves the overlapping bodies of all sensors
+ * @param sensors sensors state
+ * @param recorder state recorder to write to
+ */
+export function saveState(sensors: Sensors, recorder: StateRecorder): void {
+    stateRecorder.writeInt32(recorder, sensors.overlaps.size);
+    for (const [sensorId, bodyIds] of sensors.overlaps) {
+        stateRecorder.writeFloat64(recorder, sensorId);
+        stateRecorder.writeInt32(recorder, bodyIds.size);
+        for (const bodyId of bodyIds) {
+            stateRecorder.writeFloat64(recorder, bodyId);
+        }
+    }
+}
+
+/**
+ * Restores the overlapping bodies of all sensors
+ * @param sensors sensors state
+ * @param recorder state recorder to read from
+ */
+export function restoreState(sensors: Sensors, recorder: StateRecorder): void {
+    sensors.overlaps.clear();
+
+    const numSensors = stateRecorder.readInt32(recorder);
+    for (let i = 0; i < numSensors; i++) {
+        const sensorId = stateRecorder.readFloat64(recorder);
+        const numBodies = stateRecorder.readInt32(recorder);
+        const bodyIds = new Set<BodyId>();
+        for (let j = 0; j < numBodies; j++) {
+            bodyIds.add(stateRecorder.readFloat64(recorder));
+        }
+        sensors.overlaps.set(sensorId, bodyIds);
+    }
+}
+
+/** the system definition for sensors, register it to track sensor overlaps and report onSensorEnter / onSensorExit */
+export const def = /* @__PURE__ */ ((): SystemDef => ({
+    type: SystemType.SENSORS,
+    postUpdate: updateSensors,
+}))();
@@ -0,0 +1,539 @@
+import { type Vec3, vec3 } from 'mathcat';
+import type { RigidBody, RigidBodySettings } from './body/rigid-body';
+import * as rigidBody from './body/rigid-body';
+import { MassPropertiesOverride } from './body/rigid-body';
+import {
+    type ConstraintId,
+    type ConstraintType,
+    getConstraintIdType,
+    INVALID_CONSTRAINT_ID,
+    SEQUENCE_MASK,
+    serConstraintId,
+} from './constraints/constraint-id';
+import { type ConstraintBase, constraintDefs, ensurePool } from './constraints/constraints';
+import { type Shape, shapeDefs } from './shapes/shapes';
+import type { SoftBody, SoftBodySettings } from './soft-body/soft-body';
+import * as softBody from './soft-body/soft-body';
+import type { SoftBodySharedSettings } from './soft-body/soft-body-shared-settings';
+import { createWorld, type World } from './world';
+import type { WorldSettings } from './world-settings';
+
+/** version of the serialized scene format, bumped whenever the format changes */
+export const SERIALIZATION_VERSION = 3;
+
+/** minimum length for number arrays to be stored in the shared buffers table */
+const BUFFER_MIN_LENGTH = 64;
+
+/** magic bytes at the start of the binary format, "CCAT" */
+const BINARY_MAGIC = 0x54414343;
+
+/** constraint pool bookkeeping fields, not serialized */
+const CONSTRAINT_POOL_KEYS = new Set(['_pooled', '_sleeping', 'id', 'index', 'sequence']);
+
+/**
+ * a JSON-safe value.
+ * special values are encoded as single key objects:
+ * - `{ $shape: index }` reference into SerializedWorld.shapes
+ * - `{ $buffer: index }` reference into SerializedWorld.buffers
+ * - `{ $number: 'Infinity' | '-Infinity' | 'NaN' }` non-finite numbers
+ * - `{ $bigint: string }` bigints
+ */
+export type SerializedValue = null | boolean | number | string | SerializedValue[] | { [key: string]: SerializedValue };
+
+/** a serialized constraint, the constraint data with body indices referring to SerializedWorld.bodies */
+export type SerializedConstraint = {
+    /** constraint type */
+    type: ConstraintType;
+    /** id of the constraint in the serialized world, constraints referring to other constraints, e.g. gears, store this id */
+    id: ConstraintId;
+    /** constraint data */
+    constraint: SerializedValue;
+};
+
+/** a serialized world, a plain JSON-safe object */
+export type SerializedWorld = {
+    /** format version @see SERIALIZATION_VERSION */
+    version: number;
+    /** world settings, including layers */
+    settings: SerializedValue;
+    /** large number arrays, shared between shapes that reference the same array */
+    buffers: number[][];
+    /** shapes, children always come before the shapes that reference them */
+    shapes: SerializedValue[];
+    /** rigid body settings, with the shape as a shape reference */
+    bodies: SerializedValue[];
+    /** constraints */
+    constraints: SerializedConstraint[];
+    /** soft body shared settings, shared between the soft bodies that reference the same settings */
+    softBodySharedSettings: SerializedValue[];
+    /** soft body settings, with the shared settings as an index into softBodySharedSettings, and the particles */
+    softBodies: SerializedValue[];
+};
+
+/** the settings that recreate a soft body, and the particle positions and inverse masses, which can differ from the rest pose */
+type SoftBodyData = Omit<SoftBodySettings, 'sharedSettings' | 'position' | 'quaternion'> & {
+    sharedSettings: number;
+    particles: { position: Vec3; invMass: number }[];
+};
+
+/** state for encoding a world */
+type Encoder = {
+    shapes: SerializedValue[];
+    shapeIndices: Map<Shape, number>;
+    buffers: number[][];
+    bufferIndices: Map<number[], number>;
+};
+
+/** state for decoding a world */
+type Decoder = {
+    shapes: Shape[];
+    buffers: number[][];
+};
+
+function isShape(value: object): value is Shape {
+    const candidate = value as Partial<Shape>;
+    return (
+        typeof candidate.type === 'number' &&
+        shapeDefs[candidate.type] !== undefined &&
+        Array.isArray(candidate.aabb) &&
+        Array.isArray(candidate.centerOfMass) &&
+        typeof candidate.volume === 'number'
+    );
+}
+
+function isBuffer(value: unknown[]): value is number[] {
+    if (value.length < BUFFER_MIN_LENGTH) return false;
+    for (let i = 0; i < value.length; i++) {
+        const element = value[i];
+        if (typeof element !== 'number' || !Number.isFinite(element)) return false;
+    }
+    return true;
+}
+
+function encodeShape(encoder: Encoder, shape: Shape): number {
+    const existing = encoder.shapeIndices.get(shape);
+    if (existing !== undefined) return existing;
+
+    // encoding the shape encodes its children first, so children get lower indices
+    const encoded = encodeObject(encoder, shape as unknown as Record<string, unknown>);
+    const index = encoder.shapes.length;
+    encoder.shapes.push(encoded);
+    encoder.shapeIndices.set(shape, index);
+
+    return index;
+}
+
+function encodeObject(encoder: Encoder, value: Record<string, unknown>): SerializedValue {
+    const out: { [key: string]: SerializedValue } = {};
+    for (const key in value) {
+        const field = value[key];
+        if (field === undefined || typeof field === 'function') continue;
+        out[key] = encodeValue(encoder, field);
+    }
+    return out;
+}
+
+function encodeValue(encoder: Encoder, value: unknown): SerializedValue {
+    switch (typeof value) {
+        case 'number':
+            return Number.isFinite(value) ? value : { $number: String(value) };
+        case 'string':
+        case 'boolean':
+            return value;
+        case 'bigint':
+            return { $bigint: value.toString() };
+        case 'object': {
+            if (value === null) return null;
+
+            if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+                return encodeValue(encoder, Array.from(value as unknown as ArrayLike<number>));
+            }
+
+            if (Array.isArray(value)) {
+                if (isBuffer(value)) {
+                    let index = encoder.bufferIndices.get(value);
+                    if (index === undefined) {
+                        index = encoder.buffers.length;
+                        encoder.buffers.push(value.slice());
+                        encoder.bufferIndices.set(value, index);
+                    }
+                    return { $buffer: index };
+                }
+
+                return value.map((element) => encodeValue(encoder, element));
+            }
+
+            if (isShape(value)) {
+                return { $shape: encodeShape(encoder, value) };
+            }
+
+            return encodeObject(encoder, value as Record<string, unknown>);
+        }
+        default:
+            throw new Error(`Cannot serialize value of type ${typeof value}`);
+    }
+}
+
+function decodeValue(decoder: Decoder, value: SerializedValue): unknown {
+    if (value === null || typeof value !== 'object') return value;
+
+    if (Array.isArray(value)) {
+        return value.map((element) => decodeValue(decoder, element));
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length === 1) {
+        const key = keys[0];
+        const field = value[key];
+        switch (key) {
+            case '$shape': {
+                const shape = decoder.shapes[field as number];
+                if (!shape) throw new Error(`Invalid shape reference ${field}`);
+                return shape;
+            }
+            case '$buffer': {
+                const buffer = decoder.buffers[field as number];
+                if (!buffer) throw new Error(`Invalid buffer reference ${field}`);
+                return buffer;
+            }
+            case '$number':
+                return Number(field);
+            case '$bigint':
+                return BigInt(field as string);
+        }
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const key of keys) {
+        out[key] = decodeValue(decoder, value[key]);
+    }
+    return out;
+}
+
+/** gets the settings that recreate a body */
+function getRigidBodySettings(body: RigidBody): RigidBodySettings {
+    const mp = body.motionProperties;
+
+    const settings: RigidBodySettings = {
+        shape: body.shape,
+        objectLayer: body.objectLayer,
+        motionType: body.motionType,
+        userData: body.userData ?? undefined,
+        position: body.position,
+        quaternion: body.quaternion,
+        motionQuality: mp.motionQuality,
+        allowedDegreesOfFreedom: mp.allowedDegreesOfFreedom,
+        gravityFactor: mp.gravityFactor,
+        linearDamping: mp.linearDamping,
+        angularDamping: mp.angularDamping,
+        maxLinearVelocity: mp.maxLinearVelocity,
+        maxAngularVelocity: mp.maxAngularVelocity,
+        friction: body.friction,
+        restitution: body.restitution,
+        frictionCombineMode: body.frictionCombineMode,
+        restitutionCombineMode: body.restitutionCombineMode,
+        collisionGroups: body.collisionGroups,
+        collisionMask: body.collisionMask,
+        useManifoldReduction: body.useManifoldReduction,
+        allowSleeping: mp.allowSleeping,
+        sensor: body.sensor,
+        enhancedInternalEdgeRemoval: body.enhancedInternalEdgeRemoval,
+        collideKinematicVsNonDynamic: body.collideKinematicVsNonDynamic,
+    };
+
+    if (body.massPropertiesOverride === MassPropertiesOverride.MASS_AND_INERTIA_PROVIDED) {
+        settings.massPropertiesOverride = body.massProperties;
+    } else if (body.massPropertiesOverride === MassPropertiesOverride.CALCULATE_INERTIA) {
+        settings.mass = body.massProperties.mass;
+    }
+
+    return settings;
+}
+
+/** gets the data that recreates a soft body, with the shared settings as an index into the shared settings table */
+function getSoftBodyData(body: SoftBody, sharedSettings: number): SoftBodyData {
+    return {
+        sharedSettings,
+        objectLayer: body.objectLayer,
+        numIterations: body.numIterations,
+        linearDamping: body.linearDamping,
+        gravityFactor: body.gravityFactor,
+        friction: body.friction,
+        particleRadius: body.particleRadius,
+        userData: body.userData ?? undefined,
+        particles: body.particles.map((particle) => ({ position: particle.position, invMass: particle.invMass })),
+    };
+}
+
+/**
+ * Serializes a world to a versioned, JSON-safe scene description.
+ *
+ * Includes the world settings and layers, the settings of every body, every shape, every constraint and every soft
+ * body, with its particle positions and inverse masses so pinned particles stay pinned.
+ * Shapes shared between bodies or compound children are stored once, and large number arrays
+ * shared between shapes, e.g. triangle mesh bvh data, are stored once in a buffers table.
+ *
+ * Simulation state such as velocities and contacts is not included, use saveWorldState for that.
+ * Body and soft body user data must be JSON-safe.
+ *
+ * @param world the world to serialize
+ * @returns the serialized world, can be passed to JSON.stringify or toBinary
+ */
+export function serializeWorld(world: World): SerializedWorld {
+    const encoder: Encoder = {
+        shapes: [],
+        shapeIndices: new Map(),
+        buffers: [],
+        bufferIndices: new Map(),
+    };
+
+    const settings = encodeValue(encoder, world.settings);
+
+    // bodies, remapping pool indices to serialized body indices
+    const bodies: SerializedValue[] = [];
+    const bodyIndices = new Map<number, number>();
+    for (const body of world.bodies.pool) {
+        if (body._pooled) continue;
+        bodyIndices.set(body.index, bodies.length);
+        bodies.push(encodeValue(encoder, getRigidBodySettings(body)));
+    }
+
+    // constraints
+    const constraints: SerializedConstraint[] = [];
+    for (const type in world.constraints.pools) {
+        const pool = world.constraints.pools[type as unknown as ConstraintType]!;
+        for (const constraint of pool.constraints) {
+            if (constraint._pooled) continue;
+
+            // copy the constraint data without pool bookkeeping, which is reassigned when deserializing
+            const data: Record<string, unknown> = {};
+            for (const key in constraint) {
+                if (CONSTRAINT_POOL_KEYS.has(key)) continue;
+                data[key] = constraint[key as keyof ConstraintBase];
+            }
+            data.bodyIndexA = bodyIndices.get(constraint.bodyIndexA)!;
+            data.bodyIndexB = bodyIndices.get(constraint.bodyIndexB)!;
+
+            constraints.push({
+                type: getConstraintIdType(constraint.id),
+                id: constraint.id,
+                constraint: encodeValue(encoder, data),
+            });
+        }
+    }
+
+    // soft bodies, storing shared settings once
+    const softBodySharedSettings: SerializedValue[] = [];
+    const sharedSettingsIndices = new Map<SoftBodySharedSettings, number>();
+    const softBodies: SerializedValue[] = [];
+    for (const body of world.softBodies.pool) {
+        if (body._pooled) continue;
+
+        let sharedSettings = sharedSettingsIndices.get(body.sharedSettings);
+        if (sharedSettings === undefined) {
+            sharedSettings = softBodySharedSettings.length;
+            softBodySharedSettings.push(encodeValue(encoder, body.sharedSettings));
+            sharedSettingsIndices.set(body.sharedSettings, sharedSettings);
+        }
+        softBodies.push(encodeValue(encoder, getSoftBodyData(body, sharedSettings)));
+    }
+
+    return {
+        version: SERIALIZATION_VERSION,
+        settings,
+        buffers: encoder.buffers,
+        shapes: encoder.shapes,
+        bodies,
+        constraints,
+        softBodySharedSettings,
+        softBodies,
+    };
+}
+
+/**
+ * Creates a world from a serialized world.
+ * Shapes and constraints used by the scene must be registered before calling this.
+ * Soft bodies start at rest at the serialized particle positions.
+ *
+ * @param data serialized world from serializeWorld, or parsed from JSON
+ * @returns a new world containing the serialized bodies and constraints
+ */
+export function deserializeWorld(data: SerializedWorld): World {
+    if (data.version !== SERIALIZATION_VERSION) {
+        throw new Error(`Unsupported serialization version ${data.version}, expected ${SERIALIZATION_VERSION}`);
+    }
+
+    const decoder: Decoder = {
+        shapes: [],
+        buffers: data.buffers,
+    };
+
+    // shapes, children come first so references always resolve
+    for (const shape of data.shapes) {
+        decoder.shapes.push(decodeValue(decoder, shape) as Shape);
+    }
+
+    const world = createWorld(decodeValue(decoder, data.settings) as WorldSettings);
+
+    // bodies
+    const bodies: RigidBody[] = [];
+    for (const settings of data.bodies) {
+        bodies.push(rigidBody.create(world, decodeValue(decoder, settings) as RigidBodySettings));
+    }
+
+    // constraints, mapping serialized constraint ids to the new ids
+    const constraintIds = new Map<ConstraintId, ConstraintId>();
+    const constraints: ConstraintBase[] = [];
+    for (const serialized of data.constraints) {
+        const type = serialized.type;
+        const pool = ensurePool(world.constraints, type);
+
+        const constraint = decodeValue(decoder, serialized.constraint) as ConstraintBase;
+
+        const bodyA = bodies[constraint.bodyIndexA];
+        const bodyB = bodies[constraint.bodyIndexB];
+        if (!bodyA || !bodyB) {
+            throw new Error('Invalid constraint body reference');
+        }
+
+        const sequence = pool.nextSequence;
+        pool.nextSequence = (pool.nextSequence + 1) & SEQUENCE_MASK;
+
+        const index = pool.constraints.length;
+        constraint._pooled = false;
+        constraint._sleeping = false;
+        constraint.id = serConstraintId(index, type, sequence);
+        constraint.index = index;
+        constraint.sequence = sequence;
+        constraint.bodyIndexA = bodyA.index;
+        constraint.bodyIndexB = bodyB.index;
+        pool.constraints.push(constraint);
+        constraintIds.set(serialized.id, constraint.id);
+        constraints.push(constraint);
+
+        // start without warm starting impulses from the serialized world
+        constraintDefs[type]?.resetWarmStart(constraint);
+
+        // track constraint on both bodies
+        bodyA.constraintIds.push(constraint.id);
+        if (bodyA !== bodyB) {
+            bodyB.constraintIds.push(constraint.id);
+        }
+    }
+
+    // constraints referring to other constraints, once all constraints have their new ids
+    const remap = (id: ConstraintId): ConstraintId => {
+        if (id === INVALID_CONSTRAINT_ID) return id;
+        const newId = constraintIds.get(id);
+        if (newId === undefined) {
+            throw new Error(`Invalid constraint reference ${id}`);
+        }
+        return newId;
+    };
+    for (const constraint of constraints) {
+        constraintDefs[getConstraintIdType(constraint.id)]?.remapConstraintIds?.(constraint, remap);
+    }
+
+    // soft bodies, created in the rest pose and then moved to the serialized particles
+    const softBodySharedSettings = data.softBodySharedSettings.map(
+        (sharedSettings) => decodeValue(decoder, sharedSettings) as SoftBodySharedSettings,
+    );
+    for (const serialized of data.softBodies) {
+        const { sharedSettings, particles, ...settings } = decodeValue(decoder, serialized) as SoftBodyData;
+        if (!softBodySharedSettings[sharedSettings]) {
+            throw new Error(`Invalid soft body shared settings reference ${sharedSettings}`);
+        }
+
+        const body = softBody.create(world, { ...settings, sharedSettings: softBodySharedSettings[sharedSettings] });
+        if (particles.length !== body.particles.length) {
+            throw new Error('Soft body particles do not match the shared settings');
+        }
+        for (let i = 0; i < particles.length; i++) {
+            const particle = body.particles[i];
+            vec3.copy(particle.position, particles[i].position);
+            vec3.copy(particle.previousPosition, particle.position);
+            particle.invMass = particles[i].invMass;
+        }
+        softBody.updateBounds(body);
+    }
+
+    return world;
+}
+
+/**
+ * Encodes a serialized world into a compact binary format.
+ * Buffers are stored as raw 64 bit floats, the rest of the scene is stored as JSON.
+ *
+ * @param data serialized world from serializeWorld
+ * @returns binary data
+ */
+export function toBinary(data: SerializedWorld): Uint8Array {
+    const { buffers, ...document } = data;
+    const json = new TextEncoder().encode(JSON.stringify({ ...document, bufferLengths: buffers.map((buffer) => buffer.length) }));
+
+    // header: magic, version, json byte length
+    const headerLength = 12;
+    // buffers are 8 byte aligned
+    const buffersOffset = Math.ceil((headerLength + json.byteLength) / 8) * 8;
+
+    let byteLength = buffersOffset;
+    for (const buffer of buffers) {
+        byteLength += buffer.length * 8;
+    }
+
+    const bytes = new Uint8Array(byteLength);
+    const view = new DataView(bytes.buffer);
+
+    view.setUint32(0, BINARY_MAGIC, true);
+    view.setUint32(4, data.version, true);
+    view.setUint32(8, json.byteLength, true);
+    bytes.set(json, headerLength);
+
+    let offset = buffersOffset;
+    for (const buffer of buffers) {
+        for (let i = 0; i < buffer.length; i++) {
+            view.setFloat64(offset, buffer[i], true);
+            offset += 8;
+        }
+    }
+
+    return bytes;
+}
+
+/**
+ * Decodes binary data created with toBinary.
+ *
+ * @param bytes binary data
+ * @returns the serialized world, can be passed to deserializeWorld
+ */
+export function fromBinary(bytes: Uint8Array): SerializedWorld {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (bytes.byteLength < 12 || view.getUint32(0, true) !== BINARY_MAGIC) {
+        throw new Error('Invalid binary scene data');
+    }
+
+    const version = view.getUint32(4, true);
+    if (version !== SERIALIZATION_VERSION) {
+        throw new Error(`Unsupported serialization version ${version}, expected ${SERIALIZATION_VERSION}`);
+    }
+
+    const jsonLength = view.getUint32(8, true);
+    const { bufferLengths, ...document } = JSON.parse(new TextDecoder().decode(bytes.subarray(12, 12 + jsonLength))) as Omit<
+        SerializedWorld,
+        'buffers'
+    > & { bufferLengths: number[] };
+
+    let offset = Math.ceil((12 + jsonLength) / 8) * 8;
+    const buffers: number[][] = [];
+    for (const length of bufferLengths) {
+        const buffer = new Array<number>(length);
+        for (let i = 0; i < length; i++) {
+            buffer[i] = view.getFloat64(offset, true);
+            offset += 8;
+        }
+        buffers.push(buffer);
+    }
+
+    return { ...document, buffers };
+}
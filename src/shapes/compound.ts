@@ -1,4 +1,4 @@
-import { type Box3, box3, mat3, mat4, type Quat, quat, type Raycast3, type Vec3, vec3 } from 'mathcat';
+import { type Box3, box3, mat3, mat4, type Quat, quat, type Raycast3, raycast3, type Vec3, vec3 } from 'mathcat';
 import type { MassProperties } from '../body/mass-properties';
 import * as massProperties from '../body/mass-properties';
 import * as subShape from '../body/sub-shape';
@@ -6,7 +6,9 @@ import type { CastRayCollector, CastRaySettings } from '../collision/cast-ray-vs
 import type { CastShapeCollector, CastShapeSettings } from '../collision/cast-shape-vs-shape';
 import type { CollidePointCollector, CollidePointSettings } from '../collision/collide-point-vs-shape';
 import type { CollideShapeCollector, CollideShapeSettings } from '../collision/collide-shape-vs-shape';
+import { rayDistanceToBox3 } from '../collision/cast-utils';
 import { assert } from '../utils/assert';
+import * as bvhStack from '../utils/bvh-stack';
 import {
     collisionDispatch,
     computeMassProperties,
@@ -21,6 +23,8 @@ import {
     setCastShapeFn,
     setCollideShapeFn,
 } from './shapes';
+import type { CompoundBvh } from './utils/compound-bvh';
+import * as compoundBvh from './utils/compound-bvh';
 
 export type CompoundShapeChild = {
     position: Vec3;
@@ -28,12 +32,22 @@ export type CompoundShapeChild = {
     shape: Shape;
 };
 
+/**
+ * compound shape, combines child shapes with their own position and rotation into a single shape.
+ * queries use a bounding volume hierarchy of the children to skip children that can't be hit. the scale of a compound
+ * is applied to each child around its own position, which the unscaled hierarchy can't bound, so queries against a
+ * compound with a scale other than (1, 1, 1) test every child.
+ */
 export type CompoundShape = {
     type: ShapeType.COMPOUND;
     children: CompoundShapeChild[];
     aabb: Box3;
     centerOfMass: Vec3;
     volume: number;
+    /** summed mass of the children, used to update the center of mass when children are added, removed or moved */
+    mass: number;
+    /** bounding volume hierarchy of the children in compound space, used to skip children in queries */
+    bvh: CompoundBvh;
 };
 
 export type CompoundShapeSettings = {
@@ -49,6 +63,8 @@ export function create(o: CompoundShapeSettings): CompoundShape {
         aabb: box3.create(),
         centerOfMass: vec3.create(),
         volume: 0,
+        mass: 0,
+        bvh: compoundBvh.create(),
     };
 
     update(shape);
@@ -65,40 +81,27 @@ function computeCompoundVolume(shape: CompoundShape): number {
     return totalVolume;
 }
 
-const _computeCompoundLocalBounds_transformed = /* @__PURE__ */ vec3.create();
+const _computeChildBounds_transformed = /* @__PURE__ */ vec3.create();
 
-function computeCompoundLocalBounds(out: Box3, shape: CompoundShape): void {
-    // start with empty bounds
-    out[0][0] = Infinity;
-    out[0][1] = Infinity;
-    out[0][2] = Infinity;
-    out[1][0] = -Infinity;
-    out[1][1] = -Infinity;
-    out[1][2] = -Infinity;
+/** computes the bounds of a child in compound space */
+function computeChildBounds(out: Box3, child: CompoundShapeChild): void {
+    box3.empty(out);
 
-    for (const child of shape.children) {
-        // Transform child AABB corners by child position and rotation
-        const childAABB = child.shape.aabb;
-
-        // Transform all 8 corners of the child AABB
-        for (let x = 0; x < 2; x++) {
-            for (let y = 0; y < 2; y++) {
-                for (let z = 0; z < 2; z++) {
-                    _computeCompoundLocalBounds_transformed[0] = childAABB[x][0];
-                    _computeCompoundLocalBounds_transformed[1] = childAABB[y][1];
-                    _computeCompoundLocalBounds_transformed[2] = childAABB[z][2];
-
-                    // Rotate and translate corner
-                    vec3.transformQuat(
-                        _computeCompoundLocalBounds_transformed,
-                        _computeCompoundLocalBounds_transformed,
-                        child.quaternion,
-                    );
-                    vec3.add(_computeCompoundLocalBounds_transformed, _computeCompoundLocalBounds_transformed, child.position);
-
-                    // Expand compound AABB
-                    box3.expandByPoint(out, out, _computeCompoundLocalBounds_transformed);
-                }
+    // Transform all 8 corners of the child AABB by child position and rotation
+    const childAABB = child.shape.aabb;
+    for (let x = 0; x < 2; x++) {
+        for (let y = 0; y < 2; y++) {
+            for (let z = 0; z < 2; z++) {
+                _computeChildBounds_transformed[0] = childAABB[x][0];
+                _computeChildBounds_transformed[1] = childAABB[y][1];
+                _computeChildBounds_transformed[2] = childAABB[z][2];
+
+                // Rotate and translate corner
+                vec3.transformQuat(_computeChildBounds_transformed, _computeChildBounds_transformed, child.quaternion);
+                vec3.add(_computeChildBounds_transformed, _computeChildBounds_transformed, child.position);
+
+                // Expand child bounds
+                box3.expandByPoint(out, out, _computeChildBounds_transformed);
             }
         }
     }
@@ -107,7 +110,8 @@ function computeCompoundLocalBounds(out: Box3, shape: CompoundShape): void {
 const _computeCompoundCenterOfMass_childCOM = /* @__PURE__ */ vec3.create();
 const _computeCompoundCenterOfMass_worldChildCOM = /* @__PURE__ */ vec3.create();
 
-function computeCompoundCenterOfMass(out: Vec3, shape: CompoundShape): void {
+/** computes the mass weighted center of mass of the children, returns the summed mass */
+function computeCompoundCenterOfMass(out: Vec3, shape: CompoundShape): number {
     // Compute weighted center of mass based on child mass and transforms
     vec3.zero(out);
     let totalMass = 0;
@@ -137,15 +141,124 @@ function computeCompoundCenterOfMass(out: Vec3, shape: CompoundShape): void {
         out[1] /= totalMass;
         out[2] /= totalMass;
     }
+
+    return totalMass;
 }
 
-/** updates a compound shape after it's properties have changed or children have changed */
+const _childBounds = /* @__PURE__ */ box3.create();
+
+/**
+ * updates a compound shape after it's properties have changed or children have changed.
+ * visits all children, use addChild, removeChild and setChildTransform to change a few children of a large compound.
+ */
 export function update(shape: CompoundShape): void {
-    computeCompoundLocalBounds(shape.aabb, shape);
-    computeCompoundCenterOfMass(shape.centerOfMass, shape);
+    // rebuild the child bvh, its root bounds are the compound bounds
+    const childBounds: Box3[] = [];
+    for (const child of shape.children) {
+        const bounds = box3.create();
+        computeChildBounds(bounds, child);
+        childBounds.push(bounds);
+    }
+    compoundBvh.build(shape.bvh, childBounds);
+    compoundBvh.bounds(shape.aabb, shape.bvh);
+
+    shape.mass = computeCompoundCenterOfMass(shape.centerOfMass, shape);
     shape.volume = computeCompoundVolume(shape);
 }
 
+const _accumulateChildCenterOfMass_childMass = /* @__PURE__ */ massProperties.create();
+const _accumulateChildCenterOfMass_childCOM = /* @__PURE__ */ vec3.create();
+
+/** adds (sign 1) or removes (sign -1) the mass of a child to the center of mass of a compound */
+function accumulateChildCenterOfMass(shape: CompoundShape, child: CompoundShapeChild, sign: number): void {
+    const childMass = computeMassProperties(_accumulateChildCenterOfMass_childMass, child.shape).mass * sign;
+
+    // childCOM = child.position + rotate(child.quaternion, child.shape.centerOfMass)
+    vec3.transformQuat(_accumulateChildCenterOfMass_childCOM, child.shape.centerOfMass, child.quaternion);
+    vec3.add(_accumulateChildCenterOfMass_childCOM, _accumulateChildCenterOfMass_childCOM, child.position);
+
+    // update the mass weighted sum of the child centers of mass
+    const mass = shape.mass + childMass;
+    vec3.scale(shape.centerOfMass, shape.centerOfMass, shape.mass);
+    vec3.scaleAndAdd(shape.centerOfMass, shape.centerOfMass, _accumulateChildCenterOfMass_childCOM, childMass);
+
+    if (mass > 0) {
+        vec3.scale(shape.centerOfMass, shape.centerOfMass, 1 / mass);
+        shape.mass = mass;
+    } else {
+        vec3.zero(shape.centerOfMass);
+        shape.mass = 0;
+    }
+}
+
+/**
+ * Adds a child to a compound shape.
+ * Updates the bounds, center of mass and volume without visiting the other children.
+ * The sub shape ids of the other children stay the same, unless the number of children grows past a power of two.
+ * Call rigidBody.updateShape for bodies using the shape afterwards.
+ * @returns the index of the new child
+ */
+export function addChild(shape: CompoundShape, child: CompoundShapeChild): number {
+    shape.children.push(child);
+
+    computeChildBounds(_childBounds, child);
+    const childIndex = compoundBvh.insert(shape.bvh, _childBounds);
+    compoundBvh.bounds(shape.aabb, shape.bvh);
+
+    accumulateChildCenterOfMass(shape, child, 1);
+    shape.volume += child.shape.volume;
+
+    return childIndex;
+}
+
+/**
+ * Removes a child from a compound shape, the last child takes the index of the removed child.
+ * Updates the bounds, center of mass and volume without visiting the other children.
+ * Only the sub shape ids of the moved last child change, unless the number of children shrinks to a power of two.
+ * Call rigidBody.updateShape for bodies using the shape afterwards.
+ * @returns the removed child
+ */
+export function removeChild(shape: CompoundShape, childIndex: number): CompoundShapeChild {
+    assert(childIndex >= 0 && childIndex < shape.children.length, 'Invalid child index for CompoundShape');
+    assert(shape.children.length > 1, 'CompoundShape must have at least one child');
+
+    const child = shape.children[childIndex];
+
+    compoundBvh.remove(shape.bvh, childIndex);
+    compoundBvh.bounds(shape.aabb, shape.bvh);
+
+    const last = shape.children.pop()!;
+    if (childIndex < shape.children.length) {
+        shape.children[childIndex] = last;
+    }
+
+    accumulateChildCenterOfMass(shape, child, -1);
+    shape.volume -= child.shape.volume;
+
+    return child;
+}
+
+/**
+ * Moves a child of a compound shape, keeping its index and sub shape ids.
+ * Updates the bounds and center of mass without visiting the other children.
+ * Call rigidBody.updateShape for bodies using the shape afterwards.
+ */
+export function setChildTransform(shape: CompoundShape, childIndex: number, position: Vec3, quaternion: Quat): void {
+    assert(childIndex >= 0 && childIndex < shape.children.length, 'Invalid child index for CompoundShape');
+
+    const child = shape.children[childIndex];
+
+    accumulateChildCenterOfMass(shape, child, -1);
+    // new vectors, the child may share its vectors with other children
+    child.position = vec3.clone(position);
+    child.quaternion = quat.clone(quaternion);
+    accumulateChildCenterOfMass(shape, child, 1);
+
+    computeChildBounds(_childBounds, child);
+    compoundBvh.update(shape.bvh, childIndex, _childBounds);
+    compoundBvh.bounds(shape.aabb, shape.bvh);
+}
+
 const _computeCompoundMassProperties_childMass = /* @__PURE__ */ massProperties.create();
 const _computeCompoundMassProperties_childCOM = /* @__PURE__ */ vec3.create();
 const _computeCompoundMassProperties_childCOMRelative = /* @__PURE__ */ vec3.create();
@@ -340,12 +453,34 @@ export const def = /* @__PURE__ */ (() =>
 
 /* cast ray */
 
+const _toCompoundSpace_invQuat = /* @__PURE__ */ quat.create();
+
+/** transforms a ray to the space of a compound at a position and rotation */
+function rayToCompoundSpace(out: Raycast3, ray: Raycast3, position: Vec3, quaternion: Quat): void {
+    quat.conjugate(_toCompoundSpace_invQuat, quaternion);
+    vec3.subtract(out.origin, ray.origin, position);
+    vec3.transformQuat(out.origin, out.origin, _toCompoundSpace_invQuat);
+    vec3.transformQuat(out.direction, ray.direction, _toCompoundSpace_invQuat);
+    out.length = ray.length;
+}
+
+/** transforms a point to the space of a compound at a position and rotation */
+function pointToCompoundSpace(out: Vec3, pointX: number, pointY: number, pointZ: number, position: Vec3, quaternion: Quat): void {
+    quat.conjugate(_toCompoundSpace_invQuat, quaternion);
+    vec3.set(out, pointX - position[0], pointY - position[1], pointZ - position[2]);
+    vec3.transformQuat(out, out, _toCompoundSpace_invQuat);
+}
+
 const _castRayVsCompound_pos = /* @__PURE__ */ vec3.create();
 const _castRayVsCompound_quat = /* @__PURE__ */ quat.create();
 const _castRayVsCompound_transformedTranslation = /* @__PURE__ */ vec3.create();
 const _castRayVsCompound_worldPos = /* @__PURE__ */ vec3.create();
 const _castRayVsCompound_worldRot = /* @__PURE__ */ quat.create();
 const _castRayVsCompound_subShapeIdBuilder = /* @__PURE__ */ subShape.builder();
+const _castRayVsCompound_ray = /* @__PURE__ */ raycast3.create();
+
+/** bvh traversal stack shared by all compound queries, nested compounds push and pop above the entries of their parent */
+const _stack = /* @__PURE__ */ bvhStack.create(64);
 
 function castRayVsCompound(
     collector: CastRayCollector,
@@ -368,11 +503,50 @@ function castRayVsCompound(
     vec3.set(_castRayVsCompound_pos, posX, posY, posZ);
     quat.set(_castRayVsCompound_quat, quatX, quatY, quatZ, quatW);
 
-    for (let childIndex = 0; childIndex < shape.children.length; childIndex++) {
+    // transform the ray to compound space to skip children it misses, scaled compounds visit every child
+    const cull = scaleX === 1 && scaleY === 1 && scaleZ === 1;
+    const localRay = _castRayVsCompound_ray;
+    if (cull) {
+        rayToCompoundSpace(localRay, ray, _castRayVsCompound_pos, _castRayVsCompound_quat);
+    }
+
+    const nodes = shape.bvh.nodes;
+    if (shape.bvh.root === -1) return;
+
+    const stackBase = _stack.size;
+    bvhStack.push(_stack, shape.bvh.root, cull ? rayDistanceToBox3(localRay, nodes[shape.bvh.root].aabb) : 0);
+
+    while (_stack.size > stackBase) {
+        const entry = bvhStack.pop(_stack)!;
+        const nodeIndex = entry.nodeIndex;
+
         if (collector.earlyOutFraction <= 0) {
+            _stack.size = stackBase;
             break;
         }
 
+        // skip nodes the ray misses or enters beyond the closest hit
+        if (entry.distance >= collector.earlyOutFraction) {
+            continue;
+        }
+
+        const node = nodes[nodeIndex];
+        if (!compoundBvh.isLeaf(node)) {
+            const leftDist = cull ? rayDistanceToBox3(localRay, nodes[node.left].aabb) : 0;
+            const rightDist = cull ? rayDistanceToBox3(localRay, nodes[node.right].aabb) : 0;
+
+            // push the farther child first, so the closer child is visited first
+            if (leftDist <= rightDist) {
+                bvhStack.push(_stack, node.right, rightDist);
+                bvhStack.push(_stack, node.left, leftDist);
+            } else {
+                bvhStack.push(_stack, node.left, leftDist);
+                bvhStack.push(_stack, node.right, rightDist);
+            }
+            continue;
+        }
+
+        const childIndex = node.childIndex;
         const child = shape.children[childIndex];
 
         _castRayVsCompound_subShapeIdBuilder.value = subShapeId;
@@ -408,6 +582,13 @@ function castRayVsCompound(
             scaleY,
             scaleZ,
         );
+
+        // nested compounds overwrite the temporaries
+        vec3.set(_castRayVsCompound_pos, posX, posY, posZ);
+        quat.set(_castRayVsCompound_quat, quatX, quatY, quatZ, quatW);
+        if (cull) {
+            rayToCompoundSpace(localRay, ray, _castRayVsCompound_pos, _castRayVsCompound_quat);
+        }
     }
 }
 
@@ -419,6 +600,7 @@ const _collidePointVsCompound_transformedTranslation = /* @__PURE__ */ vec3.crea
 const _collidePointVsCompound_worldPos = /* @__PURE__ */ vec3.create();
 const _collidePointVsCompound_worldRot = /* @__PURE__ */ quat.create();
 const _collidePointVsCompound_subShapeIdBuilder = /* @__PURE__ */ subShape.builder();
+const _collidePointVsCompound_localPoint = /* @__PURE__ */ vec3.create();
 
 function collidePointVsCompound(
     collector: CollidePointCollector,
@@ -440,11 +622,42 @@ function collidePointVsCompound(
     scaleBY: number,
     scaleBZ: number,
 ): void {
-    for (let childIndex = 0; childIndex < shapeB.children.length; childIndex++) {
+    vec3.set(_collidePointVsCompound_posB, posBX, posBY, posBZ);
+    quat.set(_collidePointVsCompound_quatB, quatBX, quatBY, quatBZ, quatBW);
+
+    // transform the point to compound space to skip children that don't contain it, scaled compounds visit every child
+    const cull = scaleBX === 1 && scaleBY === 1 && scaleBZ === 1;
+    const localPoint = _collidePointVsCompound_localPoint;
+    if (cull) {
+        pointToCompoundSpace(localPoint, pointX, pointY, pointZ, _collidePointVsCompound_posB, _collidePointVsCompound_quatB);
+    }
+
+    const nodes = shapeB.bvh.nodes;
+    if (shapeB.bvh.root === -1) return;
+
+    const stackBase = _stack.size;
+    bvhStack.push(_stack, shapeB.bvh.root, 0);
+
+    while (_stack.size > stackBase) {
+        const nodeIndex = bvhStack.pop(_stack)!.nodeIndex;
+
         if (collector.shouldEarlyOut()) {
+            _stack.size = stackBase;
             break;
         }
 
+        const node = nodes[nodeIndex];
+        if (cull && !box3.containsPoint(node.aabb, localPoint)) {
+            continue;
+        }
+
+        if (!compoundBvh.isLeaf(node)) {
+            bvhStack.push(_stack, node.right, 0);
+            bvhStack.push(_stack, node.left, 0);
+            continue;
+        }
+
+        const childIndex = node.childIndex;
         const child = shapeB.children[childIndex];
 
         _collidePointVsCompound_subShapeIdBuilder.value = subShapeIdB;
@@ -457,8 +670,6 @@ function collidePointVsCompound(
         );
 
         // accumulate transform
-        vec3.set(_collidePointVsCompound_posB, posBX, posBY, posBZ);
-        quat.set(_collidePointVsCompound_quatB, quatBX, quatBY, quatBZ, quatBW);
         vec3.transformQuat(_collidePointVsCompound_transformedTranslation, child.position, _collidePointVsCompound_quatB);
         vec3.add(_collidePointVsCompound_worldPos, _collidePointVsCompound_posB, _collidePointVsCompound_transformedTranslation);
         quat.multiply(_collidePointVsCompound_worldRot, _collidePointVsCompound_quatB, child.quaternion);
@@ -484,11 +695,69 @@ function collidePointVsCompound(
             scaleBY,
             scaleBZ,
         );
+
+        // nested compounds overwrite the temporaries
+        vec3.set(_collidePointVsCompound_posB, posBX, posBY, posBZ);
+        quat.set(_collidePointVsCompound_quatB, quatBX, quatBY, quatBZ, quatBW);
+        if (cull) {
+            pointToCompoundSpace(localPoint, pointX, pointY, pointZ, _collidePointVsCompound_posB, _collidePointVsCompound_quatB);
+        }
     }
 }
 
 /* collide shape */
 
+const _boundsToCompoundSpace_pos = /* @__PURE__ */ vec3.create();
+const _boundsToCompoundSpace_quat = /* @__PURE__ */ quat.create();
+const _boundsToCompoundSpace_scale = /* @__PURE__ */ vec3.create();
+const _boundsToCompoundSpace_mat4 = /* @__PURE__ */ mat4.create();
+const _boundsToCompoundSpace_margin = /* @__PURE__ */ vec3.create();
+
+/** computes the bounds of a shape in the space of a compound, expanded by a margin */
+function boundsToCompoundSpace(
+    out: Box3,
+    shape: Shape,
+    posX: number,
+    posY: number,
+    posZ: number,
+    quatX: number,
+    quatY: number,
+    quatZ: number,
+    quatW: number,
+    scaleX: number,
+    scaleY: number,
+    scaleZ: number,
+    compoundPosX: number,
+    compoundPosY: number,
+    compoundPosZ: number,
+    compoundQuatX: number,
+    compoundQuatY: number,
+    compoundQuatZ: number,
+    compoundQuatW: number,
+    margin: number,
+): void {
+    quat.set(_toCompoundSpace_invQuat, -compoundQuatX, -compoundQuatY, -compoundQuatZ, compoundQuatW);
+
+    vec3.set(_boundsToCompoundSpace_pos, posX - compoundPosX, posY - compoundPosY, posZ - compoundPosZ);
+    vec3.transformQuat(_boundsToCompoundSpace_pos, _boundsToCompoundSpace_pos, _toCompoundSpace_invQuat);
+
+    quat.set(_boundsToCompoundSpace_quat, quatX, quatY, quatZ, quatW);
+    quat.multiply(_boundsToCompoundSpace_quat, _toCompoundSpace_invQuat, _boundsToCompoundSpace_quat);
+
+    vec3.set(_boundsToCompoundSpace_scale, scaleX, scaleY, scaleZ);
+
+    const aabbMatrix = mat4.fromRotationTranslationScale(
+        _boundsToCompoundSpace_mat4,
+        _boundsToCompoundSpace_quat,
+        _boundsToCompoundSpace_pos,
+        _boundsToCompoundSpace_scale,
+    );
+    box3.transformMat4(out, shape.aabb, aabbMatrix);
+    box3.expandByExtents(out, out, vec3.setScalar(_boundsToCompoundSpace_margin, margin));
+}
+
+const _collideShape_localBounds = /* @__PURE__ */ box3.create();
+
 const _transformedTranslation = /* @__PURE__ */ vec3.create();
 
 function collideCompoundVsShape(
@@ -522,12 +791,49 @@ function collideCompoundVsShape(
     scaleBZ: number,
 ): void {
     const compound = shapeA as CompoundShape;
+    const nodes = compound.bvh.nodes;
+    if (compound.bvh.root === -1) return;
+
+    // skip children that don't overlap the bounds of shape B in compound space, scaled compounds visit every child
+    const cull = scaleAX === 1 && scaleAY === 1 && scaleAZ === 1;
+    const localBounds = _collideShape_localBounds;
+    if (cull) {
+        // biome-ignore format: readability
+        boundsToCompoundSpace(
+            localBounds,
+            shapeB,
+            posBX, posBY, posBZ,
+            quatBX, quatBY, quatBZ, quatBW,
+            scaleBX, scaleBY, scaleBZ,
+            posAX, posAY, posAZ,
+            quatAX, quatAY, quatAZ, quatAW,
+            settings.maxSeparationDistance,
+        );
+    }
+
+    const stackBase = _stack.size;
+    bvhStack.push(_stack, compound.bvh.root, 0);
+
+    while (_stack.size > stackBase) {
+        const nodeIndex = bvhStack.pop(_stack)!.nodeIndex;
 
-    for (let childIndex = 0; childIndex < compound.children.length; childIndex++) {
         if (collector.shouldEarlyOut()) {
+            _stack.size = stackBase;
             break;
         }
 
+        const node = nodes[nodeIndex];
+        if (cull && !box3.intersectsBox3(node.aabb, localBounds)) {
+            continue;
+        }
+
+        if (!compoundBvh.isLeaf(node)) {
+            bvhStack.push(_stack, node.right, 0);
+            bvhStack.push(_stack, node.left, 0);
+            continue;
+        }
+
+        const childIndex = node.childIndex;
         const child = compound.children[childIndex];
 
         _subShapeIdBuilder.value = subShapeIdA;
@@ -574,6 +880,21 @@ function collideCompoundVsShape(
                 scaleBZ,
             );
         }
+
+        // nested compounds overwrite the temporaries
+        if (cull) {
+            // biome-ignore format: readability
+            boundsToCompoundSpace(
+                localBounds,
+                shapeB,
+                posBX, posBY, posBZ,
+                quatBX, quatBY, quatBZ, quatBW,
+                scaleBX, scaleBY, scaleBZ,
+                posAX, posAY, posAZ,
+                quatAX, quatAY, quatAZ, quatAW,
+                settings.maxSeparationDistance,
+            );
+        }
     }
 }
 
@@ -608,12 +929,49 @@ function collideShapeVsCompound(
     scaleBZ: number,
 ): void {
     const compound = shapeB as CompoundShape;
+    const nodes = compound.bvh.nodes;
+    if (compound.bvh.root === -1) return;
+
+    // skip children that don't overlap the bounds of shape A in compound space, scaled compounds visit every child
+    const cull = scaleBX === 1 && scaleBY === 1 && scaleBZ === 1;
+    const localBounds = _collideShape_localBounds;
+    if (cull) {
+        // biome-ignore format: readability
+        boundsToCompoundSpace(
+            localBounds,
+            shapeA,
+            posAX, posAY, posAZ,
+            quatAX, quatAY, quatAZ, quatAW,
+            scaleAX, scaleAY, scaleAZ,
+            posBX, posBY, posBZ,
+            quatBX, quatBY, quatBZ, quatBW,
+            settings.maxSeparationDistance,
+        );
+    }
+
+    const stackBase = _stack.size;
+    bvhStack.push(_stack, compound.bvh.root, 0);
+
+    while (_stack.size > stackBase) {
+        const nodeIndex = bvhStack.pop(_stack)!.nodeIndex;
 
-    for (let childIndex = 0; childIndex < compound.children.length; childIndex++) {
         if (collector.shouldEarlyOut()) {
+            _stack.size = stackBase;
             break;
         }
 
+        const node = nodes[nodeIndex];
+        if (cull && !box3.intersectsBox3(node.aabb, localBounds)) {
+            continue;
+        }
+
+        if (!compoundBvh.isLeaf(node)) {
+            bvhStack.push(_stack, node.right, 0);
+            bvhStack.push(_stack, node.left, 0);
+            continue;
+        }
+
+        const childIndex = node.childIndex;
         const child = compound.children[childIndex];
 
         _subShapeIdBuilder.value = subShapeIdB;
@@ -660,11 +1018,112 @@ function collideShapeVsCompound(
                 scaleBZ,
             );
         }
+
+        // nested compounds overwrite the temporaries
+        if (cull) {
+            // biome-ignore format: readability
+            boundsToCompoundSpace(
+                localBounds,
+                shapeA,
+                posAX, posAY, posAZ,
+                quatAX, quatAY, quatAZ, quatAW,
+                scaleAX, scaleAY, scaleAZ,
+                posBX, posBY, posBZ,
+                quatBX, quatBY, quatBZ, quatBW,
+                settings.maxSeparationDistance,
+            );
+        }
     }
 }
 
 /* cast shape */
 
+const _sweepToCompoundSpace_bounds = /* @__PURE__ */ box3.create();
+const _sweepToCompoundSpace_displacement = /* @__PURE__ */ vec3.create();
+
+/**
+ * sets up a sweep of the bounds of a shape moving by a displacement, in the space of a compound.
+ * the sweep is a ray from the center of the bounds, that hits the bounds of children expanded by the half extents.
+ */
+function sweepToCompoundSpace(
+    outRay: Raycast3,
+    outHalfExtents: Vec3,
+    shape: Shape,
+    posX: number,
+    posY: number,
+    posZ: number,
+    quatX: number,
+    quatY: number,
+    quatZ: number,
+    quatW: number,
+    scaleX: number,
+    scaleY: number,
+    scaleZ: number,
+    dispX: number,
+    dispY: number,
+    dispZ: number,
+    compoundPosX: number,
+    compoundPosY: number,
+    compoundPosZ: number,
+    compoundQuatX: number,
+    compoundQuatY: number,
+    compoundQuatZ: number,
+    compoundQuatW: number,
+): void {
+    const bounds = _sweepToCompoundSpace_bounds;
+    // biome-ignore format: readability
+    boundsToCompoundSpace(
+        bounds,
+        shape,
+        posX, posY, posZ,
+        quatX, quatY, quatZ, quatW,
+        scaleX, scaleY, scaleZ,
+        compoundPosX, compoundPosY, compoundPosZ,
+        compoundQuatX, compoundQuatY, compoundQuatZ, compoundQuatW,
+        0,
+    );
+
+    box3.center(outRay.origin, bounds);
+    vec3.set(
+        outHalfExtents,
+        (bounds[1][0] - bounds[0][0]) * 0.5,
+        (bounds[1][1] - bounds[0][1]) * 0.5,
+        (bounds[1][2] - bounds[0][2]) * 0.5,
+    );
+
+    // boundsToCompoundSpace leaves the inverse compound rotation in _toCompoundSpace_invQuat
+    const displacement = vec3.set(_sweepToCompoundSpace_displacement, dispX, dispY, dispZ);
+    vec3.transformQuat(displacement, displacement, _toCompoundSpace_invQuat);
+
+    outRay.length = vec3.length(displacement);
+    if (outRay.length > 1e-10) {
+        vec3.scale(outRay.direction, displacement, 1 / outRay.length);
+    } else {
+        vec3.zero(outRay.direction);
+    }
+}
+
+const _sweptDistanceToBox3_bounds = /* @__PURE__ */ box3.create();
+
+/** fraction of a sweep at which the swept bounds first touch a box, Infinity if they never do */
+function sweptDistanceToBox3(ray: Raycast3, halfExtents: Vec3, box: Box3): number {
+    const expanded = _sweptDistanceToBox3_bounds;
+    expanded[0][0] = box[0][0] - halfExtents[0];
+    expanded[0][1] = box[0][1] - halfExtents[1];
+    expanded[0][2] = box[0][2] - halfExtents[2];
+    expanded[1][0] = box[1][0] + halfExtents[0];
+    expanded[1][1] = box[1][1] + halfExtents[1];
+    expanded[1][2] = box[1][2] + halfExtents[2];
+
+    if (ray.length <= 1e-10) {
+        return box3.containsPoint(expanded, ray.origin) ? 0 : Infinity;
+    }
+    return rayDistanceToBox3(ray, expanded);
+}
+
+const _castShape_ray = /* @__PURE__ */ raycast3.create();
+const _castShape_halfExtents = /* @__PURE__ */ vec3.create();
+
 const _subShapeIdBuilder = /* @__PURE__ */ subShape.builder();
 const _worldPos = /* @__PURE__ */ vec3.create();
 const _worldRot = /* @__PURE__ */ quat.create();
@@ -711,12 +1170,64 @@ function castCompoundVsShape(
     scaleBZ: number,
 ): void {
     const compound = shapeA as CompoundShape;
+    const nodes = compound.bvh.nodes;
+    if (compound.bvh.root === -1) return;
+
+    // skip children whose sweep misses shape B, by sweeping the bounds of shape B in the opposite direction in
+    // compound space, scaled compounds visit every child
+    const cull = scaleAX === 1 && scaleAY === 1 && scaleAZ === 1;
+    const ray = _castShape_ray;
+    const halfExtents = _castShape_halfExtents;
+    if (cull) {
+        // biome-ignore format: readability
+        sweepToCompoundSpace(
+            ray,
+            halfExtents,
+            shapeB,
+            posBX, posBY, posBZ,
+            quatBX, quatBY, quatBZ, quatBW,
+            scaleBX, scaleBY, scaleBZ,
+            -dispAX, -dispAY, -dispAZ,
+            posAX, posAY, posAZ,
+            quatAX, quatAY, quatAZ, quatAW,
+        );
+    }
+
+    const stackBase = _stack.size;
+    bvhStack.push(_stack, compound.bvh.root, cull ? sweptDistanceToBox3(ray, halfExtents, nodes[compound.bvh.root].aabb) : 0);
+
+    while (_stack.size > stackBase) {
+        const entry = bvhStack.pop(_stack)!;
+        const nodeIndex = entry.nodeIndex;
 
-    for (let childIndex = 0; childIndex < compound.children.length; childIndex++) {
         if (collector.earlyOutFraction <= -Infinity) {
+            _stack.size = stackBase;
             break;
         }
 
+        // skip children the sweep misses or touches beyond the closest hit, children touching at the start are
+        // always visited as they may penetrate deeper
+        if (entry.distance > Math.max(collector.earlyOutFraction, 0)) {
+            continue;
+        }
+
+        const node = nodes[nodeIndex];
+        if (!compoundBvh.isLeaf(node)) {
+            const leftDist = cull ? sweptDistanceToBox3(ray, halfExtents, nodes[node.left].aabb) : 0;
+            const rightDist = cull ? sweptDistanceToBox3(ray, halfExtents, nodes[node.right].aabb) : 0;
+
+            // push the farther child first, so the closer child is visited first
+            if (leftDist <= rightDist) {
+                bvhStack.push(_stack, node.right, rightDist);
+                bvhStack.push(_stack, node.left, leftDist);
+            } else {
+                bvhStack.push(_stack, node.left, leftDist);
+                bvhStack.push(_stack, node.right, rightDist);
+            }
+            continue;
+        }
+
+        const childIndex = node.childIndex;
         const child = compound.children[childIndex];
 
         _subShapeIdBuilder.value = subShapeIdA;
@@ -770,6 +1281,22 @@ function castCompoundVsShape(
                 scaleBZ,
             );
         }
+
+        // nested compounds overwrite the temporaries
+        if (cull) {
+            // biome-ignore format: readability
+            sweepToCompoundSpace(
+                ray,
+                halfExtents,
+                shapeB,
+                posBX, posBY, posBZ,
+                quatBX, quatBY, quatBZ, quatBW,
+                scaleBX, scaleBY, scaleBZ,
+                -dispAX, -dispAY, -dispAZ,
+                posAX, posAY, posAZ,
+                quatAX, quatAY, quatAZ, quatAW,
+            );
+        }
     }
 }
 
@@ -807,12 +1334,63 @@ function castShapeVsCompound(
     scaleBZ: number,
 ): void {
     const compound = shapeB as CompoundShape;
+    const nodes = compound.bvh.nodes;
+    if (compound.bvh.root === -1) return;
+
+    // skip children the sweep of the bounds of shape A in compound space misses, scaled compounds visit every child
+    const cull = scaleBX === 1 && scaleBY === 1 && scaleBZ === 1;
+    const ray = _castShape_ray;
+    const halfExtents = _castShape_halfExtents;
+    if (cull) {
+        // biome-ignore format: readability
+        sweepToCompoundSpace(
+            ray,
+            halfExtents,
+            shapeA,
+            posAX, posAY, posAZ,
+            quatAX, quatAY, quatAZ, quatAW,
+            scaleAX, scaleAY, scaleAZ,
+            dispAX, dispAY, dispAZ,
+            posBX, posBY, posBZ,
+            quatBX, quatBY, quatBZ, quatBW,
+        );
+    }
+
+    const stackBase = _stack.size;
+    bvhStack.push(_stack, compound.bvh.root, cull ? sweptDistanceToBox3(ray, halfExtents, nodes[compound.bvh.root].aabb) : 0);
+
+    while (_stack.size > stackBase) {
+        const entry = bvhStack.pop(_stack)!;
+        const nodeIndex = entry.nodeIndex;
 
-    for (let childIndex = 0; childIndex < compound.children.length; childIndex++) {
         if (collector.earlyOutFraction <= -Infinity) {
+            _stack.size = stackBase;
             break;
         }
 
+        // skip children the sweep misses or touches beyond the closest hit, children touching at the start are
+        // always visited as they may penetrate deeper
+        if (entry.distance > Math.max(collector.earlyOutFraction, 0)) {
+            continue;
+        }
+
+        const node = nodes[nodeIndex];
+        if (!compoundBvh.isLeaf(node)) {
+            const leftDist = cull ? sweptDistanceToBox3(ray, halfExtents, nodes[node.left].aabb) : 0;
+            const rightDist = cull ? sweptDistanceToBox3(ray, halfExtents, nodes[node.right].aabb) : 0;
+
+            // push the farther child first, so the closer child is visited first
+            if (leftDist <= rightDist) {
+                bvhStack.push(_stack, node.right, rightDist);
+                bvhStack.push(_stack, node.left, leftDist);
+            } else {
+                bvhStack.push(_stack, node.left, leftDist);
+                bvhStack.push(_stack, node.right, rightDist);
+            }
+            continue;
+        }
+
+        const childIndex = node.childIndex;
         const child = compound.children[childIndex];
 
         _subShapeIdBuilder.value = subShapeIdB;
@@ -862,5 +1440,21 @@ function castShapeVsCompound(
                 scaleBZ,
             );
         }
+
+        // nested compounds overwrite the temporaries
+        if (cull) {
+            // biome-ignore format: readability
+            sweepToCompoundSpace(
+                ray,
+                halfExtents,
+                shapeA,
+                posAX, posAY, posAZ,
+                quatAX, quatAY, quatAZ, quatAW,
+                scaleAX, scaleAY, scaleAZ,
+                dispAX, dispAY, dispAZ,
+                posBX, posBY, posBZ,
+                quatBX, quatBY, quatBZ, quatBW,
+            );
+        }
     }
 }
@@ -41,7 +41,7 @@ export type CylinderShape = {
 
 // octagon template for cap faces
 // y component is always 1.0 (unit circle at Y=1), will be scaled to ±halfHeight
-const CYLINDER_CAP_OCTAGON = [
+export const CYLINDER_CAP_OCTAGON = [
     [0.0, 1.0, 1.0],
     [0.707106769, 1.0, 0.707106769], // sqrt(2)/2 ≈ 0.707
     [1.0, 1.0, 0.0],
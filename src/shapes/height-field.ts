@@ -0,0 +1,1455 @@
+import { type Box3, box3, mat4, quat, type Raycast3, raycast3, triangle3, type Vec3, vec3 } from 'mathcat';
+import type { MassProperties } from '../body/mass-properties';
+import * as subShape from '../body/sub-shape';
+import * as activeEdges from '../collision/active-edges';
+import { type CastRayCollector, type CastRaySettings, CastRayStatus, createCastRayHit } from '../collision/cast-ray-vs-shape';
+import {
+    type CastShapeCollector,
+    type CastShapeSettings,
+    CastShapeStatus,
+    createCastShapeHit,
+    reversedCastShapeVsShape,
+} from '../collision/cast-shape-vs-shape';
+import type { CollidePointCollector, CollidePointSettings } from '../collision/collide-point-vs-shape';
+import { createCollidePointHit } from '../collision/collide-point-vs-shape';
+import {
+    type CollideShapeCollector,
+    type CollideShapeSettings,
+    createCollideShapeHit,
+    reversedCollideShapeVsShape,
+} from '../collision/collide-shape-vs-shape';
+import { createGjkCastShapeResult } from '../collision/gjk';
+import {
+    createPenetrationDepth,
+    PenetrationDepthStatus,
+    penetrationCastShape,
+    penetrationDepthStepEPA,
+    penetrationDepthStepGJK,
+} from '../collision/penetration';
+import { createSimplex } from '../collision/simplex';
+import {
+    createAddConvexRadiusSupport,
+    createShapeSupportPool,
+    createTriangleSupport,
+    getShapeSupportFunction,
+    SupportFunctionMode,
+    setAddConvexRadiusSupport,
+    setTriangleSupport,
+} from '../collision/support';
+import { assert } from '../utils/assert';
+import { isScaleInsideOut, transformFace } from '../utils/face';
+import {
+    type ConvexShape,
+    defineShape,
+    getShapeSupportingFace,
+    type Shape,
+    ShapeCategory,
+    ShapeType,
+    type SupportingFaceResult,
+    type SurfaceNormalResult,
+    setCastShapeFn,
+    setCollideShapeFn,
+    shapeDefs,
+} from './shapes';
+
+/**
+ * Height value that marks a sample as a hole.
+ * Triangles that use a hole sample are removed from the height field.
+ */
+export const HEIGHT_FIELD_NO_COLLISION = Number.MAX_VALUE;
+
+export type HeightFieldShapeSettings = {
+    /** number of height samples along the local x axis, must be >= 2 */
+    sampleCountX: number;
+    /** number of height samples along the local z axis, must be >= 2 */
+    sampleCountZ: number;
+    /**
+     * row-major height samples, heights[z * sampleCountX + x].
+     * use HEIGHT_FIELD_NO_COLLISION to mark a sample as a hole.
+     */
+    heights: ArrayLike<number>;
+    /**
+     * local space position of sample (0, 0).
+     * @default [0, 0, 0]
+     */
+    offset?: Vec3;
+    /**
+     * scale applied to samples, a sample (x, z) is placed at offset + scale * [x, heights[z * sampleCountX + x], z].
+     * @default [1, 1, 1]
+     */
+    scale?: Vec3;
+    /**
+     * Optional per-cell material indices.
+     * Length should match the number of cells ((sampleCountX - 1) * (sampleCountZ - 1)), both triangles in a cell share the material.
+     * Default: -1 for all cells (no material).
+     */
+    materialIndices?: number[];
+    /**
+     * cosine threshold for active edge determination.
+     * edges with cos(dihedral_angle) >= this value are considered smooth/inactive.
+     * default: cos(5°) = 0.996195
+     * set to -1.0 to disable active edge determination (all edges active)
+     */
+    activeEdgeCosThresholdAngle?: number;
+};
+
+export const DEFAULT_HEIGHT_FIELD_OPTIONS = {
+    activeEdgeCosThresholdAngle: 0.996195, // cos(5°)
+};
+
+/**
+ * A regular grid of height samples, typically used for large static terrains.
+ *
+ * Each cell between four samples is split into two triangles:
+ * - triangle 0: (x, z), (x, z + 1), (x + 1, z + 1)
+ * - triangle 1: (x, z), (x + 1, z + 1), (x + 1, z)
+ *
+ * Triangle index = (z * (sampleCountX - 1) + x) * 2 + triangle, which is the index encoded in sub shape ids.
+ */
+export type HeightFieldShape = {
+    type: ShapeType.HEIGHT_FIELD;
+    sampleCountX: number;
+    sampleCountZ: number;
+    /** row-major height samples */
+    heights: number[];
+    offset: Vec3;
+    scale: Vec3;
+    /** per-cell material indices, empty if no materials were provided */
+    materialIndices: number[];
+    /** per-cell active edges, bits 0-2 for triangle 0 and bits 3-5 for triangle 1 */
+    activeEdges: number[];
+    aabb: Box3;
+    centerOfMass: Vec3;
+    volume: number;
+};
+
+export function create(o: HeightFieldShapeSettings): HeightFieldShape {
+    if (o.sampleCountX < 2 || o.sampleCountZ < 2) {
+        throw new Error('Invalid sample count, must be >= 2');
+    }
+
+    if (o.heights.length !== o.sampleCountX * o.sampleCountZ) {
+        throw new Error('Invalid heights, length must be sampleCountX * sampleCountZ');
+    }
+
+    const shape: HeightFieldShape = {
+        type: ShapeType.HEIGHT_FIELD,
+        sampleCountX: o.sampleCountX,
+        sampleCountZ: o.sampleCountZ,
+        heights: Array.from(o.heights),
+        offset: o.offset ? vec3.clone(o.offset) : vec3.create(),
+        scale: o.scale ? vec3.clone(o.scale) : vec3.fromValues(1, 1, 1),
+        materialIndices: o.materialIndices ? o.materialIndices.slice() : [],
+        activeEdges: new Array((o.sampleCountX - 1) * (o.sampleCountZ - 1)).fill(0),
+        aabb: box3.create(),
+        centerOfMass: [0, 0, 0],
+        volume: 0,
+    };
+
+    computeAABB(shape);
+
+    computeActiveEdges(shape, o.activeEdgeCosThresholdAngle ?? DEFAULT_HEIGHT_FIELD_OPTIONS.activeEdgeCosThresholdAngle);
+
+    return shape;
+}
+
+/** get the number of triangles in a height field, including triangles removed by holes */
+export function getTriangleCount(shape: HeightFieldShape): number {
+    return (shape.sampleCountX - 1) * (shape.sampleCountZ - 1) * 2;
+}
+
+/** returns true if the sample at (x, z) is a hole */
+export function isHole(shape: HeightFieldShape, x: number, z: number): boolean {
+    return shape.heights[z * shape.sampleCountX + x] === HEIGHT_FIELD_NO_COLLISION;
+}
+
+/**
+ * get triangle vertex positions in the height field's local space.
+ * @returns false if the triangle was removed by a hole
+ */
+export function getTriangleVertices(outA: Vec3, outB: Vec3, outC: Vec3, shape: HeightFieldShape, triangleIndex: number): boolean {
+    const cellCountX = shape.sampleCountX - 1;
+    const cellIndex = triangleIndex >> 1;
+    const cellX = cellIndex % cellCountX;
+    const cellZ = (cellIndex - cellX) / cellCountX;
+    return getCellTriangle(outA, outB, outC, shape, cellX, cellZ, triangleIndex & 1, 1, 1, 1);
+}
+
+/** get material id for a triangle */
+export function getMaterialId(shape: HeightFieldShape, triangleIndex: number): number {
+    return shape.materialIndices[triangleIndex >> 1] ?? -1;
+}
+
+/** get active edges for a triangle, bit 0 = edge ab, bit 1 = edge bc, bit 2 = edge ca */
+export function getActiveEdges(shape: HeightFieldShape, triangleIndex: number): number {
+    return (shape.activeEdges[triangleIndex >> 1] >> ((triangleIndex & 1) * 3)) & 0b111;
+}
+
+/**
+ * get the vertices of triangle 0 or 1 of a cell, with sample offset and scale applied and multiplied by an additional scale.
+ * @returns false if the cell is out of range or the triangle was removed by a hole
+ */
+function getCellTriangle(
+    outA: Vec3,
+    outB: Vec3,
+    outC: Vec3,
+    shape: HeightFieldShape,
+    cellX: number,
+    cellZ: number,
+    triangle: number,
+    scaleX: number,
+    scaleY: number,
+    scaleZ: number,
+): boolean {
+    const sampleCountX = shape.sampleCountX;
+
+    if (cellX < 0 || cellZ < 0 || cellX >= sampleCountX - 1 || cellZ >= shape.sampleCountZ - 1) {
+        return false;
+    }
+
+    const heights = shape.heights;
+    const i1 = cellZ * sampleCountX + cellX;
+    const h1 = heights[i1];
+    const h4 = heights[i1 + sampleCountX + 1];
+
+    // triangle 0 uses sample (x, z + 1), triangle 1 uses sample (x + 1, z)
+    const hOther = triangle === 0 ? heights[i1 + sampleCountX] : heights[i1 + 1];
+
+    if (h1 === HEIGHT_FIELD_NO_COLLISION || h4 === HEIGHT_FIELD_NO_COLLISION || hOther === HEIGHT_FIELD_NO_COLLISION) {
+        return false;
+    }
+
+    const sx = shape.scale[0] * scaleX;
+    const sy = shape.scale[1] * scaleY;
+    const sz = shape.scale[2] * scaleZ;
+    const ox = shape.offset[0] * scaleX;
+    const oy = shape.offset[1] * scaleY;
+    const oz = shape.offset[2] * scaleZ;
+
+    const x0 = ox + cellX * sx;
+    const x1 = ox + (cellX + 1) * sx;
+    const z0 = oz + cellZ * sz;
+    const z1 = oz + (cellZ + 1) * sz;
+
+    vec3.set(outA, x0, oy + h1 * sy, z0);
+
+    if (triangle === 0) {
+        vec3.set(outB, x0, oy + hOther * sy, z1);
+        vec3.set(outC, x1, oy + h4 * sy, z1);
+    } else {
+        vec3.set(outB, x1, oy + h4 * sy, z1);
+        vec3.set(outC, x1, oy + hOther * sy, z0);
+    }
+
+    return true;
+}
+
+/** range of cells, inclusive */
+type CellRange = {
+    minX: number;
+    minZ: number;
+    maxX: number;
+    maxZ: number;
+};
+
+/**
+ * compute the range of cells overlapping the given bounds.
+ * @param bounds bounds in the height field's local space, multiplied by the given scale
+ * @returns false if no cells overlap the bounds
+ */
+function getCellRange(out: CellRange, shape: HeightFieldShape, bounds: Box3, scaleX: number, scaleZ: number): boolean {
+    const sx = shape.scale[0] * scaleX;
+    const sz = shape.scale[2] * scaleZ;
+    const ox = shape.offset[0] * scaleX;
+    const oz = shape.offset[2] * scaleZ;
+
+    const ax = (bounds[0][0] - ox) / sx;
+    const bx = (bounds[1][0] - ox) / sx;
+    const az = (bounds[0][2] - oz) / sz;
+    const bz = (bounds[1][2] - oz) / sz;
+
+    out.minX = Math.max(0, Math.floor(Math.min(ax, bx)));
+    out.maxX = Math.min(shape.sampleCountX - 2, Math.floor(Math.max(ax, bx)));
+    out.minZ = Math.max(0, Math.floor(Math.min(az, bz)));
+    out.maxZ = Math.min(shape.sampleCountZ - 2, Math.floor(Math.max(az, bz)));
+
+    return out.minX <= out.maxX && out.minZ <= out.maxZ;
+}
+
+function computeAABB(shape: HeightFieldShape): void {
+    let minHeight = Infinity;
+    let maxHeight = -Infinity;
+
+    for (const height of shape.heights) {
+        if (height === HEIGHT_FIELD_NO_COLLISION) continue;
+        if (height < minHeight) minHeight = height;
+        if (height > maxHeight) maxHeight = height;
+    }
+
+    // all samples are holes
+    if (minHeight > maxHeight) {
+        return;
+    }
+
+    const { offset, scale } = shape;
+
+    const x0 = offset[0];
+    const x1 = offset[0] + (shape.sampleCountX - 1) * scale[0];
+    const y0 = offset[1] + minHeight * scale[1];
+    const y1 = offset[1] + maxHeight * scale[1];
+    const z0 = offset[2];
+    const z1 = offset[2] + (shape.sampleCountZ - 1) * scale[2];
+
+    vec3.set(shape.aabb[0], Math.min(x0, x1), Math.min(y0, y1), Math.min(z0, z1));
+    vec3.set(shape.aabb[1], Math.max(x0, x1), Math.max(y0, y1), Math.max(z0, z1));
+}
+
+/**
+ * neighbouring triangle for each edge of the two triangles in a cell, as [cell x offset, cell z offset, triangle]
+ * triangle 0 edges: (x, z)-(x, z+1), (x, z+1)-(x+1, z+1), (x+1, z+1)-(x, z)
+ * triangle 1 edges: (x, z)-(x+1, z+1), (x+1, z+1)-(x+1, z), (x+1, z)-(x, z)
+ */
+const EDGE_NEIGHBOURS = [
+    [
+        [-1, 0, 1],
+        [0, 1, 1],
+        [0, 0, 1],
+    ],
+    [
+        [0, 0, 0],
+        [1, 0, 0],
+        [0, -1, 0],
+    ],
+];
+
+const _computeActiveEdges_a = /* @__PURE__ */ vec3.create();
+const _computeActiveEdges_b = /* @__PURE__ */ vec3.create();
+const _computeActiveEdges_c = /* @__PURE__ */ vec3.create();
+const _computeActiveEdges_normal = /* @__PURE__ */ vec3.create();
+const _computeActiveEdges_neighbourNormal = /* @__PURE__ */ vec3.create();
+const _computeActiveEdges_edge = /* @__PURE__ */ vec3.create();
+
+function computeActiveEdges(shape: HeightFieldShape, cosThreshold: number): void {
+    const cellCountX = shape.sampleCountX - 1;
+    const cellCountZ = shape.sampleCountZ - 1;
+
+    const a = _computeActiveEdges_a;
+    const b = _computeActiveEdges_b;
+    const c = _computeActiveEdges_c;
+    const normal = _computeActiveEdges_normal;
+    const neighbourNormal = _computeActiveEdges_neighbourNormal;
+    const edge = _computeActiveEdges_edge;
+
+    for (let cellZ = 0; cellZ < cellCountZ; cellZ++) {
+        for (let cellX = 0; cellX < cellCountX; cellX++) {
+            let cellActiveEdges = 0;
+
+            for (let triangle = 0; triangle < 2; triangle++) {
+                // early exit: if threshold is negative, all edges remain active
+                let triangleActiveEdges = 0b111;
+
+                if (cosThreshold >= 0.0 && getCellTriangleNormal(neighbourNormal, shape, cellX, cellZ, triangle)) {
+                    vec3.copy(normal, neighbourNormal);
+                    getCellTriangle(a, b, c, shape, cellX, cellZ, triangle, 1, 1, 1);
+
+                    triangleActiveEdges = 0;
+
+                    for (let e = 0; e < 3; e++) {
+                        const [dx, dz, neighbourTriangle] = EDGE_NEIGHBOURS[triangle][e];
+
+                        // boundary edges and edges next to holes remain active
+                        if (!getCellTriangleNormal(neighbourNormal, shape, cellX + dx, cellZ + dz, neighbourTriangle)) {
+                            triangleActiveEdges |= 1 << e;
+                            continue;
+                        }
+
+                        // edge direction in this triangle's winding order
+                        if (e === 0) vec3.sub(edge, b, a);
+                        else if (e === 1) vec3.sub(edge, c, b);
+                        else vec3.sub(edge, a, c);
+
+                        if (activeEdges.isEdgeActive(normal, neighbourNormal, edge, cosThreshold)) {
+                            triangleActiveEdges |= 1 << e;
+                        }
+                    }
+                }
+
+                cellActiveEdges |= triangleActiveEdges << (triangle * 3);
+            }
+
+            shape.activeEdges[cellZ * cellCountX + cellX] = cellActiveEdges;
+        }
+    }
+}
+
+const _getCellTriangleNormal_a = /* @__PURE__ */ vec3.create();
+const _getCellTriangleNormal_b = /* @__PURE__ */ vec3.create();
+const _getCellTriangleNormal_c = /* @__PURE__ */ vec3.create();
+const _getCellTriangleNormal_ab = /* @__PURE__ */ vec3.create();
+const _getCellTriangleNormal_ac = /* @__PURE__ */ vec3.create();
+
+/** get the normalized normal of a cell triangle in the height field's local space, returns false if the triangle doesn't exist */
+function getCellTriangleNormal(out: Vec3, shape: HeightFieldShape, cellX: number, cellZ: number, triangle: number): boolean {
+    const a = _getCellTriangleNormal_a;
+    const b = _getCellTriangleNormal_b;
+    const c = _getCellTriangleNormal_c;
+
+    if (!getCellTriangle(a, b, c, shape, cellX, cellZ, triangle, 1, 1, 1)) {
+        return false;
+    }
+
+    vec3.sub(_getCellTriangleNormal_ab, b, a);
+    vec3.sub(_getCellTriangleNormal_ac, c, a);
+    vec3.cross(out, _getCellTriangleNormal_ab, _getCellTriangleNormal_ac);
+    vec3.normalize(out, out);
+
+    return true;
+}
+
+const _subShapeIdPopResult = /* @__PURE__ */ subShape.popResult();
+const _getSurfaceNormal_a = /* @__PURE__ */ vec3.create();
+const _getSurfaceNormal_b = /* @__PURE__ */ vec3.create();
+const _getSurfaceNormal_c = /* @__PURE__ */ vec3.create();
+const _getSurfaceNormal_ab = /* @__PURE__ */ vec3.create();
+const _getSurfaceNormal_ac = /* @__PURE__ */ vec3.create();
+const _getSupportingFace_a = /* @__PURE__ */ vec3.create();
+const _getSupportingFace_b = /* @__PURE__ */ vec3.create();
+const _getSupportingFace_c = /* @__PURE__ */ vec3.create();
+
+export const def = /* @__PURE__ */ (() =>
+    defineShape<HeightFieldShape>({
+        type: ShapeType.HEIGHT_FIELD,
+        category: ShapeCategory.MESH,
+        computeMassProperties(out: MassProperties, _shape: HeightFieldShape): void {
+            // height fields are static collision geometry.
+            // mass properties should be overridden at the body level if needed.
+            out.mass = 0;
+            mat4.identity(out.inertia);
+        },
+        getSurfaceNormal(ioResult: SurfaceNormalResult, shape: HeightFieldShape, subShapeId: number): void {
+            const triangleCount = getTriangleCount(shape);
+            subShape.popIndex(_subShapeIdPopResult, subShapeId, triangleCount);
+            const triangleIndex = _subShapeIdPopResult.value;
+
+            const a = _getSurfaceNormal_a;
+            const b = _getSurfaceNormal_b;
+            const c = _getSurfaceNormal_c;
+
+            if (triangleIndex >= 0 && triangleIndex < triangleCount && getTriangleVertices(a, b, c, shape, triangleIndex)) {
+                vec3.sub(_getSurfaceNormal_ab, b, a);
+                vec3.sub(_getSurfaceNormal_ac, c, a);
+                vec3.cross(ioResult.normal, _getSurfaceNormal_ab, _getSurfaceNormal_ac);
+                vec3.normalize(ioResult.normal, ioResult.normal);
+                return;
+            }
+
+            assert(false, 'Invalid SubShapeID for HeightFieldShape');
+        },
+        getSupportingFace(ioResult: SupportingFaceResult, _direction: Vec3, shape: HeightFieldShape, subShapeId: number): void {
+            const face = ioResult.face;
+            const { position, quaternion, scale } = ioResult;
+
+            // extract triangle index from SubShapeID
+            subShape.popIndex(_subShapeIdPopResult, subShapeId, getTriangleCount(shape));
+            const triangleIndex = _subShapeIdPopResult.value;
+
+            const a = _getSupportingFace_a;
+            const b = _getSupportingFace_b;
+            const c = _getSupportingFace_c;
+
+            if (!getTriangleVertices(a, b, c, shape, triangleIndex)) {
+                face.numVertices = 0;
+                return;
+            }
+
+            // check if scale inverts winding (negative determinant)
+            const insideOut = isScaleInsideOut(scale);
+            const first = insideOut ? c : a;
+            const last = insideOut ? a : c;
+
+            // return the 3 vertices of the triangle
+            face.numVertices = 3;
+            face.vertices[0] = first[0];
+            face.vertices[1] = first[1];
+            face.vertices[2] = first[2];
+            face.vertices[3] = b[0];
+            face.vertices[4] = b[1];
+            face.vertices[5] = b[2];
+            face.vertices[6] = last[0];
+            face.vertices[7] = last[1];
+            face.vertices[8] = last[2];
+
+            transformFace(face, position, quaternion, scale);
+        },
+        getInnerRadius(_shape: HeightFieldShape): number {
+            return 0.0;
+        },
+        castRay: castRayVsHeightField,
+        collidePoint: collidePointVsHeightField,
+        register: () => {
+            for (const shapeDef of Object.values(shapeDefs)) {
+                if (shapeDef.category === ShapeCategory.CONVEX) {
+                    setCollideShapeFn(shapeDef.type, ShapeType.HEIGHT_FIELD, collideConvexVsHeightField);
+                    setCollideShapeFn(ShapeType.HEIGHT_FIELD, shapeDef.type, collideHeightFieldVsConvex);
+                    setCastShapeFn(shapeDef.type, ShapeType.HEIGHT_FIELD, castConvexVsHeightField);
+                    setCastShapeFn(ShapeType.HEIGHT_FIELD, shapeDef.type, castHeightFieldVsConvex);
+                }
+            }
+        },
+    }))();
+
+/* cast ray */
+
+const _castRayVsHeightField_pos = /* @__PURE__ */ vec3.create();
+const _castRayVsHeightField_invQuat = /* @__PURE__ */ quat.create();
+const _castRayVsHeightField_ray = /* @__PURE__ */ raycast3.create();
+const _castRayVsHeightField_hitResult = /* @__PURE__ */ raycast3.createIntersectsTriangleResult();
+const _castRayVsHeightField_a = /* @__PURE__ */ vec3.create();
+const _castRayVsHeightField_b = /* @__PURE__ */ vec3.create();
+const _castRayVsHeightField_c = /* @__PURE__ */ vec3.create();
+const _castRayVsHeightField_hit = /* @__PURE__ */ createCastRayHit();
+const _castRayVsHeightField_subShapeIdBuilder = /* @__PURE__ */ subShape.builder();
+
+function castRayVsHeightField(
+    collector: CastRayCollector,
+    settings: CastRaySettings,
+    ray: Raycast3,
+    shape: HeightFieldShape,
+    subShapeId: number,
+    subShapeIdBits: number,
+    posX: number,
+    posY: number,
+    posZ: number,
+    quatX: number,
+    quatY: number,
+    quatZ: number,
+    quatW: number,
+    scaleX: number,
+    scaleY: number,
+    scaleZ: number,
+): void {
+    // transform ray from world space to height field local space, the scale is applied to the triangles
+    const localRay = _castRayVsHeightField_ray;
+    quat.set(_castRayVsHeightField_invQuat, quatX, quatY, quatZ, quatW);
+    quat.conjugate(_castRayVsHeightField_invQuat, _castRayVsHeightField_invQuat);
+    vec3.set(_castRayVsHeightField_pos, posX, posY, posZ);
+    vec3.subtract(localRay.origin, ray.origin, _castRayVsHeightField_pos);
+    vec3.transformQuat(localRay.origin, localRay.origin, _castRayVsHeightField_invQuat);
+    vec3.transformQuat(localRay.direction, ray.direction, _castRayVsHeightField_invQuat);
+    localRay.length = ray.length;
+
+    // transform ray into sample space, where sample (x, z) with height h is at [x, h, z]
+    const sx = shape.scale[0] * scaleX;
+    const sy = shape.scale[1] * scaleY;
+    const sz = shape.scale[2] * scaleZ;
+    const originX = (localRay.origin[0] - shape.offset[0] * scaleX) / sx;
+    const originY = (localRay.origin[1] - shape.offset[1] * scaleY) / sy;
+    const originZ = (localRay.origin[2] - shape.offset[2] * scaleZ) / sz;
+    const dirX = localRay.direction[0] / sx;
+    const dirY = localRay.direction[1] / sy;
+    const dirZ = localRay.direction[2] / sz;
+
+    const cellCountX = shape.sampleCountX - 1;
+    const cellCountZ = shape.sampleCountZ - 1;
+    const triangleCount = getTriangleCount(shape);
+
+    // clip the ray against the grid footprint
+    let tEnter = 0;
+    let tExit = ray.length;
+
+    if (Math.abs(dirX) < 1e-10) {
+        if (originX < 0 || originX > cellCountX) tExit = -1;
+    } else {
+        const t0 = (0 - originX) / dirX;
+        const t1 = (cellCountX - originX) / dirX;
+        tEnter = Math.max(tEnter, Math.min(t0, t1));
+        tExit = Math.min(tExit, Math.max(t0, t1));
+    }
+
+    if (Math.abs(dirZ) < 1e-10) {
+        if (originZ < 0 || originZ > cellCountZ) tExit = -1;
+    } else {
+        const t0 = (0 - originZ) / dirZ;
+        const t1 = (cellCountZ - originZ) / dirZ;
+        tEnter = Math.max(tEnter, Math.min(t0, t1));
+        tExit = Math.min(tExit, Math.max(t0, t1));
+    }
+
+    if (tExit < tEnter) {
+        collector.addMiss();
+        return;
+    }
+
+    // walk the cells along the ray (amanatides-woo)
+    let cellX = Math.min(cellCountX - 1, Math.max(0, Math.floor(originX + dirX * tEnter)));
+    let cellZ = Math.min(cellCountZ - 1, Math.max(0, Math.floor(originZ + dirZ * tEnter)));
+
+    const stepX = dirX > 0 ? 1 : -1;
+    const stepZ = dirZ > 0 ? 1 : -1;
+    const tDeltaX = Math.abs(dirX) < 1e-10 ? Infinity : Math.abs(1 / dirX);
+    const tDeltaZ = Math.abs(dirZ) < 1e-10 ? Infinity : Math.abs(1 / dirZ);
+    let tMaxX = tDeltaX === Infinity ? Infinity : ((dirX > 0 ? cellX + 1 : cellX) - originX) / dirX;
+    let tMaxZ = tDeltaZ === Infinity ? Infinity : ((dirZ > 0 ? cellZ + 1 : cellZ) - originZ) / dirZ;
+
+    const heights = shape.heights;
+    const sampleCountX = shape.sampleCountX;
+
+    let tCell = tEnter;
+    let foundHit = false;
+
+    while (true) {
+        // early out: very close hit, or this cell is further than the closest hit
+        if (collector.earlyOutFraction <= 0 || tCell > collector.earlyOutFraction * ray.length) {
+            break;
+        }
+
+        const tCellExit = Math.min(tMaxX, tMaxZ, tExit);
+
+        // compute height range of the cell, ignoring holes
+        const i1 = cellZ * sampleCountX + cellX;
+        let minHeight = Infinity;
+        let maxHeight = -Infinity;
+        for (let i = 0; i < 4; i++) {
+            const height = heights[i1 + (i >> 1) * sampleCountX + (i & 1)];
+            if (height === HEIGHT_FIELD_NO_COLLISION) continue;
+            if (height < minHeight) minHeight = height;
+            if (height > maxHeight) maxHeight = height;
+        }
+
+        // early out: ray height range over this cell doesn't overlap the cell's height range
+        const rayHeightEnter = originY + dirY * tCell;
+        const rayHeightExit = originY + dirY * tCellExit;
+        if (Math.max(rayHeightEnter, rayHeightExit) >= minHeight && Math.min(rayHeightEnter, rayHeightExit) <= maxHeight) {
+            for (let triangle = 0; triangle < 2; triangle++) {
+                const a = _castRayVsHeightField_a;
+                const b = _castRayVsHeightField_b;
+                const c = _castRayVsHeightField_c;
+
+                if (!getCellTriangle(a, b, c, shape, cellX, cellZ, triangle, scaleX, scaleY, scaleZ)) {
+                    continue;
+                }
+
+                raycast3.intersectsTriangle(_castRayVsHeightField_hitResult, localRay, a, b, c, !settings.collideWithBackfaces);
+
+                if (
+                    _castRayVsHeightField_hitResult.hit &&
+                    _castRayVsHeightField_hitResult.fraction < collector.earlyOutFraction
+                ) {
+                    foundHit = true;
+
+                    const triangleIndex = (cellZ * cellCountX + cellX) * 2 + triangle;
+
+                    _castRayVsHeightField_subShapeIdBuilder.value = subShapeId;
+                    _castRayVsHeightField_subShapeIdBuilder.currentBit = subShapeIdBits;
+                    subShape.pushIndex(
+                        _castRayVsHeightField_subShapeIdBuilder,
+                        _castRayVsHeightField_subShapeIdBuilder,
+                        triangleIndex,
+                        triangleCount,
+                    );
+
+                    _castRayVsHeightField_hit.status = CastRayStatus.COLLIDING;
+                    _castRayVsHeightField_hit.fraction = _castRayVsHeightField_hitResult.fraction;
+                    _castRayVsHeightField_hit.subShapeId = _castRayVsHeightField_subShapeIdBuilder.value;
+                    _castRayVsHeightField_hit.materialId = getMaterialId(shape, triangleIndex);
+                    _castRayVsHeightField_hit.bodyIdB = collector.bodyIdB;
+                    collector.addHit(_castRayVsHeightField_hit);
+                }
+            }
+        }
+
+        if (tCellExit >= tExit) {
+            break;
+        }
+
+        // step to the next cell
+        if (tMaxX < tMaxZ) {
+            cellX += stepX;
+            tCell = tMaxX;
+            tMaxX += tDeltaX;
+        } else {
+            cellZ += stepZ;
+            tCell = tMaxZ;
+            tMaxZ += tDeltaZ;
+        }
+
+        if (cellX < 0 || cellX >= cellCountX || cellZ < 0 || cellZ >= cellCountZ) {
+            break;
+        }
+    }
+
+    if (!foundHit) {
+        collector.addMiss();
+    }
+}
+
+/* collide point */
+
+const _collidePointVsHeightField_quatB = /* @__PURE__ */ quat.create();
+const _collidePointVsHeightField_localPoint = /* @__PURE__ */ vec3.create();
+const _collidePointVsHeightField_subShapeIdBuilder = /* @__PURE__ */ subShape.builder();
+const _collidePointHit = /* @__PURE__ */ createCollidePointHit();
+
+/**
+ * a height field has no volume, a point is considered to be colliding if it is below the surface
+ * within the height field's footprint.
+ */
+function collidePointVsHeightField(
+    collector: CollidePointCollector,
+    _settings: CollidePointSettings,
+    pointX: number,
+    pointY: number,
+    pointZ: number,
+    shapeB: HeightFieldShape,
+    subShapeIdB: number,
+    subShapeIdBitsB: number,
+    posBX: number,
+    posBY: number,
+    posBZ: number,
+    quatBX: number,
+    quatBY: number,
+    quatBZ: number,
+    quatBW: number,
+    scaleBX: number,
+    scaleBY: number,
+    scaleBZ: number,
+): void {
+    // transform point to height field's local space
+    const localPoint = _collidePointVsHeightField_localPoint;
+    quat.set(_collidePointVsHeightField_quatB, quatBX, quatBY, quatBZ, quatBW);
+    quat.conjugate(_collidePointVsHeightField_quatB, _collidePointVsHeightField_quatB);
+    vec3.set(localPoint, pointX - posBX, pointY - posBY, pointZ - posBZ);
+    vec3.transformQuat(localPoint, localPoint, _collidePointVsHeightField_quatB);
+
+    // transform point into sample space
+    const sy = shapeB.scale[1] * scaleBY;
+    const x = (localPoint[0] - shapeB.offset[0] * scaleBX) / (shapeB.scale[0] * scaleBX);
+    const y = (localPoint[1] - shapeB.offset[1] * scaleBY) / sy;
+    const z = (localPoint[2] - shapeB.offset[2] * scaleBZ) / (shapeB.scale[2] * scaleBZ);
+
+    const cellCountX = shapeB.sampleCountX - 1;
+    const cellCountZ = shapeB.sampleCountZ - 1;
+
+    // early exit if point is outside the footprint
+    if (!(x >= 0 && x <= cellCountX && z >= 0 && z <= cellCountZ)) {
+        return;
+    }
+
+    const cellX = Math.min(cellCountX - 1, Math.floor(x));
+    const cellZ = Math.min(cellCountZ - 1, Math.floor(z));
+    const fx = x - cellX;
+    const fz = z - cellZ;
+
+    // triangle 0 is the (x, z), (x, z + 1), (x + 1, z + 1) half of the cell
+    const triangle = fz >= fx ? 0 : 1;
+
+    const heights = shapeB.heights;
+    const i1 = cellZ * shapeB.sampleCountX + cellX;
+    const h1 = heights[i1];
+    const h2 = heights[i1 + shapeB.sampleCountX];
+    const h3 = heights[i1 + 1];
+    const h4 = heights[i1 + shapeB.sampleCountX + 1];
+
+    if (
+        h1 === HEIGHT_FIELD_NO_COLLISION ||
+        h4 === HEIGHT_FIELD_NO_COLLISION ||
+        (triangle === 0 ? h2 : h3) === HEIGHT_FIELD_NO_COLLISION
+    ) {
+        return;
+    }
+
+    // interpolate surface height on the triangle plane
+    const surfaceHeight = triangle === 0 ? h1 + (h4 - h2) * fx + (h2 - h1) * fz : h1 + (h3 - h1) * fx + (h4 - h3) * fz;
+
+    // 'below' flips if the height axis is mirrored
+    const isInside = sy > 0 ? y <= surfaceHeight : y >= surfaceHeight;
+
+    if (isInside) {
+        const triangleIndex = (cellZ * cellCountX + cellX) * 2 + triangle;
+
+        _collidePointVsHeightField_subShapeIdBuilder.value = subShapeIdB;
+        _collidePointVsHeightField_subShapeIdBuilder.currentBit = subShapeIdBitsB;
+        subShape.pushIndex(
+            _collidePointVsHeightField_subShapeIdBuilder,
+            _collidePointVsHeightField_subShapeIdBuilder,
+            triangleIndex,
+            getTriangleCount(shapeB),
+        );
+
+        _collidePointHit.subShapeIdB = _collidePointVsHeightField_subShapeIdBuilder.value;
+        _collidePointHit.materialId = getMaterialId(shapeB, triangleIndex);
+        _collidePointHit.bodyIdB = collector.bodyIdB;
+        collector.addHit(_collidePointHit);
+    }
+}
+
+/* cast shape */
+
+const _castShapeHit = /* @__PURE__ */ createCastShapeHit();
+const _displacementInB = /* @__PURE__ */ vec3.create();
+const _triangleSupport = /* @__PURE__ */ createTriangleSupport();
+const _startAABB: Box3 = /* @__PURE__ */ box3.create();
+const _sweptAABB: Box3 = /* @__PURE__ */ box3.create();
+
+const _gjkResult = /* @__PURE__ */ createGjkCastShapeResult();
+
+const _worldPointA = /* @__PURE__ */ vec3.create();
+const _worldPointB = /* @__PURE__ */ vec3.create();
+const _displacementScaled = /* @__PURE__ */ vec3.create();
+
+const _posAInB = /* @__PURE__ */ vec3.create();
+const _quatAInB = /* @__PURE__ */ quat.create();
+const _positionDifference = /* @__PURE__ */ vec3.create();
+const _inverseQuaternionB = /* @__PURE__ */ quat.create();
+const _positionAtHitTime = /* @__PURE__ */ vec3.create();
+const _inverseQuatAInB = /* @__PURE__ */ quat.create();
+
+const _faceNormal = /* @__PURE__ */ vec3.create();
+
+const _activeEdgeMovementDirection = /* @__PURE__ */ vec3.create();
+const _triangleNormalForFix = /* @__PURE__ */ vec3.create();
+const _conjugateQuat = /* @__PURE__ */ quat.create();
+
+const _triangleA = /* @__PURE__ */ vec3.create();
+const _triangleB = /* @__PURE__ */ vec3.create();
+const _triangleC = /* @__PURE__ */ vec3.create();
+const _edgeA = /* @__PURE__ */ vec3.create();
+const _edgeB = /* @__PURE__ */ vec3.create();
+const _triangleNormal = /* @__PURE__ */ vec3.create();
+const _penetrationDifference = /* @__PURE__ */ vec3.create();
+
+const _posA = /* @__PURE__ */ vec3.create();
+const _quatA = /* @__PURE__ */ quat.create();
+const _scaleA = /* @__PURE__ */ vec3.create();
+const _displacementA = /* @__PURE__ */ vec3.create();
+const _posB = /* @__PURE__ */ vec3.create();
+const _quatB = /* @__PURE__ */ quat.create();
+const _scaleB = /* @__PURE__ */ vec3.create();
+
+const _mat4 = /* @__PURE__ */ mat4.create();
+const _faceScale = /* @__PURE__ */ vec3.create();
+
+const _raycast = /* @__PURE__ */ raycast3.create();
+const _halfExtents = /* @__PURE__ */ vec3.create();
+const _triExpandedBounds = /* @__PURE__ */ box3.create();
+const _cellRange: CellRange = { minX: 0, minZ: 0, maxX: 0, maxZ: 0 };
+
+const _subShapeIdBuilder = /* @__PURE__ */ subShape.builder();
+
+const supportPoolA = /* @__PURE__ */ createShapeSupportPool();
+
+function castConvexVsHeightField(
+    collector: CastShapeCollector,
+    settings: CastShapeSettings,
+    shapeA: Shape,
+    subShapeIdA: number,
+    _subShapeIdBitsA: number,
+    posAX: number,
+    posAY: number,
+    posAZ: number,
+    quatAX: number,
+    quatAY: number,
+    quatAZ: number,
+    quatAW: number,
+    scaleAX: number,
+    scaleAY: number,
+    scaleAZ: number,
+    displacementAX: number,
+    displacementAY: number,
+    displacementAZ: number,
+    shapeB: Shape,
+    subShapeIdB: number,
+    subShapeIdBitsB: number,
+    posBX: number,
+    posBY: number,
+    posBZ: number,
+    quatBX: number,
+    quatBY: number,
+    quatBZ: number,
+    quatBW: number,
+    scaleBX: number,
+    scaleBY: number,
+    scaleBZ: number,
+): void {
+    const heightField = shapeB as HeightFieldShape;
+
+    vec3.set(_posA, posAX, posAY, posAZ);
+    quat.set(_quatA, quatAX, quatAY, quatAZ, quatAW);
+    vec3.set(_scaleA, scaleAX, scaleAY, scaleAZ);
+    vec3.set(_displacementA, displacementAX, displacementAY, displacementAZ);
+    vec3.set(_posB, posBX, posBY, posBZ);
+    quat.set(_quatB, quatBX, quatBY, quatBZ, quatBW);
+    vec3.set(_scaleB, scaleBX, scaleBY, scaleBZ);
+
+    // transform A into B's local space
+    quat.conjugate(_inverseQuaternionB, _quatB);
+
+    vec3.sub(_positionDifference, _posA, _posB);
+    vec3.transformQuat(_posAInB, _positionDifference, _inverseQuaternionB);
+
+    quat.multiply(_quatAInB, _inverseQuaternionB, _quatA);
+
+    vec3.transformQuat(_displacementInB, _displacementA, _inverseQuaternionB);
+
+    // compute base AABB of shape A at t=0 in height field local space
+    const aabbMatrix = mat4.fromRotationTranslationScale(_mat4, _quatAInB, _posAInB, _scaleA);
+    box3.transformMat4(_startAABB, shapeA.aabb, aabbMatrix);
+
+    // compute AABB of the whole sweep to find candidate cells
+    box3.copy(_sweptAABB, _startAABB);
+    for (let i = 0; i < 3; i++) {
+        if (_displacementInB[i] < 0) {
+            _sweptAABB[0][i] += _displacementInB[i];
+        } else {
+            _sweptAABB[1][i] += _displacementInB[i];
+        }
+    }
+
+    const cellRange = _cellRange;
+    if (!getCellRange(cellRange, heightField, _sweptAABB, scaleBX, scaleBZ)) {
+        return;
+    }
+
+    // determine if we want to use the actual shape or a shrunken shape with convex radius
+    const supportMode = settings.useShrunkenShapeAndConvexRadius
+        ? SupportFunctionMode.EXCLUDE_CONVEX_RADIUS
+        : SupportFunctionMode.DEFAULT;
+
+    // get support function for convex shape
+    const supportA = getShapeSupportFunction(supportPoolA, shapeA, supportMode, _scaleA);
+
+    // determine if shape is inside out or not
+    const scaleSign = vec3.isScaleInsideOut(_scaleB) ? -1 : 1;
+
+    // ray from the centroid of the base AABB along the displacement
+    const ray = _raycast;
+    box3.center(ray.origin, _startAABB);
+
+    ray.length = vec3.length(_displacementInB);
+    if (ray.length > 1e-10) {
+        vec3.normalize(ray.direction, _displacementInB);
+    } else {
+        vec3.zero(ray.direction);
+    }
+
+    // compute half-extents of the base AABB
+    const halfExtents = _halfExtents;
+    box3.extents(halfExtents, _startAABB);
+
+    const cellCountX = heightField.sampleCountX - 1;
+    const triangleCount = getTriangleCount(heightField);
+
+    // visit cells in the direction of movement so close hits are found first
+    const cellCountInRangeX = cellRange.maxX - cellRange.minX + 1;
+    const cellCountInRangeZ = cellRange.maxZ - cellRange.minZ + 1;
+    const reverseX = _displacementInB[0] < 0;
+    const reverseZ = _displacementInB[2] < 0;
+
+    for (let iz = 0; iz < cellCountInRangeZ; iz++) {
+        const cellZ = reverseZ ? cellRange.maxZ - iz : cellRange.minZ + iz;
+
+        for (let ix = 0; ix < cellCountInRangeX; ix++) {
+            const cellX = reverseX ? cellRange.maxX - ix : cellRange.minX + ix;
+
+            for (let triangle = 0; triangle < 2; triangle++) {
+                const a = _triangleA;
+                const b = _triangleB;
+                const c = _triangleC;
+
+                // get scaled triangle, skipping holes
+                if (!getCellTriangle(a, b, c, heightField, cellX, cellZ, triangle, scaleBX, scaleBY, scaleBZ)) {
+                    continue;
+                }
+
+                // compute triangle aabb expanded by half-extents
+                const triBounds = _triExpandedBounds;
+                triangle3.bounds(triBounds, a, b, c);
+                triBounds[0][0] -= halfExtents[0];
+                triBounds[0][1] -= halfExtents[1];
+                triBounds[0][2] -= halfExtents[2];
+                triBounds[1][0] += halfExtents[0];
+                triBounds[1][1] += halfExtents[1];
+                triBounds[1][2] += halfExtents[2];
+
+                // early out: ray x triangle expanded bounds
+                if (!raycast3.intersectsBox3(ray, triBounds)) {
+                    continue;
+                }
+
+                // early out if we've found a very close hit
+                if (collector.earlyOutFraction <= 0) {
+                    return;
+                }
+
+                // calculate scaled triangle normal
+                const normal = vec3.scale(
+                    _triangleNormal,
+                    vec3.cross(_triangleNormal, vec3.sub(_edgeA, b, a), vec3.sub(_edgeB, c, a)),
+                    scaleSign,
+                );
+
+                // backface check
+                if (!settings.collideWithBackfaces && vec3.dot(normal, _displacementInB) > 0) {
+                    continue;
+                }
+
+                // set triangle support function
+                setTriangleSupport(_triangleSupport, a, b, c);
+
+                // gjk shapecast with epa fallback for deep penetration
+                penetrationCastShape(
+                    _gjkResult,
+                    _posAInB,
+                    _quatAInB,
+                    supportA,
+                    _triangleSupport,
+                    _displacementInB,
+                    settings.collisionTolerance,
+                    settings.penetrationTolerance,
+                    supportA.convexRadius,
+                    0, // triangle has no convex radius
+                    collector.earlyOutFraction,
+                    settings.returnDeepestPoint,
+                );
+
+                // check if hit found
+                if (!_gjkResult.hit) {
+                    continue;
+                }
+
+                const penetrationDepth = vec3.length(vec3.sub(_penetrationDifference, _gjkResult.pointA, _gjkResult.pointB));
+
+                // early out: if this hit is deeper than the collector's early out value
+                if (_gjkResult.lambda === 0 && -penetrationDepth >= collector.earlyOutFraction) {
+                    continue;
+                }
+
+                const triangleIndex = (cellZ * cellCountX + cellX) * 2 + triangle;
+
+                // active edge detection - correct normal if hitting inactive edge
+                const triangleActiveEdges = getActiveEdges(heightField, triangleIndex);
+                if (settings.collideOnlyWithActiveEdges && triangleActiveEdges !== 0b111) {
+                    // transform movement direction from world space to height field's local space
+                    vec3.transformQuat(
+                        _activeEdgeMovementDirection,
+                        settings.activeEdgeMovementDirection,
+                        quat.conjugate(_conjugateQuat, _quatB),
+                    );
+
+                    // prepare triangle normal for fixNormal
+                    const backFacing = !settings.collideWithBackfaces || vec3.dot(normal, _displacementInB) > 0;
+                    if (backFacing) {
+                        vec3.copy(_triangleNormalForFix, normal);
+                    } else {
+                        vec3.negate(_triangleNormalForFix, normal);
+                    }
+
+                    // apply active edge correction (all parameters in height field's local space)
+                    const correctedAxis = activeEdges.fixNormal(
+                        a,
+                        b,
+                        c,
+                        _triangleNormalForFix,
+                        triangleActiveEdges,
+                        _gjkResult.pointB,
+                        _gjkResult.separatingAxis,
+                        _activeEdgeMovementDirection,
+                    );
+
+                    vec3.copy(_gjkResult.separatingAxis, correctedAxis);
+                }
+
+                // convert to world space
+                vec3.transformQuat(_worldPointA, _gjkResult.pointA, _quatB);
+                vec3.add(_worldPointA, _worldPointA, _posB);
+                vec3.transformQuat(_worldPointB, _gjkResult.pointB, _quatB);
+                vec3.add(_worldPointB, _worldPointB, _posB);
+                vec3.transformQuat(_castShapeHit.penetrationAxis, _gjkResult.separatingAxis, _quatB);
+
+                // store hit info
+                _castShapeHit.status = CastShapeStatus.COLLIDING;
+                _castShapeHit.fraction = _gjkResult.lambda;
+                vec3.copy(_castShapeHit.pointA, _worldPointA);
+                vec3.copy(_castShapeHit.pointB, _worldPointB);
+                vec3.normalize(_castShapeHit.normal, _castShapeHit.penetrationAxis);
+                vec3.negate(_castShapeHit.normal, _castShapeHit.normal);
+                _castShapeHit.penetrationDepth = penetrationDepth;
+                _castShapeHit.subShapeIdA = subShapeIdA;
+
+                _subShapeIdBuilder.value = subShapeIdB;
+                _subShapeIdBuilder.currentBit = subShapeIdBitsB;
+                subShape.pushIndex(_subShapeIdBuilder, _subShapeIdBuilder, triangleIndex, triangleCount);
+
+                _castShapeHit.subShapeIdB = _subShapeIdBuilder.value;
+                _castShapeHit.materialIdA = (shapeA as ConvexShape).materialId;
+                _castShapeHit.materialIdB = getMaterialId(heightField, triangleIndex);
+                _castShapeHit.bodyIdB = collector.bodyIdB;
+
+                // gather faces if requested
+                if (settings.collectFaces) {
+                    // face a: transform contact normal from B's local space to A's local space
+                    const scaledDisplacement = vec3.scale(_displacementScaled, _displacementA, _gjkResult.lambda);
+                    const position = vec3.add(_positionAtHitTime, _posA, scaledDisplacement);
+                    const normalInA = vec3.negate(_faceNormal, _gjkResult.separatingAxis);
+                    quat.conjugate(_inverseQuatAInB, _quatAInB);
+                    vec3.transformQuat(normalInA, normalInA, _inverseQuatAInB);
+                    getShapeSupportingFace(_castShapeHit.faceA, shapeA, subShapeIdA, normalInA, position, _quatA, _scaleA);
+
+                    // face b: supporting face is the triangle vertices (already scaled, in B's local space)
+                    _castShapeHit.faceB.numVertices = 3;
+                    _castShapeHit.faceB.vertices[0] = a[0];
+                    _castShapeHit.faceB.vertices[1] = a[1];
+                    _castShapeHit.faceB.vertices[2] = a[2];
+                    _castShapeHit.faceB.vertices[3] = b[0];
+                    _castShapeHit.faceB.vertices[4] = b[1];
+                    _castShapeHit.faceB.vertices[5] = b[2];
+                    _castShapeHit.faceB.vertices[6] = c[0];
+                    _castShapeHit.faceB.vertices[7] = c[1];
+                    _castShapeHit.faceB.vertices[8] = c[2];
+                    transformFace(_castShapeHit.faceB, _posB, _quatB, vec3.setScalar(_faceScale, 1));
+                } else {
+                    // clear faces
+                    _castShapeHit.faceA.numVertices = 0;
+                    _castShapeHit.faceB.numVertices = 0;
+                }
+
+                // add hit
+                collector.addHit(_castShapeHit);
+            }
+        }
+    }
+}
+
+const castHeightFieldVsConvex = /* @__PURE__ */ reversedCastShapeVsShape(castConvexVsHeightField);
+
+/* collide shape */
+
+const _collideShapeHit = /* @__PURE__ */ createCollideShapeHit();
+
+const _temp_faceDirA = /* @__PURE__ */ vec3.create();
+
+const _simplex = /* @__PURE__ */ createSimplex();
+const _penetrationDepth = /* @__PURE__ */ createPenetrationDepth();
+
+const _supportPoolA = /* @__PURE__ */ createShapeSupportPool();
+
+const _addRadiusSupport = /* @__PURE__ */ createAddConvexRadiusSupport();
+
+const _penetrationAxis = /* @__PURE__ */ vec3.create();
+const _vectorAB = /* @__PURE__ */ vec3.create();
+
+const _inverseQuatA = /* @__PURE__ */ quat.create();
+
+const _aabbShapeExpand = /* @__PURE__ */ vec3.create();
+
+const _inverseQuatB = /* @__PURE__ */ quat.create();
+const _boundsOf1InSpaceOf2 = /* @__PURE__ */ box3.create();
+const _boundsOf1 = /* @__PURE__ */ box3.create();
+const _transform2To1Pos = /* @__PURE__ */ vec3.create();
+const _transform2To1Quat = /* @__PURE__ */ quat.create();
+
+const _triangleA_inA = /* @__PURE__ */ vec3.create();
+const _triangleB_inA = /* @__PURE__ */ vec3.create();
+const _triangleC_inA = /* @__PURE__ */ vec3.create();
+
+const _collideConvexVsHeightField_triangleAABB = /* @__PURE__ */ box3.create();
+
+function collideConvexVsHeightField(
+    collector: CollideShapeCollector,
+    settings: CollideShapeSettings,
+    shapeA: Shape,
+    subShapeIdA: number,
+    _subShapeIdBitsA: number,
+    posAX: number,
+    posAY: number,
+    posAZ: number,
+    quatAX: number,
+    quatAY: number,
+    quatAZ: number,
+    quatAW: number,
+    scaleAX: number,
+    scaleAY: number,
+    scaleAZ: number,
+    shapeB: Shape,
+    subShapeIdB: number,
+    subShapeIdBitsB: number,
+    posBX: number,
+    posBY: number,
+    posBZ: number,
+    quatBX: number,
+    quatBY: number,
+    quatBZ: number,
+    quatBW: number,
+    scaleBX: number,
+    scaleBY: number,
+    scaleBZ: number,
+): void {
+    const heightField = shapeB as HeightFieldShape;
+
+    vec3.set(_posA, posAX, posAY, posAZ);
+    quat.set(_quatA, quatAX, quatAY, quatAZ, quatAW);
+    vec3.set(_scaleA, scaleAX, scaleAY, scaleAZ);
+
+    vec3.set(_posB, posBX, posBY, posBZ);
+    quat.set(_quatB, quatBX, quatBY, quatBZ, quatBW);
+    vec3.set(_scaleB, scaleBX, scaleBY, scaleBZ);
+
+    // calculate transforms
+    // transform B (height field) into A's (convex) local space for triangle tests
+    quat.conjugate(_inverseQuatA, _quatA);
+    quat.multiply(_transform2To1Quat, _inverseQuatA, _quatB);
+    vec3.subtract(_vectorAB, _posB, _posA);
+    vec3.transformQuat(_transform2To1Pos, _vectorAB, _inverseQuatA);
+
+    // transform A into B's space for cell query
+    quat.conjugate(_inverseQuatB, _quatB);
+    quat.multiply(_quatAInB, _inverseQuatB, _quatA);
+    vec3.subtract(_positionDifference, _posA, _posB);
+    vec3.transformQuat(_posAInB, _positionDifference, _inverseQuatB);
+
+    // compute shape A's bounds in its own local space
+    const boundsOf1 = box3.copy(_boundsOf1, shapeA.aabb);
+    box3.scale(boundsOf1, boundsOf1, _scaleA);
+    box3.expandByExtents(boundsOf1, boundsOf1, vec3.setScalar(_aabbShapeExpand, settings.maxSeparationDistance));
+
+    // compute shape A's bounds in shape B's space for cell culling
+    const aabbMatrix = mat4.fromRotationTranslationScale(_mat4, _quatAInB, _posAInB, _scaleA);
+    box3.transformMat4(_boundsOf1InSpaceOf2, shapeA.aabb, aabbMatrix);
+    box3.expandByExtents(
+        _boundsOf1InSpaceOf2,
+        _boundsOf1InSpaceOf2,
+        vec3.setScalar(_aabbShapeExpand, settings.maxSeparationDistance),
+    );
+
+    const cellRange = _cellRange;
+    if (!getCellRange(cellRange, heightField, _boundsOf1InSpaceOf2, scaleBX, scaleBZ)) {
+        return;
+    }
+
+    // determine if height field is inside-out
+    const scaleSign = vec3.isScaleInsideOut(_scaleB) ? -1 : 1;
+
+    // get support function for shape A
+    const supportA = getShapeSupportFunction(_supportPoolA, shapeA, SupportFunctionMode.EXCLUDE_CONVEX_RADIUS, _scaleA);
+
+    const cellCountX = heightField.sampleCountX - 1;
+    const triangleCount = getTriangleCount(heightField);
+
+    for (let cellZ = cellRange.minZ; cellZ <= cellRange.maxZ; cellZ++) {
+        for (let cellX = cellRange.minX; cellX <= cellRange.maxX; cellX++) {
+            for (let triangle = 0; triangle < 2; triangle++) {
+                // get scaled triangle in height field local space, skipping holes
+                if (
+                    !getCellTriangle(
+                        _triangleA,
+                        _triangleB,
+                        _triangleC,
+                        heightField,
+                        cellX,
+                        cellZ,
+                        triangle,
+                        scaleBX,
+                        scaleBY,
+                        scaleBZ,
+                    )
+                ) {
+                    continue;
+                }
+
+                // transform triangle to shape A's local space
+                vec3.transformQuat(_triangleA_inA, _triangleA, _transform2To1Quat);
+                vec3.add(_triangleA_inA, _triangleA_inA, _transform2To1Pos);
+                vec3.transformQuat(_triangleB_inA, _triangleB, _transform2To1Quat);
+                vec3.add(_triangleB_inA, _triangleB_inA, _transform2To1Pos);
+                vec3.transformQuat(_triangleC_inA, _triangleC, _transform2To1Quat);
+                vec3.add(_triangleC_inA, _triangleC_inA, _transform2To1Pos);
+
+                // compute triangle AABB in shape A's local space
+                const triangleAABB = _collideConvexVsHeightField_triangleAABB;
+                triangle3.bounds(triangleAABB, _triangleA_inA, _triangleB_inA, _triangleC_inA);
+
+                // early out: if triangle AABB doesn't overlap shape AABB, skip this triangle
+                if (!box3.intersectsBox3(triangleAABB, _boundsOf1)) {
+                    continue;
+                }
+
+                vec3.sub(_edgeA, _triangleB_inA, _triangleA_inA);
+                vec3.sub(_edgeB, _triangleC_inA, _triangleA_inA);
+
+                // calculate triangle normal in A's local space
+                const normal = vec3.scale(_triangleNormal, vec3.cross(_triangleNormal, _edgeA, _edgeB), scaleSign);
+
+                // back-face check
+                // (shape A is at origin in its local space)
+                const backFacing = vec3.dot(normal, _triangleA_inA) > 0.0;
+                if (!settings.collideWithBackfaces && backFacing) {
+                    continue;
+                }
+
+                // create triangle support function
+                setTriangleSupport(_triangleSupport, _triangleA_inA, _triangleB_inA, _triangleC_inA);
+
+                // run GJK with negative triangle normal as initial penetration axis
+                // (likely that shape A is in front of triangle B)
+                const penetrationAxis = vec3.negate(_penetrationAxis, normal);
+
+                // ensure non-zero penetration axis
+                if (vec3.squaredLength(penetrationAxis) < 1e-10) {
+                    vec3.set(penetrationAxis, 1, 0, 0);
+                } else {
+                    vec3.normalize(penetrationAxis, penetrationAxis);
+                }
+
+                // perform GJK step with inflated shape (convex radius + max separation distance)
+                let maxSeparationDistance = settings.maxSeparationDistance;
+                penetrationDepthStepGJK(
+                    _penetrationDepth,
+                    _simplex,
+                    supportA,
+                    _triangleSupport,
+                    supportA.convexRadius + maxSeparationDistance,
+                    0, // triangle has no convex radius
+                    penetrationAxis,
+                    settings.collisionTolerance,
+                );
+
+                // check result of collision detection
+                if (_penetrationDepth.status === PenetrationDepthStatus.NOT_COLLIDING) {
+                    continue;
+                }
+
+                if (_penetrationDepth.status === PenetrationDepthStatus.INDETERMINATE) {
+                    // need to run expensive EPA algorithm
+                    // clamp max separation distance to avoid excessive inflation
+                    maxSeparationDistance = Math.min(maxSeparationDistance, 1.0);
+
+                    // get support function including convex radius for EPA
+                    const supportAWithRadius = getShapeSupportFunction(
+                        _supportPoolA,
+                        shapeA,
+                        SupportFunctionMode.INCLUDE_CONVEX_RADIUS,
+                        _scaleA,
+                    );
+
+                    // add separation distance
+                    setAddConvexRadiusSupport(_addRadiusSupport, maxSeparationDistance, supportAWithRadius);
+
+                    // perform EPA step
+                    if (
+                        !penetrationDepthStepEPA(
+                            _penetrationDepth,
+                            _addRadiusSupport,
+                            _triangleSupport,
+                            settings.penetrationTolerance,
+                            _simplex,
+                        )
+                    ) {
+                        continue;
+                    }
+                }
+
+                // calculate penetration depth (subtract the inflation from the distance)
+                const penetration = vec3.distance(_penetrationDepth.pointA, _penetrationDepth.pointB) - maxSeparationDistance;
+
+                // check if penetration exceeds early-out threshold
+                if (-penetration >= collector.earlyOutFraction) {
+                    continue;
+                }
+
+                // correct point A by moving it back along penetration axis to account for the max separation distance
+                const penetrationAxisLen = vec3.length(_penetrationDepth.penetrationAxis);
+                if (penetrationAxisLen > 0.0) {
+                    const correction = maxSeparationDistance / penetrationAxisLen;
+                    vec3.scaleAndAdd(
+                        _penetrationDepth.pointA,
+                        _penetrationDepth.pointA,
+                        _penetrationDepth.penetrationAxis,
+                        -correction,
+                    );
+                }
+
+                const triangleIndex = (cellZ * cellCountX + cellX) * 2 + triangle;
+
+                // active edge detection - correct normal if hitting inactive edge
+                const triangleActiveEdges = getActiveEdges(heightField, triangleIndex);
+                if (settings.collideOnlyWithActiveEdges && triangleActiveEdges !== 0b111) {
+                    // transform movement direction from world space to shape A's local space
+                    vec3.transformQuat(
+                        _activeEdgeMovementDirection,
+                        settings.activeEdgeMovementDirection,
+                        quat.conjugate(_conjugateQuat, _quatA),
+                    );
+
+                    // prepare triangle normal for fixNormal
+                    if (backFacing) {
+                        vec3.copy(_triangleNormalForFix, normal);
+                    } else {
+                        vec3.negate(_triangleNormalForFix, normal);
+                    }
+
+                    // apply active edge correction (all parameters in shape A's local space)
+                    const correctedAxis = activeEdges.fixNormal(
+                        _triangleA_inA,
+                        _triangleB_inA,
+                        _triangleC_inA,
+                        _triangleNormalForFix,
+                        triangleActiveEdges,
+                        _penetrationDepth.pointB,
+                        _penetrationDepth.penetrationAxis,
+                        _activeEdgeMovementDirection,
+                    );
+
+                    vec3.copy(_penetrationDepth.penetrationAxis, correctedAxis);
+                }
+
+                // transform results to world space
+                vec3.transformQuat(_worldPointA, _penetrationDepth.pointA, _quatA);
+                vec3.add(_worldPointA, _worldPointA, _posA);
+                vec3.transformQuat(_worldPointB, _penetrationDepth.pointB, _quatA);
+                vec3.add(_worldPointB, _worldPointB, _posA);
+                vec3.transformQuat(_collideShapeHit.penetrationAxis, _penetrationDepth.penetrationAxis, _quatA);
+
+                // push sub shape id for triangle
+                _subShapeIdBuilder.value = subShapeIdB;
+                _subShapeIdBuilder.currentBit = subShapeIdBitsB;
+                subShape.pushIndex(_subShapeIdBuilder, _subShapeIdBuilder, triangleIndex, triangleCount);
+
+                // report collision
+                vec3.copy(_collideShapeHit.pointA, _worldPointA);
+                vec3.copy(_collideShapeHit.pointB, _worldPointB);
+                _collideShapeHit.penetration = penetration;
+                _collideShapeHit.subShapeIdA = subShapeIdA;
+                _collideShapeHit.subShapeIdB = _subShapeIdBuilder.value;
+                _collideShapeHit.materialIdA = (shapeA as ConvexShape).materialId;
+                _collideShapeHit.materialIdB = getMaterialId(heightField, triangleIndex);
+                _collideShapeHit.bodyIdB = collector.bodyIdB;
+
+                // collect faces if requested
+                if (settings.collectFaces) {
+                    // direction for shape A: opposite of penetration axis (local space)
+                    const faceDirectionA = vec3.negate(_temp_faceDirA, _penetrationDepth.penetrationAxis);
+                    getShapeSupportingFace(_collideShapeHit.faceA, shapeA, subShapeIdA, faceDirectionA, _posA, _quatA, _scaleA);
+
+                    // shape B face: triangle has 3 vertices in shape A's local space
+                    _collideShapeHit.faceB.numVertices = 3;
+                    _collideShapeHit.faceB.vertices[0] = _triangleA_inA[0];
+                    _collideShapeHit.faceB.vertices[1] = _triangleA_inA[1];
+                    _collideShapeHit.faceB.vertices[2] = _triangleA_inA[2];
+                    _collideShapeHit.faceB.vertices[3] = _triangleB_inA[0];
+                    _collideShapeHit.faceB.vertices[4] = _triangleB_inA[1];
+                    _collideShapeHit.faceB.vertices[5] = _triangleB_inA[2];
+                    _collideShapeHit.faceB.vertices[6] = _triangleC_inA[0];
+                    _collideShapeHit.faceB.vertices[7] = _triangleC_inA[1];
+                    _collideShapeHit.faceB.vertices[8] = _triangleC_inA[2];
+
+                    // transform from shape A's local space to world space (vertices are already scaled)
+                    transformFace(_collideShapeHit.faceB, _posA, _quatA, vec3.setScalar(_faceScale, 1));
+                }
+
+                collector.addHit(_collideShapeHit);
+            }
+        }
+    }
+}
+
+const collideHeightFieldVsConvex = /* @__PURE__ */ reversedCollideShapeVsShape(collideConvexVsHeightField);
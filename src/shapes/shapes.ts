@@ -14,11 +14,15 @@ import type { CompoundShape } from './compound';
 import type { ConvexHullShape } from './convex-hull';
 import type { CylinderShape } from './cylinder';
 import type { EmptyShape } from './empty-shape';
+import type { HeightFieldShape } from './height-field';
 import type { OffsetCenterOfMassShape } from './offset-center-of-mass';
 import type { PlaneShape } from './plane';
 import type { ScaledShape } from './scaled';
 import type { SphereShape } from './sphere';
+import type { TaperedCapsuleShape } from './tapered-capsule';
+import type { TaperedCylinderShape } from './tapered-cylinder';
 import type { TransformedShape } from './transformed';
+import type { TriangleShape } from './triangle';
 import type { TriangleMeshShape } from './triangle-mesh';
 
 /** base shape type */
@@ -48,6 +52,10 @@ export enum ShapeType {
     CYLINDER = 9,
     OFFSET_CENTER_OF_MASS = 10,
     PLANE = 11,
+    HEIGHT_FIELD = 12,
+    TAPERED_CAPSULE = 13,
+    TAPERED_CYLINDER = 14,
+    TRIANGLE = 15,
 
     // user-defined shapes: 101-110
     USER_1 = 101,
@@ -64,9 +72,9 @@ export enum ShapeType {
 
 /** shape categories enum */
 export enum ShapeCategory {
-    /** Convex shapes (Sphere, Box, Capsule, ConvexHull) */
+    /** Convex shapes (Sphere, Box, Capsule, ConvexHull, Cylinder, TaperedCapsule, TaperedCylinder, Triangle) */
     CONVEX = 0,
-    /** Mesh shapes (TriangleMesh) */
+    /** Mesh shapes (TriangleMesh, HeightField) */
     MESH = 1,
     /** Decorator shapes that transform other shapes (Transformed, Scaled) */
     DECORATOR = 2,
@@ -101,6 +109,10 @@ export interface ShapeTypeRegistry {
     [ShapeType.EMPTY]: EmptyShape;
     [ShapeType.OFFSET_CENTER_OF_MASS]: OffsetCenterOfMassShape;
     [ShapeType.PLANE]: PlaneShape;
+    [ShapeType.HEIGHT_FIELD]: HeightFieldShape;
+    [ShapeType.TAPERED_CAPSULE]: TaperedCapsuleShape;
+    [ShapeType.TAPERED_CYLINDER]: TaperedCylinderShape;
+    [ShapeType.TRIANGLE]: TriangleShape;
 }
 
 /** shape type, union derived from registry interface */
@@ -113,6 +125,9 @@ export interface ConvexShapeTypeRegistry {
     [ShapeType.CAPSULE]: CapsuleShape;
     [ShapeType.CONVEX_HULL]: ConvexHullShape;
     [ShapeType.CYLINDER]: CylinderShape;
+    [ShapeType.TAPERED_CAPSULE]: TaperedCapsuleShape;
+    [ShapeType.TAPERED_CYLINDER]: TaperedCylinderShape;
+    [ShapeType.TRIANGLE]: TriangleShape;
 }
 
 /** shape type, constrained to convex shapes */
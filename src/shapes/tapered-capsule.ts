@@ -0,0 +1,365 @@
+import { type Box3, box3, type Vec3, vec3 } from 'mathcat';
+import type { MassProperties } from '../body/mass-properties';
+import * as subShape from '../body/sub-shape';
+import { SupportFunctionMode, type Support } from '../collision/support';
+import { assert } from '../utils/assert';
+import { transformFace } from '../utils/face';
+import * as convex from './convex';
+import {
+    DEFAULT_SHAPE_DENSITY,
+    defineShape,
+    ShapeCategory,
+    shapeDefs,
+    ShapeType,
+    type SupportingFaceResult,
+    type SurfaceNormalResult,
+} from './shapes';
+import { setCastShapeFn, setCollideShapeFn } from './shapes';
+import * as revolvedSolid from './utils/revolved-solid';
+
+/** settings for creating a tapered capsule shape */
+export type TaperedCapsuleShapeSettings = {
+    /** half distance between the centers of the top and bottom spheres */
+    halfHeightOfTaperedCylinder: number;
+    /** radius of the top sphere */
+    topRadius: number;
+    /** radius of the bottom sphere */
+    bottomRadius: number;
+    /** @default 1000 @see DEFAULT_SHAPE_DENSITY */
+    density?: number;
+    /** material identifier @default -1 */
+    materialId?: number;
+};
+
+/**
+ * A capsule with a different radius for the top and bottom sphere, aligned with the Y axis.
+ * The shape is the convex hull of the two spheres, centered halfway between the sphere centers.
+ */
+export type TaperedCapsuleShape = {
+    /** tapered capsule shape type */
+    type: ShapeType.TAPERED_CAPSULE;
+    /** half distance between the centers of the top and bottom spheres */
+    halfHeightOfTaperedCylinder: number;
+    /** radius of the top sphere */
+    topRadius: number;
+    /** radius of the bottom sphere */
+    bottomRadius: number;
+    /** the convex radius, the smallest of the two radii */
+    convexRadius: number;
+    /** sine of the angle between the tapered side and the Y axis */
+    sinAlpha: number;
+    /** tangent of the angle between the tapered side and the Y axis */
+    tanAlpha: number;
+    /** the shape density */
+    density: number;
+    /** material identifier */
+    materialId: number;
+    /** local bounds */
+    aabb: Box3;
+    /** center of mass, offset along Y towards the larger sphere */
+    centerOfMass: Vec3;
+    /** volume */
+    volume: number;
+};
+
+/** create a tapered capsule shape from settings */
+export function create(o: TaperedCapsuleShapeSettings): TaperedCapsuleShape {
+    const shape: TaperedCapsuleShape = {
+        type: ShapeType.TAPERED_CAPSULE,
+        halfHeightOfTaperedCylinder: o.halfHeightOfTaperedCylinder,
+        topRadius: o.topRadius,
+        bottomRadius: o.bottomRadius,
+        convexRadius: 0,
+        sinAlpha: 0,
+        tanAlpha: 0,
+        density: o.density ?? DEFAULT_SHAPE_DENSITY,
+        materialId: o.materialId ?? -1,
+        aabb: box3.create(),
+        centerOfMass: vec3.create(),
+        volume: 0,
+    };
+
+    update(shape);
+
+    return shape;
+}
+
+/** adds the bottom sphere cap, the cone frustum touching both spheres and the top sphere cap to a solid */
+function computeTaperedCapsuleSolid(out: revolvedSolid.RevolvedSolid, shape: TaperedCapsuleShape): void {
+    const h = shape.halfHeightOfTaperedCylinder;
+    const rt = shape.topRadius;
+    const rb = shape.bottomRadius;
+    const sinAlpha = shape.sinAlpha;
+    const cosAlpha = Math.sqrt(1 - sinAlpha * sinAlpha);
+
+    // the side touches the spheres at circles that are offset along Y by r * sin(alpha)
+    const bottomTangentY = -h + rb * sinAlpha;
+    const topTangentY = h + rt * sinAlpha;
+
+    revolvedSolid.reset(out);
+
+    // bottom cap: ρ² = rb² - (y + h)²
+    revolvedSolid.addSegment(out, -h - rb, bottomTangentY, rb * rb - h * h, -2 * h, -1);
+
+    // frustum: ρ = p + q y, going from rb * cos(alpha) to rt * cos(alpha)
+    const q = ((rt - rb) * cosAlpha) / (topTangentY - bottomTangentY);
+    const p = rb * cosAlpha - q * bottomTangentY;
+    revolvedSolid.addSegment(out, bottomTangentY, topTangentY, p * p, 2 * p * q, q * q);
+
+    // top cap: ρ² = rt² - (y - h)²
+    revolvedSolid.addSegment(out, topTangentY, h + rt, rt * rt - h * h, 2 * h, -1);
+}
+
+const _solid = /* @__PURE__ */ revolvedSolid.create();
+
+/** updates a tapered capsule shape after it's properties have changed */
+export function update(shape: TaperedCapsuleShape): void {
+    const h = shape.halfHeightOfTaperedCylinder;
+    const rt = shape.topRadius;
+    const rb = shape.bottomRadius;
+
+    if (rt <= 0 || rb <= 0) {
+        throw new Error('Invalid radius, must be > 0');
+    }
+
+    if (h <= 0) {
+        throw new Error('Invalid height, must be > 0');
+    }
+
+    if (Math.abs(rt - rb) >= 2 * h) {
+        throw new Error('One sphere is inside the other sphere, use a sphere shape instead');
+    }
+
+    shape.sinAlpha = (rb - rt) / (2 * h);
+    shape.tanAlpha = shape.sinAlpha / Math.sqrt(1 - shape.sinAlpha * shape.sinAlpha);
+    shape.convexRadius = Math.min(rt, rb);
+
+    computeTaperedCapsuleSolid(_solid, shape);
+    vec3.set(shape.centerOfMass, 0, revolvedSolid.getCenterOfMassY(_solid), 0);
+    shape.volume = revolvedSolid.getVolume(_solid);
+
+    // the side of the frustum never sticks out further than the largest sphere
+    const maxRadius = Math.max(rt, rb);
+    shape.aabb[0][0] = -maxRadius;
+    shape.aabb[0][1] = -h - rb;
+    shape.aabb[0][2] = -maxRadius;
+    shape.aabb[1][0] = maxRadius;
+    shape.aabb[1][1] = h + rt;
+    shape.aabb[1][2] = maxRadius;
+}
+
+/* shape def */
+
+export const def = /* @__PURE__ */ (() =>
+    defineShape<TaperedCapsuleShape>({
+        type: ShapeType.TAPERED_CAPSULE,
+        category: ShapeCategory.CONVEX,
+        computeMassProperties(out: MassProperties, shape: TaperedCapsuleShape): void {
+            computeTaperedCapsuleSolid(_solid, shape);
+            revolvedSolid.computeMassProperties(out, _solid, shape.density);
+        },
+        getSurfaceNormal(ioResult: SurfaceNormalResult, shape: TaperedCapsuleShape, subShapeId: number): void {
+            assert(subShape.isEmpty(subShapeId), 'Invalid subshape ID for TaperedCapsuleShape');
+
+            const x = ioResult.position[0];
+            const y = ioResult.position[1];
+            const z = ioResult.position[2];
+
+            // heights of the circles where the side touches the spheres
+            const h = shape.halfHeightOfTaperedCylinder;
+            const topTangentY = h + shape.topRadius * shape.sinAlpha;
+            const bottomTangentY = -h + shape.bottomRadius * shape.sinAlpha;
+
+            // above or below the side, the normal points away from the sphere center
+            const sphereCenter = y > topTangentY ? h : y < bottomTangentY ? -h : null;
+            if (sphereCenter !== null) {
+                const toPointY = y - sphereCenter;
+                const len = Math.sqrt(x * x + toPointY * toPointY + z * z);
+                if (len > 0) {
+                    ioResult.normal[0] = x / len;
+                    ioResult.normal[1] = toPointY / len;
+                    ioResult.normal[2] = z / len;
+                    return;
+                }
+            }
+
+            // on the side, the normal is the radial direction tilted by alpha
+            const radialLen = Math.sqrt(x * x + z * z);
+            let radialX = 1; // arbitrary radial direction when on the central axis
+            let radialZ = 0;
+            if (radialLen > 0) {
+                radialX = x / radialLen;
+                radialZ = z / radialLen;
+            }
+
+            const len = Math.sqrt(1 + shape.tanAlpha * shape.tanAlpha);
+            ioResult.normal[0] = radialX / len;
+            ioResult.normal[1] = shape.tanAlpha / len;
+            ioResult.normal[2] = radialZ / len;
+        },
+        getSupportingFace(
+            ioResult: SupportingFaceResult,
+            direction: Vec3,
+            shape: TaperedCapsuleShape,
+            _subShapeId: number,
+        ): void {
+            const face = ioResult.face;
+            const { position, quaternion, scale } = ioResult;
+
+            const len = Math.sqrt(direction[0] * direction[0] + direction[1] * direction[1] + direction[2] * direction[2]);
+            if (len === 0.0) {
+                face.numVertices = 0;
+                return;
+            }
+
+            // direction in the unscaled shape, the scale is uniform so only its signs matter
+            const dirX = (scale[0] < 0 ? -direction[0] : direction[0]) / len;
+            const dirY = (scale[1] < 0 ? -direction[1] : direction[1]) / len;
+            const dirZ = (scale[2] < 0 ? -direction[2] : direction[2]) / len;
+
+            // get support point for top and bottom sphere in the opposite of 'direction'
+            const h = shape.halfHeightOfTaperedCylinder;
+            const topRadius = shape.topRadius;
+            const bottomRadius = shape.bottomRadius;
+            const supportTopY = h - topRadius * dirY;
+            const supportBottomY = -h - bottomRadius * dirY;
+
+            // get projection on direction
+            const projTop = -topRadius + h * dirY;
+            const projBottom = -bottomRadius - h * dirY;
+
+            // if projection is roughly equal then return the line along the side, otherwise there's only 1 point
+            const capsuleProjectionSlop = 0.02;
+            if (Math.abs(projTop - projBottom) < capsuleProjectionSlop) {
+                face.numVertices = 2;
+                face.vertices[0] = -topRadius * dirX;
+                face.vertices[1] = supportTopY;
+                face.vertices[2] = -topRadius * dirZ;
+                face.vertices[3] = -bottomRadius * dirX;
+                face.vertices[4] = supportBottomY;
+                face.vertices[5] = -bottomRadius * dirZ;
+                transformFace(face, position, quaternion, scale);
+            } else {
+                face.numVertices = 0;
+            }
+        },
+        getInnerRadius(shape: TaperedCapsuleShape): number {
+            return Math.min(shape.topRadius, shape.bottomRadius);
+        },
+        castRay: convex.castRayVsConvex,
+        collidePoint: convex.collidePointVsConvex,
+        createSupportPool: createTaperedCapsuleSupportPool,
+        getSupportFunction: getTaperedCapsuleSupportFunction,
+        register: () => {
+            // tapered capsule vs all convex shapes
+            for (const shapeDef of Object.values(shapeDefs)) {
+                if (shapeDef.category === ShapeCategory.CONVEX) {
+                    setCollideShapeFn(ShapeType.TAPERED_CAPSULE, shapeDef.type, convex.collideConvexVsConvex);
+                    setCollideShapeFn(shapeDef.type, ShapeType.TAPERED_CAPSULE, convex.collideConvexVsConvex);
+
+                    setCastShapeFn(ShapeType.TAPERED_CAPSULE, shapeDef.type, convex.castConvexVsConvex);
+                    setCastShapeFn(shapeDef.type, ShapeType.TAPERED_CAPSULE, convex.castConvexVsConvex);
+                }
+            }
+        },
+    }))();
+
+/* support functions */
+
+/**
+ * Tapered capsule support, the convex hull of two spheres on the Y axis.
+ * In EXCLUDE_CONVEX_RADIUS mode the smallest radius is moved to convexRadius, which shrinks one sphere to a point.
+ * In INCLUDE_CONVEX_RADIUS mode the full spheres are used and convexRadius is 0.
+ */
+export type TaperedCapsuleSupport = {
+    topCenter: number;
+    bottomCenter: number;
+    topRadius: number;
+    bottomRadius: number;
+    convexRadius: number;
+    getSupport(direction: Vec3, out: Vec3): void;
+};
+
+function taperedCapsuleGetSupport(this: TaperedCapsuleSupport, direction: Vec3, out: Vec3): void {
+    const dx = direction[0];
+    const dy = direction[1];
+    const dz = direction[2];
+    const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+    if (len === 0) {
+        out[0] = 0;
+        out[1] = this.topCenter + this.topRadius;
+        out[2] = 0;
+        return;
+    }
+
+    // take the support point of the sphere with the highest projection on direction
+    const nx = dx / len;
+    const ny = dy / len;
+    const nz = dz / len;
+    const projTop = this.topRadius + this.topCenter * ny;
+    const projBottom = this.bottomRadius + this.bottomCenter * ny;
+
+    const radius = projTop > projBottom ? this.topRadius : this.bottomRadius;
+    const center = projTop > projBottom ? this.topCenter : this.bottomCenter;
+    out[0] = radius * nx;
+    out[1] = center + radius * ny;
+    out[2] = radius * nz;
+}
+
+export function createTaperedCapsuleSupport(): TaperedCapsuleSupport {
+    return {
+        topCenter: 0,
+        bottomCenter: 0,
+        topRadius: 0,
+        bottomRadius: 0,
+        convexRadius: 0,
+        getSupport: taperedCapsuleGetSupport,
+    };
+}
+
+export function setTaperedCapsuleSupport(
+    out: TaperedCapsuleSupport,
+    shape: TaperedCapsuleShape,
+    includeConvexRadius: boolean,
+    scale: Vec3,
+): void {
+    // uniform scale only, a negative y scale flips the capsule upside down
+    const absScale = Math.abs(scale[0]);
+    const scaleY = scale[1] < 0 ? -absScale : absScale;
+    const convexRadius = includeConvexRadius ? 0 : absScale * shape.convexRadius;
+
+    out.topCenter = scaleY * shape.halfHeightOfTaperedCylinder;
+    out.bottomCenter = -scaleY * shape.halfHeightOfTaperedCylinder;
+    out.topRadius = absScale * shape.topRadius - convexRadius;
+    out.bottomRadius = absScale * shape.bottomRadius - convexRadius;
+    out.convexRadius = convexRadius;
+}
+
+type TaperedCapsuleSupportPool = {
+    noConvex: TaperedCapsuleSupport;
+    withConvex: TaperedCapsuleSupport;
+};
+
+function createTaperedCapsuleSupportPool(): TaperedCapsuleSupportPool {
+    return {
+        noConvex: createTaperedCapsuleSupport(),
+        withConvex: createTaperedCapsuleSupport(),
+    };
+}
+
+function getTaperedCapsuleSupportFunction(
+    pool: TaperedCapsuleSupportPool,
+    shape: TaperedCapsuleShape,
+    mode: SupportFunctionMode,
+    scale: Vec3,
+): Support {
+    if (mode === SupportFunctionMode.INCLUDE_CONVEX_RADIUS) {
+        setTaperedCapsuleSupport(pool.withConvex, shape, true, scale);
+        return pool.withConvex;
+    } else {
+        // EXCLUDE_CONVEX_RADIUS or DEFAULT
+        setTaperedCapsuleSupport(pool.noConvex, shape, false, scale);
+        return pool.noConvex;
+    }
+}
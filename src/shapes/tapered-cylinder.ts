@@ -0,0 +1,392 @@
+import { type Box3, box3, type Vec3, vec3 } from 'mathcat';
+import type { MassProperties } from '../body/mass-properties';
+import { DEFAULT_CONVEX_RADIUS, type Support, SupportFunctionMode } from '../collision/support';
+import { isScaleInsideOut, transformFace } from '../utils/face';
+import * as convex from './convex';
+import { CYLINDER_CAP_OCTAGON } from './cylinder';
+import {
+    DEFAULT_SHAPE_DENSITY,
+    defineShape,
+    ShapeCategory,
+    ShapeType,
+    type SupportingFaceResult,
+    setCastShapeFn,
+    setCollideShapeFn,
+    shapeDefs,
+} from './shapes';
+import * as revolvedSolid from './utils/revolved-solid';
+
+/** settings for creating a tapered cylinder shape */
+export type TaperedCylinderShapeSettings = {
+    halfHeight: number;
+    /** radius of the top cap, can be 0 for a cone when convexRadius is 0 */
+    topRadius: number;
+    /** radius of the bottom cap, can be 0 for a cone when convexRadius is 0 */
+    bottomRadius: number;
+    /** @default 0.05 @see DEFAULT_CONVEX_RADIUS */
+    convexRadius?: number;
+    /** @default 1000 @see DEFAULT_SHAPE_DENSITY */
+    density?: number;
+    /** material identifier @default -1 */
+    materialId?: number;
+};
+
+/** cylinder shape with a different top and bottom radius, aligned with Y-axis */
+export type TaperedCylinderShape = {
+    type: ShapeType.TAPERED_CYLINDER;
+    halfHeight: number;
+    topRadius: number;
+    bottomRadius: number;
+    convexRadius: number;
+    density: number;
+    materialId: number;
+    aabb: Box3;
+    /** center of mass, offset along Y towards the wider cap */
+    centerOfMass: Vec3;
+    volume: number;
+};
+
+/** create tapered cylinder shape from settings */
+export function create(o: TaperedCylinderShapeSettings): TaperedCylinderShape {
+    const shape: TaperedCylinderShape = {
+        type: ShapeType.TAPERED_CYLINDER,
+        halfHeight: o.halfHeight,
+        topRadius: o.topRadius,
+        bottomRadius: o.bottomRadius,
+        convexRadius: o.convexRadius ?? DEFAULT_CONVEX_RADIUS,
+        density: o.density ?? DEFAULT_SHAPE_DENSITY,
+        materialId: o.materialId ?? -1,
+        aabb: box3.create(),
+        centerOfMass: [0, 0, 0],
+        volume: 0,
+    };
+
+    update(shape);
+
+    return shape;
+}
+
+/**
+ * Computes the radii of the tapered cylinder shrunk by the convex radius, the side moves inwards along its normal
+ * so the radii shrink by more than the convex radius when the side is slanted.
+ */
+function computeInnerRadii(out: Vec3, halfHeight: number, topRadius: number, bottomRadius: number, convexRadius: number): void {
+    const slope = (topRadius - bottomRadius) / (2 * halfHeight);
+    const sideOffset = convexRadius * Math.sqrt(1 + slope * slope);
+    out[0] = topRadius - slope * convexRadius - sideOffset;
+    out[1] = bottomRadius + slope * convexRadius - sideOffset;
+}
+
+/** adds the frustum to a solid */
+function computeTaperedCylinderSolid(out: revolvedSolid.RevolvedSolid, shape: TaperedCylinderShape): void {
+    // ρ = p + q y, going from bottomRadius to topRadius
+    const h = shape.halfHeight;
+    const q = (shape.topRadius - shape.bottomRadius) / (2 * h);
+    const p = shape.bottomRadius + q * h;
+
+    revolvedSolid.reset(out);
+    revolvedSolid.addSegment(out, -h, h, p * p, 2 * p * q, q * q);
+}
+
+const _solid = /* @__PURE__ */ revolvedSolid.create();
+const _update_innerRadii = /* @__PURE__ */ vec3.create();
+
+/** update tapered cylinder shape's derived properties */
+export function update(shape: TaperedCylinderShape): void {
+    // validation
+    if (shape.convexRadius < 0) {
+        throw new Error('Tapered cylinder convexRadius must be >= 0');
+    }
+    if (shape.halfHeight <= 0 || shape.halfHeight < shape.convexRadius) {
+        throw new Error('Tapered cylinder halfHeight must be > 0 and >= convexRadius');
+    }
+    if (shape.topRadius < 0 || shape.bottomRadius < 0 || shape.topRadius + shape.bottomRadius === 0) {
+        throw new Error('Tapered cylinder radii must be >= 0 and not both 0');
+    }
+    computeInnerRadii(_update_innerRadii, shape.halfHeight, shape.topRadius, shape.bottomRadius, shape.convexRadius);
+    if (_update_innerRadii[0] < 0 || _update_innerRadii[1] < 0) {
+        throw new Error('Tapered cylinder convexRadius is too large for its radii');
+    }
+
+    // update
+    computeTaperedCylinderSolid(_solid, shape);
+    shape.centerOfMass[0] = 0;
+    shape.centerOfMass[1] = revolvedSolid.getCenterOfMassY(_solid);
+    shape.centerOfMass[2] = 0;
+    shape.volume = revolvedSolid.getVolume(_solid);
+
+    const maxRadius = Math.max(shape.topRadius, shape.bottomRadius);
+    shape.aabb[0][0] = -maxRadius;
+    shape.aabb[0][1] = -shape.halfHeight;
+    shape.aabb[0][2] = -maxRadius;
+    shape.aabb[1][0] = maxRadius;
+    shape.aabb[1][1] = shape.halfHeight;
+    shape.aabb[1][2] = maxRadius;
+}
+
+/** gets the sine and cosine of the angle between the side and the Y axis, positive when the top is narrower */
+function getSideAngle(out: Vec3, shape: TaperedCylinderShape): void {
+    const dr = shape.bottomRadius - shape.topRadius;
+    const height = 2 * shape.halfHeight;
+    const len = Math.sqrt(dr * dr + height * height);
+    out[0] = dr / len;
+    out[1] = height / len;
+}
+
+const _sideAngle = /* @__PURE__ */ vec3.create();
+
+/* shape def */
+
+export const def = /* @__PURE__ */ (() =>
+    defineShape<TaperedCylinderShape>({
+        type: ShapeType.TAPERED_CYLINDER,
+        category: ShapeCategory.CONVEX,
+        computeMassProperties(out: MassProperties, shape: TaperedCylinderShape): void {
+            computeTaperedCylinderSolid(_solid, shape);
+            revolvedSolid.computeMassProperties(out, _solid, shape.density);
+        },
+        getSurfaceNormal(ioResult, shape: TaperedCylinderShape): void {
+            const x = ioResult.position[0];
+            const y = ioResult.position[1];
+            const z = ioResult.position[2];
+
+            getSideAngle(_sideAngle, shape);
+            const sinAlpha = _sideAngle[0];
+            const cosAlpha = _sideAngle[1];
+
+            // calculate distance to the slanted side and the cap surfaces
+            const radialDist = Math.sqrt(x * x + z * z);
+            const distSide = Math.abs((radialDist - shape.bottomRadius) * cosAlpha + (y + shape.halfHeight) * sinAlpha);
+            const distTop = Math.abs(y - shape.halfHeight);
+            const distBottom = Math.abs(y + shape.halfHeight);
+
+            if (distSide < distTop && distSide < distBottom) {
+                // closer to the side - return the radial normal tilted by the taper
+                let radialX = 1; // point on central axis - default to X axis
+                let radialZ = 0;
+                if (radialDist > 0) {
+                    radialX = x / radialDist;
+                    radialZ = z / radialDist;
+                }
+                ioResult.normal[0] = radialX * cosAlpha;
+                ioResult.normal[1] = sinAlpha;
+                ioResult.normal[2] = radialZ * cosAlpha;
+            } else {
+                // closer to cap - return ±Y normal
+                ioResult.normal[0] = 0;
+                ioResult.normal[1] = distTop <= distBottom ? 1 : -1;
+                ioResult.normal[2] = 0;
+            }
+        },
+        getSupportingFace(ioResult: SupportingFaceResult, direction: Vec3, shape: TaperedCylinderShape): void {
+            const face = ioResult.face;
+            const { position, quaternion, scale } = ioResult;
+
+            // check if scale inverts winding
+            const insideOut = isScaleInsideOut(scale);
+
+            // direction in the unscaled shape, the scale is uniform so only its signs matter
+            const dirX = scale[0] < 0 ? -direction[0] : direction[0];
+            const dirY = scale[1] < 0 ? -direction[1] : direction[1];
+            const dirZ = scale[2] < 0 ? -direction[2] : direction[2];
+
+            // pick the face whose normal is most aligned with the opposite of direction
+            getSideAngle(_sideAngle, shape);
+            const horizontalLen = Math.sqrt(dirX * dirX + dirZ * dirZ);
+            const sideDot = _sideAngle[1] * horizontalLen - _sideAngle[0] * dirY;
+            const capDot = Math.abs(dirY);
+
+            if (sideDot > capDot) {
+                // case 1: side face - returns 2 vertices forming an edge along the slanted side
+                face.numVertices = 2;
+
+                // radial direction on the surface in penetration direction (negative)
+                const radialX = -dirX / horizontalLen;
+                const radialZ = -dirZ / horizontalLen;
+
+                face.vertices[0] = radialX * shape.topRadius;
+                face.vertices[1] = shape.halfHeight;
+                face.vertices[2] = radialZ * shape.topRadius;
+                face.vertices[3] = radialX * shape.bottomRadius;
+                face.vertices[4] = -shape.halfHeight;
+                face.vertices[5] = radialZ * shape.bottomRadius;
+            } else {
+                // case 2: cap face - returns 8 vertices (octagon approximation of circular cap)
+                const radius = dirY < 0 ? shape.topRadius : shape.bottomRadius;
+                if (radius === 0) {
+                    // the tip of a cone is a single point
+                    face.numVertices = 0;
+                    return;
+                }
+
+                face.numVertices = 8;
+
+                // top cap (y < 0): (radius, halfHeight, radius)
+                // bottom cap (y >= 0): (-radius, -halfHeight, radius)
+                const scaleX = dirY < 0 ? radius : -radius;
+                const capY = dirY < 0 ? shape.halfHeight : -shape.halfHeight;
+                const scaleZ = radius;
+
+                // when direction is more than 5 degrees from vertical, rotate octagon so one vertex
+                // points toward max penetration
+                // 0.00765427 ≈ tan²(5°)
+                let rotationCos = 1;
+                let rotationSin = 0;
+                if (horizontalLen * horizontalLen > 0.00765427 * dirY * dirY) {
+                    rotationCos = dirX / horizontalLen;
+                    rotationSin = dirZ / horizontalLen;
+                }
+
+                // write octagon vertices with winding reversal for inside-out scales
+                for (let i = 0; i < 8; i++) {
+                    const idx = insideOut ? 7 - i : i;
+                    const template = CYLINDER_CAP_OCTAGON[idx];
+
+                    const scaledX = scaleX * template[0];
+                    const scaledZ = scaleZ * template[2];
+
+                    const base = i * 3;
+                    face.vertices[base] = scaledX * rotationCos - scaledZ * rotationSin;
+                    face.vertices[base + 1] = capY;
+                    face.vertices[base + 2] = scaledX * rotationSin + scaledZ * rotationCos;
+                }
+            }
+
+            transformFace(face, position, quaternion, scale);
+        },
+        getInnerRadius(shape: TaperedCylinderShape): number {
+            // distance from the center of mass to the caps and to the slanted side
+            getSideAngle(_sideAngle, shape);
+            const h = shape.halfHeight;
+            const centerOfMassY = shape.centerOfMass[1];
+            const distSide = shape.bottomRadius * _sideAngle[1] - (centerOfMassY + h) * _sideAngle[0];
+            return Math.min(h - centerOfMassY, h + centerOfMassY, distSide);
+        },
+        castRay: convex.castRayVsConvex,
+        collidePoint: convex.collidePointVsConvex,
+        createSupportPool: createTaperedCylinderSupportPool,
+        getSupportFunction: getTaperedCylinderSupportFunction,
+        register: () => {
+            // tapered cylinder vs all convex shapes
+            for (const shapeDef of Object.values(shapeDefs)) {
+                if (shapeDef.category === ShapeCategory.CONVEX) {
+                    setCollideShapeFn(ShapeType.TAPERED_CYLINDER, shapeDef.type, convex.collideConvexVsConvex);
+                    setCollideShapeFn(shapeDef.type, ShapeType.TAPERED_CYLINDER, convex.collideConvexVsConvex);
+
+                    setCastShapeFn(ShapeType.TAPERED_CYLINDER, shapeDef.type, convex.castConvexVsConvex);
+                    setCastShapeFn(shapeDef.type, ShapeType.TAPERED_CYLINDER, convex.castConvexVsConvex);
+                }
+            }
+        },
+    }))();
+
+/* support functions */
+
+/**
+ * Tapered cylinder support.
+ * In EXCLUDE_CONVEX_RADIUS mode the frustum is shrunk by the convex radius, which is stored separately.
+ * In INCLUDE_CONVEX_RADIUS mode the full frustum is used and convexRadius is 0.
+ */
+export type TaperedCylinderSupport = {
+    top: number;
+    bottom: number;
+    topRadius: number;
+    bottomRadius: number;
+    convexRadius: number;
+    getSupport(direction: Vec3, out: Vec3): void;
+};
+
+function taperedCylinderGetSupport(this: TaperedCylinderSupport, direction: Vec3, out: Vec3): void {
+    // Get horizontal length (XZ plane projection)
+    const horizontalLen = Math.sqrt(direction[0] * direction[0] + direction[2] * direction[2]);
+
+    if (horizontalLen > 0) {
+        // pick the rim of the top or bottom cap, whichever projects furthest on direction
+        const projTop = this.topRadius * horizontalLen + this.top * direction[1];
+        const projBottom = this.bottomRadius * horizontalLen + this.bottom * direction[1];
+        const radius = projTop > projBottom ? this.topRadius : this.bottomRadius;
+        const scale = radius / horizontalLen;
+        out[0] = direction[0] * scale;
+        out[1] = projTop > projBottom ? this.top : this.bottom;
+        out[2] = direction[2] * scale;
+    } else {
+        // Purely vertical direction - point on central axis
+        out[0] = 0;
+        out[1] = this.top * direction[1] >= this.bottom * direction[1] ? this.top : this.bottom;
+        out[2] = 0;
+    }
+}
+
+export function createTaperedCylinderSupport(): TaperedCylinderSupport {
+    return {
+        top: 0,
+        bottom: 0,
+        topRadius: 0,
+        bottomRadius: 0,
+        convexRadius: 0,
+        getSupport: taperedCylinderGetSupport,
+    };
+}
+
+const _setSupport_innerRadii = /* @__PURE__ */ vec3.create();
+
+export function setTaperedCylinderSupport(
+    out: TaperedCylinderSupport,
+    shape: TaperedCylinderShape,
+    includeConvexRadius: boolean,
+    scale: Vec3,
+): void {
+    // uniform scale only, a negative y scale flips the cylinder upside down
+    const absScale = Math.abs(scale[0]);
+    const signY = scale[1] < 0 ? -1 : 1;
+
+    if (includeConvexRadius) {
+        out.top = signY * absScale * shape.halfHeight;
+        out.bottom = -signY * absScale * shape.halfHeight;
+        out.topRadius = absScale * shape.topRadius;
+        out.bottomRadius = absScale * shape.bottomRadius;
+        out.convexRadius = 0;
+    } else {
+        const convexRadius = absScale * shape.convexRadius;
+        computeInnerRadii(
+            _setSupport_innerRadii,
+            absScale * shape.halfHeight,
+            absScale * shape.topRadius,
+            absScale * shape.bottomRadius,
+            convexRadius,
+        );
+        out.top = signY * (absScale * shape.halfHeight - convexRadius);
+        out.bottom = -signY * (absScale * shape.halfHeight - convexRadius);
+        out.topRadius = _setSupport_innerRadii[0];
+        out.bottomRadius = _setSupport_innerRadii[1];
+        out.convexRadius = convexRadius;
+    }
+}
+
+// Support pool
+type TaperedCylinderSupportPool = {
+    noConvex: TaperedCylinderSupport;
+    withConvex: TaperedCylinderSupport;
+};
+
+function createTaperedCylinderSupportPool(): TaperedCylinderSupportPool {
+    return {
+        noConvex: createTaperedCylinderSupport(),
+        withConvex: createTaperedCylinderSupport(),
+    };
+}
+
+function getTaperedCylinderSupportFunction(
+    pool: TaperedCylinderSupportPool,
+    shape: TaperedCylinderShape,
+    mode: SupportFunctionMode,
+    scale: Vec3,
+): Support {
+    if (mode === SupportFunctionMode.INCLUDE_CONVEX_RADIUS || mode === SupportFunctionMode.DEFAULT) {
+        setTaperedCylinderSupport(pool.withConvex, shape, true, scale);
+        return pool.withConvex;
+    } else {
+        setTaperedCylinderSupport(pool.noConvex, shape, false, scale);
+        return pool.noConvex;
+    }
+}
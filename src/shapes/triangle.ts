@@ -0,0 +1,283 @@
+import { type Box3, box3, mat4, type Vec3, vec3 } from 'mathcat';
+import type { MassProperties } from '../body/mass-properties';
+import * as subShape from '../body/sub-shape';
+import {
+    createTriangleSupport,
+    setTriangleSupport,
+    type Support,
+    SupportFunctionMode,
+    type TriangleSupport,
+} from '../collision/support';
+import { assert } from '../utils/assert';
+import { isScaleInsideOut, transformFace } from '../utils/face';
+import * as convex from './convex';
+import {
+    defineShape,
+    ShapeCategory,
+    ShapeType,
+    type SupportingFaceResult,
+    type SurfaceNormalResult,
+    setCastShapeFn,
+    setCollideShapeFn,
+    shapeDefs,
+} from './shapes';
+
+/** settings for creating a triangle shape */
+export type TriangleShapeSettings = {
+    /** first vertex */
+    a: Vec3;
+    /** second vertex */
+    b: Vec3;
+    /** third vertex */
+    c: Vec3;
+    /** rounds the triangle by this radius @default 0 */
+    convexRadius?: number;
+    /** material identifier @default -1 */
+    materialId?: number;
+};
+
+/**
+ * single triangle shape, a convex alternative to a triangle mesh with one triangle.
+ * the triangle has no volume, so bodies using it are static unless mass properties are provided at the body level.
+ */
+export type TriangleShape = {
+    type: ShapeType.TRIANGLE;
+    /** first vertex */
+    a: Vec3;
+    /** second vertex */
+    b: Vec3;
+    /** third vertex */
+    c: Vec3;
+    /** the triangle is rounded by this radius */
+    convexRadius: number;
+    /** material identifier */
+    materialId: number;
+    /** shape local bounds */
+    aabb: Box3;
+    /** shape center of mass, the centroid of the triangle */
+    centerOfMass: Vec3;
+    /** shape volume, always 0 */
+    volume: number;
+};
+
+/** create a triangle shape */
+export function create(o: TriangleShapeSettings): TriangleShape {
+    const shape: TriangleShape = {
+        type: ShapeType.TRIANGLE,
+        a: vec3.clone(o.a),
+        b: vec3.clone(o.b),
+        c: vec3.clone(o.c),
+        convexRadius: o.convexRadius ?? 0,
+        materialId: o.materialId ?? -1,
+        aabb: box3.create(),
+        centerOfMass: vec3.create(),
+        volume: 0,
+    };
+
+    update(shape);
+
+    return shape;
+}
+
+/** updates a triangle shape after its properties have changed */
+export function update(shape: TriangleShape): void {
+    assert(shape.convexRadius >= 0, 'TriangleShape convexRadius must be >= 0');
+
+    const { a, b, c, convexRadius } = shape;
+
+    // bounds of the vertices, expanded by the convex radius
+    for (let i = 0; i < 3; i++) {
+        shape.aabb[0][i] = Math.min(a[i], b[i], c[i]) - convexRadius;
+        shape.aabb[1][i] = Math.max(a[i], b[i], c[i]) + convexRadius;
+    }
+
+    // centroid
+    shape.centerOfMass[0] = (a[0] + b[0] + c[0]) / 3;
+    shape.centerOfMass[1] = (a[1] + b[1] + c[1]) / 3;
+    shape.centerOfMass[2] = (a[2] + b[2] + c[2]) / 3;
+
+    shape.volume = 0;
+}
+
+/* shape def */
+
+const _getSurfaceNormal_ab = /* @__PURE__ */ vec3.create();
+const _getSurfaceNormal_ac = /* @__PURE__ */ vec3.create();
+const _getSurfaceNormal_ap = /* @__PURE__ */ vec3.create();
+
+export const def = /* @__PURE__ */ (() =>
+    defineShape<TriangleShape>({
+        type: ShapeType.TRIANGLE,
+        category: ShapeCategory.CONVEX,
+        computeMassProperties(out: MassProperties, _shape: TriangleShape): void {
+            // a triangle has no volume, same as a triangle mesh.
+            // mass properties should be overridden at the body level if needed.
+            out.mass = 0;
+            mat4.identity(out.inertia);
+        },
+        getSurfaceNormal(ioResult: SurfaceNormalResult, shape: TriangleShape, subShapeId: number): void {
+            assert(subShape.isEmpty(subShapeId), 'Invalid subshape ID for TriangleShape');
+
+            const { a, b, c } = shape;
+            const normal = ioResult.normal;
+            vec3.subtract(_getSurfaceNormal_ab, b, a);
+            vec3.subtract(_getSurfaceNormal_ac, c, a);
+            vec3.cross(normal, _getSurfaceNormal_ab, _getSurfaceNormal_ac);
+
+            const len = vec3.length(normal);
+            if (len === 0) {
+                // degenerate triangle, fallback to y axis
+                vec3.set(normal, 0, 1, 0);
+                return;
+            }
+
+            // the triangle is double sided, return the normal of the side the position is on
+            vec3.subtract(_getSurfaceNormal_ap, ioResult.position, a);
+            const side = vec3.dot(_getSurfaceNormal_ap, normal) < 0 ? -1 : 1;
+            vec3.scale(normal, normal, side / len);
+        },
+        getSupportingFace(ioResult: SupportingFaceResult, _direction: Vec3, shape: TriangleShape, _subShapeId: number): void {
+            const face = ioResult.face;
+            const { position, quaternion, scale } = ioResult;
+            const { a, b, c } = shape;
+
+            // check if scale inverts winding (negative determinant)
+            const insideOut = isScaleInsideOut(scale);
+
+            // the triangle itself is the supporting face
+            face.numVertices = 3;
+
+            if (insideOut) {
+                // reverse winding: a,b,c -> c,b,a
+                face.vertices[0] = c[0];
+                face.vertices[1] = c[1];
+                face.vertices[2] = c[2];
+                face.vertices[3] = b[0];
+                face.vertices[4] = b[1];
+                face.vertices[5] = b[2];
+                face.vertices[6] = a[0];
+                face.vertices[7] = a[1];
+                face.vertices[8] = a[2];
+            } else {
+                face.vertices[0] = a[0];
+                face.vertices[1] = a[1];
+                face.vertices[2] = a[2];
+                face.vertices[3] = b[0];
+                face.vertices[4] = b[1];
+                face.vertices[5] = b[2];
+                face.vertices[6] = c[0];
+                face.vertices[7] = c[1];
+                face.vertices[8] = c[2];
+            }
+
+            transformFace(face, position, quaternion, scale);
+        },
+        getInnerRadius(shape: TriangleShape): number {
+            // only the rounding gives the triangle any thickness
+            return shape.convexRadius;
+        },
+        castRay: convex.castRayVsConvex,
+        collidePoint: convex.collidePointVsConvex,
+        createSupportPool: createTriangleSupportPool,
+        getSupportFunction: getTriangleSupportFunction,
+        register: () => {
+            // triangle vs all convex shapes
+            for (const shapeDef of Object.values(shapeDefs)) {
+                if (shapeDef.category === ShapeCategory.CONVEX) {
+                    setCollideShapeFn(ShapeType.TRIANGLE, shapeDef.type, convex.collideConvexVsConvex);
+                    setCollideShapeFn(shapeDef.type, ShapeType.TRIANGLE, convex.collideConvexVsConvex);
+
+                    setCastShapeFn(ShapeType.TRIANGLE, shapeDef.type, convex.castConvexVsConvex);
+                    setCastShapeFn(shapeDef.type, ShapeType.TRIANGLE, convex.castConvexVsConvex);
+                }
+            }
+        },
+    }))();
+
+/* support functions */
+
+/**
+ * Triangle support for INCLUDE_CONVEX_RADIUS mode when the triangle is rounded.
+ * Pushes the furthest vertex out by the convex radius, convexRadius is 0.
+ */
+export type TriangleWithConvexSupport = {
+    triangle: TriangleSupport;
+    radius: number;
+    convexRadius: number;
+    getSupport(direction: Vec3, out: Vec3): void;
+};
+
+function triangleWithConvexGetSupport(this: TriangleWithConvexSupport, direction: Vec3, out: Vec3): void {
+    this.triangle.getSupport(direction, out);
+
+    const length = vec3.length(direction);
+    if (length > 0) {
+        vec3.scaleAndAdd(out, out, direction, this.radius / length);
+    }
+}
+
+export function createTriangleWithConvexSupport(): TriangleWithConvexSupport {
+    return {
+        triangle: createTriangleSupport(),
+        radius: 0,
+        convexRadius: 0,
+        getSupport: triangleWithConvexGetSupport,
+    };
+}
+
+const _setSupport_a = /* @__PURE__ */ vec3.create();
+const _setSupport_b = /* @__PURE__ */ vec3.create();
+const _setSupport_c = /* @__PURE__ */ vec3.create();
+
+function setScaledTriangleSupport(out: TriangleSupport, shape: TriangleShape, scale: Vec3): void {
+    vec3.multiply(_setSupport_a, shape.a, scale);
+    vec3.multiply(_setSupport_b, shape.b, scale);
+    vec3.multiply(_setSupport_c, shape.c, scale);
+    setTriangleSupport(out, _setSupport_a, _setSupport_b, _setSupport_c);
+}
+
+function scaleConvexRadius(radius: number, scale: Vec3): number {
+    // use minimum absolute scale component
+    const minScale = Math.min(Math.abs(scale[0]), Math.abs(scale[1]), Math.abs(scale[2]));
+    return radius * minScale;
+}
+
+export function setTriangleWithConvexSupport(out: TriangleWithConvexSupport, shape: TriangleShape, scale: Vec3): void {
+    setScaledTriangleSupport(out.triangle, shape, scale);
+    out.radius = scaleConvexRadius(shape.convexRadius, scale);
+    out.convexRadius = 0;
+}
+
+/** sets a triangle support to the triangle without rounding, the rounding is stored in convexRadius */
+export function setTriangleNoConvexSupport(out: TriangleSupport, shape: TriangleShape, scale: Vec3): void {
+    setScaledTriangleSupport(out, shape, scale);
+    out.convexRadius = scaleConvexRadius(shape.convexRadius, scale);
+}
+
+type TriangleSupportPool = {
+    noConvex: TriangleSupport;
+    withConvex: TriangleWithConvexSupport;
+};
+
+function createTriangleSupportPool(): TriangleSupportPool {
+    return {
+        noConvex: createTriangleSupport(),
+        withConvex: createTriangleWithConvexSupport(),
+    };
+}
+
+function getTriangleSupportFunction(
+    pool: TriangleSupportPool,
+    shape: TriangleShape,
+    mode: SupportFunctionMode,
+    scale: Vec3,
+): Support {
+    if (mode === SupportFunctionMode.INCLUDE_CONVEX_RADIUS && shape.convexRadius > 0) {
+        setTriangleWithConvexSupport(pool.withConvex, shape, scale);
+        return pool.withConvex;
+    }
+
+    // EXCLUDE_CONVEX_RADIUS or DEFAULT, or a sharp triangle which is the same in every mode
+    setTriangleNoConvexSupport(pool.noConvex, shape, scale);
+    return pool.noConvex;
+}
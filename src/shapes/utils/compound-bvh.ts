@@ -0,0 +1,320 @@
+import { type Box3, box3 } from 'mathcat';
+
+/**
+ * Dynamic bounding volume hierarchy over the children of a compound shape.
+ *
+ * Leaves hold the bounds of a child in compound space. The tree is built top down when the compound is created,
+ * after which children can be inserted, removed and moved without rebuilding the tree, only the path from the
+ * changed leaf to the root is refit.
+ */
+export type CompoundBvh = {
+    nodes: CompoundBvhNode[];
+    freeNodeIndices: number[];
+    root: number;
+    /** leaf node index of each compound child */
+    leaves: number[];
+};
+
+export type CompoundBvhNode = {
+    parent: number;
+    left: number;
+    right: number;
+    aabb: Box3;
+    /** index of the compound child for leaf nodes, -1 for internal nodes */
+    childIndex: number;
+};
+
+export function create(): CompoundBvh {
+    return {
+        nodes: [],
+        freeNodeIndices: [],
+        root: -1,
+        leaves: [],
+    };
+}
+
+/** removes all nodes, keeping them for reuse */
+export function clear(bvh: CompoundBvh): void {
+    bvh.freeNodeIndices.length = 0;
+    for (let i = bvh.nodes.length - 1; i >= 0; i--) {
+        bvh.freeNodeIndices.push(i);
+    }
+    bvh.root = -1;
+    bvh.leaves.length = 0;
+}
+
+export function isLeaf(node: CompoundBvhNode): boolean {
+    return node.left === -1;
+}
+
+function requestNode(bvh: CompoundBvh): number {
+    if (bvh.freeNodeIndices.length > 0) {
+        const nodeIndex = bvh.freeNodeIndices.pop()!;
+        const node = bvh.nodes[nodeIndex];
+        node.parent = -1;
+        node.left = -1;
+        node.right = -1;
+        node.childIndex = -1;
+        return nodeIndex;
+    }
+
+    const nodeIndex = bvh.nodes.length;
+    bvh.nodes.push({
+        parent: -1,
+        left: -1,
+        right: -1,
+        aabb: box3.create(),
+        childIndex: -1,
+    });
+    return nodeIndex;
+}
+
+function releaseNode(bvh: CompoundBvh, nodeIndex: number): void {
+    const node = bvh.nodes[nodeIndex];
+    node.parent = -1;
+    node.left = -1;
+    node.right = -1;
+    node.childIndex = -1;
+    bvh.freeNodeIndices.push(nodeIndex);
+}
+
+function proximity(a: Box3, b: Box3): number {
+    const dx = a[0][0] + a[1][0] - (b[0][0] + b[1][0]);
+    const dy = a[0][1] + a[1][1] - (b[0][1] + b[1][1]);
+    const dz = a[0][2] + a[1][2] - (b[0][2] + b[1][2]);
+    return Math.abs(dx) + Math.abs(dy) + Math.abs(dz);
+}
+
+/** recomputes the bounds of the ancestors of a node, stops once the bounds no longer change */
+function refit(bvh: CompoundBvh, nodeIndex: number): void {
+    while (nodeIndex !== -1) {
+        const node = bvh.nodes[nodeIndex];
+        box3.copy(_refit_prevAabb, node.aabb);
+        box3.union(node.aabb, bvh.nodes[node.left].aabb, bvh.nodes[node.right].aabb);
+
+        if (box3.exactEquals(node.aabb, _refit_prevAabb)) break;
+
+        nodeIndex = node.parent;
+    }
+}
+
+const _refit_prevAabb = /* @__PURE__ */ box3.create();
+
+function insertLeaf(bvh: CompoundBvh, leafIndex: number): void {
+    const leaf = bvh.nodes[leafIndex];
+
+    if (bvh.root === -1) {
+        bvh.root = leafIndex;
+        leaf.parent = -1;
+        return;
+    }
+
+    // descend to the closest leaf
+    let siblingIndex = bvh.root;
+    let sibling = bvh.nodes[siblingIndex];
+    while (!isLeaf(sibling)) {
+        const left = bvh.nodes[sibling.left];
+        const right = bvh.nodes[sibling.right];
+        siblingIndex = proximity(leaf.aabb, left.aabb) < proximity(leaf.aabb, right.aabb) ? sibling.left : sibling.right;
+        sibling = bvh.nodes[siblingIndex];
+    }
+
+    // replace the sibling with a new parent of the sibling and the leaf
+    const prevIndex = sibling.parent;
+    const parentIndex = requestNode(bvh);
+    const parent = bvh.nodes[parentIndex];
+
+    parent.parent = prevIndex;
+    parent.left = siblingIndex;
+    parent.right = leafIndex;
+    box3.union(parent.aabb, leaf.aabb, sibling.aabb);
+    sibling.parent = parentIndex;
+    leaf.parent = parentIndex;
+
+    if (prevIndex === -1) {
+        bvh.root = parentIndex;
+        return;
+    }
+
+    const prev = bvh.nodes[prevIndex];
+    if (prev.left === siblingIndex) {
+        prev.left = parentIndex;
+    } else {
+        prev.right = parentIndex;
+    }
+
+    refit(bvh, prevIndex);
+}
+
+function removeLeaf(bvh: CompoundBvh, leafIndex: number): void {
+    if (leafIndex === bvh.root) {
+        bvh.root = -1;
+        return;
+    }
+
+    // replace the parent of the leaf with the sibling of the leaf
+    const parentIndex = bvh.nodes[leafIndex].parent;
+    const parent = bvh.nodes[parentIndex];
+    const prevIndex = parent.parent;
+    const siblingIndex = parent.left === leafIndex ? parent.right : parent.left;
+    const sibling = bvh.nodes[siblingIndex];
+
+    sibling.parent = prevIndex;
+    releaseNode(bvh, parentIndex);
+
+    if (prevIndex === -1) {
+        bvh.root = siblingIndex;
+        return;
+    }
+
+    const prev = bvh.nodes[prevIndex];
+    if (prev.left === parentIndex) {
+        prev.left = siblingIndex;
+    } else {
+        prev.right = siblingIndex;
+    }
+
+    refit(bvh, prevIndex);
+}
+
+const _buildRecursive_centerBounds = /* @__PURE__ */ box3.create();
+
+function buildRecursive(
+    bvh: CompoundBvh,
+    childBounds: Box3[],
+    order: number[],
+    start: number,
+    end: number,
+    parent: number,
+): number {
+    const nodeIndex = requestNode(bvh);
+    const node = bvh.nodes[nodeIndex];
+    node.parent = parent;
+
+    if (end - start === 1) {
+        const childIndex = order[start];
+        box3.copy(node.aabb, childBounds[childIndex]);
+        node.childIndex = childIndex;
+        bvh.leaves[childIndex] = nodeIndex;
+        return nodeIndex;
+    }
+
+    // split at the median of the child centers along the axis they spread out most on
+    const centerBounds = box3.empty(_buildRecursive_centerBounds);
+    for (let i = start; i < end; i++) {
+        const aabb = childBounds[order[i]];
+        for (let axis = 0; axis < 3; axis++) {
+            const center = aabb[0][axis] + aabb[1][axis];
+            centerBounds[0][axis] = Math.min(centerBounds[0][axis], center);
+            centerBounds[1][axis] = Math.max(centerBounds[1][axis], center);
+        }
+    }
+
+    let splitAxis = 0;
+    for (let axis = 1; axis < 3; axis++) {
+        if (centerBounds[1][axis] - centerBounds[0][axis] > centerBounds[1][splitAxis] - centerBounds[0][splitAxis]) {
+            splitAxis = axis;
+        }
+    }
+
+    const sorted = order
+        .slice(start, end)
+        .sort(
+            (a, b) =>
+                childBounds[a][0][splitAxis] +
+                childBounds[a][1][splitAxis] -
+                (childBounds[b][0][splitAxis] + childBounds[b][1][splitAxis]),
+        );
+    for (let i = 0; i < sorted.length; i++) {
+        order[start + i] = sorted[i];
+    }
+
+    const mid = (start + end) >> 1;
+    node.left = buildRecursive(bvh, childBounds, order, start, mid, nodeIndex);
+    node.right = buildRecursive(bvh, childBounds, order, mid, end, nodeIndex);
+    box3.union(node.aabb, bvh.nodes[node.left].aabb, bvh.nodes[node.right].aabb);
+
+    return nodeIndex;
+}
+
+/**
+ * Builds the bvh from the bounds of all compound children, replacing its contents.
+ * Building top down gives a balanced tree, which is faster to query than inserting the children one by one.
+ * @param bvh the bvh
+ * @param childBounds bounds of each child in compound space
+ */
+export function build(bvh: CompoundBvh, childBounds: Box3[]): void {
+    clear(bvh);
+    if (childBounds.length === 0) return;
+
+    const order: number[] = [];
+    for (let i = 0; i < childBounds.length; i++) {
+        order.push(i);
+        bvh.leaves.push(-1);
+    }
+
+    bvh.root = buildRecursive(bvh, childBounds, order, 0, order.length, -1);
+}
+
+/**
+ * Inserts a leaf for the next compound child.
+ * @param bvh the bvh
+ * @param aabb bounds of the child in compound space
+ * @returns the index of the child
+ */
+export function insert(bvh: CompoundBvh, aabb: Box3): number {
+    const childIndex = bvh.leaves.length;
+
+    const leafIndex = requestNode(bvh);
+    const leaf = bvh.nodes[leafIndex];
+    box3.copy(leaf.aabb, aabb);
+    leaf.childIndex = childIndex;
+    bvh.leaves.push(leafIndex);
+
+    insertLeaf(bvh, leafIndex);
+
+    return childIndex;
+}
+
+/**
+ * Removes the leaf of a compound child.
+ * Like removing a child from the compound, the last child takes the index of the removed child.
+ */
+export function remove(bvh: CompoundBvh, childIndex: number): void {
+    const leafIndex = bvh.leaves[childIndex];
+    removeLeaf(bvh, leafIndex);
+    releaseNode(bvh, leafIndex);
+
+    const lastIndex = bvh.leaves.length - 1;
+    if (childIndex !== lastIndex) {
+        const movedLeafIndex = bvh.leaves[lastIndex];
+        bvh.leaves[childIndex] = movedLeafIndex;
+        bvh.nodes[movedLeafIndex].childIndex = childIndex;
+    }
+    bvh.leaves.pop();
+}
+
+/** updates the bounds of a compound child */
+export function update(bvh: CompoundBvh, childIndex: number, aabb: Box3): void {
+    const leafIndex = bvh.leaves[childIndex];
+    const leaf = bvh.nodes[leafIndex];
+
+    // shrinking within the current place in the tree only needs a refit
+    if (leafIndex === bvh.root || box3.containsBox3(bvh.nodes[leaf.parent].aabb, aabb)) {
+        box3.copy(leaf.aabb, aabb);
+        if (leafIndex !== bvh.root) refit(bvh, leaf.parent);
+        return;
+    }
+
+    removeLeaf(bvh, leafIndex);
+    box3.copy(leaf.aabb, aabb);
+    insertLeaf(bvh, leafIndex);
+}
+
+/** gets the bounds of all children */
+export function bounds(out: Box3, bvh: CompoundBvh): Box3 {
+    if (bvh.root === -1) {
+        return box3.empty(out);
+    }
+    return box3.copy(out, bvh.nodes[bvh.root].aabb);
+}
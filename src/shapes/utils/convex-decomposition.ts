@@ -0,0 +1,663 @@
+import { quat, type Vec3, vec3 } from 'mathcat';
+import { DEFAULT_CONVEX_RADIUS } from '../../collision/support';
+import * as compound from '../compound';
+import type { CompoundShape, CompoundShapeChild } from '../compound';
+import * as convexHull from '../convex-hull';
+import { DEFAULT_SHAPE_DENSITY } from '../shapes';
+import * as convexHullBuilder from './convex-hull-builder';
+
+/** settings for decomposing a triangle mesh into a compound of convex hulls */
+export type ConvexDecompositionSettings = {
+    /** flat array of vertex positions [x1, y1, z1, x2, y2, z2, ...] */
+    positions: number[];
+    /** flat array of triangle vertex indices [i1, i2, i3, i4, i5, i6, ...] */
+    indices: number[];
+    /** number of voxels along the longest axis of the mesh, higher is more accurate but slower @default 32 */
+    resolution?: number;
+    /** maximum number of convex hulls in the compound @default 16 */
+    maxConvexHulls?: number;
+    /** parts are split while the volume their hull adds is more than this fraction of the mesh volume @default 0.01 */
+    maxConcavity?: number;
+    /** maximum number of vertices of each convex hull @default 64 */
+    maxVerticesPerHull?: number;
+    /** convex radius of the hulls @default 0.05 @see DEFAULT_CONVEX_RADIUS */
+    convexRadius?: number;
+    /** points are allowed this far outside of the hulls @default 1e-3 */
+    hullTolerance?: number;
+    /** @default 1000 @see DEFAULT_SHAPE_DENSITY */
+    density?: number;
+    /** material identifier of the hulls @default -1 */
+    materialId?: number;
+};
+
+/* voxel grid */
+
+const VOXEL_EMPTY = 0;
+const VOXEL_SURFACE = 1;
+const VOXEL_INSIDE = 2;
+const VOXEL_OUTSIDE = 3;
+
+type VoxelGrid = {
+    /** world position of the min corner of voxel 0 */
+    origin: Vec3;
+    voxelSize: number;
+    sizeX: number;
+    sizeY: number;
+    sizeZ: number;
+    /** state of each voxel, x fastest, then y, then z */
+    states: Uint8Array;
+    /** flat points where the mesh crosses each surface voxel, in world space */
+    surfacePoints: Map<number, number[]>;
+};
+
+function createVoxelGrid(positions: number[], resolution: number): VoxelGrid {
+    const min = vec3.fromValues(Infinity, Infinity, Infinity);
+    const max = vec3.fromValues(-Infinity, -Infinity, -Infinity);
+    for (let i = 0; i < positions.length; i += 3) {
+        for (let axis = 0; axis < 3; axis++) {
+            min[axis] = Math.min(min[axis], positions[i + axis]);
+            max[axis] = Math.max(max[axis], positions[i + axis]);
+        }
+    }
+
+    const longestExtent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+    if (!(longestExtent > 0)) {
+        throw new Error('Convex decomposition needs a mesh with a non-zero size');
+    }
+    const voxelSize = longestExtent / resolution;
+
+    // pad by one voxel on each side so the outside can be flood filled around the mesh
+    const sizeX = Math.floor((max[0] - min[0]) / voxelSize) + 3;
+    const sizeY = Math.floor((max[1] - min[1]) / voxelSize) + 3;
+    const sizeZ = Math.floor((max[2] - min[2]) / voxelSize) + 3;
+
+    return {
+        origin: vec3.fromValues(min[0] - voxelSize, min[1] - voxelSize, min[2] - voxelSize),
+        voxelSize,
+        sizeX,
+        sizeY,
+        sizeZ,
+        states: new Uint8Array(sizeX * sizeY * sizeZ),
+        surfacePoints: new Map(),
+    };
+}
+
+// a triangle clipped by the 6 planes of a box has at most 9 vertices
+const _clipBufferA = /* @__PURE__ */ new Array<number>(9 * 3).fill(0);
+const _clipBufferB = /* @__PURE__ */ new Array<number>(9 * 3).fill(0);
+
+/** clips a polygon against an axis aligned plane, keeping the side above or below the bound, returns the new vertex count */
+function clipPolygon(out: number[], polygon: number[], count: number, axis: number, bound: number, keepAbove: boolean): number {
+    let outCount = 0;
+    for (let i = 0; i < count; i++) {
+        const j = (i + 1) % count;
+        const distI = keepAbove ? polygon[i * 3 + axis] - bound : bound - polygon[i * 3 + axis];
+        const distJ = keepAbove ? polygon[j * 3 + axis] - bound : bound - polygon[j * 3 + axis];
+
+        if (distI >= 0) {
+            out[outCount * 3] = polygon[i * 3];
+            out[outCount * 3 + 1] = polygon[i * 3 + 1];
+            out[outCount * 3 + 2] = polygon[i * 3 + 2];
+            outCount++;
+        }
+
+        // edge crosses the plane
+        if (distI >= 0 !== distJ >= 0) {
+            const t = distI / (distI - distJ);
+            out[outCount * 3] = polygon[i * 3] + t * (polygon[j * 3] - polygon[i * 3]);
+            out[outCount * 3 + 1] = polygon[i * 3 + 1] + t * (polygon[j * 3 + 1] - polygon[i * 3 + 1]);
+            out[outCount * 3 + 2] = polygon[i * 3 + 2] + t * (polygon[j * 3 + 2] - polygon[i * 3 + 2]);
+            outCount++;
+        }
+    }
+    return outCount;
+}
+
+const _voxelize_a = /* @__PURE__ */ vec3.create();
+const _voxelize_b = /* @__PURE__ */ vec3.create();
+const _voxelize_c = /* @__PURE__ */ vec3.create();
+const _voxelize_ab = /* @__PURE__ */ vec3.create();
+const _voxelize_ac = /* @__PURE__ */ vec3.create();
+const _voxelize_normal = /* @__PURE__ */ vec3.create();
+
+/** marks the voxels crossed by the triangles as surface and stores the part of the triangles inside each of them */
+function voxelizeTriangles(grid: VoxelGrid, positions: number[], indices: number[]): void {
+    const { origin, voxelSize, sizeX, sizeY, sizeZ } = grid;
+    const a = _voxelize_a;
+    const b = _voxelize_b;
+    const c = _voxelize_c;
+    const normal = _voxelize_normal;
+
+    for (let t = 0; t < indices.length; t += 3) {
+        vec3.set(a, positions[indices[t] * 3], positions[indices[t] * 3 + 1], positions[indices[t] * 3 + 2]);
+        vec3.set(b, positions[indices[t + 1] * 3], positions[indices[t + 1] * 3 + 1], positions[indices[t + 1] * 3 + 2]);
+        vec3.set(c, positions[indices[t + 2] * 3], positions[indices[t + 2] * 3 + 1], positions[indices[t + 2] * 3 + 2]);
+
+        vec3.subtract(_voxelize_ab, b, a);
+        vec3.subtract(_voxelize_ac, c, a);
+        vec3.cross(normal, _voxelize_ab, _voxelize_ac);
+        const normalExtent = 0.5 * voxelSize * (Math.abs(normal[0]) + Math.abs(normal[1]) + Math.abs(normal[2]));
+
+        // voxel range of the triangle bounds, kept off the padding against rounding errors
+        const minX = Math.max(1, Math.floor((Math.min(a[0], b[0], c[0]) - origin[0]) / voxelSize));
+        const minY = Math.max(1, Math.floor((Math.min(a[1], b[1], c[1]) - origin[1]) / voxelSize));
+        const minZ = Math.max(1, Math.floor((Math.min(a[2], b[2], c[2]) - origin[2]) / voxelSize));
+        const maxX = Math.min(sizeX - 2, Math.floor((Math.max(a[0], b[0], c[0]) - origin[0]) / voxelSize));
+        const maxY = Math.min(sizeY - 2, Math.floor((Math.max(a[1], b[1], c[1]) - origin[1]) / voxelSize));
+        const maxZ = Math.min(sizeZ - 2, Math.floor((Math.max(a[2], b[2], c[2]) - origin[2]) / voxelSize));
+
+        for (let z = minZ; z <= maxZ; z++) {
+            for (let y = minY; y <= maxY; y++) {
+                for (let x = minX; x <= maxX; x++) {
+                    const boxMinX = origin[0] + x * voxelSize;
+                    const boxMinY = origin[1] + y * voxelSize;
+                    const boxMinZ = origin[2] + z * voxelSize;
+
+                    // skip voxels the plane of the triangle does not pass through
+                    const distance =
+                        normal[0] * (boxMinX + 0.5 * voxelSize - a[0]) +
+                        normal[1] * (boxMinY + 0.5 * voxelSize - a[1]) +
+                        normal[2] * (boxMinZ + 0.5 * voxelSize - a[2]);
+                    if (Math.abs(distance) > normalExtent) continue;
+
+                    // clip the triangle against the voxel box
+                    const polygon = _clipBufferA;
+                    for (let i = 0; i < 3; i++) {
+                        polygon[i] = a[i];
+                        polygon[3 + i] = b[i];
+                        polygon[6 + i] = c[i];
+                    }
+                    let count = 3;
+                    count = clipPolygon(_clipBufferB, polygon, count, 0, boxMinX, true);
+                    count = clipPolygon(_clipBufferA, _clipBufferB, count, 0, boxMinX + voxelSize, false);
+                    count = clipPolygon(_clipBufferB, _clipBufferA, count, 1, boxMinY, true);
+                    count = clipPolygon(_clipBufferA, _clipBufferB, count, 1, boxMinY + voxelSize, false);
+                    count = clipPolygon(_clipBufferB, _clipBufferA, count, 2, boxMinZ, true);
+                    count = clipPolygon(_clipBufferA, _clipBufferB, count, 2, boxMinZ + voxelSize, false);
+                    if (count === 0) continue;
+
+                    const index = x + y * sizeX + z * sizeX * sizeY;
+                    grid.states[index] = VOXEL_SURFACE;
+
+                    let points = grid.surfacePoints.get(index);
+                    if (points === undefined) {
+                        points = [];
+                        grid.surfacePoints.set(index, points);
+                    }
+                    for (let i = 0; i < count * 3; i++) {
+                        points.push(_clipBufferA[i]);
+                    }
+                }
+            }
+        }
+    }
+}
+
+/** flood fills the outside of the surface from a padding voxel, the voxels that are left are inside */
+function fillVoxels(grid: VoxelGrid): void {
+    const { states, sizeX, sizeY, sizeZ } = grid;
+    const layerSize = sizeX * sizeY;
+    const stack = new Int32Array(states.length);
+
+    let stackSize = 0;
+    states[0] = VOXEL_OUTSIDE;
+    stack[stackSize++] = 0;
+
+    while (stackSize > 0) {
+        const index = stack[--stackSize];
+        const x = index % sizeX;
+        const y = Math.floor(index / sizeX) % sizeY;
+        const z = Math.floor(index / layerSize);
+
+        if (x > 0 && states[index - 1] === VOXEL_EMPTY) {
+            states[index - 1] = VOXEL_OUTSIDE;
+            stack[stackSize++] = index - 1;
+        }
+        if (x < sizeX - 1 && states[index + 1] === VOXEL_EMPTY) {
+            states[index + 1] = VOXEL_OUTSIDE;
+            stack[stackSize++] = index + 1;
+        }
+        if (y > 0 && states[index - sizeX] === VOXEL_EMPTY) {
+            states[index - sizeX] = VOXEL_OUTSIDE;
+            stack[stackSize++] = index - sizeX;
+        }
+        if (y < sizeY - 1 && states[index + sizeX] === VOXEL_EMPTY) {
+            states[index + sizeX] = VOXEL_OUTSIDE;
+            stack[stackSize++] = index + sizeX;
+        }
+        if (z > 0 && states[index - layerSize] === VOXEL_EMPTY) {
+            states[index - layerSize] = VOXEL_OUTSIDE;
+            stack[stackSize++] = index - layerSize;
+        }
+        if (z < sizeZ - 1 && states[index + layerSize] === VOXEL_EMPTY) {
+            states[index + layerSize] = VOXEL_OUTSIDE;
+            stack[stackSize++] = index + layerSize;
+        }
+    }
+
+    for (let i = 0; i < states.length; i++) {
+        if (states[i] === VOXEL_EMPTY) {
+            states[i] = VOXEL_INSIDE;
+        }
+    }
+}
+
+/* parts */
+
+/** a connected set of voxels that ends up as one convex hull */
+type Part = {
+    id: number;
+    /** voxel indices of the part */
+    voxels: number[];
+    /** voxels of the part with a neighbour outside of it */
+    boundary: number[];
+    /** how much larger the hull of the part is than the part itself, in voxels */
+    concavity: number;
+    /** false when the part is a single voxel thick in every direction */
+    splittable: boolean;
+};
+
+// candidate split planes along each axis of a part
+const MAX_SPLIT_PLANES_PER_AXIS = 8;
+
+// maximum vertices of the hulls used to measure the concavity of a part, and of the halves of a candidate split
+const MAX_CONCAVITY_HULL_VERTICES = 256;
+const MAX_SPLIT_HULL_VERTICES = 64;
+
+// voxel centers this close to the planes of a hull count as inside, in voxels
+const LATTICE_TOLERANCE = 1e-2;
+
+function getVoxelCoordinate(grid: VoxelGrid, index: number, axis: number): number {
+    if (axis === 0) return index % grid.sizeX;
+    if (axis === 1) return Math.floor(index / grid.sizeX) % grid.sizeY;
+    return Math.floor(index / (grid.sizeX * grid.sizeY));
+}
+
+function computeBoundary(grid: VoxelGrid, owners: Int32Array, voxels: number[], id: number): number[] {
+    const { sizeX } = grid;
+    const layerSize = sizeX * grid.sizeY;
+    const boundary: number[] = [];
+
+    // parts never touch the padding, so all neighbours are in the grid
+    for (const index of voxels) {
+        if (
+            owners[index - 1] !== id ||
+            owners[index + 1] !== id ||
+            owners[index - sizeX] !== id ||
+            owners[index + sizeX] !== id ||
+            owners[index - layerSize] !== id ||
+            owners[index + layerSize] !== id
+        ) {
+            boundary.push(index);
+        }
+    }
+
+    return boundary;
+}
+
+/** a part, or the voxels of a part between two coordinates along an axis */
+type VoxelRange = {
+    id: number;
+    axis: number;
+    min: number;
+    max: number;
+};
+
+const _fullRange: VoxelRange = { id: -1, axis: 0, min: -Infinity, max: Infinity };
+
+const _concavity_planes: number[] = [];
+const _concavity_min = /* @__PURE__ */ vec3.create();
+const _concavity_max = /* @__PURE__ */ vec3.create();
+
+/**
+ * Concavity of a part, the number of voxels inside the hull of the part that are not in the part.
+ * The hull is built from the voxel centers, so a part without dents has a concavity of 0.
+ */
+function computeConcavity(
+    grid: VoxelGrid,
+    owners: Int32Array,
+    boundary: number[],
+    range: VoxelRange,
+    maxHullVertices: number,
+): number {
+    const { sizeX, sizeY } = grid;
+    const min = vec3.set(_concavity_min, Infinity, Infinity, Infinity);
+    const max = vec3.set(_concavity_max, -Infinity, -Infinity, -Infinity);
+
+    const points: Vec3[] = [];
+    for (const index of boundary) {
+        const point = vec3.fromValues(
+            getVoxelCoordinate(grid, index, 0),
+            getVoxelCoordinate(grid, index, 1),
+            getVoxelCoordinate(grid, index, 2),
+        );
+        vec3.min(min, min, point);
+        vec3.max(max, max, point);
+        points.push(point);
+    }
+
+    const builder = convexHullBuilder.create(points);
+    const { result } = convexHullBuilder.initialize(builder, maxHullVertices, 1e-3);
+    if (result !== convexHullBuilder.Result.Success && result !== convexHullBuilder.Result.MaxVerticesReached) {
+        // flat parts are treated as convex
+        return 0;
+    }
+
+    // planes of the hull, normal · x <= constant on the inside
+    const planes = _concavity_planes;
+    planes.length = 0;
+    for (const face of builder.faces) {
+        const length = vec3.length(face.normal);
+        if (length === 0) continue;
+        const nx = face.normal[0] / length;
+        const ny = face.normal[1] / length;
+        const nz = face.normal[2] / length;
+        planes.push(nx, ny, nz, nx * face.centroid[0] + ny * face.centroid[1] + nz * face.centroid[2]);
+    }
+
+    // walk the voxel centers inside the hull row by row along x
+    let concavity = 0;
+    for (let z = min[2]; z <= max[2]; z++) {
+        for (let y = min[1]; y <= max[1]; y++) {
+            let startX = min[0];
+            let endX = max[0];
+            for (let i = 0; i < planes.length && startX <= endX; i += 4) {
+                const nx = planes[i];
+                const distance = planes[i + 3] - planes[i + 1] * y - planes[i + 2] * z + LATTICE_TOLERANCE;
+                if (nx > 1e-9) {
+                    endX = Math.min(endX, Math.floor(distance / nx));
+                } else if (nx < -1e-9) {
+                    startX = Math.max(startX, Math.ceil(distance / nx));
+                } else if (distance < 0) {
+                    endX = startX - 1;
+                }
+            }
+
+            const rowIndex = y * sizeX + z * sizeX * sizeY;
+            for (let x = startX; x <= endX; x++) {
+                const index = rowIndex + x;
+                const coordinate = range.axis === 0 ? x : range.axis === 1 ? y : z;
+                if (owners[index] !== range.id || coordinate < range.min || coordinate > range.max) {
+                    concavity++;
+                }
+            }
+        }
+    }
+
+    return concavity;
+}
+
+function createPart(grid: VoxelGrid, owners: Int32Array, voxels: number[], id: number): Part {
+    for (const index of voxels) {
+        owners[index] = id;
+    }
+
+    const boundary = computeBoundary(grid, owners, voxels, id);
+
+    _fullRange.id = id;
+    const concavity = computeConcavity(grid, owners, boundary, _fullRange, MAX_CONCAVITY_HULL_VERTICES);
+
+    return {
+        id,
+        voxels,
+        boundary,
+        concavity,
+        splittable: true,
+    };
+}
+
+type Split = {
+    axis: number;
+    /** voxels with a coordinate up to and including this one go to the first half */
+    plane: number;
+};
+
+/** finds the axis aligned plane that splits the part into the two halves with the lowest concavity */
+function findSplit(grid: VoxelGrid, owners: Int32Array, part: Part): Split | null {
+    let bestSplit: Split | null = null;
+    let bestCost = Infinity;
+
+    for (let axis = 0; axis < 3; axis++) {
+        // extent of the part along the axis
+        let min = Infinity;
+        let max = -Infinity;
+        for (const index of part.voxels) {
+            const coordinate = getVoxelCoordinate(grid, index, axis);
+            min = Math.min(min, coordinate);
+            max = Math.max(max, coordinate);
+        }
+        if (max === min) continue;
+
+        const planeCount = Math.min(max - min, MAX_SPLIT_PLANES_PER_AXIS);
+        for (let i = 0; i < planeCount; i++) {
+            const plane = min + Math.floor(((i + 1) * (max - min)) / (planeCount + 1));
+
+            // the boundary of each half is the boundary of the part on that side plus the cut layer
+            const boundaryBelow: number[] = [];
+            const boundaryAbove: number[] = [];
+            for (const index of part.boundary) {
+                if (getVoxelCoordinate(grid, index, axis) <= plane) {
+                    boundaryBelow.push(index);
+                } else {
+                    boundaryAbove.push(index);
+                }
+            }
+            for (const index of part.voxels) {
+                const coordinate = getVoxelCoordinate(grid, index, axis);
+                if (coordinate === plane) {
+                    boundaryBelow.push(index);
+                } else if (coordinate === plane + 1) {
+                    boundaryAbove.push(index);
+                }
+            }
+
+            const cost =
+                computeConcavity(grid, owners, boundaryBelow, { id: part.id, axis, min, max: plane }, MAX_SPLIT_HULL_VERTICES) +
+                computeConcavity(
+                    grid,
+                    owners,
+                    boundaryAbove,
+                    { id: part.id, axis, min: plane + 1, max },
+                    MAX_SPLIT_HULL_VERTICES,
+                );
+
+            if (cost < bestCost) {
+                bestCost = cost;
+                bestSplit = { axis, plane };
+            }
+        }
+    }
+
+    return bestSplit;
+}
+
+/* hulls */
+
+/** adds the corners of a voxel to a flat point array, in world space */
+function addVoxelCorners(out: number[], grid: VoxelGrid, index: number): void {
+    const { origin, voxelSize } = grid;
+    const x = origin[0] + getVoxelCoordinate(grid, index, 0) * voxelSize;
+    const y = origin[1] + getVoxelCoordinate(grid, index, 1) * voxelSize;
+    const z = origin[2] + getVoxelCoordinate(grid, index, 2) * voxelSize;
+    for (let corner = 0; corner < 8; corner++) {
+        out.push(x + (corner & 1) * voxelSize, y + ((corner >> 1) & 1) * voxelSize, z + ((corner >> 2) & 1) * voxelSize);
+    }
+}
+
+type HullSettings = {
+    maxVerticesPerHull: number;
+    convexRadius: number;
+    hullTolerance: number;
+    density: number;
+    materialId: number;
+};
+
+/** builds the hull of flat points, returns null if they are degenerate */
+function buildHullChild(points: number[], settings: HullSettings): CompoundShapeChild | null {
+    const positions: Vec3[] = [];
+    for (let i = 0; i < points.length; i += 3) {
+        positions.push(vec3.fromValues(points[i], points[i + 1], points[i + 2]));
+    }
+
+    const builder = convexHullBuilder.create(positions);
+    const { result } = convexHullBuilder.initialize(builder, settings.maxVerticesPerHull, settings.hullTolerance);
+    if (result !== convexHullBuilder.Result.Success && result !== convexHullBuilder.Result.MaxVerticesReached) {
+        return null;
+    }
+
+    // the convex hull shape keeps its points relative to its center of mass, so the hull is built around the
+    // origin and the child is placed at the center of mass
+    const { centerOfMass } = convexHullBuilder.getCenterOfMassAndVolume(builder);
+
+    const used = new Set<number>();
+    for (const face of builder.faces) {
+        let edge = face.firstEdge!;
+        do {
+            used.add(edge.mStartIdx);
+            edge = edge.mNextEdge!;
+        } while (edge !== face.firstEdge);
+    }
+
+    const hullPositions: number[] = [];
+    for (const index of used) {
+        hullPositions.push(
+            positions[index][0] - centerOfMass[0],
+            positions[index][1] - centerOfMass[1],
+            positions[index][2] - centerOfMass[2],
+        );
+    }
+
+    return {
+        position: vec3.clone(centerOfMass),
+        quaternion: quat.create(),
+        shape: convexHull.create({
+            positions: hullPositions,
+            convexRadius: settings.convexRadius,
+            hullTolerance: settings.hullTolerance,
+            density: settings.density,
+            materialId: settings.materialId,
+        }),
+    };
+}
+
+function createHullChild(grid: VoxelGrid, part: Part, settings: HullSettings): CompoundShapeChild | null {
+    // the mesh surface inside the part, closed off by the voxels along the cuts
+    const points: number[] = [];
+    for (const index of part.voxels) {
+        const surfacePoints = grid.surfacePoints.get(index);
+        if (surfacePoints !== undefined) {
+            for (const value of surfacePoints) {
+                points.push(value);
+            }
+        }
+    }
+    for (const index of part.boundary) {
+        if (grid.states[index] === VOXEL_INSIDE) {
+            addVoxelCorners(points, grid, index);
+        }
+    }
+
+    const child = buildHullChild(points, settings);
+    if (child !== null) {
+        return child;
+    }
+
+    // the surface in the part is flat, fall back to the voxels
+    const voxelPoints: number[] = [];
+    for (const index of part.boundary) {
+        addVoxelCorners(voxelPoints, grid, index);
+    }
+    return buildHullChild(voxelPoints, settings);
+}
+
+/**
+ * Approximates a triangle mesh with a compound of convex hulls, so concave meshes can be used for dynamic bodies.
+ *
+ * The mesh is voxelized and the inside is filled, so it should be closed. The voxels are then split along axis aligned
+ * planes, always splitting the part whose hull adds the most volume, until every part is close to convex or the
+ * maximum number of hulls is reached. Each part becomes a convex hull of the mesh surface inside it.
+ *
+ * This is slow for high resolutions, consider doing it offline and storing the result.
+ */
+export function decompose(o: ConvexDecompositionSettings): CompoundShape {
+    const resolution = o.resolution ?? 32;
+    const maxConvexHulls = o.maxConvexHulls ?? 16;
+    const maxConcavity = o.maxConcavity ?? 0.01;
+    const hullSettings: HullSettings = {
+        maxVerticesPerHull: o.maxVerticesPerHull ?? 64,
+        convexRadius: o.convexRadius ?? DEFAULT_CONVEX_RADIUS,
+        hullTolerance: o.hullTolerance ?? 1e-3,
+        density: o.density ?? DEFAULT_SHAPE_DENSITY,
+        materialId: o.materialId ?? -1,
+    };
+
+    if (o.indices.length === 0 || o.indices.length % 3 !== 0) {
+        throw new Error('Convex decomposition needs indices for at least one triangle');
+    }
+    if (resolution < 1 || maxConvexHulls < 1) {
+        throw new Error('Convex decomposition resolution and maxConvexHulls must be >= 1');
+    }
+
+    // voxelize the mesh
+    const grid = createVoxelGrid(o.positions, resolution);
+    voxelizeTriangles(grid, o.positions, o.indices);
+    fillVoxels(grid);
+
+    const owners = new Int32Array(grid.states.length).fill(-1);
+    const voxels: number[] = [];
+    for (let i = 0; i < grid.states.length; i++) {
+        if (grid.states[i] === VOXEL_SURFACE || grid.states[i] === VOXEL_INSIDE) {
+            voxels.push(i);
+        }
+    }
+
+    // split the most concave part until all parts are convex enough
+    let nextId = 0;
+    const parts: Part[] = [createPart(grid, owners, voxels, nextId++)];
+    const concavityThreshold = maxConcavity * voxels.length;
+
+    while (parts.length < maxConvexHulls) {
+        let worst = -1;
+        for (let i = 0; i < parts.length; i++) {
+            const part = parts[i];
+            if (
+                part.splittable &&
+                part.concavity > concavityThreshold &&
+                (worst === -1 || part.concavity > parts[worst].concavity)
+            ) {
+                worst = i;
+            }
+        }
+        if (worst === -1) break;
+
+        const part = parts[worst];
+        const split = findSplit(grid, owners, part);
+        if (split === null) {
+            part.splittable = false;
+            continue;
+        }
+
+        const below: number[] = [];
+        const above: number[] = [];
+        for (const index of part.voxels) {
+            if (getVoxelCoordinate(grid, index, split.axis) <= split.plane) {
+                below.push(index);
+            } else {
+                above.push(index);
+            }
+        }
+
+        parts.splice(worst, 1, createPart(grid, owners, below, nextId++), createPart(grid, owners, above, nextId++));
+    }
+
+    // one convex hull per part
+    const children: CompoundShapeChild[] = [];
+    for (const part of parts) {
+        const child = createHullChild(grid, part, hullSettings);
+        if (child !== null) {
+            children.push(child);
+        }
+    }
+
+    return compound.create({ children });
+}
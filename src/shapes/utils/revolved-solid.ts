@@ -0,0 +1,102 @@
+import type { MassProperties } from '../../body/mass-properties';
+
+/**
+ * Volume integrals of a solid of revolution around the Y axis, used for the exact mass properties of round shapes.
+ *
+ * The solid is made of segments along Y whose squared radius is a quadratic in y, which covers sphere caps
+ * (r² - (y - c)²) and cone frustums ((p + q y)²). All integrals are divided by π.
+ */
+export type RevolvedSolid = {
+    /** ∫ρ² dy, the volume */
+    volume: number;
+    /** ∫ρ² y dy, the first moment along Y */
+    momentY: number;
+    /** ∫ρ² y² dy, the second moment along Y */
+    momentYY: number;
+    /** ∫ρ⁴ dy, the polar moment of the disks */
+    momentRadius4: number;
+};
+
+export function create(): RevolvedSolid {
+    return {
+        volume: 0,
+        momentY: 0,
+        momentYY: 0,
+        momentRadius4: 0,
+    };
+}
+
+export function reset(solid: RevolvedSolid): RevolvedSolid {
+    solid.volume = 0;
+    solid.momentY = 0;
+    solid.momentYY = 0;
+    solid.momentRadius4 = 0;
+    return solid;
+}
+
+// 3 point gauss-legendre quadrature, exact for polynomials up to degree 5, the integrands are at most degree 4
+const GAUSS_NODES = [-Math.sqrt(3 / 5), 0, Math.sqrt(3 / 5)];
+const GAUSS_WEIGHTS = [5 / 9, 8 / 9, 5 / 9];
+
+/**
+ * Adds a segment of the solid between two heights, with squared radius ρ² = a + b y + c y².
+ * @param solid the solid to add the segment to
+ * @param minY start of the segment
+ * @param maxY end of the segment
+ * @param a constant term of the squared radius
+ * @param b linear term of the squared radius
+ * @param c quadratic term of the squared radius
+ */
+export function addSegment(solid: RevolvedSolid, minY: number, maxY: number, a: number, b: number, c: number): void {
+    const halfLength = (maxY - minY) * 0.5;
+    const center = (maxY + minY) * 0.5;
+
+    for (let i = 0; i < 3; i++) {
+        const y = center + halfLength * GAUSS_NODES[i];
+        const w = halfLength * GAUSS_WEIGHTS[i];
+        const radiusSq = a + b * y + c * y * y;
+
+        solid.volume += w * radiusSq;
+        solid.momentY += w * radiusSq * y;
+        solid.momentYY += w * radiusSq * y * y;
+        solid.momentRadius4 += w * radiusSq * radiusSq;
+    }
+}
+
+/** gets the volume of the solid */
+export function getVolume(solid: RevolvedSolid): number {
+    return Math.PI * solid.volume;
+}
+
+/** gets the height of the center of mass of the solid */
+export function getCenterOfMassY(solid: RevolvedSolid): number {
+    return solid.volume > 0 ? solid.momentY / solid.volume : 0;
+}
+
+/** computes the mass and the inertia around the center of mass of the solid */
+export function computeMassProperties(out: MassProperties, solid: RevolvedSolid, density: number): void {
+    out.mass = Math.PI * solid.volume * density;
+
+    // a disk of radius ρ has I_yy = ρ⁴ π / 2 and I_xx = I_zz = ρ⁴ π / 4, plus the parallel axis term for its height
+    const centerOfMassY = getCenterOfMassY(solid);
+    const iyy = Math.PI * density * 0.5 * solid.momentRadius4;
+    const ixx = Math.PI * density * (0.25 * solid.momentRadius4 + solid.momentYY) - out.mass * centerOfMassY * centerOfMassY;
+
+    // set diagonal inertia tensor (column-major mat4)
+    out.inertia[0] = ixx;
+    out.inertia[1] = 0;
+    out.inertia[2] = 0;
+    out.inertia[3] = 0;
+    out.inertia[4] = 0;
+    out.inertia[5] = iyy;
+    out.inertia[6] = 0;
+    out.inertia[7] = 0;
+    out.inertia[8] = 0;
+    out.inertia[9] = 0;
+    out.inertia[10] = ixx;
+    out.inertia[11] = 0;
+    out.inertia[12] = 0;
+    out.inertia[13] = 0;
+    out.inertia[14] = 0;
+    out.inertia[15] = 1.0;
+}
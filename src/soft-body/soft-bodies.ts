@@ -0,0 +1,19 @@
+import type { SoftBody } from './soft-body';
+
+/** physics world soft bodies state */
+export type SoftBodies = {
+    /** pool of soft bodies in the world */
+    pool: SoftBody[];
+    /** pool of freed soft body indices for reuse */
+    freeIndices: number[];
+    /** next soft body sequence number */
+    nextSequence: number;
+};
+
+export function init(): SoftBodies {
+    return {
+        pool: [],
+        freeIndices: [],
+        nextSequence: 0,
+    };
+}
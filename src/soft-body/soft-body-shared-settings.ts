@@ -0,0 +1,352 @@
+import type { Vec3 } from 'mathcat';
+import { vec3 } from 'mathcat';
+
+/** a particle of a soft body in its rest pose */
+export type SoftBodyVertex = {
+    /** rest position of the vertex, relative to the soft body position */
+    position: Vec3;
+    /** inverse mass of the vertex (1 / kg), 0 pins the vertex in place */
+    invMass: number;
+};
+
+/** a distance constraint between two vertices */
+export type SoftBodyEdge = {
+    /** index of the first vertex */
+    vertex0: number;
+    /** index of the second vertex */
+    vertex1: number;
+    /** distance between the vertices in the rest pose */
+    restLength: number;
+    /** inverse stiffness of the constraint (m / N), 0 is infinitely stiff */
+    compliance: number;
+};
+
+/** a volume constraint for a tetrahedron */
+export type SoftBodyVolume = {
+    /** indices of the 4 vertices of the tetrahedron */
+    vertices: [number, number, number, number];
+    /** six times the signed volume of the tetrahedron in the rest pose */
+    sixRestVolume: number;
+    /** inverse stiffness of the constraint (m / N), 0 is infinitely stiff */
+    compliance: number;
+};
+
+/**
+ * The geometry and constraints of a soft body, these can be shared between soft body instances.
+ * Use create, createCloth or createCube to build them, the vertex inverse masses can be changed afterwards to pin vertices.
+ */
+export type SoftBodySharedSettings = {
+    /** vertices of the soft body */
+    vertices: SoftBodyVertex[];
+    /** triangles of the surface, 3 vertex indices per triangle, counter clockwise when seen from the outside */
+    faces: number[];
+    /** distance constraints along the edges of the faces and tetrahedra */
+    edges: SoftBodyEdge[];
+    /** distance constraints between the opposite vertices of two faces that share an edge, resist bending */
+    bends: SoftBodyEdge[];
+    /** volume constraints of the tetrahedra */
+    volumes: SoftBodyVolume[];
+};
+
+/** options for building soft body shared settings */
+export type SoftBodySharedSettingsOptions = {
+    /** rest positions of the vertices */
+    positions: Vec3[];
+    /** inverse mass per vertex @default 1 for every vertex */
+    invMasses?: number[];
+    /** triangles of the surface, 3 vertex indices per triangle, edges and bends are created from the faces */
+    faces?: number[];
+    /** tetrahedra, 4 vertex indices per tetrahedron, edges and volume constraints are created from the tetrahedra */
+    tetrahedra?: number[];
+    /** compliance of the edge constraints @default 0 */
+    edgeCompliance?: number;
+    /** compliance of the bend constraints @default 1e-3 */
+    bendCompliance?: number;
+    /** compliance of the volume constraints @default 0 */
+    volumeCompliance?: number;
+};
+
+export const DEFAULT_SOFT_BODY_SHARED_SETTINGS_OPTIONS = {
+    invMass: 1,
+    edgeCompliance: 0,
+    bendCompliance: 1e-3,
+    volumeCompliance: 0,
+};
+
+function makeEdge(vertices: SoftBodyVertex[], vertex0: number, vertex1: number, compliance: number): SoftBodyEdge {
+    return {
+        vertex0,
+        vertex1,
+        restLength: vec3.distance(vertices[vertex0].position, vertices[vertex1].position),
+        compliance,
+    };
+}
+
+const _sixVolume_a = /* @__PURE__ */ vec3.create();
+const _sixVolume_b = /* @__PURE__ */ vec3.create();
+const _sixVolume_c = /* @__PURE__ */ vec3.create();
+
+/** six times the signed volume of a tetrahedron, (p1 - p0) × (p2 - p0) · (p3 - p0) */
+export function getSixVolume(p0: Vec3, p1: Vec3, p2: Vec3, p3: Vec3): number {
+    vec3.subtract(_sixVolume_a, p1, p0);
+    vec3.subtract(_sixVolume_b, p2, p0);
+    vec3.subtract(_sixVolume_c, p3, p0);
+    vec3.cross(_sixVolume_a, _sixVolume_a, _sixVolume_b);
+    return vec3.dot(_sixVolume_a, _sixVolume_c);
+}
+
+/**
+ * Creates soft body shared settings from vertices, faces and tetrahedra.
+ * Every unique edge of a face or tetrahedron becomes an edge constraint, every pair of faces that share an edge
+ * becomes a bend constraint and every tetrahedron becomes a volume constraint.
+ * @param options vertices, faces, tetrahedra and compliances
+ * @returns the shared settings
+ */
+export function create(options: SoftBodySharedSettingsOptions): SoftBodySharedSettings {
+    const { positions } = options;
+    const faces = options.faces ?? [];
+    const tetrahedra = options.tetrahedra ?? [];
+    const edgeCompliance = options.edgeCompliance ?? DEFAULT_SOFT_BODY_SHARED_SETTINGS_OPTIONS.edgeCompliance;
+    const bendCompliance = options.bendCompliance ?? DEFAULT_SOFT_BODY_SHARED_SETTINGS_OPTIONS.bendCompliance;
+    const volumeCompliance = options.volumeCompliance ?? DEFAULT_SOFT_BODY_SHARED_SETTINGS_OPTIONS.volumeCompliance;
+
+    if (positions.length === 0) {
+        throw new Error('SoftBodySharedSettings requires at least 1 vertex');
+    }
+    if (faces.length % 3 !== 0) {
+        throw new Error('SoftBodySharedSettings faces must contain 3 indices per triangle');
+    }
+    if (tetrahedra.length % 4 !== 0) {
+        throw new Error('SoftBodySharedSettings tetrahedra must contain 4 indices per tetrahedron');
+    }
+    const numVertices = positions.length;
+    for (const index of faces) {
+        if (index < 0 || index >= numVertices) throw new Error(`SoftBodySharedSettings face index ${index} out of range`);
+    }
+    for (const index of tetrahedra) {
+        if (index < 0 || index >= numVertices) throw new Error(`SoftBodySharedSettings tetrahedron index ${index} out of range`);
+    }
+
+    const vertices: SoftBodyVertex[] = positions.map((position, i) => ({
+        position: vec3.clone(position),
+        invMass: options.invMasses?.[i] ?? DEFAULT_SOFT_BODY_SHARED_SETTINGS_OPTIONS.invMass,
+    }));
+
+    // unique edges, keyed by the sorted vertex pair
+    const edges: SoftBodyEdge[] = [];
+    const edgeKeys = new Set<number>();
+    const addEdge = (vertex0: number, vertex1: number) => {
+        const key = Math.min(vertex0, vertex1) * numVertices + Math.max(vertex0, vertex1);
+        if (edgeKeys.has(key)) return;
+        edgeKeys.add(key);
+        edges.push(makeEdge(vertices, vertex0, vertex1, edgeCompliance));
+    };
+
+    // face edges, remembering the vertex opposite to each edge for the bend constraints
+    const oppositeVertices = new Map<number, number[]>();
+    for (let i = 0; i < faces.length; i += 3) {
+        for (let e = 0; e < 3; e++) {
+            const vertex0 = faces[i + e];
+            const vertex1 = faces[i + ((e + 1) % 3)];
+            const opposite = faces[i + ((e + 2) % 3)];
+            addEdge(vertex0, vertex1);
+
+            const key = Math.min(vertex0, vertex1) * numVertices + Math.max(vertex0, vertex1);
+            const list = oppositeVertices.get(key);
+            if (list) {
+                list.push(opposite);
+            } else {
+                oppositeVertices.set(key, [opposite]);
+            }
+        }
+    }
+
+    // bends across edges that are shared by exactly 2 faces
+    const bends: SoftBodyEdge[] = [];
+    for (const opposite of oppositeVertices.values()) {
+        if (opposite.length !== 2 || opposite[0] === opposite[1]) continue;
+        bends.push(makeEdge(vertices, opposite[0], opposite[1], bendCompliance));
+    }
+
+    // tetrahedra edges and volumes
+    const volumes: SoftBodyVolume[] = [];
+    for (let i = 0; i < tetrahedra.length; i += 4) {
+        const tetrahedron: [number, number, number, number] = [
+            tetrahedra[i],
+            tetrahedra[i + 1],
+            tetrahedra[i + 2],
+            tetrahedra[i + 3],
+        ];
+        for (let a = 0; a < 4; a++) {
+            for (let b = a + 1; b < 4; b++) {
+                addEdge(tetrahedron[a], tetrahedron[b]);
+            }
+        }
+        volumes.push({
+            vertices: tetrahedron,
+            sixRestVolume: getSixVolume(
+                vertices[tetrahedron[0]].position,
+                vertices[tetrahedron[1]].position,
+                vertices[tetrahedron[2]].position,
+                vertices[tetrahedron[3]].position,
+            ),
+            compliance: volumeCompliance,
+        });
+    }
+
+    return { vertices, faces: faces.slice(), edges, bends, volumes };
+}
+
+/** options for building a cloth */
+export type ClothOptions = Omit<SoftBodySharedSettingsOptions, 'positions' | 'invMasses' | 'faces' | 'tetrahedra'> & {
+    /** number of vertices along the x axis, at least 2 */
+    gridSizeX: number;
+    /** number of vertices along the z axis, at least 2 */
+    gridSizeZ: number;
+    /** distance between neighbouring vertices */
+    spacing: number;
+    /** inverse mass of every vertex @default 1 */
+    invMass?: number;
+};
+
+/** index of the cloth vertex at grid coordinate (x, z) */
+export function getClothVertexIndex(options: ClothOptions, x: number, z: number): number {
+    return z * options.gridSizeX + x;
+}
+
+/**
+ * Creates a rectangular cloth in the XZ plane, centered around the origin, with its faces pointing up (+Y).
+ * Vertex (x, z) has index z * gridSizeX + x, see getClothVertexIndex.
+ * Set the inverse mass of vertices to 0 to pin them, e.g. the top edge of a flag.
+ * @param options grid size, spacing and compliances
+ * @returns the shared settings
+ */
+export function createCloth(options: ClothOptions): SoftBodySharedSettings {
+    const { gridSizeX, gridSizeZ, spacing } = options;
+    if (gridSizeX < 2 || gridSizeZ < 2) {
+        throw new Error('Cloth requires a grid of at least 2x2 vertices');
+    }
+
+    const offsetX = -0.5 * (gridSizeX - 1) * spacing;
+    const offsetZ = -0.5 * (gridSizeZ - 1) * spacing;
+
+    const positions: Vec3[] = [];
+    for (let z = 0; z < gridSizeZ; z++) {
+        for (let x = 0; x < gridSizeX; x++) {
+            positions.push(vec3.fromValues(offsetX + x * spacing, 0, offsetZ + z * spacing));
+        }
+    }
+
+    const faces: number[] = [];
+    for (let z = 0; z < gridSizeZ - 1; z++) {
+        for (let x = 0; x < gridSizeX - 1; x++) {
+            const v00 = getClothVertexIndex(options, x, z);
+            const v10 = getClothVertexIndex(options, x + 1, z);
+            const v01 = getClothVertexIndex(options, x, z + 1);
+            const v11 = getClothVertexIndex(options, x + 1, z + 1);
+            // counter clockwise when seen from above
+            faces.push(v00, v01, v11, v00, v11, v10);
+        }
+    }
+
+    return create({
+        ...options,
+        positions,
+        invMasses: positions.map(() => options.invMass ?? DEFAULT_SOFT_BODY_SHARED_SETTINGS_OPTIONS.invMass),
+        faces,
+    });
+}
+
+/** options for building a volumetric cube */
+export type CubeOptions = Omit<SoftBodySharedSettingsOptions, 'positions' | 'invMasses' | 'faces' | 'tetrahedra'> & {
+    /** number of vertices along each axis, at least 2 */
+    gridSize: number;
+    /** distance between neighbouring vertices */
+    spacing: number;
+    /** inverse mass of every vertex @default 1 */
+    invMass?: number;
+};
+
+/** the 6 tetrahedra of a cube cell, as corner indices (x + 2y + 4z), all sharing the diagonal from corner 0 to corner 7 */
+const CUBE_CELL_TETRAHEDRA = [
+    [0, 1, 3, 7],
+    [0, 3, 2, 7],
+    [0, 2, 6, 7],
+    [0, 6, 4, 7],
+    [0, 4, 5, 7],
+    [0, 5, 1, 7],
+];
+
+/**
+ * Creates a volumetric cube centered around the origin, filled with tetrahedra.
+ * Vertex (x, y, z) has index (z * gridSize + y) * gridSize + x.
+ * Use a volume compliance above 0 for squishy props.
+ * @param options grid size, spacing and compliances
+ * @returns the shared settings
+ */
+export function createCube(options: CubeOptions): SoftBodySharedSettings {
+    const { gridSize, spacing } = options;
+    if (gridSize < 2) {
+        throw new Error('Cube requires a grid of at least 2x2x2 vertices');
+    }
+
+    const offset = -0.5 * (gridSize - 1) * spacing;
+    const index = (x: number, y: number, z: number) => (z * gridSize + y) * gridSize + x;
+
+    const positions: Vec3[] = [];
+    for (let z = 0; z < gridSize; z++) {
+        for (let y = 0; y < gridSize; y++) {
+            for (let x = 0; x < gridSize; x++) {
+                positions.push(vec3.fromValues(offset + x * spacing, offset + y * spacing, offset + z * spacing));
+            }
+        }
+    }
+
+    // every cell is split into 6 tetrahedra around its diagonal, neighbouring cells share the same face diagonals
+    const tetrahedra: number[] = [];
+    for (let z = 0; z < gridSize - 1; z++) {
+        for (let y = 0; y < gridSize - 1; y++) {
+            for (let x = 0; x < gridSize - 1; x++) {
+                for (const tetrahedron of CUBE_CELL_TETRAHEDRA) {
+                    for (const corner of tetrahedron) {
+                        tetrahedra.push(index(x + (corner & 1), y + ((corner >> 1) & 1), z + ((corner >> 2) & 1)));
+                    }
+                }
+            }
+        }
+    }
+
+    // surface faces, for each side u × v points outwards
+    const faces: number[] = [];
+    const grid = [0, 0, 0];
+    const last = gridSize - 1;
+    for (let axis = 0; axis < 3; axis++) {
+        for (const side of [0, last]) {
+            const u = side === 0 ? (axis + 2) % 3 : (axis + 1) % 3;
+            const v = side === 0 ? (axis + 1) % 3 : (axis + 2) % 3;
+            grid[axis] = side;
+            for (let j = 0; j < last; j++) {
+                for (let i = 0; i < last; i++) {
+                    grid[u] = i;
+                    grid[v] = j;
+                    const a = index(grid[0], grid[1], grid[2]);
+                    grid[u] = i + 1;
+                    const b = index(grid[0], grid[1], grid[2]);
+                    grid[v] = j + 1;
+                    const c = index(grid[0], grid[1], grid[2]);
+                    grid[u] = i;
+                    const d = index(grid[0], grid[1], grid[2]);
+                    faces.push(a, b, c, a, c, d);
+                }
+            }
+        }
+    }
+
+    return create({
+        ...options,
+        positions,
+        invMasses: positions.map(() => options.invMass ?? DEFAULT_SOFT_BODY_SHARED_SETTINGS_OPTIONS.invMass),
+        faces,
+        tetrahedra,
+    });
+}
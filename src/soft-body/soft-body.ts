@@ -0,0 +1,660 @@
+import { type Box3, box3, type Quat, quat, type Vec3, vec3 } from 'mathcat';
+import { type BodyId, getBodyIdIndex, getBodyIdSequence, SEQUENCE_MASK, serBodyId } from '../body/body-id';
+import * as motionProperties from '../body/motion-properties';
+import { MotionType } from '../body/motion-type';
+import type { RigidBody } from '../body/rigid-body';
+import * as rigidBody from '../body/rigid-body';
+import { EMPTY_SUB_SHAPE_ID } from '../body/sub-shape';
+import type { BodyVisitor } from '../broadphase/body-visitor';
+import * as broadphase from '../broadphase/broadphase';
+import {
+    collideShapeVsShape,
+    createClosestCollideShapeCollector,
+    createDefaultCollideShapeSettings,
+} from '../collision/narrowphase';
+import * as filter from '../filter';
+import type { SphereShape } from '../shapes/sphere';
+import * as sphere from '../shapes/sphere';
+import { type SystemDef, SystemType, systemDefs } from '../systems';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { World } from '../world';
+import type { SoftBodies } from './soft-bodies';
+import { getSixVolume, type SoftBodyEdge, type SoftBodySharedSettings } from './soft-body-shared-settings';
+
+/** a packed number containing a soft body index and sequence number, same layout as a BodyId */
+export type SoftBodyId = BodyId;
+
+/** a simulated particle of a soft body */
+export type SoftBodyParticle = {
+    /** position in world space */
+    position: Vec3;
+    /** position at the start of the current sub step */
+    previousPosition: Vec3;
+    /** velocity in world space (m/s) */
+    velocity: Vec3;
+    /** inverse mass (1 / kg), 0 pins the particle in place */
+    invMass: number;
+    /** @internal rigid body the particle collides with during the current step, null if none */
+    collidingBody: RigidBody | null;
+    /** @internal normal of the collision plane, pointing from the rigid body towards the particle */
+    collisionNormal: Vec3;
+    /** @internal point on the surface of the rigid body */
+    collisionPoint: Vec3;
+};
+
+/** settings for creating a new soft body */
+export type SoftBodySettings = {
+    /** geometry and constraints of the soft body, see softBodySharedSettings */
+    sharedSettings: SoftBodySharedSettings;
+
+    /** object layer the soft body belongs to, determines which rigid bodies it collides with */
+    objectLayer: number;
+
+    /** position of the soft body, the vertices of the shared settings are relative to this position */
+    position?: Vec3;
+    /** rotation of the soft body */
+    quaternion?: Quat;
+
+    /** number of sub steps per world step, more sub steps make the constraints stiffer @see DEFAULT_SOFT_BODY_SETTINGS */
+    numIterations?: number;
+    /** linear damping of the particles @see DEFAULT_SOFT_BODY_SETTINGS */
+    linearDamping?: number;
+    /** factor for gravity applied to the particles @see DEFAULT_SOFT_BODY_SETTINGS */
+    gravityFactor?: number;
+    /** friction of the particles against rigid bodies @see DEFAULT_SOFT_BODY_SETTINGS */
+    friction?: number;
+    /** radius of the particles, used for collision with rigid bodies @see DEFAULT_SOFT_BODY_SETTINGS */
+    particleRadius?: number;
+
+    /** user data */
+    userData?: unknown;
+};
+
+export const DEFAULT_SOFT_BODY_SETTINGS = {
+    numIterations: 5,
+    linearDamping: 0.1,
+    gravityFactor: 1.0,
+    friction: 0.2,
+    particleRadius: 0.02,
+};
+
+/** soft body in a physics world, a set of particles connected by XPBD edge, bend and volume constraints */
+export type SoftBody = {
+    /** @internal whether this soft body is currently pooled, in which case it should be ignored */
+    _pooled: boolean;
+
+    /** soft body id */
+    id: SoftBodyId;
+    /** index of the soft body in the soft body pool */
+    index: number;
+    /** sequence number, used to detect stale ids */
+    sequence: number;
+
+    /** geometry and constraints of the soft body */
+    sharedSettings: SoftBodySharedSettings;
+    /** particles, one per vertex of the shared settings */
+    particles: SoftBodyParticle[];
+
+    /** object layer the soft body belongs to */
+    objectLayer: number;
+
+    /** number of sub steps per world step */
+    numIterations: number;
+    /** linear damping of the particles */
+    linearDamping: number;
+    /** factor for gravity applied to the particles */
+    gravityFactor: number;
+    /** friction of the particles against rigid bodies, combined with the body friction using the geometric mean */
+    friction: number;
+    /** radius of the particles */
+    particleRadius: number;
+
+    /** world space bounds of the particles, including the particle radius */
+    aabb: Box3;
+
+    /** @internal sphere shape used to collide the particles with rigid bodies */
+    _particleShape: SphereShape;
+
+    /** user data */
+    userData: unknown;
+};
+
+const _create_quaternion = /* @__PURE__ */ quat.create();
+
+/**
+ * Creates a new soft body in the physics world
+ * @param world the physics world
+ * @param settings settings for the new soft body
+ * @returns the newly created soft body
+ */
+export function create(world: World, settings: SoftBodySettings): SoftBody {
+    const numIterations = settings.numIterations ?? DEFAULT_SOFT_BODY_SETTINGS.numIterations;
+    const particleRadius = settings.particleRadius ?? DEFAULT_SOFT_BODY_SETTINGS.particleRadius;
+    if (numIterations < 1) {
+        throw new Error('SoftBody numIterations must be at least 1');
+    }
+    if (particleRadius <= 0) {
+        throw new Error('SoftBody particleRadius must be greater than 0');
+    }
+    if (!systemDefs[SystemType.SOFT_BODIES]) {
+        throw new Error('Soft bodies are not registered, call registerSystems([softBody.def]) or registerAll()');
+    }
+
+    // get next sequence
+    const softBodies = world.softBodies;
+    const sequence = softBodies.nextSequence;
+    softBodies.nextSequence = (softBodies.nextSequence + 1) & SEQUENCE_MASK;
+
+    // get index from the pool
+    const index = softBodies.freeIndices.length > 0 ? softBodies.freeIndices.pop()! : softBodies.pool.length;
+
+    const position = settings.position ?? vec3.create();
+    const quaternion = settings.quaternion ?? quat.identity(_create_quaternion);
+
+    const particles: SoftBodyParticle[] = settings.sharedSettings.vertices.map((vertex) => {
+        const particlePosition = vec3.transformQuat(vec3.create(), vertex.position, quaternion);
+        vec3.add(particlePosition, particlePosition, position);
+        return {
+            position: particlePosition,
+            previousPosition: vec3.clone(particlePosition),
+            velocity: vec3.create(),
+            invMass: vertex.invMass,
+            collidingBody: null,
+            collisionNormal: vec3.create(),
+            collisionPoint: vec3.create(),
+        };
+    });
+
+    const softBody: SoftBody = {
+        _pooled: false,
+        id: serBodyId(index, sequence),
+        index,
+        sequence,
+        sharedSettings: settings.sharedSettings,
+        particles,
+        objectLayer: settings.objectLayer,
+        numIterations,
+        linearDamping: settings.linearDamping ?? DEFAULT_SOFT_BODY_SETTINGS.linearDamping,
+        gravityFactor: settings.gravityFactor ?? DEFAULT_SOFT_BODY_SETTINGS.gravityFactor,
+        friction: settings.friction ?? DEFAULT_SOFT_BODY_SETTINGS.friction,
+        particleRadius,
+        aabb: box3.create(),
+        _particleShape: sphere.create({ radius: particleRadius }),
+        userData: settings.userData ?? null,
+    };
+    updateBounds(softBody);
+
+    softBodies.pool[index] = softBody;
+
+    return softBody;
+}
+
+/**
+ * Removes a soft body from the world
+ * @returns true if the soft body was successfully removed, false if the soft body was already pooled (invalid)
+ */
+export function remove(world: World, softBody: SoftBody): boolean {
+    if (softBody._pooled) {
+        return false;
+    }
+
+    softBody._pooled = true;
+    softBody.userData = null;
+    world.softBodies.freeIndices.push(softBody.index);
+
+    return true;
+}
+
+/**
+ * Gets a soft body by ID with validation.
+ * Returns undefined if the soft body doesn't exist, is pooled, or has a mismatched sequence number (stale reference).
+ */
+export function get(world: World, softBodyId: SoftBodyId): SoftBody | undefined {
+    const index = getBodyIdIndex(softBodyId);
+    const softBody = world.softBodies.pool[index];
+    if (!softBody || softBody._pooled) {
+        return undefined;
+    }
+
+    // check sequence matches to catch stale references
+    if (softBody.sequence !== getBodyIdSequence(softBodyId)) {
+        return undefined;
+    }
+
+    return softBody;
+}
+
+/** Generator that yields all soft bodies in the world, skipping pooled soft bodies. */
+export function* iterate(world: World): Generator<SoftBody> {
+    for (const softBody of world.softBodies.pool) {
+        if (softBody && !softBody._pooled) {
+            yield softBody;
+        }
+    }
+}
+
+const _getCenterOfMass_total = /* @__PURE__ */ vec3.create();
+
+/**
+ * Gets the center of mass of the movable particles, pinned particles are ignored.
+ * @param out output vector
+ * @param softBody the soft body
+ * @returns out parameter
+ */
+export function getCenterOfMass(out: Vec3, softBody: SoftBody): Vec3 {
+    vec3.zero(_getCenterOfMass_total);
+    let totalMass = 0;
+    for (const particle of softBody.particles) {
+        if (particle.invMass <= 0) continue;
+        const mass = 1 / particle.invMass;
+        vec3.scaleAndAdd(_getCenterOfMass_total, _getCenterOfMass_total, particle.position, mass);
+        totalMass += mass;
+    }
+    if (totalMass <= 0) {
+        return vec3.zero(out);
+    }
+    return vec3.scale(out, _getCenterOfMass_total, 1 / totalMass);
+}
+
+/**
+ * Sets the velocity of all movable particles
+ * @param softBody the soft body
+ * @param velocity new velocity in world space (m/s)
+ */
+export function setLinearVelocity(softBody: SoftBody, velocity: Vec3): void {
+    for (const particle of softBody.particles) {
+        if (particle.invMass <= 0) continue;
+        vec3.copy(particle.velocity, velocity);
+    }
+}
+
+/** recalculate the world space bounds of the particles, call after moving particles */
+export function updateBounds(softBody: SoftBody): void {
+    box3.empty(softBody.aabb);
+    for (const particle of softBody.particles) {
+        box3.expandByPoint(softBody.aabb, softBody.aabb, particle.position);
+    }
+    box3.expandByMargin(softBody.aabb, softBody.aabb, softBody.particleRadius);
+}
+
+/**
+ * @internal steps all soft bodies in the world, called by updateWorld after the rigid bodies have been integrated when
+ * the soft bodies system is registered
+ * @param world the physics world
+ * @param timeStep time step in seconds
+ */
+export function updateSoftBodies(world: World, timeStep: number): void {
+    for (const softBody of world.softBodies.pool) {
+        if (softBody._pooled) continue;
+        updateSoftBody(world, softBody, timeStep);
+    }
+}
+
+const _update_gravity = /* @__PURE__ */ vec3.create();
+
+function updateSoftBody(world: World, softBody: SoftBody, timeStep: number): void {
+    const gravityScale = world.settings.gravityEnabled ? softBody.gravityFactor : 0;
+    vec3.scale(_update_gravity, world.settings.gravity, gravityScale);
+
+    // find the rigid bodies the particles can touch during this step
+    detectCollisions(world, softBody, timeStep, _update_gravity);
+
+    // XPBD with small steps: a single iteration per sub step, so the lagrange multipliers start at 0 every sub step
+    const subStep = timeStep / softBody.numIterations;
+    const { edges, bends } = softBody.sharedSettings;
+    for (let i = 0; i < softBody.numIterations; i++) {
+        integrateParticles(softBody, subStep, _update_gravity);
+        solveDistanceConstraints(softBody, edges, subStep);
+        solveDistanceConstraints(softBody, bends, subStep);
+        solveVolumeConstraints(softBody, subStep);
+        updateVelocitiesAndSolveCollisions(world, softBody, subStep);
+    }
+
+    // contacts are found again next step, don't keep bodies alive
+    for (const particle of softBody.particles) {
+        particle.collidingBody = null;
+    }
+
+    updateBounds(softBody);
+}
+
+const _collisionCandidates: RigidBody[] = [];
+
+const CollisionCandidatesBodyVisitor: BodyVisitor = {
+    shouldExit: false,
+    visit(body: RigidBody) {
+        // sensors detect collisions but never push particles
+        if (body.sensor) return;
+        _collisionCandidates.push(body);
+    },
+};
+
+const _detectCollisions_aabb = /* @__PURE__ */ box3.create();
+const _detectCollisions_filter = /* @__PURE__ */ filter.createEmpty();
+const _detectCollisions_collector = /* @__PURE__ */ createClosestCollideShapeCollector();
+const _detectCollisions_settings = /* @__PURE__ */ createDefaultCollideShapeSettings();
+
+/** find the deepest contact for each particle against the rigid bodies that overlap the soft body bounds */
+function detectCollisions(world: World, softBody: SoftBody, timeStep: number, gravity: Vec3): void {
+    // the distance a particle can travel during this step, contacts within this distance are kept
+    let maxSpeed = 0;
+    for (const particle of softBody.particles) {
+        maxSpeed = Math.max(maxSpeed, vec3.length(particle.velocity));
+    }
+    const maxDisplacement = maxSpeed * timeStep + vec3.length(gravity) * timeStep * timeStep;
+    const margin = softBody.particleRadius + maxDisplacement;
+
+    // gather candidate bodies from the broadphase
+    box3.empty(_detectCollisions_aabb);
+    for (const particle of softBody.particles) {
+        box3.expandByPoint(_detectCollisions_aabb, _detectCollisions_aabb, particle.position);
+    }
+    box3.expandByMargin(_detectCollisions_aabb, _detectCollisions_aabb, margin);
+
+    filter.setFromObjectLayer(_detectCollisions_filter, world.settings.layers, softBody.objectLayer);
+    _collisionCandidates.length = 0;
+    broadphase.intersectAABB(world, _detectCollisions_aabb, _detectCollisions_filter, CollisionCandidatesBodyVisitor);
+    if (_collisionCandidates.length === 0) return;
+
+    const collector = _detectCollisions_collector;
+    const settings = _detectCollisions_settings;
+    settings.maxSeparationDistance = Math.min(1, maxDisplacement);
+    const shape = softBody._particleShape;
+
+    for (const particle of softBody.particles) {
+        if (particle.invMass <= 0) continue;
+
+        const [px, py, pz] = particle.position;
+        let deepestPenetration = -Infinity;
+
+        for (const body of _collisionCandidates) {
+            // cheap bounds test before the narrowphase
+            const aabb = body.aabb;
+            if (
+                px + margin < aabb[0][0] ||
+                px - margin > aabb[1][0] ||
+                py + margin < aabb[0][1] ||
+                py - margin > aabb[1][1] ||
+                pz + margin < aabb[0][2] ||
+                pz - margin > aabb[1][2]
+            ) {
+                continue;
+            }
+
+            collector.reset();
+            collector.bodyIdB = body.id;
+            collideShapeVsShape(
+                collector,
+                settings,
+                shape,
+                EMPTY_SUB_SHAPE_ID,
+                0,
+                px,
+                py,
+                pz,
+                0,
+                0,
+                0,
+                1,
+                1,
+                1,
+                1,
+                body.shape,
+                EMPTY_SUB_SHAPE_ID,
+                0,
+                body.position[0],
+                body.position[1],
+                body.position[2],
+                body.quaternion[0],
+                body.quaternion[1],
+                body.quaternion[2],
+                body.quaternion[3],
+                1,
+                1,
+                1,
+            );
+
+            const hit = collector.hit;
+            if (hit === null || hit.penetration <= deepestPenetration) continue;
+
+            // the penetration axis moves the body out of the particle, the particle moves the opposite way
+            const axisLength = vec3.length(hit.penetrationAxis);
+            if (axisLength <= 0) continue;
+
+            deepestPenetration = hit.penetration;
+            particle.collidingBody = body;
+            vec3.scale(particle.collisionNormal, hit.penetrationAxis, -1 / axisLength);
+            vec3.copy(particle.collisionPoint, hit.pointB);
+        }
+    }
+}
+
+/** semi implicit euler prediction of the particle positions */
+function integrateParticles(softBody: SoftBody, subStep: number, gravity: Vec3): void {
+    const damping = Math.max(0, 1 - softBody.linearDamping * subStep);
+    for (const particle of softBody.particles) {
+        vec3.copy(particle.previousPosition, particle.position);
+        if (particle.invMass <= 0) continue;
+
+        const velocity = particle.velocity;
+        vec3.scaleAndAdd(velocity, velocity, gravity, subStep);
+        vec3.scale(velocity, velocity, damping);
+        vec3.scaleAndAdd(particle.position, particle.position, velocity, subStep);
+    }
+}
+
+const _distance_delta = /* @__PURE__ */ vec3.create();
+
+/** XPBD distance constraints, C = |x0 - x1| - restLength */
+function solveDistanceConstraints(softBody: SoftBody, constraints: SoftBodyEdge[], subStep: number): void {
+    const particles = softBody.particles;
+    const invSubStepSq = 1 / (subStep * subStep);
+
+    for (const edge of constraints) {
+        const particle0 = particles[edge.vertex0];
+        const particle1 = particles[edge.vertex1];
+        const w = particle0.invMass + particle1.invMass;
+        if (w <= 0) continue;
+
+        vec3.subtract(_distance_delta, particle0.position, particle1.position);
+        const length = vec3.length(_distance_delta);
+        if (length <= 0) continue;
+
+        // Δλ = -C / (w0 + w1 + α / Δt²), gradient is the normalized delta
+        const c = length - edge.restLength;
+        const deltaLambda = -c / (w + edge.compliance * invSubStepSq);
+        vec3.scale(_distance_delta, _distance_delta, deltaLambda / length);
+
+        vec3.scaleAndAdd(particle0.position, particle0.position, _distance_delta, particle0.invMass);
+        vec3.scaleAndAdd(particle1.position, particle1.position, _distance_delta, -particle1.invMass);
+    }
+}
+
+const _volume_gradients = /* @__PURE__ */ [vec3.create(), vec3.create(), vec3.create(), vec3.create()];
+const _volume_a = /* @__PURE__ */ vec3.create();
+const _volume_b = /* @__PURE__ */ vec3.create();
+const _volume_c = /* @__PURE__ */ vec3.create();
+
+/** XPBD tetrahedron volume constraints, C = 6 * volume - 6 * restVolume */
+function solveVolumeConstraints(softBody: SoftBody, subStep: number): void {
+    const particles = softBody.particles;
+    const invSubStepSq = 1 / (subStep * subStep);
+    const gradients = _volume_gradients;
+
+    for (const volume of softBody.sharedSettings.volumes) {
+        const [i0, i1, i2, i3] = volume.vertices;
+        const p0 = particles[i0];
+        const p1 = particles[i1];
+        const p2 = particles[i2];
+        const p3 = particles[i3];
+
+        // gradients of (p1 - p0) × (p2 - p0) · (p3 - p0) with respect to p1, p2, p3, the gradient of p0 is minus their sum
+        vec3.subtract(_volume_a, p1.position, p0.position);
+        vec3.subtract(_volume_b, p2.position, p0.position);
+        vec3.subtract(_volume_c, p3.position, p0.position);
+        vec3.cross(gradients[1], _volume_b, _volume_c);
+        vec3.cross(gradients[2], _volume_c, _volume_a);
+        vec3.cross(gradients[3], _volume_a, _volume_b);
+        vec3.add(gradients[0], gradients[1], gradients[2]);
+        vec3.add(gradients[0], gradients[0], gradients[3]);
+        vec3.negate(gradients[0], gradients[0]);
+
+        const w =
+            p0.invMass * vec3.squaredLength(gradients[0]) +
+            p1.invMass * vec3.squaredLength(gradients[1]) +
+            p2.invMass * vec3.squaredLength(gradients[2]) +
+            p3.invMass * vec3.squaredLength(gradients[3]);
+        if (w <= 0) continue;
+
+        const c = getSixVolume(p0.position, p1.position, p2.position, p3.position) - volume.sixRestVolume;
+        const deltaLambda = -c / (w + volume.compliance * invSubStepSq);
+
+        vec3.scaleAndAdd(p0.position, p0.position, gradients[0], deltaLambda * p0.invMass);
+        vec3.scaleAndAdd(p1.position, p1.position, gradients[1], deltaLambda * p1.invMass);
+        vec3.scaleAndAdd(p2.position, p2.position, gradients[2], deltaLambda * p2.invMass);
+        vec3.scaleAndAdd(p3.position, p3.position, gradients[3], deltaLambda * p3.invMass);
+    }
+}
+
+const _collision_bodyVelocity = /* @__PURE__ */ vec3.create();
+const _collision_relativeVelocity = /* @__PURE__ */ vec3.create();
+const _collision_tangent = /* @__PURE__ */ vec3.create();
+const _collision_r = /* @__PURE__ */ vec3.create();
+const _collision_rxn = /* @__PURE__ */ vec3.create();
+const _collision_invInertiaRxn = /* @__PURE__ */ vec3.create();
+const _collision_impulse = /* @__PURE__ */ vec3.create();
+
+/** inverse mass of a rigid body at a point along a direction, 0 for bodies that can't be pushed */
+function getBodyEffectiveInvMass(body: RigidBody, point: Vec3, direction: Vec3): number {
+    if (body.motionType !== MotionType.DYNAMIC) return 0;
+
+    const mp = body.motionProperties;
+    vec3.subtract(_collision_r, point, body.centerOfMassPosition);
+    vec3.cross(_collision_rxn, _collision_r, direction);
+    motionProperties.multiplyWorldSpaceInverseInertiaByVector(_collision_invInertiaRxn, mp, body.quaternion, _collision_rxn);
+
+    return mp.invMass + vec3.dot(_collision_rxn, _collision_invInertiaRxn);
+}
+
+/**
+ * Derive the particle velocities from the sub step displacement, then resolve the rigid body contacts.
+ * Penetrating particles are projected out of the body, the normal and friction response is solved at the velocity
+ * level with the effective mass of both the particle and the rigid body so the opposite impulse can be applied to
+ * the body (two-way coupling).
+ */
+function updateVelocitiesAndSolveCollisions(world: World, softBody: SoftBody, subStep: number): void {
+    const invSubStep = 1 / subStep;
+    const sleepThreshold = world.settings.sleeping.pointVelocitySleepThreshold;
+
+    for (const particle of softBody.particles) {
+        if (particle.invMass <= 0) continue;
+
+        const { position, velocity } = particle;
+        vec3.subtract(velocity, position, particle.previousPosition);
+        vec3.scale(velocity, velocity, invSubStep);
+
+        const body = particle.collidingBody;
+        if (body === null) continue;
+
+        // project the particle out of the collision plane
+        const normal = particle.collisionNormal;
+        const point = particle.collisionPoint;
+        const separation =
+            (position[0] - point[0]) * normal[0] +
+            (position[1] - point[1]) * normal[1] +
+            (position[2] - point[2]) * normal[2] -
+            softBody.particleRadius;
+        if (separation >= 0) continue;
+        vec3.scaleAndAdd(position, position, normal, -separation);
+
+        // relative velocity at the contact point
+        rigidBody.getVelocityAtPoint(_collision_bodyVelocity, body, point);
+        const relativeVelocity = vec3.subtract(_collision_relativeVelocity, velocity, _collision_bodyVelocity);
+        const normalVelocity = vec3.dot(relativeVelocity, normal);
+        if (normalVelocity >= 0) continue;
+
+        // normal impulse that stops the approach, sleeping bodies only wake up for a noticeable push
+        let bodyInvMass = getBodyEffectiveInvMass(body, point, normal);
+        let normalLambda = -normalVelocity / (particle.invMass + bodyInvMass);
+        if (body.sleeping && normalLambda * bodyInvMass <= sleepThreshold) {
+            bodyInvMass = 0;
+            normalLambda = -normalVelocity / particle.invMass;
+        }
+        vec3.scaleAndAdd(velocity, velocity, normal, normalLambda * particle.invMass);
+        vec3.scale(_collision_impulse, normal, -normalLambda);
+
+        // coulomb friction, clamped to the normal impulse
+        const tangent = vec3.scaleAndAdd(_collision_tangent, relativeVelocity, normal, -normalVelocity);
+        const tangentSpeed = vec3.length(tangent);
+        if (tangentSpeed > 0) {
+            vec3.scale(tangent, tangent, 1 / tangentSpeed);
+            const friction = Math.sqrt(softBody.friction * body.friction);
+            const frictionLambda = Math.min(tangentSpeed / (particle.invMass + bodyInvMass), friction * normalLambda);
+            vec3.scaleAndAdd(velocity, velocity, tangent, -frictionLambda * particle.invMass);
+            vec3.scaleAndAdd(_collision_impulse, _collision_impulse, tangent, frictionLambda);
+        }
+
+        if (bodyInvMass > 0) {
+            rigidBody.addImpulseAtPosition(world, body, _collision_impulse, point);
+        }
+    }
+}
+
+/**
+ * Saves the particle positions and velocities of all soft bodies
+ * @param softBodies soft bodies state
+ * @param recorder state recorder to write to
+ */
+export function saveState(softBodies: SoftBodies, recorder: StateRecorder): void {
+    stateRecorder.writeInt32(recorder, softBodies.pool.length);
+    for (const softBody of softBodies.pool) {
+        stateRecorder.writeBool(recorder, softBody._pooled);
+        if (softBody._pooled) continue;
+
+        stateRecorder.writeFloat64(recorder, softBody.id);
+        stateRecorder.writeInt32(recorder, softBody.particles.length);
+        for (const particle of softBody.particles) {
+            stateRecorder.writeVec3(recorder, particle.position);
+            stateRecorder.writeVec3(recorder, particle.velocity);
+        }
+    }
+}
+
+/**
+ * Restores the particle positions and velocities of all soft bodies
+ * @param softBodies soft bodies state, must contain the same soft bodies as when the state was saved
+ * @param recorder state recorder to read from
+ */
+export function restoreState(softBodies: SoftBodies, recorder: StateRecorder): void {
+    if (stateRecorder.readInt32(recorder) !== softBodies.pool.length) {
+        throw new Error('World state does not match the world soft bodies');
+    }
+
+    for (const softBody of softBodies.pool) {
+        const pooled = stateRecorder.readBool(recorder);
+        if (pooled !== softBody._pooled) {
+            throw new Error('World state does not match the world soft bodies');
+        }
+        if (pooled) continue;
+
+        const id = stateRecorder.readFloat64(recorder);
+        const numParticles = stateRecorder.readInt32(recorder);
+        if (id !== softBody.id || numParticles !== softBody.particles.length) {
+            throw new Error(`World state does not match soft body ${softBody.id}`);
+        }
+
+        for (const particle of softBody.particles) {
+            stateRecorder.readVec3(particle.position, recorder);
+            stateRecorder.readVec3(particle.velocity, recorder);
+            vec3.copy(particle.previousPosition, particle.position);
+        }
+        updateBounds(softBody);
+    }
+}
+
+/** the system definition for soft bodies, register it before creating soft bodies */
+export const def = /* @__PURE__ */ ((): SystemDef => ({
+    type: SystemType.SOFT_BODIES,
+    postSolve: updateSoftBodies,
+}))();
@@ -0,0 +1,189 @@
+import { type Quat, quat, type Vec3, vec3 } from 'mathcat';
+import type { BodyId } from './body/body-id';
+import { INVALID_BODY_ID } from './body/body-id';
+import type { RigidBody } from './body/rigid-body';
+import type { Listener } from './listener';
+import { updateWorld } from './update';
+import type { World } from './world';
+
+/** settings for creating a fixed time step stepper */
+export type StepperSettings = {
+    /** duration of a single physics step in seconds @see DEFAULT_STEPPER_SETTINGS */
+    fixedTimeStep?: number;
+    /**
+     * maximum number of physics steps per frame, time beyond that is dropped so a slow frame can't cause
+     * an ever growing number of steps (spiral of death) @see DEFAULT_STEPPER_SETTINGS
+     */
+    maxStepsPerFrame?: number;
+    /** number of collision steps per physics step, passed to updateWorld @see DEFAULT_STEPPER_SETTINGS */
+    collisionSteps?: number;
+};
+
+export const DEFAULT_STEPPER_SETTINGS = {
+    fixedTimeStep: 1 / 60,
+    maxStepsPerFrame: 4,
+    collisionSteps: 1,
+};
+
+/** tolerance when comparing the accumulated time to the fixed time step, so rounding errors in frame deltas don't skip a step */
+const ACCUMULATOR_EPSILON = 1e-9;
+
+/** transform of a body before the last physics step, used for interpolation */
+type StepperBodyState = {
+    /** id of the body the state belongs to, body pool slots are reused */
+    bodyId: BodyId;
+    /** position before the last physics step */
+    previousPosition: Vec3;
+    /** quaternion before the last physics step */
+    previousQuaternion: Quat;
+};
+
+/**
+ * Runs a world at a fixed time step with variable frame deltas.
+ * Frame time is accumulated and consumed in fixed size steps, the left over time is used to interpolate between the
+ * previous and current body transforms for rendering.
+ */
+export type Stepper = {
+    /** duration of a single physics step in seconds */
+    fixedTimeStep: number;
+    /** maximum number of physics steps per frame */
+    maxStepsPerFrame: number;
+    /** number of collision steps per physics step, passed to updateWorld */
+    collisionSteps: number;
+    /** frame time that has not been simulated yet, always less than fixedTimeStep after update */
+    accumulator: number;
+    /** interpolation factor between the previous (0) and current (1) body transforms, accumulator / fixedTimeStep */
+    alpha: number;
+    /** @internal previous body transforms, indexed by body index */
+    bodies: StepperBodyState[];
+};
+
+/**
+ * Creates a fixed time step stepper
+ * @param settings stepper settings
+ * @returns the stepper
+ */
+export function create(settings: StepperSettings = {}): Stepper {
+    const fixedTimeStep = settings.fixedTimeStep ?? DEFAULT_STEPPER_SETTINGS.fixedTimeStep;
+    const maxStepsPerFrame = settings.maxStepsPerFrame ?? DEFAULT_STEPPER_SETTINGS.maxStepsPerFrame;
+    const collisionSteps = settings.collisionSteps ?? DEFAULT_STEPPER_SETTINGS.collisionSteps;
+
+    if (fixedTimeStep <= 0) {
+        throw new Error('Stepper fixedTimeStep must be greater than 0');
+    }
+    if (maxStepsPerFrame < 1) {
+        throw new Error('Stepper maxStepsPerFrame must be at least 1');
+    }
+    if (!Number.isInteger(collisionSteps) || collisionSteps < 1) {
+        throw new Error('Stepper collisionSteps must be an integer of at least 1');
+    }
+
+    return {
+        fixedTimeStep,
+        maxStepsPerFrame,
+        collisionSteps,
+        accumulator: 0,
+        alpha: 0,
+        bodies: [],
+    };
+}
+
+/** get the interpolation state of a body, (re)initialized to the current transform if the slot belongs to another body */
+function getBodyState(stepper: Stepper, body: RigidBody): StepperBodyState {
+    let state = stepper.bodies[body.index];
+    if (state === undefined) {
+        state = { bodyId: INVALID_BODY_ID, previousPosition: vec3.create(), previousQuaternion: quat.create() };
+        stepper.bodies[body.index] = state;
+    }
+    if (state.bodyId !== body.id) {
+        state.bodyId = body.id;
+        vec3.copy(state.previousPosition, body.position);
+        quat.copy(state.previousQuaternion, body.quaternion);
+    }
+    return state;
+}
+
+/** store the current transforms as the previous transforms, before running a physics step */
+function storePreviousTransforms(stepper: Stepper, world: World): void {
+    for (const body of world.bodies.pool) {
+        if (body._pooled) continue;
+        const state = getBodyState(stepper, body);
+        vec3.copy(state.previousPosition, body.position);
+        quat.copy(state.previousQuaternion, body.quaternion);
+    }
+}
+
+/**
+ * Advances the stepper by a frame, running as many fixed physics steps as fit in the accumulated time.
+ *
+ * Every updateWorld call uses the same time step, so the solver's warm starting (which scales the previous impulses by
+ * timeStep / previousTimeStep) stays consistent from step to step. Frames without a physics step don't touch the world.
+ *
+ * @param stepper the stepper
+ * @param world the physics world
+ * @param listener optional listener, passed to updateWorld
+ * @param frameDelta time since the last frame in seconds, negative deltas are treated as 0
+ * @returns the number of physics steps that were run
+ */
+export function update(stepper: Stepper, world: World, listener: Listener | undefined, frameDelta: number): number {
+    // a NaN or infinite delta would end up in the accumulator and stop the stepper for good
+    if (!Number.isFinite(frameDelta)) {
+        throw new Error('Stepper frameDelta must be a finite number');
+    }
+
+    stepper.accumulator += Math.max(0, frameDelta);
+
+    let steps = 0;
+    while (stepper.accumulator >= stepper.fixedTimeStep - ACCUMULATOR_EPSILON && steps < stepper.maxStepsPerFrame) {
+        storePreviousTransforms(stepper, world);
+        updateWorld(world, listener, stepper.fixedTimeStep, stepper.collisionSteps);
+        stepper.accumulator = Math.max(0, stepper.accumulator - stepper.fixedTimeStep);
+        steps++;
+    }
+
+    // too far behind, drop the time that could not be simulated instead of catching up in later frames
+    if (stepper.accumulator >= stepper.fixedTimeStep) {
+        stepper.accumulator %= stepper.fixedTimeStep;
+    }
+
+    stepper.alpha = stepper.accumulator / stepper.fixedTimeStep;
+
+    return steps;
+}
+
+/**
+ * Resets the interpolation of a body to its current transform, call after teleporting a body to avoid
+ * interpolating from the old position.
+ * @param stepper the stepper
+ * @param body the body
+ */
+export function resetInterpolation(stepper: Stepper, body: RigidBody): void {
+    const state = getBodyState(stepper, body);
+    vec3.copy(state.previousPosition, body.position);
+    quat.copy(state.previousQuaternion, body.quaternion);
+}
+
+/**
+ * Gets the position of a body for rendering, interpolated between the transform before and after the last physics step.
+ * Note that rendering lags behind the simulation by up to one fixed time step.
+ * @param out output vector
+ * @param stepper the stepper
+ * @param body the body
+ * @returns out parameter
+ */
+export function getInterpolatedPosition(out: Vec3, stepper: Stepper, body: RigidBody): Vec3 {
+    const state = getBodyState(stepper, body);
+    return vec3.lerp(out, state.previousPosition, body.position, stepper.alpha);
+}
+
+/**
+ * Gets the quaternion of a body for rendering, interpolated between the transform before and after the last physics step.
+ * @param out output quaternion
+ * @param stepper the stepper
+ * @param body the body
+ * @returns out parameter
+ */
+export function getInterpolatedQuaternion(out: Quat, stepper: Stepper, body: RigidBody): Quat {
+    const state = getBodyState(stepper, body);
+    return quat.slerp(out, state.previousQuaternion, body.quaternion, stepper.alpha);
+}
@@ -0,0 +1,31 @@
+import type { Listener } from './listener';
+import type { World } from './world';
+
+/** types of the optional world systems, updateWorld runs registered systems in this order */
+export enum SystemType {
+    SOFT_BODIES = 0,
+    SENSORS = 1,
+}
+
+/**
+ * An optional part of updateWorld, e.g. soft bodies or sensors.
+ * Systems only run when registered, so bundles that don't register a system don't include it.
+ */
+export type SystemDef = {
+    /** system type */
+    type: SystemType;
+
+    /** optional, called in every collision step after the solver ran, before the islands are checked for sleeping */
+    postSolve?: (world: World, timeStep: number) => void;
+
+    /** optional, called once at the end of updateWorld, after all collision steps */
+    postUpdate?: (world: World, listener: Listener | undefined) => void;
+};
+
+/** global registry of system definitions keyed by SystemType */
+export const systemDefs: Partial<Record<SystemType, SystemDef>> = {};
+
+/** register a system definition */
+export function registerSystemDef(def: SystemDef): void {
+    systemDefs[def.type] = def;
+}
@@ -27,22 +27,77 @@ import type { ConstraintType } from './constraints/constraint-id';
 import * as axisConstraintPart from './constraints/constraint-part/axis-constraint-part';
 import * as constraints from './constraints/constraints';
 import * as contactConstraints from './constraints/contact-constraints';
+import type { Constraint } from './constraints/constraints';
+import type { ContactSettings, SolvedContact } from './constraints/contact-constraints';
 import * as contacts from './contacts';
 import * as filter from './filter';
 import * as islands from './islands';
 import { ContactValidateResult, type Listener } from './listener';
+import type { ContactManifold } from './manifold/manifold';
 import * as manifold from './manifold/manifold';
 import { MAX_CONTACT_POINTS } from './manifold/manifold';
 import { getShapeInnerRadius } from './shapes/shapes';
+import { type SystemType, systemDefs } from './systems';
 import type { World } from './world';
 
 /**
  * Updates the physics world with a given time step
+ *
+ * The time step can be split into multiple collision steps, each running the narrowphase, solver and integration
+ * with timeStep / collisionSteps. This is more stable than a single large step, e.g. for stacks and fast ragdolls at
+ * low update rates. Unlike calling updateWorld multiple times, the broadphase pair search and onBodyPairValidate run
+ * once per call, and onContactAdded / onContactPersisted are reported at most once per contact per call. A contact
+ * that a collision step removes is reported to onContactRemoved at the end of the call, unless a later collision step
+ * added it back.
+ *
  * @param world the physics world to update
  * @param listener optional contact listener for collision events
  * @param timeStep the time step to advance the world by, in seconds
+ * @param collisionSteps number of collision steps to split the time step into, an integer of at least 1
+ */
+export function updateWorld(world: World, listener: Listener | undefined, timeStep: number, collisionSteps = 1): void {
+    if (!Number.isInteger(collisionSteps) || collisionSteps < 1) {
+        throw new Error(`collisionSteps must be an integer of at least 1, got ${collisionSteps}`);
+    }
+
+    const stepTime = timeStep / collisionSteps;
+    const stepListener = listener && collisionSteps > 1 ? setupCollisionStepListener(world, listener) : listener;
+
+    for (let step = 0; step < collisionSteps; step++) {
+        // the pairs of the first step are reused by the other steps, so look ahead for the rest of the time step
+        const isFirstStep = step === 0;
+        collisionStep(world, stepListener, stepTime, isFirstStep, isFirstStep ? timeStep - stepTime : 0);
+    }
+
+    resetCollisionStepListener();
+
+    /* run the registered systems, e.g. sensor overlaps */
+    for (const type in systemDefs) {
+        systemDefs[type as unknown as SystemType]!.postUpdate?.(world, listener);
+    }
+
+    /* clear all forces */
+    for (const body of world.bodies.pool) {
+        if (body._pooled || body.motionType === MotionType.STATIC || body.sleeping) continue;
+        rigidBody.clearForces(body);
+    }
+}
+
+/**
+ * Runs a single collision step of updateWorld
+ * @param world the physics world to update
+ * @param listener optional contact listener for collision events
+ * @param timeStep the time step of this collision step, in seconds
+ * @param findPairs whether to run the broadphase pair search, otherwise the pairs of the previous collision step are reused
+ * @param pairPredictionTime time the found pairs should stay valid for beyond this collision step, in seconds
  */
-export function updateWorld(world: World, listener: Listener | undefined, timeStep: number): void {
+function collisionStep(
+    world: World,
+    listener: Listener | undefined,
+    timeStep: number,
+    findPairs: boolean,
+    pairPredictionTime: number,
+): void {
     /* reset CCD state for this frame */
     ccd.clear(world.ccd, world.bodies);
 
@@ -52,11 +107,18 @@ export function updateWorld(world: World, listener: Listener | undefined, timeSt
     /* mark all body pairs and contacts as unprocessed (we will check 'processed' later for a "contact removed" condition) */
     contacts.markAllUnprocessed(world.contacts);
 
+    /* run constraint pre steps, e.g. vehicle wheel collision tests */
+    if (timeStep > 0) {
+        constraints.preStepConstraints(world, timeStep);
+    }
+
     /* integrate forces into velocities */
     accelerationIntegrationUpdate(world, timeStep);
 
     /* broadphase: find potentially colliding body pairs */
-    broadphase.findCollidingPairs(world, world.settings.narrowphase.speculativeContactDistance, listener);
+    if (findPairs) {
+        broadphase.findCollidingPairs(world, world.settings.narrowphase.speculativeContactDistance, listener, pairPredictionTime);
+    }
 
     /* narrowphase: check collision for each potentially colliding pair */
     const pairs = world.broadphase.pairs;
@@ -68,6 +130,11 @@ export function updateWorld(world: World, listener: Listener | undefined, timeSt
         let bodyA = world.bodies.pool[bodyIndexA];
         let bodyB = world.bodies.pool[bodyIndexB];
 
+        // a reused pair can have fallen asleep during the previous collision step, it would not have been found
+        if (!findPairs && !broadphase.shouldQueryBroadphase(bodyA) && !broadphase.shouldQueryBroadphase(bodyB)) {
+            continue;
+        }
+
         // ensure that bodyA has the higher motion type (i.e. dynamic trumps kinematic), this ensures that we do the collision detection in the space of a moving body,
         // which avoids accuracy problems when testing a very large static object against a small dynamic object
         // ensure that bodyA id < bodyB id when motion types are the same.
@@ -225,19 +292,241 @@ export function updateWorld(world: World, listener: Listener | undefined, timeSt
         /* update body positions after position solver (derive position from centerOfMassPosition) */
         updateBodyPositions(world);
 
+        /* report the applied contact impulses */
+        if (listener?.onContactSolved) {
+            contactConstraints.reportSolvedContacts(world.contactConstraints, world.bodies, timeStep, listener);
+        }
+
+        /* run the registered systems, e.g. step soft bodies against the updated rigid bodies */
+        for (const type in systemDefs) {
+            systemDefs[type as unknown as SystemType]!.postSolve?.(world, timeStep);
+        }
+
         /* update body sleeping for each island */
         for (const island of world.islands.islands) {
             islands.checkIslandSleep(island, world, timeStep);
         }
+
+        /* disable constraints that exceeded their break force or torque */
+        constraints.breakConstraints(world, timeStep, listener);
     }
+}
 
-    /* clear all forces */
-    for (const body of world.bodies.pool) {
-        if (body._pooled || body.motionType === MotionType.STATIC || body.sleeping) continue;
-        rigidBody.clearForces(body);
+/** a contact removed by a collision step, reported at the end of the updateWorld call unless it is added back */
+type CollisionStepRemovedContact = {
+    bodyIdA: number;
+    bodyIdB: number;
+    subShapeIdA: number;
+    subShapeIdB: number;
+    /** whether the contact had been reported during this call */
+    reported: boolean;
+    /** contact settings produced by the listener, if reported */
+    settings: ContactSettings;
+};
+
+/** state of the listener that wraps the user listener during updateWorld calls with multiple collision steps */
+const collisionStepListenerState = {
+    world: null! as World,
+    listener: null! as Listener,
+    /** contact settings produced by the listener, indexed by contact index */
+    contactSettings: [] as ContactSettings[],
+    /** whether the contact has been reported during this call, indexed by contact index */
+    reported: [] as boolean[],
+    /** pool of contacts removed during this call, the first numRemovedContacts are in use */
+    removedContacts: [] as CollisionStepRemovedContact[],
+    numRemovedContacts: 0,
+};
+
+/** wraps the user listener for the collision steps of an updateWorld call */
+function setupCollisionStepListener(world: World, listener: Listener): Listener {
+    const state = collisionStepListenerState;
+    state.world = world;
+    state.listener = listener;
+    state.reported.fill(false);
+    // only forward when set, so the solved contacts are not gathered for nothing
+    collisionStepListener.onContactSolved = listener.onContactSolved ? collisionStepOnContactSolved : undefined;
+    return collisionStepListener;
+}
+
+/** reports the contacts that stayed removed, and releases the world and user listener after an updateWorld call */
+function resetCollisionStepListener(): void {
+    const state = collisionStepListenerState;
+    for (let i = 0; i < state.numRemovedContacts; i++) {
+        const removed = state.removedContacts[i];
+        state.listener.onContactRemoved?.(removed.bodyIdA, removed.bodyIdB, removed.subShapeIdA, removed.subShapeIdB);
+    }
+    state.numRemovedContacts = 0;
+    state.world = null! as World;
+    state.listener = null! as Listener;
+    collisionStepListener.onContactSolved = undefined;
+}
+
+/** stores the contact settings the user listener produced for a contact, so later collision steps can reuse them */
+function reportCollisionStepContact(
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    contactManifold: ContactManifold,
+    settings: ContactSettings,
+): void {
+    const state = collisionStepListenerState;
+    const contact = contacts.findContact(
+        state.world.contacts,
+        bodyA,
+        bodyB,
+        contactManifold.subShapeIdA,
+        contactManifold.subShapeIdB,
+    );
+    if (!contact) return;
+
+    const index = contact.contactIndex;
+    state.contactSettings[index] ??= contactConstraints.createContactSettings();
+    contactConstraints.copyContactSettings(state.contactSettings[index], settings);
+    state.reported[index] = true;
+}
+
+function collisionStepOnBodyPairValidate(bodyA: RigidBody, bodyB: RigidBody): boolean {
+    return collisionStepListenerState.listener.onBodyPairValidate?.(bodyA, bodyB) ?? true;
+}
+
+function collisionStepOnContactValidate(
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    baseOffset: Vec3,
+    hit: CollideShapeHit,
+): ContactValidateResult {
+    return (
+        collisionStepListenerState.listener.onContactValidate?.(bodyA, bodyB, baseOffset, hit) ??
+        ContactValidateResult.ACCEPT_ALL_CONTACTS_FOR_THIS_BODY_PAIR
+    );
+}
+
+/** finds a contact removed during this call, returns its index in the removed contacts or -1 */
+function findCollisionStepRemovedContact(bodyIdA: number, bodyIdB: number, subShapeIdA: number, subShapeIdB: number): number {
+    const state = collisionStepListenerState;
+    for (let i = 0; i < state.numRemovedContacts; i++) {
+        const removed = state.removedContacts[i];
+        if (
+            removed.bodyIdA === bodyIdA &&
+            removed.bodyIdB === bodyIdB &&
+            removed.subShapeIdA === subShapeIdA &&
+            removed.subShapeIdB === subShapeIdB
+        ) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function collisionStepOnContactAdded(
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    contactManifold: ContactManifold,
+    settings: ContactSettings,
+): void {
+    const state = collisionStepListenerState;
+    const removedIndex = findCollisionStepRemovedContact(
+        bodyA.id,
+        bodyB.id,
+        contactManifold.subShapeIdA,
+        contactManifold.subShapeIdB,
+    );
+
+    if (removedIndex === -1) {
+        state.listener.onContactAdded?.(bodyA, bodyB, contactManifold, settings);
+        reportCollisionStepContact(bodyA, bodyB, contactManifold, settings);
+        return;
+    }
+
+    // a contact that an earlier collision step removed persists, swap remove it from the removed contacts
+    const removed = state.removedContacts[removedIndex];
+    state.numRemovedContacts--;
+    state.removedContacts[removedIndex] = state.removedContacts[state.numRemovedContacts];
+    state.removedContacts[state.numRemovedContacts] = removed;
+
+    if (removed.reported) {
+        contactConstraints.copyContactSettings(settings, removed.settings);
+    } else {
+        state.listener.onContactPersisted?.(bodyA, bodyB, contactManifold, settings);
+    }
+    reportCollisionStepContact(bodyA, bodyB, contactManifold, settings);
+}
+
+function collisionStepOnContactPersisted(
+    bodyA: RigidBody,
+    bodyB: RigidBody,
+    contactManifold: ContactManifold,
+    settings: ContactSettings,
+): void {
+    const state = collisionStepListenerState;
+    const contact = contacts.findContact(
+        state.world.contacts,
+        bodyA,
+        bodyB,
+        contactManifold.subShapeIdA,
+        contactManifold.subShapeIdB,
+    );
+    if (contact && state.reported[contact.contactIndex]) {
+        contactConstraints.copyContactSettings(settings, state.contactSettings[contact.contactIndex]);
+        return;
     }
+
+    state.listener.onContactPersisted?.(bodyA, bodyB, contactManifold, settings);
+    reportCollisionStepContact(bodyA, bodyB, contactManifold, settings);
+}
+
+function collisionStepOnContactRemoved(bodyIdA: number, bodyIdB: number, subShapeIdA: number, subShapeIdB: number): void {
+    const state = collisionStepListenerState;
+    state.removedContacts[state.numRemovedContacts] ??= {
+        bodyIdA: 0,
+        bodyIdB: 0,
+        subShapeIdA: 0,
+        subShapeIdB: 0,
+        reported: false,
+        settings: contactConstraints.createContactSettings(),
+    };
+    const removed = state.removedContacts[state.numRemovedContacts++];
+    removed.bodyIdA = bodyIdA;
+    removed.bodyIdB = bodyIdB;
+    removed.subShapeIdA = subShapeIdA;
+    removed.subShapeIdB = subShapeIdB;
+    removed.reported = false;
+
+    // the contact is not destroyed yet, keep the settings the listener produced for it, its index is reused
+    const bodyA = rigidBody.get(state.world, bodyIdA);
+    const bodyB = rigidBody.get(state.world, bodyIdB);
+    if (!bodyA || !bodyB) return;
+    const contact = contacts.findContact(state.world.contacts, bodyA, bodyB, subShapeIdA, subShapeIdB);
+    if (!contact || !state.reported[contact.contactIndex]) return;
+
+    removed.reported = true;
+    contactConstraints.copyContactSettings(removed.settings, state.contactSettings[contact.contactIndex]);
+    state.reported[contact.contactIndex] = false;
+}
+
+function collisionStepOnContactSolved(bodyA: RigidBody, bodyB: RigidBody, solvedContact: SolvedContact): void {
+    collisionStepListenerState.listener.onContactSolved?.(bodyA, bodyB, solvedContact);
 }
 
+function collisionStepOnConstraintBroken(constraint: Constraint): void {
+    collisionStepListenerState.listener.onConstraintBroken?.(constraint);
+}
+
+/**
+ * Listener that wraps the user listener during updateWorld calls with multiple collision steps.
+ * Contact added and persisted events are reported at most once per contact per call, later collision steps reuse the
+ * contact settings the listener produced for that contact instead of calling the listener again. Contact removed events
+ * are held back until the end of the call, a contact that a later collision step adds back persists instead.
+ */
+const collisionStepListener: Listener = {
+    onBodyPairValidate: collisionStepOnBodyPairValidate,
+    onContactValidate: collisionStepOnContactValidate,
+    onContactAdded: collisionStepOnContactAdded,
+    onContactPersisted: collisionStepOnContactPersisted,
+    onContactRemoved: collisionStepOnContactRemoved,
+    onContactSolved: undefined,
+    onConstraintBroken: collisionStepOnConstraintBroken,
+};
+
 const _acceleration_rotation = /* @__PURE__ */ mat4.create();
 const _acceleration_worldInverseInertia = /* @__PURE__ */ mat4.create();
 
@@ -0,0 +1,139 @@
+import type { Quat, Vec3 } from 'mathcat';
+
+/**
+ * growable binary buffer for saving and restoring simulation state.
+ * values are written and read back in the same order, there is no per-value tagging.
+ */
+export type StateRecorder = {
+    /** backing bytes, may be larger than the written data */
+    bytes: Uint8Array;
+    /** view over the backing bytes */
+    view: DataView;
+    /** current read / write offset in bytes */
+    offset: number;
+};
+
+/** creates an empty state recorder for writing */
+export function create(initialCapacity = 1024): StateRecorder {
+    const bytes = new Uint8Array(initialCapacity);
+    return {
+        bytes,
+        view: new DataView(bytes.buffer),
+        offset: 0,
+    };
+}
+
+/** creates a state recorder for reading previously written bytes */
+export function fromBytes(bytes: Uint8Array): StateRecorder {
+    return {
+        bytes,
+        view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+        offset: 0,
+    };
+}
+
+/** returns a copy of the written bytes */
+export function toBytes(recorder: StateRecorder): Uint8Array {
+    return recorder.bytes.slice(0, recorder.offset);
+}
+
+/** returns true if all bytes have been read */
+export function isAtEnd(recorder: StateRecorder): boolean {
+    return recorder.offset === recorder.bytes.byteLength;
+}
+
+function ensureCapacity(recorder: StateRecorder, byteLength: number): void {
+    const required = recorder.offset + byteLength;
+    if (required <= recorder.bytes.byteLength) return;
+
+    let capacity = Math.max(recorder.bytes.byteLength * 2, 64);
+    while (capacity < required) capacity *= 2;
+
+    const bytes = new Uint8Array(capacity);
+    bytes.set(recorder.bytes);
+    recorder.bytes = bytes;
+    recorder.view = new DataView(bytes.buffer);
+}
+
+function ensureReadable(recorder: StateRecorder, byteLength: number): void {
+    if (recorder.offset + byteLength > recorder.bytes.byteLength) {
+        throw new Error('Unexpected end of state data');
+    }
+}
+
+/** writes a 64 bit float, use for any value that must round-trip exactly (including packed ids) */
+export function writeFloat64(recorder: StateRecorder, value: number): void {
+    ensureCapacity(recorder, 8);
+    recorder.view.setFloat64(recorder.offset, value, true);
+    recorder.offset += 8;
+}
+
+/** reads a 64 bit float */
+export function readFloat64(recorder: StateRecorder): number {
+    ensureReadable(recorder, 8);
+    const value = recorder.view.getFloat64(recorder.offset, true);
+    recorder.offset += 8;
+    return value;
+}
+
+/** writes a signed 32 bit integer */
+export function writeInt32(recorder: StateRecorder, value: number): void {
+    ensureCapacity(recorder, 4);
+    recorder.view.setInt32(recorder.offset, value, true);
+    recorder.offset += 4;
+}
+
+/** reads a signed 32 bit integer */
+export function readInt32(recorder: StateRecorder): number {
+    ensureReadable(recorder, 4);
+    const value = recorder.view.getInt32(recorder.offset, true);
+    recorder.offset += 4;
+    return value;
+}
+
+/** writes a boolean as a single byte */
+export function writeBool(recorder: StateRecorder, value: boolean): void {
+    ensureCapacity(recorder, 1);
+    recorder.view.setUint8(recorder.offset, value ? 1 : 0);
+    recorder.offset += 1;
+}
+
+/** reads a boolean */
+export function readBool(recorder: StateRecorder): boolean {
+    ensureReadable(recorder, 1);
+    const value = recorder.view.getUint8(recorder.offset) !== 0;
+    recorder.offset += 1;
+    return value;
+}
+
+/** writes a vec3 as three 64 bit floats */
+export function writeVec3(recorder: StateRecorder, value: Vec3): void {
+    writeFloat64(recorder, value[0]);
+    writeFloat64(recorder, value[1]);
+    writeFloat64(recorder, value[2]);
+}
+
+/** reads a vec3 into out */
+export function readVec3(out: Vec3, recorder: StateRecorder): Vec3 {
+    out[0] = readFloat64(recorder);
+    out[1] = readFloat64(recorder);
+    out[2] = readFloat64(recorder);
+    return out;
+}
+
+/** writes a quat as four 64 bit floats */
+export function writeQuat(recorder: StateRecorder, value: Quat): void {
+    writeFloat64(recorder, value[0]);
+    writeFloat64(recorder, value[1]);
+    writeFloat64(recorder, value[2]);
+    writeFloat64(recorder, value[3]);
+}
+
+/** reads a quat into out */
+export function readQuat(out: Quat, recorder: StateRecorder): Quat {
+    out[0] = readFloat64(recorder);
+    out[1] = readFloat64(recorder);
+    out[2] = readFloat64(recorder);
+    out[3] = readFloat64(recorder);
+    return out;
+}
@@ -0,0 +1,61 @@
+import type { Vec2 } from 'mathcat';
+
+/** piecewise linear curve, used for torque and friction curves */
+export type LinearCurve = {
+    /** curve points [x, y], sorted by x */
+    points: Vec2[];
+};
+
+/** create a linear curve from a list of [x, y] points */
+export function create(points: Vec2[] = []): LinearCurve {
+    const curve: LinearCurve = { points: [] };
+    for (const point of points) {
+        addPoint(curve, point[0], point[1]);
+    }
+    return curve;
+}
+
+/** copy a linear curve */
+export function copy(out: LinearCurve, source: LinearCurve): LinearCurve {
+    out.points.length = 0;
+    for (const point of source.points) {
+        out.points.push([point[0], point[1]]);
+    }
+    return out;
+}
+
+/** add a point to the curve, keeping points sorted by x */
+export function addPoint(curve: LinearCurve, x: number, y: number): void {
+    let i = curve.points.length;
+    while (i > 0 && curve.points[i - 1][0] > x) {
+        i--;
+    }
+    curve.points.splice(i, 0, [x, y]);
+}
+
+/** remove all points from the curve */
+export function clear(curve: LinearCurve): void {
+    curve.points.length = 0;
+}
+
+/**
+ * Sample the curve at x.
+ * Values outside the range of the curve are clamped to the first / last point, an empty curve returns 0.
+ */
+export function getValue(curve: LinearCurve, x: number): number {
+    const points = curve.points;
+    if (points.length === 0) return 0;
+
+    // find first point with x >= the sample x
+    let i = 0;
+    while (i < points.length && points[i][0] < x) {
+        i++;
+    }
+
+    if (i === 0) return points[0][1];
+    if (i === points.length) return points[points.length - 1][1];
+
+    const p1 = points[i - 1];
+    const p2 = points[i];
+    return p1[1] + ((x - p1[0]) * (p2[1] - p1[1])) / (p2[0] - p1[0]);
+}
@@ -0,0 +1,488 @@
+import { vec3 } from 'mathcat';
+import type { Bodies } from '../body/bodies';
+import * as rigidBody from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { World } from '../world';
+import { VehicleControllerType } from './vehicle-controller';
+import type { VehicleConstraint } from './vehicle-constraint';
+import type { VehicleEngine, VehicleEngineSettings } from './vehicle-engine';
+import * as vehicleEngine from './vehicle-engine';
+import type { VehicleTransmission, VehicleTransmissionSettings } from './vehicle-transmission';
+import * as vehicleTransmission from './vehicle-transmission';
+import { TransmissionMode } from './vehicle-transmission';
+import type { Wheel, WheelSettings } from './wheel';
+import * as wheel from './wheel';
+
+/** settings for a road wheel of a tracked vehicle */
+export type TrackedVehicleWheelSettings = WheelSettings & {
+    /** friction in the forward direction of the track @default 4 */
+    longitudinalFriction?: number;
+    /** friction in the sideways direction of the track @default 2 */
+    lateralFriction?: number;
+};
+
+/** road wheel of a tracked vehicle */
+export type TrackedVehicleWheel = Wheel & {
+    /** friction in the forward direction of the track */
+    longitudinalFriction: number;
+    /** friction in the sideways direction of the track */
+    lateralFriction: number;
+    /** index of the track this wheel belongs to, -1 if the wheel is not part of a track */
+    trackIndex: number;
+    /** combined friction coefficient in the longitudinal direction (combines terrain and track) */
+    combinedLongitudinalFriction: number;
+    /** combined friction coefficient in the lateral direction (combines terrain and track) */
+    combinedLateralFriction: number;
+    /** amount of impulse that the brakes can apply to the floor (excluding friction) */
+    brakeImpulse: number;
+};
+
+/** settings for a track of a tracked vehicle */
+export type VehicleTrackSettings = {
+    /** index (in the vehicle wheels) of the wheel that is driven by the engine */
+    drivenWheel: number;
+    /** indices (in the vehicle wheels) of all wheels that are part of this track, including the driven wheel */
+    wheels: number[];
+    /** moment of inertia (kg m^2) of the track and its wheels as seen on the driven wheel @default 10 */
+    inertia?: number;
+    /** angular damping factor of the track, dw/dt = -c * w @default 0.5 */
+    angularDamping?: number;
+    /** how much torque (Nm) the brakes can apply on the driven wheel @default 15000 */
+    maxBrakeTorque?: number;
+    /** ratio between rotation speed of gear box and driven wheel of track @default 6 */
+    differentialRatio?: number;
+};
+
+/** a track of a tracked vehicle, all wheels of a track share the linear velocity of the track */
+export type VehicleTrack = {
+    /** index (in the vehicle wheels) of the wheel that is driven by the engine */
+    drivenWheel: number;
+    /** indices (in the vehicle wheels) of all wheels that are part of this track */
+    wheels: number[];
+    /** moment of inertia (kg m^2) of the track and its wheels as seen on the driven wheel */
+    inertia: number;
+    /** angular damping factor of the track */
+    angularDamping: number;
+    /** how much torque (Nm) the brakes can apply on the driven wheel */
+    maxBrakeTorque: number;
+    /** ratio between rotation speed of gear box and driven wheel of track */
+    differentialRatio: number;
+    /** angular velocity (rad/s) of the driven wheel, the linear track velocity is this times the radius of the driven wheel */
+    angularVelocity: number;
+};
+
+/** index of the left track */
+export const TRACK_LEFT = 0;
+
+/** index of the right track */
+export const TRACK_RIGHT = 1;
+
+/** settings for a tracked vehicle controller */
+export type TrackedVehicleControllerSettings = {
+    /** controller type */
+    type: VehicleControllerType.TRACKED;
+    /** engine settings */
+    engine?: VehicleEngineSettings;
+    /** transmission (gear box) settings */
+    transmission?: VehicleTransmissionSettings;
+    /** the left and right track */
+    tracks: [left: VehicleTrackSettings, right: VehicleTrackSettings];
+};
+
+/** tracked vehicle controller */
+export type TrackedVehicleController = {
+    /** controller type */
+    type: VehicleControllerType.TRACKED;
+    /** the engine */
+    engine: VehicleEngine;
+    /** the transmission (gear box) */
+    transmission: VehicleTransmission;
+    /** the left and right track */
+    tracks: [left: VehicleTrack, right: VehicleTrack];
+    /** driver input, value between -1 and 1 for auto transmission and between 0 and 1 indicating desired driving direction and amount the gas pedal is pressed */
+    forwardInput: number;
+    /** driver input, value between -1 and 1 indicating an extra multiplier to the rotation rate of the left track (used for steering) */
+    leftRatio: number;
+    /** driver input, value between -1 and 1 indicating an extra multiplier to the rotation rate of the right track (used for steering) */
+    rightRatio: number;
+    /** driver input, value between 0 and 1 indicating how strong the brake of the left track is applied */
+    leftBrakeInput: number;
+    /** driver input, value between 0 and 1 indicating how strong the brake of the right track is applied */
+    rightBrakeInput: number;
+};
+
+function createTrack(settings: VehicleTrackSettings): VehicleTrack {
+    return {
+        drivenWheel: settings.drivenWheel,
+        wheels: settings.wheels.slice(),
+        inertia: settings.inertia ?? 10,
+        angularDamping: settings.angularDamping ?? 0.5,
+        maxBrakeTorque: settings.maxBrakeTorque ?? 15000,
+        differentialRatio: settings.differentialRatio ?? 6,
+        angularVelocity: 0,
+    };
+}
+
+/**
+ * Validate tracked vehicle controller settings against the number of wheels of the vehicle
+ * @throws if a track references a wheel that does not exist or a wheel is part of more than one track
+ */
+export function validateSettings(settings: TrackedVehicleControllerSettings, numWheels: number): void {
+    const used = new Set<number>();
+    for (const track of settings.tracks) {
+        if (track.drivenWheel < 0 || track.drivenWheel >= numWheels || !track.wheels.includes(track.drivenWheel)) {
+            throw new Error('Invalid track driven wheel index');
+        }
+        for (const wheelIndex of track.wheels) {
+            if (wheelIndex < 0 || wheelIndex >= numWheels || used.has(wheelIndex)) {
+                throw new Error('Invalid track wheel index');
+            }
+            used.add(wheelIndex);
+        }
+    }
+}
+
+/** create a tracked vehicle controller */
+export function create(settings: TrackedVehicleControllerSettings): TrackedVehicleController {
+    return {
+        type: VehicleControllerType.TRACKED,
+        engine: vehicleEngine.create(settings.engine),
+        transmission: vehicleTransmission.create(settings.transmission),
+        tracks: [createTrack(settings.tracks[TRACK_LEFT]), createTrack(settings.tracks[TRACK_RIGHT])],
+        forwardInput: 0,
+        leftRatio: 1,
+        rightRatio: 1,
+        leftBrakeInput: 0,
+        rightBrakeInput: 0,
+    };
+}
+
+/** create a road wheel for a tracked vehicle, the track index is assigned by assignWheelsToTracks */
+export function createWheel(settings: TrackedVehicleWheelSettings): TrackedVehicleWheel {
+    return {
+        ...wheel.makeWheel(settings),
+        longitudinalFriction: settings.longitudinalFriction ?? 4,
+        lateralFriction: settings.lateralFriction ?? 2,
+        trackIndex: -1,
+        combinedLongitudinalFriction: 0,
+        combinedLateralFriction: 0,
+        brakeImpulse: 0,
+    };
+}
+
+/** assign the wheels of a vehicle to the tracks of the controller */
+export function assignWheelsToTracks(controller: TrackedVehicleController, wheels: TrackedVehicleWheel[]): void {
+    for (let i = 0; i < controller.tracks.length; i++) {
+        for (const wheelIndex of controller.tracks[i].wheels) {
+            wheels[wheelIndex].trackIndex = i;
+        }
+    }
+}
+
+/**
+ * Set the driver input
+ * @param forward value between -1 and 1 for auto transmission and between 0 and 1 indicating desired driving direction and amount the gas pedal is pressed
+ * @param leftRatio value between -1 and 1 indicating an extra multiplier to the rotation rate of the left track (used for steering)
+ * @param rightRatio value between -1 and 1 indicating an extra multiplier to the rotation rate of the right track (used for steering)
+ * @param leftBrake value between 0 and 1 indicating how strong the brake of the left track is applied
+ * @param rightBrake value between 0 and 1 indicating how strong the brake of the right track is applied
+ */
+export function setDriverInput(
+    controller: TrackedVehicleController,
+    forward: number,
+    leftRatio: number,
+    rightRatio: number,
+    leftBrake: number,
+    rightBrake: number,
+): void {
+    controller.forwardInput = forward;
+    controller.leftRatio = leftRatio;
+    controller.rightRatio = rightRatio;
+    controller.leftBrakeInput = leftBrake;
+    controller.rightBrakeInput = rightBrake;
+}
+
+/** update the angular velocity of the wheels of a track, all wheels share the linear velocity of the track */
+function synchronizeWheels(track: VehicleTrack, wheels: TrackedVehicleWheel[]): void {
+    const drivenWheelRadius = wheels[track.drivenWheel].radius;
+    for (const wheelIndex of track.wheels) {
+        const w = wheels[wheelIndex];
+        w.angularVelocity = (track.angularVelocity * drivenWheelRadius) / w.radius;
+    }
+}
+
+/** sync the wheels with their tracks before the wheel collision tests */
+export function preCollide(controller: TrackedVehicleController, vehicle: VehicleConstraint, _deltaTime: number): void {
+    const wheels = vehicle.wheels as TrackedVehicleWheel[];
+    for (const track of controller.tracks) {
+        synchronizeWheels(track, wheels);
+    }
+}
+
+/** update wheel rotation and calculate friction */
+function updateWheel(w: TrackedVehicleWheel, bodies: Bodies, deltaTime: number): void {
+    // update rotation of wheel
+    w.angle = (w.angle + w.angularVelocity * deltaTime) % (2 * Math.PI);
+
+    // reset brake impulse, will be set when braking
+    w.brakeImpulse = 0;
+
+    if (!wheel.hasContact(w)) {
+        w.combinedLongitudinalFriction = 0;
+        w.combinedLateralFriction = 0;
+        return;
+    }
+
+    // combine track friction with the friction of the ground
+    const contactBody = bodies.pool[w.contactBodyIndex];
+    w.combinedLongitudinalFriction = Math.sqrt(w.longitudinalFriction * contactBody.friction);
+    w.combinedLateralFriction = Math.sqrt(w.lateralFriction * contactBody.friction);
+}
+
+/** update tracks, engine, transmission and brakes after the wheel collision tests */
+export function postCollide(
+    controller: TrackedVehicleController,
+    vehicle: VehicleConstraint,
+    world: World,
+    deltaTime: number,
+): void {
+    const wheels = vehicle.wheels as TrackedVehicleWheel[];
+    const { engine, transmission, tracks } = controller;
+
+    // update wheel angle and friction, do this before applying torque to the tracks (as friction will slow them down again)
+    for (const w of wheels) {
+        updateWheel(w, world.bodies, deltaTime);
+    }
+
+    // calculate engine speed based on the speed of the tracks
+    let canEngineApplyTorque = false;
+    if (transmission.currentGear !== 0 && transmission.clutchFriction > 1e-3) {
+        const transmissionRatio = vehicleTransmission.getCurrentRatio(transmission);
+        const forward = transmissionRatio >= 0;
+        let fastestTrackSpeed = forward ? Number.NEGATIVE_INFINITY : Number.POSITIVE_INFINITY;
+        for (const track of tracks) {
+            const trackSpeed = track.angularVelocity * track.differentialRatio;
+            fastestTrackSpeed = forward ? Math.max(fastestTrackSpeed, trackSpeed) : Math.min(fastestTrackSpeed, trackSpeed);
+            for (const wheelIndex of track.wheels) {
+                if (wheel.hasContact(wheels[wheelIndex])) {
+                    canEngineApplyTorque = true;
+                    break;
+                }
+            }
+        }
+
+        // the engine is connected to the tracks, so it rotates along with the fastest track
+        vehicleEngine.setAngularVelocity(engine, fastestTrackSpeed * transmissionRatio);
+    } else {
+        // engine is not connected to the tracks, update RPM based on engine inertia alone
+        vehicleEngine.applyDamping(engine, deltaTime);
+
+        // in auto transmission mode, don't accelerate the engine when switching gears
+        const forwardInput = transmission.mode === TransmissionMode.MANUAL ? Math.abs(controller.forwardInput) : 0;
+        vehicleEngine.applyTorque(engine, vehicleEngine.getTorque(engine, forwardInput), deltaTime);
+    }
+
+    // update transmission, only allow shifting up when the tracks are rolling in the same direction
+    vehicleTransmission.update(
+        transmission,
+        deltaTime,
+        engine.currentRPM,
+        controller.forwardInput,
+        controller.leftRatio * controller.rightRatio > 0 && canEngineApplyTorque,
+    );
+
+    // calculate the amount of torque the transmission gives to the tracks
+    const transmissionRatio = vehicleTransmission.getCurrentRatio(transmission);
+    const transmissionTorque =
+        transmission.clutchFriction * transmissionRatio * vehicleEngine.getTorque(engine, Math.abs(controller.forwardInput));
+    if (transmissionTorque !== 0) {
+        // calculate the max angular velocity of the transmission given the max RPM, allow the engine to go a bit over its max RPM
+        const maxAngularVelocity = (1.1 * engine.maxRPM) / (Math.abs(transmissionRatio) * vehicleEngine.ANGULAR_VELOCITY_TO_RPM);
+
+        for (let i = 0; i < tracks.length; i++) {
+            const track = tracks[i];
+            const ratio = i === TRACK_LEFT ? controller.leftRatio : controller.rightRatio;
+            const trackTorque = ratio * transmissionTorque * track.differentialRatio;
+
+            // accelerate the track, but not beyond the max velocity the engine can deliver
+            const maxTrackAngularVelocity = Math.max(
+                maxAngularVelocity / track.differentialRatio,
+                Math.abs(track.angularVelocity),
+            );
+            const angularVelocity = track.angularVelocity + (trackTorque * deltaTime) / track.inertia;
+            track.angularVelocity = Math.min(Math.max(angularVelocity, -maxTrackAngularVelocity), maxTrackAngularVelocity);
+        }
+    }
+
+    // apply damping to the tracks
+    for (const track of tracks) {
+        track.angularVelocity *= Math.max(0, 1 - track.angularDamping * deltaTime);
+    }
+
+    // braking
+    for (let i = 0; i < tracks.length; i++) {
+        const track = tracks[i];
+        const brakeInput = i === TRACK_LEFT ? controller.leftBrakeInput : controller.rightBrakeInput;
+        let brakeTorque = brakeInput * track.maxBrakeTorque;
+        if (brakeTorque <= 0) continue;
+
+        // calculate how much torque is needed to stop the track from rotating in this time step
+        const brakeTorqueToLockTrack = (Math.abs(track.angularVelocity) * track.inertia) / deltaTime;
+        if (brakeTorque > brakeTorqueToLockTrack) {
+            // track is locked, the remaining torque brakes the vehicle through the wheels touching the ground
+            track.angularVelocity = 0;
+            brakeTorque -= brakeTorqueToLockTrack;
+        } else {
+            // slow down the track
+            track.angularVelocity -= (Math.sign(track.angularVelocity) * brakeTorque * deltaTime) / track.inertia;
+            continue;
+        }
+
+        // sum the radius of all wheels touching the floor
+        let totalRadius = 0;
+        for (const wheelIndex of track.wheels) {
+            const w = wheels[wheelIndex];
+            if (wheel.hasContact(w)) totalRadius += w.radius;
+        }
+        if (totalRadius <= 0) continue;
+
+        // distribute the brake torque over the wheels, the impulse for a wheel is p = torque / radius * dt,
+        // with torque = total torque * radius / total radius this gives p = total torque * dt / total radius
+        for (const wheelIndex of track.wheels) {
+            const w = wheels[wheelIndex];
+            if (wheel.hasContact(w)) {
+                w.brakeImpulse = (brakeTorque * deltaTime) / totalRadius;
+            }
+        }
+    }
+
+    // update wheel angular velocity based on that of the track
+    for (const track of tracks) {
+        synchronizeWheels(track, wheels);
+    }
+}
+
+const _solve_relativeVelocity = /* @__PURE__ */ vec3.create();
+
+/** solve the longitudinal and lateral track constraints, called once per velocity iteration, returns true if an impulse was applied */
+export function solveLongitudinalAndLateralConstraints(
+    controller: TrackedVehicleController,
+    vehicle: VehicleConstraint,
+    bodies: Bodies,
+    _deltaTime: number,
+): boolean {
+    const wheels = vehicle.wheels as TrackedVehicleWheel[];
+    const vehicleBody = bodies.pool[vehicle.bodyIndexA];
+    let impulse = false;
+
+    for (const track of controller.tracks) {
+        const drivenWheelRadius = wheels[track.drivenWheel].radius;
+
+        for (const wheelIndex of track.wheels) {
+            const w = wheels[wheelIndex];
+            if (!wheel.hasContact(w)) continue;
+
+            const contactBody = bodies.pool[w.contactBodyIndex];
+
+            // calculate max impulse that the track can apply on the ground
+            const maxLongitudinalFrictionImpulse = w.combinedLongitudinalFriction * wheel.getSuspensionLambda(w);
+
+            // calculate relative velocity between wheel contact point and floor in longitudinal direction
+            const relativeVelocity = rigidBody.getVelocityAtPoint(_solve_relativeVelocity, vehicleBody, w.contactPosition);
+            vec3.subtract(relativeVelocity, relativeVelocity, w.contactPointVelocity);
+            const relativeLongitudinalVelocity = vec3.dot(relativeVelocity, w.contactLongitudinal);
+
+            if (w.brakeImpulse !== 0) {
+                // limit brake force by max track friction
+                const brakeImpulse = Math.min(w.brakeImpulse, maxLongitudinalFrictionImpulse);
+
+                // apply the brakes against the direction of travel, never accelerate the vehicle.
+                // once the track is locked we assume the brakes keep it locked, so the track rotation is not updated
+                if (relativeLongitudinalVelocity >= 0) {
+                    impulse = wheel.solveLongitudinalConstraintPart(w, vehicleBody, contactBody, -brakeImpulse, 0) || impulse;
+                } else {
+                    impulse = wheel.solveLongitudinalConstraintPart(w, vehicleBody, contactBody, 0, brakeImpulse) || impulse;
+                }
+            } else {
+                // apply the linear impulse that makes the velocity difference between track and ground zero in one step
+                const desiredAngularVelocity = relativeLongitudinalVelocity / drivenWheelRadius;
+                const linearImpulse = ((track.angularVelocity - desiredAngularVelocity) * track.inertia) / drivenWheelRadius;
+
+                // limit the impulse by max track friction
+                const prevLambda = w.longitudinalPart.totalLambda;
+                const lambda = Math.min(
+                    Math.max(prevLambda + linearImpulse, -maxLongitudinalFrictionImpulse),
+                    maxLongitudinalFrictionImpulse,
+                );
+                impulse = wheel.solveLongitudinalConstraintPart(w, vehicleBody, contactBody, lambda, lambda) || impulse;
+
+                // update the angular velocity of the track according to the lambda that was applied
+                track.angularVelocity -= ((w.longitudinalPart.totalLambda - prevLambda) * drivenWheelRadius) / track.inertia;
+                synchronizeWheels(track, wheels);
+            }
+        }
+    }
+
+    for (const w of wheels) {
+        if (!wheel.hasContact(w)) continue;
+
+        // lateral friction
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        const maxLateralImpulse = w.combinedLateralFriction * wheel.getSuspensionLambda(w);
+        impulse = wheel.solveLateralConstraintPart(w, vehicleBody, contactBody, -maxLateralImpulse, maxLateralImpulse) || impulse;
+    }
+
+    return impulse;
+}
+
+/** whether the controller allows the vehicle to go to sleep */
+export function allowSleep(controller: TrackedVehicleController): boolean {
+    return (
+        controller.forwardInput === 0 &&
+        vehicleTransmission.allowSleep(controller.transmission) &&
+        vehicleEngine.allowSleep(controller.engine)
+    );
+}
+
+/** save the controller state for world state snapshots */
+export function saveState(controller: TrackedVehicleController, vehicle: VehicleConstraint, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, controller.forwardInput);
+    stateRecorder.writeFloat64(recorder, controller.leftRatio);
+    stateRecorder.writeFloat64(recorder, controller.rightRatio);
+    stateRecorder.writeFloat64(recorder, controller.leftBrakeInput);
+    stateRecorder.writeFloat64(recorder, controller.rightBrakeInput);
+    vehicleEngine.saveState(controller.engine, recorder);
+    vehicleTransmission.saveState(controller.transmission, recorder);
+
+    for (const track of controller.tracks) {
+        stateRecorder.writeFloat64(recorder, track.angularVelocity);
+    }
+
+    for (const w of vehicle.wheels as TrackedVehicleWheel[]) {
+        stateRecorder.writeFloat64(recorder, w.combinedLongitudinalFriction);
+        stateRecorder.writeFloat64(recorder, w.combinedLateralFriction);
+        stateRecorder.writeFloat64(recorder, w.brakeImpulse);
+    }
+}
+
+/** restore the controller state written by saveState */
+export function restoreState(controller: TrackedVehicleController, vehicle: VehicleConstraint, recorder: StateRecorder): void {
+    controller.forwardInput = stateRecorder.readFloat64(recorder);
+    controller.leftRatio = stateRecorder.readFloat64(recorder);
+    controller.rightRatio = stateRecorder.readFloat64(recorder);
+    controller.leftBrakeInput = stateRecorder.readFloat64(recorder);
+    controller.rightBrakeInput = stateRecorder.readFloat64(recorder);
+    vehicleEngine.restoreState(controller.engine, recorder);
+    vehicleTransmission.restoreState(controller.transmission, recorder);
+
+    for (const track of controller.tracks) {
+        track.angularVelocity = stateRecorder.readFloat64(recorder);
+    }
+
+    for (const w of vehicle.wheels as TrackedVehicleWheel[]) {
+        w.combinedLongitudinalFriction = stateRecorder.readFloat64(recorder);
+        w.combinedLateralFriction = stateRecorder.readFloat64(recorder);
+        w.brakeImpulse = stateRecorder.readFloat64(recorder);
+    }
+}
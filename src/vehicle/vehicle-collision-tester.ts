@@ -0,0 +1,282 @@
+import type { Vec3 } from 'mathcat';
+import { quat, vec3 } from 'mathcat';
+import { getBodyIdIndex, INVALID_BODY_ID } from '../body/body-id';
+import type { RigidBody } from '../body/rigid-body';
+import * as rigidBody from '../body/rigid-body';
+import { EMPTY_SUB_SHAPE_ID } from '../body/sub-shape';
+import { type CastRayHit, createDefaultCastRaySettings } from '../collision/cast-ray-vs-shape';
+import { type CastShapeHit, createDefaultCastShapeSettings } from '../collision/cast-shape-vs-shape';
+import { INITIAL_EARLY_OUT_FRACTION } from '../collision/cast-utils';
+import * as filter from '../filter';
+import * as query from '../query';
+import type { SphereShape } from '../shapes/sphere';
+import * as sphere from '../shapes/sphere';
+import type { World } from '../world';
+import type { Wheel } from './wheel';
+
+/** how vehicle wheels detect the ground */
+export enum VehicleCollisionTesterType {
+    /** cast a ray along the suspension direction, cheap but wheels can fall through small gaps and hit edges late */
+    RAY = 0,
+    /** cast a sphere along the suspension direction, more robust on uneven terrain */
+    CAST_SPHERE = 1,
+}
+
+/** settings for the vehicle collision tester */
+export type VehicleCollisionTesterSettings = {
+    /** how wheels detect the ground @default VehicleCollisionTesterType.RAY */
+    type?: VehicleCollisionTesterType;
+    /** object layer to test collision with, defaults to the object layer and collision group / mask of the vehicle body */
+    objectLayer?: number;
+    /** world space up vector, used to avoid colliding with vertical walls @default [0, 1, 0] */
+    up?: Vec3;
+    /** max angle (rad) of a surface relative to up that is considered ground @default 80 degrees */
+    maxSlopeAngle?: number;
+    /** radius of the sphere that is cast, only used by CAST_SPHERE @default 0.3 */
+    radius?: number;
+};
+
+/** vehicle collision tester */
+export type VehicleCollisionTester = {
+    /** how wheels detect the ground */
+    type: VehicleCollisionTesterType;
+    /** object layer to test collision with, -1 to use the object layer of the vehicle body */
+    objectLayer: number;
+    /** world space up vector, used to avoid colliding with vertical walls */
+    up: Vec3;
+    /** cos of the max angle of a surface relative to up that is considered ground */
+    cosMaxSlopeAngle: number;
+    /** radius of the sphere that is cast, only used by CAST_SPHERE */
+    radius: number;
+    /** sphere that is cast, only used by CAST_SPHERE */
+    shape: SphereShape | null;
+};
+
+/** create a vehicle collision tester */
+export function create(settings: VehicleCollisionTesterSettings = {}): VehicleCollisionTester {
+    const type = settings.type ?? VehicleCollisionTesterType.RAY;
+    const radius = settings.radius ?? 0.3;
+
+    return {
+        type,
+        objectLayer: settings.objectLayer ?? -1,
+        up: settings.up ? vec3.normalize(vec3.create(), settings.up) : vec3.fromValues(0, 1, 0),
+        cosMaxSlopeAngle: Math.cos(settings.maxSlopeAngle ?? (80 * Math.PI) / 180),
+        radius,
+        shape: type === VehicleCollisionTesterType.CAST_SPHERE ? sphere.create({ radius }) : null,
+    };
+}
+
+const ignoreVehicleBodyFilterState = {
+    bodyId: INVALID_BODY_ID,
+};
+
+/** body filter function that ignores the vehicle body */
+function ignoreVehicleBodyFilter(body: RigidBody): boolean {
+    return body.id !== ignoreVehicleBodyFilterState.bodyId;
+}
+
+/** finds the closest hit that is not a sensor and not too steep */
+const wheelCastRayCollector = {
+    bodyIdB: -1,
+    earlyOutFraction: INITIAL_EARLY_OUT_FRACTION,
+    world: null! as World,
+    origin: vec3.create(),
+    direction: vec3.create(),
+    length: 0,
+    up: vec3.create(),
+    cosMaxSlopeAngle: 0,
+    body: null as RigidBody | null,
+    subShapeId: EMPTY_SUB_SHAPE_ID,
+    position: vec3.create(),
+    normal: vec3.create(),
+    _position: vec3.create(),
+    _normal: vec3.create(),
+    addHit(hit: CastRayHit): void {
+        // test if this collision is closer than the previous one
+        if (hit.fraction >= this.earlyOutFraction) return;
+
+        const body = this.world.bodies.pool[getBodyIdIndex(hit.bodyIdB)];
+        if (body.sensor) return;
+
+        // test that we're not hitting a vertical wall
+        vec3.scaleAndAdd(this._position, this.origin, this.direction, hit.fraction * this.length);
+        rigidBody.getSurfaceNormal(this._normal, body, this._position, hit.subShapeId);
+        if (vec3.dot(this._normal, this.up) <= this.cosMaxSlopeAngle) return;
+
+        this.earlyOutFraction = hit.fraction;
+        this.body = body;
+        this.subShapeId = hit.subShapeId;
+        vec3.copy(this.position, this._position);
+        vec3.copy(this.normal, this._normal);
+    },
+    addMiss(): void {
+        // no-op
+    },
+    shouldEarlyOut(): boolean {
+        return false;
+    },
+    reset(): void {
+        this.bodyIdB = -1;
+        this.earlyOutFraction = INITIAL_EARLY_OUT_FRACTION;
+        this.world = null!;
+        this.body = null;
+        this.subShapeId = EMPTY_SUB_SHAPE_ID;
+    },
+};
+
+/** finds the closest hit that is not a sensor and not too steep */
+const wheelCastShapeCollector = {
+    bodyIdB: -1,
+    earlyOutFraction: INITIAL_EARLY_OUT_FRACTION,
+    world: null! as World,
+    up: vec3.create(),
+    cosMaxSlopeAngle: 0,
+    body: null as RigidBody | null,
+    subShapeId: EMPTY_SUB_SHAPE_ID,
+    fraction: 0,
+    position: vec3.create(),
+    normal: vec3.create(),
+    addHit(hit: CastShapeHit): void {
+        // test if this collision is closer than the previous one
+        if (hit.fraction >= this.earlyOutFraction) return;
+
+        const body = this.world.bodies.pool[getBodyIdIndex(hit.bodyIdB)];
+        if (body.sensor) return;
+
+        // test that we're not hitting a vertical wall
+        if (vec3.dot(hit.normal, this.up) <= this.cosMaxSlopeAngle) return;
+
+        this.earlyOutFraction = hit.fraction;
+        this.body = body;
+        this.subShapeId = hit.subShapeIdB;
+        this.fraction = hit.fraction;
+        vec3.copy(this.position, hit.pointB);
+        vec3.copy(this.normal, hit.normal);
+    },
+    addMiss(): void {
+        // no-op
+    },
+    shouldEarlyOut(): boolean {
+        return false;
+    },
+    reset(): void {
+        this.bodyIdB = -1;
+        this.earlyOutFraction = INITIAL_EARLY_OUT_FRACTION;
+        this.world = null!;
+        this.body = null;
+        this.subShapeId = EMPTY_SUB_SHAPE_ID;
+        this.fraction = 0;
+    },
+};
+
+const _collide_filter = /* @__PURE__ */ filter.createEmpty();
+const _collide_castRaySettings = /* @__PURE__ */ createDefaultCastRaySettings();
+const _collide_castShapeSettings = /* @__PURE__ */ (() => {
+    const settings = createDefaultCastShapeSettings();
+    settings.returnDeepestPoint = true;
+    settings.useShrunkenShapeAndConvexRadius = true;
+    return settings;
+})();
+const _collide_displacement = /* @__PURE__ */ vec3.create();
+const _collide_quaternion = /* @__PURE__ */ quat.create();
+const _collide_scale = /* @__PURE__ */ vec3.fromValues(1, 1, 1);
+
+/**
+ * Find the ground below a wheel.
+ * On a hit the contact body, sub shape, position, normal and suspension length of the wheel are updated, on a miss they are left untouched.
+ * @param origin suspension attachment point in world space
+ * @param direction suspension direction in world space
+ * @returns true if the wheel touches the ground
+ */
+export function collide(
+    world: World,
+    tester: VehicleCollisionTester,
+    vehicleBody: RigidBody,
+    wheel: Wheel,
+    origin: Vec3,
+    direction: Vec3,
+): boolean {
+    // setup filter, ignoring the vehicle body
+    const queryFilter = _collide_filter;
+    if (tester.objectLayer >= 0) {
+        filter.setFromObjectLayer(queryFilter, world.settings.layers, tester.objectLayer);
+    } else {
+        filter.setFromBody(queryFilter, world.settings.layers, vehicleBody);
+    }
+    queryFilter.bodyFilter = ignoreVehicleBodyFilter;
+    ignoreVehicleBodyFilterState.bodyId = vehicleBody.id;
+
+    let hit = false;
+
+    if (tester.type === VehicleCollisionTesterType.CAST_SPHERE) {
+        // cast the sphere from the attachment point, the sphere touches the ground when the wheel does
+        const castLength = Math.max(0, wheel.suspensionMaxLength + wheel.radius - tester.radius);
+        vec3.scale(_collide_displacement, direction, castLength);
+
+        const collector = wheelCastShapeCollector;
+        collector.reset();
+        collector.world = world;
+        vec3.copy(collector.up, tester.up);
+        collector.cosMaxSlopeAngle = tester.cosMaxSlopeAngle;
+
+        query.castShape(
+            world,
+            collector,
+            _collide_castShapeSettings,
+            tester.shape!,
+            origin,
+            _collide_quaternion,
+            _collide_scale,
+            _collide_displacement,
+            queryFilter,
+        );
+
+        if (collector.body) {
+            wheel.contactBodyId = collector.body.id;
+            wheel.contactBodyIndex = collector.body.index;
+            wheel.contactSubShapeId = collector.subShapeId;
+            vec3.copy(wheel.contactPosition, collector.position);
+            vec3.copy(wheel.contactNormal, collector.normal);
+            wheel.suspensionLength = Math.min(
+                Math.max(castLength * collector.fraction + tester.radius - wheel.radius, 0),
+                wheel.suspensionMaxLength,
+            );
+            hit = true;
+        }
+
+        collector.reset();
+    } else {
+        // cast a ray to the bottom of the wheel at max droop
+        const rayLength = wheel.suspensionMaxLength + wheel.radius;
+
+        const collector = wheelCastRayCollector;
+        collector.reset();
+        collector.world = world;
+        vec3.copy(collector.origin, origin);
+        vec3.copy(collector.direction, direction);
+        collector.length = rayLength;
+        vec3.copy(collector.up, tester.up);
+        collector.cosMaxSlopeAngle = tester.cosMaxSlopeAngle;
+
+        query.castRay(world, collector, _collide_castRaySettings, origin, direction, rayLength, queryFilter);
+
+        if (collector.body) {
+            wheel.contactBodyId = collector.body.id;
+            wheel.contactBodyIndex = collector.body.index;
+            wheel.contactSubShapeId = collector.subShapeId;
+            vec3.copy(wheel.contactPosition, collector.position);
+            vec3.copy(wheel.contactNormal, collector.normal);
+            wheel.suspensionLength = Math.max(0, rayLength * collector.earlyOutFraction - wheel.radius);
+            hit = true;
+        }
+
+        collector.reset();
+    }
+
+    // restore filter state
+    queryFilter.bodyFilter = undefined;
+    ignoreVehicleBodyFilterState.bodyId = INVALID_BODY_ID;
+
+    return hit;
+}
@@ -0,0 +1,1063 @@
+import type { Mat4, Vec3 } from 'mathcat';
+import { mat4, quat, vec3 } from 'mathcat';
+import type { Bodies } from '../body/bodies';
+import { type BodyId, getBodyIdIndex, INVALID_BODY_ID } from '../body/body-id';
+import { getInverseInertiaForRotation } from '../body/motion-properties';
+import { MotionType } from '../body/motion-type';
+import type { RigidBody } from '../body/rigid-body';
+import * as rigidBody from '../body/rigid-body';
+import { INACTIVE_BODY_INDEX, resetSleepTimer } from '../body/sleep';
+import { EMPTY_SUB_SHAPE_ID } from '../body/sub-shape';
+import {
+    type ConstraintId,
+    ConstraintType,
+    getConstraintIdIndex,
+    getConstraintIdSequence,
+    INVALID_CONSTRAINT_ID,
+    SEQUENCE_MASK,
+    serConstraintId,
+} from '../constraints/constraint-id';
+import type { AngleConstraintPart } from '../constraints/constraint-part/angle-constraint-part';
+import * as angleConstraintPart from '../constraints/constraint-part/angle-constraint-part';
+import * as axisConstraintPart from '../constraints/constraint-part/axis-constraint-part';
+import {
+    type ConstraintBase,
+    type ConstraintImpulses,
+    type ConstraintTotalLambda,
+    type ConstraintPool,
+    defineConstraint,
+    ensurePool,
+    makeConstraintBase,
+    removeConstraintIdFromBody,
+    zeroConstraintImpulses,
+} from '../constraints/constraints';
+import type { Islands } from '../islands';
+import * as islands from '../islands';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { World } from '../world';
+import type { VehicleCollisionTester, VehicleCollisionTesterSettings } from './vehicle-collision-tester';
+import * as vehicleCollisionTester from './vehicle-collision-tester';
+import {
+    type VehicleController,
+    type VehicleControllerSettings,
+    VehicleControllerType,
+    type VehicleWheel,
+    type VehicleWheelSettings,
+} from './vehicle-controller';
+import type { TrackedVehicleWheelSettings } from './tracked-vehicle-controller';
+import * as trackedVehicleController from './tracked-vehicle-controller';
+import * as wheel from './wheel';
+import type { WheeledVehicleWheelSettings } from './wheeled-vehicle-controller';
+import * as wheeledVehicleController from './wheeled-vehicle-controller';
+
+/** settings for an anti-roll bar, which pushes the suspension of a left and right wheel towards the same length */
+export type VehicleAntiRollBarSettings = {
+    /** index (in the vehicle wheels) of the left wheel @default 0 */
+    leftWheel?: number;
+    /** index (in the vehicle wheels) of the right wheel @default 1 */
+    rightWheel?: number;
+    /** stiffness (spring constant in N/m) of the anti-roll bar, can be 0 to disable the anti-roll bar @default 1000 */
+    stiffness?: number;
+};
+
+/** anti-roll bar, pushes the suspension of a left and right wheel towards the same length */
+export type VehicleAntiRollBar = {
+    /** index (in the vehicle wheels) of the left wheel */
+    leftWheel: number;
+    /** index (in the vehicle wheels) of the right wheel */
+    rightWheel: number;
+    /** stiffness (spring constant in N/m) of the anti-roll bar */
+    stiffness: number;
+};
+
+/**
+ * vehicle constraint, simulates the wheels of a vehicle body.
+ * wheels find the ground with ray or shape casts each step, and push the vehicle up with suspension springs.
+ * tire friction and propulsion are solved by the vehicle controller.
+ */
+export type VehicleConstraint = ConstraintBase & {
+    /** vector indicating the up direction of the vehicle in local space of the body */
+    up: Vec3;
+    /** vector indicating the forward direction of the vehicle in local space of the body */
+    forward: Vec3;
+    /** current up direction of the world, opposite of gravity */
+    worldUp: Vec3;
+    /** cos of the max pitch / roll angle, -1 when there is no limit */
+    cosMaxPitchRollAngle: number;
+    /** cos of the current pitch / roll angle */
+    cosPitchRollAngle: number;
+    /** current axis along which to apply torque to prevent the vehicle from toppling over */
+    pitchRollRotationAxis: Vec3;
+    /** constraint part that prevents the vehicle from toppling over */
+    pitchRollPart: AngleConstraintPart;
+    /** the wheels of the vehicle */
+    wheels: VehicleWheel[];
+    /** the anti-roll bars of the vehicle */
+    antiRollBars: VehicleAntiRollBar[];
+    /** controller that drives the wheels */
+    controller: VehicleController;
+    /** how the wheels detect the ground */
+    collisionTester: VehicleCollisionTester;
+};
+
+/** stand-in for a static body, used to constrain the vehicle rotation relative to the world */
+const FIXED_TO_WORLD = { motionType: MotionType.STATIC } as RigidBody;
+
+/** creates default vehicle constraint */
+function makeVehicleConstraint(): VehicleConstraint {
+    return {
+        ...makeConstraintBase(),
+        up: vec3.fromValues(0, 1, 0),
+        forward: vec3.fromValues(0, 0, 1),
+        worldUp: vec3.fromValues(0, 1, 0),
+        cosMaxPitchRollAngle: -1,
+        cosPitchRollAngle: 1,
+        pitchRollRotationAxis: vec3.fromValues(0, 1, 0),
+        pitchRollPart: angleConstraintPart.create(),
+        wheels: [],
+        antiRollBars: [],
+        controller: wheeledVehicleController.create({ type: VehicleControllerType.WHEELED }),
+        collisionTester: vehicleCollisionTester.create(),
+    };
+}
+
+/** reset constraint state for pooling reuse */
+function resetConstraint(constraint: VehicleConstraint): void {
+    constraint.enabled = true;
+    constraint._sleeping = false;
+    constraint._pooled = false;
+    angleConstraintPart.deactivate(constraint.pitchRollPart);
+}
+
+/** settings for creating a vehicle constraint */
+export type VehicleConstraintSettings = {
+    /** id of the vehicle body, must be a dynamic body */
+    bodyId: BodyId;
+    /** vector indicating the up direction of the vehicle in local space of the body @default [0, 1, 0] */
+    up?: Vec3;
+    /** vector indicating the forward direction of the vehicle in local space of the body @default [0, 0, 1] */
+    forward?: Vec3;
+    /** max pitch / roll angle (rad), can be used to avoid the car from getting upside down, the vehicle up direction stays within a cone around the world up @default Math.PI */
+    maxPitchRollAngle?: number;
+    /** the wheels, the type of wheel settings depends on the controller */
+    wheels: VehicleWheelSettings[];
+    /** the anti-roll bars @default [] */
+    antiRollBars?: VehicleAntiRollBarSettings[];
+    /** the controller that drives the wheels */
+    controller: VehicleControllerSettings;
+    /** how the wheels detect the ground @default ray casts */
+    collisionTester?: VehicleCollisionTesterSettings;
+    /** constraint priority (higher = solved first) @default 0 */
+    constraintPriority?: number;
+    /** override number of velocity solver iterations (0 = use default) @default 0 */
+    numVelocityStepsOverride?: number;
+    /** override number of position solver iterations (0 = use default) @default 0 */
+    numPositionStepsOverride?: number;
+    /** force the wheels can apply to the vehicle body before the constraint breaks, see ConstraintBase.breakForce @default Infinity */
+    breakForce?: number;
+    /** torque of the pitch / roll limit at which the constraint breaks, see ConstraintBase.breakTorque @default Infinity */
+    breakTorque?: number;
+};
+
+/** create a vehicle constraint */
+export function create(world: World, settings: VehicleConstraintSettings): VehicleConstraint {
+    for (const antiRollBar of settings.antiRollBars ?? []) {
+        if (!settings.wheels[antiRollBar.leftWheel ?? 0] || !settings.wheels[antiRollBar.rightWheel ?? 1]) {
+            throw new Error('Invalid anti-roll bar wheel index');
+        }
+    }
+    if (settings.controller.type === VehicleControllerType.TRACKED) {
+        trackedVehicleController.validateSettings(settings.controller, settings.wheels.length);
+    }
+
+    const pool = ensurePool<VehicleConstraint>(world.constraints, ConstraintType.VEHICLE);
+    const bodies = world.bodies;
+
+    // get next sequence
+    const sequence = pool.nextSequence;
+    pool.nextSequence = (pool.nextSequence + 1) & SEQUENCE_MASK;
+
+    // get constraint from pool
+    let index: number;
+    let constraint: VehicleConstraint;
+    if (pool.freeIndices.length > 0) {
+        // reuse existing pooled constraint
+        index = pool.freeIndices.pop()!;
+        constraint = pool.constraints[index];
+    } else {
+        // expand array
+        index = pool.constraints.length;
+        constraint = makeVehicleConstraint();
+        pool.constraints.push(constraint);
+    }
+
+    // reset pooled state
+    resetConstraint(constraint);
+
+    // set constraint id, index, sequence
+    constraint.id = serConstraintId(index, ConstraintType.VEHICLE, sequence);
+    constraint.index = index;
+    constraint.sequence = sequence;
+
+    // set base constraint properties
+    constraint.constraintPriority = settings.constraintPriority ?? 0;
+    constraint.numVelocityStepsOverride = settings.numVelocityStepsOverride ?? 0;
+    constraint.numPositionStepsOverride = settings.numPositionStepsOverride ?? 0;
+    constraint.breakForce = settings.breakForce ?? Infinity;
+    constraint.breakTorque = settings.breakTorque ?? Infinity;
+
+    // the vehicle constraint acts on a single body, contact bodies are found each step
+    constraint.bodyIndexA = getBodyIdIndex(settings.bodyId);
+    constraint.bodyIndexB = constraint.bodyIndexA;
+
+    // vehicle settings
+    if (settings.up) {
+        vec3.normalize(constraint.up, settings.up);
+    } else {
+        vec3.set(constraint.up, 0, 1, 0);
+    }
+    if (settings.forward) {
+        vec3.normalize(constraint.forward, settings.forward);
+    } else {
+        vec3.set(constraint.forward, 0, 0, 1);
+    }
+    vec3.copy(constraint.worldUp, constraint.up);
+    constraint.cosMaxPitchRollAngle = Math.cos(settings.maxPitchRollAngle ?? Math.PI);
+    constraint.cosPitchRollAngle = 1;
+    vec3.set(constraint.pitchRollRotationAxis, 0, 1, 0);
+
+    // controller and wheels
+    switch (settings.controller.type) {
+        case VehicleControllerType.WHEELED:
+            constraint.controller = wheeledVehicleController.create(settings.controller);
+            constraint.wheels = (settings.wheels as WheeledVehicleWheelSettings[]).map((wheelSettings) =>
+                wheeledVehicleController.createWheel(wheelSettings),
+            );
+            break;
+        case VehicleControllerType.TRACKED: {
+            const controller = trackedVehicleController.create(settings.controller);
+            const wheels = (settings.wheels as TrackedVehicleWheelSettings[]).map((wheelSettings) =>
+                trackedVehicleController.createWheel(wheelSettings),
+            );
+            trackedVehicleController.assignWheelsToTracks(controller, wheels);
+            constraint.controller = controller;
+            constraint.wheels = wheels;
+            break;
+        }
+    }
+
+    // anti-roll bars
+    constraint.antiRollBars = (settings.antiRollBars ?? []).map((antiRollBar) => ({
+        leftWheel: antiRollBar.leftWheel ?? 0,
+        rightWheel: antiRollBar.rightWheel ?? 1,
+        stiffness: antiRollBar.stiffness ?? 1000,
+    }));
+
+    constraint.collisionTester = vehicleCollisionTester.create(settings.collisionTester);
+
+    // track constraint on the vehicle body
+    const body = bodies.pool[constraint.bodyIndexA];
+    body.constraintIds.push(constraint.id);
+
+    return constraint;
+}
+
+/** remove a vehicle constraint */
+export function remove(world: World, constraint: VehicleConstraint): void {
+    const pool = ensurePool<VehicleConstraint>(world.constraints, ConstraintType.VEHICLE);
+    const bodies = world.bodies;
+
+    // remove from the vehicle body's constraintIds array
+    const body = bodies.pool[constraint.bodyIndexA];
+    if (body && !body._pooled) {
+        removeConstraintIdFromBody(body, constraint.id);
+    }
+
+    // reset constraint state for pooling reuse
+    resetConstraint(constraint);
+
+    constraint._pooled = true;
+    constraint.id = INVALID_CONSTRAINT_ID;
+    pool.freeIndices.push(constraint.index);
+}
+
+/** get vehicle constraint by id */
+export function get(world: World, id: ConstraintId): VehicleConstraint | undefined {
+    const pool = world.constraints.pools[ConstraintType.VEHICLE] as ConstraintPool<VehicleConstraint> | undefined;
+    if (!pool) return undefined;
+    const index = getConstraintIdIndex(id);
+    const constraint = pool.constraints[index];
+    if (!constraint || constraint._pooled || constraint.sequence !== getConstraintIdSequence(id)) {
+        return undefined;
+    }
+    return constraint;
+}
+
+/** result type for getWheelLocalBasis */
+export type WheelLocalBasis = {
+    /** forward direction of the wheel */
+    forward: Vec3;
+    /** up direction of the wheel */
+    up: Vec3;
+    /** right direction of the wheel */
+    right: Vec3;
+};
+
+/** create a wheel local basis result object */
+export function createWheelLocalBasis(): WheelLocalBasis {
+    return { forward: vec3.create(), up: vec3.create(), right: vec3.create() };
+}
+
+const _getWheelLocalBasis_steerRotation = /* @__PURE__ */ quat.create();
+
+/** get the basis of a wheel in local space of the vehicle body, taking the steering angle into account */
+export function getWheelLocalBasis(out: WheelLocalBasis, w: VehicleWheel): WheelLocalBasis {
+    const steerRotation = quat.setAxisAngle(_getWheelLocalBasis_steerRotation, w.steeringAxis, w.steerAngle);
+    vec3.transformQuat(out.up, w.wheelUp, steerRotation);
+    vec3.transformQuat(out.forward, w.wheelForward, steerRotation);
+    vec3.normalize(out.right, vec3.cross(out.right, out.forward, out.up));
+    vec3.normalize(out.forward, vec3.cross(out.forward, out.up, out.right));
+    return out;
+}
+
+const _getWheelLocalTransform_basis = /* @__PURE__ */ createWheelLocalBasis();
+const _getWheelLocalTransform_wheelToRotational = /* @__PURE__ */ mat4.create();
+const _getWheelLocalTransform_rotation = /* @__PURE__ */ mat4.create();
+const _getWheelLocalTransform_forward = /* @__PURE__ */ vec3.create();
+
+/**
+ * Get the transform of a wheel in local space of the vehicle body, including suspension length, steering and wheel rotation
+ * @param wheelRight unit vector that indicates right in the space of the wheel model
+ * @param wheelUp unit vector that indicates up in the space of the wheel model
+ */
+export function getWheelLocalTransform(
+    out: Mat4,
+    vehicle: VehicleConstraint,
+    wheelIndex: number,
+    wheelRight: Vec3,
+    wheelUp: Vec3,
+): Mat4 {
+    const w = vehicle.wheels[wheelIndex];
+
+    // matrix that takes us from wheel model space to x = right, y = up, z = forward
+    const wheelForward = vec3.cross(_getWheelLocalTransform_forward, wheelUp, wheelRight);
+    const wheelToRotational = _getWheelLocalTransform_wheelToRotational;
+    mat4.set(
+        wheelToRotational,
+        wheelRight[0],
+        wheelUp[0],
+        wheelForward[0],
+        0,
+        wheelRight[1],
+        wheelUp[1],
+        wheelForward[1],
+        0,
+        wheelRight[2],
+        wheelUp[2],
+        wheelForward[2],
+        0,
+        0,
+        0,
+        0,
+        1,
+    );
+
+    // matrix that takes us from the rotational space to vehicle local space
+    const basis = getWheelLocalBasis(_getWheelLocalTransform_basis, w);
+    mat4.set(
+        out,
+        basis.right[0],
+        basis.right[1],
+        basis.right[2],
+        0,
+        basis.up[0],
+        basis.up[1],
+        basis.up[2],
+        0,
+        basis.forward[0],
+        basis.forward[1],
+        basis.forward[2],
+        0,
+        w.position[0] + w.suspensionDirection[0] * w.suspensionLength,
+        w.position[1] + w.suspensionDirection[1] * w.suspensionLength,
+        w.position[2] + w.suspensionDirection[2] * w.suspensionLength,
+        1,
+    );
+
+    // rotate the wheel around its axle
+    mat4.multiply(out, out, mat4.fromXRotation(_getWheelLocalTransform_rotation, w.angle));
+    return mat4.multiply(out, out, wheelToRotational);
+}
+
+const _getWheelWorldTransform_bodyTransform = /* @__PURE__ */ mat4.create();
+
+/**
+ * Get the transform of a wheel in world space, including suspension length, steering and wheel rotation
+ * @param wheelRight unit vector that indicates right in the space of the wheel model
+ * @param wheelUp unit vector that indicates up in the space of the wheel model
+ */
+export function getWheelWorldTransform(
+    out: Mat4,
+    world: World,
+    vehicle: VehicleConstraint,
+    wheelIndex: number,
+    wheelRight: Vec3,
+    wheelUp: Vec3,
+): Mat4 {
+    const body = world.bodies.pool[vehicle.bodyIndexA];
+    const bodyTransform = mat4.fromRotationTranslation(_getWheelWorldTransform_bodyTransform, body.quaternion, body.position);
+    getWheelLocalTransform(out, vehicle, wheelIndex, wheelRight, wheelUp);
+    return mat4.multiply(out, bodyTransform, out);
+}
+
+/** calls the pre collide step of the controller */
+function controllerPreCollide(vehicle: VehicleConstraint, deltaTime: number): void {
+    switch (vehicle.controller.type) {
+        case VehicleControllerType.WHEELED:
+            wheeledVehicleController.preCollide(vehicle.controller, vehicle, deltaTime);
+            break;
+        case VehicleControllerType.TRACKED:
+            trackedVehicleController.preCollide(vehicle.controller, vehicle, deltaTime);
+            break;
+    }
+}
+
+/** calls the post collide step of the controller */
+function controllerPostCollide(vehicle: VehicleConstraint, world: World, deltaTime: number): void {
+    switch (vehicle.controller.type) {
+        case VehicleControllerType.WHEELED:
+            wheeledVehicleController.postCollide(vehicle.controller, vehicle, world, deltaTime);
+            break;
+        case VehicleControllerType.TRACKED:
+            trackedVehicleController.postCollide(vehicle.controller, vehicle, world, deltaTime);
+            break;
+    }
+}
+
+/** checks if the controller allows the vehicle to go to sleep */
+function controllerAllowSleep(vehicle: VehicleConstraint): boolean {
+    switch (vehicle.controller.type) {
+        case VehicleControllerType.WHEELED:
+            return wheeledVehicleController.allowSleep(vehicle.controller);
+        case VehicleControllerType.TRACKED:
+            return trackedVehicleController.allowSleep(vehicle.controller);
+    }
+}
+
+/** solves the longitudinal and lateral tire constraints with the controller */
+function controllerSolveLongitudinalAndLateralConstraints(
+    vehicle: VehicleConstraint,
+    bodies: Bodies,
+    deltaTime: number,
+): boolean {
+    switch (vehicle.controller.type) {
+        case VehicleControllerType.WHEELED:
+            return wheeledVehicleController.solveLongitudinalAndLateralConstraints(
+                vehicle.controller,
+                vehicle,
+                bodies,
+                deltaTime,
+            );
+        case VehicleControllerType.TRACKED:
+            return trackedVehicleController.solveLongitudinalAndLateralConstraints(
+                vehicle.controller,
+                vehicle,
+                bodies,
+                deltaTime,
+            );
+    }
+}
+
+/** wheels rotating faster than this (rad/s) keep the vehicle awake */
+const MAX_SLEEP_WHEEL_ANGULAR_VELOCITY = (10 * Math.PI) / 180;
+
+const _preStep_origin = /* @__PURE__ */ vec3.create();
+const _preStep_direction = /* @__PURE__ */ vec3.create();
+const _preStep_basis = /* @__PURE__ */ createWheelLocalBasis();
+
+/** collide the wheels with the world and update the controller, runs at the start of each world update */
+function preStep(world: World, constraint: VehicleConstraint, deltaTime: number): void {
+    const bodies = world.bodies;
+    const body = bodies.pool[constraint.bodyIndexA];
+
+    // calculate world up vector by inverting gravity
+    const gravity = world.settings.gravity;
+    const gravityLength = vec3.length(gravity);
+    if (gravityLength > 0) {
+        vec3.scale(constraint.worldUp, gravity, -1 / gravityLength);
+    }
+
+    controllerPreCollide(constraint, deltaTime);
+
+    // a sleeping vehicle stays asleep unless the driver gives input or the ground it rests on moves
+    if (body.sleeping) {
+        let wake = !controllerAllowSleep(constraint);
+        for (const w of constraint.wheels) {
+            if (!wheel.hasContact(w)) continue;
+            const contactBody = bodies.pool[w.contactBodyIndex];
+            if (contactBody && !contactBody._pooled && contactBody.id === w.contactBodyId && !contactBody.sleeping) {
+                if (contactBody.motionType !== MotionType.STATIC) {
+                    wake = true;
+                }
+            }
+        }
+        if (!wake) return;
+        rigidBody.wake(world, body);
+    }
+
+    // test collision for wheels
+    for (const w of constraint.wheels) {
+        // calculate suspension origin and direction in world space
+        const origin = vec3.transformQuat(_preStep_origin, w.position, body.quaternion);
+        vec3.add(origin, origin, body.position);
+        const direction = vec3.transformQuat(_preStep_direction, w.suspensionDirection, body.quaternion);
+
+        // reset the contact data
+        w.contactBodyId = INVALID_BODY_ID;
+        w.contactBodyIndex = -1;
+        w.contactSubShapeId = EMPTY_SUB_SHAPE_ID;
+        w.suspensionLength = w.suspensionMaxLength;
+
+        if (!vehicleCollisionTester.collide(world, constraint.collisionTester, body, w, origin, direction)) continue;
+
+        const contactBody = bodies.pool[w.contactBodyIndex];
+
+        // store contact velocity
+        rigidBody.getVelocityAtPoint(w.contactPointVelocity, contactBody, w.contactPosition);
+
+        // determine plane constant for axle contact plane
+        vec3.scaleAndAdd(origin, origin, direction, w.suspensionLength);
+        w.axlePlaneConstant = vec3.dot(w.contactNormal, origin);
+
+        // the vehicle pushes on dynamic bodies it drives on, so they need to be awake
+        if (contactBody.motionType === MotionType.DYNAMIC && contactBody.sleeping) {
+            rigidBody.wake(world, contactBody);
+        }
+
+        // determine world space forward and right using steering angle and body rotation
+        const basis = getWheelLocalBasis(_preStep_basis, w);
+        vec3.transformQuat(basis.forward, basis.forward, body.quaternion);
+        vec3.transformQuat(basis.right, basis.right, body.quaternion);
+
+        // the longitudinal axis is in the up / forward plane, aligned with the forward axis
+        vec3.cross(w.contactLongitudinal, w.contactNormal, basis.right);
+        if (vec3.dot(w.contactLongitudinal, basis.forward) < 0) {
+            vec3.negate(w.contactLongitudinal, w.contactLongitudinal);
+        }
+        if (vec3.squaredLength(w.contactLongitudinal) > 1e-12) {
+            vec3.normalize(w.contactLongitudinal, w.contactLongitudinal);
+        } else {
+            vec3.normalize(w.contactLongitudinal, vec3.perpendicular(w.contactLongitudinal, w.contactNormal));
+        }
+
+        // the lateral axis is perpendicular to the contact normal and longitudinal axis
+        vec3.normalize(w.contactLateral, vec3.cross(w.contactLateral, w.contactLongitudinal, w.contactNormal));
+    }
+
+    // calculate anti-roll bar impulses
+    for (const antiRollBar of constraint.antiRollBars) {
+        const leftWheel = constraint.wheels[antiRollBar.leftWheel];
+        const rightWheel = constraint.wheels[antiRollBar.rightWheel];
+
+        if (wheel.hasContact(leftWheel) && wheel.hasContact(rightWheel)) {
+            // calculate the impulse to apply based on the difference in suspension length
+            const difference = rightWheel.suspensionLength - leftWheel.suspensionLength;
+            const impulse = difference * antiRollBar.stiffness * deltaTime;
+            leftWheel.antiRollBarImpulse = -impulse;
+            rightWheel.antiRollBarImpulse = impulse;
+        } else {
+            // when one of the wheels is not on the ground we don't apply any impulses
+            leftWheel.antiRollBarImpulse = 0;
+            rightWheel.antiRollBarImpulse = 0;
+        }
+    }
+
+    controllerPostCollide(constraint, world, deltaTime);
+
+    // if the wheels are rotating, we don't want to go to sleep yet
+    if (body.motionProperties.allowSleeping) {
+        let allowSleep = controllerAllowSleep(constraint);
+        if (allowSleep) {
+            for (const w of constraint.wheels) {
+                if (Math.abs(w.angularVelocity) > MAX_SLEEP_WHEEL_ANGULAR_VELOCITY) {
+                    allowSleep = false;
+                    break;
+                }
+            }
+        }
+        if (!allowSleep) {
+            resetSleepTimer(body);
+        }
+    }
+}
+
+/** link the bodies the wheels touch into the island of the vehicle */
+function linkIslands(state: Islands, bodies: Bodies, constraint: VehicleConstraint): void {
+    const body = bodies.pool[constraint.bodyIndexA];
+    if (body.activeIndex === INACTIVE_BODY_INDEX) return;
+
+    for (const w of constraint.wheels) {
+        if (!wheel.hasContact(w)) continue;
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        if (contactBody.activeIndex !== INACTIVE_BODY_INDEX) {
+            islands.linkBodies(state, bodies, body.activeIndex, contactBody.activeIndex);
+        }
+    }
+}
+
+const _vehicleConstraint_rotA = /* @__PURE__ */ mat4.create();
+const _vehicleConstraint_rotB = /* @__PURE__ */ mat4.create();
+const _vehicleConstraint_invInertiaA = /* @__PURE__ */ mat4.create();
+const _vehicleConstraint_invInertiaB = /* @__PURE__ */ mat4.create();
+const _vehicleConstraint_r1PlusU = /* @__PURE__ */ vec3.create();
+const _vehicleConstraint_r2 = /* @__PURE__ */ vec3.create();
+const _vehicleConstraint_axis = /* @__PURE__ */ vec3.create();
+const _vehicleConstraint_forcePoint = /* @__PURE__ */ vec3.create();
+const _vehicleConstraint_vehicleUp = /* @__PURE__ */ vec3.create();
+const _vehicleConstraint_position = /* @__PURE__ */ vec3.create();
+
+/** get the inverse mass and world space inverse inertia of a body, 0 for non-dynamic bodies */
+function getInverseMassAndInertia(outInvInertia: Mat4, outRotation: Mat4, body: RigidBody): number {
+    if (body.motionType !== MotionType.DYNAMIC) return 0;
+    mat4.fromQuat(outRotation, body.quaternion);
+    getInverseInertiaForRotation(outInvInertia, body.motionProperties, outRotation);
+    return body.motionProperties.invMass;
+}
+
+/** calculate the moment arms of the point where the suspension and tire forces are applied */
+function calculateSuspensionForcePoint(w: VehicleWheel, vehicleBody: RigidBody, contactBody: RigidBody): void {
+    // determine point to apply force to
+    const forcePoint = _vehicleConstraint_forcePoint;
+    if (w.enableSuspensionForcePoint) {
+        vec3.transformQuat(forcePoint, w.suspensionForcePoint, vehicleBody.quaternion);
+        vec3.add(forcePoint, forcePoint, vehicleBody.position);
+    } else {
+        vec3.copy(forcePoint, w.contactPosition);
+    }
+
+    vec3.subtract(_vehicleConstraint_r1PlusU, forcePoint, vehicleBody.centerOfMassPosition);
+    vec3.subtract(_vehicleConstraint_r2, forcePoint, contactBody.centerOfMassPosition);
+}
+
+/** calculate the properties of the pitch / roll constraint, deactivates it when the vehicle is within the allowed angle */
+function calculatePitchRollConstraintProperties(constraint: VehicleConstraint, vehicleBody: RigidBody): void {
+    if (constraint.cosMaxPitchRollAngle <= -1) {
+        angleConstraintPart.deactivate(constraint.pitchRollPart);
+        return;
+    }
+
+    // calculate cos of angle between world up vector and vehicle up vector
+    const vehicleUp = vec3.transformQuat(_vehicleConstraint_vehicleUp, constraint.up, vehicleBody.quaternion);
+    constraint.cosPitchRollAngle = vec3.dot(constraint.worldUp, vehicleUp);
+
+    if (constraint.cosPitchRollAngle >= constraint.cosMaxPitchRollAngle) {
+        angleConstraintPart.deactivate(constraint.pitchRollPart);
+        return;
+    }
+
+    // calculate rotation axis to rotate vehicle towards up
+    const rotationAxis = vec3.cross(_vehicleConstraint_axis, constraint.worldUp, vehicleUp);
+    const length = vec3.length(rotationAxis);
+    if (length > 0) {
+        vec3.scale(constraint.pitchRollRotationAxis, rotationAxis, 1 / length);
+    }
+
+    angleConstraintPart.calculateConstraintProperties(
+        constraint.pitchRollPart,
+        vehicleBody,
+        FIXED_TO_WORLD,
+        constraint.pitchRollRotationAxis,
+    );
+}
+
+function setupVelocity(constraint: VehicleConstraint, bodies: Bodies, deltaTime: number): void {
+    const vehicleBody = bodies.pool[constraint.bodyIndexA];
+    const invMassA = getInverseMassAndInertia(_vehicleConstraint_invInertiaA, _vehicleConstraint_rotA, vehicleBody);
+    const axis = _vehicleConstraint_axis;
+
+    for (const w of constraint.wheels) {
+        if (!wheel.hasContact(w)) {
+            // no contact, disable everything
+            axisConstraintPart.deactivate(w.suspensionPart);
+            axisConstraintPart.deactivate(w.suspensionMaxUpPart);
+            axisConstraintPart.deactivate(w.longitudinalPart);
+            axisConstraintPart.deactivate(w.lateralPart);
+            continue;
+        }
+
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        const invMassB = getInverseMassAndInertia(_vehicleConstraint_invInertiaB, _vehicleConstraint_rotB, contactBody);
+        calculateSuspensionForcePoint(w, vehicleBody, contactBody);
+        const r1PlusU = _vehicleConstraint_r1PlusU;
+        const r2 = _vehicleConstraint_r2;
+
+        vec3.negate(axis, w.contactNormal);
+
+        // suspension spring
+        if (w.suspensionMaxLength > w.suspensionMinLength) {
+            axisConstraintPart.calculateConstraintPropertiesWithSettings(
+                w.suspensionPart,
+                deltaTime,
+                vehicleBody,
+                contactBody,
+                invMassA,
+                invMassB,
+                _vehicleConstraint_invInertiaA,
+                _vehicleConstraint_invInertiaB,
+                r1PlusU,
+                r2,
+                axis,
+                w.antiRollBarImpulse,
+                w.suspensionLength - w.suspensionMaxLength - w.suspensionPreloadLength,
+                w.suspensionSpring,
+            );
+        } else {
+            axisConstraintPart.deactivate(w.suspensionPart);
+        }
+
+        // when the suspension reached its min length, add a hard constraint that stops further movement in the normal direction
+        if (w.suspensionLength < w.suspensionMinLength) {
+            axisConstraintPart.calculateConstraintProperties(
+                w.suspensionMaxUpPart,
+                vehicleBody,
+                contactBody,
+                invMassA,
+                invMassB,
+                _vehicleConstraint_invInertiaA,
+                _vehicleConstraint_invInertiaB,
+                r1PlusU,
+                r2,
+                axis,
+                0,
+            );
+        } else {
+            axisConstraintPart.deactivate(w.suspensionMaxUpPart);
+        }
+
+        // friction and propulsion
+        vec3.negate(axis, w.contactLongitudinal);
+        axisConstraintPart.calculateConstraintProperties(
+            w.longitudinalPart,
+            vehicleBody,
+            contactBody,
+            invMassA,
+            invMassB,
+            _vehicleConstraint_invInertiaA,
+            _vehicleConstraint_invInertiaB,
+            r1PlusU,
+            r2,
+            axis,
+            0,
+        );
+        vec3.negate(axis, w.contactLateral);
+        axisConstraintPart.calculateConstraintProperties(
+            w.lateralPart,
+            vehicleBody,
+            contactBody,
+            invMassA,
+            invMassB,
+            _vehicleConstraint_invInertiaA,
+            _vehicleConstraint_invInertiaB,
+            r1PlusU,
+            r2,
+            axis,
+            0,
+        );
+    }
+
+    calculatePitchRollConstraintProperties(constraint, vehicleBody);
+}
+
+function warmStartVelocity(constraint: VehicleConstraint, bodies: Bodies, warmStartImpulseRatio: number): void {
+    const vehicleBody = bodies.pool[constraint.bodyIndexA];
+    const invMassA = vehicleBody.motionType === MotionType.DYNAMIC ? vehicleBody.motionProperties.invMass : 0;
+    const axis = _vehicleConstraint_axis;
+
+    for (const w of constraint.wheels) {
+        if (!wheel.hasContact(w)) continue;
+
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        const invMassB = contactBody.motionType === MotionType.DYNAMIC ? contactBody.motionProperties.invMass : 0;
+
+        vec3.negate(axis, w.contactNormal);
+        axisConstraintPart.warmStart(w.suspensionPart, vehicleBody, contactBody, invMassA, invMassB, axis, warmStartImpulseRatio);
+        axisConstraintPart.warmStart(
+            w.suspensionMaxUpPart,
+            vehicleBody,
+            contactBody,
+            invMassA,
+            invMassB,
+            axis,
+            warmStartImpulseRatio,
+        );
+
+        // don't warm start the longitudinal part (engine / brake force), nothing should be preserved from the last step
+        vec3.negate(axis, w.contactLongitudinal);
+        axisConstraintPart.warmStart(w.longitudinalPart, vehicleBody, contactBody, invMassA, invMassB, axis, 0);
+
+        vec3.negate(axis, w.contactLateral);
+        axisConstraintPart.warmStart(w.lateralPart, vehicleBody, contactBody, invMassA, invMassB, axis, warmStartImpulseRatio);
+    }
+
+    angleConstraintPart.warmStart(constraint.pitchRollPart, vehicleBody, FIXED_TO_WORLD, warmStartImpulseRatio);
+}
+
+function solveVelocity(constraint: VehicleConstraint, bodies: Bodies, deltaTime: number): boolean {
+    const vehicleBody = bodies.pool[constraint.bodyIndexA];
+    const axis = _vehicleConstraint_axis;
+    let impulse = false;
+
+    // solve suspension
+    for (const w of constraint.wheels) {
+        if (!wheel.hasContact(w)) continue;
+
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        vec3.negate(axis, w.contactNormal);
+
+        // suspension spring, note that it can only push and not pull
+        if (axisConstraintPart.isActive(w.suspensionPart)) {
+            impulse =
+                axisConstraintPart.solveVelocityConstraint(
+                    w.suspensionPart,
+                    vehicleBody,
+                    contactBody,
+                    axis,
+                    0,
+                    Number.POSITIVE_INFINITY,
+                ) || impulse;
+        }
+
+        // when reaching the min suspension length only allow forces pushing the bodies away
+        if (axisConstraintPart.isActive(w.suspensionMaxUpPart)) {
+            impulse =
+                axisConstraintPart.solveVelocityConstraint(
+                    w.suspensionMaxUpPart,
+                    vehicleBody,
+                    contactBody,
+                    axis,
+                    0,
+                    Number.POSITIVE_INFINITY,
+                ) || impulse;
+        }
+    }
+
+    // solve the horizontal movement of the vehicle
+    impulse = controllerSolveLongitudinalAndLateralConstraints(constraint, bodies, deltaTime) || impulse;
+
+    // apply the pitch / roll constraint to avoid the vehicle from toppling over
+    if (angleConstraintPart.isActive(constraint.pitchRollPart)) {
+        impulse =
+            angleConstraintPart.solveVelocityConstraint(
+                constraint.pitchRollPart,
+                vehicleBody,
+                FIXED_TO_WORLD,
+                constraint.pitchRollRotationAxis,
+                0,
+                Number.POSITIVE_INFINITY,
+            ) || impulse;
+    }
+
+    return impulse;
+}
+
+function solvePosition(constraint: VehicleConstraint, bodies: Bodies, _deltaTime: number, baumgarte: number): boolean {
+    const vehicleBody = bodies.pool[constraint.bodyIndexA];
+    const axis = _vehicleConstraint_axis;
+    let impulse = false;
+
+    for (const w of constraint.wheels) {
+        if (!wheel.hasContact(w)) continue;
+
+        // check if we reached the 'max up' position now that the body has possibly moved, by making sure the axle position at
+        // min suspension length does not go through the plane defined by the contact normal and the axle position at contact.
+        // this assumes that only the vehicle moved and not the ground
+        const minSuspensionPosition = vec3.transformQuat(_vehicleConstraint_position, w.position, vehicleBody.quaternion);
+        vec3.add(minSuspensionPosition, minSuspensionPosition, vehicleBody.position);
+        vec3.transformQuat(axis, w.suspensionDirection, vehicleBody.quaternion);
+        vec3.scaleAndAdd(minSuspensionPosition, minSuspensionPosition, axis, w.suspensionMinLength);
+        const maxUpError = vec3.dot(w.contactNormal, minSuspensionPosition) - w.axlePlaneConstant;
+        if (maxUpError >= 0) continue;
+
+        // recalculate constraint properties since the body may have moved
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        const invMassA = getInverseMassAndInertia(_vehicleConstraint_invInertiaA, _vehicleConstraint_rotA, vehicleBody);
+        const invMassB = getInverseMassAndInertia(_vehicleConstraint_invInertiaB, _vehicleConstraint_rotB, contactBody);
+        calculateSuspensionForcePoint(w, vehicleBody, contactBody);
+        vec3.negate(axis, w.contactNormal);
+        axisConstraintPart.calculateConstraintProperties(
+            w.suspensionMaxUpPart,
+            vehicleBody,
+            contactBody,
+            invMassA,
+            invMassB,
+            _vehicleConstraint_invInertiaA,
+            _vehicleConstraint_invInertiaB,
+            _vehicleConstraint_r1PlusU,
+            _vehicleConstraint_r2,
+            axis,
+            0,
+        );
+        impulse =
+            axisConstraintPart.solvePositionConstraint(
+                w.suspensionMaxUpPart,
+                vehicleBody,
+                contactBody,
+                axis,
+                maxUpError,
+                baumgarte,
+            ) || impulse;
+    }
+
+    // apply the pitch / roll constraint to avoid the vehicle from toppling over
+    calculatePitchRollConstraintProperties(constraint, vehicleBody);
+    if (angleConstraintPart.isActive(constraint.pitchRollPart)) {
+        impulse =
+            angleConstraintPart.solvePositionConstraint(
+                constraint.pitchRollPart,
+                vehicleBody,
+                FIXED_TO_WORLD,
+                constraint.cosPitchRollAngle - constraint.cosMaxPitchRollAngle,
+                baumgarte,
+            ) || impulse;
+    }
+
+    return impulse;
+}
+
+function resetWarmStart(constraint: VehicleConstraint): void {
+    for (const w of constraint.wheels) {
+        axisConstraintPart.deactivate(w.suspensionPart);
+        axisConstraintPart.deactivate(w.suspensionMaxUpPart);
+        axisConstraintPart.deactivate(w.longitudinalPart);
+        axisConstraintPart.deactivate(w.lateralPart);
+    }
+    angleConstraintPart.deactivate(constraint.pitchRollPart);
+}
+
+function saveState(constraint: VehicleConstraint, recorder: StateRecorder): void {
+    stateRecorder.writeVec3(recorder, constraint.worldUp);
+    stateRecorder.writeFloat64(recorder, constraint.cosPitchRollAngle);
+    stateRecorder.writeVec3(recorder, constraint.pitchRollRotationAxis);
+    angleConstraintPart.saveState(constraint.pitchRollPart, recorder);
+
+    for (const w of constraint.wheels) {
+        wheel.saveState(w, recorder);
+    }
+
+    switch (constraint.controller.type) {
+        case VehicleControllerType.WHEELED:
+            wheeledVehicleController.saveState(constraint.controller, constraint, recorder);
+            break;
+        case VehicleControllerType.TRACKED:
+            trackedVehicleController.saveState(constraint.controller, constraint, recorder);
+            break;
+    }
+}
+
+function restoreState(constraint: VehicleConstraint, recorder: StateRecorder): void {
+    stateRecorder.readVec3(constraint.worldUp, recorder);
+    constraint.cosPitchRollAngle = stateRecorder.readFloat64(recorder);
+    stateRecorder.readVec3(constraint.pitchRollRotationAxis, recorder);
+    angleConstraintPart.restoreState(constraint.pitchRollPart, recorder);
+
+    for (const w of constraint.wheels) {
+        wheel.restoreState(w, recorder);
+    }
+
+    switch (constraint.controller.type) {
+        case VehicleControllerType.WHEELED:
+            wheeledVehicleController.restoreState(constraint.controller, constraint, recorder);
+            break;
+        case VehicleControllerType.TRACKED:
+            trackedVehicleController.restoreState(constraint.controller, constraint, recorder);
+            break;
+    }
+}
+
+const _getTotalLambda_impulse = /* @__PURE__ */ vec3.create();
+
+/**
+ * Gets the combined impulse of the wheels, the suspension (including the anti-roll bars) and the pitch / roll limit.
+ * The impulses of the wheel parts are summed along their world space axes, so wheels pushing against each other cancel.
+ */
+function getTotalLambda(out: ConstraintTotalLambda, constraint: VehicleConstraint): void {
+    const impulse = vec3.zero(_getTotalLambda_impulse);
+
+    for (const w of constraint.wheels) {
+        if (!wheel.hasContact(w)) continue;
+
+        const suspensionLambda = w.suspensionPart.totalLambda + w.suspensionMaxUpPart.totalLambda;
+        vec3.scaleAndAdd(impulse, impulse, w.contactNormal, -suspensionLambda);
+        vec3.scaleAndAdd(impulse, impulse, w.contactLongitudinal, -w.longitudinalPart.totalLambda);
+        vec3.scaleAndAdd(impulse, impulse, w.contactLateral, -w.lateralPart.totalLambda);
+    }
+
+    out.position = vec3.length(impulse);
+    out.rotation = Math.abs(constraint.pitchRollPart.totalLambda);
+}
+
+const _getTotalImpulses_axis = /* @__PURE__ */ vec3.create();
+
+/**
+ * Gets the impulses the wheels and the pitch / roll limit applied to the vehicle body in the last step.
+ * Body a and body b are both the vehicle body, all impulses are reported for body a. The opposite impulses on the
+ * bodies the wheels stand on are not reported.
+ */
+function getTotalImpulses(out: ConstraintImpulses, constraint: VehicleConstraint, bodies: Bodies): void {
+    zeroConstraintImpulses(out);
+
+    const vehicleBody = bodies.pool[constraint.bodyIndexA];
+    const axis = _getTotalImpulses_axis;
+
+    for (const w of constraint.wheels) {
+        if (!wheel.hasContact(w)) continue;
+
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        calculateSuspensionForcePoint(w, vehicleBody, contactBody);
+        const r1PlusU = _vehicleConstraint_r1PlusU;
+        const r2 = _vehicleConstraint_r2;
+
+        vec3.negate(axis, w.contactNormal);
+        axisConstraintPart.addTotalImpulses(out, w.suspensionPart, r1PlusU, r2, axis, axis);
+        axisConstraintPart.addTotalImpulses(out, w.suspensionMaxUpPart, r1PlusU, r2, axis, axis);
+
+        vec3.negate(axis, w.contactLongitudinal);
+        axisConstraintPart.addTotalImpulses(out, w.longitudinalPart, r1PlusU, r2, axis, axis);
+
+        vec3.negate(axis, w.contactLateral);
+        axisConstraintPart.addTotalImpulses(out, w.lateralPart, r1PlusU, r2, axis, axis);
+    }
+
+    const pitchRollAxis = constraint.pitchRollRotationAxis;
+    angleConstraintPart.addTotalImpulses(out, constraint.pitchRollPart, pitchRollAxis, pitchRollAxis);
+
+    // the other halves act on the ground bodies
+    vec3.zero(out.linearB);
+    vec3.zero(out.angularB);
+}
+
+/** the constraint definition for vehicle constraint */
+export const def = /* @__PURE__ */ (() =>
+    defineConstraint<VehicleConstraint>({
+        type: ConstraintType.VEHICLE,
+        setupVelocity,
+        warmStartVelocity,
+        solveVelocity,
+        solvePosition,
+        resetWarmStart,
+        saveState,
+        restoreState,
+        preStep,
+        linkIslands,
+        getTotalLambda,
+        getTotalImpulses,
+        getIterationOverrides: (out, constraint) => {
+            out.velocity = constraint.numVelocityStepsOverride;
+            out.position = constraint.numPositionStepsOverride;
+        },
+        getSortFields: (out, constraint) => {
+            out.priority = constraint.constraintPriority;
+            out.index = constraint.index;
+        },
+    }))();
@@ -0,0 +1,32 @@
+import type {
+    TrackedVehicleController,
+    TrackedVehicleControllerSettings,
+    TrackedVehicleWheel,
+    TrackedVehicleWheelSettings,
+} from './tracked-vehicle-controller';
+import type {
+    WheeledVehicleController,
+    WheeledVehicleControllerSettings,
+    WheeledVehicleWheel,
+    WheeledVehicleWheelSettings,
+} from './wheeled-vehicle-controller';
+
+/** vehicle controller types, the controller drives the wheels of a vehicle constraint */
+export enum VehicleControllerType {
+    /** wheeled vehicle with an engine, transmission and differentials */
+    WHEELED = 0,
+    /** tracked vehicle (e.g. a tank) with an engine, transmission and a left and right track */
+    TRACKED = 1,
+}
+
+/** union of all vehicle controller settings */
+export type VehicleControllerSettings = WheeledVehicleControllerSettings | TrackedVehicleControllerSettings;
+
+/** union of all vehicle controllers */
+export type VehicleController = WheeledVehicleController | TrackedVehicleController;
+
+/** union of all vehicle wheel settings, the controller determines which wheel settings are used */
+export type VehicleWheelSettings = WheeledVehicleWheelSettings | TrackedVehicleWheelSettings;
+
+/** union of all vehicle wheels */
+export type VehicleWheel = WheeledVehicleWheel | TrackedVehicleWheel;
@@ -0,0 +1,97 @@
+/** settings for a vehicle differential, which divides the engine torque between a left and a right wheel */
+export type VehicleDifferentialSettings = {
+    /** index (in the vehicle wheels) of the left wheel, -1 if there is no left wheel @default -1 */
+    leftWheel?: number;
+    /** index (in the vehicle wheels) of the right wheel, -1 if there is no right wheel @default -1 */
+    rightWheel?: number;
+    /** ratio between rotation speed of the gear box and the wheels @default 3.42 */
+    differentialRatio?: number;
+    /** defines how the engine torque is split across the left and right wheel (0 = left, 0.5 = center, 1 = right) @default 0.5 */
+    leftRightSplit?: number;
+    /** ratio max / min wheel speed, when this ratio is exceeded all torque goes to the slowest wheel, Infinity for an open differential @default 1.4 */
+    limitedSlipRatio?: number;
+    /** how much of the engines torque is applied to this differential (0 = none, 1 = full), make sure the sum over all differentials is 1 @default 1 */
+    engineTorqueRatio?: number;
+};
+
+/** vehicle differential */
+export type VehicleDifferential = {
+    /** index of the left wheel, -1 if there is no left wheel */
+    leftWheel: number;
+    /** index of the right wheel, -1 if there is no right wheel */
+    rightWheel: number;
+    /** ratio between rotation speed of the gear box and the wheels */
+    differentialRatio: number;
+    /** defines how the engine torque is split across the left and right wheel (0 = left, 0.5 = center, 1 = right) */
+    leftRightSplit: number;
+    /** ratio max / min wheel speed, when this ratio is exceeded all torque goes to the slowest wheel */
+    limitedSlipRatio: number;
+    /** how much of the engines torque is applied to this differential */
+    engineTorqueRatio: number;
+};
+
+/** create a vehicle differential */
+export function create(settings: VehicleDifferentialSettings = {}): VehicleDifferential {
+    return {
+        leftWheel: settings.leftWheel ?? -1,
+        rightWheel: settings.rightWheel ?? -1,
+        differentialRatio: settings.differentialRatio ?? 3.42,
+        leftRightSplit: settings.leftRightSplit ?? 0.5,
+        limitedSlipRatio: settings.limitedSlipRatio ?? 1.4,
+        engineTorqueRatio: settings.engineTorqueRatio ?? 1,
+    };
+}
+
+/** result of calculateTorqueRatio */
+export type TorqueRatio = {
+    /** fraction of the torque that goes to the left wheel */
+    left: number;
+    /** fraction of the torque that goes to the right wheel */
+    right: number;
+};
+
+/** create a torque ratio result object */
+export function createTorqueRatio(): TorqueRatio {
+    return { left: 0, right: 0 };
+}
+
+/**
+ * Calculate the torque ratio between the left and right wheel, the fractions add up to 1
+ * @param leftAngularVelocity angular velocity of the left wheel (rad/s)
+ * @param rightAngularVelocity angular velocity of the right wheel (rad/s)
+ */
+export function calculateTorqueRatio(
+    out: TorqueRatio,
+    differential: VehicleDifferential,
+    leftAngularVelocity: number,
+    rightAngularVelocity: number,
+): TorqueRatio {
+    // start with the default torque ratio
+    out.left = 1 - differential.leftRightSplit;
+    out.right = differential.leftRightSplit;
+
+    if (differential.limitedSlipRatio < Number.POSITIVE_INFINITY) {
+        // limited slip differential, adjust torque ratios according to wheel speeds.
+        // prevent division by zero by setting a minimum velocity, ignoring that the wheels may rotate in different directions
+        const omegaL = Math.max(1e-3, Math.abs(leftAngularVelocity));
+        const omegaR = Math.max(1e-3, Math.abs(rightAngularVelocity));
+        const omegaMin = Math.min(omegaL, omegaR);
+        const omegaMax = Math.max(omegaL, omegaR);
+
+        // map into a value that is 0 when the wheels turn at an equal rate and 1 when they turn at limitedSlipRatio
+        const alpha = Math.min((omegaMax / omegaMin - 1) / (differential.limitedSlipRatio - 1), 1);
+        const oneMinAlpha = 1 - alpha;
+
+        if (omegaL < omegaR) {
+            // redirect more power to the left wheel
+            out.left = out.left * oneMinAlpha + alpha;
+            out.right = out.right * oneMinAlpha;
+        } else {
+            // redirect more power to the right wheel
+            out.left = out.left * oneMinAlpha;
+            out.right = out.right * oneMinAlpha + alpha;
+        }
+    }
+
+    return out;
+}
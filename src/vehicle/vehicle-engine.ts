@@ -0,0 +1,115 @@
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { LinearCurve } from './linear-curve';
+import * as linearCurve from './linear-curve';
+
+/** multiply an angular velocity (rad/s) with this value to get rounds per minute (RPM) */
+export const ANGULAR_VELOCITY_TO_RPM = 60 / (2 * Math.PI);
+
+/** settings for a vehicle engine */
+export type VehicleEngineSettings = {
+    /** max amount of torque the engine can deliver (unit: Nm) @default 500 */
+    maxTorque?: number;
+    /** min amount of revolutions per minute the engine will produce @default 1000 */
+    minRPM?: number;
+    /** max amount of revolutions per minute the engine will generate @default 6000 */
+    maxRPM?: number;
+    /** normalized torque curve, x = fraction of maxRPM (0..1), y = fraction of maxTorque @default [[0, 0.8], [0.66, 1], [1, 0.8]] */
+    normalizedTorque?: LinearCurve;
+    /** moment of inertia of the engine (unit: kg m^2) @default 0.5 */
+    inertia?: number;
+    /** angular damping factor of the engine, dw/dt = -c * w @default 0.2 */
+    angularDamping?: number;
+};
+
+/** vehicle engine state */
+export type VehicleEngine = {
+    /** max amount of torque the engine can deliver (unit: Nm) */
+    maxTorque: number;
+    /** min amount of revolutions per minute the engine will produce */
+    minRPM: number;
+    /** max amount of revolutions per minute the engine will generate */
+    maxRPM: number;
+    /** normalized torque curve, x = fraction of maxRPM (0..1), y = fraction of maxTorque */
+    normalizedTorque: LinearCurve;
+    /** moment of inertia of the engine (unit: kg m^2) */
+    inertia: number;
+    /** angular damping factor of the engine */
+    angularDamping: number;
+    /** current rotation speed of the engine in revolutions per minute */
+    currentRPM: number;
+};
+
+/** create a vehicle engine */
+export function create(settings: VehicleEngineSettings = {}): VehicleEngine {
+    const engine: VehicleEngine = {
+        maxTorque: settings.maxTorque ?? 500,
+        minRPM: settings.minRPM ?? 1000,
+        maxRPM: settings.maxRPM ?? 6000,
+        normalizedTorque: settings.normalizedTorque
+            ? linearCurve.copy(linearCurve.create(), settings.normalizedTorque)
+            : linearCurve.create([
+                  [0, 0.8],
+                  [0.66, 1],
+                  [1, 0.8],
+              ]),
+        inertia: settings.inertia ?? 0.5,
+        angularDamping: settings.angularDamping ?? 0.2,
+        currentRPM: 0,
+    };
+    engine.currentRPM = engine.minRPM;
+    return engine;
+}
+
+/** clamp the engine RPM between min and max RPM */
+export function clampRPM(engine: VehicleEngine): void {
+    engine.currentRPM = Math.min(Math.max(engine.currentRPM, engine.minRPM), engine.maxRPM);
+}
+
+/** get the angular velocity of the engine (unit: rad/s) */
+export function getAngularVelocity(engine: VehicleEngine): number {
+    return engine.currentRPM / ANGULAR_VELOCITY_TO_RPM;
+}
+
+/** set the angular velocity of the engine (unit: rad/s), the result is clamped to the RPM range */
+export function setAngularVelocity(engine: VehicleEngine, angularVelocity: number): void {
+    engine.currentRPM = angularVelocity * ANGULAR_VELOCITY_TO_RPM;
+    clampRPM(engine);
+}
+
+/**
+ * Get the torque the engine delivers at its current RPM
+ * @param acceleration how much the gas pedal is pressed (0..1)
+ */
+export function getTorque(engine: VehicleEngine, acceleration: number): number {
+    return acceleration * engine.maxTorque * linearCurve.getValue(engine.normalizedTorque, engine.currentRPM / engine.maxRPM);
+}
+
+/** apply a torque to the engine for a time step, used when the engine is not connected to the wheels */
+export function applyTorque(engine: VehicleEngine, torque: number, deltaTime: number): void {
+    // accelerate engine using torque
+    engine.currentRPM += ANGULAR_VELOCITY_TO_RPM * ((torque * deltaTime) / engine.inertia);
+    clampRPM(engine);
+}
+
+/** apply angular damping to the engine for a time step */
+export function applyDamping(engine: VehicleEngine, deltaTime: number): void {
+    // dw/dt = -c * w, approximated with the first terms of the taylor expansion of e^(-c * dt)
+    engine.currentRPM *= Math.max(0, 1 - engine.angularDamping * deltaTime);
+    clampRPM(engine);
+}
+
+/** whether the engine is idle and allows the vehicle to go to sleep */
+export function allowSleep(engine: VehicleEngine): boolean {
+    return engine.currentRPM <= engine.minRPM * 1.01;
+}
+
+/** save the engine state for world state snapshots */
+export function saveState(engine: VehicleEngine, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, engine.currentRPM);
+}
+
+/** restore the engine state written by saveState */
+export function restoreState(engine: VehicleEngine, recorder: StateRecorder): void {
+    engine.currentRPM = stateRecorder.readFloat64(recorder);
+}
@@ -0,0 +1,204 @@
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+
+/** how gears are shifted */
+export enum TransmissionMode {
+    /** gears are shifted automatically based on engine RPM */
+    AUTO = 0,
+    /** gears and clutch are controlled manually through `set` */
+    MANUAL = 1,
+}
+
+/** settings for a vehicle transmission */
+export type VehicleTransmissionSettings = {
+    /** how to switch gears @default TransmissionMode.AUTO */
+    mode?: TransmissionMode;
+    /** ratio in rotation rate between engine and gear box, first element is 1st gear @default [2.66, 1.78, 1.3, 1.0, 0.74] */
+    gearRatios?: number[];
+    /** ratio in rotation rate between engine and gear box when driving in reverse, first element is 1st reverse gear @default [-2.9] */
+    reverseGearRatios?: number[];
+    /** how long it takes to switch gears (s), only used in auto mode @default 0.5 */
+    switchTime?: number;
+    /** how long it takes to release the clutch (go to full friction) after switching gears (s), only used in auto mode @default 0.3 */
+    clutchReleaseTime?: number;
+    /** how long to wait after releasing the clutch before another switch is attempted (s), only used in auto mode @default 0.5 */
+    switchLatency?: number;
+    /** if RPM of engine is bigger than this we will shift a gear up, only used in auto mode @default 4000 */
+    shiftUpRPM?: number;
+    /** if RPM of engine is smaller than this we will shift a gear down, only used in auto mode @default 2000 */
+    shiftDownRPM?: number;
+    /** strength of the clutch when fully engaged, clutch torque = clutchStrength * (engine velocity - wheel velocity at clutch) (unit: kg m^2 s^-1) @default 10 */
+    clutchStrength?: number;
+};
+
+/** vehicle transmission state */
+export type VehicleTransmission = {
+    /** how to switch gears */
+    mode: TransmissionMode;
+    /** ratio in rotation rate between engine and gear box, first element is 1st gear */
+    gearRatios: number[];
+    /** ratio in rotation rate between engine and gear box when driving in reverse */
+    reverseGearRatios: number[];
+    /** how long it takes to switch gears (s) */
+    switchTime: number;
+    /** how long it takes to release the clutch after switching gears (s) */
+    clutchReleaseTime: number;
+    /** how long to wait after releasing the clutch before another switch is attempted (s) */
+    switchLatency: number;
+    /** if RPM of engine is bigger than this we will shift a gear up */
+    shiftUpRPM: number;
+    /** if RPM of engine is smaller than this we will shift a gear down */
+    shiftDownRPM: number;
+    /** strength of the clutch when fully engaged */
+    clutchStrength: number;
+    /** current gear, -1 = reverse, 0 = neutral, 1 = 1st gear etc. */
+    currentGear: number;
+    /** friction in clutch, 0 = no friction (disengaged), 1 = full friction (engaged) */
+    clutchFriction: number;
+    /** when switching gears this will be > 0 and will cause the engine to not provide any torque to the wheels */
+    gearSwitchTimeLeft: number;
+    /** after switching gears this will be > 0 and will cause the clutch friction to go from 0 to 1 */
+    clutchReleaseTimeLeft: number;
+    /** countdown until we can switch gears again */
+    gearSwitchLatencyTimeLeft: number;
+};
+
+/** create a vehicle transmission */
+export function create(settings: VehicleTransmissionSettings = {}): VehicleTransmission {
+    return {
+        mode: settings.mode ?? TransmissionMode.AUTO,
+        gearRatios: settings.gearRatios ? settings.gearRatios.slice() : [2.66, 1.78, 1.3, 1.0, 0.74],
+        reverseGearRatios: settings.reverseGearRatios ? settings.reverseGearRatios.slice() : [-2.9],
+        switchTime: settings.switchTime ?? 0.5,
+        clutchReleaseTime: settings.clutchReleaseTime ?? 0.3,
+        switchLatency: settings.switchLatency ?? 0.5,
+        shiftUpRPM: settings.shiftUpRPM ?? 4000,
+        shiftDownRPM: settings.shiftDownRPM ?? 2000,
+        clutchStrength: settings.clutchStrength ?? 10,
+        currentGear: 0,
+        clutchFriction: 1,
+        gearSwitchTimeLeft: 0,
+        clutchReleaseTimeLeft: 0,
+        gearSwitchLatencyTimeLeft: 0,
+    };
+}
+
+/**
+ * Set the current gear and clutch friction, for use in manual mode
+ * @param currentGear -1 = reverse, 0 = neutral, 1 = 1st gear etc.
+ * @param clutchFriction 0 = no friction (disengaged), 1 = full friction (engaged)
+ */
+export function set(transmission: VehicleTransmission, currentGear: number, clutchFriction: number): void {
+    transmission.currentGear = currentGear;
+    transmission.clutchFriction = clutchFriction;
+}
+
+/**
+ * Update the current gear and clutch friction if the transmission is in auto mode
+ * @param currentRPM current RPM of the engine
+ * @param forwardInput driver input in the forward direction (-1 = reverse, 1 = forward)
+ * @param canShiftUp whether the wheels allow shifting up (i.e. they are not slipping)
+ */
+export function update(
+    transmission: VehicleTransmission,
+    deltaTime: number,
+    currentRPM: number,
+    forwardInput: number,
+    canShiftUp: boolean,
+): void {
+    if (transmission.mode !== TransmissionMode.AUTO) return;
+
+    // switch gears based on rpm
+    const oldGear = transmission.currentGear;
+    if (transmission.currentGear === 0 || forwardInput * transmission.currentGear < 0) {
+        // in neutral or changing between forward / reverse, switch to 1st gear or reverse depending on input
+        transmission.currentGear = forwardInput > 0 ? 1 : forwardInput < 0 ? -1 : 0;
+    } else if (transmission.gearSwitchLatencyTimeLeft === 0) {
+        // not in the timeout after switching gears
+        if (canShiftUp && currentRPM > transmission.shiftUpRPM) {
+            if (transmission.currentGear < 0) {
+                // shift up, reverse
+                if (transmission.currentGear > -transmission.reverseGearRatios.length) {
+                    transmission.currentGear--;
+                }
+            } else if (transmission.currentGear < transmission.gearRatios.length) {
+                // shift up, forward
+                transmission.currentGear++;
+            }
+        } else if (currentRPM < transmission.shiftDownRPM) {
+            if (transmission.currentGear < 0) {
+                // shift down, reverse
+                const maxGear = forwardInput !== 0 ? -1 : 0;
+                if (transmission.currentGear < maxGear) {
+                    transmission.currentGear++;
+                }
+            } else {
+                // shift down, forward
+                const minGear = forwardInput !== 0 ? 1 : 0;
+                if (transmission.currentGear > minGear) {
+                    transmission.currentGear--;
+                }
+            }
+        }
+    }
+
+    if (oldGear !== transmission.currentGear) {
+        // we've shifted gear, start switch countdown
+        transmission.gearSwitchTimeLeft = oldGear !== 0 ? transmission.switchTime : 0;
+        transmission.clutchReleaseTimeLeft = transmission.clutchReleaseTime;
+        transmission.gearSwitchLatencyTimeLeft = transmission.switchLatency;
+        transmission.clutchFriction = 0;
+    } else if (transmission.gearSwitchTimeLeft > 0) {
+        // still switching gears, count down
+        transmission.gearSwitchTimeLeft = Math.max(0, transmission.gearSwitchTimeLeft - deltaTime);
+        transmission.clutchFriction = 0;
+    } else if (transmission.clutchReleaseTimeLeft > 0) {
+        // after switching gears we slowly release the clutch
+        transmission.clutchReleaseTimeLeft = Math.max(0, transmission.clutchReleaseTimeLeft - deltaTime);
+        transmission.clutchFriction = 1 - transmission.clutchReleaseTimeLeft / transmission.clutchReleaseTime;
+    } else {
+        // clutch has full friction
+        transmission.clutchFriction = 1;
+
+        // count down switch latency
+        transmission.gearSwitchLatencyTimeLeft = Math.max(0, transmission.gearSwitchLatencyTimeLeft - deltaTime);
+    }
+}
+
+/** get the rotation ratio between engine and gear box for the current gear, 0 in neutral */
+export function getCurrentRatio(transmission: VehicleTransmission): number {
+    if (transmission.currentGear < 0) {
+        return transmission.reverseGearRatios[-transmission.currentGear - 1];
+    }
+    if (transmission.currentGear === 0) {
+        return 0;
+    }
+    return transmission.gearRatios[transmission.currentGear - 1];
+}
+
+/** whether the transmission is done switching gears and allows the vehicle to go to sleep */
+export function allowSleep(transmission: VehicleTransmission): boolean {
+    return (
+        transmission.gearSwitchTimeLeft <= 0 &&
+        transmission.clutchReleaseTimeLeft <= 0 &&
+        transmission.gearSwitchLatencyTimeLeft <= 0
+    );
+}
+
+/** save the transmission state for world state snapshots */
+export function saveState(transmission: VehicleTransmission, recorder: StateRecorder): void {
+    stateRecorder.writeInt32(recorder, transmission.currentGear);
+    stateRecorder.writeFloat64(recorder, transmission.clutchFriction);
+    stateRecorder.writeFloat64(recorder, transmission.gearSwitchTimeLeft);
+    stateRecorder.writeFloat64(recorder, transmission.clutchReleaseTimeLeft);
+    stateRecorder.writeFloat64(recorder, transmission.gearSwitchLatencyTimeLeft);
+}
+
+/** restore the transmission state written by saveState */
+export function restoreState(transmission: VehicleTransmission, recorder: StateRecorder): void {
+    transmission.currentGear = stateRecorder.readInt32(recorder);
+    transmission.clutchFriction = stateRecorder.readFloat64(recorder);
+    transmission.gearSwitchTimeLeft = stateRecorder.readFloat64(recorder);
+    transmission.clutchReleaseTimeLeft = stateRecorder.readFloat64(recorder);
+    transmission.gearSwitchLatencyTimeLeft = stateRecorder.readFloat64(recorder);
+}
@@ -0,0 +1,255 @@
+import type { Vec3 } from 'mathcat';
+import { vec3 } from 'mathcat';
+import { type BodyId, INVALID_BODY_ID } from '../body/body-id';
+import type { RigidBody } from '../body/rigid-body';
+import { EMPTY_SUB_SHAPE_ID, type SubShapeId } from '../body/sub-shape';
+import type { AxisConstraintPart } from '../constraints/constraint-part/axis-constraint-part';
+import * as axisConstraintPart from '../constraints/constraint-part/axis-constraint-part';
+import { SpringMode, type SpringSettings } from '../constraints/constraint-part/spring-settings';
+import * as springSettings from '../constraints/constraint-part/spring-settings';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+
+/** settings for a vehicle wheel, shared by all vehicle controllers */
+export type WheelSettings = {
+    /** attachment point of the wheel suspension in local space of the body */
+    position: Vec3;
+    /** where tire forces (suspension and traction) are applied, in local space of the body, only used when enableSuspensionForcePoint is true @default [0, 0, 0] */
+    suspensionForcePoint?: Vec3;
+    /** enables suspensionForcePoint, if disabled the forces are applied at the collision contact point, which leads to more accurate simulation when interacting with dynamic objects but makes the vehicle less stable @default false */
+    enableSuspensionForcePoint?: boolean;
+    /** direction of the suspension in local space of the body, should point down @default [0, -1, 0] */
+    suspensionDirection?: Vec3;
+    /** direction of the steering axis in local space of the body, should point up @default [0, 1, 0] */
+    steeringAxis?: Vec3;
+    /** up direction when the wheel is in the neutral steering position, usually the same as steeringAxis @default [0, 1, 0] */
+    wheelUp?: Vec3;
+    /** forward direction when the wheel is in the neutral steering position, usually the vehicle forward @default [0, 0, 1] */
+    wheelForward?: Vec3;
+    /** how long the suspension is in max raised position relative to the attachment point (m) @default 0.3 */
+    suspensionMinLength?: number;
+    /** how long the suspension is in max droop position relative to the attachment point (m) @default 0.5 */
+    suspensionMaxLength?: number;
+    /** the natural length (m) of the suspension spring is suspensionMaxLength + suspensionPreloadLength, use to make the suspension stiffer without changing its frequency @default 0 */
+    suspensionPreloadLength?: number;
+    /** settings for the suspension spring @default 1.5 Hz, damping 0.5 */
+    suspensionSpring?: SpringSettings;
+    /** radius of the wheel (m) @default 0.3 */
+    radius?: number;
+    /** width of the wheel (m) @default 0.1 */
+    width?: number;
+};
+
+/** vehicle wheel state, shared by all vehicle controllers */
+export type Wheel = {
+    /** attachment point of the wheel suspension in local space of the body */
+    position: Vec3;
+    /** where tire forces are applied, in local space of the body */
+    suspensionForcePoint: Vec3;
+    /** whether suspensionForcePoint is used instead of the contact point */
+    enableSuspensionForcePoint: boolean;
+    /** direction of the suspension in local space of the body */
+    suspensionDirection: Vec3;
+    /** direction of the steering axis in local space of the body */
+    steeringAxis: Vec3;
+    /** up direction when the wheel is in the neutral steering position */
+    wheelUp: Vec3;
+    /** forward direction when the wheel is in the neutral steering position */
+    wheelForward: Vec3;
+    /** how long the suspension is in max raised position relative to the attachment point (m) */
+    suspensionMinLength: number;
+    /** how long the suspension is in max droop position relative to the attachment point (m) */
+    suspensionMaxLength: number;
+    /** extra length added to the natural length of the suspension spring (m) */
+    suspensionPreloadLength: number;
+    /** settings for the suspension spring */
+    suspensionSpring: SpringSettings;
+    /** radius of the wheel (m) */
+    radius: number;
+    /** width of the wheel (m) */
+    width: number;
+
+    /** id of the body the wheel touches, INVALID_BODY_ID if the wheel has no contact */
+    contactBodyId: BodyId;
+    /** @internal index of the body the wheel touches, valid for the current step when the wheel has contact */
+    contactBodyIndex: number;
+    /** sub shape id of the body the wheel touches */
+    contactSubShapeId: SubShapeId;
+    /** contact point in world space */
+    contactPosition: Vec3;
+    /** contact normal in world space, pointing away from the ground */
+    contactNormal: Vec3;
+    /** longitudinal (forward) direction of the contact in world space */
+    contactLongitudinal: Vec3;
+    /** lateral (sideways) direction of the contact in world space */
+    contactLateral: Vec3;
+    /** velocity of the contact point on the body the wheel touches */
+    contactPointVelocity: Vec3;
+    /** current length of the suspension (m) */
+    suspensionLength: number;
+    /** constant for the contact plane of the axle, defined as contactNormal . (wheel position + suspensionLength * suspensionDirection) */
+    axlePlaneConstant: number;
+    /** amount of impulse applied to the suspension by the anti-roll bars */
+    antiRollBarImpulse: number;
+    /** rotation speed of the wheel (rad/s), positive when the wheel rolls forward */
+    angularVelocity: number;
+    /** current rotation angle of the wheel around its axle (rad) */
+    angle: number;
+    /** current steering angle (rad) */
+    steerAngle: number;
+
+    /** suspension spring */
+    suspensionPart: AxisConstraintPart;
+    /** hard constraint that stops the suspension at its min length */
+    suspensionMaxUpPart: AxisConstraintPart;
+    /** friction and propulsion in the longitudinal direction */
+    longitudinalPart: AxisConstraintPart;
+    /** friction in the lateral direction */
+    lateralPart: AxisConstraintPart;
+};
+
+/** create the shared wheel state from wheel settings, used by vehicle controllers to create their wheels */
+export function makeWheel(settings: WheelSettings): Wheel {
+    const suspensionSpring = springSettings.create();
+    if (settings.suspensionSpring) {
+        springSettings.copy(suspensionSpring, settings.suspensionSpring);
+    } else {
+        suspensionSpring.mode = SpringMode.FREQUENCY_AND_DAMPING;
+        suspensionSpring.frequencyOrStiffness = 1.5;
+        suspensionSpring.damping = 0.5;
+    }
+
+    const suspensionMaxLength = settings.suspensionMaxLength ?? 0.5;
+
+    return {
+        position: vec3.clone(settings.position),
+        suspensionForcePoint: settings.suspensionForcePoint ? vec3.clone(settings.suspensionForcePoint) : vec3.create(),
+        enableSuspensionForcePoint: settings.enableSuspensionForcePoint ?? false,
+        suspensionDirection: settings.suspensionDirection
+            ? vec3.normalize(vec3.create(), settings.suspensionDirection)
+            : vec3.fromValues(0, -1, 0),
+        steeringAxis: settings.steeringAxis ? vec3.normalize(vec3.create(), settings.steeringAxis) : vec3.fromValues(0, 1, 0),
+        wheelUp: settings.wheelUp ? vec3.normalize(vec3.create(), settings.wheelUp) : vec3.fromValues(0, 1, 0),
+        wheelForward: settings.wheelForward ? vec3.normalize(vec3.create(), settings.wheelForward) : vec3.fromValues(0, 0, 1),
+        suspensionMinLength: settings.suspensionMinLength ?? 0.3,
+        suspensionMaxLength,
+        suspensionPreloadLength: settings.suspensionPreloadLength ?? 0,
+        suspensionSpring,
+        radius: settings.radius ?? 0.3,
+        width: settings.width ?? 0.1,
+
+        contactBodyId: INVALID_BODY_ID,
+        contactBodyIndex: -1,
+        contactSubShapeId: EMPTY_SUB_SHAPE_ID,
+        contactPosition: vec3.create(),
+        contactNormal: vec3.create(),
+        contactLongitudinal: vec3.create(),
+        contactLateral: vec3.create(),
+        contactPointVelocity: vec3.create(),
+        suspensionLength: suspensionMaxLength,
+        axlePlaneConstant: 0,
+        antiRollBarImpulse: 0,
+        angularVelocity: 0,
+        angle: 0,
+        steerAngle: 0,
+
+        suspensionPart: axisConstraintPart.create(),
+        suspensionMaxUpPart: axisConstraintPart.create(),
+        longitudinalPart: axisConstraintPart.create(),
+        lateralPart: axisConstraintPart.create(),
+    };
+}
+
+/** whether the wheel touches the ground */
+export function hasContact(wheel: Wheel): boolean {
+    return wheel.contactBodyId !== INVALID_BODY_ID;
+}
+
+/** get the total impulse applied by the suspension in the last step, used to determine the max friction impulse */
+export function getSuspensionLambda(wheel: Wheel): number {
+    return wheel.suspensionPart.totalLambda + wheel.suspensionMaxUpPart.totalLambda;
+}
+
+const _solveWheel_axis = /* @__PURE__ */ vec3.create();
+
+/** solve the longitudinal (forward) friction / propulsion of the wheel, returns true if an impulse was applied */
+export function solveLongitudinalConstraintPart(
+    wheel: Wheel,
+    vehicleBody: RigidBody,
+    contactBody: RigidBody,
+    minImpulse: number,
+    maxImpulse: number,
+): boolean {
+    vec3.negate(_solveWheel_axis, wheel.contactLongitudinal);
+    return axisConstraintPart.solveVelocityConstraint(
+        wheel.longitudinalPart,
+        vehicleBody,
+        contactBody,
+        _solveWheel_axis,
+        minImpulse,
+        maxImpulse,
+    );
+}
+
+/** solve the lateral (sideways) friction of the wheel, returns true if an impulse was applied */
+export function solveLateralConstraintPart(
+    wheel: Wheel,
+    vehicleBody: RigidBody,
+    contactBody: RigidBody,
+    minImpulse: number,
+    maxImpulse: number,
+): boolean {
+    vec3.negate(_solveWheel_axis, wheel.contactLateral);
+    return axisConstraintPart.solveVelocityConstraint(
+        wheel.lateralPart,
+        vehicleBody,
+        contactBody,
+        _solveWheel_axis,
+        minImpulse,
+        maxImpulse,
+    );
+}
+
+/** save the shared wheel state for world state snapshots */
+export function saveState(wheel: Wheel, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, wheel.contactBodyId);
+    stateRecorder.writeInt32(recorder, wheel.contactBodyIndex);
+    stateRecorder.writeFloat64(recorder, wheel.contactSubShapeId);
+    stateRecorder.writeVec3(recorder, wheel.contactPosition);
+    stateRecorder.writeVec3(recorder, wheel.contactNormal);
+    stateRecorder.writeVec3(recorder, wheel.contactLongitudinal);
+    stateRecorder.writeVec3(recorder, wheel.contactLateral);
+    stateRecorder.writeVec3(recorder, wheel.contactPointVelocity);
+    stateRecorder.writeFloat64(recorder, wheel.suspensionLength);
+    stateRecorder.writeFloat64(recorder, wheel.axlePlaneConstant);
+    stateRecorder.writeFloat64(recorder, wheel.antiRollBarImpulse);
+    stateRecorder.writeFloat64(recorder, wheel.angularVelocity);
+    stateRecorder.writeFloat64(recorder, wheel.angle);
+    stateRecorder.writeFloat64(recorder, wheel.steerAngle);
+    axisConstraintPart.saveState(wheel.suspensionPart, recorder);
+    axisConstraintPart.saveState(wheel.suspensionMaxUpPart, recorder);
+    axisConstraintPart.saveState(wheel.longitudinalPart, recorder);
+    axisConstraintPart.saveState(wheel.lateralPart, recorder);
+}
+
+/** restore the shared wheel state written by saveState */
+export function restoreState(wheel: Wheel, recorder: StateRecorder): void {
+    wheel.contactBodyId = stateRecorder.readFloat64(recorder);
+    wheel.contactBodyIndex = stateRecorder.readInt32(recorder);
+    wheel.contactSubShapeId = stateRecorder.readFloat64(recorder);
+    stateRecorder.readVec3(wheel.contactPosition, recorder);
+    stateRecorder.readVec3(wheel.contactNormal, recorder);
+    stateRecorder.readVec3(wheel.contactLongitudinal, recorder);
+    stateRecorder.readVec3(wheel.contactLateral, recorder);
+    stateRecorder.readVec3(wheel.contactPointVelocity, recorder);
+    wheel.suspensionLength = stateRecorder.readFloat64(recorder);
+    wheel.axlePlaneConstant = stateRecorder.readFloat64(recorder);
+    wheel.antiRollBarImpulse = stateRecorder.readFloat64(recorder);
+    wheel.angularVelocity = stateRecorder.readFloat64(recorder);
+    wheel.angle = stateRecorder.readFloat64(recorder);
+    wheel.steerAngle = stateRecorder.readFloat64(recorder);
+    axisConstraintPart.restoreState(wheel.suspensionPart, recorder);
+    axisConstraintPart.restoreState(wheel.suspensionMaxUpPart, recorder);
+    axisConstraintPart.restoreState(wheel.longitudinalPart, recorder);
+    axisConstraintPart.restoreState(wheel.lateralPart, recorder);
+}
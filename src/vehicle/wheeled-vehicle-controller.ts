@@ -0,0 +1,606 @@
+import { vec3 } from 'mathcat';
+import type { Bodies } from '../body/bodies';
+import * as rigidBody from '../body/rigid-body';
+import type { StateRecorder } from '../utils/state-recorder';
+import * as stateRecorder from '../utils/state-recorder';
+import type { World } from '../world';
+import type { LinearCurve } from './linear-curve';
+import * as linearCurve from './linear-curve';
+import { VehicleControllerType } from './vehicle-controller';
+import type { VehicleConstraint } from './vehicle-constraint';
+import type { VehicleDifferential, VehicleDifferentialSettings } from './vehicle-differential';
+import * as vehicleDifferential from './vehicle-differential';
+import type { VehicleEngine, VehicleEngineSettings } from './vehicle-engine';
+import * as vehicleEngine from './vehicle-engine';
+import type { VehicleTransmission, VehicleTransmissionSettings } from './vehicle-transmission';
+import * as vehicleTransmission from './vehicle-transmission';
+import { TransmissionMode } from './vehicle-transmission';
+import type { Wheel, WheelSettings } from './wheel';
+import * as wheel from './wheel';
+
+/** settings for a wheel of a wheeled vehicle */
+export type WheeledVehicleWheelSettings = WheelSettings & {
+    /** moment of inertia of the wheel (unit: kg m^2), for a cylinder this is 0.5 * mass * radius^2 @default 0.9 */
+    inertia?: number;
+    /** angular damping factor of the wheel, dw/dt = -c * w @default 0.2 */
+    angularDamping?: number;
+    /** max steering angle (rad) of the wheel, 0 for wheels that don't steer @default 70 degrees */
+    maxSteerAngle?: number;
+    /** friction in the forward direction of the tire as a function of the longitudinal slip ratio (dimensionless) @default [[0, 0], [0.06, 1.2], [0.2, 1]] */
+    longitudinalFriction?: LinearCurve;
+    /** friction in the sideways direction of the tire as a function of the slip angle (degrees) @default [[0, 0], [3, 1.2], [20, 1]] */
+    lateralFriction?: LinearCurve;
+    /** how much torque (Nm) the brakes can apply to this wheel @default 1500 */
+    maxBrakeTorque?: number;
+    /** how much torque (Nm) the hand brake can apply to this wheel, usually only applied to the rear wheels @default 4000 */
+    maxHandBrakeTorque?: number;
+};
+
+/** wheel of a wheeled vehicle */
+export type WheeledVehicleWheel = Wheel & {
+    /** moment of inertia of the wheel (unit: kg m^2) */
+    inertia: number;
+    /** angular damping factor of the wheel */
+    angularDamping: number;
+    /** max steering angle (rad) of the wheel */
+    maxSteerAngle: number;
+    /** friction in the forward direction of the tire as a function of the longitudinal slip ratio */
+    longitudinalFriction: LinearCurve;
+    /** friction in the sideways direction of the tire as a function of the slip angle (degrees) */
+    lateralFriction: LinearCurve;
+    /** how much torque (Nm) the brakes can apply to this wheel */
+    maxBrakeTorque: number;
+    /** how much torque (Nm) the hand brake can apply to this wheel */
+    maxHandBrakeTorque: number;
+    /** velocity difference between ground and tire relative to the ground velocity */
+    longitudinalSlip: number;
+    /** angular difference (rad) between the ground velocity and the tire direction */
+    lateralSlip: number;
+    /** combined friction coefficient in the longitudinal direction (combines terrain and tire) */
+    combinedLongitudinalFriction: number;
+    /** combined friction coefficient in the lateral direction (combines terrain and tire) */
+    combinedLateralFriction: number;
+    /** amount of impulse that the brakes can apply to the floor (excluding friction) */
+    brakeImpulse: number;
+};
+
+/** settings for a wheeled vehicle controller */
+export type WheeledVehicleControllerSettings = {
+    /** controller type */
+    type: VehicleControllerType.WHEELED;
+    /** engine settings */
+    engine?: VehicleEngineSettings;
+    /** transmission (gear box) settings */
+    transmission?: VehicleTransmissionSettings;
+    /** differentials, a wheel that is not part of a differential is not driven by the engine @default [] */
+    differentials?: VehicleDifferentialSettings[];
+    /** ratio max / min average wheel speed of each differential, used to redistribute torque between differentials, Infinity to disable @default 1.4 */
+    differentialLimitedSlipRatio?: number;
+};
+
+/** wheeled vehicle controller */
+export type WheeledVehicleController = {
+    /** controller type */
+    type: VehicleControllerType.WHEELED;
+    /** the engine */
+    engine: VehicleEngine;
+    /** the transmission (gear box) */
+    transmission: VehicleTransmission;
+    /** the differentials */
+    differentials: VehicleDifferential[];
+    /** ratio max / min average wheel speed of each differential */
+    differentialLimitedSlipRatio: number;
+    /** driver input, value between -1 and 1 for auto transmission and between 0 and 1 indicating desired driving direction and amount the gas pedal is pressed */
+    forwardInput: number;
+    /** driver input, value between -1 and 1 indicating desired steering angle (1 = right) */
+    rightInput: number;
+    /** driver input, value between 0 and 1 indicating how strong the brake pedal is pressed */
+    brakeInput: number;
+    /** driver input, value between 0 and 1 indicating how strong the hand brake is pulled */
+    handBrakeInput: number;
+};
+
+/** a driven wheel is not allowed to slip more than this for the transmission to shift up */
+const MAX_SHIFT_UP_LONGITUDINAL_SLIP = 0.5;
+
+/** create a wheeled vehicle controller */
+export function create(settings: WheeledVehicleControllerSettings): WheeledVehicleController {
+    return {
+        type: VehicleControllerType.WHEELED,
+        engine: vehicleEngine.create(settings.engine),
+        transmission: vehicleTransmission.create(settings.transmission),
+        differentials: (settings.differentials ?? []).map((differential) => vehicleDifferential.create(differential)),
+        differentialLimitedSlipRatio: settings.differentialLimitedSlipRatio ?? 1.4,
+        forwardInput: 0,
+        rightInput: 0,
+        brakeInput: 0,
+        handBrakeInput: 0,
+    };
+}
+
+/** create a wheel for a wheeled vehicle */
+export function createWheel(settings: WheeledVehicleWheelSettings): WheeledVehicleWheel {
+    return {
+        ...wheel.makeWheel(settings),
+        inertia: settings.inertia ?? 0.9,
+        angularDamping: settings.angularDamping ?? 0.2,
+        maxSteerAngle: settings.maxSteerAngle ?? (70 * Math.PI) / 180,
+        longitudinalFriction: settings.longitudinalFriction
+            ? linearCurve.copy(linearCurve.create(), settings.longitudinalFriction)
+            : linearCurve.create([
+                  [0, 0],
+                  [0.06, 1.2],
+                  [0.2, 1],
+              ]),
+        lateralFriction: settings.lateralFriction
+            ? linearCurve.copy(linearCurve.create(), settings.lateralFriction)
+            : linearCurve.create([
+                  [0, 0],
+                  [3, 1.2],
+                  [20, 1],
+              ]),
+        maxBrakeTorque: settings.maxBrakeTorque ?? 1500,
+        maxHandBrakeTorque: settings.maxHandBrakeTorque ?? 4000,
+        longitudinalSlip: 0,
+        lateralSlip: 0,
+        combinedLongitudinalFriction: 0,
+        combinedLateralFriction: 0,
+        brakeImpulse: 0,
+    };
+}
+
+/**
+ * Set the driver input
+ * @param forward value between -1 and 1 for auto transmission and between 0 and 1 indicating desired driving direction and amount the gas pedal is pressed
+ * @param right value between -1 and 1 indicating desired steering angle (1 = right)
+ * @param brake value between 0 and 1 indicating how strong the brake pedal is pressed
+ * @param handBrake value between 0 and 1 indicating how strong the hand brake is pulled
+ */
+export function setDriverInput(
+    controller: WheeledVehicleController,
+    forward: number,
+    right: number,
+    brake: number,
+    handBrake: number,
+): void {
+    controller.forwardInput = forward;
+    controller.rightInput = right;
+    controller.brakeInput = brake;
+    controller.handBrakeInput = handBrake;
+}
+
+/** update steering before the wheel collision tests */
+export function preCollide(controller: WheeledVehicleController, vehicle: VehicleConstraint, _deltaTime: number): void {
+    for (const w of vehicle.wheels as WheeledVehicleWheel[]) {
+        w.steerAngle = -controller.rightInput * w.maxSteerAngle;
+    }
+}
+
+const _updateWheel_relativeVelocity = /* @__PURE__ */ vec3.create();
+
+/** update wheel rotation and calculate slip and friction */
+function updateWheel(w: WheeledVehicleWheel, bodies: Bodies, vehicleBodyIndex: number, deltaTime: number): void {
+    // angular damping: dw/dt = -c * w, approximated with the first terms of the taylor expansion of e^(-c * dt)
+    w.angularVelocity *= Math.max(0, 1 - w.angularDamping * deltaTime);
+
+    // update rotation of wheel
+    w.angle = (w.angle + w.angularVelocity * deltaTime) % (2 * Math.PI);
+
+    if (!wheel.hasContact(w)) {
+        w.longitudinalSlip = 0;
+        w.lateralSlip = 0;
+        w.combinedLongitudinalFriction = 0;
+        w.combinedLateralFriction = 0;
+        return;
+    }
+
+    const vehicleBody = bodies.pool[vehicleBodyIndex];
+    const contactBody = bodies.pool[w.contactBodyIndex];
+
+    // calculate relative velocity between wheel contact point and floor, cancel the velocity in the normal direction
+    const relativeVelocity = rigidBody.getVelocityAtPoint(_updateWheel_relativeVelocity, vehicleBody, w.contactPosition);
+    vec3.subtract(relativeVelocity, relativeVelocity, w.contactPointVelocity);
+    vec3.scaleAndAdd(relativeVelocity, relativeVelocity, w.contactNormal, -vec3.dot(w.contactNormal, relativeVelocity));
+    const relativeLongitudinalVelocity = vec3.dot(relativeVelocity, w.contactLongitudinal);
+
+    // longitudinal friction is based on the difference between the velocity of the rolling wheel and the ground
+    const denominator =
+        relativeLongitudinalVelocity < 0
+            ? -Math.max(1e-3, -relativeLongitudinalVelocity)
+            : Math.max(1e-3, relativeLongitudinalVelocity);
+    w.longitudinalSlip = Math.abs((w.angularVelocity * w.radius - relativeLongitudinalVelocity) / denominator);
+    const longitudinalSlipFriction = linearCurve.getValue(w.longitudinalFriction, w.longitudinalSlip);
+
+    // lateral friction is based on the slip angle
+    const relativeVelocityLength = vec3.length(relativeVelocity);
+    w.lateralSlip =
+        relativeVelocityLength < 1e-3
+            ? 0
+            : Math.acos(Math.min(1, Math.abs(relativeLongitudinalVelocity) / relativeVelocityLength));
+    const lateralSlipFriction = linearCurve.getValue(w.lateralFriction, (w.lateralSlip * 180) / Math.PI);
+
+    // combine tire friction with the friction of the ground
+    w.combinedLongitudinalFriction = Math.sqrt(longitudinalSlipFriction * contactBody.friction);
+    w.combinedLateralFriction = Math.sqrt(lateralSlipFriction * contactBody.friction);
+}
+
+const _drivenWheels: number[] = [];
+const _drivenFractions: number[] = [];
+const _drivenRatios: number[] = [];
+const _differentialTorqueRatios: number[] = [];
+const _torqueRatio = /* @__PURE__ */ vehicleDifferential.createTorqueRatio();
+
+/** add a wheel driven by the engine, fraction is the fraction of the engine torque, ratio is the rotation ratio between engine and wheel */
+function addDrivenWheel(wheelIndex: number, fraction: number, ratio: number): void {
+    _drivenWheels.push(wheelIndex);
+    _drivenFractions.push(fraction);
+    _drivenRatios.push(ratio);
+}
+
+/** collect the wheels driven by the engine and the fraction of the engine torque each wheel receives */
+function collectDrivenWheels(
+    controller: WheeledVehicleController,
+    wheels: WheeledVehicleWheel[],
+    transmissionRatio: number,
+): void {
+    _drivenWheels.length = 0;
+    _drivenFractions.length = 0;
+    _drivenRatios.length = 0;
+
+    const differentials = controller.differentials;
+    if (differentials.length === 0) return;
+
+    // distribute torque over differentials according to their engine torque ratio
+    _differentialTorqueRatios.length = differentials.length;
+    for (let i = 0; i < differentials.length; i++) {
+        _differentialTorqueRatios[i] = differentials[i].engineTorqueRatio;
+    }
+
+    // limited slip between differentials, redirect torque to the slowest differential
+    if (differentials.length > 1 && controller.differentialLimitedSlipRatio < Number.POSITIVE_INFINITY) {
+        let minOmega = Number.POSITIVE_INFINITY;
+        let maxOmega = 0;
+        let slowest = -1;
+        for (let i = 0; i < differentials.length; i++) {
+            const d = differentials[i];
+            let omega = 0;
+            let count = 0;
+            if (d.leftWheel !== -1) {
+                omega += Math.abs(wheels[d.leftWheel].angularVelocity);
+                count++;
+            }
+            if (d.rightWheel !== -1) {
+                omega += Math.abs(wheels[d.rightWheel].angularVelocity);
+                count++;
+            }
+            if (count === 0) continue;
+            omega = Math.max(1e-3, omega / count);
+            if (omega < minOmega) {
+                minOmega = omega;
+                slowest = i;
+            }
+            maxOmega = Math.max(maxOmega, omega);
+        }
+
+        if (slowest !== -1) {
+            const alpha = Math.min((maxOmega / minOmega - 1) / (controller.differentialLimitedSlipRatio - 1), 1);
+            for (let i = 0; i < differentials.length; i++) {
+                _differentialTorqueRatios[i] = _differentialTorqueRatios[i] * (1 - alpha) + (i === slowest ? alpha : 0);
+            }
+        }
+    }
+
+    for (let i = 0; i < differentials.length; i++) {
+        const d = differentials[i];
+        const ratio = transmissionRatio * d.differentialRatio;
+        const differentialTorqueRatio = _differentialTorqueRatios[i];
+
+        if (d.leftWheel !== -1 && d.rightWheel !== -1) {
+            vehicleDifferential.calculateTorqueRatio(
+                _torqueRatio,
+                d,
+                wheels[d.leftWheel].angularVelocity,
+                wheels[d.rightWheel].angularVelocity,
+            );
+            addDrivenWheel(d.leftWheel, differentialTorqueRatio * _torqueRatio.left, ratio);
+            addDrivenWheel(d.rightWheel, differentialTorqueRatio * _torqueRatio.right, ratio);
+        } else if (d.leftWheel !== -1) {
+            addDrivenWheel(d.leftWheel, differentialTorqueRatio, ratio);
+        } else if (d.rightWheel !== -1) {
+            addDrivenWheel(d.rightWheel, differentialTorqueRatio, ratio);
+        }
+    }
+}
+
+/**
+ * Solve the linear system a * x = b using gaussian elimination with partial pivoting.
+ * a is a row major n x n matrix and is destroyed, the solution is written to b.
+ * @returns false if the matrix is singular
+ */
+function solveLinearSystem(a: number[], b: number[], n: number): boolean {
+    for (let col = 0; col < n; col++) {
+        // find pivot
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row * n + col]) > Math.abs(a[pivot * n + col])) {
+                pivot = row;
+            }
+        }
+        if (Math.abs(a[pivot * n + col]) < 1e-12) return false;
+
+        // swap rows
+        if (pivot !== col) {
+            for (let k = 0; k < n; k++) {
+                const tmp = a[col * n + k];
+                a[col * n + k] = a[pivot * n + k];
+                a[pivot * n + k] = tmp;
+            }
+            const tmp = b[col];
+            b[col] = b[pivot];
+            b[pivot] = tmp;
+        }
+
+        // eliminate column below the pivot
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row * n + col] / a[col * n + col];
+            if (factor === 0) continue;
+            for (let k = col; k < n; k++) {
+                a[row * n + k] -= factor * a[col * n + k];
+            }
+            b[row] -= factor * b[col];
+        }
+    }
+
+    // back substitution
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = b[row];
+        for (let k = row + 1; k < n; k++) {
+            sum -= a[row * n + k] * b[k];
+        }
+        b[row] = sum / a[row * n + row];
+    }
+
+    return true;
+}
+
+const _matrix: number[] = [];
+const _rhs: number[] = [];
+
+/**
+ * Update the engine and the driven wheels simultaneously using an implicit euler step.
+ * The clutch applies torque = clutchStrength * (engine velocity - velocity at clutch), where the velocity at clutch is the
+ * torque fraction weighted sum of the driven wheel velocities multiplied by their ratio.
+ */
+function updateEngineAndDrivenWheels(
+    engine: VehicleEngine,
+    wheels: WheeledVehicleWheel[],
+    engineTorque: number,
+    clutchStrength: number,
+    deltaTime: number,
+): void {
+    const numDriven = _drivenWheels.length;
+    const n = numDriven + 1;
+    _matrix.length = n * n;
+    _rhs.length = n;
+    _matrix.fill(0);
+
+    // engine row: Ie * (we' - we) / dt = Te - clutch torque
+    const engineFactor = (deltaTime * clutchStrength) / engine.inertia;
+    _matrix[0] = 1 + engineFactor;
+    for (let j = 0; j < numDriven; j++) {
+        _matrix[1 + j] = -engineFactor * _drivenFractions[j] * _drivenRatios[j];
+    }
+    _rhs[0] = vehicleEngine.getAngularVelocity(engine) + (deltaTime * engineTorque) / engine.inertia;
+
+    // wheel rows: Iw * (ww' - ww) / dt = ratio * fraction * clutch torque
+    for (let i = 0; i < numDriven; i++) {
+        const w = wheels[_drivenWheels[i]];
+        const row = (1 + i) * n;
+        const wheelFactor = (deltaTime * _drivenRatios[i] * _drivenFractions[i] * clutchStrength) / w.inertia;
+        _matrix[row] = -wheelFactor;
+        for (let j = 0; j < numDriven; j++) {
+            _matrix[row + 1 + j] = wheelFactor * _drivenFractions[j] * _drivenRatios[j];
+        }
+        _matrix[row + 1 + i] += 1;
+        _rhs[1 + i] = w.angularVelocity;
+    }
+
+    if (!solveLinearSystem(_matrix, _rhs, n)) {
+        vehicleEngine.applyTorque(engine, engineTorque, deltaTime);
+        return;
+    }
+
+    vehicleEngine.setAngularVelocity(engine, _rhs[0]);
+    for (let i = 0; i < numDriven; i++) {
+        wheels[_drivenWheels[i]].angularVelocity = _rhs[1 + i];
+    }
+}
+
+/** update wheels, engine, transmission and brakes after the wheel collision tests */
+export function postCollide(
+    controller: WheeledVehicleController,
+    vehicle: VehicleConstraint,
+    world: World,
+    deltaTime: number,
+): void {
+    const wheels = vehicle.wheels as WheeledVehicleWheel[];
+    const { engine, transmission } = controller;
+
+    // update wheel angle and friction, do this before applying torque to the wheels (as friction will slow them down again)
+    for (const w of wheels) {
+        updateWheel(w, world.bodies, vehicle.bodyIndexA, deltaTime);
+    }
+
+    // in auto transmission mode, don't accelerate the engine when switching gears
+    let forwardInput = Math.abs(controller.forwardInput);
+    if (transmission.mode === TransmissionMode.AUTO) {
+        forwardInput *= transmission.clutchFriction;
+    }
+
+    // apply engine damping and calculate engine torque
+    vehicleEngine.applyDamping(engine, deltaTime);
+    const engineTorque = vehicleEngine.getTorque(engine, forwardInput);
+
+    // only shift up when the driven wheels are on the ground and not slipping
+    collectDrivenWheels(controller, wheels, 0);
+    let canShiftUp = _drivenWheels.length > 0;
+    for (const wheelIndex of _drivenWheels) {
+        const w = wheels[wheelIndex];
+        if (!wheel.hasContact(w) || w.longitudinalSlip > MAX_SHIFT_UP_LONGITUDINAL_SLIP) {
+            canShiftUp = false;
+            break;
+        }
+    }
+
+    // update transmission
+    vehicleTransmission.update(transmission, deltaTime, engine.currentRPM, controller.forwardInput, canShiftUp);
+
+    // update engine and driven wheels
+    const transmissionRatio = vehicleTransmission.getCurrentRatio(transmission);
+    const clutchStrength = transmission.clutchStrength * transmission.clutchFriction;
+    collectDrivenWheels(controller, wheels, transmissionRatio);
+    if (transmissionRatio !== 0 && clutchStrength > 0 && _drivenWheels.length > 0) {
+        updateEngineAndDrivenWheels(engine, wheels, engineTorque, clutchStrength, deltaTime);
+    } else {
+        // engine is not connected to the wheels
+        vehicleEngine.applyTorque(engine, engineTorque, deltaTime);
+    }
+
+    // braking
+    for (const w of wheels) {
+        // combine brake with hand brake torque
+        const brakeTorque = controller.brakeInput * w.maxBrakeTorque + controller.handBrakeInput * w.maxHandBrakeTorque;
+        w.brakeImpulse = 0;
+        if (brakeTorque <= 0) continue;
+
+        // calculate how much torque is needed to stop the wheel from rotating in this time step
+        const brakeTorqueToLockWheel = (Math.abs(w.angularVelocity) * w.inertia) / deltaTime;
+        if (brakeTorque > brakeTorqueToLockWheel) {
+            // wheel is locked, the remaining torque brakes the vehicle through the tire
+            w.angularVelocity = 0;
+            w.brakeImpulse = ((brakeTorque - brakeTorqueToLockWheel) * deltaTime) / w.radius;
+        } else {
+            // slow down the wheel
+            w.angularVelocity -= (Math.sign(w.angularVelocity) * brakeTorque * deltaTime) / w.inertia;
+        }
+    }
+}
+
+const _solve_relativeVelocity = /* @__PURE__ */ vec3.create();
+const _solve_maxLateralImpulses: number[] = [];
+
+/** solve the longitudinal and lateral tire constraints, called once per velocity iteration, returns true if an impulse was applied */
+export function solveLongitudinalAndLateralConstraints(
+    _controller: WheeledVehicleController,
+    vehicle: VehicleConstraint,
+    bodies: Bodies,
+    _deltaTime: number,
+): boolean {
+    const wheels = vehicle.wheels as WheeledVehicleWheel[];
+    const vehicleBody = bodies.pool[vehicle.bodyIndexA];
+    let impulse = false;
+
+    _solve_maxLateralImpulses.length = wheels.length;
+
+    for (let i = 0; i < wheels.length; i++) {
+        const w = wheels[i];
+        if (!wheel.hasContact(w)) continue;
+
+        const contactBody = bodies.pool[w.contactBodyIndex];
+
+        // calculate max impulse that the tire can apply on the ground
+        const suspensionLambda = wheel.getSuspensionLambda(w);
+        const maxLongitudinalFrictionImpulse = w.combinedLongitudinalFriction * suspensionLambda;
+        _solve_maxLateralImpulses[i] = w.combinedLateralFriction * suspensionLambda;
+
+        // calculate relative velocity between wheel contact point and floor in longitudinal direction
+        const relativeVelocity = rigidBody.getVelocityAtPoint(_solve_relativeVelocity, vehicleBody, w.contactPosition);
+        vec3.subtract(relativeVelocity, relativeVelocity, w.contactPointVelocity);
+        const relativeLongitudinalVelocity = vec3.dot(relativeVelocity, w.contactLongitudinal);
+
+        if (w.brakeImpulse !== 0) {
+            // limit brake force by max tire friction
+            const brakeImpulse = Math.min(w.brakeImpulse, maxLongitudinalFrictionImpulse);
+
+            // apply the brakes against the direction of travel, never accelerate the vehicle.
+            // once the wheel is locked we assume the brakes keep it locked, so the wheel rotation is not updated
+            if (relativeLongitudinalVelocity >= 0) {
+                impulse = wheel.solveLongitudinalConstraintPart(w, vehicleBody, contactBody, -brakeImpulse, 0) || impulse;
+            } else {
+                impulse = wheel.solveLongitudinalConstraintPart(w, vehicleBody, contactBody, 0, brakeImpulse) || impulse;
+            }
+        } else {
+            // apply the linear impulse that makes the velocity difference between wheel and ground zero in one step
+            const desiredAngularVelocity = relativeLongitudinalVelocity / w.radius;
+            const linearImpulse = ((w.angularVelocity - desiredAngularVelocity) * w.inertia) / w.radius;
+
+            // limit the impulse by max tire friction
+            const prevLambda = w.longitudinalPart.totalLambda;
+            const lambda = Math.min(
+                Math.max(prevLambda + linearImpulse, -maxLongitudinalFrictionImpulse),
+                maxLongitudinalFrictionImpulse,
+            );
+            impulse = wheel.solveLongitudinalConstraintPart(w, vehicleBody, contactBody, lambda, lambda) || impulse;
+
+            // update the angular velocity of the wheel according to the lambda that was applied
+            w.angularVelocity -= ((w.longitudinalPart.totalLambda - prevLambda) * w.radius) / w.inertia;
+        }
+    }
+
+    for (let i = 0; i < wheels.length; i++) {
+        const w = wheels[i];
+        if (!wheel.hasContact(w)) continue;
+
+        // lateral friction
+        const contactBody = bodies.pool[w.contactBodyIndex];
+        const maxLateralImpulse = _solve_maxLateralImpulses[i];
+        impulse = wheel.solveLateralConstraintPart(w, vehicleBody, contactBody, -maxLateralImpulse, maxLateralImpulse) || impulse;
+    }
+
+    return impulse;
+}
+
+/** whether the controller allows the vehicle to go to sleep */
+export function allowSleep(controller: WheeledVehicleController): boolean {
+    return (
+        controller.forwardInput === 0 &&
+        vehicleTransmission.allowSleep(controller.transmission) &&
+        vehicleEngine.allowSleep(controller.engine)
+    );
+}
+
+/** save the controller state for world state snapshots */
+export function saveState(controller: WheeledVehicleController, vehicle: VehicleConstraint, recorder: StateRecorder): void {
+    stateRecorder.writeFloat64(recorder, controller.forwardInput);
+    stateRecorder.writeFloat64(recorder, controller.rightInput);
+    stateRecorder.writeFloat64(recorder, controller.brakeInput);
+    stateRecorder.writeFloat64(recorder, controller.handBrakeInput);
+    vehicleEngine.saveState(controller.engine, recorder);
+    vehicleTransmission.saveState(controller.transmission, recorder);
+
+    for (const w of vehicle.wheels as WheeledVehicleWheel[]) {
+        stateRecorder.writeFloat64(recorder, w.longitudinalSlip);
+        stateRecorder.writeFloat64(recorder, w.lateralSlip);
+        stateRecorder.writeFloat64(recorder, w.combinedLongitudinalFriction);
+        stateRecorder.writeFloat64(recorder, w.combinedLateralFriction);
+        stateRecorder.writeFloat64(recorder, w.brakeImpulse);
+    }
+}
+
+/** restore the controller state written by saveState */
+export function restoreState(controller: WheeledVehicleController, vehicle: VehicleConstraint, recorder: StateRecorder): void {
+    controller.forwardInput = stateRecorder.readFloat64(recorder);
+    controller.rightInput = stateRecorder.readFloat64(recorder);
+    controller.brakeInput = stateRecorder.readFloat64(recorder);
+    controller.handBrakeInput = stateRecorder.readFloat64(recorder);
+    vehicleEngine.restoreState(controller.engine, recorder);
+    vehicleTransmission.restoreState(controller.transmission, recorder);
+
+    for (const w of vehicle.wheels as WheeledVehicleWheel[]) {
+        w.longitudinalSlip = stateRecorder.readFloat64(recorder);
+        w.lateralSlip = stateRecorder.readFloat64(recorder);
+        w.combinedLongitudinalFriction = stateRecorder.readFloat64(recorder);
+        w.combinedLateralFriction = stateRecorder.readFloat64(recorder);
+        w.brakeImpulse = stateRecorder.readFloat64(recorder);
+    }
+}
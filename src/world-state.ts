@@ -0,0 +1,188 @@
+import { vec3 } from 'mathcat';
+import { MotionType } from './body/motion-type';
+import * as rigidBody from './body/rigid-body';
+import { INACTIVE_BODY_INDEX } from './body/sleep';
+import * as constraints from './constraints/constraints';
+import * as contacts from './contacts';
+import * as sensors from './sensors';
+import * as softBody from './soft-body/soft-body';
+import * as stateRecorder from './utils/state-recorder';
+import type { World } from './world';
+
+/** version of the binary world state layout, bumped whenever the layout changes */
+export const WORLD_STATE_VERSION = 4;
+
+/**
+ * Saves the simulation state of a world into a compact binary snapshot.
+ *
+ * The snapshot contains everything that changes while stepping:
+ * body transforms, velocities, accumulated forces, sleep state and timers,
+ * the contact cache with its warm start impulses, whether constraints are enabled, constraint warm start impulses
+ * and motor state, soft body particle positions and velocities, the bodies overlapping each sensor, and the previous time step.
+ *
+ * It does not contain the world structure (bodies, shapes, constraints, settings).
+ * A snapshot can only be restored into the same world, or into a world that was
+ * built identically, e.g. for rollback networking.
+ *
+ * @param world the world to save
+ * @returns binary snapshot of the world simulation state
+ */
+export function saveWorldState(world: World): Uint8Array {
+    const recorder = stateRecorder.create();
+
+    stateRecorder.writeInt32(recorder, WORLD_STATE_VERSION);
+    stateRecorder.writeFloat64(recorder, world.previousTimeStep);
+
+    // bodies
+    const pool = world.bodies.pool;
+    stateRecorder.writeInt32(recorder, pool.length);
+
+    for (const body of pool) {
+        stateRecorder.writeBool(recorder, body._pooled);
+        if (body._pooled) continue;
+
+        stateRecorder.writeFloat64(recorder, body.id);
+        stateRecorder.writeInt32(recorder, body.motionType);
+
+        stateRecorder.writeVec3(recorder, body.position);
+        stateRecorder.writeQuat(recorder, body.quaternion);
+        stateRecorder.writeVec3(recorder, body.centerOfMassPosition);
+
+        stateRecorder.writeBool(recorder, body.sleeping);
+        stateRecorder.writeInt32(recorder, body.headContactKey);
+        stateRecorder.writeInt32(recorder, body.contactCount);
+
+        // static bodies have no motion state
+        if (body.motionType === MotionType.STATIC) continue;
+
+        const mp = body.motionProperties;
+        stateRecorder.writeVec3(recorder, mp.linearVelocity);
+        stateRecorder.writeVec3(recorder, mp.angularVelocity);
+        stateRecorder.writeVec3(recorder, mp.force);
+        stateRecorder.writeVec3(recorder, mp.torque);
+
+        for (const sphere of mp.sleepTestSpheres) {
+            stateRecorder.writeVec3(recorder, sphere.center);
+            stateRecorder.writeFloat64(recorder, sphere.radius);
+        }
+        stateRecorder.writeFloat64(recorder, mp.sleepTestTimer);
+    }
+
+    // active bodies, the order is kept so bodies are visited in the same order after restoring
+    const activeBodyCount = world.bodies.activeBodyCount;
+    stateRecorder.writeInt32(recorder, activeBodyCount);
+    for (let i = 0; i < activeBodyCount; i++) {
+        stateRecorder.writeInt32(recorder, world.bodies.activeBodyIndices[i]);
+    }
+
+    // contact cache
+    contacts.saveState(world.contacts, recorder);
+
+    // constraints
+    constraints.saveState(world.constraints, recorder);
+
+    // soft bodies
+    softBody.saveState(world.softBodies, recorder);
+
+    // sensor overlaps
+    sensors.saveState(world.sensors, recorder);
+
+    return stateRecorder.toBytes(recorder);
+}
+
+const _restoreWorldState_centerOfMassPosition = /* @__PURE__ */ vec3.create();
+
+/**
+ * Restores a snapshot created with saveWorldState.
+ *
+ * The world must contain the same bodies and constraints as the world the snapshot was saved from.
+ * After restoring, stepping the world produces bit-identical results to stepping the original world
+ * from the point the snapshot was taken.
+ *
+ * @param world the world to restore into
+ * @param snapshot binary snapshot from saveWorldState
+ */
+export function restoreWorldState(world: World, snapshot: Uint8Array): void {
+    const recorder = stateRecorder.fromBytes(snapshot);
+
+    const version = stateRecorder.readInt32(recorder);
+    if (version !== WORLD_STATE_VERSION) {
+        throw new Error(`Unsupported world state version ${version}, expected ${WORLD_STATE_VERSION}`);
+    }
+
+    world.previousTimeStep = stateRecorder.readFloat64(recorder);
+
+    // bodies
+    const pool = world.bodies.pool;
+    if (stateRecorder.readInt32(recorder) !== pool.length) {
+        throw new Error('World state does not match the world bodies');
+    }
+
+    for (const body of pool) {
+        const pooled = stateRecorder.readBool(recorder);
+        if (pooled !== body._pooled) {
+            throw new Error('World state does not match the world bodies');
+        }
+        if (pooled) continue;
+
+        const id = stateRecorder.readFloat64(recorder);
+        const motionType = stateRecorder.readInt32(recorder);
+        if (id !== body.id || motionType !== body.motionType) {
+            throw new Error(`World state does not match body ${body.id}`);
+        }
+
+        stateRecorder.readVec3(body.position, recorder);
+        stateRecorder.readQuat(body.quaternion, recorder);
+        stateRecorder.readVec3(_restoreWorldState_centerOfMassPosition, recorder);
+
+        // update the AABB and broadphase, then restore the exact center of mass
+        // position, which is the primary property integrated by the solver
+        rigidBody.setTransform(world, body, body.position, body.quaternion, false);
+        vec3.copy(body.centerOfMassPosition, _restoreWorldState_centerOfMassPosition);
+
+        body.sleeping = stateRecorder.readBool(recorder);
+        body.headContactKey = stateRecorder.readInt32(recorder);
+        body.contactCount = stateRecorder.readInt32(recorder);
+        body.activeIndex = INACTIVE_BODY_INDEX;
+
+        if (body.motionType === MotionType.STATIC) continue;
+
+        const mp = body.motionProperties;
+        stateRecorder.readVec3(mp.linearVelocity, recorder);
+        stateRecorder.readVec3(mp.angularVelocity, recorder);
+        stateRecorder.readVec3(mp.force, recorder);
+        stateRecorder.readVec3(mp.torque, recorder);
+
+        for (const sphere of mp.sleepTestSpheres) {
+            stateRecorder.readVec3(sphere.center, recorder);
+            sphere.radius = stateRecorder.readFloat64(recorder);
+        }
+        mp.sleepTestTimer = stateRecorder.readFloat64(recorder);
+    }
+
+    // active bodies
+    const activeBodyCount = stateRecorder.readInt32(recorder);
+    world.bodies.activeBodyIndices.length = activeBodyCount;
+    world.bodies.activeBodyCount = activeBodyCount;
+    for (let i = 0; i < activeBodyCount; i++) {
+        const bodyIndex = stateRecorder.readInt32(recorder);
+        world.bodies.activeBodyIndices[i] = bodyIndex;
+        pool[bodyIndex].activeIndex = i;
+    }
+
+    // contact cache
+    contacts.restoreState(world.contacts, recorder);
+
+    // constraints
+    constraints.restoreState(world.constraints, recorder);
+
+    // soft bodies
+    softBody.restoreState(world.softBodies, recorder);
+
+    // sensor overlaps
+    sensors.restoreState(world.sensors, recorder);
+
+    if (!stateRecorder.isAtEnd(recorder)) {
+        throw new Error('Unexpected trailing world state data');
+    }
+}
@@ -6,6 +6,9 @@ import * as constraints from './constraints/constraints';
 import * as contactConstraints from './constraints/contact-constraints';
 import * as contacts from './contacts';
 import * as islands from './islands';
+import * as sensors from './sensors';
+import type { BodyActivationListener } from './listener';
+import * as softBodies from './soft-body/soft-bodies';
 import type { WorldSettings } from './world-settings';
 
 /** physics world state */
@@ -19,6 +22,9 @@ export type World = {
     /** bodies state */
     bodies: bodies.Bodies;
 
+    /** soft bodies state */
+    softBodies: softBodies.SoftBodies;
+
     /** contact constraint state (manages all active constraints and cache) */
     contactConstraints: contactConstraints.ContactConstraints;
 
@@ -34,8 +40,14 @@ export type World = {
     /** continuous collision detection state */
     ccd: ccd.CCD;
 
+    /** bodies overlapping each sensor body */
+    sensors: sensors.Sensors;
+
     /** previous frame's delta time (for warm start ratio calculation) */
     previousTimeStep: number;
+
+    /** optional listener for body activation and deactivation events */
+    bodyActivationListener: BodyActivationListener | undefined;
 };
 
 /**
@@ -47,12 +59,15 @@ export function createWorld(settings: WorldSettings): World {
     return {
         settings,
         bodies: bodies.init(),
+        softBodies: softBodies.init(),
         broadphase: broadphase.init(settings.layers),
         contactConstraints: contactConstraints.init(),
         constraints: constraints.init(),
         contacts: contacts.init(),
         islands: islands.init(),
         ccd: ccd.init(),
+        sensors: sensors.init(),
         previousTimeStep: 0,
+        bodyActivationListener: undefined,
     };
 }
@@ -13,7 +13,7 @@ import type {
     SwingTwistConstraint,
     World,
 } from 'crashcat';
-import { ConstraintType, MotionType, rigidBody, ShapeType, triangleMeshBvh } from 'crashcat';
+import { ConstraintType, heightField, MotionType, rigidBody, ShapeType, triangleMeshBvh } from 'crashcat';
 
 export enum BodyColorMode {
     INSTANCE,
@@ -29,8 +29,11 @@ type ShapeKey =
     | 'unit-cone'
     | 'unit-cylinder'
     | 'unit-plane'
+    | `triangle:${number}`
     | `triangle-mesh:${number}`
-    | `convex-hull:${number}`;
+    | `height-field:${number}`
+    | `convex-hull:${number}`
+    | `tapered:${number}`;
 
 type GeometryCache = Map<
     ShapeKey,
@@ -69,6 +72,22 @@ function createUnitCylinderGeometry(): THREE.BufferGeometry {
     return new THREE.CylinderGeometry(0.5, 0.5, 1, 16);
 }
 
+function createTriangleGeometry(shape: Shape & { type: ShapeType.TRIANGLE }): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+
+    // Both windings, the triangle collides on both sides
+    const { a, b, c } = shape;
+    const positions = new Float32Array([...a, ...b, ...c, ...c, ...b, ...a]);
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+    // Generate dummy UVs (required by BatchedMesh)
+    geometry.setAttribute('uv', new THREE.BufferAttribute(new Float32Array(12), 2));
+
+    geometry.computeVertexNormals();
+
+    return geometry;
+}
+
 function createTriangleMeshGeometry(shape: Shape & { type: ShapeType.TRIANGLE_MESH }): THREE.BufferGeometry {
     const geometry = new THREE.BufferGeometry();
 
@@ -103,6 +122,74 @@ function createTriangleMeshGeometry(shape: Shape & { type: ShapeType.TRIANGLE_ME
     return geometry;
 }
 
+function createHeightFieldGeometry(shape: Shape & { type: ShapeType.HEIGHT_FIELD }): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    const { sampleCountX, sampleCountZ, heights, offset, scale } = shape;
+
+    // One vertex per sample, holes are flattened (they are not referenced by any triangle)
+    const positions = new Float32Array(sampleCountX * sampleCountZ * 3);
+    for (let z = 0; z < sampleCountZ; z++) {
+        for (let x = 0; x < sampleCountX; x++) {
+            const i = z * sampleCountX + x;
+            const height = heightField.isHole(shape, x, z) ? 0 : heights[i];
+            positions[i * 3 + 0] = offset[0] + x * scale[0];
+            positions[i * 3 + 1] = offset[1] + height * scale[1];
+            positions[i * 3 + 2] = offset[2] + z * scale[2];
+        }
+    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+    // Two triangles per cell, skipping triangles that touch a hole
+    const indices: number[] = [];
+    for (let z = 0; z < sampleCountZ - 1; z++) {
+        for (let x = 0; x < sampleCountX - 1; x++) {
+            const i1 = z * sampleCountX + x;
+            const i2 = i1 + sampleCountX;
+            const i3 = i1 + 1;
+            const i4 = i2 + 1;
+            const hole1 = heightField.isHole(shape, x, z);
+            const hole4 = heightField.isHole(shape, x + 1, z + 1);
+            if (!hole1 && !hole4 && !heightField.isHole(shape, x, z + 1)) {
+                indices.push(i1, i2, i4);
+            }
+            if (!hole1 && !hole4 && !heightField.isHole(shape, x + 1, z)) {
+                indices.push(i1, i4, i3);
+            }
+        }
+    }
+    geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indices), 1));
+
+    // Generate dummy UVs (required by BatchedMesh)
+    const uvs = new Float32Array(sampleCountX * sampleCountZ * 2);
+    geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+
+    geometry.computeVertexNormals();
+
+    return geometry;
+}
+
+function createTaperedGeometry(
+    shape: Shape & { type: ShapeType.TAPERED_CAPSULE | ShapeType.TAPERED_CYLINDER },
+): THREE.BufferGeometry {
+    if (shape.type === ShapeType.TAPERED_CYLINDER) {
+        return new THREE.CylinderGeometry(shape.topRadius, shape.bottomRadius, shape.halfHeight * 2, 32);
+    }
+
+    // Revolve the outline: the bottom sphere up to where the side touches it, then the top sphere
+    const h = shape.halfHeightOfTaperedCylinder;
+    const alpha = Math.asin(shape.sinAlpha);
+    const points: THREE.Vector2[] = [];
+    for (let i = 0; i <= 8; i++) {
+        const angle = -Math.PI / 2 + ((alpha + Math.PI / 2) * i) / 8;
+        points.push(new THREE.Vector2(shape.bottomRadius * Math.cos(angle), -h + shape.bottomRadius * Math.sin(angle)));
+    }
+    for (let i = 0; i <= 8; i++) {
+        const angle = alpha + ((Math.PI / 2 - alpha) * i) / 8;
+        points.push(new THREE.Vector2(shape.topRadius * Math.cos(angle), h + shape.topRadius * Math.sin(angle)));
+    }
+    return new THREE.LatheGeometry(points, 32);
+}
+
 function createConvexHullGeometry(shape: Shape & { type: ShapeType.CONVEX_HULL }): THREE.BufferGeometry {
     const geometry = new THREE.BufferGeometry();
     const vertices: number[] = [];
@@ -595,6 +682,9 @@ const _instanceColor = new THREE.Color();
 const _planeNormalDefault = new THREE.Vector3();
 const _planeNormalTarget = new THREE.Vector3();
 const _identityMatrix = new THREE.Matrix4();
+const _heightFieldA = vec3.create();
+const _heightFieldB = vec3.create();
+const _heightFieldC = vec3.create();
 
 // mutable index for tracking position during shape traversal
 type MutableIndex = { value: number };
@@ -718,6 +808,27 @@ function addShapeInstances(
             break;
         }
 
+        case ShapeType.TRIANGLE: {
+            const triangleId = state.nextTriangleMeshId++;
+            const key: ShapeKey = `triangle:${triangleId}`;
+
+            const geometry = createTriangleGeometry(shape);
+            ensureBatchedMeshGeometryCapacity(state.bodies.batchedMesh, state, geometry);
+            const geometryId = state.bodies.batchedMesh.addGeometry(geometry);
+
+            state.bodies.geometryCache.set(key, {
+                geometry,
+                geometryId,
+                refCount: 1,
+            });
+
+            // triangle uses identity local transform (geometry is already in local space)
+            _worldShapeMatrix.multiplyMatrices(bodyMatrix, localMatrix);
+            const instanceId = addInstanceToBatchedMesh(state.bodies.batchedMesh, geometryId, _worldShapeMatrix, color);
+            instanceIds.push(instanceId);
+            break;
+        }
+
         case ShapeType.TRIANGLE_MESH: {
             const triangleMeshId = state.nextTriangleMeshId++;
             const key: ShapeKey = `triangle-mesh:${triangleMeshId}`;
@@ -739,6 +850,27 @@ function addShapeInstances(
             break;
         }
 
+        case ShapeType.HEIGHT_FIELD: {
+            const heightFieldId = state.nextTriangleMeshId++;
+            const key: ShapeKey = `height-field:${heightFieldId}`;
+
+            const geometry = createHeightFieldGeometry(shape);
+            ensureBatchedMeshGeometryCapacity(state.bodies.batchedMesh, state, geometry);
+            const geometryId = state.bodies.batchedMesh.addGeometry(geometry);
+
+            state.bodies.geometryCache.set(key, {
+                geometry,
+                geometryId,
+                refCount: 1,
+            });
+
+            // height field uses identity local transform (geometry is already in local space)
+            _worldShapeMatrix.multiplyMatrices(bodyMatrix, localMatrix);
+            const instanceId = addInstanceToBatchedMesh(state.bodies.batchedMesh, geometryId, _worldShapeMatrix, color);
+            instanceIds.push(instanceId);
+            break;
+        }
+
         case ShapeType.CONVEX_HULL: {
             const convexHullId = state.nextTriangleMeshId++;
             const key: ShapeKey = `convex-hull:${convexHullId}`;
@@ -760,6 +892,28 @@ function addShapeInstances(
             break;
         }
 
+        case ShapeType.TAPERED_CAPSULE:
+        case ShapeType.TAPERED_CYLINDER: {
+            const taperedId = state.nextTriangleMeshId++;
+            const key: ShapeKey = `tapered:${taperedId}`;
+
+            const geometry = createTaperedGeometry(shape);
+            ensureBatchedMeshGeometryCapacity(state.bodies.batchedMesh, state, geometry);
+            const geometryId = state.bodies.batchedMesh.addGeometry(geometry);
+
+            state.bodies.geometryCache.set(key, {
+                geometry,
+                geometryId,
+                refCount: 1,
+            });
+
+            // tapered shapes use identity local transform (geometry is already in local space)
+            _worldShapeMatrix.multiplyMatrices(bodyMatrix, localMatrix);
+            const instanceId = addInstanceToBatchedMesh(state.bodies.batchedMesh, geometryId, _worldShapeMatrix, color);
+            instanceIds.push(instanceId);
+            break;
+        }
+
         case ShapeType.COMPOUND: {
             for (const child of shape.children) {
                 const [tx, ty, tz] = child.position;
@@ -903,7 +1057,9 @@ function updateShapeInstances(
             break;
         }
 
-        case ShapeType.TRIANGLE_MESH: {
+        case ShapeType.TRIANGLE:
+        case ShapeType.TRIANGLE_MESH:
+        case ShapeType.HEIGHT_FIELD: {
             _worldShapeMatrix.multiplyMatrices(bodyMatrix, localMatrix);
             mesh.setMatrixAt(instanceIds[index.value], _worldShapeMatrix);
             mesh.setColorAt(instanceIds[index.value], color);
@@ -911,7 +1067,9 @@ function updateShapeInstances(
             break;
         }
 
-        case ShapeType.CONVEX_HULL: {
+        case ShapeType.CONVEX_HULL:
+        case ShapeType.TAPERED_CAPSULE:
+        case ShapeType.TAPERED_CYLINDER: {
             _worldShapeMatrix.multiplyMatrices(bodyMatrix, localMatrix);
             mesh.setMatrixAt(instanceIds[index.value], _worldShapeMatrix);
             mesh.setColorAt(instanceIds[index.value], color);
@@ -1223,6 +1381,26 @@ function createEdgeWireframeForShape(
             break;
         }
 
+        case ShapeType.TRIANGLE: {
+            // Add three edges: A->B, B->C, C->A
+            for (const [from, to] of [
+                [shape.a, shape.b],
+                [shape.b, shape.c],
+                [shape.c, shape.a],
+            ]) {
+                _position.set(from[0], from[1], from[2]).applyMatrix4(parentMatrix);
+                linePositions.push(_position.x, _position.y, _position.z);
+                lineColors.push(color.r, color.g, color.b);
+
+                _position.set(to[0], to[1], to[2]).applyMatrix4(parentMatrix);
+                linePositions.push(_position.x, _position.y, _position.z);
+                lineColors.push(color.r, color.g, color.b);
+            }
+
+            localTransforms.push(parentMatrix.clone());
+            break;
+        }
+
         case ShapeType.TRIANGLE_MESH: {
             // For triangle meshes, render all triangle edges directly instead of using EdgesGeometry
             // EdgesGeometry with angle threshold often produces poor results for complex meshes
@@ -1279,6 +1457,53 @@ function createEdgeWireframeForShape(
             break;
         }
 
+        case ShapeType.HEIGHT_FIELD: {
+            // Render all triangle edges, same as triangle meshes
+            const triangleCount = heightField.getTriangleCount(shape);
+
+            for (let i = 0; i < triangleCount; i++) {
+                if (!heightField.getTriangleVertices(_heightFieldA, _heightFieldB, _heightFieldC, shape, i)) {
+                    continue;
+                }
+
+                // Add three edges: A->B, B->C, C->A
+                for (const [from, to] of [
+                    [_heightFieldA, _heightFieldB],
+                    [_heightFieldB, _heightFieldC],
+                    [_heightFieldC, _heightFieldA],
+                ]) {
+                    _position.set(from[0], from[1], from[2]).applyMatrix4(parentMatrix);
+                    linePositions.push(_position.x, _position.y, _position.z);
+                    lineColors.push(color.r, color.g, color.b);
+
+                    _position.set(to[0], to[1], to[2]).applyMatrix4(parentMatrix);
+                    linePositions.push(_position.x, _position.y, _position.z);
+                    lineColors.push(color.r, color.g, color.b);
+                }
+            }
+
+            localTransforms.push(parentMatrix.clone());
+            break;
+        }
+
+        case ShapeType.TAPERED_CAPSULE:
+        case ShapeType.TAPERED_CYLINDER: {
+            const geometry = createTaperedGeometry(shape);
+            const edgesGeometry = new THREE.EdgesGeometry(geometry, 15);
+            geometry.dispose();
+
+            const positions = edgesGeometry.attributes.position.array as Float32Array;
+            for (let i = 0; i < positions.length; i += 3) {
+                _position.set(positions[i], positions[i + 1], positions[i + 2]);
+                _position.applyMatrix4(parentMatrix);
+                linePositions.push(_position.x, _position.y, _position.z);
+                lineColors.push(color.r, color.g, color.b);
+            }
+            geometries.push(edgesGeometry);
+            localTransforms.push(parentMatrix.clone());
+            break;
+        }
+
         case ShapeType.CONVEX_HULL: {
             const geometry = createConvexHullGeometry(shape);
             const edgesGeometry = new THREE.EdgesGeometry(geometry, 30);
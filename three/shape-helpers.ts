@@ -5,13 +5,18 @@ import {
     type CompoundShape,
     type ConvexHullShape,
     type CylinderShape,
+    type HeightFieldShape,
     type PlaneShape,
     type ScaledShape,
     type Shape,
+    heightField,
     ShapeType,
     type SphereShape,
+    type TaperedCapsuleShape,
+    type TaperedCylinderShape,
     type TransformedShape,
     type TriangleMeshShape,
+    type TriangleShape,
 } from 'crashcat';
 
 export type ShapeHelperOptions = {
@@ -33,10 +38,18 @@ export function createShapeHelper(shape: Shape, options?: ShapeHelperOptions): S
             return createCapsuleHelper(shape, options);
         case ShapeType.CYLINDER:
             return createCylinderHelper(shape, options);
+        case ShapeType.TAPERED_CAPSULE:
+            return createTaperedCapsuleHelper(shape, options);
+        case ShapeType.TAPERED_CYLINDER:
+            return createTaperedCylinderHelper(shape, options);
         case ShapeType.CONVEX_HULL:
             return createConvexHullHelper(shape, options);
+        case ShapeType.TRIANGLE:
+            return createTriangleHelper(shape, options);
         case ShapeType.TRIANGLE_MESH:
             return createTriangleMeshHelper(shape, options);
+        case ShapeType.HEIGHT_FIELD:
+            return createHeightFieldHelper(shape, options);
         case ShapeType.COMPOUND:
             return createCompoundHelper(shape, options);
         case ShapeType.TRANSFORMED:
@@ -118,6 +131,52 @@ function createCylinderHelper(shape: CylinderShape, options?: ShapeHelperOptions
     };
 }
 
+function createTaperedCapsuleHelper(shape: TaperedCapsuleShape, options?: ShapeHelperOptions): ShapeHelper {
+    // Revolve the outline: the bottom sphere up to where the side touches it, then the top sphere
+    const h = shape.halfHeightOfTaperedCylinder;
+    const alpha = Math.asin(shape.sinAlpha);
+    const points: THREE.Vector2[] = [];
+    for (let i = 0; i <= 16; i++) {
+        const angle = -Math.PI / 2 + ((alpha + Math.PI / 2) * i) / 16;
+        points.push(new THREE.Vector2(shape.bottomRadius * Math.cos(angle), -h + shape.bottomRadius * Math.sin(angle)));
+    }
+    for (let i = 0; i <= 16; i++) {
+        const angle = alpha + ((Math.PI / 2 - alpha) * i) / 16;
+        points.push(new THREE.Vector2(shape.topRadius * Math.cos(angle), h + shape.topRadius * Math.sin(angle)));
+    }
+
+    const geometry = new THREE.LatheGeometry(points, 32);
+    const material = options?.material || new THREE.MeshStandardMaterial({ color: 0x888888, wireframe: false });
+    const mesh = new THREE.Mesh(geometry, material);
+
+    return {
+        object: mesh,
+        dispose: () => {
+            geometry.dispose();
+            if (!options?.material) {
+                material.dispose();
+            }
+        },
+    };
+}
+
+function createTaperedCylinderHelper(shape: TaperedCylinderShape, options?: ShapeHelperOptions): ShapeHelper {
+    // Three.js CylinderGeometry params: (radiusTop, radiusBottom, height, radialSegments)
+    const geometry = new THREE.CylinderGeometry(shape.topRadius, shape.bottomRadius, shape.halfHeight * 2, 64);
+    const material = options?.material || new THREE.MeshStandardMaterial({ color: 0x888888, wireframe: false });
+    const mesh = new THREE.Mesh(geometry, material);
+
+    return {
+        object: mesh,
+        dispose: () => {
+            geometry.dispose();
+            if (!options?.material) {
+                material.dispose();
+            }
+        },
+    };
+}
+
 function createConvexHullHelper(shape: ConvexHullShape, options?: ShapeHelperOptions): ShapeHelper {
     const geometry = new THREE.BufferGeometry();
     const vertices: number[] = [];
@@ -170,6 +229,27 @@ function createConvexHullHelper(shape: ConvexHullShape, options?: ShapeHelperOpt
     };
 }
 
+function createTriangleHelper(shape: TriangleShape, options?: ShapeHelperOptions): ShapeHelper {
+    const geometry = new THREE.BufferGeometry();
+    const positions = new Float32Array([...shape.a, ...shape.b, ...shape.c]);
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.computeVertexNormals();
+
+    // the triangle collides on both sides
+    const material = options?.material || new THREE.MeshStandardMaterial({ color: 0x888888, side: THREE.DoubleSide });
+    const mesh = new THREE.Mesh(geometry, material);
+
+    return {
+        object: mesh,
+        dispose: () => {
+            geometry.dispose();
+            if (!options?.material) {
+                material.dispose();
+            }
+        },
+    };
+}
+
 function createTriangleMeshHelper(shape: TriangleMeshShape, options?: ShapeHelperOptions): ShapeHelper {
     const geometry = new THREE.BufferGeometry();
 
@@ -205,6 +285,58 @@ function createTriangleMeshHelper(shape: TriangleMeshShape, options?: ShapeHelpe
     };
 }
 
+function createHeightFieldHelper(shape: HeightFieldShape, options?: ShapeHelperOptions): ShapeHelper {
+    const geometry = new THREE.BufferGeometry();
+    const { sampleCountX, sampleCountZ, heights, offset, scale } = shape;
+
+    // One vertex per sample, holes are flattened (they are not referenced by any triangle)
+    const positions = new Float32Array(sampleCountX * sampleCountZ * 3);
+    for (let z = 0; z < sampleCountZ; z++) {
+        for (let x = 0; x < sampleCountX; x++) {
+            const i = z * sampleCountX + x;
+            const height = heightField.isHole(shape, x, z) ? 0 : heights[i];
+            positions[i * 3 + 0] = offset[0] + x * scale[0];
+            positions[i * 3 + 1] = offset[1] + height * scale[1];
+            positions[i * 3 + 2] = offset[2] + z * scale[2];
+        }
+    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+    // Two triangles per cell, skipping triangles that touch a hole
+    const indices: number[] = [];
+    for (let z = 0; z < sampleCountZ - 1; z++) {
+        for (let x = 0; x < sampleCountX - 1; x++) {
+            const i1 = z * sampleCountX + x;
+            const i2 = i1 + sampleCountX;
+            const i3 = i1 + 1;
+            const i4 = i2 + 1;
+            const hole1 = heightField.isHole(shape, x, z);
+            const hole4 = heightField.isHole(shape, x + 1, z + 1);
+            if (!hole1 && !hole4 && !heightField.isHole(shape, x, z + 1)) {
+                indices.push(i1, i2, i4);
+            }
+            if (!hole1 && !hole4 && !heightField.isHole(shape, x + 1, z)) {
+                indices.push(i1, i4, i3);
+            }
+        }
+    }
+    geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indices), 1));
+    geometry.computeVertexNormals();
+
+    const material = options?.material || new THREE.MeshStandardMaterial({ color: 0x888888, wireframe: false });
+    const mesh = new THREE.Mesh(geometry, material);
+
+    return {
+        object: mesh,
+        dispose: () => {
+            geometry.dispose();
+            if (!options?.material) {
+                material.dispose();
+            }
+        },
+    };
+}
+
 function createCompoundHelper(shape: CompoundShape, options?: ShapeHelperOptions): ShapeHelper {
     const group = new THREE.Group();
     const childHelpers: ShapeHelper[] = [];
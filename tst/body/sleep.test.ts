@@ -1,6 +1,15 @@
 import { vec3 } from 'mathcat';
 import { describe, expect, test } from 'vitest';
-import { box, capsule, MotionType, type RigidBody, rigidBody, sphere, updateWorld } from '../../src';
+import {
+    type BodyActivationListener,
+    box,
+    capsule,
+    MotionType,
+    type RigidBody,
+    rigidBody,
+    sphere,
+    updateWorld,
+} from '../../src';
 import { createTestWorld } from '../helpers';
 
 describe('Body Sleeping', () => {
@@ -384,4 +393,54 @@ describe('Body Sleeping', () => {
         // Body should not be sleeping (has velocity)
         expect(body.sleeping).toBe(false);
     });
+
+    test('should notify the body activation listener when bodies go to sleep and wake up', () => {
+        const { world, layers } = createTestWorld();
+        world.settings.gravityEnabled = false;
+
+        const events: string[] = [];
+        const listener: BodyActivationListener = {
+            onBodyActivated: (body) => events.push(`activated ${body.id}`),
+            onBodyDeactivated: (body) => {
+                // the body is already asleep and at rest when the listener is called
+                events.push(`deactivated ${body.id} ${body.sleeping} ${vec3.length(body.motionProperties.linearVelocity)}`);
+            },
+        };
+        world.bodyActivationListener = listener;
+
+        const body = rigidBody.create(world, {
+            shape: sphere.create({ radius: 1 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+        });
+        rigidBody.create(world, {
+            shape: sphere.create({ radius: 1 }),
+            objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+            motionType: MotionType.STATIC,
+            position: vec3.fromValues(0, -5, 0),
+        });
+        expect(events).toEqual([`activated ${body.id}`]);
+
+        // the island sleep check puts the body to sleep
+        events.length = 0;
+        const steps = Math.ceil((world.settings.sleeping.timeBeforeSleep + 0.1) * 60);
+        for (let i = 0; i < steps; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+        expect(events).toEqual([`deactivated ${body.id} true 0`]);
+
+        // waking an awake body or putting a sleeping body to sleep again doesn't notify
+        events.length = 0;
+        rigidBody.sleep(world, body);
+        rigidBody.wake(world, body);
+        rigidBody.wake(world, body);
+        expect(events).toEqual([`activated ${body.id}`]);
+
+        // changing to static and removing deactivate the body
+        events.length = 0;
+        rigidBody.setMotionType(world, body, MotionType.STATIC, false);
+        rigidBody.setMotionType(world, body, MotionType.DYNAMIC, false);
+        rigidBody.remove(world, body);
+        expect(events).toEqual([`deactivated ${body.id} false 0`, `activated ${body.id}`, `deactivated ${body.id} false 0`]);
+    });
 });
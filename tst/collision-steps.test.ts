@@ -0,0 +1,152 @@
+import { type Vec3, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import { box, type Listener, MotionType, type RigidBody, rigidBody, sphere, updateWorld } from '../src';
+import { createTestWorld } from './helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    const ground = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(10, 1, 10) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, -1, 0),
+    });
+
+    const createBall = (position: Vec3, gravityFactor = 1) =>
+        rigidBody.create(world, {
+            shape: sphere.create({ radius: 0.5 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position,
+            gravityFactor,
+        });
+
+    return { world, ground, createBall };
+}
+
+function createCountingListener() {
+    const counts = { pairValidated: 0, added: 0, persisted: 0, removed: 0 };
+    const listener: Listener = {
+        onBodyPairValidate: () => {
+            counts.pairValidated++;
+            return true;
+        },
+        onContactAdded: () => {
+            counts.added++;
+        },
+        onContactPersisted: () => {
+            counts.persisted++;
+        },
+        onContactRemoved: () => {
+            counts.removed++;
+        },
+    };
+    return { counts, listener };
+}
+
+describe('Collision Steps', () => {
+    test('should match updating the world with smaller time steps when nothing collides', () => {
+        const a = createScene();
+        const b = createScene();
+        const ballA = a.createBall(vec3.fromValues(0, 10, 0));
+        const ballB = b.createBall(vec3.fromValues(0, 10, 0));
+
+        for (let i = 0; i < 10; i++) {
+            updateWorld(a.world, undefined, 1 / 30, 2);
+            updateWorld(b.world, undefined, 1 / 60);
+            updateWorld(b.world, undefined, 1 / 60);
+        }
+
+        expect(ballA.position).toEqual(ballB.position);
+        expect(ballA.motionProperties.linearVelocity).toEqual(ballB.motionProperties.linearVelocity);
+        expect(a.world.previousTimeStep).toBe(1 / 60);
+    });
+
+    test('should apply forces during every collision step', () => {
+        const a = createScene();
+        const b = createScene();
+        const ballA = a.createBall(vec3.fromValues(0, 10, 0), 0);
+        const ballB = b.createBall(vec3.fromValues(0, 10, 0), 0);
+        const force = vec3.fromValues(1 / ballA.motionProperties.invMass, 0, 0);
+
+        // forces are cleared after the last collision step, so they act for the full time step
+        rigidBody.addForce(a.world, ballA, force, true);
+        updateWorld(a.world, undefined, 1, 4);
+        for (let i = 0; i < 4; i++) {
+            rigidBody.addForce(b.world, ballB, force, true);
+            updateWorld(b.world, undefined, 1 / 4);
+        }
+
+        expect(ballA.motionProperties.linearVelocity).toEqual(ballB.motionProperties.linearVelocity);
+        expect(ballA.motionProperties.force).toEqual([0, 0, 0]);
+    });
+
+    test('should find pairs and report contacts once per update', () => {
+        const { world, createBall } = createScene();
+        createBall(vec3.fromValues(0, 0.5, 0));
+        createBall(vec3.fromValues(3, 0.5, 0));
+        const { counts, listener } = createCountingListener();
+
+        updateWorld(world, listener, 1 / 30, 4);
+        expect(counts.pairValidated).toBe(2);
+        expect(counts.added).toBe(2);
+        expect(counts.persisted).toBe(0);
+
+        updateWorld(world, listener, 1 / 30, 4);
+        expect(counts.pairValidated).toBe(4);
+        expect(counts.added).toBe(2);
+        expect(counts.persisted).toBe(2);
+        expect(counts.removed).toBe(0);
+    });
+
+    test('should not report a contact that is removed and added back within an update', () => {
+        const { world, createBall } = createScene();
+        const ball = createBall(vec3.fromValues(0, 0.5, 0));
+        updateWorld(world, undefined, 1 / 60);
+        const { counts, listener } = createCountingListener();
+
+        // the ball jumps off the ground and lands again within the collision steps of a single update
+        rigidBody.setLinearVelocity(world, ball, vec3.fromValues(0, 2, 0));
+        updateWorld(world, listener, 0.5, 50);
+        expect(ball.position[1]).toBeLessThan(0.6);
+        expect(counts.added).toBe(0);
+        expect(counts.persisted).toBe(1);
+        expect(counts.removed).toBe(0);
+
+        // a contact that stays removed is reported once
+        rigidBody.setLinearVelocity(world, ball, vec3.fromValues(0, 10, 0));
+        updateWorld(world, listener, 1 / 30, 4);
+        expect(counts.added).toBe(0);
+        expect(counts.removed).toBe(1);
+    });
+
+    test('should keep contact settings from the listener for all collision steps', () => {
+        const { world, ground, createBall } = createScene();
+        const ball = createBall(vec3.fromValues(0, 0.6, 0));
+        rigidBody.setLinearVelocity(world, ball, vec3.fromValues(0, -6, 0));
+
+        // turn contacts with the ground into sensor contacts, the listener is only called in the first collision step
+        const listener: Listener = {
+            onContactAdded: (bodyA: RigidBody, _bodyB: RigidBody, _manifold, settings) => {
+                if (bodyA === ground) settings.isSensor = true;
+            },
+            onContactPersisted: (bodyA: RigidBody, _bodyB: RigidBody, _manifold, settings) => {
+                if (bodyA === ground) settings.isSensor = true;
+            },
+        };
+
+        for (let i = 0; i < 10; i++) {
+            updateWorld(world, listener, 1 / 30, 4);
+        }
+
+        expect(ball.position[1]).toBeLessThan(-1);
+    });
+
+    test('should validate the number of collision steps', () => {
+        const { world } = createScene();
+
+        expect(() => updateWorld(world, undefined, 1 / 60, 0)).toThrow();
+        expect(() => updateWorld(world, undefined, 1 / 60, 1.5)).toThrow();
+    });
+});
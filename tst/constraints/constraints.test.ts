@@ -0,0 +1,231 @@
+import { vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    type Constraint,
+    constraints,
+    fixedConstraint,
+    hingeConstraint,
+    type Listener,
+    MotionType,
+    MotorState,
+    motorSettings,
+    pointConstraint,
+    restoreWorldState,
+    rigidBody,
+    saveWorldState,
+    updateWorld,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    const anchor = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, 10, 0),
+    });
+
+    // a 10 kg box, its weight is about 98 N
+    const createBox = (x: number, y: number) =>
+        rigidBody.create(world, {
+            shape: box.create({ halfExtents: vec3.fromValues(0.25, 0.25, 0.25) }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(x, y, 0),
+            mass: 10,
+        });
+
+    const broken: Constraint[] = [];
+    const listener: Listener = {
+        onConstraintBroken: (constraint) => broken.push(constraint),
+    };
+
+    return { world, anchor, createBox, broken, listener };
+}
+
+describe('Constraints', () => {
+    test('should break a constraint when its force exceeds the break force', () => {
+        const { world, anchor, createBox, broken, listener } = createScene();
+        const body = createBox(0, 9);
+
+        // a rope holding the box below the anchor
+        const rope = pointConstraint.create(world, {
+            bodyIdA: anchor.id,
+            bodyIdB: body.id,
+            pointA: vec3.fromValues(0, 9.5, 0),
+            pointB: vec3.fromValues(0, 9.5, 0),
+            breakForce: 150,
+        });
+
+        for (let i = 0; i < 30; i++) {
+            updateWorld(world, listener, 1 / 60);
+        }
+        expect(broken).toHaveLength(0);
+        expect(body.position[1]).toBeCloseTo(9, 2);
+
+        // pull down with another 100 N
+        for (let i = 0; i < 30; i++) {
+            rigidBody.addForce(world, body, vec3.fromValues(0, -100, 0), true);
+            updateWorld(world, listener, 1 / 60);
+        }
+        expect(broken).toEqual([rope]);
+        expect(rope.enabled).toBe(false);
+        expect(body.position[1]).toBeLessThan(8);
+    });
+
+    test('should break a constraint when its torque exceeds the break torque', () => {
+        const { world, anchor, createBox, broken, listener } = createScene();
+
+        // a beam sticking out 1 m from the anchor, its weight applies about 98 Nm
+        const createBeam = (breakTorque: number) =>
+            fixedConstraint.create(world, {
+                bodyIdA: anchor.id,
+                bodyIdB: createBox(1, 10).id,
+                point1: vec3.fromValues(0, 10, 0),
+                point2: vec3.fromValues(0, 10, 0),
+                breakForce: 150,
+                breakTorque,
+            });
+
+        const strongBeam = createBeam(150);
+        const weakBeam = createBeam(50);
+
+        // the constraints only carry the weight after the first step, in which they stop the bodies from falling
+        updateWorld(world, undefined, 1 / 60);
+        for (let i = 0; i < 10; i++) {
+            updateWorld(world, listener, 1 / 60);
+        }
+
+        expect(broken).toEqual([weakBeam]);
+        expect(strongBeam.enabled).toBe(true);
+        expect(weakBeam.enabled).toBe(false);
+    });
+
+    test('should allow removing a broken constraint and restore it from a world state snapshot', () => {
+        const { world, anchor, createBox } = createScene();
+        const body = createBox(0, 9);
+
+        const rope = pointConstraint.create(world, {
+            bodyIdA: anchor.id,
+            bodyIdB: body.id,
+            pointA: vec3.fromValues(0, 9.5, 0),
+            pointB: vec3.fromValues(0, 9.5, 0),
+            breakForce: 50,
+        });
+
+        // breaking disables the constraint, restoring a snapshot enables it again
+        const snapshot = saveWorldState(world);
+        updateWorld(world, { onConstraintBroken: () => {} }, 1 / 60);
+        updateWorld(world, undefined, 1 / 60);
+        expect(rope.enabled).toBe(false);
+
+        restoreWorldState(world, snapshot);
+        expect(rope.enabled).toBe(true);
+
+        // removing the constraint during the callback, also with multiple collision steps
+        const listener: Listener = {
+            onConstraintBroken: (constraint) => constraints.removeConstraintById(world, constraint.id),
+        };
+        updateWorld(world, listener, 1 / 30, 2);
+        updateWorld(world, listener, 1 / 30, 2);
+        expect(pointConstraint.get(world, rope.id)).toBeUndefined();
+        expect(body.constraintIds).toHaveLength(0);
+    });
+
+    test('should report the impulses and forces holding a hanging body', () => {
+        const { world, anchor, createBox } = createScene();
+        const body = createBox(0, 9);
+        const rope = pointConstraint.create(world, {
+            bodyIdA: anchor.id,
+            bodyIdB: body.id,
+            pointA: vec3.fromValues(0, 9.5, 0),
+            pointB: vec3.fromValues(0, 9.5, 0),
+        });
+
+        const timeStep = 1 / 60;
+        for (let i = 0; i < 30; i++) {
+            updateWorld(world, undefined, timeStep);
+        }
+
+        const weight = 10 * -world.settings.gravity[1];
+        const impulses = constraints.createConstraintImpulses();
+        expect(constraints.getTotalImpulses(impulses, world, rope.id)).toBe(true);
+        expect(impulses.linearB[1] / (weight * timeStep)).toBeCloseTo(1, 2);
+
+        const forces = constraints.createConstraintImpulses();
+        expect(constraints.getTotalForces(forces, world, rope.id)).toBe(true);
+        expect(forces.linearB[0]).toBeCloseTo(0, 3);
+        expect(forces.linearB[1] / weight).toBeCloseTo(1, 2);
+        expect(forces.linearB[2]).toBeCloseTo(0, 3);
+        expect(forces.linearA[1]).toBeCloseTo(-forces.linearB[1], 6);
+
+        // the rope is attached right above the center of mass
+        expect(vec3.length(forces.angularB)).toBeCloseTo(0, 3);
+
+        // disabled and removed constraints
+        rope.enabled = false;
+        expect(constraints.getTotalForces(forces, world, rope.id)).toBe(true);
+        expect(forces.linearB).toEqual([0, 0, 0]);
+
+        constraints.removeConstraintById(world, rope.id);
+        expect(constraints.getTotalForces(forces, world, rope.id)).toBe(false);
+    });
+
+    test('should report the torque of a fixed constraint on each body', () => {
+        const { world, anchor, createBox } = createScene();
+
+        // a beam sticking out 1 m from the anchor's center of mass
+        const beam = fixedConstraint.create(world, {
+            bodyIdA: anchor.id,
+            bodyIdB: createBox(1, 10).id,
+            point1: vec3.fromValues(0, 10, 0),
+            point2: vec3.fromValues(0, 10, 0),
+        });
+
+        for (let i = 0; i < 30; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        const weight = 10 * -world.settings.gravity[1];
+        const forces = constraints.createConstraintImpulses();
+        constraints.getTotalForces(forces, world, beam.id);
+
+        // the beam is held up, the anchor is pulled down and twisted by the lever
+        expect(forces.linearB[1] / weight).toBeCloseTo(1, 2);
+        expect(forces.linearA[1] / weight).toBeCloseTo(-1, 2);
+        expect(forces.angularA[2] / weight).toBeCloseTo(-1, 2);
+
+        // gravity acts at the beam's center of mass, so the torques on it cancel out
+        expect(vec3.length(forces.angularB) / weight).toBeCloseTo(0, 2);
+    });
+
+    test('should report a motor torque at its limit', () => {
+        const { world, anchor, createBox } = createScene();
+
+        // a motor trying to hold a beam that weighs about 98 Nm around the hinge
+        const hinge = hingeConstraint.create(world, {
+            bodyIdA: anchor.id,
+            bodyIdB: createBox(1, 10).id,
+            pointA: vec3.fromValues(0, 10, 0),
+            pointB: vec3.fromValues(0, 10, 0),
+            hingeAxisA: vec3.fromValues(0, 0, 1),
+            hingeAxisB: vec3.fromValues(0, 0, 1),
+            normalAxisA: vec3.fromValues(1, 0, 0),
+            normalAxisB: vec3.fromValues(1, 0, 0),
+            motorSettings: { ...motorSettings.create(), minTorqueLimit: -50, maxTorqueLimit: 50 },
+        });
+        hingeConstraint.setMotorState(hinge, MotorState.VELOCITY);
+
+        for (let i = 0; i < 5; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        // the anchor's center of mass is on the hinge, so its torque around the hinge axis comes from the motor only
+        const forces = constraints.createConstraintImpulses();
+        constraints.getTotalForces(forces, world, hinge.id);
+        expect(forces.angularA[2]).toBeCloseTo(-50, 3);
+    });
+});
@@ -0,0 +1,124 @@
+import { type Vec3, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import { box, type Listener, MotionType, type RigidBody, rigidBody, type SolvedContact, updateWorld } from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    const ground = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(10, 1, 10) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, -1, 0),
+    });
+
+    const crate = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 0.5, 0),
+        restitution: 0,
+    });
+
+    return { world, ground, crate };
+}
+
+type SolvedEvent = {
+    bodyA: RigidBody;
+    bodyB: RigidBody;
+    normal: number[];
+    numContactPoints: number;
+    pointsOnA: number[][];
+    normalImpulse: number;
+    frictionImpulse: number[];
+};
+
+function createSolvedListener() {
+    const events: SolvedEvent[] = [];
+    const listener: Listener = {
+        onContactSolved: (bodyA: RigidBody, bodyB: RigidBody, solvedContact: SolvedContact) => {
+            events.push({
+                bodyA,
+                bodyB,
+                normal: [...solvedContact.normal],
+                numContactPoints: solvedContact.numContactPoints,
+                pointsOnA: solvedContact.contactPoints
+                    .slice(0, solvedContact.numContactPoints)
+                    .map((point) => [...point.positionOnA]),
+                normalImpulse: solvedContact.totalNormalImpulse,
+                frictionImpulse: [...solvedContact.totalFrictionImpulse],
+            });
+        },
+    };
+    return { events, listener };
+}
+
+describe('Contact Constraints', () => {
+    test('should report the impulse supporting a resting body', () => {
+        const { world, ground, crate } = createScene();
+        const { events, listener } = createSolvedListener();
+        const timeStep = 1 / 60;
+
+        for (let i = 0; i < 30; i++) {
+            events.length = 0;
+            updateWorld(world, listener, timeStep);
+        }
+
+        expect(events).toHaveLength(1);
+        const [event] = events;
+        expect(event.bodyA).toBe(ground);
+        expect(event.bodyB).toBe(crate);
+        expect(event.normal[1]).toBeCloseTo(1, 5);
+        expect(event.numContactPoints).toBe(4);
+        for (const point of event.pointsOnA) {
+            expect(point[1]).toBeCloseTo(0, 2);
+        }
+
+        // the ground carries the weight of the crate
+        const mass = 1 / crate.motionProperties.invMass;
+        const gravity = -world.settings.gravity[1];
+        expect(event.normalImpulse / (mass * gravity * timeStep)).toBeCloseTo(1, 2);
+        expect(vec3.length(event.frictionImpulse as Vec3)).toBeLessThan(1e-3 * event.normalImpulse);
+    });
+
+    test('should report the impact and friction impulses of a sliding body', () => {
+        const { world, crate } = createScene();
+        const { events, listener } = createSolvedListener();
+        const mass = 1 / crate.motionProperties.invMass;
+
+        // settle, then throw the crate down and sideways onto the ground
+        for (let i = 0; i < 30; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+        rigidBody.setLinearVelocity(world, crate, vec3.fromValues(4, -5, 0));
+        updateWorld(world, listener, 1 / 60);
+
+        expect(events).toHaveLength(1);
+        const [event] = events;
+
+        // the impact stops the downward velocity
+        expect(event.normalImpulse).toBeGreaterThan(mass * 5 * 0.9);
+
+        // friction acts against the sliding direction and stays within the friction cone
+        expect(event.frictionImpulse[0]).toBeLessThan(0);
+        expect(Math.abs(event.frictionImpulse[0])).toBeLessThanOrEqual(event.normalImpulse + 1e-6);
+    });
+
+    test('should report once per collision step', () => {
+        const { world } = createScene();
+        const { events, listener } = createSolvedListener();
+
+        updateWorld(world, listener, 1 / 30, 3);
+        expect(events).toHaveLength(3);
+    });
+
+    test('should not report sensor contacts', () => {
+        const { world, crate } = createScene();
+        const { events, listener } = createSolvedListener();
+        crate.sensor = true;
+
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toHaveLength(0);
+    });
+});
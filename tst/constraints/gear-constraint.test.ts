@@ -0,0 +1,197 @@
+import { type Quat, type Vec3, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    ConstraintType,
+    cylinder,
+    gearConstraint,
+    hingeConstraint,
+    MotionType,
+    MotorState,
+    rigidBody,
+    type SerializedWorld,
+    serialization,
+    updateWorld,
+    type World,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    const base = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(3, 0.1, 3) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, 0, 0),
+    });
+
+    // a small gear and a gear with twice the number of teeth, both spinning around the y axis
+    const gearA = rigidBody.create(world, {
+        shape: cylinder.create({ halfHeight: 0.1, radius: 0.5 }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(-1, 1, 0),
+    });
+
+    const gearB = rigidBody.create(world, {
+        shape: cylinder.create({ halfHeight: 0.1, radius: 1 }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(1.6, 1, 0),
+    });
+
+    const createHinge = (position: Vec3, bodyId: number) =>
+        hingeConstraint.create(world, {
+            bodyIdA: base.id,
+            bodyIdB: bodyId,
+            pointA: vec3.clone(position),
+            pointB: vec3.clone(position),
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            hingeAxisB: vec3.fromValues(0, 1, 0),
+            normalAxisA: vec3.fromValues(1, 0, 0),
+            normalAxisB: vec3.fromValues(1, 0, 0),
+        });
+
+    const hingeA = createHinge(gearA.position, gearA.id);
+    const hingeB = createHinge(gearB.position, gearB.id);
+
+    return { world, gearA, gearB, hingeA, hingeB, createHinge };
+}
+
+function getRotationAroundY(q: Quat) {
+    return 2 * Math.atan2(q[1], q[3]);
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+describe('Gear Constraint', () => {
+    test('should couple the rotation of two gears by the gear ratio', () => {
+        const { world, gearA, gearB, hingeA, hingeB } = createScene();
+
+        const gear = gearConstraint.create(world, {
+            bodyIdA: gearA.id,
+            bodyIdB: gearB.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            hingeAxisB: vec3.fromValues(0, 1, 0),
+            hingeConstraintIdA: hingeA.id,
+            hingeConstraintIdB: hingeB.id,
+        });
+        gearConstraint.setRatio(gear, 10, 20);
+        expect(gear.ratio).toBe(2);
+
+        // drive the small gear with the hinge motor
+        hingeConstraint.setMotorState(hingeA, MotorState.VELOCITY);
+        hingeConstraint.setTargetAngularVelocity(hingeA, 2);
+        step(world, 60);
+
+        // the big gear turns at half the rate in the opposite direction
+        const angularVelocityA = gearA.motionProperties.angularVelocity[1];
+        const angularVelocityB = gearB.motionProperties.angularVelocity[1];
+        expect(Math.abs(angularVelocityA)).toBeGreaterThan(0.5);
+        expect(angularVelocityB).toBeCloseTo(-angularVelocityA / 2, 3);
+
+        // the rotations stay coupled thanks to the drift correction through the hinges
+        const error = getRotationAroundY(gearA.quaternion) + 2 * getRotationAroundY(gearB.quaternion);
+        expect(Math.abs(error)).toBeLessThan(0.01);
+    });
+
+    test('should work without hinge constraints', () => {
+        const { world, gearA, gearB, hingeA } = createScene();
+
+        gearConstraint.create(world, {
+            bodyIdA: gearA.id,
+            bodyIdB: gearB.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            hingeAxisB: vec3.fromValues(0, 1, 0),
+            ratio: 0.5,
+        });
+
+        hingeConstraint.setMotorState(hingeA, MotorState.VELOCITY);
+        hingeConstraint.setTargetAngularVelocity(hingeA, 1);
+        step(world, 30);
+
+        const angularVelocityA = gearA.motionProperties.angularVelocity[1];
+        const angularVelocityB = gearB.motionProperties.angularVelocity[1];
+        expect(angularVelocityB).toBeCloseTo(-angularVelocityA * 2, 3);
+    });
+
+    test('should keep correcting drift after a serialization round trip', () => {
+        const { world, gearA, gearB, hingeA, createHinge } = createScene();
+
+        // reuse the slot of hinge A, so its id has a different sequence than after deserializing
+        hingeConstraint.remove(world, hingeA);
+        const reusedHingeA = createHinge(gearA.position, gearA.id);
+        const hingeB = world.constraints.pools[ConstraintType.HINGE]!.constraints[1];
+
+        gearConstraint.create(world, {
+            bodyIdA: gearA.id,
+            bodyIdB: gearB.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            hingeAxisB: vec3.fromValues(0, 1, 0),
+            hingeConstraintIdA: reusedHingeA.id,
+            hingeConstraintIdB: hingeB.id,
+            ratio: 2,
+        });
+        hingeConstraint.setMotorState(reusedHingeA, MotorState.VELOCITY);
+        hingeConstraint.setTargetAngularVelocity(reusedHingeA, 2);
+
+        const json = JSON.stringify(serialization.serializeWorld(world));
+        const restored = serialization.deserializeWorld(JSON.parse(json) as SerializedWorld);
+        step(restored, 60);
+
+        // the gear refers to the restored hinges
+        const restoredGear = restored.constraints.pools[ConstraintType.GEAR]!.constraints[0] as gearConstraint.GearConstraint;
+        const restoredHinges = restored.constraints.pools[ConstraintType.HINGE]!.constraints;
+        expect(restoredGear.hingeA.hingeConstraintId).toBe(restoredHinges[0].id);
+        expect(restoredGear.hingeB.hingeConstraintId).toBe(restoredHinges[1].id);
+        expect(restoredGear.hingeA.bodyIndexA).not.toBe(-1);
+        expect(restoredGear.hingeB.bodyIndexA).not.toBe(-1);
+
+        const restoredGearA = restored.bodies.pool[gearA.index];
+        const restoredGearB = restored.bodies.pool[gearB.index];
+        expect(Math.abs(restoredGearA.motionProperties.angularVelocity[1])).toBeGreaterThan(0.5);
+        const error = getRotationAroundY(restoredGearA.quaternion) + 2 * getRotationAroundY(restoredGearB.quaternion);
+        expect(Math.abs(error)).toBeLessThan(0.01);
+
+        // a gear referring to a hinge that is not in the serialized world
+        const data = serialization.serializeWorld(world);
+        data.constraints = data.constraints.filter((constraint) => constraint.type !== ConstraintType.HINGE);
+        expect(() => serialization.deserializeWorld(data)).toThrow('Invalid constraint reference');
+    });
+
+    test('should throw when a hinge constraint is removed before the gear', () => {
+        const { world, gearA, gearB, hingeA, hingeB } = createScene();
+
+        gearConstraint.create(world, {
+            bodyIdA: gearA.id,
+            bodyIdB: gearB.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            hingeAxisB: vec3.fromValues(0, 1, 0),
+            hingeConstraintIdA: hingeA.id,
+            hingeConstraintIdB: hingeB.id,
+        });
+
+        hingeConstraint.remove(world, hingeA);
+        expect(() => step(world, 1)).toThrow('Hinge constraint not found');
+    });
+
+    test('should throw when a hinge constraint does not belong to the gear', () => {
+        const { world, gearA, gearB, hingeB } = createScene();
+
+        expect(() =>
+            gearConstraint.create(world, {
+                bodyIdA: gearA.id,
+                bodyIdB: gearB.id,
+                hingeAxisA: vec3.fromValues(0, 1, 0),
+                hingeAxisB: vec3.fromValues(0, 1, 0),
+                hingeConstraintIdA: hingeB.id,
+            }),
+        ).toThrow();
+        expect(world.constraints.pools[ConstraintType.GEAR]?.constraints.length ?? 0).toBe(0);
+    });
+});
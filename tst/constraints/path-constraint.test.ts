@@ -0,0 +1,134 @@
+import { quat, type Vec3, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    MotionType,
+    MotorState,
+    type PathConstraintPath,
+    PathRotationConstraintType,
+    pathConstraint,
+    pathConstraintPath,
+    rigidBody,
+    updateWorld,
+    type World,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createCircle(radius: number, numPoints: number): PathConstraintPath {
+    const positions: Vec3[] = [];
+    for (let i = 0; i < numPoints; i++) {
+        const angle = (i / numPoints) * 2 * Math.PI;
+        positions.push(vec3.fromValues(radius * Math.cos(angle), 0, -radius * Math.sin(angle)));
+    }
+    return pathConstraintPath.fromCatmullRom(positions, vec3.fromValues(0, 1, 0), true);
+}
+
+function createScene(path: PathConstraintPath, rotationConstraintType: PathRotationConstraintType) {
+    const { world, layers } = createTestWorld();
+
+    const track = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, 0, 0),
+    });
+
+    // the cart starts at the first point of the path, lifted up so it does not touch the track body
+    const start = path.points[0].position;
+    const cart = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(0.4, 0.2, 0.2) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(start[0], start[1] + 2, start[2]),
+    });
+
+    const constraint = pathConstraint.create(world, {
+        bodyIdA: track.id,
+        bodyIdB: cart.id,
+        path,
+        pathPosition: vec3.fromValues(0, 2, 0),
+        rotationConstraintType,
+    });
+
+    return { world, track, cart, constraint };
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+describe('Path Constraint', () => {
+    test('should drive a cart around a looping track', () => {
+        const path = createCircle(5, 8);
+        const { world, cart, constraint } = createScene(path, PathRotationConstraintType.CONSTRAIN_TO_PATH);
+
+        pathConstraint.setMotorState(constraint, MotorState.VELOCITY);
+        pathConstraint.setTargetVelocity(constraint, 5);
+        step(world, 60);
+
+        // the cart moves along the track at the target speed instead of falling
+        expect(vec3.length(cart.motionProperties.linearVelocity)).toBeCloseTo(5, 1);
+        expect(cart.position[1]).toBeCloseTo(2, 2);
+        expect(pathConstraint.getPathFraction(constraint)).toBeGreaterThan(1);
+
+        // the cart stays on the track
+        const position = vec3.create();
+        const tangent = vec3.create();
+        const normal = vec3.create();
+        const binormal = vec3.create();
+        pathConstraintPath.getPointOnPath(position, tangent, normal, binormal, path, constraint.pathFraction);
+        vec3.add(position, position, vec3.fromValues(0, 2, 0));
+        expect(vec3.distance(position, cart.position)).toBeLessThan(0.01);
+
+        // the path frame attached to the cart (x = tangent) follows the track
+        const forward = vec3.transformQuat(vec3.create(), vec3.fromValues(1, 0, 0), constraint.localSpacePathRotationB);
+        vec3.transformQuat(forward, forward, cart.quaternion);
+        expect(vec3.dot(forward, tangent)).toBeGreaterThan(0.999);
+    });
+
+    test('should keep the rotation fixed when fully constrained', () => {
+        const path = createCircle(5, 8);
+        const { world, cart, constraint } = createScene(path, PathRotationConstraintType.FULLY_CONSTRAINED);
+
+        pathConstraint.setMotorState(constraint, MotorState.VELOCITY);
+        pathConstraint.setTargetVelocity(constraint, 5);
+        step(world, 60);
+
+        expect(pathConstraint.getPathFraction(constraint)).toBeGreaterThan(1);
+        expect(Math.abs(quat.dot(cart.quaternion, quat.create()))).toBeGreaterThan(0.9999);
+    });
+
+    test('should stop at the end of a path that does not loop', () => {
+        const path = pathConstraintPath.fromCatmullRom(
+            [vec3.fromValues(0, 0, 0), vec3.fromValues(2, 0, 0), vec3.fromValues(4, 0, 0)],
+            vec3.fromValues(0, 1, 0),
+        );
+        const { world, cart, constraint } = createScene(path, PathRotationConstraintType.FREE);
+        expect(pathConstraintPath.getPathMaxFraction(path)).toBe(2);
+
+        rigidBody.setLinearVelocity(world, cart, vec3.fromValues(5, 0, 0));
+        step(world, 60);
+
+        expect(cart.position[0]).toBeCloseTo(4, 2);
+        expect(cart.position[1]).toBeCloseTo(2, 2);
+        expect(pathConstraint.getPathFraction(constraint)).toBe(2);
+        expect(Math.abs(cart.motionProperties.linearVelocity[0])).toBeLessThan(0.01);
+    });
+
+    test('should drive to a target fraction with a position motor', () => {
+        const path = pathConstraintPath.fromCatmullRom(
+            [vec3.fromValues(0, 0, 0), vec3.fromValues(2, 0, 0), vec3.fromValues(4, 0, 1)],
+            vec3.fromValues(0, 1, 0),
+        );
+        const { world, constraint } = createScene(path, PathRotationConstraintType.CONSTRAIN_AROUND_NORMAL);
+
+        pathConstraint.setMotorState(constraint, MotorState.POSITION);
+        pathConstraint.setTargetPathFraction(constraint, 1.5);
+        step(world, 300);
+
+        expect(pathConstraint.getPathFraction(constraint)).toBeCloseTo(1.5, 2);
+        expect(pathConstraint.getTotalLambdaMotor(constraint)).toBeCloseTo(0, 2);
+    });
+});
@@ -0,0 +1,84 @@
+import { vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import { box, MotionType, pulleyConstraint, rigidBody, updateWorld, type World } from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene(massA: number, massB: number, ratio: number) {
+    const { world, layers } = createTestWorld();
+
+    // two boxes hanging 3 m below the pulley wheels
+    const bodyA = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(-2, 2, 0),
+        mass: massA,
+    });
+
+    const bodyB = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(2, 2, 0),
+        mass: massB,
+    });
+
+    const pulley = pulleyConstraint.create(world, {
+        bodyIdA: bodyA.id,
+        bodyIdB: bodyB.id,
+        pointA: vec3.fromValues(-2, 2.5, 0),
+        pointB: vec3.fromValues(2, 2.5, 0),
+        fixedPointA: vec3.fromValues(-2, 5.5, 0),
+        fixedPointB: vec3.fromValues(2, 5.5, 0),
+        ratio,
+    });
+
+    return { world, bodyA, bodyB, pulley };
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+describe('Pulley Constraint', () => {
+    test('should lift the lighter body when the heavier body falls', () => {
+        const { world, bodyA, bodyB, pulley } = createScene(20, 10, 1);
+        expect(pulley.minLength).toBe(0);
+        expect(pulley.maxLength).toBeCloseTo(6);
+
+        step(world, 30);
+
+        // the rope runs over the pulleys, so the heavier body pulls the lighter body up
+        expect(bodyA.position[1]).toBeLessThan(1.8);
+        expect(bodyB.position[1]).toBeGreaterThan(2.2);
+        expect(bodyA.position[1] + bodyB.position[1]).toBeCloseTo(4, 2);
+        expect(pulleyConstraint.getCurrentLength(pulley, world.bodies)).toBeCloseTo(6, 2);
+        expect(pulleyConstraint.getTotalLambda(pulley)).toBeLessThan(0);
+    });
+
+    test('should balance a block and tackle', () => {
+        // with a ratio of 2 body b moves half as far as body a, so it balances twice the weight
+        const { world, bodyA, bodyB, pulley } = createScene(10, 20, 2);
+        expect(pulley.maxLength).toBeCloseTo(9);
+
+        step(world, 60);
+
+        expect(bodyA.position[1]).toBeCloseTo(2, 2);
+        expect(bodyB.position[1]).toBeCloseTo(2, 2);
+        expect(vec3.length(bodyA.motionProperties.linearVelocity)).toBeLessThan(0.01);
+    });
+
+    test('should let the rope go slack', () => {
+        const { world, bodyA, bodyB, pulley } = createScene(10, 10, 1);
+        pulleyConstraint.setLength(pulley, -1, 10);
+
+        step(world, 30);
+
+        // both bodies fall freely until the rope is taut
+        expect(bodyA.position[1]).toBeLessThan(1);
+        expect(bodyB.position[1]).toBeLessThan(1);
+        expect(pulleyConstraint.getTotalLambda(pulley)).toBe(0);
+    });
+});
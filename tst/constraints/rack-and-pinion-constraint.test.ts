@@ -0,0 +1,204 @@
+import { type Quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    ConstraintType,
+    cylinder,
+    hingeConstraint,
+    MotionType,
+    MotorState,
+    rackAndPinionConstraint,
+    rigidBody,
+    type SerializedWorld,
+    serialization,
+    sliderConstraint,
+    updateWorld,
+    type World,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    const base = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(3, 0.1, 3) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, 0, 0),
+    });
+
+    // the pinion spins around the y axis, the rack next to it slides along the x axis
+    const pinion = rigidBody.create(world, {
+        shape: cylinder.create({ halfHeight: 0.1, radius: 0.5 }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 1, 0),
+    });
+
+    const rack = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(2, 0.1, 0.2) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 1, 1),
+    });
+
+    const hinge = hingeConstraint.create(world, {
+        bodyIdA: base.id,
+        bodyIdB: pinion.id,
+        pointA: vec3.fromValues(0, 1, 0),
+        pointB: vec3.fromValues(0, 1, 0),
+        hingeAxisA: vec3.fromValues(0, 1, 0),
+        hingeAxisB: vec3.fromValues(0, 1, 0),
+        normalAxisA: vec3.fromValues(1, 0, 0),
+        normalAxisB: vec3.fromValues(1, 0, 0),
+    });
+
+    const createSlider = () =>
+        sliderConstraint.create(world, {
+            bodyIdA: base.id,
+            bodyIdB: rack.id,
+            pointA: vec3.fromValues(0, 1, 1),
+            pointB: vec3.fromValues(0, 1, 1),
+            sliderAxisA: vec3.fromValues(1, 0, 0),
+            sliderAxisB: vec3.fromValues(1, 0, 0),
+            normalAxisA: vec3.fromValues(0, 1, 0),
+            normalAxisB: vec3.fromValues(0, 1, 0),
+        });
+
+    const slider = createSlider();
+
+    return { world, pinion, rack, hinge, slider, createSlider };
+}
+
+function getRotationAroundY(q: Quat) {
+    return 2 * Math.atan2(q[1], q[3]);
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+describe('Rack And Pinion Constraint', () => {
+    test('should translate the rack when the pinion rotates', () => {
+        const { world, pinion, rack, hinge, slider } = createScene();
+
+        const rackAndPinion = rackAndPinionConstraint.create(world, {
+            bodyIdA: pinion.id,
+            bodyIdB: rack.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            sliderAxisB: vec3.fromValues(1, 0, 0),
+            hingeConstraintId: hinge.id,
+            sliderConstraintId: slider.id,
+        });
+
+        // a 10 tooth pinion on a 2 m rack with 20 teeth moves the rack 1 m per revolution
+        rackAndPinionConstraint.setRatio(rackAndPinion, 20, 2, 10);
+        expect(rackAndPinion.ratio).toBeCloseTo(2 * Math.PI);
+
+        hingeConstraint.setMotorState(hinge, MotorState.VELOCITY);
+        hingeConstraint.setTargetAngularVelocity(hinge, 1);
+        step(world, 60);
+
+        const angularVelocity = pinion.motionProperties.angularVelocity[1];
+        expect(angularVelocity).toBeGreaterThan(0.5);
+        expect(rack.motionProperties.linearVelocity[0]).toBeCloseTo(angularVelocity / rackAndPinion.ratio, 3);
+
+        // the rotation and translation stay coupled thanks to the drift correction through the hinge and slider
+        const error = getRotationAroundY(pinion.quaternion) - rackAndPinion.ratio * rack.position[0];
+        expect(Math.abs(error)).toBeLessThan(0.01);
+    });
+
+    test('should rotate the pinion when the rack is driven', () => {
+        const { world, pinion, rack, slider } = createScene();
+
+        rackAndPinionConstraint.create(world, {
+            bodyIdA: pinion.id,
+            bodyIdB: rack.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            sliderAxisB: vec3.fromValues(1, 0, 0),
+            ratio: 2,
+        });
+
+        sliderConstraint.setMotorState(slider, MotorState.VELOCITY);
+        sliderConstraint.setTargetVelocity(slider, -0.5);
+        step(world, 30);
+
+        expect(rack.motionProperties.linearVelocity[0]).toBeLessThan(-0.25);
+        expect(pinion.motionProperties.angularVelocity[1]).toBeCloseTo(2 * rack.motionProperties.linearVelocity[0], 3);
+    });
+
+    test('should keep correcting drift after a serialization round trip', () => {
+        const { world, pinion, rack, hinge, slider, createSlider } = createScene();
+
+        // reuse the slot of the slider, so its id has a different sequence than after deserializing
+        sliderConstraint.remove(world, slider);
+        const reusedSlider = createSlider();
+
+        rackAndPinionConstraint.create(world, {
+            bodyIdA: pinion.id,
+            bodyIdB: rack.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            sliderAxisB: vec3.fromValues(1, 0, 0),
+            hingeConstraintId: hinge.id,
+            sliderConstraintId: reusedSlider.id,
+            ratio: 2,
+        });
+        hingeConstraint.setMotorState(hinge, MotorState.VELOCITY);
+        hingeConstraint.setTargetAngularVelocity(hinge, 1);
+
+        const json = JSON.stringify(serialization.serializeWorld(world));
+        const restored = serialization.deserializeWorld(JSON.parse(json) as SerializedWorld);
+        step(restored, 60);
+
+        // the rack and pinion refers to the restored hinge and slider
+        const restoredRackAndPinion = restored.constraints.pools[ConstraintType.RACK_AND_PINION]!
+            .constraints[0] as rackAndPinionConstraint.RackAndPinionConstraint;
+        expect(restoredRackAndPinion.hinge.hingeConstraintId).toBe(
+            restored.constraints.pools[ConstraintType.HINGE]!.constraints[0].id,
+        );
+        expect(restoredRackAndPinion.slider.sliderConstraintId).toBe(
+            restored.constraints.pools[ConstraintType.SLIDER]!.constraints[0].id,
+        );
+        expect(restoredRackAndPinion.hinge.bodyIndexA).not.toBe(-1);
+        expect(restoredRackAndPinion.slider.bodyIndexA).not.toBe(-1);
+
+        const restoredPinion = restored.bodies.pool[pinion.index];
+        const restoredRack = restored.bodies.pool[rack.index];
+        expect(restoredPinion.motionProperties.angularVelocity[1]).toBeGreaterThan(0.5);
+        const error = getRotationAroundY(restoredPinion.quaternion) - 2 * restoredRack.position[0];
+        expect(Math.abs(error)).toBeLessThan(0.01);
+    });
+
+    test('should throw when the slider constraint is removed before the rack and pinion', () => {
+        const { world, pinion, rack, hinge, slider } = createScene();
+
+        rackAndPinionConstraint.create(world, {
+            bodyIdA: pinion.id,
+            bodyIdB: rack.id,
+            hingeAxisA: vec3.fromValues(0, 1, 0),
+            sliderAxisB: vec3.fromValues(1, 0, 0),
+            hingeConstraintId: hinge.id,
+            sliderConstraintId: slider.id,
+        });
+
+        sliderConstraint.remove(world, slider);
+        expect(() => step(world, 1)).toThrow('Slider constraint not found');
+    });
+
+    test('should throw when the slider constraint does not belong to the rack', () => {
+        const { world, pinion, rack, hinge } = createScene();
+
+        expect(() =>
+            rackAndPinionConstraint.create(world, {
+                bodyIdA: pinion.id,
+                bodyIdB: rack.id,
+                hingeAxisA: vec3.fromValues(0, 1, 0),
+                sliderAxisB: vec3.fromValues(1, 0, 0),
+                // the hinge constraint is not a slider constraint
+                sliderConstraintId: hinge.id,
+            }),
+        ).toThrow();
+    });
+});
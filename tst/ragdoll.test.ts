@@ -0,0 +1,313 @@
+import { type Quat, quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    filter,
+    INVALID_CONSTRAINT_ID,
+    MotionType,
+    MotorState,
+    type RagdollPartSettings,
+    ragdoll,
+    rigidBody,
+    sixDOFConstraint,
+    swingTwistConstraint,
+    updateWorld,
+} from '../src';
+import { createTestWorld } from './helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(10, 1, 10) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, -1, 0),
+    });
+
+    const createPart = (
+        name: string,
+        parentIndex: number,
+        position: [number, number, number],
+        pivot?: [number, number, number],
+    ): RagdollPartSettings => ({
+        name,
+        parentIndex,
+        position: vec3.fromValues(...position),
+        quaternion: quat.create(),
+        body: {
+            shape: box.create({ halfExtents: vec3.fromValues(0.1, 0.2, 0.1) }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+        },
+        toParent: pivot && {
+            position1: vec3.fromValues(...pivot),
+            position2: vec3.fromValues(...pivot),
+            twistAxis1: vec3.fromValues(0, 1, 0),
+            planeAxis1: vec3.fromValues(1, 0, 0),
+            twistAxis2: vec3.fromValues(0, 1, 0),
+            planeAxis2: vec3.fromValues(1, 0, 0),
+            normalHalfConeAngle: Math.PI / 4,
+            planeHalfConeAngle: Math.PI / 4,
+            twistMinAngle: -Math.PI / 4,
+            twistMaxAngle: Math.PI / 4,
+        },
+    });
+
+    // a pelvis with a spine and a head on top and a leg below
+    const parts = [
+        createPart('pelvis', -1, [0, 1, 0]),
+        createPart('spine', 0, [0, 1.4, 0], [0, 1.2, 0]),
+        createPart('head', 1, [0, 1.8, 0], [0, 1.6, 0]),
+        createPart('leg', 0, [0, 0.6, 0], [0, 0.8, 0]),
+    ];
+
+    return { world, layers, parts };
+}
+
+/** angle between two rotations */
+function getAngle(a: Quat, b: Quat) {
+    return 2 * Math.acos(Math.min(1, Math.abs(quat.dot(a, b))));
+}
+
+describe('Ragdoll', () => {
+    test('should create the bodies and constraints at the ragdoll transform', () => {
+        const { world, parts } = createScene();
+        const quaternion = quat.setAxisAngle(quat.create(), vec3.fromValues(0, 0, 1), Math.PI / 2);
+        const instance = ragdoll.create(world, { parts, position: vec3.fromValues(5, 2, 0), quaternion });
+
+        expect(instance.bodyIds).toHaveLength(4);
+        expect(instance.constraintIds[0]).toBe(INVALID_CONSTRAINT_ID);
+        expect(ragdoll.getPartIndex(instance, 'head')).toBe(2);
+        expect(ragdoll.getPartIndex(instance, 'tail')).toBe(-1);
+
+        // the head is 1.8 up in model space, which is rotated to point along -x
+        const head = rigidBody.get(world, instance.bodyIds[2])!;
+        expect(head.position[0]).toBeCloseTo(3.2, 5);
+        expect(head.position[1]).toBeCloseTo(2, 5);
+
+        // the head is connected to the spine
+        const neck = swingTwistConstraint.get(world, instance.constraintIds[2])!;
+        expect(neck.bodyIndexA).toBe(rigidBody.get(world, instance.bodyIds[1])!.index);
+        expect(neck.bodyIndexB).toBe(head.index);
+    });
+
+    test('should keep the parts together while falling onto the ground', () => {
+        const { world, parts } = createScene();
+        const instance = ragdoll.create(world, { parts, position: vec3.fromValues(0, 2, 0) });
+
+        for (let i = 0; i < 120; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        const pelvis = rigidBody.get(world, instance.bodyIds[0])!;
+        const spine = rigidBody.get(world, instance.bodyIds[1])!;
+        expect(pelvis.position[1]).toBeLessThan(1);
+        expect(vec3.distance(pelvis.position, spine.position)).toBeCloseTo(0.4, 1);
+    });
+
+    test('should only disable collisions between connected parts', () => {
+        const { world, parts } = createScene();
+        const a = ragdoll.create(world, { parts });
+        const b = ragdoll.create(world, { parts, position: vec3.fromValues(2, 0, 0) });
+
+        const shouldCollide = (idA: number, idB: number) => {
+            const bodyA = rigidBody.get(world, idA)!;
+            const bodyB = rigidBody.get(world, idB)!;
+            return filter.shouldPairCollide(
+                bodyA.collisionGroups,
+                bodyA.collisionMask,
+                bodyB.collisionGroups,
+                bodyB.collisionMask,
+            );
+        };
+
+        // pelvis - spine and spine - head are connected, pelvis - head and spine - leg are not
+        expect(shouldCollide(a.bodyIds[0], a.bodyIds[1])).toBe(false);
+        expect(shouldCollide(a.bodyIds[1], a.bodyIds[2])).toBe(false);
+        expect(shouldCollide(a.bodyIds[0], a.bodyIds[2])).toBe(true);
+        expect(shouldCollide(a.bodyIds[1], a.bodyIds[3])).toBe(true);
+
+        // parts of different ragdolls collide
+        expect(shouldCollide(a.bodyIds[0], b.bodyIds[1])).toBe(true);
+        expect(shouldCollide(a.bodyIds[2], b.bodyIds[1])).toBe(true);
+
+        // other bodies collide with all parts
+        const ground = world.bodies.pool[0];
+        expect(filter.shouldPairCollide(ground.collisionGroups, ground.collisionMask, ~0, ~0)).toBe(true);
+        for (const bodyId of a.bodyIds) {
+            const body = rigidBody.get(world, bodyId)!;
+            expect(filter.shouldPairCollide(body.collisionGroups, body.collisionMask, ~0, ~0)).toBe(true);
+        }
+    });
+
+    test('should keep the collision groups and mask of the part bodies', () => {
+        const { world, parts } = createScene();
+        const RAGDOLL_GROUP = 1 << 30;
+        const PLAYER_GROUP = 1 << 31;
+        const filteredParts = parts.map((part) => ({
+            ...part,
+            body: { ...part.body, collisionGroups: RAGDOLL_GROUP, collisionMask: ~PLAYER_GROUP },
+        }));
+        const instance = ragdoll.create(world, { parts: filteredParts });
+
+        for (const bodyId of instance.bodyIds) {
+            const body = rigidBody.get(world, bodyId)!;
+            expect(body.collisionGroups & RAGDOLL_GROUP).toBe(RAGDOLL_GROUP);
+            expect(body.collisionMask & PLAYER_GROUP).toBe(0);
+
+            // the player is still filtered out, other bodies still collide
+            expect(filter.shouldPairCollide(body.collisionGroups, body.collisionMask, PLAYER_GROUP, ~0)).toBe(false);
+            expect(filter.shouldPairCollide(body.collisionGroups, body.collisionMask, 1 << 29, ~0)).toBe(true);
+        }
+
+        const [pelvis, spine, head] = instance.bodyIds.map((bodyId) => rigidBody.get(world, bodyId)!);
+        expect(
+            filter.shouldPairCollide(pelvis.collisionGroups, pelvis.collisionMask, spine.collisionGroups, spine.collisionMask),
+        ).toBe(false);
+        expect(
+            filter.shouldPairCollide(pelvis.collisionGroups, pelvis.collisionMask, head.collisionGroups, head.collisionMask),
+        ).toBe(true);
+
+        // the ragdoll needs a free bit per part plus one
+        const noFreeBits = filteredParts.map((part) => ({ ...part, body: { ...part.body, collisionGroups: 0x7fffffff } }));
+        expect(() => ragdoll.create(world, { parts: noFreeBits })).toThrow('collision group bits');
+    });
+
+    test('should remove all bodies and constraints', () => {
+        const { world, parts } = createScene();
+        const instance = ragdoll.create(world, { parts });
+        const bodyIds = [...instance.bodyIds];
+        const constraintIds = [...instance.constraintIds];
+
+        ragdoll.remove(world, instance);
+
+        for (const bodyId of bodyIds) {
+            expect(rigidBody.get(world, bodyId)).toBeUndefined();
+        }
+        for (const constraintId of constraintIds.slice(1)) {
+            expect(swingTwistConstraint.get(world, constraintId)).toBeUndefined();
+        }
+        expect(instance.bodyIds).toHaveLength(0);
+    });
+
+    test('should validate the skeleton', () => {
+        const { world, parts } = createScene();
+
+        expect(() => ragdoll.create(world, { parts: [parts[1], parts[0]] })).toThrow();
+        expect(() => ragdoll.create(world, { parts: [parts[0], { ...parts[1], toParent: undefined }] })).toThrow();
+    });
+
+    test('should get the current pose relative to the model transform', () => {
+        const { world, parts } = createScene();
+        const quaternion = quat.setAxisAngle(quat.create(), vec3.fromValues(0, 1, 0), 1);
+        const instance = ragdoll.create(world, { parts, position: vec3.fromValues(3, 0, 1), quaternion });
+
+        const pose = ragdoll.createPose(instance);
+        vec3.set(pose.position, 3, 0, 1);
+        quat.copy(pose.quaternion, quaternion);
+        ragdoll.getPose(pose, world, instance);
+
+        for (let i = 0; i < parts.length; i++) {
+            expect(vec3.distance(pose.positions[i], parts[i].position)).toBeCloseTo(0, 5);
+            expect(getAngle(pose.quaternions[i], parts[i].quaternion)).toBeCloseTo(0, 5);
+        }
+    });
+
+    test('should drive the joints to a pose using motors', () => {
+        const { world, parts } = createScene();
+        world.settings.gravityEnabled = false;
+        const instance = ragdoll.create(world, { parts });
+
+        // bend the head forward relative to the spine, and twist the spine relative to the pelvis
+        const pose = ragdoll.createPose(instance);
+        const bend = quat.setAxisAngle(quat.create(), vec3.fromValues(1, 0, 0), 0.5);
+        const twist = quat.setAxisAngle(quat.create(), vec3.fromValues(0, 1, 0), 0.3);
+        quat.copy(pose.quaternions[1], twist);
+        quat.multiply(pose.quaternions[2], twist, bend);
+
+        for (let i = 0; i < 180; i++) {
+            ragdoll.driveToPoseUsingMotors(world, instance, pose);
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        const [pelvis, spine, head] = instance.bodyIds.map((id) => rigidBody.get(world, id)!);
+        const spineToHead = quat.multiply(quat.create(), quat.invert(quat.create(), spine.quaternion), head.quaternion);
+        const pelvisToSpine = quat.multiply(quat.create(), quat.invert(quat.create(), pelvis.quaternion), spine.quaternion);
+        expect(getAngle(spineToHead, bend)).toBeLessThan(0.02);
+        expect(getAngle(pelvisToSpine, twist)).toBeLessThan(0.02);
+
+        const neck = swingTwistConstraint.get(world, instance.constraintIds[2])!;
+        expect(neck.swingMotorState).toBe(MotorState.POSITION);
+        expect(neck.twistMotorState).toBe(MotorState.POSITION);
+    });
+
+    test('should drive six dof constraints of hand built ragdolls', () => {
+        const { world, layers } = createScene();
+        world.settings.gravityEnabled = false;
+
+        const createBody = (y: number) =>
+            rigidBody.create(world, {
+                shape: box.create({ halfExtents: vec3.fromValues(0.1, 0.2, 0.1) }),
+                objectLayer: layers.OBJECT_LAYER_MOVING,
+                motionType: MotionType.DYNAMIC,
+                position: vec3.fromValues(0, y, 0),
+            });
+        // a gap between the bodies keeps them from colliding
+        const upper = createBody(1.5);
+        const lower = createBody(0.9);
+        const joint = sixDOFConstraint.create(world, {
+            bodyIdA: upper.id,
+            bodyIdB: lower.id,
+            position1: vec3.fromValues(0, 1.2, 0),
+            position2: vec3.fromValues(0, 1.2, 0),
+            axisX1: vec3.fromValues(1, 0, 0),
+            axisY1: vec3.fromValues(0, 1, 0),
+            axisX2: vec3.fromValues(1, 0, 0),
+            axisY2: vec3.fromValues(0, 1, 0),
+            limitMin: [0, 0, 0, -Math.PI, -Math.PI, -Math.PI],
+            limitMax: [0, 0, 0, Math.PI, Math.PI, Math.PI],
+        });
+
+        const joints = { bodyIds: [upper.id, lower.id], constraintIds: [INVALID_CONSTRAINT_ID, joint.id] };
+        const pose = {
+            position: vec3.create(),
+            quaternion: quat.create(),
+            positions: [vec3.create(), vec3.create()],
+            quaternions: [quat.create(), quat.setAxisAngle(quat.create(), vec3.fromValues(0, 0, 1), 0.4)],
+        };
+
+        for (let i = 0; i < 180; i++) {
+            ragdoll.driveToPoseUsingMotors(world, joints, pose);
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        const relative = quat.multiply(quat.create(), quat.invert(quat.create(), upper.quaternion), lower.quaternion);
+        expect(getAngle(relative, pose.quaternions[1])).toBeLessThan(0.02);
+    });
+
+    test('should move the bodies to a pose using kinematics', () => {
+        const { world, parts } = createScene();
+        world.settings.gravityEnabled = false;
+        const instance = ragdoll.create(world, { parts, position: vec3.fromValues(0, 1, 0) });
+
+        // the whole ragdoll moved and turned
+        const pose = ragdoll.createPose(instance);
+        vec3.set(pose.position, 0.2, 1.1, 0);
+        quat.setAxisAngle(pose.quaternion, vec3.fromValues(0, 1, 0), 0.3);
+
+        const timeStep = 1 / 60;
+        ragdoll.driveToPoseUsingKinematics(world, instance, pose, timeStep);
+        updateWorld(world, undefined, timeStep);
+
+        for (let i = 0; i < parts.length; i++) {
+            const body = rigidBody.get(world, instance.bodyIds[i])!;
+            const position = vec3.transformQuat(vec3.create(), pose.positions[i], pose.quaternion);
+            vec3.add(position, position, pose.position);
+            const quaternion = quat.multiply(quat.create(), pose.quaternion, pose.quaternions[i]);
+
+            expect(vec3.distance(body.position, position)).toBeLessThan(1e-2);
+            expect(getAngle(body.quaternion, quaternion)).toBeLessThan(1e-2);
+        }
+    });
+});
@@ -0,0 +1,158 @@
+import { quat, type Vec3, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    compound,
+    type Listener,
+    MotionType,
+    registerSystems,
+    restoreWorldState,
+    rigidBody,
+    saveWorldState,
+    sensors,
+    SystemType,
+    sphere,
+    systemDefs,
+    updateWorld,
+} from '../src';
+import { createTestWorld } from './helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+    world.settings.gravityEnabled = false;
+
+    const sensor = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(2, 2, 2) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        sensor: true,
+    });
+
+    const events: string[] = [];
+    const listener: Listener = {
+        onSensorEnter: (sensorBody, body) => events.push(`enter ${sensorBody.id} ${body.id}`),
+        onSensorExit: (sensorBodyId, bodyId) => events.push(`exit ${sensorBodyId} ${bodyId}`),
+    };
+
+    const createBall = (position: Vec3) =>
+        rigidBody.create(world, {
+            shape: sphere.create({ radius: 0.5 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position,
+        });
+
+    return { world, layers, sensor, events, listener, createBall };
+}
+
+describe('Sensors', () => {
+    test('should enter and exit a compound body once', () => {
+        const { world, layers, sensor, events, listener } = createScene();
+
+        const childShape = box.create({ halfExtents: vec3.fromValues(0.25, 0.25, 0.25) });
+        const body = rigidBody.create(world, {
+            shape: compound.create({
+                children: [
+                    { position: vec3.fromValues(-0.5, 0, 0), quaternion: quat.create(), shape: childShape },
+                    { position: vec3.fromValues(0.5, 0, 0), quaternion: quat.create(), shape: childShape },
+                ],
+            }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+        });
+
+        updateWorld(world, listener, 1 / 60);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`enter ${sensor.id} ${body.id}`]);
+        expect([...sensors.getOverlappingBodyIds(world, sensor)]).toEqual([body.id]);
+
+        // one child leaves the sensor, the other one is still inside
+        rigidBody.setPosition(world, body, vec3.fromValues(2.5, 0, 0), true);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`enter ${sensor.id} ${body.id}`]);
+
+        rigidBody.setPosition(world, body, vec3.fromValues(10, 0, 0), true);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`enter ${sensor.id} ${body.id}`, `exit ${sensor.id} ${body.id}`]);
+        expect(sensors.getOverlappingBodyIds(world, sensor).size).toBe(0);
+    });
+
+    test('should only track overlaps when the sensors system is registered', () => {
+        const { world, sensor, events, listener, createBall } = createScene();
+        createBall(vec3.fromValues(0, 0, 0));
+
+        delete systemDefs[SystemType.SENSORS];
+        try {
+            updateWorld(world, listener, 1 / 60);
+            expect(events).toEqual([]);
+            expect(sensors.getOverlappingBodyIds(world, sensor).size).toBe(0);
+        } finally {
+            registerSystems([sensors.def]);
+        }
+
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toHaveLength(1);
+    });
+
+    test('should keep a sleeping body inside a static sensor', () => {
+        const { world, sensor, events, listener, createBall } = createScene();
+        const ball = createBall(vec3.fromValues(0, 0, 0));
+
+        const steps = Math.ceil((world.settings.sleeping.timeBeforeSleep + 0.1) * 60);
+        for (let i = 0; i < steps; i++) {
+            updateWorld(world, listener, 1 / 60);
+        }
+
+        // the contact with the sensor is gone while the ball sleeps, but the ball is still inside
+        expect(ball.sleeping).toBe(true);
+        expect(ball.contactCount).toBe(0);
+        expect(events).toEqual([`enter ${sensor.id} ${ball.id}`]);
+        expect(sensors.getOverlappingBodyIds(world, sensor).has(ball.id)).toBe(true);
+
+        // waking up keeps the overlap, moving out exits
+        rigidBody.wake(world, ball);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`enter ${sensor.id} ${ball.id}`]);
+
+        rigidBody.setPosition(world, ball, vec3.fromValues(10, 0, 0), true);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`enter ${sensor.id} ${ball.id}`, `exit ${sensor.id} ${ball.id}`]);
+    });
+
+    test('should exit removed bodies and removed sensors', () => {
+        const { world, sensor, events, listener, createBall } = createScene();
+        const ballA = createBall(vec3.fromValues(-1, 0, 0));
+        const ballB = createBall(vec3.fromValues(1, 0, 0));
+
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toHaveLength(2);
+        expect(events).toContain(`enter ${sensor.id} ${ballA.id}`);
+        expect(events).toContain(`enter ${sensor.id} ${ballB.id}`);
+
+        events.length = 0;
+        rigidBody.remove(world, ballA);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`exit ${sensor.id} ${ballA.id}`]);
+
+        events.length = 0;
+        const sensorId = sensor.id;
+        rigidBody.remove(world, sensor);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`exit ${sensorId} ${ballB.id}`]);
+    });
+
+    test('should restore sensor overlaps from a world state snapshot', () => {
+        const { world, sensor, events, listener, createBall } = createScene();
+        const ball = createBall(vec3.fromValues(0, 0, 0));
+
+        const snapshot = saveWorldState(world);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`enter ${sensor.id} ${ball.id}`]);
+
+        // after restoring, the ball enters again
+        restoreWorldState(world, snapshot);
+        expect(sensors.getOverlappingBodyIds(world, sensor).size).toBe(0);
+        updateWorld(world, listener, 1 / 60);
+        expect(events).toEqual([`enter ${sensor.id} ${ball.id}`, `enter ${sensor.id} ${ball.id}`]);
+    });
+});
@@ -0,0 +1,363 @@
+import { quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    capsule,
+    compound,
+    ConstraintSpace,
+    ConstraintType,
+    coneConstraint,
+    convexHull,
+    cylinder,
+    distanceConstraint,
+    fixedConstraint,
+    heightField,
+    hingeConstraint,
+    MotionType,
+    offsetCenterOfMass,
+    pointConstraint,
+    rigidBody,
+    scaled,
+    serialization,
+    type SerializedWorld,
+    ShapeType,
+    sixDOFConstraint,
+    sliderConstraint,
+    sphere,
+    swingTwistConstraint,
+    transformed,
+    triangleMesh,
+    updateWorld,
+    type World,
+} from '../src';
+import { createTestWorld } from './helpers';
+
+function createGridMesh(size: number) {
+    const positions: number[] = [];
+    const indices: number[] = [];
+    for (let z = 0; z <= size; z++) {
+        for (let x = 0; x <= size; x++) {
+            positions.push(x - size / 2, Math.sin(x) * 0.1, z - size / 2);
+        }
+    }
+    for (let z = 0; z < size; z++) {
+        for (let x = 0; x < size; x++) {
+            const i = z * (size + 1) + x;
+            indices.push(i, i + size + 1, i + 1, i + 1, i + size + 1, i + size + 2);
+        }
+    }
+    return triangleMesh.create({ positions, indices });
+}
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    // one mesh shape shared by two static bodies
+    const mesh = createGridMesh(10);
+    rigidBody.create(world, {
+        shape: mesh,
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        userData: { name: 'ground' },
+    });
+    rigidBody.create(world, {
+        shape: mesh,
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(20, 0, 0),
+    });
+
+    const heights: number[] = [];
+    for (let i = 0; i < 16; i++) heights.push(i % 3 === 0 ? heightField.HEIGHT_FIELD_NO_COLLISION : i * 0.1);
+    rigidBody.create(world, {
+        shape: heightField.create({ sampleCountX: 4, sampleCountZ: 4, heights }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(-20, 0, 0),
+    });
+
+    // nested compound of decorated shapes, sharing a box shape
+    const sharedBox = box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) });
+    const nested = compound.create({
+        children: [
+            { position: vec3.fromValues(0, 0, 0), quaternion: quat.create(), shape: sharedBox },
+            {
+                position: vec3.fromValues(1, 0, 0),
+                quaternion: quat.create(),
+                shape: scaled.create({ shape: sharedBox, scale: vec3.fromValues(1, 2, 1) }),
+            },
+            {
+                position: vec3.fromValues(-1, 0, 0),
+                quaternion: quat.create(),
+                shape: transformed.create({
+                    shape: capsule.create({ halfHeightOfCylinder: 0.5, radius: 0.25 }),
+                    position: vec3.fromValues(0, 0.5, 0),
+                    quaternion: quat.setAxisAngle(quat.create(), vec3.fromValues(0, 0, 1), Math.PI / 2),
+                }),
+            },
+        ],
+    });
+    const compoundBody = rigidBody.create(world, {
+        shape: offsetCenterOfMass.create({ shape: nested, offset: vec3.fromValues(0, -0.25, 0) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 4, 0),
+        friction: 0.7,
+        linearDamping: 0.1,
+        maxLinearVelocity: Infinity,
+    });
+
+    const shapes = [
+        sphere.create({ radius: 0.5 }),
+        sharedBox,
+        cylinder.create({ halfHeight: 0.5, radius: 0.3 }),
+        convexHull.create({ positions: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1] }),
+        capsule.create({ halfHeightOfCylinder: 0.3, radius: 0.3 }),
+        sphere.create({ radius: 0.3 }),
+        box.create({ halfExtents: vec3.fromValues(0.3, 0.3, 0.3) }),
+        box.create({ halfExtents: vec3.fromValues(0.3, 0.3, 0.3) }),
+    ];
+    const bodies = shapes.map((shape, i) =>
+        rigidBody.create(world, {
+            shape,
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(i * 1.5 - 5, 3, 2),
+            mass: i === 0 ? 5 : undefined,
+        }),
+    );
+
+    const point = (x: number, y: number, z: number) => vec3.fromValues(x, y, z);
+    const [a, b, c, d, e, f, g, h] = bodies;
+
+    pointConstraint.create(world, { bodyIdA: compoundBody.id, bodyIdB: a.id, pointA: point(-5, 3, 2), pointB: point(-5, 3, 2) });
+    distanceConstraint.create(world, { bodyIdA: a.id, bodyIdB: b.id, pointA: a.position, pointB: b.position });
+    hingeConstraint.create(world, {
+        bodyIdA: b.id,
+        bodyIdB: c.id,
+        pointA: point(-2.75, 3, 2),
+        pointB: point(-2.75, 3, 2),
+        hingeAxisA: point(0, 0, 1),
+        hingeAxisB: point(0, 0, 1),
+        normalAxisA: point(1, 0, 0),
+        normalAxisB: point(1, 0, 0),
+        limitsMin: -0.5,
+        limitsMax: 0.5,
+    });
+    sliderConstraint.create(world, {
+        bodyIdA: c.id,
+        bodyIdB: d.id,
+        pointA: point(0, 0, 0),
+        pointB: point(0, 0, 0),
+        sliderAxisA: point(1, 0, 0),
+        sliderAxisB: point(1, 0, 0),
+        normalAxisA: point(0, 1, 0),
+        normalAxisB: point(0, 1, 0),
+        space: ConstraintSpace.LOCAL,
+        limitsMin: -1,
+        limitsMax: 1,
+    });
+    fixedConstraint.create(world, {
+        bodyIdA: d.id,
+        bodyIdB: e.id,
+        point1: point(0, 0, 0),
+        point2: point(0, 0, 0),
+        axisX1: point(1, 0, 0),
+        axisY1: point(0, 1, 0),
+        axisX2: point(1, 0, 0),
+        axisY2: point(0, 1, 0),
+        space: ConstraintSpace.LOCAL,
+    });
+    coneConstraint.create(world, {
+        bodyIdA: e.id,
+        bodyIdB: f.id,
+        pointA: point(1.75, 3, 2),
+        pointB: point(1.75, 3, 2),
+        twistAxisA: point(1, 0, 0),
+        twistAxisB: point(1, 0, 0),
+        halfConeAngle: 0.4,
+    });
+    swingTwistConstraint.create(world, {
+        bodyIdA: f.id,
+        bodyIdB: g.id,
+        position1: point(3.25, 3, 2),
+        position2: point(3.25, 3, 2),
+        twistAxis1: point(1, 0, 0),
+        planeAxis1: point(0, 1, 0),
+        twistAxis2: point(1, 0, 0),
+        planeAxis2: point(0, 1, 0),
+        normalHalfConeAngle: 0.3,
+        planeHalfConeAngle: 0.3,
+        twistMinAngle: -0.2,
+        twistMaxAngle: 0.2,
+    });
+    sixDOFConstraint.create(world, {
+        bodyIdA: g.id,
+        bodyIdB: h.id,
+        position1: point(4.75, 3, 2),
+        position2: point(4.75, 3, 2),
+        axisX1: point(1, 0, 0),
+        axisY1: point(0, 1, 0),
+        axisX2: point(1, 0, 0),
+        axisY2: point(0, 1, 0),
+    });
+
+    return world;
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+function getBodyTransforms(world: World) {
+    const transforms: number[][] = [];
+    for (const body of world.bodies.pool) {
+        if (body._pooled) continue;
+        transforms.push([...body.position, ...body.quaternion]);
+    }
+    return transforms;
+}
+
+describe('Serialization', () => {
+    test('should serialize and deserialize all bodies, shapes and constraints', () => {
+        const world = createScene();
+        const data = serialization.serializeWorld(world);
+
+        expect(data.version).toBe(serialization.SERIALIZATION_VERSION);
+        expect(data.bodies.length).toBe(12);
+        expect(data.constraints.map((c) => c.type).sort((a, b) => a - b)).toEqual(
+            [
+                ConstraintType.POINT,
+                ConstraintType.DISTANCE,
+                ConstraintType.HINGE,
+                ConstraintType.SLIDER,
+                ConstraintType.FIXED,
+                ConstraintType.CONE,
+                ConstraintType.SWING_TWIST,
+                ConstraintType.SIX_DOF,
+            ].sort((a, b) => a - b),
+        );
+
+        const restored = serialization.deserializeWorld(data);
+
+        expect(restored.settings).toEqual(world.settings);
+        expect(getBodyTransforms(restored)).toEqual(getBodyTransforms(world));
+
+        const original = world.bodies.pool;
+        const bodies = restored.bodies.pool;
+        expect(bodies.length).toBe(original.length);
+        for (let i = 0; i < bodies.length; i++) {
+            expect(bodies[i].shape).toEqual(original[i].shape);
+            expect(bodies[i].motionType).toBe(original[i].motionType);
+            expect(bodies[i].massProperties).toEqual(original[i].massProperties);
+            expect(bodies[i].motionProperties.maxLinearVelocity).toBe(original[i].motionProperties.maxLinearVelocity);
+            expect(bodies[i].friction).toBe(original[i].friction);
+            expect(bodies[i].constraintIds.length).toBe(original[i].constraintIds.length);
+        }
+        expect(bodies[0].userData).toEqual({ name: 'ground' });
+
+        // shared shapes are restored as shared shapes
+        expect(bodies[1].shape).toBe(bodies[0].shape);
+    });
+
+    test('should store shared shapes and mesh data once', () => {
+        const world = createScene();
+        const data = serialization.serializeWorld(world);
+
+        const meshes = data.shapes.filter((shape) => (shape as { type: ShapeType }).type === ShapeType.TRIANGLE_MESH);
+        expect(meshes.length).toBe(1);
+
+        const boxes = data.shapes.filter((shape) => (shape as { type: ShapeType }).type === ShapeType.BOX);
+        // shared box, plus two distinct boxes with the same dimensions
+        expect(boxes.length).toBe(3);
+
+        // two triangle meshes built from the same bvh data share buffers
+        const mesh = world.bodies.pool[0].shape as ReturnType<typeof triangleMesh.create>;
+        const { world: meshWorld, layers } = createTestWorld();
+        for (let i = 0; i < 2; i++) {
+            rigidBody.create(meshWorld, {
+                shape: { ...mesh, aabb: mesh.aabb },
+                objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+                motionType: MotionType.STATIC,
+            });
+        }
+        const meshData = serialization.serializeWorld(meshWorld);
+        expect(meshData.shapes.length).toBe(2);
+
+        const bufferCount = meshData.buffers.length;
+        expect(bufferCount).toBeGreaterThan(0);
+        expect(JSON.stringify(meshData.shapes[0])).toBe(JSON.stringify(meshData.shapes[1]));
+
+        const restored = serialization.deserializeWorld(meshData);
+        const restoredA = restored.bodies.pool[0].shape as ReturnType<typeof triangleMesh.create>;
+        const restoredB = restored.bodies.pool[1].shape as ReturnType<typeof triangleMesh.create>;
+        expect(restoredA).not.toBe(restoredB);
+        expect(restoredA.bvh.buffer).toBe(restoredB.bvh.buffer);
+    });
+
+    test('should simulate identically after a JSON round trip', () => {
+        const world = createScene();
+        const json = JSON.stringify(serialization.serializeWorld(world));
+        const restored = serialization.deserializeWorld(JSON.parse(json) as SerializedWorld);
+
+        step(world, 60);
+        step(restored, 60);
+
+        expect(getBodyTransforms(restored)).toEqual(getBodyTransforms(world));
+    });
+
+    test('should round trip through the binary format', () => {
+        const world = createScene();
+        const data = serialization.serializeWorld(world);
+
+        const bytes = serialization.toBinary(data);
+        const decoded = serialization.fromBinary(bytes);
+        expect(decoded).toEqual(data);
+
+        const restored = serialization.deserializeWorld(decoded);
+        step(world, 30);
+        step(restored, 30);
+        expect(getBodyTransforms(restored)).toEqual(getBodyTransforms(world));
+    });
+
+    test('should remap body references when the world has removed bodies', () => {
+        const { world, layers } = createTestWorld();
+        const removed = rigidBody.create(world, {
+            shape: sphere.create({ radius: 1 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+        });
+        const a = rigidBody.create(world, {
+            shape: sphere.create({ radius: 1 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+        });
+        const b = rigidBody.create(world, {
+            shape: sphere.create({ radius: 1 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(0, 3, 0),
+        });
+        rigidBody.remove(world, removed);
+        distanceConstraint.create(world, { bodyIdA: a.id, bodyIdB: b.id, pointA: a.position, pointB: b.position });
+
+        const restored = serialization.deserializeWorld(serialization.serializeWorld(world));
+        expect(restored.bodies.pool.length).toBe(2);
+
+        const constraint = restored.constraints.pools[ConstraintType.DISTANCE]!.constraints[0];
+        expect(constraint.bodyIndexA).toBe(0);
+        expect(constraint.bodyIndexB).toBe(1);
+        expect(distanceConstraint.get(restored, constraint.id)).toBe(constraint);
+        expect(restored.bodies.pool[0].constraintIds).toEqual([constraint.id]);
+    });
+
+    test('should throw on unsupported versions', () => {
+        const world = createScene();
+        const data = serialization.serializeWorld(world);
+
+        expect(() => serialization.deserializeWorld({ ...data, version: 999 })).toThrow(/version/);
+        expect(() => serialization.fromBinary(new Uint8Array(16))).toThrow();
+    });
+});
@@ -1,6 +1,31 @@
 import { describe, expect, test } from 'vitest';
 import { quat, vec3 } from 'mathcat';
-import { ShapeType, box, compound, sphere } from '../../src';
+import {
+    box,
+    CastRayStatus,
+    type CompoundShape,
+    type CompoundShapeChild,
+    CastShapeStatus,
+    castRayVsShape,
+    castShapeVsShape,
+    collidePointVsShape,
+    collideShapeVsShape,
+    compound,
+    computeMassProperties,
+    createAllCollidePointCollector,
+    createAllCollideShapeCollector,
+    createAnyCollideShapeCollector,
+    createClosestCastRayCollector,
+    createClosestCastShapeCollector,
+    createDefaultCastShapeSettings,
+    createDefaultCollidePointSettings,
+    createDefaultCollideShapeSettings,
+    EMPTY_SUB_SHAPE_ID,
+    massProperties,
+    ShapeType,
+    sphere,
+    subShape,
+} from '../../src';
 
 describe('Compound shape AABB caching', () => {
     test('compound shape should have correct AABB', () => {
@@ -77,3 +102,444 @@ describe('Compound shape center of mass', () => {
         expect(cs.centerOfMass[2]).toBeCloseTo(0, 5);
     });
 });
+
+function createRandomChildren(count: number) {
+    // deterministic pseudo random placements
+    let seed = 1;
+    const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+    };
+
+    const children: CompoundShapeChild[] = [];
+    for (let i = 0; i < count; i++) {
+        const axis = vec3.normalize(vec3.create(), vec3.fromValues(random() - 0.5, random() - 0.5, random() - 0.5));
+        children.push({
+            position: vec3.fromValues(random() * 20 - 10, random() * 20 - 10, random() * 20 - 10),
+            quaternion: quat.setAxisAngle(quat.create(), axis, random() * Math.PI),
+            shape:
+                i % 2 === 0
+                    ? box.create({ halfExtents: vec3.fromValues(0.5 + random(), 0.5, 0.5 + random()) })
+                    : sphere.create({ radius: 0.5 + random() }),
+        });
+    }
+    return children;
+}
+
+function expectSameAsRebuilt(cs: CompoundShape) {
+    const rebuilt = compound.create({ children: cs.children.slice() });
+
+    for (let i = 0; i < 3; i++) {
+        expect(cs.aabb[0][i]).toBeCloseTo(rebuilt.aabb[0][i], 5);
+        expect(cs.aabb[1][i]).toBeCloseTo(rebuilt.aabb[1][i], 5);
+        expect(cs.centerOfMass[i]).toBeCloseTo(rebuilt.centerOfMass[i], 5);
+    }
+    expect(cs.volume).toBeCloseTo(rebuilt.volume, 5);
+    expect(cs.bvh.leaves).toHaveLength(cs.children.length);
+
+    const mass = computeMassProperties(massProperties.create(), cs);
+    const rebuiltMass = computeMassProperties(massProperties.create(), rebuilt);
+    expect(mass.mass).toBeCloseTo(rebuiltMass.mass, 3);
+    for (let i = 0; i < 15; i++) {
+        expect(mass.inertia[i] / rebuiltMass.mass).toBeCloseTo(rebuiltMass.inertia[i] / rebuiltMass.mass, 3);
+    }
+}
+
+function castRayAtCompound(cs: CompoundShape, origin: [number, number, number], direction: [number, number, number]) {
+    const collector = createClosestCastRayCollector();
+    const ray = { origin: vec3.fromValues(...origin), direction: vec3.normalize(vec3.create(), direction), length: 100 };
+    // biome-ignore format: readability
+    castRayVsShape(
+        collector,
+        { collideWithBackfaces: false, treatConvexAsSolid: true },
+        ray,
+        cs,
+        EMPTY_SUB_SHAPE_ID, 0,
+        0, 0, 0,
+        0, 0, 0, 1,
+        1, 1, 1,
+    );
+    return collector.hit;
+}
+
+function getChildIndex(cs: CompoundShape, subShapeId: number) {
+    const result = subShape.popResult();
+    subShape.popIndex(result, subShapeId, cs.children.length);
+    return result.value;
+}
+
+describe('Compound shape mutation', () => {
+    test('adding, removing and moving children should match a rebuilt compound', () => {
+        const children = createRandomChildren(40);
+        const cs = compound.create({ children: children.slice(0, 1) });
+
+        for (let i = 1; i < children.length; i++) {
+            expect(compound.addChild(cs, children[i])).toBe(i);
+        }
+        expectSameAsRebuilt(cs);
+
+        for (let i = 0; i < cs.children.length; i += 3) {
+            const child = cs.children[i];
+            compound.setChildTransform(
+                cs,
+                i,
+                vec3.fromValues(child.position[1], child.position[2] + 5, child.position[0]),
+                quat.setAxisAngle(quat.create(), [0, 1, 0], i),
+            );
+        }
+        expectSameAsRebuilt(cs);
+
+        for (let i = 0; i < 30; i++) {
+            compound.removeChild(cs, (i * 7) % cs.children.length);
+        }
+        expect(cs.children).toHaveLength(10);
+        expectSameAsRebuilt(cs);
+    });
+
+    test('removing a child should move the last child to its index', () => {
+        const [a, b, c, d] = createRandomChildren(4);
+        const cs = compound.create({ children: [a, b, c, d] });
+
+        expect(compound.removeChild(cs, 1)).toBe(b);
+        expect(cs.children).toEqual([a, d, c]);
+
+        expect(compound.removeChild(cs, 2)).toBe(c);
+        expect(cs.children).toEqual([a, d]);
+
+        compound.removeChild(cs, 0);
+        expect(() => compound.removeChild(cs, 0)).toThrow();
+        expect(() => compound.removeChild(cs, 1)).toThrow();
+    });
+
+    test('moving a child should not change vectors shared with other children', () => {
+        const origin = vec3.create();
+        const identity = quat.create();
+        const shape = sphere.create({ radius: 1 });
+        const cs = compound.create({
+            children: [
+                { position: origin, quaternion: identity, shape },
+                { position: origin, quaternion: identity, shape },
+            ],
+        });
+
+        compound.setChildTransform(cs, 1, vec3.fromValues(4, 0, 0), quat.setAxisAngle(quat.create(), [1, 0, 0], 1));
+
+        expect(cs.children[0].position).toEqual([0, 0, 0]);
+        expect(cs.children[0].quaternion).toEqual([0, 0, 0, 1]);
+        expect(cs.centerOfMass[0]).toBeCloseTo(2, 5);
+        expect(cs.aabb[1][0]).toBeCloseTo(5, 5);
+    });
+
+    test('ray casts should find the closest child after mutations', () => {
+        // a row of spheres along the x axis
+        const cs = compound.create({
+            children: [{ position: vec3.fromValues(0, 0, 0), quaternion: quat.create(), shape: sphere.create({ radius: 0.4 }) }],
+        });
+        for (let i = 1; i < 100; i++) {
+            compound.addChild(cs, {
+                position: vec3.fromValues(i, 0, 0),
+                quaternion: quat.create(),
+                shape: sphere.create({ radius: 0.4 }),
+            });
+        }
+
+        let hit = castRayAtCompound(cs, [50, 10, 0], [0, -1, 0]);
+        expect(hit.status).toBe(CastRayStatus.COLLIDING);
+        expect(hit.fraction * 100).toBeCloseTo(9.6, 4);
+        expect(getChildIndex(cs, hit.subShapeId)).toBe(50);
+
+        // along the row the first sphere is the closest
+        hit = castRayAtCompound(cs, [-10, 0, 0], [1, 0, 0]);
+        expect(getChildIndex(cs, hit.subShapeId)).toBe(0);
+
+        // move a sphere into the ray, remove the sphere below the first ray
+        compound.setChildTransform(cs, 70, vec3.fromValues(-5, 0, 0), quat.create());
+        hit = castRayAtCompound(cs, [-10, 0, 0], [1, 0, 0]);
+        expect(getChildIndex(cs, hit.subShapeId)).toBe(70);
+
+        compound.removeChild(cs, 50);
+        hit = castRayAtCompound(cs, [50, 10, 0], [0, -1, 0]);
+        expect(hit.status).toBe(CastRayStatus.NOT_COLLIDING);
+
+        // the last child took the index of the removed child
+        hit = castRayAtCompound(cs, [99, 10, 0], [0, -1, 0]);
+        expect(getChildIndex(cs, hit.subShapeId)).toBe(50);
+    });
+
+    test('ray casts and point queries should work with nested compounds', () => {
+        const inner = compound.create({
+            children: [
+                { position: vec3.fromValues(0, 0, 0), quaternion: quat.create(), shape: sphere.create({ radius: 0.5 }) },
+                { position: vec3.fromValues(0, 4, 0), quaternion: quat.create(), shape: sphere.create({ radius: 0.5 }) },
+            ],
+        });
+        const outer = compound.create({
+            children: [
+                { position: vec3.fromValues(-3, 0, 0), quaternion: quat.create(), shape: inner },
+                {
+                    position: vec3.fromValues(3, 0, 0),
+                    quaternion: quat.setAxisAngle(quat.create(), [0, 0, 1], Math.PI),
+                    shape: inner,
+                },
+            ],
+        });
+
+        // the second inner compound is turned upside down
+        expect(castRayAtCompound(outer, [3, 10, 0], [0, -1, 0]).fraction * 100).toBeCloseTo(9.5, 4);
+        expect(castRayAtCompound(outer, [-3, 10, 0], [0, -1, 0]).fraction * 100).toBeCloseTo(5.5, 4);
+        expect(castRayAtCompound(outer, [-10, -4, 0], [1, 0, 0]).fraction * 100).toBeCloseTo(12.5, 4);
+
+        const collector = createAllCollidePointCollector();
+        for (const [x, y, expected] of [
+            [-3, 4, 1],
+            [3, -4, 1],
+            [3, 4, 0],
+            [0, 0, 0],
+        ]) {
+            collector.reset();
+            // biome-ignore format: readability
+            collidePointVsShape(
+                collector,
+                createDefaultCollidePointSettings(),
+                x, y, 0,
+                outer,
+                EMPTY_SUB_SHAPE_ID, 0,
+                0, 0, 0,
+                0, 0, 0, 1,
+                1, 1, 1,
+            );
+            expect(collector.hits).toHaveLength(expected);
+        }
+    });
+});
+
+function createGridCompound(size: number) {
+    const children: CompoundShapeChild[] = [];
+    const shape = box.create({ halfExtents: vec3.fromValues(0.4, 0.3, 0.4) });
+    for (let x = 0; x < size; x++) {
+        for (let y = 0; y < size; y++) {
+            for (let z = 0; z < size; z++) {
+                children.push({
+                    position: vec3.fromValues(x, y, z),
+                    quaternion: quat.setAxisAngle(quat.create(), [0, 1, 0], (x + y + z) * 0.3),
+                    shape,
+                });
+            }
+        }
+    }
+    return compound.create({ children });
+}
+
+function getMaxDepth(cs: CompoundShape, nodeIndex = cs.bvh.root): number {
+    const node = cs.bvh.nodes[nodeIndex];
+    if (node.left === -1) return 0;
+    return 1 + Math.max(getMaxDepth(cs, node.left), getMaxDepth(cs, node.right));
+}
+
+describe('Compound shape child bvh', () => {
+    // a compound placed and turned in the world, the queries transform into its space
+    const position = vec3.fromValues(-2, 1, 3);
+    const quaternion = quat.setAxisAngle(quat.create(), vec3.normalize(vec3.create(), [1, 2, 3]), 0.7);
+
+    const getChildTransform = (cs: CompoundShape, childIndex: number) => {
+        const child = cs.children[childIndex];
+        const childPosition = vec3.transformQuat(vec3.create(), child.position, quaternion);
+        vec3.add(childPosition, childPosition, position);
+        const childQuaternion = quat.multiply(quat.create(), quaternion, child.quaternion);
+        return { childPosition, childQuaternion };
+    };
+
+    test('should build a balanced tree over all children', () => {
+        const cs = createGridCompound(10);
+
+        expect(cs.bvh.leaves).toHaveLength(1000);
+        expect(getMaxDepth(cs)).toBe(10);
+
+        // every child has its own leaf
+        const childIndices = cs.bvh.leaves.map((leafIndex) => cs.bvh.nodes[leafIndex].childIndex);
+        expect(childIndices).toEqual(cs.children.map((_, i) => i));
+    });
+
+    test('collide shape queries should find the same children as testing every child', () => {
+        const cs = createGridCompound(6);
+        const probe = sphere.create({ radius: 0.7 });
+        const settings = createDefaultCollideShapeSettings();
+        let totalHits = 0;
+
+        for (const point of [
+            [0, 2, 5],
+            [1.5, 3, 6.5],
+            [-4, 5, 5],
+            [3, 8, 3],
+        ] as const) {
+            // brute force, every child on its own
+            const expected: number[] = [];
+            for (let childIndex = 0; childIndex < cs.children.length; childIndex++) {
+                const { childPosition: p, childQuaternion: q } = getChildTransform(cs, childIndex);
+                const collector = createAnyCollideShapeCollector();
+                // biome-ignore format: readability
+                collideShapeVsShape(
+                    collector, settings,
+                    probe, EMPTY_SUB_SHAPE_ID, 0, point[0], point[1], point[2], 0, 0, 0, 1, 1, 1, 1,
+                    cs.children[childIndex].shape, EMPTY_SUB_SHAPE_ID, 0, p[0], p[1], p[2], q[0], q[1], q[2], q[3], 1, 1, 1,
+                );
+                if (collector.hit) expected.push(childIndex);
+            }
+            totalHits += expected.length;
+
+            // shape vs compound
+            const collectorB = createAllCollideShapeCollector();
+            // biome-ignore format: readability
+            collideShapeVsShape(
+                collectorB, settings,
+                probe, EMPTY_SUB_SHAPE_ID, 0, point[0], point[1], point[2], 0, 0, 0, 1, 1, 1, 1,
+                cs, EMPTY_SUB_SHAPE_ID, 0, position[0], position[1], position[2], quaternion[0], quaternion[1], quaternion[2], quaternion[3], 1, 1, 1,
+            );
+            const hitsB = collectorB.hits.map((hit) => getChildIndex(cs, hit.subShapeIdB)).sort((a, b) => a - b);
+            expect(hitsB).toEqual(expected);
+
+            // compound vs shape
+            const collectorA = createAllCollideShapeCollector();
+            // biome-ignore format: readability
+            collideShapeVsShape(
+                collectorA, settings,
+                cs, EMPTY_SUB_SHAPE_ID, 0, position[0], position[1], position[2], quaternion[0], quaternion[1], quaternion[2], quaternion[3], 1, 1, 1,
+                probe, EMPTY_SUB_SHAPE_ID, 0, point[0], point[1], point[2], 0, 0, 0, 1, 1, 1, 1,
+            );
+            const hitsA = collectorA.hits.map((hit) => getChildIndex(cs, hit.subShapeIdA)).sort((a, b) => a - b);
+            expect(hitsA).toEqual(expected);
+        }
+
+        expect(totalHits).toBeGreaterThan(0);
+    });
+
+    test('cast shape queries should find the closest child like testing every child', () => {
+        const cs = createGridCompound(6);
+        const probe = sphere.create({ radius: 0.3 });
+        const settings = createDefaultCastShapeSettings();
+
+        for (const [start, displacement] of [
+            [
+                [-6, 3, 4],
+                [10, 0, 0],
+            ],
+            [
+                [0, 12, 6],
+                [1, -10, -2],
+            ],
+            [
+                [5, -3, 9],
+                [-4, 9, -4],
+            ],
+        ] as const) {
+            // brute force, every child on its own
+            let expectedFraction = 1;
+            for (let childIndex = 0; childIndex < cs.children.length; childIndex++) {
+                const { childPosition: p, childQuaternion: q } = getChildTransform(cs, childIndex);
+                const collector = createClosestCastShapeCollector();
+                // biome-ignore format: readability
+                castShapeVsShape(
+                    collector, settings,
+                    probe, EMPTY_SUB_SHAPE_ID, 0, start[0], start[1], start[2], 0, 0, 0, 1, 1, 1, 1, displacement[0], displacement[1], displacement[2],
+                    cs.children[childIndex].shape, EMPTY_SUB_SHAPE_ID, 0, p[0], p[1], p[2], q[0], q[1], q[2], q[3], 1, 1, 1,
+                );
+                if (collector.hit.status === CastShapeStatus.COLLIDING) {
+                    expectedFraction = Math.min(expectedFraction, collector.hit.fraction);
+                }
+            }
+            expect(expectedFraction).toBeLessThan(1);
+
+            // shape vs compound
+            const collectorB = createClosestCastShapeCollector();
+            // biome-ignore format: readability
+            castShapeVsShape(
+                collectorB, settings,
+                probe, EMPTY_SUB_SHAPE_ID, 0, start[0], start[1], start[2], 0, 0, 0, 1, 1, 1, 1, displacement[0], displacement[1], displacement[2],
+                cs, EMPTY_SUB_SHAPE_ID, 0, position[0], position[1], position[2], quaternion[0], quaternion[1], quaternion[2], quaternion[3], 1, 1, 1,
+            );
+            expect(collectorB.hit.fraction).toBeCloseTo(expectedFraction, 4);
+
+            // compound vs shape, the compound moves the other way
+            const collectorA = createClosestCastShapeCollector();
+            // biome-ignore format: readability
+            castShapeVsShape(
+                collectorA, settings,
+                cs, EMPTY_SUB_SHAPE_ID, 0, position[0], position[1], position[2], quaternion[0], quaternion[1], quaternion[2], quaternion[3], 1, 1, 1, -displacement[0], -displacement[1], -displacement[2],
+                probe, EMPTY_SUB_SHAPE_ID, 0, start[0], start[1], start[2], 0, 0, 0, 1, 1, 1, 1,
+            );
+            expect(collectorA.hit.fraction).toBeCloseTo(expectedFraction, 4);
+        }
+    });
+
+    test('queries against a scaled compound should test every child', () => {
+        // the scale is applied to each child around its own position, the unscaled child bvh would miss the grown boxes
+        const cs = compound.create({
+            children: [
+                {
+                    position: vec3.fromValues(0, 0, 0),
+                    quaternion: quat.create(),
+                    shape: box.create({ halfExtents: [0.5, 0.5, 0.5] }),
+                },
+                {
+                    position: vec3.fromValues(3, 0, 0),
+                    quaternion: quat.create(),
+                    shape: box.create({ halfExtents: [0.5, 0.5, 0.5] }),
+                },
+            ],
+        });
+        expect(cs.aabb[1][1]).toBe(0.5);
+
+        // ray passing above the unscaled boxes
+        const rayCollector = createClosestCastRayCollector();
+        const ray = { origin: vec3.fromValues(-10, 0.8, 0), direction: vec3.fromValues(1, 0, 0), length: 100 };
+        // biome-ignore format: readability
+        castRayVsShape(
+            rayCollector, { collideWithBackfaces: false, treatConvexAsSolid: true }, ray,
+            cs, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 2, 2, 2,
+        );
+        expect(rayCollector.hit.status).toBe(CastRayStatus.COLLIDING);
+        expect(rayCollector.hit.fraction * 100).toBeCloseTo(9, 4);
+        expect(getChildIndex(cs, rayCollector.hit.subShapeId)).toBe(0);
+
+        // point inside the grown box, but outside the unscaled one
+        const pointCollector = createAllCollidePointCollector();
+        // biome-ignore format: readability
+        collidePointVsShape(
+            pointCollector, createDefaultCollidePointSettings(), 3, 0.8, 0,
+            cs, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 2, 2, 2,
+        );
+        expect(pointCollector.hits).toHaveLength(1);
+
+        // small sphere overlapping the top of the grown box, from both sides
+        const probe = sphere.create({ radius: 0.1 });
+        const collideSettings = createDefaultCollideShapeSettings();
+        const collideCollector = createAllCollideShapeCollector();
+        // biome-ignore format: readability
+        collideShapeVsShape(
+            collideCollector, collideSettings,
+            probe, EMPTY_SUB_SHAPE_ID, 0, 3, 0.95, 0, 0, 0, 0, 1, 1, 1, 1,
+            cs, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 2, 2, 2,
+        );
+        expect(collideCollector.hits).toHaveLength(1);
+
+        collideCollector.reset();
+        // biome-ignore format: readability
+        collideShapeVsShape(
+            collideCollector, collideSettings,
+            cs, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 2, 2, 2,
+            probe, EMPTY_SUB_SHAPE_ID, 0, 3, 0.95, 0, 0, 0, 0, 1, 1, 1, 1,
+        );
+        expect(collideCollector.hits).toHaveLength(1);
+
+        // small sphere cast down onto the grown box
+        const castCollector = createClosestCastShapeCollector();
+        // biome-ignore format: readability
+        castShapeVsShape(
+            castCollector, createDefaultCastShapeSettings(),
+            probe, EMPTY_SUB_SHAPE_ID, 0, 3, 5, 0, 0, 0, 0, 1, 1, 1, 1, 0, -5, 0,
+            cs, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 2, 2, 2,
+        );
+        expect(castCollector.hit.status).toBe(CastShapeStatus.COLLIDING);
+        expect(castCollector.hit.fraction).toBeCloseTo((5 - 1.1) / 5, 3);
+    });
+});
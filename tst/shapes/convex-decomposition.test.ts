@@ -0,0 +1,163 @@
+import { quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    collidePointVsShape,
+    convexDecomposition,
+    createAllCollidePointCollector,
+    createDefaultCollidePointSettings,
+    EMPTY_SUB_SHAPE_ID,
+    MotionType,
+    rigidBody,
+    type Shape,
+    ShapeType,
+    updateWorld,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+/** appends a closed box mesh to the positions and indices */
+function addBoxMesh(positions: number[], indices: number[], min: [number, number, number], max: [number, number, number]) {
+    const offset = positions.length / 3;
+    for (let i = 0; i < 8; i++) {
+        positions.push(i & 1 ? max[0] : min[0], i & 2 ? max[1] : min[1], i & 4 ? max[2] : min[2]);
+    }
+    // biome-ignore format: readability
+    const faces = [
+        0, 2, 3, 0, 3, 1, // -z
+        4, 5, 7, 4, 7, 6, // +z
+        0, 1, 5, 0, 5, 4, // -y
+        2, 6, 7, 2, 7, 3, // +y
+        0, 4, 6, 0, 6, 2, // -x
+        1, 3, 7, 1, 7, 5, // +x
+    ];
+    for (const index of faces) {
+        indices.push(offset + index);
+    }
+}
+
+/** an L shape made of two overlapping boxes, the notch is at [1, 2] x [1, 2] */
+function createLShapeMesh() {
+    const positions: number[] = [];
+    const indices: number[] = [];
+    addBoxMesh(positions, indices, [0, 0, 0], [2, 1, 1]);
+    addBoxMesh(positions, indices, [0, 0, 0], [1, 2, 1]);
+    return { positions, indices };
+}
+
+function containsPoint(shape: Shape, point: [number, number, number]) {
+    const collector = createAllCollidePointCollector();
+    // biome-ignore format: readability
+    collidePointVsShape(
+        collector,
+        createDefaultCollidePointSettings(),
+        point[0], point[1], point[2],
+        shape,
+        EMPTY_SUB_SHAPE_ID, 0,
+        0, 0, 0,
+        0, 0, 0, 1,
+        1, 1, 1,
+    );
+    return collector.hits.length > 0;
+}
+
+describe('Convex Decomposition', () => {
+    test('should turn a convex mesh into a single hull matching the mesh', () => {
+        const positions: number[] = [];
+        const indices: number[] = [];
+        addBoxMesh(positions, indices, [-1, -0.5, -2], [1, 0.5, 2]);
+
+        const shape = convexDecomposition.decompose({ positions, indices, resolution: 16 });
+
+        expect(shape.type).toBe(ShapeType.COMPOUND);
+        expect(shape.children.length).toBe(1);
+        expect(shape.children[0].shape.type).toBe(ShapeType.CONVEX_HULL);
+        expect(shape.volume).toBeCloseTo(8, 6);
+        expect(shape.centerOfMass[0]).toBeCloseTo(0, 6);
+        expect(shape.centerOfMass[1]).toBeCloseTo(0, 6);
+        expect(shape.centerOfMass[2]).toBeCloseTo(0, 6);
+        expect(shape.aabb[0][0]).toBeCloseTo(-1, 6);
+        expect(shape.aabb[1][2]).toBeCloseTo(2, 6);
+    });
+
+    test('should split a concave mesh into convex hulls that leave the notch empty', () => {
+        const shape = convexDecomposition.decompose({ ...createLShapeMesh(), resolution: 16 });
+
+        expect(shape.children.length).toBeGreaterThanOrEqual(2);
+        expect(shape.volume).toBeGreaterThan(3 * 0.95);
+        expect(shape.volume).toBeLessThan(3 * 1.1);
+
+        // inside both arms of the L
+        expect(containsPoint(shape, [1.75, 0.5, 0.5])).toBe(true);
+        expect(containsPoint(shape, [0.5, 1.75, 0.5])).toBe(true);
+        expect(containsPoint(shape, [0.5, 0.5, 0.5])).toBe(true);
+
+        // in the notch
+        expect(containsPoint(shape, [1.5, 1.5, 0.5])).toBe(false);
+        expect(containsPoint(shape, [1.2, 1.2, 0.5])).toBe(false);
+    });
+
+    test('should not produce more hulls than allowed', () => {
+        const shape = convexDecomposition.decompose({ ...createLShapeMesh(), resolution: 16, maxConvexHulls: 1 });
+
+        // a single hull has to cover the notch
+        expect(shape.children.length).toBe(1);
+        expect(shape.volume).toBeCloseTo(3.5, 1);
+    });
+
+    test('should pass the hull settings on to the hulls', () => {
+        const shape = convexDecomposition.decompose({
+            ...createLShapeMesh(),
+            resolution: 16,
+            convexRadius: 0,
+            density: 500,
+            materialId: 3,
+        });
+
+        for (const child of shape.children) {
+            expect(child.shape.type).toBe(ShapeType.CONVEX_HULL);
+            if (child.shape.type !== ShapeType.CONVEX_HULL) continue;
+            expect(child.shape.convexRadius).toBe(0);
+            expect(child.shape.density).toBe(500);
+            expect(child.shape.materialId).toBe(3);
+        }
+    });
+
+    test('should throw on invalid input', () => {
+        const { positions } = createLShapeMesh();
+        expect(() => convexDecomposition.decompose({ positions, indices: [] })).toThrow('indices');
+        expect(() => convexDecomposition.decompose({ positions, indices: [0, 1] })).toThrow('indices');
+        expect(() => convexDecomposition.decompose({ positions: [0, 0, 0, 0, 0, 0, 0, 0, 0], indices: [0, 1, 2] })).toThrow(
+            'non-zero size',
+        );
+    });
+
+    test('should give a concave mesh mass so it can be used by a dynamic body', () => {
+        const { world, layers } = createTestWorld();
+
+        rigidBody.create(world, {
+            shape: box.create({ halfExtents: vec3.fromValues(10, 1, 10) }),
+            objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+            motionType: MotionType.STATIC,
+            position: vec3.fromValues(0, -1, 0),
+        });
+
+        const body = rigidBody.create(world, {
+            shape: convexDecomposition.decompose({ ...createLShapeMesh(), resolution: 16 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(0, 0.5, 0),
+        });
+
+        // the hulls slightly overestimate the volume of the mesh
+        expect(body.massProperties.mass).toBeGreaterThan(3000 * 0.95);
+        expect(body.massProperties.mass).toBeLessThan(3000 * 1.1);
+
+        for (let i = 0; i < 120; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        // the L lies on its long side on the ground
+        expect(body.position[1]).toBeCloseTo(0, 1);
+        expect(Math.abs(quat.getAngle(body.quaternion, quat.create()))).toBeLessThan(0.01);
+    });
+});
@@ -0,0 +1,398 @@
+import { quat, type Raycast3, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    CastRayStatus,
+    CastShapeStatus,
+    castRayVsShape,
+    castShapeVsShape,
+    collidePointVsShape,
+    collideShapeVsShape,
+    computeMassProperties,
+    createAllCastRayCollector,
+    createAllCollidePointCollector,
+    createAllCollideShapeCollector,
+    createClosestCastRayCollector,
+    createClosestCastShapeCollector,
+    createDefaultCastRaySettings,
+    createDefaultCastShapeSettings,
+    createDefaultCollidePointSettings,
+    createDefaultCollideShapeSettings,
+    EMPTY_SUB_SHAPE_ID,
+    heightField,
+    massProperties,
+    MotionType,
+    rigidBody,
+    ShapeType,
+    sphere,
+    subShape,
+    triangleMesh,
+    updateWorld,
+} from '../../src';
+import { HEIGHT_FIELD_NO_COLLISION } from '../../src/shapes/height-field';
+import { createTestWorld } from '../helpers';
+
+function createRay(origin: [number, number, number], direction: [number, number, number], length = 100): Raycast3 {
+    const dir = vec3.fromValues(...direction);
+    vec3.normalize(dir, dir);
+    return { origin: vec3.fromValues(...origin), direction: dir, length };
+}
+
+function castRay(shape: heightField.HeightFieldShape, ray: Raycast3, position: [number, number, number] = [0, 0, 0]) {
+    const collector = createClosestCastRayCollector();
+    // biome-ignore format: readability
+    castRayVsShape(
+        collector,
+        createDefaultCastRaySettings(),
+        ray,
+        shape,
+        EMPTY_SUB_SHAPE_ID, 0,
+        position[0], position[1], position[2],
+        0, 0, 0, 1,
+        1, 1, 1,
+    );
+    return collector.hit;
+}
+
+function getTriangleIndex(shape: heightField.HeightFieldShape, subShapeId: number): number {
+    const result = subShape.popResult();
+    subShape.popIndex(result, subShapeId, heightField.getTriangleCount(shape));
+    return result.value;
+}
+
+/** deterministic bumpy terrain */
+function createBumpyHeights(sampleCount: number): number[] {
+    const heights: number[] = [];
+    for (let z = 0; z < sampleCount; z++) {
+        for (let x = 0; x < sampleCount; x++) {
+            heights.push(Math.sin(x * 0.7) * Math.cos(z * 0.4) + 0.1 * ((x * 7 + z * 13) % 5));
+        }
+    }
+    return heights;
+}
+
+describe('Height field creation', () => {
+    test('should create a height field with correct AABB', () => {
+        const shape = heightField.create({
+            sampleCountX: 3,
+            sampleCountZ: 2,
+            heights: [0, 1, 2, -1, 0.5, 3],
+            offset: [-1, 0, -1],
+            scale: [2, 0.5, 3],
+        });
+
+        expect(shape.type).toBe(ShapeType.HEIGHT_FIELD);
+        expect(heightField.getTriangleCount(shape)).toBe(4);
+        expect(shape.aabb[0]).toEqual([-1, -0.5, -1]);
+        expect(shape.aabb[1]).toEqual([3, 1.5, 2]);
+    });
+
+    test('should ignore holes when computing AABB', () => {
+        const shape = heightField.create({
+            sampleCountX: 2,
+            sampleCountZ: 2,
+            heights: [0, 1, HEIGHT_FIELD_NO_COLLISION, 0.5],
+        });
+
+        expect(shape.aabb[0][1]).toBe(0);
+        expect(shape.aabb[1][1]).toBe(1);
+    });
+
+    test('should reject invalid settings', () => {
+        expect(() => heightField.create({ sampleCountX: 1, sampleCountZ: 2, heights: [0, 0] })).toThrow();
+        expect(() => heightField.create({ sampleCountX: 2, sampleCountZ: 2, heights: [0, 0, 0] })).toThrow();
+    });
+
+    test('should be static (zero mass)', () => {
+        const shape = heightField.create({ sampleCountX: 2, sampleCountZ: 2, heights: [0, 0, 0, 0] });
+        const props = massProperties.create();
+        computeMassProperties(props, shape);
+        expect(props.mass).toBe(0);
+    });
+
+    test('should remove triangles that touch a hole', () => {
+        // hole at sample (1, 0), only used by triangle 1
+        const shape = heightField.create({
+            sampleCountX: 2,
+            sampleCountZ: 2,
+            heights: [0, HEIGHT_FIELD_NO_COLLISION, 0, 0],
+        });
+
+        const a = vec3.create();
+        const b = vec3.create();
+        const c = vec3.create();
+        expect(heightField.getTriangleVertices(a, b, c, shape, 0)).toBe(true);
+        expect(heightField.getTriangleVertices(a, b, c, shape, 1)).toBe(false);
+    });
+});
+
+describe('Height field active edges', () => {
+    test('flat height field should only have active edges on the boundary', () => {
+        const shape = heightField.create({ sampleCountX: 3, sampleCountZ: 3, heights: new Array(9).fill(0) });
+
+        // cell (0, 0): triangle 0 edge ab is on the x = 0 boundary, triangle 1 edge ca is on the z = 0 boundary
+        expect(heightField.getActiveEdges(shape, 0)).toBe(0b001);
+        expect(heightField.getActiveEdges(shape, 1)).toBe(0b100);
+
+        // cell (1, 1): triangle 0 edge bc is on the z = 2 boundary, triangle 1 edge bc is on the x = 2 boundary
+        expect(heightField.getActiveEdges(shape, 6)).toBe(0b010);
+        expect(heightField.getActiveEdges(shape, 7)).toBe(0b010);
+    });
+
+    test('convex ridge should be active, concave valley should be inactive', () => {
+        // ridge along z at x = 1
+        const ridge = heightField.create({ sampleCountX: 3, sampleCountZ: 2, heights: [0, 1, 0, 0, 1, 0] });
+        // triangle 1 of cell (0, 0), edge bc lies on the ridge
+        expect(heightField.getActiveEdges(ridge, 1) & 0b010).toBe(0b010);
+
+        // valley along z at x = 1
+        const valley = heightField.create({ sampleCountX: 3, sampleCountZ: 2, heights: [1, 0, 1, 1, 0, 1] });
+        expect(heightField.getActiveEdges(valley, 1) & 0b010).toBe(0);
+    });
+
+    test('negative threshold should keep all edges active', () => {
+        const shape = heightField.create({
+            sampleCountX: 3,
+            sampleCountZ: 3,
+            heights: new Array(9).fill(0),
+            activeEdgeCosThresholdAngle: -1,
+        });
+
+        for (let i = 0; i < heightField.getTriangleCount(shape); i++) {
+            expect(heightField.getActiveEdges(shape, i)).toBe(0b111);
+        }
+    });
+});
+
+describe('Height field cast ray', () => {
+    test('should hit flat height field from above', () => {
+        const shape = heightField.create({
+            sampleCountX: 4,
+            sampleCountZ: 4,
+            heights: new Array(16).fill(1),
+            materialIndices: [0, 1, 2, 3, 4, 5, 6, 7, 8],
+        });
+
+        const hit = castRay(shape, createRay([1.25, 10, 2.5], [0, -1, 0]));
+
+        expect(hit.status).toBe(CastRayStatus.COLLIDING);
+        expect(hit.fraction * 100).toBeCloseTo(9);
+
+        // cell (1, 2), fz > fx so triangle 0
+        const triangleIndex = getTriangleIndex(shape, hit.subShapeId);
+        expect(triangleIndex).toBe((2 * 3 + 1) * 2);
+        expect(hit.materialId).toBe(7);
+    });
+
+    test('should miss holes', () => {
+        const heights = new Array(16).fill(0);
+        heights[1 * 4 + 1] = HEIGHT_FIELD_NO_COLLISION;
+        const shape = heightField.create({ sampleCountX: 4, sampleCountZ: 4, heights });
+
+        // all cells around sample (1, 1) are removed
+        const hit = castRay(shape, createRay([1.2, 10, 0.9], [0, -1, 0]));
+        expect(hit.status).toBe(CastRayStatus.NOT_COLLIDING);
+
+        const hit2 = castRay(shape, createRay([2.5, 10, 2.5], [0, -1, 0]));
+        expect(hit2.status).toBe(CastRayStatus.COLLIDING);
+    });
+
+    test('should respect body transform', () => {
+        const shape = heightField.create({ sampleCountX: 2, sampleCountZ: 2, heights: [0, 0, 0, 0] });
+
+        expect(castRay(shape, createRay([0.5, 10, 0.5], [0, -1, 0]), [5, 0, 0]).status).toBe(CastRayStatus.NOT_COLLIDING);
+        expect(castRay(shape, createRay([5.5, 10, 0.5], [0, -1, 0]), [5, 0, 0]).status).toBe(CastRayStatus.COLLIDING);
+    });
+
+    test('should match equivalent triangle mesh for slanted rays', () => {
+        const sampleCount = 16;
+        const heights = createBumpyHeights(sampleCount);
+        const shape = heightField.create({ sampleCountX: sampleCount, sampleCountZ: sampleCount, heights, scale: [0.5, 1, 0.5] });
+
+        // build the same triangles as a triangle mesh
+        const positions: number[] = [];
+        const indices: number[] = [];
+        const a = vec3.create();
+        const b = vec3.create();
+        const c = vec3.create();
+        for (let i = 0; i < heightField.getTriangleCount(shape); i++) {
+            heightField.getTriangleVertices(a, b, c, shape, i);
+            const base = positions.length / 3;
+            positions.push(...a, ...b, ...c);
+            indices.push(base, base + 1, base + 2);
+        }
+        const mesh = triangleMesh.create({ positions, indices, activeEdgeCosThresholdAngle: -1 });
+
+        for (let i = 0; i < 50; i++) {
+            const origin: [number, number, number] = [((i * 37) % 80) / 10, 5, ((i * 53) % 80) / 10];
+            const direction: [number, number, number] = [Math.cos(i) * 0.6, -1, Math.sin(i * 1.3) * 0.6];
+            const ray = createRay(origin, direction, 20);
+
+            const heightFieldHit = castRay(shape, ray);
+
+            const meshCollector = createClosestCastRayCollector();
+            // biome-ignore format: readability
+            castRayVsShape(meshCollector, createDefaultCastRaySettings(), ray, mesh, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1);
+
+            expect(heightFieldHit.status).toBe(meshCollector.hit.status);
+            if (meshCollector.hit.status === CastRayStatus.COLLIDING) {
+                expect(heightFieldHit.fraction).toBeCloseTo(meshCollector.hit.fraction, 5);
+            }
+        }
+    });
+
+    test('should report all hits along a grazing ray', () => {
+        // a ridge that a horizontal ray passes through twice, once on each side
+        const shape = heightField.create({ sampleCountX: 3, sampleCountZ: 2, heights: [0, 2, 0, 0, 2, 0] });
+
+        const collector = createAllCastRayCollector();
+        const settings = createDefaultCastRaySettings();
+        settings.collideWithBackfaces = true;
+        const ray = createRay([-1, 0.5, 0.3], [1, 0, 0], 10);
+        // biome-ignore format: readability
+        castRayVsShape(collector, settings, ray, shape, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1);
+
+        expect(collector.hits.length).toBe(2);
+    });
+});
+
+describe('Height field collide point', () => {
+    const settings = createDefaultCollidePointSettings();
+
+    function collidePoint(shape: heightField.HeightFieldShape, point: [number, number, number]) {
+        const collector = createAllCollidePointCollector();
+        // biome-ignore format: readability
+        collidePointVsShape(collector, settings, point[0], point[1], point[2], shape, EMPTY_SUB_SHAPE_ID, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1);
+        return collector.hits;
+    }
+
+    test('should detect points below the surface', () => {
+        // slope rising along x
+        const shape = heightField.create({ sampleCountX: 2, sampleCountZ: 2, heights: [0, 2, 0, 2] });
+
+        expect(collidePoint(shape, [0.5, 0.9, 0.5]).length).toBe(1);
+        expect(collidePoint(shape, [0.5, 1.1, 0.5]).length).toBe(0);
+        expect(collidePoint(shape, [0.5, -10, 0.5]).length).toBe(1);
+    });
+
+    test('should not detect points outside the footprint or in holes', () => {
+        const shape = heightField.create({ sampleCountX: 2, sampleCountZ: 2, heights: [0, 0, 0, HEIGHT_FIELD_NO_COLLISION] });
+
+        expect(collidePoint(shape, [1.5, -1, 0.5]).length).toBe(0);
+        expect(collidePoint(shape, [0.5, -1, 0.5]).length).toBe(0);
+    });
+});
+
+describe('Height field collide shape', () => {
+    const settings = createDefaultCollideShapeSettings();
+
+    function collide(
+        shapeA: ReturnType<typeof sphere.create> | ReturnType<typeof box.create>,
+        position: [number, number, number],
+    ) {
+        const shape = heightField.create({ sampleCountX: 5, sampleCountZ: 5, heights: new Array(25).fill(0) });
+        const collector = createAllCollideShapeCollector();
+        // biome-ignore format: readability
+        collideShapeVsShape(
+            collector,
+            settings,
+            shapeA,
+            EMPTY_SUB_SHAPE_ID, 0,
+            position[0], position[1], position[2],
+            0, 0, 0, 1,
+            1, 1, 1,
+            shape,
+            EMPTY_SUB_SHAPE_ID, 0,
+            0, 0, 0,
+            0, 0, 0, 1,
+            1, 1, 1,
+        );
+        return collector.hits;
+    }
+
+    test('should detect sphere penetrating height field', () => {
+        const hits = collide(sphere.create({ radius: 0.5 }), [1.3, 0.4, 2.6]);
+
+        // neighbouring triangles touched by the sphere report shallower penetrations
+        expect(hits.length).toBeGreaterThan(0);
+        expect(Math.max(...hits.map((hit) => hit.penetration))).toBeCloseTo(0.1, 3);
+    });
+
+    test('should detect box penetrating height field', () => {
+        const hits = collide(box.create({ halfExtents: [0.5, 0.5, 0.5] }), [2, 0.3, 2]);
+
+        expect(hits.length).toBeGreaterThan(0);
+        for (const hit of hits) {
+            expect(hit.penetration).toBeCloseTo(0.2, 3);
+        }
+    });
+
+    test('should not detect sphere above or outside height field', () => {
+        expect(collide(sphere.create({ radius: 0.5 }), [2, 1, 2]).length).toBe(0);
+        expect(collide(sphere.create({ radius: 0.5 }), [10, 0, 2]).length).toBe(0);
+    });
+});
+
+describe('Height field cast shape', () => {
+    test('should find time of impact for sphere falling onto height field', () => {
+        const shape = heightField.create({ sampleCountX: 5, sampleCountZ: 5, heights: new Array(25).fill(0) });
+        const sphereA = sphere.create({ radius: 0.5 });
+
+        const collector = createClosestCastShapeCollector();
+        // biome-ignore format: readability
+        castShapeVsShape(
+            collector,
+            createDefaultCastShapeSettings(),
+            sphereA,
+            EMPTY_SUB_SHAPE_ID, 0,
+            2.2, 4.5, 1.7,
+            0, 0, 0, 1,
+            1, 1, 1,
+            0, -8, 0,
+            shape,
+            EMPTY_SUB_SHAPE_ID, 0,
+            0, 0, 0,
+            0, 0, 0, 1,
+            1, 1, 1,
+        );
+
+        expect(collector.hit.status).toBe(CastShapeStatus.COLLIDING);
+        expect(collector.hit.fraction).toBeCloseTo(0.5, 3);
+        expect(Math.abs(collector.hit.normal[1])).toBeCloseTo(1, 3);
+    });
+});
+
+describe('Height field simulation', () => {
+    test('box should come to rest on a rotated and offset height field', () => {
+        const { world, layers } = createTestWorld();
+
+        const sampleCount = 9;
+        const shape = heightField.create({
+            sampleCountX: sampleCount,
+            sampleCountZ: sampleCount,
+            heights: new Array(sampleCount * sampleCount).fill(0),
+            offset: [-4, 0, -4],
+        });
+
+        rigidBody.create(world, {
+            shape,
+            motionType: MotionType.STATIC,
+            objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+            position: [0, 1, 0],
+            quaternion: quat.setAxisAngle(quat.create(), [0, 1, 0], Math.PI / 4),
+        });
+
+        const body = rigidBody.create(world, {
+            shape: box.create({ halfExtents: [0.5, 0.5, 0.5] }),
+            motionType: MotionType.DYNAMIC,
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            position: [0.3, 4, 0.2],
+        });
+
+        for (let i = 0; i < 180; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        expect(body.position[1]).toBeCloseTo(1.5, 1);
+    });
+});
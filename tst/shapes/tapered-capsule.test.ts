@@ -0,0 +1,178 @@
+import { quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    capsule,
+    castRayVsShape,
+    computeMassProperties,
+    createClosestCastRayCollector,
+    createFace,
+    EMPTY_SUB_SHAPE_ID,
+    getShapeInnerRadius,
+    getShapeSupportingFace,
+    getShapeSurfaceNormal,
+    massProperties,
+    ShapeType,
+    type TaperedCapsuleShape,
+    taperedCapsule,
+} from '../../src';
+
+function castRayAtShape(shape: TaperedCapsuleShape, origin: [number, number, number], direction: [number, number, number]) {
+    const collector = createClosestCastRayCollector();
+    const ray = { origin: vec3.fromValues(...origin), direction: vec3.normalize(vec3.create(), direction), length: 100 };
+    // biome-ignore format: readability
+    castRayVsShape(
+        collector,
+        { collideWithBackfaces: false, treatConvexAsSolid: true },
+        ray,
+        shape,
+        EMPTY_SUB_SHAPE_ID, 0,
+        0, 0, 0,
+        0, 0, 0, 1,
+        1, 1, 1,
+    );
+    return collector.hit.status ? collector.hit.fraction * 100 : Infinity;
+}
+
+/** integrates the hull of the two spheres slice by slice, the radius of a slice is the largest of the interpolated spheres */
+function integrateNumerically(h: number, topRadius: number, bottomRadius: number) {
+    const steps = 2000;
+    const minY = -h - bottomRadius;
+    const maxY = h + topRadius;
+    const dy = (maxY - minY) / steps;
+
+    let volume = 0;
+    let momentY = 0;
+    for (let i = 0; i < steps; i++) {
+        const y = minY + (i + 0.5) * dy;
+        let radiusSq = 0;
+        for (let j = 0; j <= 400; j++) {
+            const t = j / 400;
+            const r = bottomRadius + (topRadius - bottomRadius) * t;
+            const c = -h + 2 * h * t;
+            radiusSq = Math.max(radiusSq, r * r - (y - c) * (y - c));
+        }
+        volume += Math.PI * radiusSq * dy;
+        momentY += Math.PI * radiusSq * y * dy;
+    }
+
+    return { volume, centerOfMassY: momentY / volume };
+}
+
+describe('Tapered Capsule Shape', () => {
+    test('should create a tapered capsule with its center of mass towards the larger sphere', () => {
+        const shape = taperedCapsule.create({ halfHeightOfTaperedCylinder: 1, topRadius: 0.2, bottomRadius: 0.5 });
+
+        expect(shape.type).toBe(ShapeType.TAPERED_CAPSULE);
+        expect(shape.density).toBe(1000);
+        expect(shape.convexRadius).toBe(0.2);
+
+        // the heavier bottom pulls the center of mass down
+        expect(shape.centerOfMass[0]).toBe(0);
+        expect(shape.centerOfMass[1]).toBeLessThan(0);
+        expect(shape.centerOfMass[2]).toBe(0);
+
+        expect(shape.aabb[0]).toEqual([-0.5, -1.5, -0.5]);
+        expect(shape.aabb[1]).toEqual([0.5, 1.2, 0.5]);
+    });
+
+    test('should throw on invalid settings', () => {
+        expect(() => taperedCapsule.create({ halfHeightOfTaperedCylinder: 1, topRadius: 0, bottomRadius: 0.5 })).toThrow(
+            'Invalid radius',
+        );
+        expect(() => taperedCapsule.create({ halfHeightOfTaperedCylinder: 0, topRadius: 0.2, bottomRadius: 0.5 })).toThrow(
+            'Invalid height',
+        );
+        expect(() => taperedCapsule.create({ halfHeightOfTaperedCylinder: 0.1, topRadius: 0.2, bottomRadius: 0.5 })).toThrow(
+            'inside the other sphere',
+        );
+    });
+
+    test('should match a capsule when both radii are equal', () => {
+        const h = 1;
+        const r = 0.5;
+        const tapered = taperedCapsule.create({ halfHeightOfTaperedCylinder: h, topRadius: r, bottomRadius: r });
+        const regular = capsule.create({ halfHeightOfCylinder: h, radius: r });
+
+        expect(tapered.volume).toBeCloseTo(regular.volume, 10);
+        expect(tapered.centerOfMass[1]).toBeCloseTo(0, 10);
+
+        // a cylinder plus two hemispheres, whose centers of mass are 3/8 r from their flat sides
+        const mass = computeMassProperties(massProperties.create(), tapered);
+        const cylinderMass = Math.PI * r * r * 2 * h * 1000;
+        const hemisphereMass = (2 / 3) * Math.PI * r * r * r * 1000;
+        const ixx =
+            cylinderMass * ((4 * h * h) / 12 + (r * r) / 4) + 2 * hemisphereMass * ((2 / 5) * r * r + h * h + (3 / 4) * h * r);
+        const iyy = 0.5 * cylinderMass * r * r + 2 * hemisphereMass * (2 / 5) * r * r;
+
+        expect(mass.mass).toBeCloseTo(cylinderMass + 2 * hemisphereMass, 6);
+        expect(mass.inertia[0]).toBeCloseTo(ixx, 6);
+        expect(mass.inertia[5]).toBeCloseTo(iyy, 6);
+        expect(mass.inertia[10]).toBeCloseTo(ixx, 6);
+    });
+
+    test('should compute the exact volume and center of mass of the hull of both spheres', () => {
+        const shape = taperedCapsule.create({ halfHeightOfTaperedCylinder: 0.6, topRadius: 0.15, bottomRadius: 0.4 });
+        const expected = integrateNumerically(0.6, 0.15, 0.4);
+
+        expect(shape.volume / expected.volume).toBeCloseTo(1, 4);
+        expect(shape.centerOfMass[1]).toBeCloseTo(expected.centerOfMassY, 4);
+
+        const mass = computeMassProperties(massProperties.create(), shape);
+        expect(mass.mass).toBeCloseTo(shape.volume * 1000, 6);
+        expect(mass.inertia[0]).toBeCloseTo(mass.inertia[10], 10);
+        expect(mass.inertia[5]).toBeLessThan(mass.inertia[0]);
+    });
+
+    test('should hit the spheres and the tapered side with rays', () => {
+        const shape = taperedCapsule.create({ halfHeightOfTaperedCylinder: 1, topRadius: 0.2, bottomRadius: 0.5 });
+
+        expect(castRayAtShape(shape, [0, 10, 0], [0, -1, 0])).toBeCloseTo(10 - 1.2, 3);
+        expect(castRayAtShape(shape, [0, -10, 0], [0, 1, 0])).toBeCloseTo(10 - 1.5, 3);
+        expect(castRayAtShape(shape, [10, -1, 0], [-1, 0, 0])).toBeCloseTo(10 - 0.5, 3);
+
+        // halfway up, the side is at a distance of the bottom radius from the bottom sphere center
+        const cosAlpha = Math.sqrt(1 - shape.sinAlpha * shape.sinAlpha);
+        const sideRadius = (0.5 - shape.sinAlpha) / cosAlpha;
+        expect(castRayAtShape(shape, [0, 0, -10], [0, 0, 1])).toBeCloseTo(10 - sideRadius, 3);
+    });
+
+    test('should return surface normals for the spheres and the side', () => {
+        const shape = taperedCapsule.create({ halfHeightOfTaperedCylinder: 1, topRadius: 0.2, bottomRadius: 0.5 });
+        const normal = vec3.create();
+
+        getShapeSurfaceNormal(normal, shape, [0, 1.2, 0], EMPTY_SUB_SHAPE_ID);
+        expect(normal[1]).toBeCloseTo(1);
+
+        getShapeSurfaceNormal(normal, shape, [0.5, -1, 0], EMPTY_SUB_SHAPE_ID);
+        expect(normal[0]).toBeCloseTo(1);
+
+        const cosAlpha = Math.sqrt(1 - shape.sinAlpha * shape.sinAlpha);
+        getShapeSurfaceNormal(normal, shape, [0, 0, 0.4], EMPTY_SUB_SHAPE_ID);
+        expect(normal[0]).toBeCloseTo(0);
+        expect(normal[1]).toBeCloseTo(shape.sinAlpha);
+        expect(normal[2]).toBeCloseTo(cosAlpha);
+    });
+
+    test('should return the side as supporting face when the direction is along the side normal', () => {
+        const shape = taperedCapsule.create({ halfHeightOfTaperedCylinder: 1, topRadius: 0.2, bottomRadius: 0.5 });
+        const cosAlpha = Math.sqrt(1 - shape.sinAlpha * shape.sinAlpha);
+        const face = createFace();
+
+        // pushing into the side
+        getShapeSupportingFace(face, shape, 0, [-cosAlpha, -shape.sinAlpha, 0], [0, 0, 0], quat.create(), [1, 1, 1]);
+        expect(face.numVertices).toBe(2);
+        expect(face.vertices[0]).toBeCloseTo(0.2 * cosAlpha);
+        expect(face.vertices[1]).toBeCloseTo(1 + 0.2 * shape.sinAlpha);
+        expect(face.vertices[3]).toBeCloseTo(0.5 * cosAlpha);
+        expect(face.vertices[4]).toBeCloseTo(-1 + 0.5 * shape.sinAlpha);
+
+        // pushing into the top sphere, there's a single contact point
+        getShapeSupportingFace(face, shape, 0, [0, -1, 0], [0, 0, 0], quat.create(), [1, 1, 1]);
+        expect(face.numVertices).toBe(0);
+    });
+
+    test('should use the smallest radius as inner radius', () => {
+        const shape = taperedCapsule.create({ halfHeightOfTaperedCylinder: 1, topRadius: 0.2, bottomRadius: 0.5 });
+        expect(getShapeInnerRadius(shape)).toBe(0.2);
+    });
+});
@@ -0,0 +1,130 @@
+import { quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    computeMassProperties,
+    createFace,
+    cylinder,
+    getShapeInnerRadius,
+    getShapeSupportingFace,
+    massProperties,
+    MotionType,
+    rigidBody,
+    ShapeType,
+    taperedCylinder,
+    updateWorld,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+describe('Tapered Cylinder Shape', () => {
+    test('should create a tapered cylinder with its center of mass towards the wider cap', () => {
+        const shape = taperedCylinder.create({ halfHeight: 1, topRadius: 0.25, bottomRadius: 0.5 });
+
+        expect(shape.type).toBe(ShapeType.TAPERED_CYLINDER);
+        expect(shape.convexRadius).toBe(0.05);
+        expect(shape.centerOfMass[1]).toBeLessThan(0);
+        expect(shape.aabb[0]).toEqual([-0.5, -1, -0.5]);
+        expect(shape.aabb[1]).toEqual([0.5, 1, 0.5]);
+    });
+
+    test('should throw on invalid settings', () => {
+        expect(() => taperedCylinder.create({ halfHeight: 1, topRadius: -0.1, bottomRadius: 0.5 })).toThrow('radii');
+        expect(() => taperedCylinder.create({ halfHeight: 0.01, topRadius: 0.2, bottomRadius: 0.5 })).toThrow('halfHeight');
+
+        // a cone has no room for a convex radius at its tip
+        expect(() => taperedCylinder.create({ halfHeight: 1, topRadius: 0, bottomRadius: 0.5 })).toThrow('convexRadius');
+        expect(() => taperedCylinder.create({ halfHeight: 1, topRadius: 0, bottomRadius: 0.5, convexRadius: 0 })).not.toThrow();
+    });
+
+    test('should match a cylinder when both radii are equal', () => {
+        const tapered = taperedCylinder.create({ halfHeight: 1, topRadius: 0.5, bottomRadius: 0.5 });
+        const regular = cylinder.create({ halfHeight: 1, radius: 0.5 });
+
+        expect(tapered.volume).toBeCloseTo(regular.volume, 10);
+        expect(tapered.centerOfMass[1]).toBeCloseTo(0, 10);
+
+        const taperedMass = computeMassProperties(massProperties.create(), tapered);
+        const regularMass = computeMassProperties(massProperties.create(), regular);
+        expect(taperedMass.mass).toBeCloseTo(regularMass.mass, 6);
+        for (let i = 0; i < 16; i++) {
+            expect(taperedMass.inertia[i]).toBeCloseTo(regularMass.inertia[i], 6);
+        }
+    });
+
+    test('should compute the exact mass properties of a cone', () => {
+        const r = 0.5;
+        const height = 2;
+        const shape = taperedCylinder.create({ halfHeight: height / 2, topRadius: 0, bottomRadius: r, convexRadius: 0 });
+
+        // the center of mass of a cone is at a quarter of its height
+        expect(shape.volume).toBeCloseTo((Math.PI * r * r * height) / 3, 10);
+        expect(shape.centerOfMass[1]).toBeCloseTo(-height / 2 + height / 4, 10);
+
+        const mass = computeMassProperties(massProperties.create(), shape);
+        expect(mass.inertia[5]).toBeCloseTo((3 / 10) * mass.mass * r * r, 6);
+        expect(mass.inertia[0]).toBeCloseTo(mass.mass * ((3 / 20) * r * r + (3 / 80) * height * height), 6);
+        expect(mass.inertia[10]).toBeCloseTo(mass.inertia[0], 6);
+    });
+
+    test('should return a cap or the side as supporting face', () => {
+        const shape = taperedCylinder.create({ halfHeight: 1, topRadius: 0.25, bottomRadius: 0.5 });
+        const face = createFace();
+
+        // pushing down onto the top cap
+        getShapeSupportingFace(face, shape, 0, [0, -1, 0], [0, 0, 0], quat.create(), [1, 1, 1]);
+        expect(face.numVertices).toBe(8);
+        for (let i = 0; i < 8; i++) {
+            expect(face.vertices[i * 3 + 1]).toBeCloseTo(1);
+            expect(Math.hypot(face.vertices[i * 3], face.vertices[i * 3 + 2])).toBeCloseTo(0.25);
+        }
+
+        // pushing into the side, the edge runs from the top to the bottom rim
+        getShapeSupportingFace(face, shape, 0, [-1, 0, 0], [0, 0, 0], quat.create(), [1, 1, 1]);
+        expect(face.numVertices).toBe(2);
+        expect([face.vertices[0], face.vertices[1]]).toEqual([0.25, 1]);
+        expect([face.vertices[3], face.vertices[4]]).toEqual([0.5, -1]);
+
+        // the tip of a cone has no face
+        const cone = taperedCylinder.create({ halfHeight: 1, topRadius: 0, bottomRadius: 0.5, convexRadius: 0 });
+        getShapeSupportingFace(face, cone, 0, [0, -1, 0], [0, 0, 0], quat.create(), [1, 1, 1]);
+        expect(face.numVertices).toBe(0);
+    });
+
+    test('should compute the inner radius from the caps and the side', () => {
+        const shape = taperedCylinder.create({ halfHeight: 1, topRadius: 0.25, bottomRadius: 0.5 });
+        const innerRadius = getShapeInnerRadius(shape);
+
+        expect(innerRadius).toBeGreaterThan(0.25);
+        expect(innerRadius).toBeLessThan(0.5);
+
+        const flat = taperedCylinder.create({ halfHeight: 0.1, topRadius: 0.25, bottomRadius: 0.5 });
+        expect(getShapeInnerRadius(flat)).toBeCloseTo(0.1 - Math.abs(flat.centerOfMass[1]));
+    });
+
+    test('should come to rest standing on its wide base', () => {
+        const { world, layers } = createTestWorld();
+
+        rigidBody.create(world, {
+            shape: box.create({ halfExtents: vec3.fromValues(10, 1, 10) }),
+            objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+            motionType: MotionType.STATIC,
+            position: vec3.fromValues(0, -1, 0),
+        });
+
+        const body = rigidBody.create(world, {
+            shape: taperedCylinder.create({ halfHeight: 0.5, topRadius: 0.2, bottomRadius: 0.4 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(0, 1, 0),
+        });
+
+        for (let i = 0; i < 120; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        // the body position is halfway between the caps, the center of mass is below it
+        expect(body.position[1]).toBeCloseTo(0.5, 1);
+        expect(body.centerOfMassPosition[1]).toBeLessThan(body.position[1]);
+        expect(Math.abs(quat.getAngle(body.quaternion, quat.create()))).toBeLessThan(0.01);
+    });
+});
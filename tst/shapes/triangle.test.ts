@@ -0,0 +1,230 @@
+import { quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    castRayVsShape,
+    castShape,
+    collideShape,
+    computeMassProperties,
+    createAllCastShapeCollector,
+    createAllCollideShapeCollector,
+    createClosestCastRayCollector,
+    createDefaultCastShapeSettings,
+    createDefaultCollideShapeSettings,
+    createFace,
+    createShapeSupportPool,
+    EMPTY_SUB_SHAPE_ID,
+    filter,
+    getShapeInnerRadius,
+    getShapeSupportFunction,
+    getShapeSupportingFace,
+    getShapeSurfaceNormal,
+    massProperties,
+    MotionType,
+    rigidBody,
+    ShapeType,
+    SupportFunctionMode,
+    type TriangleShape,
+    type TriangleSupport,
+    triangle,
+    triangleMesh,
+    updateWorld,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function castRayAtShape(shape: TriangleShape, origin: [number, number, number], direction: [number, number, number]) {
+    const collector = createClosestCastRayCollector();
+    const ray = { origin: vec3.fromValues(...origin), direction: vec3.normalize(vec3.create(), direction), length: 100 };
+    // biome-ignore format: readability
+    castRayVsShape(
+        collector,
+        { collideWithBackfaces: false, treatConvexAsSolid: true },
+        ray,
+        shape,
+        EMPTY_SUB_SHAPE_ID, 0,
+        0, 0, 0,
+        0, 0, 0, 1,
+        1, 1, 1,
+    );
+    return collector.hit.status ? collector.hit.fraction * 100 : Infinity;
+}
+
+/** a flat triangle in the XZ plane, facing up */
+function createFloorTriangle(convexRadius?: number) {
+    return triangle.create({ a: [-5, 0, -5], b: [-5, 0, 5], c: [5, 0, 0], convexRadius });
+}
+
+describe('Triangle Shape', () => {
+    test('should create a triangle with its center of mass at the centroid', () => {
+        const shape = triangle.create({ a: [0, 0, 0], b: [3, 0, 0], c: [0, 3, 0], convexRadius: 0.1 });
+
+        expect(shape.type).toBe(ShapeType.TRIANGLE);
+        expect(shape.convexRadius).toBe(0.1);
+        expect(shape.volume).toBe(0);
+        expect(shape.centerOfMass).toEqual([1, 1, 0]);
+        expect(shape.aabb[0]).toEqual([-0.1, -0.1, -0.1]);
+        expect(shape.aabb[1]).toEqual([3.1, 3.1, 0.1]);
+
+        // the triangle has no mass, like a triangle mesh
+        const mass = computeMassProperties(massProperties.create(), shape);
+        expect(mass.mass).toBe(0);
+    });
+
+    test('should default to a sharp triangle and copy its vertices', () => {
+        const a = vec3.fromValues(0, 0, 0);
+        const shape = triangle.create({ a, b: [1, 0, 0], c: [0, 1, 0] });
+
+        expect(shape.convexRadius).toBe(0);
+        expect(shape.materialId).toBe(-1);
+
+        a[0] = 10;
+        expect(shape.a[0]).toBe(0);
+    });
+
+    test('should throw on a negative convex radius', () => {
+        expect(() => triangle.create({ a: [0, 0, 0], b: [1, 0, 0], c: [0, 1, 0], convexRadius: -1 })).toThrow('convexRadius');
+    });
+
+    test('should hit the triangle from both sides with rays', () => {
+        const sharp = createFloorTriangle();
+        expect(castRayAtShape(sharp, [0, 10, 0], [0, -1, 0])).toBeCloseTo(10, 3);
+        expect(castRayAtShape(sharp, [0, -10, 0], [0, 1, 0])).toBeCloseTo(10, 3);
+        expect(castRayAtShape(sharp, [6, 10, 0], [0, -1, 0])).toBe(Infinity);
+
+        // the rounding makes the triangle thicker
+        const rounded = createFloorTriangle(0.25);
+        expect(castRayAtShape(rounded, [0, 10, 0], [0, -1, 0])).toBeCloseTo(9.75, 3);
+    });
+
+    test('should return the normal of the side the position is on', () => {
+        const shape = createFloorTriangle();
+        const normal = vec3.create();
+
+        getShapeSurfaceNormal(normal, shape, [0, 0.1, 0], EMPTY_SUB_SHAPE_ID);
+        expect(normal).toEqual([0, 1, 0]);
+
+        getShapeSurfaceNormal(normal, shape, [0, -0.1, 0], EMPTY_SUB_SHAPE_ID);
+        expect(normal[0]).toBeCloseTo(0);
+        expect(normal[1]).toBe(-1);
+        expect(normal[2]).toBeCloseTo(0);
+    });
+
+    test('should return the triangle as supporting face', () => {
+        const shape = triangle.create({ a: [0, 0, 0], b: [1, 0, 0], c: [0, 1, 0] });
+        const face = createFace();
+
+        getShapeSupportingFace(face, shape, 0, [0, 0, 1], [0, 0, 2], quat.create(), [1, 1, 1]);
+        expect(face.numVertices).toBe(3);
+        expect(face.vertices.slice(0, 9)).toEqual([0, 0, 2, 1, 0, 2, 0, 1, 2]);
+
+        // a mirroring scale reverses the winding
+        getShapeSupportingFace(face, shape, 0, [0, 0, 1], [0, 0, 0], quat.create(), [-1, 1, 1]);
+        const expected = [0, 1, 0, -1, 0, 0, 0, 0, 0];
+        for (let i = 0; i < 9; i++) {
+            expect(face.vertices[i]).toBeCloseTo(expected[i]);
+        }
+    });
+
+    test('should use a triangle support with the convex radius excluded', () => {
+        const shape = triangle.create({ a: [0, 0, 0], b: [1, 0, 0], c: [0, 1, 0], convexRadius: 0.1 });
+        const pool = createShapeSupportPool();
+        const out = vec3.create();
+
+        const exclude = getShapeSupportFunction(pool, shape, SupportFunctionMode.EXCLUDE_CONVEX_RADIUS, [2, 2, 2]);
+        expect((exclude as TriangleSupport).b).toEqual([2, 0, 0]);
+        expect(exclude.convexRadius).toBeCloseTo(0.2);
+        exclude.getSupport([1, 0, 0], out);
+        expect(out).toEqual([2, 0, 0]);
+
+        const include = getShapeSupportFunction(pool, shape, SupportFunctionMode.INCLUDE_CONVEX_RADIUS, [1, 1, 1]);
+        expect(include.convexRadius).toBe(0);
+        include.getSupport([0, 2, 0], out);
+        expect(out[0]).toBeCloseTo(0);
+        expect(out[1]).toBeCloseTo(1.1);
+        expect(out[2]).toBeCloseTo(0);
+
+        pool.dispose();
+    });
+
+    test('should use the convex radius as inner radius', () => {
+        expect(getShapeInnerRadius(createFloorTriangle())).toBe(0);
+        expect(getShapeInnerRadius(createFloorTriangle(0.1))).toBe(0.1);
+    });
+
+    test('should hold a box resting on a static triangle body', () => {
+        const { world, layers } = createTestWorld();
+
+        rigidBody.create(world, {
+            shape: createFloorTriangle(),
+            objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+            motionType: MotionType.STATIC,
+            position: vec3.fromValues(0, 0, 0),
+        });
+
+        const body = rigidBody.create(world, {
+            shape: box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(0, 1, 0),
+        });
+
+        for (let i = 0; i < 120; i++) {
+            updateWorld(world, undefined, 1 / 60);
+        }
+
+        expect(body.position[1]).toBeCloseTo(0.5, 1);
+    });
+
+    test('should be usable as a query shape', () => {
+        const { world, layers } = createTestWorld();
+        const queryFilter = filter.create(world.settings.layers);
+
+        rigidBody.create(world, {
+            shape: box.create({ halfExtents: [1, 1, 1] }),
+            objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+            motionType: MotionType.STATIC,
+            position: vec3.fromValues(0, 0, 0),
+        });
+
+        rigidBody.create(world, {
+            shape: triangleMesh.create({ positions: [-1, 0, -1, -1, 0, 1, 1, 0, 0], indices: [0, 1, 2] }),
+            objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+            motionType: MotionType.STATIC,
+            position: vec3.fromValues(10, 0, 0),
+        });
+
+        const queryShape = triangle.create({ a: [0, -0.5, -0.5], b: [0, -0.5, 0.5], c: [0, 0.5, 0] });
+        const rotation = quat.create();
+        const scale = vec3.fromValues(1, 1, 1);
+
+        // overlapping the box
+        const collideCollector = createAllCollideShapeCollector();
+        collideShape(
+            world,
+            collideCollector,
+            createDefaultCollideShapeSettings(),
+            queryShape,
+            vec3.fromValues(0.5, 0, 0),
+            rotation,
+            scale,
+            queryFilter,
+        );
+        expect(collideCollector.hits.length).toBe(1);
+
+        // swept into the triangle mesh, the query triangle stands across the mesh triangle
+        const castCollector = createAllCastShapeCollector();
+        castShape(
+            world,
+            castCollector,
+            createDefaultCastShapeSettings(),
+            queryShape,
+            vec3.fromValues(10, 3, 0),
+            rotation,
+            scale,
+            vec3.fromValues(0, -4, 0),
+            queryFilter,
+        );
+        expect(castCollector.hits.length).toBe(1);
+        expect(castCollector.hits[0].fraction).toBeCloseTo(2.5 / 4, 2);
+    });
+});
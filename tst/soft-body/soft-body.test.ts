@@ -0,0 +1,261 @@
+import { vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    MotionType,
+    registerSystems,
+    restoreWorldState,
+    rigidBody,
+    type SoftBody,
+    SystemType,
+    saveWorldState,
+    serialization,
+    softBody,
+    softBodySharedSettings,
+    systemDefs,
+    updateWorld,
+    type World,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(10, 1, 10) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, -1, 0),
+    });
+
+    return { world, layers };
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+function getTotalVolume(body: SoftBody): number {
+    let total = 0;
+    for (const volume of body.sharedSettings.volumes) {
+        const [p0, p1, p2, p3] = volume.vertices.map((vertex) => body.particles[vertex].position);
+        total += softBodySharedSettings.getSixVolume(p0, p1, p2, p3) / 6;
+    }
+    return total;
+}
+
+describe('Soft Body', () => {
+    test('should build a cloth grid', () => {
+        const options = { gridSizeX: 3, gridSizeZ: 2, spacing: 0.5 };
+        const settings = softBodySharedSettings.createCloth(options);
+
+        expect(settings.vertices.length).toBe(6);
+        expect(settings.faces.length).toBe(4 * 3);
+        // 7 grid edges and 2 diagonals
+        expect(settings.edges.length).toBe(9);
+        expect(settings.bends.length).toBe(3);
+        expect(settings.volumes.length).toBe(0);
+        expect(settings.vertices[softBodySharedSettings.getClothVertexIndex(options, 2, 1)].position).toEqual([0.5, 0, 0.25]);
+    });
+
+    test('should build a volumetric cube', () => {
+        const settings = softBodySharedSettings.createCube({ gridSize: 3, spacing: 0.5 });
+
+        expect(settings.vertices.length).toBe(27);
+        expect(settings.volumes.length).toBe(8 * 6);
+        expect(settings.faces.length).toBe(6 * 8 * 3);
+
+        // the tetrahedra fill the cube exactly
+        const restVolume = settings.volumes.reduce((total, volume) => total + Math.abs(volume.sixRestVolume) / 6, 0);
+        expect(restVolume).toBeCloseTo(1, 6);
+    });
+
+    test('should let a cloth hang from pinned corners', () => {
+        const { world, layers } = createScene();
+
+        const options = { gridSizeX: 10, gridSizeZ: 10, spacing: 0.1 };
+        const settings = softBodySharedSettings.createCloth(options);
+        const cornerA = softBodySharedSettings.getClothVertexIndex(options, 0, 0);
+        const cornerB = softBodySharedSettings.getClothVertexIndex(options, 9, 0);
+        settings.vertices[cornerA].invMass = 0;
+        settings.vertices[cornerB].invMass = 0;
+
+        const cloth = softBody.create(world, {
+            sharedSettings: settings,
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            position: vec3.fromValues(0, 3, 0),
+            // damp the swinging so the cloth settles quickly
+            linearDamping: 2,
+        });
+        const pinnedPosition = vec3.clone(cloth.particles[cornerA].position);
+
+        step(world, 240);
+
+        // the pinned corners don't move, the rest of the cloth hangs below them
+        expect(cloth.particles[cornerA].position).toEqual(pinnedPosition);
+        const far = cloth.particles[softBodySharedSettings.getClothVertexIndex(options, 5, 9)];
+        expect(far.position[1]).toBeCloseTo(2.1, 1);
+        expect(far.position[2]).toBeCloseTo(-0.45, 1);
+
+        // the edges keep their length
+        for (const edge of settings.edges) {
+            const length = vec3.distance(cloth.particles[edge.vertex0].position, cloth.particles[edge.vertex1].position);
+            expect(length).toBeCloseTo(edge.restLength, 1);
+        }
+    });
+
+    test('should drop a squishy cube onto the ground', () => {
+        const { world, layers } = createScene();
+
+        const cube = softBody.create(world, {
+            sharedSettings: softBodySharedSettings.createCube({ gridSize: 3, spacing: 0.25, volumeCompliance: 1e-4 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            position: vec3.fromValues(0, 1, 0),
+        });
+        const restVolume = getTotalVolume(cube);
+
+        step(world, 120);
+
+        // the cube rests on the ground
+        let lowest = Infinity;
+        for (const particle of cube.particles) {
+            lowest = Math.min(lowest, particle.position[1]);
+            expect(vec3.length(particle.velocity)).toBeLessThan(0.1);
+        }
+        expect(lowest).toBeCloseTo(cube.particleRadius, 1);
+        expect(cube.aabb[0][1]).toBeGreaterThan(-0.01);
+
+        // the volume is (mostly) preserved
+        expect(getTotalVolume(cube) / restVolume).toBeGreaterThan(0.8);
+    });
+
+    test('should push a dynamic body it lands on', () => {
+        const { world, layers } = createScene();
+
+        // a floating platform, only the soft body can push it down
+        const platform = rigidBody.create(world, {
+            shape: box.create({ halfExtents: vec3.fromValues(1, 0.1, 1) }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(0, 2, 0),
+            gravityFactor: 0,
+            mass: 10,
+        });
+
+        const cube = softBody.create(world, {
+            sharedSettings: softBodySharedSettings.createCube({ gridSize: 2, spacing: 0.5 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            position: vec3.fromValues(0, 3, 0),
+        });
+
+        step(world, 60);
+
+        // the cube landed on the platform and the impulses pushed it down
+        expect(softBody.getCenterOfMass(vec3.create(), cube)[1]).toBeGreaterThan(platform.position[1]);
+        expect(platform.motionProperties.linearVelocity[1]).toBeLessThan(-0.1);
+        expect(platform.position[1]).toBeLessThan(1.95);
+    });
+
+    test('should restore soft bodies from a world state snapshot', () => {
+        const { world, layers } = createScene();
+
+        const cube = softBody.create(world, {
+            sharedSettings: softBodySharedSettings.createCube({ gridSize: 2, spacing: 0.5 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            position: vec3.fromValues(0, 1, 0),
+        });
+        softBody.setLinearVelocity(cube, vec3.fromValues(1, 0, 0));
+
+        step(world, 10);
+        const snapshot = saveWorldState(world);
+        step(world, 30);
+        const expected = cube.particles.map((particle) => vec3.clone(particle.position));
+
+        restoreWorldState(world, snapshot);
+        step(world, 30);
+        for (let i = 0; i < cube.particles.length; i++) {
+            expect(cube.particles[i].position).toEqual(expected[i]);
+        }
+    });
+
+    test('should round trip soft bodies through serialization', () => {
+        const { world, layers } = createScene();
+
+        const options = { gridSizeX: 4, gridSizeZ: 4, spacing: 0.25 };
+        const settings = softBodySharedSettings.createCloth(options);
+        const corner = softBodySharedSettings.getClothVertexIndex(options, 0, 0);
+        const cloths = [0, 2].map((x) =>
+            softBody.create(world, {
+                sharedSettings: settings,
+                objectLayer: layers.OBJECT_LAYER_MOVING,
+                position: vec3.fromValues(x, 2, 0),
+                friction: 0.5,
+                userData: { name: `cloth ${x}` },
+            }),
+        );
+        // pin a particle of the first cloth only, the shared settings are not changed
+        cloths[0].particles[corner].invMass = 0;
+        step(world, 20);
+
+        const loaded = serialization.deserializeWorld(JSON.parse(JSON.stringify(serialization.serializeWorld(world))));
+        const loadedCloths = [...softBody.iterate(loaded)];
+
+        expect(loadedCloths).toHaveLength(2);
+        expect(loadedCloths[0].sharedSettings).toBe(loadedCloths[1].sharedSettings);
+        expect(loadedCloths[0].sharedSettings.edges).toEqual(settings.edges);
+        expect(loadedCloths[0].sharedSettings.bends).toEqual(settings.bends);
+        expect(loadedCloths[0].sharedSettings.volumes).toEqual(settings.volumes);
+        for (let i = 0; i < cloths.length; i++) {
+            expect(loadedCloths[i].objectLayer).toBe(cloths[i].objectLayer);
+            expect(loadedCloths[i].friction).toBe(0.5);
+            expect(loadedCloths[i].numIterations).toBe(cloths[i].numIterations);
+            expect(loadedCloths[i].userData).toEqual(cloths[i].userData);
+            expect(loadedCloths[i].aabb).toEqual(cloths[i].aabb);
+            for (let j = 0; j < cloths[i].particles.length; j++) {
+                expect(loadedCloths[i].particles[j].position).toEqual(cloths[i].particles[j].position);
+                expect(loadedCloths[i].particles[j].invMass).toBe(cloths[i].particles[j].invMass);
+            }
+        }
+
+        // the pinned particle stays pinned, the other cloth falls
+        const pinnedPosition = vec3.clone(loadedCloths[0].particles[corner].position);
+        const fallingHeight = loadedCloths[1].particles[corner].position[1];
+        step(loaded, 20);
+        expect(loadedCloths[0].particles[corner].position).toEqual(pinnedPosition);
+        expect(loadedCloths[1].particles[corner].position[1]).toBeLessThan(fallingHeight);
+    });
+
+    test('should require the soft bodies system to be registered', () => {
+        const { world, layers } = createScene();
+        const settings = softBodySharedSettings.createCloth({ gridSizeX: 2, gridSizeZ: 2, spacing: 1 });
+
+        delete systemDefs[SystemType.SOFT_BODIES];
+        try {
+            expect(() => softBody.create(world, { sharedSettings: settings, objectLayer: layers.OBJECT_LAYER_MOVING })).toThrow(
+                'registerSystems',
+            );
+        } finally {
+            registerSystems([softBody.def]);
+        }
+    });
+
+    test('should invalidate ids of removed soft bodies', () => {
+        const { world, layers } = createScene();
+        const settings = softBodySharedSettings.createCloth({ gridSizeX: 2, gridSizeZ: 2, spacing: 1 });
+
+        const first = softBody.create(world, { sharedSettings: settings, objectLayer: layers.OBJECT_LAYER_MOVING });
+        expect(softBody.get(world, first.id)).toBe(first);
+
+        expect(softBody.remove(world, first)).toBe(true);
+        expect(softBody.remove(world, first)).toBe(false);
+        expect(softBody.get(world, first.id)).toBeUndefined();
+
+        const second = softBody.create(world, { sharedSettings: settings, objectLayer: layers.OBJECT_LAYER_MOVING });
+        expect(second.index).toBe(first.index);
+        expect(softBody.get(world, first.id)).toBeUndefined();
+        expect(softBody.get(world, second.id)).toBe(second);
+        expect([...softBody.iterate(world)]).toEqual([second]);
+    });
+});
@@ -0,0 +1,117 @@
+import { quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import { MotionType, rigidBody, sphere, stepper } from '../src';
+import { createTestWorld } from './helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    const ball = rigidBody.create(world, {
+        shape: sphere.create({ radius: 0.5 }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 10, 0),
+    });
+
+    return { world, ball };
+}
+
+describe('Stepper', () => {
+    test('should run fixed steps for variable frame deltas', () => {
+        const { world } = createScene();
+        const physicsStepper = stepper.create({ fixedTimeStep: 1 / 60 });
+
+        expect(stepper.update(physicsStepper, world, undefined, 1 / 120)).toBe(0);
+        expect(physicsStepper.alpha).toBeCloseTo(0.5);
+        expect(world.previousTimeStep).toBe(0);
+
+        expect(stepper.update(physicsStepper, world, undefined, 1 / 120 + 1 / 30)).toBe(3);
+        expect(physicsStepper.accumulator).toBeCloseTo(0);
+        expect(world.previousTimeStep).toBe(1 / 60);
+    });
+
+    test('should drop time beyond the maximum steps per frame', () => {
+        const { world } = createScene();
+        const physicsStepper = stepper.create({ fixedTimeStep: 1 / 60, maxStepsPerFrame: 4 });
+
+        // a one second hitch only runs 4 steps and doesn't carry the rest over to the next frames
+        expect(stepper.update(physicsStepper, world, undefined, 1.005)).toBe(4);
+        expect(physicsStepper.accumulator).toBeLessThan(1 / 60);
+        expect(stepper.update(physicsStepper, world, undefined, 0)).toBe(0);
+    });
+
+    test('should split steps into collision sub steps', () => {
+        const { world } = createScene();
+        const physicsStepper = stepper.create({ fixedTimeStep: 1 / 30, collisionSteps: 2 });
+
+        expect(stepper.update(physicsStepper, world, undefined, 1 / 30)).toBe(1);
+        expect(world.previousTimeStep).toBe(1 / 60);
+    });
+
+    test('should interpolate between the previous and current transforms', () => {
+        const { world, ball } = createScene();
+        const physicsStepper = stepper.create({ fixedTimeStep: 1 / 60 });
+        const position = vec3.create();
+        const quaternion = quat.create();
+
+        // before the first step the body is rendered where it is
+        expect(stepper.getInterpolatedPosition(position, physicsStepper, ball)).toEqual(ball.position);
+
+        rigidBody.setAngularVelocity(world, ball, vec3.fromValues(0, 10, 0));
+        stepper.update(physicsStepper, world, undefined, 1 / 60);
+        const previous = vec3.clone(ball.position);
+        const previousQuaternion = quat.clone(ball.quaternion);
+        stepper.update(physicsStepper, world, undefined, 1 / 60 + 1 / 240);
+
+        expect(physicsStepper.alpha).toBeCloseTo(0.25);
+        stepper.getInterpolatedPosition(position, physicsStepper, ball);
+        expect(position[1]).toBeCloseTo(previous[1] + 0.25 * (ball.position[1] - previous[1]), 10);
+
+        stepper.getInterpolatedQuaternion(quaternion, physicsStepper, ball);
+        const expected = quat.slerp(quat.create(), previousQuaternion, ball.quaternion, 0.25);
+        for (let i = 0; i < 4; i++) {
+            expect(quaternion[i]).toBeCloseTo(expected[i], 10);
+        }
+
+        // teleporting resets the interpolation
+        rigidBody.setPosition(world, ball, vec3.fromValues(5, 5, 5), false);
+        stepper.resetInterpolation(physicsStepper, ball);
+        expect(stepper.getInterpolatedPosition(position, physicsStepper, ball)).toEqual([5, 5, 5]);
+    });
+
+    test('should not interpolate from a removed body that reused the same slot', () => {
+        const { world, ball } = createScene();
+        const physicsStepper = stepper.create();
+        stepper.update(physicsStepper, world, undefined, 1 / 60);
+
+        rigidBody.remove(world, ball);
+        const replacement = rigidBody.create(world, {
+            shape: ball.shape,
+            objectLayer: ball.objectLayer,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(3, 0, 0),
+        });
+        expect(replacement.index).toBe(ball.index);
+
+        expect(stepper.getInterpolatedPosition(vec3.create(), physicsStepper, replacement)).toEqual([3, 0, 0]);
+    });
+
+    test('should reject non-finite frame deltas and ignore negative ones', () => {
+        const { world } = createScene();
+        const physicsStepper = stepper.create({ fixedTimeStep: 1 / 60 });
+
+        expect(() => stepper.update(physicsStepper, world, undefined, Number.NaN)).toThrow('finite');
+        expect(() => stepper.update(physicsStepper, world, undefined, Number.POSITIVE_INFINITY)).toThrow('finite');
+        expect(stepper.update(physicsStepper, world, undefined, -1)).toBe(0);
+        expect(physicsStepper.accumulator).toBe(0);
+
+        // the stepper keeps stepping afterwards
+        expect(stepper.update(physicsStepper, world, undefined, 1 / 60)).toBe(1);
+    });
+
+    test('should validate settings', () => {
+        expect(() => stepper.create({ fixedTimeStep: 0 })).toThrow();
+        expect(() => stepper.create({ maxStepsPerFrame: 0 })).toThrow();
+        expect(() => stepper.create({ collisionSteps: 0 })).toThrow();
+    });
+});
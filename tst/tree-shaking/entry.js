@@ -1,6 +1,10 @@
-import { registerShapes, sphere, box } from '../../dist/index.js';
+import { registerShapes, sphere, box, createWorld, createWorldSettings, updateWorld } from '../../dist/index.js';
 
 registerShapes([sphere.def, box.def]);
 const s = sphere.create({ radius: 1 });
 const b = box.create({ halfExtents: [1, 1, 1] });
 console.log(s, b);
+
+// systems that are not registered, e.g. soft bodies and sensors, should not be bundled with updateWorld
+const world = createWorld(createWorldSettings());
+updateWorld(world, undefined, 1 / 60);
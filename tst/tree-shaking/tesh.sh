@@ -18,3 +18,19 @@ if grep -q "type: ConstraintType.CONE" dist/output.js; then
 else
     echo "Success: String 'type: ConstraintType.CONE' not found in output, tree shaking succeeded"
 fi
+
+# should not find string "function updateSoftBodies"
+if grep -q "function updateSoftBodies" dist/output.js; then
+    echo "Error: Found string 'function updateSoftBodies' in output, tree shaking failed"
+    exit 1
+else
+    echo "Success: String 'function updateSoftBodies' not found in output, tree shaking succeeded"
+fi
+
+# should not find string "function updateSensors"
+if grep -q "function updateSensors" dist/output.js; then
+    echo "Error: Found string 'function updateSensors' in output, tree shaking failed"
+    exit 1
+else
+    echo "Success: String 'function updateSensors' not found in output, tree shaking succeeded"
+fi
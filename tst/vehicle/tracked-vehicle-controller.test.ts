@@ -0,0 +1,145 @@
+import { type Quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    MotionType,
+    restoreWorldState,
+    rigidBody,
+    saveWorldState,
+    type TrackedVehicleController,
+    trackedVehicleController,
+    updateWorld,
+    VehicleControllerType,
+    vehicleConstraint,
+    type World,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(100, 1, 100) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, -1, 0),
+    });
+
+    const tank = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(1.5, 0.4, 3) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 1.5, 0),
+        mass: 4000,
+    });
+
+    // 5 road wheels per side, the front wheel drives the track
+    const wheels = [];
+    const leftWheels: number[] = [];
+    const rightWheels: number[] = [];
+    for (const x of [-1.5, 1.5]) {
+        for (let i = 0; i < 5; i++) {
+            (x < 0 ? leftWheels : rightWheels).push(wheels.length);
+            wheels.push({
+                position: vec3.fromValues(x, -0.2, 2.4 - i * 1.2),
+                radius: 0.4,
+                width: 0.5,
+                suspensionMinLength: 0.2,
+                suspensionMaxLength: 0.4,
+            });
+        }
+    }
+
+    const vehicle = vehicleConstraint.create(world, {
+        bodyId: tank.id,
+        wheels,
+        controller: {
+            type: VehicleControllerType.TRACKED,
+            tracks: [
+                { drivenWheel: leftWheels[0], wheels: leftWheels },
+                { drivenWheel: rightWheels[0], wheels: rightWheels },
+            ],
+        },
+    });
+
+    return { world, tank, vehicle, controller: vehicle.controller as TrackedVehicleController };
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+function getHeading(q: Quat) {
+    const forward = vec3.transformQuat(vec3.create(), vec3.fromValues(0, 0, 1), q);
+    return Math.atan2(forward[0], forward[2]);
+}
+
+describe('Tracked Vehicle Controller', () => {
+    test('should drive forward and brake', () => {
+        const { world, tank, vehicle, controller } = createScene();
+        step(world, 60);
+
+        trackedVehicleController.setDriverInput(controller, 1, 1, 1, 0, 0);
+        step(world, 120);
+        expect(tank.motionProperties.linearVelocity[2]).toBeGreaterThan(1);
+        expect(Math.abs(tank.position[0])).toBeLessThan(0.1);
+
+        // all wheels of a track share the track velocity
+        for (const track of controller.tracks) {
+            for (const wheelIndex of track.wheels) {
+                expect(vehicle.wheels[wheelIndex].angularVelocity).toBeCloseTo(track.angularVelocity, 5);
+            }
+        }
+
+        trackedVehicleController.setDriverInput(controller, 0, 1, 1, 1, 1);
+        step(world, 120);
+        expect(Math.abs(tank.motionProperties.linearVelocity[2])).toBeLessThan(0.1);
+    });
+
+    test('should turn on the spot with opposite track ratios', () => {
+        const { world, tank, controller } = createScene();
+        step(world, 60);
+
+        trackedVehicleController.setDriverInput(controller, 1, 1, -1, 0, 0);
+        step(world, 120);
+
+        // the tank rotates around its center without moving far
+        expect(Math.abs(getHeading(tank.quaternion))).toBeGreaterThan(0.2);
+        expect(Math.hypot(tank.position[0], tank.position[2])).toBeLessThan(0.5);
+    });
+
+    test('should produce identical results after restoring a snapshot', () => {
+        const { world, tank, controller } = createScene();
+        trackedVehicleController.setDriverInput(controller, 1, 1, 0.5, 0, 0);
+        step(world, 60);
+
+        const snapshot = saveWorldState(world);
+        step(world, 60);
+        const expectedPosition = vec3.clone(tank.position);
+        const expectedTrackVelocity = controller.tracks[0].angularVelocity;
+
+        restoreWorldState(world, snapshot);
+        step(world, 60);
+        expect(tank.position).toEqual(expectedPosition);
+        expect(controller.tracks[0].angularVelocity).toBe(expectedTrackVelocity);
+    });
+
+    test('should throw for invalid track wheels', () => {
+        const { world, tank } = createScene();
+        expect(() =>
+            vehicleConstraint.create(world, {
+                bodyId: tank.id,
+                wheels: [{ position: vec3.fromValues(0, 0, 0) }],
+                controller: {
+                    type: VehicleControllerType.TRACKED,
+                    tracks: [
+                        { drivenWheel: 0, wheels: [0] },
+                        { drivenWheel: 1, wheels: [1] },
+                    ],
+                },
+            }),
+        ).toThrow();
+    });
+});
@@ -0,0 +1,164 @@
+import { vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    MotionType,
+    restoreWorldState,
+    rigidBody,
+    saveWorldState,
+    updateWorld,
+    VehicleCollisionTesterType,
+    VehicleControllerType,
+    vehicleConstraint,
+    type WheeledVehicleController,
+    wheeledVehicleController,
+    type World,
+} from '../../src';
+import { createTestWorld } from '../helpers';
+
+function createScene(collisionTesterType = VehicleCollisionTesterType.RAY) {
+    const { world, layers } = createTestWorld();
+
+    rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(100, 1, 100) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, -1, 0),
+    });
+
+    const car = rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(0.9, 0.2, 2) }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 1.2, 0),
+        mass: 1500,
+    });
+
+    const wheelPositions = [
+        vec3.fromValues(-0.9, -0.1, 1.4),
+        vec3.fromValues(0.9, -0.1, 1.4),
+        vec3.fromValues(-0.9, -0.1, -1.4),
+        vec3.fromValues(0.9, -0.1, -1.4),
+    ];
+
+    const vehicle = vehicleConstraint.create(world, {
+        bodyId: car.id,
+        wheels: wheelPositions.map((position, i) => ({
+            position,
+            radius: 0.3,
+            width: 0.2,
+            suspensionMinLength: 0.3,
+            suspensionMaxLength: 0.5,
+            // only the front wheels steer, only the rear wheels have a hand brake
+            maxSteerAngle: i < 2 ? Math.PI / 6 : 0,
+            maxHandBrakeTorque: i < 2 ? 0 : 4000,
+        })),
+        antiRollBars: [
+            { leftWheel: 0, rightWheel: 1 },
+            { leftWheel: 2, rightWheel: 3 },
+        ],
+        controller: {
+            type: VehicleControllerType.WHEELED,
+            differentials: [{ leftWheel: 0, rightWheel: 1 }],
+        },
+        collisionTester: { type: collisionTesterType, radius: 0.3 },
+    });
+
+    return { world, car, vehicle, controller: vehicle.controller as WheeledVehicleController };
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+describe('Vehicle Constraint', () => {
+    test.each([
+        ['ray', VehicleCollisionTesterType.RAY],
+        ['cast sphere', VehicleCollisionTesterType.CAST_SPHERE],
+    ])('should rest on its suspension (%s)', (_name, collisionTesterType) => {
+        const { world, car, vehicle } = createScene(collisionTesterType);
+        step(world, 180);
+
+        // the body hovers above the ground on its wheels
+        for (const wheel of vehicle.wheels) {
+            expect(wheel.contactBodyIndex).not.toBe(-1);
+            expect(wheel.suspensionLength).toBeGreaterThan(wheel.suspensionMinLength - 0.01);
+            expect(wheel.suspensionLength).toBeLessThan(wheel.suspensionMaxLength);
+        }
+        expect(car.position[1]).toBeGreaterThan(0.6);
+        expect(car.position[1]).toBeLessThan(1);
+        expect(vec3.length(car.motionProperties.linearVelocity)).toBeLessThan(0.05);
+    });
+
+    test('should accelerate forward and brake', () => {
+        const { world, car, controller } = createScene();
+        step(world, 60);
+
+        wheeledVehicleController.setDriverInput(controller, 1, 0, 0, 0);
+        step(world, 120);
+        expect(car.motionProperties.linearVelocity[2]).toBeGreaterThan(2);
+        expect(car.position[2]).toBeGreaterThan(1);
+        expect(Math.abs(car.position[0])).toBeLessThan(0.1);
+
+        wheeledVehicleController.setDriverInput(controller, 0, 0, 1, 0);
+        step(world, 180);
+        expect(Math.abs(car.motionProperties.linearVelocity[2])).toBeLessThan(0.1);
+    });
+
+    test('should turn when steering', () => {
+        const { world, car, controller } = createScene();
+        step(world, 60);
+
+        wheeledVehicleController.setDriverInput(controller, 0.5, 1, 0, 0);
+        step(world, 180);
+
+        // steering right turns the car towards -x
+        expect(car.position[0]).toBeLessThan(-0.5);
+    });
+
+    test('should produce identical results after restoring a snapshot', () => {
+        const { world, car, controller } = createScene();
+        wheeledVehicleController.setDriverInput(controller, 1, 0.3, 0, 0);
+        step(world, 60);
+
+        const snapshot = saveWorldState(world);
+        step(world, 60);
+        const expectedPosition = vec3.clone(car.position);
+        const expectedRPM = controller.engine.currentRPM;
+
+        restoreWorldState(world, snapshot);
+        step(world, 60);
+        expect(car.position).toEqual(expectedPosition);
+        expect(controller.engine.currentRPM).toBe(expectedRPM);
+    });
+
+    test('should break when the wheels carry more than the break force', () => {
+        const { world, vehicle } = createScene();
+        step(world, 30);
+
+        // the wheels carry the weight of the car, about 15000 N, once it landed on its suspension
+        vehicle.breakForce = 25000;
+        step(world, 10);
+        expect(vehicle.enabled).toBe(true);
+
+        const broken: unknown[] = [];
+        vehicle.breakForce = 5000;
+        updateWorld(world, { onConstraintBroken: (constraint) => broken.push(constraint) }, 1 / 60);
+        expect(vehicle.enabled).toBe(false);
+        expect(broken).toEqual([vehicle]);
+    });
+
+    test('should throw for invalid anti-roll bar wheels', () => {
+        const { world, car } = createScene();
+        expect(() =>
+            vehicleConstraint.create(world, {
+                bodyId: car.id,
+                wheels: [{ position: vec3.fromValues(0, 0, 0) }],
+                antiRollBars: [{ leftWheel: 0, rightWheel: 1 }],
+                controller: { type: VehicleControllerType.WHEELED },
+            }),
+        ).toThrow();
+    });
+});
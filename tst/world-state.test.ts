@@ -0,0 +1,187 @@
+import { quat, vec3 } from 'mathcat';
+import { describe, expect, test } from 'vitest';
+import {
+    box,
+    ConstraintSpace,
+    distanceConstraint,
+    hingeConstraint,
+    MotionType,
+    restoreWorldState,
+    rigidBody,
+    saveWorldState,
+    sphere,
+    updateWorld,
+    type World,
+} from '../src';
+import { createTestWorld } from './helpers';
+
+function createScene() {
+    const { world, layers } = createTestWorld();
+
+    rigidBody.create(world, {
+        shape: box.create({ halfExtents: vec3.fromValues(20, 1, 20) }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, -1, 0),
+    });
+
+    // a slightly offset stack of boxes
+    for (let i = 0; i < 5; i++) {
+        rigidBody.create(world, {
+            shape: box.create({ halfExtents: vec3.fromValues(0.5, 0.5, 0.5) }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+            position: vec3.fromValues(i * 0.05, 0.5 + i * 1.01, 0),
+            quaternion: quat.setAxisAngle(quat.create(), vec3.fromValues(0, 1, 0), i * 0.2),
+        });
+    }
+
+    // a pendulum on a hinge, hitting the stack
+    const anchor = rigidBody.create(world, {
+        shape: sphere.create({ radius: 0.1 }),
+        objectLayer: layers.OBJECT_LAYER_NOT_MOVING,
+        motionType: MotionType.STATIC,
+        position: vec3.fromValues(0, 6, 3),
+    });
+
+    const bob = rigidBody.create(world, {
+        shape: sphere.create({ radius: 0.5 }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(0, 3, 6),
+    });
+
+    hingeConstraint.create(world, {
+        bodyIdA: anchor.id,
+        bodyIdB: bob.id,
+        pointA: vec3.fromValues(0, 6, 3),
+        pointB: vec3.fromValues(0, 6, 3),
+        hingeAxisA: vec3.fromValues(1, 0, 0),
+        hingeAxisB: vec3.fromValues(1, 0, 0),
+        normalAxisA: vec3.fromValues(0, 1, 0),
+        normalAxisB: vec3.fromValues(0, 1, 0),
+        space: ConstraintSpace.WORLD,
+    });
+
+    // a sphere on a rope
+    const ball = rigidBody.create(world, {
+        shape: sphere.create({ radius: 0.3 }),
+        objectLayer: layers.OBJECT_LAYER_MOVING,
+        motionType: MotionType.DYNAMIC,
+        position: vec3.fromValues(3, 4, 0),
+    });
+
+    distanceConstraint.create(world, {
+        bodyIdA: anchor.id,
+        bodyIdB: ball.id,
+        pointA: vec3.fromValues(0, 6, 3),
+        pointB: vec3.fromValues(3, 4, 0),
+        space: ConstraintSpace.WORLD,
+    });
+
+    return world;
+}
+
+function step(world: World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        updateWorld(world, undefined, 1 / 60);
+    }
+}
+
+function getBodyStates(world: World) {
+    const states: number[][] = [];
+    for (const body of world.bodies.pool) {
+        if (body._pooled) continue;
+        states.push([
+            ...body.position,
+            ...body.quaternion,
+            ...body.motionProperties.linearVelocity,
+            ...body.motionProperties.angularVelocity,
+            body.sleeping ? 1 : 0,
+        ]);
+    }
+    return states;
+}
+
+describe('World State', () => {
+    test('should produce bit-identical results after restoring and stepping', () => {
+        const world = createScene();
+        step(world, 30);
+
+        const snapshot = saveWorldState(world);
+
+        step(world, 60);
+        const expectedBodies = getBodyStates(world);
+        const expectedSnapshot = saveWorldState(world);
+
+        restoreWorldState(world, snapshot);
+        expect(saveWorldState(world)).toEqual(snapshot);
+
+        step(world, 60);
+        expect(getBodyStates(world)).toEqual(expectedBodies);
+        expect(saveWorldState(world)).toEqual(expectedSnapshot);
+    });
+
+    test('should restore into an identically built world', () => {
+        const worldA = createScene();
+        step(worldA, 45);
+        const snapshot = saveWorldState(worldA);
+        step(worldA, 45);
+
+        const worldB = createScene();
+        restoreWorldState(worldB, snapshot);
+        step(worldB, 45);
+
+        expect(getBodyStates(worldB)).toEqual(getBodyStates(worldA));
+        expect(saveWorldState(worldB)).toEqual(saveWorldState(worldA));
+    });
+
+    test('should restore sleeping state and contact impulses', () => {
+        const world = createScene();
+
+        // step until the stack has settled and gone to sleep
+        step(world, 600);
+        const sleepingSnapshot = saveWorldState(world);
+        const sleepingBodies = getBodyStates(world);
+        const activeBodyCount = world.bodies.activeBodyCount;
+        expect(world.bodies.pool.some((body) => body.sleeping)).toBe(true);
+
+        // wake everything up with an impulse
+        const top = world.bodies.pool[5];
+        rigidBody.addImpulse(world, top, vec3.fromValues(10, 0, 0));
+        step(world, 10);
+        expect(getBodyStates(world)).not.toEqual(sleepingBodies);
+
+        restoreWorldState(world, sleepingSnapshot);
+        expect(getBodyStates(world)).toEqual(sleepingBodies);
+        expect(world.bodies.activeBodyCount).toBe(activeBodyCount);
+
+        const expected = createScene();
+        step(expected, 610);
+        step(world, 10);
+        expect(getBodyStates(world)).toEqual(getBodyStates(expected));
+    });
+
+    test('should throw when restoring into a world with different bodies', () => {
+        const world = createScene();
+        step(world, 5);
+        const snapshot = saveWorldState(world);
+
+        const { world: otherWorld, layers } = createTestWorld();
+        rigidBody.create(otherWorld, {
+            shape: sphere.create({ radius: 1 }),
+            objectLayer: layers.OBJECT_LAYER_MOVING,
+            motionType: MotionType.DYNAMIC,
+        });
+
+        expect(() => restoreWorldState(otherWorld, snapshot)).toThrow();
+    });
+
+    test('should throw on unsupported snapshot version', () => {
+        const world = createScene();
+        const snapshot = saveWorldState(world);
+        snapshot[0] = 255;
+
+        expect(() => restoreWorldState(world, snapshot)).toThrow(/version/);
+    });
+});